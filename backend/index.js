@@ -35,6 +35,19 @@ import { startKeepAlive } from './src/utils/keepAlive.js';
 // ... existing imports ...
 import caseRoutes from './src/routes/cases.js';
 import caseNotesRoutes from './src/routes/caseNotes.js';
+import caseLinkRoutes from './src/routes/caseLinks.js';
+import caseClosureRoutes from './src/routes/caseClosure.js';
+import caseTimelineRoutes from './src/routes/caseTimeline.js';
+import notesRoutes from './src/routes/notes.js';
+import trashRoutes from './src/routes/trash.js';
+import historyRoutes from './src/routes/history.js';
+import caseFieldRoutes from './src/routes/caseFields.js';
+import deadlineRoutes from './src/routes/deadlines.js';
+import bulkRoutes from './src/routes/bulk.js';
+import importRoutes from './src/routes/imports.js';
+import courtRoutes from './src/routes/courts.js';
+import viewRoutes from './src/routes/views.js';
+import calendarRoutes from './src/routes/calendar.js';
 import noteAttachmentsRoute from './src/routes/noteAttachments.js';
 import clientRoutes from './src/routes/clients.js';
 import alertRoutes from './src/routes/alerts.js';
@@ -50,6 +63,7 @@ import adminInternalRoutes from './src/routes/adminInternal.js';
 import newsRoutes from './routes/news.js';
 import legalRoutes from './src/routes/legal.routes.js';
 import templatesRoutes from './src/routes/templates.routes.js';
+import eventsRoutes from './src/routes/events.js';
 import { startLegalCron } from './src/jobs/legalCron.js';
 import { startTokenCleanup } from './src/jobs/tokenCleanup.js';
 import { requestId } from './src/middleware/requestId.js';
@@ -447,7 +461,20 @@ app.use('/api/v1/auth', googleAuthRoutes); // Google OAuth (limiter now inside)
 app.use('/api/v1/auth', securityQuestionRoutes);
 app.use('/api/v1/cases/:caseId/notes/:noteId/attachments', noteAttachmentsRoute);
 app.use('/api/v1/cases/:caseId/notes', caseNotesRoutes);
+app.use('/api/v1/cases/:caseId/links', caseLinkRoutes);
+app.use('/api/v1/cases/:caseId/closure', caseClosureRoutes);
+app.use('/api/v1/cases/:caseId/timeline', caseTimelineRoutes);
 app.use('/api/v1/cases', caseRoutes);
+app.use('/api/v1/notes', notesRoutes);
+app.use('/api/v1/trash', trashRoutes);
+app.use('/api/v1/history', historyRoutes);
+app.use('/api/v1/case-fields', caseFieldRoutes);
+app.use('/api/v1/deadlines', deadlineRoutes);
+app.use('/api/v1/bulk', bulkRoutes);
+app.use('/api/v1/imports', importRoutes);
+app.use('/api/v1/courts', courtRoutes);
+app.use('/api/v1/views', viewRoutes);
+app.use('/api/v1/calendar', calendarRoutes);
 app.use('/api/v1/clients', clientRoutes);
 app.use('/api/v1/alerts', alertRoutes);
 app.use('/api/v1/time-entries', timeEntryRoutes);
@@ -463,6 +490,7 @@ app.use('/api/v1/news', newsRoutes);
 app.use('/api/news', newsRoutes);
 app.use('/api/v1/legal', legalRoutes);
 app.use('/api/v1/templates', templatesRoutes);
+app.use('/api/v1/events', eventsRoutes);
 
 // ─── Backward Compatibility /api/* → /api/v1/* (90-day window) ───────────────
 app.use('/api/auth', forgotPasswordRoutes);
@@ -0,0 +1,56 @@
+import { describe, test, expect } from '@jest/globals';
+import fs from 'fs';
+import path from 'path';
+import * as validation from '../schemas/validation-schemas.js';
+
+/**
+ * The frontend API client validates responses against enums mirrored from
+ * validation-schemas.js (the two packages build in separate Docker contexts,
+ * so they cannot import each other). This fails when the copies drift apart.
+ * Skipped when the frontend sources are not checked out next to the backend.
+ */
+
+const FRONTEND_SCHEMAS = path.resolve(process.cwd(), '../frontend/src/services/api/schemas.ts');
+const hasFrontend = fs.existsSync(FRONTEND_SCHEMAS);
+const describeif = hasFrontend ? describe : describe.skip;
+
+const SHARED_ENUMS = [
+    'CASE_STATUSES',
+    'CASE_PRIORITIES',
+    'HEARING_STATUSES',
+    'INVOICE_STATUSES',
+    'ALERT_TYPES',
+    'NOTE_TYPES',
+    'NOTE_ATTACHMENT_TYPES',
+    'TEMPLATE_DOCUMENT_STATUSES',
+    'CUSTOM_FIELD_TYPES',
+    'PARTY_ROLES',
+    'PARTY_TYPES',
+    'DEADLINE_STATUSES',
+    'CASE_LINK_TYPES',
+    'BULK_ACTIONS',
+    'IMPORT_ENTITIES',
+    'IMPORT_STATUSES',
+    'TIMELINE_EVENT_TYPES',
+    'COURT_LEVELS',
+    'SAVED_VIEW_PAGES',
+    'CLOSURE_OUTCOMES',
+    'CALENDAR_IMPORT_ACTIONS',
+];
+
+function readFrontendEnum(source, name) {
+    const match = source.match(new RegExp(`export const ${name} = \\[([^\\]]*)\\] as const;`));
+    if (!match) {
+        return null;
+    }
+    return [...match[1].matchAll(/'([^']*)'/g)].map(m => m[1]);
+}
+
+describeif('Frontend API schema enums', () => {
+    const source = hasFrontend ? fs.readFileSync(FRONTEND_SCHEMAS, 'utf8') : '';
+
+    test.each(SHARED_ENUMS)('%s matches the backend list', (name) => {
+        expect(validation[name]).toBeDefined();
+        expect(readFrontendEnum(source, name)).toEqual(validation[name]);
+    });
+});
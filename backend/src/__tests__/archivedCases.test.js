@@ -0,0 +1,130 @@
+import { describe, test, expect, jest, beforeAll, afterEach } from '@jest/globals';
+import Case from '../models/Case.js';
+import Hearing from '../models/Hearing.js';
+import { ARCHIVED_CASE_MESSAGE } from '../services/caseClosure.js';
+import { previewImport } from '../services/dataImport.js';
+
+/**
+ * Archived cases are read-only. The routes' guards run against fake requests
+ * with the models mocked; the handlers behind them are not called.
+ */
+
+const OWNER = '64b7f0c2a1b2c3d4e5f60900';
+const CASE_ID = '64b7f0c2a1b2c3d4e5f60901';
+const HEARING_ID = '64b7f0c2a1b2c3d4e5f60902';
+const NOTE_ID = '64b7f0c2a1b2c3d4e5f60903';
+
+const archivedCase = { _id: CASE_ID, caseNumber: 'OS 12/2024', courtName: 'City Civil Court', archivedAt: new Date('2025-01-10') };
+const openCase = { ...archivedCase, archivedAt: null };
+
+let routers;
+
+beforeAll(async () => {
+    // The routes' auth middleware validates the environment when it loads
+    process.env.MONGODB_URI ??= 'mongodb://localhost:27017/juriq-test';
+    process.env.JWT_SECRET ??= 'test-jwt-secret-minimum-32-chars-for-test';
+    process.env.JWT_REFRESH_SECRET ??= 'test-refresh-secret-minimum-32-chars-for-test';
+    routers = {
+        cases: (await import('../routes/cases.js')).default,
+        hearings: (await import('../routes/hearings.js')).default,
+        notes: (await import('../routes/caseNotes.js')).default,
+    };
+});
+
+afterEach(() => {
+    jest.restoreAllMocks();
+});
+
+const lean = (value) => ({ select: () => ({ lean: () => Promise.resolve(value) }) });
+
+/**
+ * Run the middleware of a route up to its handler.
+ * @returns {Promise<{ passed: boolean, res: Object }>} whether every guard let the request through
+ */
+async function runGuards(router, method, path, req) {
+    const layer = router.stack.find(l => l.route?.path === path && l.route.methods[method]);
+    const res = {
+        statusCode: 200,
+        status(code) { this.statusCode = code; return this; },
+        json(body) { this.body = body; return this; },
+    };
+    for (const { handle } of layer.route.stack.slice(0, -1)) {
+        let calledNext = false;
+        await handle({ user: { userId: OWNER }, params: {}, body: {}, ...req }, res, () => { calledNext = true; });
+        if (!calledNext) {
+            return { passed: false, res };
+        }
+    }
+    return { passed: true, res };
+}
+
+describe('archived cases', () => {
+    test.each([
+        ['post', '/'],
+        ['put', '/:noteId'],
+        ['delete', '/:noteId'],
+    ])('refuse note %s', async (method, path) => {
+        const { passed, res } = await runGuards(routers.notes, method, path, {
+            params: { caseId: CASE_ID, noteId: NOTE_ID },
+            caseDoc: archivedCase,
+        });
+        expect(passed).toBe(false);
+        expect(res.statusCode).toBe(409);
+        expect(res.body).toEqual({ error: ARCHIVED_CASE_MESSAGE });
+    });
+
+    test('refuse pipeline changes', async () => {
+        jest.spyOn(Case, 'findOne').mockReturnValue(lean(archivedCase));
+        const { passed, res } = await runGuards(routers.cases, 'post', '/:id/pipeline', { params: { id: CASE_ID } });
+        expect(passed).toBe(false);
+        expect(res.statusCode).toBe(409);
+    });
+
+    test('refuse hearing deletes, looking the case up through the hearing', async () => {
+        const hearingFind = jest.spyOn(Hearing, 'findOne').mockReturnValue(lean({ _id: HEARING_ID, caseId: CASE_ID }));
+        const caseFind = jest.spyOn(Case, 'findOne').mockReturnValue(lean(archivedCase));
+        const { passed, res } = await runGuards(routers.hearings, 'delete', '/:id', { params: { id: HEARING_ID } });
+        expect(passed).toBe(false);
+        expect(res.statusCode).toBe(409);
+        expect(hearingFind).toHaveBeenCalledWith({ _id: HEARING_ID, owner: OWNER });
+        expect(caseFind).toHaveBeenCalledWith({ _id: CASE_ID, owner: OWNER });
+    });
+
+    test('refuse moving a hearing onto an archived case', async () => {
+        const OPEN_ID = '64b7f0c2a1b2c3d4e5f60904';
+        jest.spyOn(Hearing, 'findOne').mockReturnValue(lean({ _id: HEARING_ID, caseId: OPEN_ID }));
+        jest.spyOn(Case, 'findOne').mockImplementation(({ _id }) => lean(_id === CASE_ID ? archivedCase : openCase));
+        const { passed, res } = await runGuards(routers.hearings, 'put', '/:id', {
+            params: { id: HEARING_ID },
+            body: { caseId: CASE_ID },
+        });
+        expect(passed).toBe(false);
+        expect(res.statusCode).toBe(409);
+    });
+
+    test('let writes to open cases through', async () => {
+        jest.spyOn(Hearing, 'findOne').mockReturnValue(lean({ _id: HEARING_ID, caseId: CASE_ID }));
+        jest.spyOn(Case, 'findOne').mockReturnValue(lean(openCase));
+        expect((await runGuards(routers.hearings, 'delete', '/:id', { params: { id: HEARING_ID } })).passed).toBe(true);
+        expect((await runGuards(routers.cases, 'post', '/:id/pipeline', { params: { id: CASE_ID } })).passed).toBe(true);
+        expect((await runGuards(routers.notes, 'post', '/', { caseDoc: openCase })).passed).toBe(true);
+    });
+
+    test('refuse imported hearings and case merges', async () => {
+        jest.spyOn(Case, 'find').mockReturnValue(lean([archivedCase]));
+        jest.spyOn(Hearing, 'find').mockReturnValue(lean([]));
+        const draft = (entity, headers, rows) => ({ entity, headers, rows, owner: OWNER, save: () => Promise.resolve() });
+
+        const hearings = await previewImport(
+            draft('hearing', ['Case No', 'Date'], [['OS 12/2024', '15/03/2025']]),
+            { mapping: { caseNumber: 0, hearingDate: 1 } }
+        );
+        expect(hearings.issues).toEqual([{ row: 2, errors: [`OS 12/2024: ${ARCHIVED_CASE_MESSAGE}`], duplicate: null }]);
+
+        const cases = await previewImport(
+            draft('case', ['Case No', 'Client', 'Court'], [['OS 12/2024', 'Asha Rao', 'City Civil Court']]),
+            { mapping: { caseNumber: 0, clientName: 1, courtName: 2 } }
+        );
+        expect(cases.invalid).toBe(1);
+    });
+});
@@ -0,0 +1,69 @@
+import { describe, test, expect } from '@jest/globals';
+import {
+    BulkActionError,
+    MAX_BULK_ITEMS,
+    mergeTags,
+    normalizeBulkRequest,
+    normalizeTags,
+} from '../services/bulkActions.js';
+
+const ID_A = '64b7f0c2a1b2c3d4e5f60718';
+const ID_B = '64b7f0c2a1b2c3d4e5f60719';
+
+describe('normalizeTags', () => {
+    test('trims, collapses spaces and drops case-insensitive duplicates', () => {
+        expect(normalizeTags(['  Year end ', 'year   END', '', 'Disposed', 42])).toEqual(['Year end', 'Disposed']);
+    });
+
+    test('rejects over-long tags and non-lists', () => {
+        expect(() => normalizeTags(['x'.repeat(41)])).toThrow(BulkActionError);
+        expect(() => normalizeTags('disposed')).toThrow(BulkActionError);
+    });
+});
+
+describe('mergeTags', () => {
+    test('keeps existing tags and their spelling', () => {
+        expect(mergeTags(['Disposed'], ['disposed', '2024'])).toEqual(['Disposed', '2024']);
+        expect(mergeTags(undefined, ['2024'])).toEqual(['2024']);
+    });
+
+    test('caps the number of tags on a record', () => {
+        const existing = Array.from({ length: 20 }, (_, i) => `tag${i}`);
+        expect(() => mergeTags(existing, ['one more'])).toThrow(BulkActionError);
+    });
+});
+
+describe('normalizeBulkRequest', () => {
+    test('de-duplicates the selection', () => {
+        expect(normalizeBulkRequest('case', { action: 'status', ids: [ID_A, ID_A, ID_B], value: 'closed' }))
+            .toEqual({ action: 'status', ids: [ID_A, ID_B], value: 'closed' });
+    });
+
+    test('only allows the actions of the record type', () => {
+        expect(() => normalizeBulkRequest('client', { action: 'status', ids: [ID_A], value: 'closed' }))
+            .toThrow('Action must be one of: tags, trash');
+        expect(() => normalizeBulkRequest('invoice', { action: 'priority', ids: [ID_A], value: 'high' }))
+            .toThrow(BulkActionError);
+        expect(() => normalizeBulkRequest('hearing', { action: 'trash', ids: [ID_A] }))
+            .toThrow(expect.objectContaining({ status: 404 }));
+    });
+
+    test('checks the value against the record type', () => {
+        expect(normalizeBulkRequest('invoice', { action: 'status', ids: [ID_A], value: 'paid' }).value).toBe('paid');
+        expect(() => normalizeBulkRequest('case', { action: 'status', ids: [ID_A], value: 'paid' })).toThrow(BulkActionError);
+        expect(() => normalizeBulkRequest('case', { action: 'reassign', ids: [ID_A], value: 'nobody' })).toThrow(BulkActionError);
+        expect(() => normalizeBulkRequest('case', { action: 'tags', ids: [ID_A], value: ['  '] })).toThrow('Enter at least one tag');
+    });
+
+    test('moves documents to a folder or back to the top level', () => {
+        expect(normalizeBulkRequest('case', { action: 'move_documents', ids: [ID_A], value: ID_B }).value).toBe(ID_B);
+        expect(normalizeBulkRequest('case', { action: 'move_documents', ids: [ID_A], value: null }).value).toBeNull();
+        expect(() => normalizeBulkRequest('case', { action: 'move_documents', ids: [ID_A] })).toThrow(BulkActionError);
+    });
+
+    test('requires a selection within the limit', () => {
+        expect(() => normalizeBulkRequest('case', { action: 'trash', ids: [] })).toThrow('Select at least one record');
+        const ids = Array.from({ length: MAX_BULK_ITEMS + 1 }, (_, i) => `id${i}`);
+        expect(() => normalizeBulkRequest('case', { action: 'trash', ids })).toThrow(BulkActionError);
+    });
+});
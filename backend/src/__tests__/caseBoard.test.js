@@ -0,0 +1,75 @@
+import { describe, test, expect, jest, afterEach } from '@jest/globals';
+import mongoose from 'mongoose';
+import Case from '../models/Case.js';
+import Hearing from '../models/Hearing.js';
+import { BOARD_STAGES, CUSTOM_STAGE, countBoardColumns, stageFilter } from '../services/caseBoard.js';
+import { ListQueryError } from '../services/listQuery.js';
+import { CASE_STATUSES } from '../schemas/validation-schemas.js';
+
+const OWNER = '64b7f0c2a1b2c3d4e5f60700';
+const A = new mongoose.Types.ObjectId('64b7f0c2a1b2c3d4e5f60701');
+const B = new mongoose.Types.ObjectId('64b7f0c2a1b2c3d4e5f60702');
+const FILTER = { $and: [{ owner: OWNER }] };
+
+/** Hearing types held per case, as the stage aggregate groups them. */
+function useHearings(rows) {
+    return jest.spyOn(Hearing, 'aggregate').mockResolvedValue(rows);
+}
+
+afterEach(() => {
+    jest.restoreAllMocks();
+});
+
+describe('stageFilter', () => {
+    test('a system stage holds the cases recorded there and the unrecorded cases whose hearings reach it', async () => {
+        useHearings([
+            { _id: A, types: ['first_hearing', 'evidence_hearing'] },
+            { _id: B, types: ['first_hearing'] },
+        ]);
+
+        const evidence = await stageFilter(OWNER, 'sys_evidence');
+        expect(evidence.$or[0]).toEqual({ pipelineStage: 'sys_evidence' });
+        expect(evidence.$or[1]._id.$in).toEqual([A]);
+
+        const first = await stageFilter(OWNER, 'sys_first');
+        expect(first.$or[1]._id.$in).toEqual([B]);
+    });
+
+    test('Case Filed holds the unrecorded cases with no stage-marking hearing', async () => {
+        useHearings([{ _id: A, types: ['interim_hearing'] }]);
+        const filed = await stageFilter(OWNER, 'sys_filed');
+        expect(filed.$or[1]).toEqual({ pipelineStage: { $in: [null, ''] }, _id: { $nin: [A] } });
+    });
+
+    test('the custom column holds every case recorded at a non-system stage', async () => {
+        useHearings([]);
+        const custom = await stageFilter(OWNER, CUSTOM_STAGE);
+        expect(custom.pipelineStage.$nin).toEqual(expect.arrayContaining([null, '', 'sys_filed', 'sys_judgment']));
+    });
+
+    test('refuses a stage that is not a column', async () => {
+        await expect(stageFilter(OWNER, 'sys_appeal')).rejects.toThrow(ListQueryError);
+    });
+});
+
+describe('countBoardColumns', () => {
+    test('counts every status column under the list filter', async () => {
+        const count = jest.spyOn(Case, 'countDocuments').mockImplementation(({ $and }) => Promise.resolve($and[1].status === 'active' ? 4 : 0));
+        const columns = await countBoardColumns(OWNER, FILTER, 'status');
+        expect(Object.keys(columns)).toEqual(CASE_STATUSES);
+        expect(columns.active).toBe(4);
+        expect(count.mock.calls[0][0].$and[0]).toBe(FILTER);
+    });
+
+    test('counts every stage column from one hearing aggregate', async () => {
+        const aggregate = useHearings([{ _id: A, types: ['judgment_hearing'] }]);
+        jest.spyOn(Case, 'countDocuments').mockResolvedValue(2);
+        const columns = await countBoardColumns(OWNER, FILTER, 'stage');
+        expect(Object.keys(columns)).toEqual(BOARD_STAGES);
+        expect(aggregate).toHaveBeenCalledTimes(1);
+    });
+
+    test('refuses an unknown grouping', async () => {
+        await expect(countBoardColumns(OWNER, FILTER, 'court')).rejects.toMatchObject({ status: 400 });
+    });
+});
@@ -0,0 +1,67 @@
+import { describe, test, expect } from '@jest/globals';
+import {
+    APPEAL_RULE_IDS,
+    CaseClosureError,
+    normalizeClosureInput,
+    normalizeReopenReason,
+    outcomeStatus,
+} from '../services/caseClosure.js';
+import { findRule } from '../services/deadlineRules.js';
+
+const NOW = new Date('2025-03-10T12:00:00Z');
+
+describe('normalizeClosureInput', () => {
+    test('parses the disposal date and turns the follow-up steps on by default', () => {
+        expect(normalizeClosureInput({ outcome: 'settled', disposalDate: '2025-03-01', summary: '  Compromise decree ' }, NOW)).toEqual({
+            outcome: 'settled',
+            disposalDate: new Date('2025-03-01T00:00:00Z'),
+            finalOrderId: null,
+            summary: 'Compromise decree',
+            appealRuleId: null,
+            cancelHearings: true,
+            removeAlerts: true,
+            archive: true,
+        });
+    });
+
+    test('keeps steps the user turned off', () => {
+        const input = normalizeClosureInput(
+            { outcome: 'won', disposalDate: '2025-03-10', cancelHearings: false, removeAlerts: false, archive: false },
+            NOW
+        );
+        expect(input).toMatchObject({ cancelHearings: false, removeAlerts: false, archive: false });
+    });
+
+    test('rejects an unknown outcome, a future disposal date and a bad document id', () => {
+        expect(() => normalizeClosureInput({ outcome: 'pending', disposalDate: '2025-03-01' }, NOW)).toThrow(CaseClosureError);
+        expect(() => normalizeClosureInput({ outcome: 'lost', disposalDate: '2025-03-11' }, NOW)).toThrow(/future/);
+        expect(() => normalizeClosureInput({ outcome: 'lost', disposalDate: '2025-02-30' }, NOW)).toThrow(/Disposal date/);
+        expect(() => normalizeClosureInput({ outcome: 'lost', disposalDate: '2025-03-01', finalOrderId: 'x' }, NOW))
+            .toThrow(/Final order/);
+    });
+
+    test('accepts only deadline rules that run from a decree or order', () => {
+        expect(normalizeClosureInput({ outcome: 'lost', disposalDate: '2025-03-01', appealRuleId: 'cpc_appeal_hc' }, NOW).appealRuleId)
+            .toBe('cpc_appeal_hc');
+        expect(() => normalizeClosureInput({ outcome: 'lost', disposalDate: '2025-03-01', appealRuleId: 'ni138_notice' }, NOW))
+            .toThrow(/appeal deadline rule/);
+    });
+});
+
+describe('closure helpers', () => {
+    test('every appeal rule exists in the deadline table', () => {
+        expect(APPEAL_RULE_IDS.filter(id => !findRule(id))).toEqual([]);
+    });
+
+    test('outcomes other than won or lost close the case', () => {
+        expect(outcomeStatus('won')).toBe('won');
+        expect(outcomeStatus('lost')).toBe('lost');
+        expect(outcomeStatus('withdrawn')).toBe('closed');
+    });
+
+    test('reopening needs a reason', () => {
+        expect(normalizeReopenReason('  Review petition allowed ')).toBe('Review petition allowed');
+        expect(() => normalizeReopenReason('   ')).toThrow(CaseClosureError);
+        expect(() => normalizeReopenReason('x'.repeat(501))).toThrow(/reason/);
+    });
+});
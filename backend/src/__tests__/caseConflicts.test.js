@@ -0,0 +1,57 @@
+import { describe, test, expect, jest, afterEach } from '@jest/globals';
+import Case from '../models/Case.js';
+import { CaseConflictError, findConflictCandidates } from '../services/caseConflicts.js';
+import { caseNumberKey } from '../utils/caseNumber.js';
+
+const OWNER = '64b7f0c2a1b2c3d4e5f60a00';
+
+/** Case.find returning `rows`, with the filter it was called with. */
+function useCases(rows = []) {
+    return jest.spyOn(Case, 'find').mockReturnValue({
+        sort: () => ({ limit: () => ({ lean: () => Promise.resolve(rows) }) }),
+    });
+}
+
+afterEach(() => {
+    jest.restoreAllMocks();
+});
+
+describe('findConflictCandidates', () => {
+    test('looks for the same number key, each party name on any side, and hearings in the window', async () => {
+        const find = useCases();
+        await findConflictCandidates(OWNER, {
+            caseNumber: 'CS No. 12 of 2023',
+            names: ['Asha Rao', ' asha rao ', 'Acme (India) Ltd'],
+            from: '2026-03-10T00:00:00.000Z',
+            to: '2026-03-10T23:59:59.999Z',
+        });
+
+        const { owner, $or } = find.mock.calls[0][0];
+        expect(owner).toBe(OWNER);
+        expect($or[0]).toEqual({ caseNumberKey: caseNumberKey('CS 12/2023') });
+        // Blank-padded duplicates are one name; regex characters are matched literally
+        expect($or.filter(condition => condition.clientName)).toHaveLength(2);
+        expect(new RegExp($or[4].clientName.$regex, 'i').test('  ACME (INDIA) LTD ')).toBe(true);
+        expect(new RegExp($or[4].clientName.$regex, 'i').test('Acme India Ltd')).toBe(false);
+        expect($or.slice(-2).map(condition => Object.keys(condition)[0])).toEqual(['nextHearing', 'hearingDate']);
+    });
+
+    test('returns the cases with their ids', async () => {
+        useCases([{ _id: { toString: () => 'c1' }, caseNumber: 'OS 1/2026' }]);
+        await expect(findConflictCandidates(OWNER, { names: ['Asha Rao'] })).resolves.toEqual([
+            { id: 'c1', caseNumber: 'OS 1/2026', _id: undefined },
+        ]);
+    });
+
+    test('has nothing to look for without a number, names or window', async () => {
+        const find = useCases();
+        await expect(findConflictCandidates(OWNER, { caseNumber: ' ', names: [''] })).resolves.toEqual([]);
+        expect(find).not.toHaveBeenCalled();
+    });
+
+    test('refuses malformed input', async () => {
+        await expect(findConflictCandidates(OWNER, { names: 'Asha Rao' })).rejects.toThrow(CaseConflictError);
+        await expect(findConflictCandidates(OWNER, { from: '2026-03-10' })).rejects.toThrow('from and to go together');
+        await expect(findConflictCandidates(OWNER, { from: 'soon', to: 'later' })).rejects.toMatchObject({ status: 400 });
+    });
+});
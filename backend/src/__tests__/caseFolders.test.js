@@ -0,0 +1,50 @@
+import { describe, test, expect, jest, afterEach } from '@jest/globals';
+import Case from '../models/Case.js';
+import Folder from '../models/Folder.js';
+import { createMissingCaseFolders } from '../services/caseFolders.js';
+
+const OWNER = '64b7f0c2a1b2c3d4e5f60b00';
+const LINKED = '64b7f0c2a1b2c3d4e5f60b01';
+const NAMED = '64b7f0c2a1b2c3d4e5f60b02';
+const BARE = '64b7f0c2a1b2c3d4e5f60b03';
+
+/** Model.find returning `rows` through select().lean(). */
+function useRows(model, rows) {
+    return jest.spyOn(model, 'find').mockReturnValue({
+        select: () => ({ lean: () => Promise.resolve(rows) }),
+    });
+}
+
+afterEach(() => {
+    jest.restoreAllMocks();
+});
+
+describe('createMissingCaseFolders', () => {
+    test('creates folders only for cases with neither a linked nor a same-named folder', async () => {
+        useRows(Folder, [
+            { name: 'Old name', caseId: LINKED },
+            { name: 'OS 2/2026 - Vikram Shah', caseId: null },
+        ]);
+        const cases = useRows(Case, [
+            { _id: NAMED, caseNumber: 'OS 2/2026', clientName: 'Vikram Shah' },
+            { _id: BARE, caseNumber: 'OS 3/2026', clientName: 'Asha Rao' },
+        ]);
+        const insert = jest.spyOn(Folder, 'insertMany').mockResolvedValue([]);
+
+        await expect(createMissingCaseFolders(OWNER)).resolves.toBe(1);
+
+        expect(cases.mock.calls[0][0]).toEqual({ owner: OWNER, _id: { $nin: [LINKED] } });
+        expect(insert).toHaveBeenCalledWith([
+            { name: 'OS 3/2026 - Asha Rao', parentId: null, caseId: BARE, ownerId: OWNER },
+        ]);
+    });
+
+    test('writes nothing when every case has its folder', async () => {
+        useRows(Folder, [{ name: 'OS 3/2026 - Asha Rao', caseId: BARE }]);
+        useRows(Case, []);
+        const insert = jest.spyOn(Folder, 'insertMany');
+
+        await expect(createMissingCaseFolders(OWNER)).resolves.toBe(0);
+        expect(insert).not.toHaveBeenCalled();
+    });
+});
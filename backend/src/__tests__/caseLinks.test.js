@@ -0,0 +1,117 @@
+import { describe, test, expect, jest, afterEach } from '@jest/globals';
+import Case from '../models/Case.js';
+import {
+    CaseLinkError,
+    caseLinkGraph,
+    isDuplicateLink,
+    listedTogetherCaseIds,
+    normalizeCaseLink,
+} from '../services/caseLinks.js';
+import { hasBlockingConflict } from '../utils/conflictDetection.js';
+
+const OWNER = '64b7f0c2a1b2c3d4e5f60700';
+const A = '64b7f0c2a1b2c3d4e5f60701';
+const B = '64b7f0c2a1b2c3d4e5f60702';
+const C = '64b7f0c2a1b2c3d4e5f60703';
+const D = '64b7f0c2a1b2c3d4e5f60704';
+
+/**
+ * Serve Case.find from an in-memory list, answering the two shapes of filter
+ * the link walk uses: the cases themselves, or cases holding a link to them.
+ */
+function useCases(cases) {
+    jest.spyOn(Case, 'find').mockImplementation(({ $or }) => {
+        const [byId, byLink] = $or;
+        const ids = byId._id.$in.map(String);
+        const { caseId, type } = byLink.links.$elemMatch;
+        const targets = caseId.$in.map(String);
+        const matches = cases.filter(doc => ids.includes(doc._id)
+            || doc.links.some(link => targets.includes(link.caseId) && type.$in.includes(link.type)));
+        return { select: () => ({ lean: () => Promise.resolve(matches) }) };
+    });
+}
+
+const link = (id, type, caseId) => ({ _id: id, type, caseId });
+
+afterEach(() => {
+    jest.restoreAllMocks();
+});
+
+describe('normalizeCaseLink', () => {
+    test('accepts a typed link to another case and trims its note', () => {
+        expect(normalizeCaseLink(A, { type: 'appeal_of', caseId: B, note: '  First appeal ' }))
+            .toEqual({ type: 'appeal_of', caseId: B, note: 'First appeal' });
+    });
+
+    test('refuses self-links, unknown types and missing cases', () => {
+        expect(() => normalizeCaseLink(A, { type: 'connected_with', caseId: A })).toThrow(/itself/);
+        expect(() => normalizeCaseLink(A, { type: 'sibling_of', caseId: B })).toThrow(CaseLinkError);
+        expect(() => normalizeCaseLink(A, { type: 'cross_fir', caseId: 'nope' })).toThrow(/linked case/);
+    });
+});
+
+describe('isDuplicateLink', () => {
+    const source = { _id: A, links: [] };
+
+    test('finds the same link held by either case', () => {
+        expect(isDuplicateLink({ _id: A, links: [link('l1', 'appeal_of', B)] }, { _id: B, links: [] }, { type: 'appeal_of', caseId: B }))
+            .toBe(true);
+        expect(isDuplicateLink(source, { _id: B, links: [link('l1', 'connected_with', A)] }, { type: 'connected_with', caseId: B }))
+            .toBe(true);
+    });
+
+    test('allows a second link of another type between the same cases', () => {
+        expect(isDuplicateLink(source, { _id: B, links: [link('l1', 'connected_with', A)] }, { type: 'cross_fir', caseId: B }))
+            .toBe(false);
+    });
+});
+
+describe('caseLinkGraph', () => {
+    // A holds "appeal of B"; C holds "connected with B"; D is unrelated
+    const cases = [
+        { _id: A, caseNumber: 'APP/1', clientName: 'X', status: 'active', links: [link('l1', 'appeal_of', B)] },
+        { _id: B, caseNumber: 'OS/1', clientName: 'X', status: 'closed', links: [] },
+        { _id: C, caseNumber: 'OS/2', clientName: 'Y', status: 'active', links: [link('l2', 'connected_with', B)] },
+        { _id: D, caseNumber: 'OS/3', clientName: 'Z', status: 'active', links: [] },
+    ];
+
+    test('reads the same from every case in it, whichever side stores a link', async () => {
+        useCases(cases);
+        const fromA = await caseLinkGraph(OWNER, A);
+        const fromB = await caseLinkGraph(OWNER, B);
+        const fromC = await caseLinkGraph(OWNER, C);
+
+        const shape = graph => ({ nodes: graph.nodes.map(n => n.id).sort(), edges: graph.edges.map(e => e.id).sort() });
+        expect(shape(fromA)).toEqual({ nodes: [A, B, C], edges: ['l1', 'l2'] });
+        expect(shape(fromB)).toEqual(shape(fromA));
+        expect(shape(fromC)).toEqual(shape(fromA));
+        expect(fromB.edges.find(e => e.id === 'l1')).toMatchObject({ from: A, to: B, type: 'appeal_of' });
+    });
+
+    test('a case with no links is a graph of one', async () => {
+        useCases(cases);
+        expect(await caseLinkGraph(OWNER, D)).toEqual({
+            nodes: [{ id: D, caseNumber: 'OS/3', clientName: 'Z', opposingParty: '', courtName: '', status: 'active' }],
+            edges: [],
+        });
+    });
+
+    test('listed-together matters follow connected and cross-FIR links only, both ways', async () => {
+        useCases(cases);
+        expect([...await listedTogetherCaseIds(OWNER, B)]).toEqual([C]);
+        expect([...await listedTogetherCaseIds(OWNER, C)]).toEqual([B]);
+        expect([...await listedTogetherCaseIds(OWNER, A)]).toEqual([]);
+    });
+});
+
+describe('hasBlockingConflict', () => {
+    test('hearings of matters listed together do not block a slot', () => {
+        expect(hasBlockingConflict([])).toBe(false);
+        expect(hasBlockingConflict([{ hearingId: 'h1', listedTogether: true }])).toBe(false);
+    });
+
+    test('any other overlap does', () => {
+        expect(hasBlockingConflict([{ hearingId: 'h1', listedTogether: false }])).toBe(true);
+        expect(hasBlockingConflict([{ hearingId: 'h1', listedTogether: true }, { hearingId: 'h2' }])).toBe(true);
+    });
+});
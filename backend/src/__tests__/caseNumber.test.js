@@ -0,0 +1,92 @@
+import { describe, test, expect } from '@jest/globals';
+import { caseNumberFields, caseNumberKey, parseCaseNumber, parseCnr } from '../utils/caseNumber.js';
+
+describe('parseCnr', () => {
+    test('splits a CNR into its parts', () => {
+        expect(parseCnr('DLHC010012342023')).toEqual({
+            cnr: 'DLHC010012342023',
+            stateCode: 'DL',
+            districtCode: 'HC',
+            establishment: '01',
+            serial: 1234,
+            year: 2023,
+        });
+    });
+
+    test('accepts lower case, separators and a CNR prefix', () => {
+        expect(parseCnr('CNR No.: mhpu02-000987-2019')?.cnr).toBe('MHPU020009872019');
+    });
+
+    test('returns null for values not shaped like a CNR', () => {
+        expect(parseCnr('CS(OS) 123/2023')).toBeNull();
+        expect(parseCnr('DLHC01001234202')).toBeNull();
+    });
+
+    test('flags impossible parts', () => {
+        expect(parseCnr('DLHC000012342023').error).toMatch(/establishment/);
+        expect(parseCnr('DLHC010000002023').error).toMatch(/serial/);
+        expect(parseCnr('DLHC010012341850').error).toMatch(/filing year/);
+    });
+});
+
+describe('parseCaseNumber', () => {
+    test('reads type, number and year of a court number', () => {
+        expect(parseCaseNumber('CS(OS) 123/2023')).toEqual({
+            kind: 'court', canonical: 'CS(OS) 123/2023', key: 'CS(OS)|123|2023', caseType: 'CS(OS)', number: 123, year: 2023,
+        });
+    });
+
+    test('gives every spelling of one number the same key and canonical form', () => {
+        const spellings = ['CS(OS) 123/2023', 'CS (OS) No. 123 of 2023', 'cs(os)-0123-23', ' CS(OS)   123 / 2023 '];
+        const parsed = spellings.map(parseCaseNumber);
+        parsed.forEach(result => {
+            expect(result.key).toBe('CS(OS)|123|2023');
+            expect(result.canonical).toBe('CS(OS) 123/2023');
+        });
+    });
+
+    test('drops dots from dotted case types', () => {
+        expect(parseCaseNumber('W.P.(C) 4567/2022').canonical).toBe('WP(C) 4567/2022');
+        expect(parseCaseNumber('Crl.M.C. 12 of 2021').canonical).toBe('CRLMC 12/2021');
+        expect(parseCaseNumber('O.S. No. 45 of 2019').canonical).toBe('OS 45/2019');
+    });
+
+    test('keeps different case types apart', () => {
+        expect(caseNumberKey('CS 123/2023')).not.toBe(caseNumberKey('CS(OS) 123/2023'));
+    });
+
+    test('accepts a number without a case type', () => {
+        expect(parseCaseNumber('123/2023')).toMatchObject({ kind: 'court', caseType: '', canonical: '123/2023' });
+    });
+
+    test('reads two-digit years in the right century', () => {
+        expect(parseCaseNumber('OS 5/98').year).toBe(1998);
+        expect(parseCaseNumber('OS 5/21').year).toBe(2021);
+    });
+
+    test('recognises a CNR', () => {
+        expect(parseCaseNumber('dlhc010012342023')).toMatchObject({ kind: 'cnr', canonical: 'DLHC010012342023', key: 'CNR:DLHC010012342023' });
+    });
+
+    test('keys anything else on its letters and digits', () => {
+        expect(parseCaseNumber('Matter  A-17')).toEqual({ kind: 'other', canonical: 'Matter A-17', key: 'MATTERA17' });
+        expect(caseNumberKey('matter a 17')).toBe('MATTERA17');
+        expect(parseCaseNumber('12-05-2023').kind).toBe('other');
+    });
+});
+
+describe('caseNumberFields', () => {
+    test('returns the stored key and parts', () => {
+        expect(caseNumberFields('CS 7/2020')).toEqual({
+            fields: {
+                caseNumberKey: 'CS|7|2020',
+                caseNumberParts: { kind: 'court', canonical: 'CS 7/2020', caseType: 'CS', number: 7, year: 2020 },
+            },
+            error: undefined,
+        });
+    });
+
+    test('passes on a CNR error', () => {
+        expect(caseNumberFields('DLHC000012342023').error).toMatch(/establishment/);
+    });
+});
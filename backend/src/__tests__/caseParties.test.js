@@ -0,0 +1,54 @@
+import { describe, test, expect, jest, afterEach } from '@jest/globals';
+import Client from '../models/Client.js';
+import { validateParties } from '../schemas/validation-schemas.js';
+import { validatePartyClients } from '../services/caseParties.js';
+
+const OWNER = '64b7f0c2a1b2c3d4e5f60800';
+const OWN_CLIENT = '64b7f0c2a1b2c3d4e5f60801';
+const OTHER_CLIENT = '64b7f0c2a1b2c3d4e5f60802';
+
+/** Serve Client.find from an in-memory list, honouring its _id and owner filter. */
+function useClients(clients) {
+    return jest.spyOn(Client, 'find').mockImplementation(({ _id, owner }) => {
+        const matches = clients.filter(client => _id.$in.includes(client._id) && client.owner === owner);
+        return { select: () => ({ lean: () => Promise.resolve(matches) }) };
+    });
+}
+
+const party = (fields) => ({ role: 'petitioner', name: 'Asha Rao', ...fields });
+
+afterEach(() => {
+    jest.restoreAllMocks();
+});
+
+describe('validateParties', () => {
+    test('accepts parties with and without a client link', () => {
+        expect(validateParties([party({ clientId: OWN_CLIENT }), party({ role: 'respondent', clientId: null })]))
+            .toEqual({ valid: true });
+    });
+
+    test('refuses a malformed client id before it reaches a query', () => {
+        expect(validateParties([party(), party({ clientId: 'not-an-id' })]))
+            .toEqual({ valid: false, error: 'Party 2 is linked to an invalid client' });
+        expect(validateParties([party({ clientId: { $ne: null } })]).valid).toBe(false);
+    });
+});
+
+describe('validatePartyClients', () => {
+    test('skips the lookup when no party is linked to a client', async () => {
+        const find = useClients([]);
+        expect(await validatePartyClients(OWNER, [party()])).toEqual({ valid: true });
+        expect(find).not.toHaveBeenCalled();
+    });
+
+    test("accepts the owner's own clients", async () => {
+        useClients([{ _id: OWN_CLIENT, owner: OWNER }]);
+        expect(await validatePartyClients(OWNER, [party({ clientId: OWN_CLIENT })])).toEqual({ valid: true });
+    });
+
+    test("refuses another user's client", async () => {
+        useClients([{ _id: OWN_CLIENT, owner: OWNER }, { _id: OTHER_CLIENT, owner: '64b7f0c2a1b2c3d4e5f608ff' }]);
+        expect(await validatePartyClients(OWNER, [party({ clientId: OWN_CLIENT }), party({ clientId: OTHER_CLIENT })]))
+            .toEqual({ valid: false, error: 'Party 2 is linked to a client that was not found' });
+    });
+});
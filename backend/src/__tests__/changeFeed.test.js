@@ -0,0 +1,115 @@
+import { describe, test, expect, jest, beforeAll, afterEach } from '@jest/globals';
+import { EventEmitter } from 'events';
+import { eventsSince, publishChange, subscribeChanges } from '../services/changeFeed.js';
+
+/**
+ * Change feed without Redis, so events are delivered in-process. The module
+ * keeps its backlogs between tests, so each test publishes for its own users.
+ */
+
+const MINUTE_MS = 60 * 1000;
+
+let eventsRouter;
+
+beforeAll(async () => {
+    // The route's auth middleware validates the environment when it loads
+    process.env.MONGODB_URI ??= 'mongodb://localhost:27017/juriq-test';
+    process.env.JWT_SECRET ??= 'test-jwt-secret-minimum-32-chars-for-test';
+    process.env.JWT_REFRESH_SECRET ??= 'test-refresh-secret-minimum-32-chars-for-test';
+    ({ default: eventsRouter } = await import('../routes/events.js'));
+});
+
+/** Publish a case update for `userId` and return the event as delivered. */
+function publish(userId, entityId) {
+    let delivered;
+    const unsubscribe = subscribeChanges(userId, event => { delivered = event; });
+    publishChange({ userId, entity: 'case', action: 'updated', entityId, data: { id: entityId } });
+    unsubscribe();
+    return delivered;
+}
+
+/** Open the SSE stream as `userId` with fake req/res objects; returns what it wrote and a close function. */
+function openStream(userId, headers = {}) {
+    const layer = eventsRouter.stack.find(l => l.route?.path === '/');
+    const handler = layer.route.stack[layer.route.stack.length - 1].handle;
+    const req = Object.assign(new EventEmitter(), {
+        user: { userId },
+        query: {},
+        get: name => headers[name],
+    });
+    const chunks = [];
+    const res = {
+        status() { return this; },
+        set() { return this; },
+        flushHeaders() {},
+        write(chunk) { chunks.push(chunk); },
+    };
+    handler(req, res);
+    const events = () => chunks.join('')
+        .split('\n\n')
+        .filter(block => block.includes('event: change'))
+        .map(block => JSON.parse(block.match(/^data: (.*)$/m)[1]));
+    return { chunks, events, close: () => req.emit('close') };
+}
+
+afterEach(() => {
+    jest.restoreAllMocks();
+});
+
+describe('changeFeed', () => {
+    test('replays what was published after a Last-Event-ID', () => {
+        const first = publish('replay-user', 'c1');
+        const second = publish('replay-user', 'c2');
+        const third = publish('replay-user', 'c3');
+
+        expect(eventsSince('replay-user', first.id).map(e => e.id)).toEqual([second.id, third.id]);
+        expect(eventsSince('replay-user', third.id)).toEqual([]);
+        expect(eventsSince('replay-user', 'unknown-id')).toBeNull();
+    });
+
+    test("events reach only their owner's listeners and backlog", () => {
+        const seenByOther = [];
+        const unsubscribe = subscribeChanges('scope-other', event => seenByOther.push(event));
+        const event = publish('scope-owner', 'c1');
+        unsubscribe();
+
+        expect(seenByOther).toEqual([]);
+        expect(eventsSince('scope-other', event.id)).toBeNull();
+        expect(eventsSince('scope-owner', event.id)).toEqual([]);
+    });
+
+    test('drops the backlog of a user whose events have all expired', () => {
+        const start = Date.now();
+        const now = jest.spyOn(Date, 'now').mockReturnValue(start);
+        const idle = publish('idle-user', 'c1');
+        expect(eventsSince('idle-user', idle.id)).toEqual([]);
+
+        // Another user's write after the retention window sweeps the idle backlog
+        now.mockReturnValue(start + 16 * MINUTE_MS);
+        publish('busy-user', 'c2');
+        expect(eventsSince('idle-user', idle.id)).toBeNull();
+    });
+});
+
+describe('GET /events', () => {
+    test('resumes from the Last-Event-ID header with only the missed events', () => {
+        const seen = publish('stream-user', 'c1');
+        publish('stream-user', 'c2');
+        publish('stream-other', 'x1');
+
+        const stream = openStream('stream-user', { 'Last-Event-ID': seen.id });
+        publish('stream-other', 'x2');
+        publish('stream-user', 'c3');
+        stream.close();
+
+        expect(stream.events().map(e => e.entityId)).toEqual(['c2', 'c3']);
+        expect(stream.events().every(e => e.userId === undefined)).toBe(true);
+    });
+
+    test('asks the client to resync when the id is no longer in the backlog', () => {
+        const stream = openStream('resync-user', { 'Last-Event-ID': 'gone' });
+        stream.close();
+
+        expect(stream.chunks.join('')).toContain('event: resync');
+    });
+});
@@ -0,0 +1,36 @@
+import { describe, test, expect } from '@jest/globals';
+import mongoose from 'mongoose';
+import { diffSnapshots, normalizeValue } from '../services/changeHistory.js';
+
+describe('normalizeValue', () => {
+    test('treats empty values alike', () => {
+        expect(normalizeValue(undefined)).toBeNull();
+        expect(normalizeValue('')).toBeNull();
+        expect(normalizeValue([])).toBeNull();
+    });
+
+    test('serialises dates, ids and subdocuments', () => {
+        const id = new mongoose.Types.ObjectId();
+        expect(normalizeValue(new Date('2025-01-02T03:04:05Z'))).toBe('2025-01-02T03:04:05.000Z');
+        expect(normalizeValue(id)).toBe(id.toString());
+        expect(normalizeValue([{ _id: id, description: 'Fee', amount: 100, note: '' }]))
+            .toEqual([{ description: 'Fee', amount: 100 }]);
+    });
+});
+
+describe('diffSnapshots', () => {
+    test('reports only tracked fields that changed', () => {
+        const before = { status: 'active', priority: 'high', hearingDate: new Date('2025-05-01'), updatedAt: new Date(1) };
+        const after = { status: 'closed', priority: 'high', hearingDate: new Date('2025-05-01'), updatedAt: new Date(2) };
+        expect(diffSnapshots(before, after, ['status', 'priority', 'hearingDate'])).toEqual([
+            { field: 'status', before: 'active', after: 'closed' },
+        ]);
+    });
+
+    test('does not treat a missing field and an empty string as a change', () => {
+        expect(diffSnapshots({ notes: undefined }, { notes: '' }, ['notes'])).toEqual([]);
+        expect(diffSnapshots({}, { notes: 'Adjourned' }, ['notes'])).toEqual([
+            { field: 'notes', before: null, after: 'Adjourned' },
+        ]);
+    });
+});
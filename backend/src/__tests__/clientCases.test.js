@@ -0,0 +1,38 @@
+import { describe, test, expect, jest, afterEach } from '@jest/globals';
+import Case from '../models/Case.js';
+import { summarizeClientCases } from '../services/clientCases.js';
+
+const OWNER = '64b7f0c2a1b2c3d4e5f60900';
+const NOW = new Date('2026-03-01T00:00:00Z');
+
+afterEach(() => {
+    jest.restoreAllMocks();
+});
+
+describe('summarizeClientCases', () => {
+    test('summarises each named client, with zeros for those without cases', async () => {
+        const hearing = { caseNumber: 'OS 12/2026', date: new Date('2026-03-10T00:00:00Z') };
+        const aggregate = jest.spyOn(Case, 'aggregate').mockResolvedValue([
+            { _id: 'Asha Rao', total: 3, active: 2, nextHearing: hearing },
+        ]);
+
+        const summaries = await summarizeClientCases(OWNER, ['Asha Rao', 'Vikram Shah'], NOW);
+
+        expect(summaries.get('Asha Rao')).toEqual({ total: 3, active: 2, nextHearing: hearing });
+        expect(summaries.get('Vikram Shah')).toEqual({ total: 0, active: 0, nextHearing: null });
+        expect(aggregate.mock.calls[0][0][0].$match.clientName).toEqual({ $in: ['Asha Rao', 'Vikram Shah'] });
+    });
+
+    test('only hearings after now count as the next one', async () => {
+        const aggregate = jest.spyOn(Case, 'aggregate').mockResolvedValue([]);
+        await summarizeClientCases(OWNER, ['Asha Rao'], NOW);
+        const { $cond } = aggregate.mock.calls[0][0][1].$group.nextHearing.$min;
+        expect($cond[0]).toEqual({ $gt: ['$nextHearing', NOW] });
+    });
+
+    test('skips the query for an empty page', async () => {
+        const aggregate = jest.spyOn(Case, 'aggregate');
+        await expect(summarizeClientCases(OWNER, [])).resolves.toEqual(new Map());
+        expect(aggregate).not.toHaveBeenCalled();
+    });
+});
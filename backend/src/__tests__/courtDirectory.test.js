@@ -0,0 +1,39 @@
+import { describe, test, expect } from '@jest/globals';
+import { courtKey, courtLabel, judgeKey, keySimilarity } from '../services/courtDirectory.js';
+
+describe('courtKey', () => {
+    test('gives every spelling of one court the same key', () => {
+        const spellings = ['Delhi High Court', 'High Court of Delhi', 'Delhi HC', 'delhi  high-court', 'The High Court at Delhi'];
+        spellings.forEach(name => expect(courtKey(name)).toBe('court delhi high'));
+    });
+
+    test('expands abbreviations and ampersands', () => {
+        expect(courtKey('Addl. Dist. & Sessions Court')).toBe(courtKey('Additional District and Sessions Court'));
+    });
+
+    test('keeps different courts apart', () => {
+        expect(courtKey('Bombay High Court')).not.toBe(courtKey('Delhi High Court'));
+    });
+});
+
+describe('judgeKey', () => {
+    test('drops titles and punctuation', () => {
+        expect(judgeKey("Hon'ble Mr. Justice A.K. Rao")).toBe(judgeKey('Justice A K Rao'));
+        expect(judgeKey('Smt. Meena Iyer, J.')).toBe('iyer meena');
+    });
+});
+
+describe('keySimilarity', () => {
+    test('scores shared words', () => {
+        expect(keySimilarity('court delhi high', 'court delhi high')).toBe(1);
+        expect(keySimilarity('court delhi high', 'bench court delhi high')).toBe(0.75);
+        expect(keySimilarity('a', '')).toBe(0);
+    });
+});
+
+describe('courtLabel', () => {
+    test('adds the bench to the name', () => {
+        expect(courtLabel({ name: 'Bombay High Court', bench: 'Nagpur Bench' })).toBe('Bombay High Court, Nagpur Bench');
+        expect(courtLabel({ name: 'Delhi High Court', bench: null })).toBe('Delhi High Court');
+    });
+});
@@ -0,0 +1,82 @@
+import { describe, test, expect } from '@jest/globals';
+import mongoose from 'mongoose';
+import {
+    coerceCustomFields,
+    customFieldConditions,
+    fieldKeyFromLabel,
+    normalizeFieldDefinitions,
+} from '../services/customFields.js';
+
+const defs = normalizeFieldDefinitions([
+    { label: 'Date of Marriage', type: 'date', required: true },
+    { label: 'Children', type: 'number' },
+    { label: 'Seat', type: 'select', options: ['Mumbai', 'Delhi'] },
+    { label: 'Reliefs', type: 'multiselect', options: ['Custody', 'Maintenance'] },
+    { label: 'Spouse', type: 'party' },
+]);
+
+describe('normalizeFieldDefinitions', () => {
+    test('derives keys from labels', () => {
+        expect(fieldKeyFromLabel('Date of Marriage')).toBe('date_of_marriage');
+        expect(fieldKeyFromLabel('  2nd Arbitrator ')).toBe('nd_arbitrator');
+        expect(defs.map(d => d.key)).toEqual(['date_of_marriage', 'children', 'seat', 'reliefs', 'spouse']);
+    });
+
+    test('keeps an explicit key and drops options on non-choice fields', () => {
+        const [field] = normalizeFieldDefinitions([{ key: 'seat_city', label: 'Seat', type: 'text', options: ['x'] }]);
+        expect(field).toEqual({ key: 'seat_city', label: 'Seat', type: 'text', options: [], required: false });
+    });
+
+    test('rejects duplicates, unknown types and choice fields without options', () => {
+        expect(() => normalizeFieldDefinitions([{ label: 'A', type: 'text' }, { label: 'a', type: 'text' }])).toThrow('Duplicate');
+        expect(() => normalizeFieldDefinitions([{ label: 'A', type: 'boolean' }])).toThrow('unknown type');
+        expect(() => normalizeFieldDefinitions([{ label: 'A', type: 'select', options: [' '] }])).toThrow('option');
+    });
+});
+
+describe('coerceCustomFields', () => {
+    test('coerces values and drops undefined keys', () => {
+        const clientId = new mongoose.Types.ObjectId().toString();
+        const { values, errors } = coerceCustomFields(defs, {
+            date_of_marriage: '2019-02-14T00:00:00.000Z',
+            children: '2',
+            seat: 'Delhi',
+            reliefs: ['Custody', 'Custody'],
+            spouse: clientId,
+            stray: 'ignored',
+        });
+        expect(errors).toEqual([]);
+        expect(values).toEqual({
+            date_of_marriage: '2019-02-14',
+            children: 2,
+            seat: 'Delhi',
+            reliefs: ['Custody'],
+            spouse: clientId,
+        });
+    });
+
+    test('reports missing required and invalid values', () => {
+        const { values, errors } = coerceCustomFields(defs, { children: 'two', seat: 'Pune', reliefs: ['Alimony'] });
+        expect(values).toEqual({});
+        expect(errors).toEqual([
+            'Date of Marriage is required',
+            'Children must be a number',
+            'Seat is not one of the allowed options',
+            'Reliefs has unknown options: Alimony',
+        ]);
+    });
+});
+
+describe('customFieldConditions', () => {
+    test('builds one condition per known, parseable filter', () => {
+        expect(customFieldConditions(defs, {
+            children: '3',
+            date_of_marriage: 'not a date',
+            reliefs: 'Custody',
+            unknown: 'x',
+        })).toEqual([
+            { 'customFields.children': 3 },
+            { 'customFields.reliefs': 'Custody' },
+        ]);
+    });
+});
@@ -0,0 +1,200 @@
+import { describe, test, expect } from '@jest/globals';
+import zlib from 'zlib';
+import { SpreadsheetError, parseCsv, parseSpreadsheet, parseXlsx } from '../utils/spreadsheet.js';
+import {
+    ImportError,
+    normalizeMapping,
+    parseImportDate,
+    parseImportTime,
+    readRow,
+    suggestMapping,
+} from '../services/dataImport.js';
+
+/** A zip with stored (uncompressed) entries — enough for the reader. Names in `deflated` are compressed. */
+function storedZip(files, deflated = []) {
+    const locals = [];
+    const central = [];
+    let offset = 0;
+    for (const [name, content] of Object.entries(files)) {
+        const nameBuf = Buffer.from(name);
+        const raw = Buffer.from(content);
+        const method = deflated.includes(name) ? 8 : 0;
+        const data = method === 8 ? zlib.deflateRawSync(raw) : raw;
+        const local = Buffer.alloc(30);
+        local.writeUInt32LE(0x04034b50, 0);
+        local.writeUInt16LE(method, 8);
+        local.writeUInt32LE(data.length, 18);
+        local.writeUInt32LE(raw.length, 22);
+        local.writeUInt16LE(nameBuf.length, 26);
+        locals.push(local, nameBuf, data);
+
+        const entry = Buffer.alloc(46);
+        entry.writeUInt32LE(0x02014b50, 0);
+        entry.writeUInt16LE(method, 10);
+        entry.writeUInt32LE(data.length, 20);
+        entry.writeUInt32LE(raw.length, 24);
+        entry.writeUInt16LE(nameBuf.length, 28);
+        entry.writeUInt32LE(offset, 42);
+        central.push(entry, nameBuf);
+        offset += 30 + nameBuf.length + data.length;
+    }
+    const centralBuf = Buffer.concat(central);
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(Object.keys(files).length, 8);
+    end.writeUInt16LE(Object.keys(files).length, 10);
+    end.writeUInt32LE(centralBuf.length, 12);
+    end.writeUInt32LE(offset, 16);
+    return Buffer.concat([...locals, centralBuf, end]);
+}
+
+describe('parseCsv', () => {
+    test('handles quotes, embedded delimiters and line endings', () => {
+        const rows = parseCsv('\uFEFFName,Notes\r\n"Sharma, A.","said ""yes""\nlater"\n\nB,x');
+        expect(rows).toEqual([['Name', 'Notes'], ['Sharma, A.', 'said "yes"\nlater'], ['B', 'x']]);
+    });
+
+    test('detects semicolon and tab delimiters', () => {
+        expect(parseCsv('a;b\n1;2')).toEqual([['a', 'b'], ['1', '2']]);
+        expect(parseCsv('a\tb\n1\t2')).toEqual([['a', 'b'], ['1', '2']]);
+    });
+});
+
+describe('parseXlsx', () => {
+    const workbook = storedZip({
+        'xl/workbook.xml': '<workbook><sheets><sheet name="Cases" sheetId="1" r:id="rId1"/></sheets></workbook>',
+        'xl/_rels/workbook.xml.rels': '<Relationships><Relationship Id="rId1" Target="worksheets/sheet1.xml"/></Relationships>',
+        'xl/sharedStrings.xml': '<sst><si><t>Case No</t></si><si><t>Next Date</t></si><si><r><t>OS </t></r><r><t>12/2024</t></r></si></sst>',
+        'xl/styles.xml': '<styleSheet><cellXfs count="2"><xf numFmtId="0"/><xf numFmtId="14"/></cellXfs></styleSheet>',
+        'xl/worksheets/sheet1.xml': '<worksheet><sheetData>'
+            + '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c></row>'
+            + '<row r="2"><c r="A2" t="s"><v>2</v></c><c r="C2"><v>7</v></c><c r="B2" s="1"><v>45366</v></c></row>'
+            + '</sheetData></worksheet>',
+    });
+
+    test('reads shared strings, sparse cells and date-formatted numbers', () => {
+        expect(parseXlsx(workbook)).toEqual([['Case No', 'Next Date'], ['OS 12/2024', '2024-03-15', '7']]);
+    });
+
+    test('parseSpreadsheet pads rows to the header width', () => {
+        expect(parseSpreadsheet(workbook, 'cases.XLSX')).toEqual({
+            headers: ['Case No', 'Next Date'],
+            rows: [['OS 12/2024', '2024-03-15']],
+        });
+    });
+
+    test('rejects other files and damaged workbooks', () => {
+        expect(() => parseSpreadsheet(Buffer.from('x'), 'cases.pdf')).toThrow(SpreadsheetError);
+        expect(() => parseSpreadsheet(Buffer.from('not a zip at all, just text'), 'cases.xlsx')).toThrow('not a valid .xlsx');
+        expect(() => parseSpreadsheet(Buffer.from('Name\n'), 'a.csv')).toThrow(SpreadsheetError);
+    });
+
+    const sheetOf = (rows) => storedZip({
+        'xl/workbook.xml': '<workbook><sheets><sheet name="Cases" sheetId="1" r:id="rId1"/></sheets></workbook>',
+        'xl/_rels/workbook.xml.rels': '<Relationships><Relationship Id="rId1" Target="worksheets/sheet1.xml"/></Relationships>',
+        'xl/worksheets/sheet1.xml': `<worksheet><sheetData>${rows}</sheetData></worksheet>`,
+    }, ['xl/worksheets/sheet1.xml']);
+
+    test('reads compressed parts', () => {
+        const rows = '<row r="1"><c r="A1" t="inlineStr"><is><t>Case No</t></is></c></row>'
+            + '<row r="2"><c r="A2" t="inlineStr"><is><t>OS 1/2024</t></is></c></row>';
+        expect(parseXlsx(sheetOf(rows))).toEqual([['Case No'], ['OS 1/2024']]);
+    });
+
+    test('refuses a part that inflates past the size cap', () => {
+        // ~33 MiB of padding compresses to a few kilobytes
+        const bomb = sheetOf(' '.repeat(33 * 1024 * 1024));
+        expect(bomb.length).toBeLessThan(100 * 1024);
+        expect(() => parseSpreadsheet(bomb, 'cases.xlsx')).toThrow('too large to import');
+    });
+
+    test('stops reading rows past the import limit', () => {
+        const row = (n) => `<row r="${n}"><c r="A${n}"><v>${n}</v></c></row>`;
+        const rows = parseXlsx(sheetOf(Array.from({ length: 6000 }, (_, i) => row(i + 1)).join('')));
+        expect(rows).toHaveLength(5002);
+        expect(() => parseSpreadsheet(sheetOf(Array.from({ length: 5002 }, (_, i) => row(i + 1)).join('')), 'cases.xlsx'))
+            .toThrow('at most 5000 data rows');
+    });
+});
+
+describe('parseImportDate', () => {
+    const iso = (date) => date && date.toISOString().slice(0, 10);
+
+    test('follows the chosen day/month order', () => {
+        expect(iso(parseImportDate('03/04/2024', 'DD/MM/YYYY'))).toBe('2024-04-03');
+        expect(iso(parseImportDate('03/04/2024', 'MM/DD/YYYY'))).toBe('2024-03-04');
+        expect(iso(parseImportDate('2024.04.03', 'YYYY-MM-DD'))).toBe('2024-04-03');
+        expect(iso(parseImportDate('3-4-24', 'DD/MM/YYYY'))).toBe('2024-04-03');
+    });
+
+    test('accepts ISO dates, month names and Excel serials in any format', () => {
+        expect(iso(parseImportDate('2024-04-03', 'MM/DD/YYYY'))).toBe('2024-04-03');
+        expect(iso(parseImportDate('12-Jan-2024'))).toBe('2024-01-12');
+        expect(iso(parseImportDate('45366'))).toBe('2024-03-15');
+    });
+
+    test('rejects impossible dates', () => {
+        expect(parseImportDate('31/02/2024')).toBeNull();
+        expect(parseImportDate('13/13/2024')).toBeNull();
+        expect(parseImportDate('next week')).toBeNull();
+    });
+});
+
+describe('parseImportTime', () => {
+    test('normalises to 24-hour HH:mm', () => {
+        expect(parseImportTime('14:30')).toBe('14:30');
+        expect(parseImportTime('2.30 pm')).toBe('14:30');
+        expect(parseImportTime('12 AM')).toBe('00:00');
+        expect(parseImportTime('25:00')).toBeNull();
+        expect(parseImportTime('14')).toBeNull();
+    });
+});
+
+describe('suggestMapping', () => {
+    test('matches header spellings to fields, each column once', () => {
+        const mapping = suggestMapping('client', ['Client Name', 'E-mail ID', 'Mobile No.', 'PAN Card', 'Home Address']);
+        expect(mapping).toEqual({ name: 0, email: 1, phone: 2, panNumber: 3, address: 4 });
+    });
+
+    test('leaves unknown headers unmapped', () => {
+        expect(suggestMapping('case', ['Case No', 'Colour'])).toEqual({ caseNumber: 0 });
+    });
+});
+
+describe('normalizeMapping', () => {
+    const headers = ['Case No', 'Client', 'Court'];
+
+    test('requires the required fields and rejects reused or missing columns', () => {
+        expect(normalizeMapping('case', headers, { caseNumber: '0', clientName: 1, courtName: '' }))
+            .toEqual({ caseNumber: 0, clientName: 1 });
+        expect(() => normalizeMapping('case', headers, { caseNumber: 0 })).toThrow('Choose the column for Client');
+        expect(() => normalizeMapping('case', headers, { caseNumber: 0, clientName: 0 })).toThrow(ImportError);
+        expect(() => normalizeMapping('case', headers, { caseNumber: 0, clientName: 5 })).toThrow('not in the file');
+    });
+});
+
+describe('readRow', () => {
+    const mapping = { name: 0, email: 1, phone: 2, panNumber: 3 };
+
+    test('normalises valid values', () => {
+        const { values, errors } = readRow('client', ['A. Sharma', ' A@Example.com', '+91 98765-43210', 'abcde1234f'], mapping, 'DD/MM/YYYY');
+        expect(errors).toEqual([]);
+        expect(values).toEqual({ name: 'A. Sharma', email: 'a@example.com', phone: '9876543210', panNumber: 'ABCDE1234F' });
+    });
+
+    test('reports every problem in the row', () => {
+        const { errors } = readRow('client', ['', 'nope', '12345', 'ABC'], mapping, 'DD/MM/YYYY');
+        expect(errors).toHaveLength(4);
+        expect(errors[0]).toBe('Name is required');
+    });
+
+    test('checks dates against the chosen format and enums case-insensitively', () => {
+        const caseMapping = { caseNumber: 0, clientName: 1, status: 2, nextHearing: 3 };
+        const ok = readRow('case', ['OS 1/2024', 'Sharma', 'Active', '15/03/2024'], caseMapping, 'DD/MM/YYYY');
+        expect(ok.errors).toEqual([]);
+        expect(ok.values.status).toBe('active');
+        const bad = readRow('case', ['OS 1/2024', 'Sharma', 'open', '15/03/2024'], caseMapping, 'MM/DD/YYYY');
+        expect(bad.errors).toHaveLength(2);
+        expect(bad.errors[1]).toContain('MM/DD/YYYY');
+    });
+});
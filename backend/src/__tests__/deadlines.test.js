@@ -0,0 +1,106 @@
+import { describe, test, expect } from '@jest/globals';
+import { DEADLINE_RULES, findRule } from '../services/deadlineRules.js';
+import {
+    addPeriod,
+    computeDeadline,
+    formatDateOnly,
+    normalizeReminderDays,
+    parseDateOnly,
+    reminderTimes,
+    resolveRule,
+} from '../services/deadlines.js';
+
+const day = (text) => parseDateOnly(text);
+const compute = (ruleId, trigger, options) => {
+    const result = computeDeadline(findRule(ruleId), day(trigger), options);
+    return {
+        periodEnd: formatDateOnly(result.periodEnd),
+        dueDate: formatDateOnly(result.dueDate),
+        graceUntil: result.graceUntil && formatDateOnly(result.graceUntil),
+    };
+};
+
+describe('deadline rules', () => {
+    test('have unique ids and a period', () => {
+        const ids = DEADLINE_RULES.map(rule => rule.id);
+        expect(new Set(ids).size).toBe(ids.length);
+        DEADLINE_RULES.forEach(rule => expect(Object.keys(rule.period).length).toBeGreaterThan(0));
+    });
+});
+
+describe('addPeriod', () => {
+    test('counts days from the day after the trigger', () => {
+        expect(formatDateOnly(addPeriod(day('2024-01-01'), { days: 30 }))).toBe('2024-01-31');
+    });
+
+    test('clamps months and years to the end of a shorter month', () => {
+        expect(formatDateOnly(addPeriod(day('2024-11-30'), { months: 3 }))).toBe('2025-02-28');
+        expect(formatDateOnly(addPeriod(day('2024-02-29'), { years: 3 }))).toBe('2027-02-28');
+        expect(formatDateOnly(addPeriod(day('2024-01-31'), { months: 1 }))).toBe('2024-02-29');
+    });
+});
+
+describe('computeDeadline', () => {
+    test('moves a period ending on a Sunday to the Monday', () => {
+        // 90 days from 1 Jan 2024 ends on Sunday 31 Mar
+        expect(compute('cpc_appeal_hc', '2024-01-01')).toEqual({
+            periodEnd: '2024-03-31', dueDate: '2024-04-01', graceUntil: null,
+        });
+    });
+
+    test('skips court holidays as well', () => {
+        const holidays = new Set(['2024-04-01', '2024-04-02']);
+        expect(compute('cpc_appeal_hc', '2024-01-01', { holidays }).dueDate).toBe('2024-04-03');
+    });
+
+    test('adds excluded days for certified copies before rolling', () => {
+        expect(compute('cpc_appeal_other', '2024-01-01', { excludedDays: 11 }).dueDate).toBe('2024-02-12');
+    });
+
+    test('runs statutory grace from the unextended end of the period', () => {
+        expect(compute('arb_s34', '2024-11-30')).toEqual({
+            periodEnd: '2025-02-28', dueDate: '2025-02-28', graceUntil: '2025-03-30',
+        });
+    });
+
+    test('starts the NI Act complaint period after the 15-day payment window', () => {
+        // Payment window closes 25 Jan; one month later is Sunday 25 Feb
+        expect(compute('ni138_complaint', '2024-01-10').dueDate).toBe('2024-02-26');
+        expect(compute('ni138_payment', '2024-01-10').dueDate).toBe('2024-01-25');
+    });
+});
+
+describe('resolveRule', () => {
+    test('builds a custom rule from a title and a period in days', () => {
+        expect(resolveRule('custom', { title: 'Rejoinder', periodDays: 14 }).period).toEqual({ days: 14 });
+    });
+
+    test('rejects unknown rules and malformed custom ones', () => {
+        expect(() => resolveRule('no_such_rule')).toThrow('Unknown deadline rule');
+        expect(() => resolveRule('custom', { title: '', periodDays: 14 })).toThrow();
+        expect(() => resolveRule('custom', { title: 'Rejoinder', periodDays: 0 })).toThrow();
+    });
+});
+
+describe('parseDateOnly', () => {
+    test('rejects dates that do not exist', () => {
+        expect(() => parseDateOnly('2023-02-29')).toThrow('not a valid date');
+        expect(() => parseDateOnly('29/02/2024')).toThrow('YYYY-MM-DD');
+    });
+});
+
+describe('reminders', () => {
+    test('default, dedupe and sort reminder days', () => {
+        expect(normalizeReminderDays(undefined)).toEqual([30, 7, 1]);
+        expect(normalizeReminderDays([1, 7, 7, 0])).toEqual([7, 1, 0]);
+        expect(() => normalizeReminderDays([-1])).toThrow();
+    });
+
+    test('only schedule reminders still in the future, at 09:00 IST', () => {
+        const times = reminderTimes(day('2024-04-01'), [30, 7, 1], new Date('2024-03-20T00:00:00Z'));
+        expect(times.map(time => time.toISOString())).toEqual([
+            '2024-03-25T03:30:00.000Z',
+            '2024-03-31T03:30:00.000Z',
+        ]);
+    });
+});
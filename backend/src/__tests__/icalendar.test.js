@@ -0,0 +1,254 @@
+import { describe, test, expect } from '@jest/globals';
+import { ICalendarError, alarmTrigger, buildCalendar, escapeText, foldLine, parseCalendar, unescapeText, wallClock } from '../services/icalendar.js';
+import { matchCase, mentionsCaseNumber } from '../services/calendarImport.js';
+import {
+    CalendarFeedError,
+    FEED_TOKEN_PATTERN,
+    createFeedToken,
+    deadlineEvent,
+    hashFeedToken,
+    hearingEvent,
+    normalizeExportRange,
+    normalizeFeedFilters,
+} from '../services/calendarFeed.js';
+
+const NOW = new Date('2025-03-10T12:00:00Z');
+const CASE = { caseNumber: 'CS 12/2024', clientName: 'Asha Rao', opposingParty: 'Vikram Shah' };
+
+describe('iCalendar output', () => {
+    test('escapes text values', () => {
+        expect(escapeText('Arguments; IA 3, 4\\5\nbring files')).toBe('Arguments\\; IA 3\\, 4\\\\5\\nbring files');
+    });
+
+    test('folds long lines at 75 octets without splitting a character', () => {
+        const line = `SUMMARY:${'न्यायालय '.repeat(10)}`;
+        const folded = foldLine(line).split('\r\n');
+        expect(folded.length).toBeGreaterThan(1);
+        folded.forEach((part, index) => {
+            expect(Buffer.byteLength(part, 'utf8')).toBeLessThanOrEqual(75);
+            if (index > 0) {
+                expect(part.startsWith(' ')).toBe(true);
+            }
+        });
+        expect(folded.map((part, index) => (index > 0 ? part.slice(1) : part)).join('')).toBe(line);
+        expect(foldLine('SUMMARY:short')).toBe('SUMMARY:short');
+    });
+
+    test('reminds all-day events at 09:00 and timed events to the hour', () => {
+        expect(alarmTrigger(1, true)).toBe('-PT15H');
+        expect(alarmTrigger(7, true)).toBe('-P6DT15H');
+        expect(alarmTrigger(1, false)).toBe('-P1D');
+        expect(alarmTrigger(0, true)).toBe('PT9H');
+    });
+
+    test('writes timed and all-day events with CRLF line endings', () => {
+        const ics = buildCalendar({
+            name: 'Juriq hearings',
+            now: NOW,
+            events: [
+                { uid: 'a@juriq', start: new Date('2025-03-12T04:30:00Z'), end: new Date('2025-03-12T05:30:00Z'), summary: 'Timed' },
+                { uid: 'b@juriq', allDay: true, start: new Date('2025-03-14T00:00:00Z'), summary: 'All day', alarms: [1] },
+            ],
+        });
+        expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+        expect(ics.split('\r\n')).toEqual(expect.arrayContaining([
+            'BEGIN:VCALENDAR',
+            'DTSTAMP:20250310T120000Z',
+            'DTSTART:20250312T043000Z',
+            'DTEND:20250312T053000Z',
+            'DTSTART;VALUE=DATE:20250314',
+            'DTEND;VALUE=DATE:20250315',
+            'TRIGGER:-PT15H',
+        ]));
+    });
+});
+
+describe('calendar feed events', () => {
+    test('a timed hearing carries court, judge, purpose and documents to bring', () => {
+        const event = hearingEvent({
+            _id: 'h1',
+            hearingDate: new Date('2025-03-12T00:00:00Z'),
+            hearingTime: '10:00',
+            startAt: new Date('2025-03-12T04:30:00Z'),
+            endAt: new Date('2025-03-12T05:30:00Z'),
+            courtName: 'City Civil Court',
+            judgeName: 'Justice Iyer',
+            purpose: 'Arguments',
+            documentsToBring: ['Vakalatnama', 'Certified copy'],
+        }, CASE);
+        expect(event).toMatchObject({
+            uid: 'hearing-h1@juriq',
+            summary: 'CS 12/2024 — Arguments',
+            location: 'City Civil Court',
+            start: new Date('2025-03-12T04:30:00Z'),
+        });
+        expect(event.allDay).toBeUndefined();
+        expect(event.description).toContain('Judge: Justice Iyer');
+        expect(event.description).toContain('Documents to bring:\n- Vakalatnama\n- Certified copy');
+    });
+
+    test('a hearing without a time is all day', () => {
+        const event = hearingEvent({ _id: 'h2', hearingDate: new Date('2025-03-12T00:00:00Z'), hearingType: 'final_hearing', courtName: 'HC' }, CASE);
+        expect(event).toMatchObject({ allDay: true, summary: 'CS 12/2024 — Final hearing' });
+    });
+
+    test('a deadline is all day on its due date with its reminders', () => {
+        const event = deadlineEvent({
+            _id: 'd1',
+            title: 'First appeal',
+            act: 'Limitation Act, 1963',
+            provision: 'Art. 116',
+            triggerDate: new Date('2025-01-10T00:00:00Z'),
+            dueDate: new Date('2025-04-10T00:00:00Z'),
+            reminderDays: [30, 7],
+        }, CASE);
+        expect(event).toMatchObject({ uid: 'deadline-d1@juriq', allDay: true, summary: 'Due: First appeal — CS 12/2024', alarms: [30, 7] });
+        expect(event.description).toContain('Counted from 2025-01-10');
+    });
+});
+
+describe('calendar feed input', () => {
+    test('tokens fit the URL pattern and only their hash is stored', () => {
+        const { token, tokenHash } = createFeedToken();
+        expect(FEED_TOKEN_PATTERN.test(token)).toBe(true);
+        expect(tokenHash).toBe(hashFeedToken(token));
+        expect(tokenHash).not.toContain(token);
+    });
+
+    test('filters and export ranges are checked', () => {
+        expect(normalizeFeedFilters({ court: '  City Civil Court ' })).toEqual({ caseId: null, court: 'City Civil Court' });
+        expect(() => normalizeFeedFilters({ caseId: 'nope' })).toThrow(CalendarFeedError);
+        expect(normalizeExportRange({ from: '2025-03-01', to: '2025-03-31' })).toEqual({
+            from: new Date('2025-03-01T00:00:00Z'),
+            to: new Date('2025-04-01T00:00:00Z'),
+        });
+        expect(() => normalizeExportRange({ from: '2025-03-31', to: '2025-03-01' })).toThrow(/ends before/);
+        expect(() => normalizeExportRange({ from: '2025-01-01', to: '2026-06-01' })).toThrow(/at most/);
+        expect(() => normalizeExportRange({ from: '2025-03-01' })).toThrow(CalendarFeedError);
+    });
+});
+
+const ics = (...lines) => ['BEGIN:VCALENDAR', 'VERSION:2.0', ...lines, 'END:VCALENDAR'].join('\r\n');
+const MARCH = { from: new Date('2025-03-01T00:00:00Z'), to: new Date('2025-04-01T00:00:00Z') };
+
+describe('iCalendar input', () => {
+    test('reads folded, escaped text and round-trips escapeText', () => {
+        const { events } = parseCalendar(ics(
+            'BEGIN:VEVENT', 'UID:a', 'DTSTART:20250312T043000Z', 'DTEND:20250312T053000Z',
+            'SUMMARY:CS 12/2024\\, argu', ' ments', 'LOCATION:Court Hall 4\\; City Civil Court', 'END:VEVENT'
+        ), MARCH);
+        expect(events).toHaveLength(1);
+        expect(events[0]).toMatchObject({
+            key: 'a|2025-03-12T04:30:00.000Z',
+            summary: 'CS 12/2024, arguments',
+            location: 'Court Hall 4; City Civil Court',
+            allDay: false,
+            recurring: false,
+            end: new Date('2025-03-12T05:30:00Z'),
+        });
+        expect(unescapeText(escapeText('a;b,c\\d\ne'))).toBe('a;b,c\\d\ne');
+    });
+
+    test('resolves IANA, Outlook and prefixed zones, and reads floating times as IST', () => {
+        const { events, warnings } = parseCalendar(ics(
+            'BEGIN:VEVENT', 'UID:a', 'DTSTART;TZID=India Standard Time:20250303T103000', 'SUMMARY:Outlook', 'END:VEVENT',
+            'BEGIN:VEVENT', 'UID:b', 'DTSTART;TZID=/mozilla.org/20050126_1/America/New_York:20250310T090000', 'SUMMARY:New York', 'END:VEVENT',
+            'BEGIN:VEVENT', 'UID:c', 'DTSTART:20250305T100000', 'SUMMARY:Floating', 'END:VEVENT',
+            'BEGIN:VEVENT', 'UID:d', 'DTSTART;VALUE=DATE:20250320', 'SUMMARY:All day', 'END:VEVENT'
+        ), MARCH);
+        expect(warnings).toEqual([]);
+        const start = (summary) => events.find(event => event.summary === summary).start.toISOString();
+        expect(start('Outlook')).toBe('2025-03-03T05:00:00.000Z');
+        // New York is on daylight time from 9 March
+        expect(start('New York')).toBe('2025-03-10T13:00:00.000Z');
+        expect(start('Floating')).toBe('2025-03-05T04:30:00.000Z');
+        expect(events.find(event => event.allDay)).toMatchObject({
+            start: new Date('2025-03-20T00:00:00Z'),
+            end: new Date('2025-03-21T00:00:00Z'),
+        });
+        expect(wallClock(new Date('2025-03-10T13:00:00Z'), 'Asia/Kolkata')).toEqual({ date: '2025-03-10', time: '18:30' });
+    });
+
+    test('falls back to the VTIMEZONE offset for an unknown zone name', () => {
+        const { events } = parseCalendar(ics(
+            'BEGIN:VTIMEZONE', 'TZID:Custom IST', 'BEGIN:STANDARD', 'TZOFFSETFROM:+0530', 'TZOFFSETTO:+0530', 'END:STANDARD', 'END:VTIMEZONE',
+            'BEGIN:VEVENT', 'UID:a', 'DTSTART;TZID="Custom IST":20250303T103000', 'SUMMARY:Custom', 'END:VEVENT'
+        ), MARCH);
+        expect(events[0].start.toISOString()).toBe('2025-03-03T05:00:00.000Z');
+    });
+
+    test('expands weekly rules with exceptions and moved occurrences', () => {
+        const { events } = parseCalendar(ics(
+            'BEGIN:VEVENT', 'UID:w', 'DTSTART;TZID=Asia/Kolkata:20250303T103000', 'DURATION:PT1H', 'SUMMARY:Mention',
+            'RRULE:FREQ=WEEKLY;BYDAY=MO,WE;COUNT=5', 'EXDATE;TZID=Asia/Kolkata:20250305T103000', 'END:VEVENT',
+            'BEGIN:VEVENT', 'UID:w', 'RECURRENCE-ID;TZID=Asia/Kolkata:20250310T103000', 'DTSTART;TZID=Asia/Kolkata:20250311T140000',
+            'SUMMARY:Mention (moved)', 'END:VEVENT'
+        ), MARCH);
+        expect(events.map(event => [wallClock(event.start, 'Asia/Kolkata').date, event.summary])).toEqual([
+            ['2025-03-03', 'Mention'],
+            ['2025-03-11', 'Mention (moved)'],
+            ['2025-03-12', 'Mention'],
+            ['2025-03-17', 'Mention'],
+        ]);
+        expect(events.every(event => event.recurring)).toBe(true);
+        expect(events[0].end.getTime() - events[0].start.getTime()).toBe(60 * 60 * 1000);
+    });
+
+    test('expands monthly rules by weekday ordinal and month day until UNTIL', () => {
+        const { events } = parseCalendar(ics(
+            'BEGIN:VEVENT', 'UID:m', 'DTSTART;VALUE=DATE:20250103', 'SUMMARY:Last Friday', 'RRULE:FREQ=MONTHLY;BYDAY=-1FR;UNTIL=20250601', 'END:VEVENT',
+            'BEGIN:VEVENT', 'UID:n', 'DTSTART;VALUE=DATE:20250131', 'SUMMARY:Month end', 'RRULE:FREQ=MONTHLY;BYMONTHDAY=-1;COUNT=4', 'END:VEVENT'
+        ), { from: new Date('2025-01-01T00:00:00Z'), to: new Date('2026-01-01T00:00:00Z') });
+        const days = (summary) => events.filter(event => event.summary === summary).map(event => event.start.toISOString().slice(0, 10));
+        // DTSTART is always the first occurrence, even off the rule
+        expect(days('Last Friday')).toEqual(['2025-01-03', '2025-01-31', '2025-02-28', '2025-03-28', '2025-04-25', '2025-05-30']);
+        expect(days('Month end')).toEqual(['2025-01-31', '2025-02-28', '2025-03-31', '2025-04-30']);
+    });
+
+    test('keeps the window, drops cancelled events and warns about unsupported rules', () => {
+        const { events, warnings } = parseCalendar(ics(
+            'BEGIN:VEVENT', 'UID:d', 'DTSTART:20240101T043000Z', 'SUMMARY:Daily', 'RRULE:FREQ=DAILY;INTERVAL=2', 'END:VEVENT',
+            'BEGIN:VEVENT', 'UID:x', 'DTSTART:20250310T043000Z', 'SUMMARY:Called off', 'STATUS:CANCELLED', 'END:VEVENT',
+            'BEGIN:VEVENT', 'UID:h', 'DTSTART:20250302T043000Z', 'SUMMARY:Hourly', 'RRULE:FREQ=HOURLY', 'END:VEVENT'
+        ), MARCH);
+        expect(events.filter(event => event.summary === 'Daily')).toHaveLength(15);
+        expect(events.filter(event => event.summary === 'Hourly')).toHaveLength(1);
+        expect(events.some(event => event.summary === 'Called off')).toBe(false);
+        expect(warnings).toEqual([expect.stringContaining('"Hourly" repeats by a rule that is not supported')]);
+    });
+
+    test('rejects text that is not a calendar', () => {
+        expect(() => parseCalendar('hello', MARCH)).toThrow(ICalendarError);
+    });
+});
+
+describe('calendar import matching', () => {
+    const cases = [
+        { _id: 'c1', caseNumber: 'CS(OS) 123/2023', clientName: 'Asha Rao', opposingParty: 'Vikram Shah', courtName: 'Delhi High Court' },
+        { _id: 'c2', caseNumber: 'WP(C) 123/2023', clientName: 'Meera Iyer', courtName: 'Delhi High Court' },
+        { _id: 'c3', caseNumber: 'DLHC010012342023', clientName: 'Ravi Kumar', courtName: 'Delhi High Court' },
+        { _id: 'c4', caseNumber: 'CRL 55/2024', clientName: 'State', opposingParty: 'Rohan Das', courtName: 'Saket District Court' },
+        { _id: 'c5', caseNumber: 'CRL 55/2024', clientName: 'State', opposingParty: 'Rohan Das', courtName: 'Tis Hazari Court' },
+    ];
+
+    test('finds a case number however it is written, type included', () => {
+        expect(mentionsCaseNumber('Hearing in CS (OS) No. 0123 of 2023', cases[0])).toBe(true);
+        expect(mentionsCaseNumber('cs(os)-123-23 arguments', cases[0])).toBe(true);
+        expect(mentionsCaseNumber('WP(C) 123/2023', cases[0])).toBe(false);
+        expect(mentionsCaseNumber('CS(OS) 1123/2023', cases[0])).toBe(false);
+        expect(mentionsCaseNumber('CNR DLHC01-001234-2023', cases[2])).toBe(true);
+    });
+
+    test('matches by number, then by party, and uses the location to choose', () => {
+        expect(matchCase({ summary: 'WP(C) 123/2023 — final arguments' }, cases).match)
+            .toEqual({ caseId: 'c2', caseNumber: 'WP(C) 123/2023', by: 'case_number' });
+        expect(matchCase({ summary: 'Conference with Meera Iyer' }, cases).match).toMatchObject({ caseId: 'c2', by: 'party' });
+        expect(matchCase({ summary: 'Call Meera' }, cases)).toEqual({ match: null, candidates: [] });
+
+        const ambiguous = matchCase({ summary: 'CRL 55/2024 evidence' }, cases);
+        expect(ambiguous.match).toBeNull();
+        expect(ambiguous.candidates.map(c => c.caseId)).toEqual(['c4', 'c5']);
+        expect(matchCase({ summary: 'CRL 55/2024 evidence', location: 'Court 12, Saket District Court' }, cases).match)
+            .toMatchObject({ caseId: 'c4' });
+    });
+});
@@ -0,0 +1,49 @@
+import { describe, test, expect, jest, afterEach } from '@jest/globals';
+import mongoose from 'mongoose';
+import Client from '../models/Client.js';
+import Invoice from '../models/Invoice.js';
+import { summarizeInvoices, withClientNames } from '../services/invoiceSummary.js';
+
+const OWNER = '64b7f0c2a1b2c3d4e5f60800';
+const CLIENT = new mongoose.Types.ObjectId('64b7f0c2a1b2c3d4e5f60801');
+
+afterEach(() => {
+    jest.restoreAllMocks();
+});
+
+describe('summarizeInvoices', () => {
+    test('totals every invoice, the paid ones and those awaiting payment', async () => {
+        const aggregate = jest.spyOn(Invoice, 'aggregate').mockResolvedValue([
+            { _id: 'draft', count: 1, total: 500 },
+            { _id: 'sent', count: 2, total: 3000 },
+            { _id: 'overdue', count: 1, total: 1000 },
+            { _id: 'paid', count: 3, total: 6000 },
+        ]);
+
+        await expect(summarizeInvoices(OWNER)).resolves.toEqual({ count: 7, billed: 10500, paid: 6000, pending: 4000 });
+        expect(aggregate.mock.calls[0][0][0].$match.owner).toBeInstanceOf(mongoose.Types.ObjectId);
+    });
+
+    test('is all zeros without invoices', async () => {
+        jest.spyOn(Invoice, 'aggregate').mockResolvedValue([]);
+        await expect(summarizeInvoices(OWNER)).resolves.toEqual({ count: 0, billed: 0, paid: 0, pending: 0 });
+    });
+});
+
+describe('withClientNames', () => {
+    test('names the client of each invoice from one lookup, and null for a missing client', async () => {
+        const find = jest.spyOn(Client, 'find').mockReturnValue({
+            select: () => ({ lean: () => Promise.resolve([{ _id: CLIENT, name: 'Asha Rao' }]) }),
+        });
+
+        const named = await withClientNames(OWNER, [
+            { id: 'a', clientId: CLIENT },
+            { id: 'b', clientId: CLIENT },
+            { id: 'c', clientId: '64b7f0c2a1b2c3d4e5f60802' },
+        ]);
+
+        expect(named.map(invoice => invoice.clientName)).toEqual(['Asha Rao', 'Asha Rao', null]);
+        expect(find).toHaveBeenCalledTimes(1);
+        expect(find.mock.calls[0][0]).toMatchObject({ owner: OWNER });
+    });
+});
@@ -0,0 +1,170 @@
+import { describe, test, expect } from '@jest/globals';
+import mongoose from 'mongoose';
+import {
+    parseListQuery,
+    encodeCursor,
+    decodeCursor,
+    cursorFilter,
+    findList,
+    ListQueryError,
+    MAX_PAGE_SIZE,
+} from '../services/listQuery.js';
+
+const SPEC = {
+    sortFields: ['createdAt', 'name'],
+    enumFilters: { status: ['active', 'closed'] },
+    idFilters: ['clientId'],
+    dateFields: ['createdAt'],
+    searchFields: ['name'],
+};
+
+const OWNER = '507f1f77bcf86cd799439011';
+
+describe('parseListQuery', () => {
+    test('defaults to the legacy full list sorted newest first', () => {
+        const parsed = parseListQuery({}, SPEC, OWNER);
+        expect(parsed).toEqual({
+            filter: { $and: [{ owner: OWNER }] },
+            sortField: 'createdAt',
+            direction: 'desc',
+            nullsLast: false,
+            limit: null,
+            cursor: null,
+        });
+    });
+
+    test('builds enum, id, date and search conditions', () => {
+        const clientId = new mongoose.Types.ObjectId().toString();
+        const { filter } = parseListQuery(
+            { status: 'active,closed', clientId, from: '2024-01-01', q: 'a.b' },
+            SPEC,
+            OWNER
+        );
+        expect(filter.$and).toEqual([
+            { owner: OWNER },
+            { status: { $in: ['active', 'closed'] } },
+            { clientId: new mongoose.Types.ObjectId(clientId) },
+            { createdAt: { $gte: new Date('2024-01-01') } },
+            { $or: [{ name: { $regex: 'a\\.b', $options: 'i' } }] },
+        ]);
+    });
+
+    test('puts documents without a value last only for ascending nullsLast fields', () => {
+        const spec = { ...SPEC, nullsLast: ['name'] };
+        expect(parseListQuery({ sort: 'name', order: 'asc' }, spec, OWNER).nullsLast).toBe(true);
+        expect(parseListQuery({ sort: 'name', order: 'desc' }, spec, OWNER).nullsLast).toBe(false);
+        expect(parseListQuery({ sort: 'createdAt', order: 'asc' }, spec, OWNER).nullsLast).toBe(false);
+    });
+
+    test('caps the page size', () => {
+        expect(parseListQuery({ limit: '5000' }, SPEC, OWNER).limit).toBe(MAX_PAGE_SIZE);
+        expect(parseListQuery({ limit: 'abc' }, SPEC, OWNER).limit).toBe(25);
+    });
+
+    test.each([
+        [{ sort: 'password' }],
+        [{ order: 'sideways' }],
+        [{ status: 'archived' }],
+        [{ clientId: 'nope' }],
+        [{ from: 'not-a-date' }],
+        [{ cursor: 'garbage' }],
+    ])('rejects %o', (query) => {
+        expect(() => parseListQuery(query, SPEC, OWNER)).toThrow(ListQueryError);
+    });
+});
+
+describe('cursors', () => {
+    test('round-trip dates and ids', () => {
+        const doc = { _id: new mongoose.Types.ObjectId(), createdAt: new Date('2024-03-04T05:06:07Z') };
+        const { value, id } = decodeCursor(encodeCursor(doc, 'createdAt'));
+        expect(value).toEqual(doc.createdAt);
+        expect(id.equals(doc._id)).toBe(true);
+    });
+
+    test('descending pages continue into documents without a sort value', () => {
+        const id = new mongoose.Types.ObjectId();
+        expect(cursorFilter('name', 'desc', { value: 'm', id })).toEqual({
+            $or: [{ name: { $lt: 'm' } }, { name: 'm', _id: { $lt: id } }, { name: null }],
+        });
+        expect(cursorFilter('name', 'asc', { value: null, id })).toEqual({
+            $or: [{ name: null, _id: { $gt: id } }, { name: { $ne: null } }],
+        });
+    });
+});
+
+/**
+ * A model over an in-memory list that evaluates the filters findList builds:
+ * $and, $or, equality (null also matching a missing field), $ne, $gt and $lt.
+ */
+function memoryModel(docs) {
+    const key = value => (value instanceof mongoose.Types.ObjectId ? value.toString() : value);
+    const test = (doc, cond) => Object.entries(cond).every(([field, want]) => {
+        if (field === '$and') {
+            return want.every(c => test(doc, c));
+        }
+        if (field === '$or') {
+            return want.some(c => test(doc, c));
+        }
+        const have = key(doc[field] ?? null);
+        if (want === null || typeof want !== 'object' || want instanceof mongoose.Types.ObjectId) {
+            return have === key(want);
+        }
+        return Object.entries(want).every(([op, value]) => (op === '$ne' ? have !== key(value)
+            : have !== null && (op === '$gt' ? have > key(value) : have < key(value))));
+    });
+    return {
+        find(filter) {
+            let matches = docs.filter(doc => test(doc, filter));
+            const query = {
+                sort(order) {
+                    const fields = Object.entries(order);
+                    matches = [...matches].sort((a, b) => {
+                        for (const [field, dir] of fields) {
+                            const x = key(a[field] ?? null);
+                            const y = key(b[field] ?? null);
+                            if (x !== y) {
+                                return (x === null ? -1 : y === null ? 1 : x < y ? -1 : 1) * dir;
+                            }
+                        }
+                        return 0;
+                    });
+                    return query;
+                },
+                limit(n) {
+                    matches = n ? matches.slice(0, n) : matches;
+                    return query;
+                },
+                lean: () => Promise.resolve(matches),
+            };
+            return query;
+        },
+        countDocuments: filter => Promise.resolve(docs.filter(doc => test(doc, filter)).length),
+    };
+}
+
+describe('findList', () => {
+    const doc = (name) => ({ _id: new mongoose.Types.ObjectId(), owner: OWNER, ...(name && { name }) });
+    const docs = [doc('b'), doc(null), doc('a'), doc(null), doc('c')];
+    const spec = { ...SPEC, nullsLast: ['name'] };
+
+    test('pages through an ascending nullsLast sort without dropping unset documents', async () => {
+        const Model = memoryModel(docs);
+        const names = [];
+        let cursor;
+        let total;
+        do {
+            const page = await findList(Model, parseListQuery({ sort: 'name', order: 'asc', limit: '2', cursor }, spec, OWNER));
+            names.push(...page.items.map(item => item.name ?? null));
+            cursor = page.nextCursor ?? undefined;
+            total = page.total;
+        } while (cursor);
+
+        expect(names).toEqual(['a', 'b', 'c', null, null]);
+        expect(total).toBe(5);
+    });
+
+    test('returns the full list in the same order', async () => {
+        const items = await findList(memoryModel(docs), parseListQuery({ sort: 'name', order: 'asc' }, spec, OWNER));
+        expect(items.map(item => item.name ?? null)).toEqual(['a', 'b', 'c', null, null]);
+    });
+});
@@ -0,0 +1,80 @@
+import { describe, test, expect, jest, afterEach } from '@jest/globals';
+import SavedView from '../models/SavedView.js';
+import User from '../models/User.js';
+import { SavedViewError, checkPage, listViews, normalizeViewInput } from '../services/savedViews.js';
+
+describe('normalizeViewInput', () => {
+    test('trims the name and keeps text settings', () => {
+        expect(normalizeViewInput({ name: '  Urgent matters ', state: { status: 'active', priority: 'urgent' }, shared: 1 })).toEqual({
+            name: 'Urgent matters',
+            state: { status: 'active', priority: 'urgent' },
+            shared: true,
+        });
+    });
+
+    test('requires a name unless only some fields are being changed', () => {
+        expect(() => normalizeViewInput({ state: {} })).toThrow(SavedViewError);
+        expect(normalizeViewInput({ shared: false }, { partial: true })).toEqual({ shared: false });
+    });
+
+    test('rejects settings that are not text or have unusable keys', () => {
+        expect(() => normalizeViewInput({ name: 'A', state: { status: ['active'] } })).toThrow(/status/);
+        expect(() => normalizeViewInput({ name: 'A', state: { 'cf.court': 'x' } })).toThrow(/cf\.court/);
+        expect(() => normalizeViewInput({ name: 'A', state: ['q'] })).toThrow(SavedViewError);
+    });
+});
+
+describe('checkPage', () => {
+    test('accepts the pages that have list views', () => {
+        expect(checkPage('documents')).toBe('documents');
+        expect(() => checkPage('invoices')).toThrow(/Page must be one of/);
+    });
+});
+
+describe('listViews', () => {
+    const OWNER = '64b7f0c2a1b2c3d4e5f60a01';
+    const COLLEAGUE = '64b7f0c2a1b2c3d4e5f60a02';
+    const OUTSIDER = '64b7f0c2a1b2c3d4e5f60a03';
+    const users = [
+        { _id: OWNER, name: 'Asha', firmId: 'firm-1', profile: { lawFirmName: 'Rao & Associates' } },
+        { _id: COLLEAGUE, name: 'Vikram', firmId: 'firm-1', profile: { lawFirmName: 'Rao and Associates' } },
+        // Typed the same firm name into their profile, but is not a member
+        { _id: OUTSIDER, name: 'Mallory', firmId: null, profile: { lawFirmName: 'Rao & Associates' } },
+    ];
+    const views = [
+        { _id: 'v1', owner: OWNER, page: 'cases', name: 'Urgent', shared: true, state: {} },
+        { _id: 'v2', owner: OWNER, page: 'cases', name: 'Mine only', shared: false, state: {} },
+        { _id: 'v3', owner: OUTSIDER, page: 'cases', name: 'Planted', shared: true, state: {} },
+    ];
+    const chain = (value) => ({ select: () => ({ lean: () => Promise.resolve(value) }) });
+    const owns = (filter, owner) => (typeof filter === 'string' ? filter === owner : filter.$in.map(String).includes(owner));
+
+    /** Serve User and SavedView queries from the lists above, for the filter shapes listViews uses. */
+    function useFixtures() {
+        jest.spyOn(User, 'findById').mockImplementation(id => chain(users.find(user => user._id === String(id))));
+        jest.spyOn(User, 'find').mockImplementation(({ _id, firmId }) => chain(users.filter(user => (
+            firmId === undefined ? _id.$in.includes(user._id) : user.firmId === firmId && user._id !== String(_id.$ne)
+        ))));
+        jest.spyOn(SavedView, 'find').mockImplementation(({ page, $or }) => ({
+            sort: () => ({
+                lean: () => Promise.resolve(views.filter(view => view.page === page
+                    && $or.some(clause => owns(clause.owner, view.owner) && (clause.shared === undefined || view.shared === clause.shared)))),
+            }),
+        }));
+    }
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    test('firm members see each other\'s shared views', async () => {
+        useFixtures();
+        expect((await listViews(COLLEAGUE, 'cases')).map(view => view.id)).toEqual(['v1']);
+    });
+
+    test('a user with the same firm name but no membership sees none of them', async () => {
+        useFixtures();
+        expect((await listViews(OUTSIDER, 'cases')).map(view => view.id)).toEqual(['v3']);
+        expect((await listViews(OWNER, 'cases')).map(view => view.id).sort()).toEqual(['v1', 'v2']);
+    });
+});
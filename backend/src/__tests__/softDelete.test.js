@@ -0,0 +1,50 @@
+import { describe, test, expect } from '@jest/globals';
+import mongoose from 'mongoose';
+import softDelete from '../models/plugins/softDelete.js';
+
+/**
+ * The query hooks run before mongoose talks to the server, so with command
+ * buffering off each query fails fast without a connection and its filter or
+ * pipeline can be inspected afterwards.
+ */
+
+const probeSchema = new mongoose.Schema({ name: String }, { bufferCommands: false });
+probeSchema.plugin(softDelete);
+const Probe = mongoose.model('SoftDeleteProbe', probeSchema);
+
+async function filterAfterHooks(query) {
+    await query.exec().catch(() => undefined);
+    return query.getFilter();
+}
+
+describe('softDelete plugin', () => {
+    test('adds deletedAt and trashedWith to the schema', () => {
+        expect(probeSchema.path('deletedAt')).toBeDefined();
+        expect(probeSchema.path('trashedWith')).toBeDefined();
+    });
+
+    test('reads, counts and updates skip trashed documents', async () => {
+        expect(await filterAfterHooks(Probe.find({ name: 'a' }))).toEqual({ name: 'a', deletedAt: null });
+        expect(await filterAfterHooks(Probe.findOne({ name: 'a' }))).toEqual({ name: 'a', deletedAt: null });
+        expect(await filterAfterHooks(Probe.countDocuments({}))).toEqual({ deletedAt: null });
+        expect(await filterAfterHooks(Probe.updateMany({ name: 'a' }, { $set: { name: 'b' } })))
+            .toEqual({ name: 'a', deletedAt: null });
+        expect(await filterAfterHooks(Probe.findOneAndUpdate({ name: 'a' }, { $set: { name: 'b' } })))
+            .toEqual({ name: 'a', deletedAt: null });
+    });
+
+    test('a filter on deletedAt or the withDeleted option reaches the Trash', async () => {
+        expect(await filterAfterHooks(Probe.find({ deletedAt: { $ne: null } }))).toEqual({ deletedAt: { $ne: null } });
+        expect(await filterAfterHooks(Probe.find({ name: 'a' }).setOptions({ withDeleted: true }))).toEqual({ name: 'a' });
+    });
+
+    test('aggregations start by dropping trashed documents unless asked not to', async () => {
+        const live = Probe.aggregate([{ $match: { name: 'a' } }]);
+        await live.exec().catch(() => undefined);
+        expect(live.pipeline()).toEqual([{ $match: { deletedAt: null } }, { $match: { name: 'a' } }]);
+
+        const all = Probe.aggregate([{ $match: { name: 'a' } }]).option({ withDeleted: true });
+        await all.exec().catch(() => undefined);
+        expect(all.pipeline()).toEqual([{ $match: { name: 'a' } }]);
+    });
+});
@@ -0,0 +1,155 @@
+import { describe, test, expect, beforeAll, afterAll, afterEach, jest } from '@jest/globals';
+import mongoose from 'mongoose';
+import { Case, Hearing, Document } from '../models/index.js';
+import CaseNote from '../models/CaseNote.js';
+import {
+    TRASH_RETENTION_DAYS,
+    TrashError,
+    moveToTrash,
+    purgeDate,
+    purgeExpired,
+    purgeFromTrash,
+    restoreFromTrash,
+} from '../services/trash.js';
+
+/**
+ * Trash service. Argument checks run anywhere; the round trips through the
+ * database need MONGODB_URI, like the hard-deletion suite, and are skipped in CI.
+ */
+
+const MONGODB_URI = process.env.MONGODB_URI;
+const isCI = process.env.CI === 'true' || process.env.CI === '1';
+const describeif = (MONGODB_URI && !isCI) ? describe : describe.skip;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('trash arguments', () => {
+    test('the purge date is the retention window after deletion', () => {
+        const deletedAt = new Date('2025-01-01T00:00:00Z');
+        expect(purgeDate(deletedAt).getTime() - deletedAt.getTime()).toBe(TRASH_RETENTION_DAYS * DAY_MS);
+    });
+
+    test('unknown types and malformed ids are refused before any query', async () => {
+        await expect(moveToTrash('hearing', new mongoose.Types.ObjectId(), new mongoose.Types.ObjectId()))
+            .rejects.toThrow(TrashError);
+        await expect(restoreFromTrash('case', 'not-an-id', new mongoose.Types.ObjectId()))
+            .rejects.toMatchObject({ status: 404 });
+        await expect(purgeFromTrash('case', 'not-an-id', new mongoose.Types.ObjectId()))
+            .rejects.toMatchObject({ status: 404 });
+    });
+});
+
+describe('restoring a case whose number was reused', () => {
+    const owner = new mongoose.Types.ObjectId();
+    const trashedId = new mongoose.Types.ObjectId();
+    const chain = (value) => ({ select: () => ({ lean: () => Promise.resolve(value) }) });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    test('is refused with a 409 and leaves the case in the Trash', async () => {
+        jest.spyOn(Case, 'findOne').mockReturnValue(chain({ _id: trashedId, caseNumber: 'CS(OS) 12/2024' }));
+        jest.spyOn(Case, 'find').mockReturnValue(chain([
+            { _id: new mongoose.Types.ObjectId(), caseNumber: 'CS (OS) No. 12 of 2024', caseNumberKey: 'CS(OS)|12|2024' },
+        ]));
+        const restore = jest.spyOn(Case, 'findOneAndUpdate');
+
+        await expect(restoreFromTrash('case', trashedId, owner)).rejects.toMatchObject({
+            name: 'TrashError',
+            status: 409,
+            message: expect.stringContaining('CS (OS) No. 12 of 2024'),
+        });
+        expect(restore).not.toHaveBeenCalled();
+    });
+});
+
+describeif('trash round trips', () => {
+    const owner = new mongoose.Types.ObjectId();
+    const outsider = new mongoose.Types.ObjectId();
+
+    beforeAll(async () => {
+        if (mongoose.connection.readyState === 0) {
+            await mongoose.connect(MONGODB_URI);
+        }
+    }, 30000);
+
+    afterAll(async () => {
+        const filter = { owner: { $in: [owner, outsider] } };
+        await Case.deleteMany(filter).setOptions({ withDeleted: true });
+        await Hearing.deleteMany(filter).setOptions({ withDeleted: true });
+        await CaseNote.deleteMany({ authorId: { $in: [owner, outsider] } });
+        await Document.deleteMany({ ownerId: { $in: [owner, outsider] } }).setOptions({ withDeleted: true });
+        if (mongoose.connection.readyState !== 0) {
+            await mongoose.connection.close();
+        }
+    }, 15000);
+
+    async function caseWithDependents(caseNumber) {
+        const case_ = await Case.create({ caseNumber, clientName: 'Trash Client', owner });
+        const hearing = await Hearing.create({ caseId: case_._id, owner, hearingDate: new Date(), courtName: 'City Civil Court' });
+        const note = await CaseNote.create({ caseId: case_._id, authorId: owner, content: 'Filed vakalatnama' });
+        return { case_, hearing, note };
+    }
+
+    test('trashing a case hides it and takes its hearings and notes along', async () => {
+        const { case_, hearing, note } = await caseWithDependents(`TRASH-${Date.now()}-1`);
+
+        expect(await moveToTrash('case', case_._id, outsider)).toBeNull();
+        const trashed = await moveToTrash('case', case_._id, owner);
+        expect(trashed.deletedAt).toBeInstanceOf(Date);
+
+        expect(await Case.findById(case_._id)).toBeNull();
+        expect(await Hearing.findById(hearing._id)).toBeNull();
+        const hiddenHearing = await Hearing.findById(hearing._id).setOptions({ withDeleted: true }).lean();
+        expect(String(hiddenHearing.trashedWith)).toBe(String(case_._id));
+        expect((await CaseNote.findById(note._id).lean()).isDeleted).toBe(true);
+    });
+
+    test('restoring a case brings back only what went in with it', async () => {
+        const { case_, hearing, note } = await caseWithDependents(`TRASH-${Date.now()}-2`);
+        const deletedEarlier = await Hearing.create({
+            caseId: case_._id, owner, hearingDate: new Date(), courtName: 'City Civil Court', deletedAt: new Date(),
+        });
+
+        await moveToTrash('case', case_._id, owner);
+        expect(await restoreFromTrash('case', case_._id, outsider)).toBeNull();
+        const restored = await restoreFromTrash('case', case_._id, owner);
+        expect(restored.deletedAt).toBeNull();
+
+        expect(await Case.findById(case_._id)).not.toBeNull();
+        expect(await Hearing.findById(hearing._id)).not.toBeNull();
+        expect(await Hearing.findById(deletedEarlier._id)).toBeNull();
+        expect((await CaseNote.findById(note._id).lean()).isDeleted).toBe(false);
+        expect(await restoreFromTrash('case', case_._id, owner)).toBeNull();
+    });
+
+    test('purging removes a trashed case and its dependents for good', async () => {
+        const { case_, hearing, note } = await caseWithDependents(`TRASH-${Date.now()}-3`);
+
+        expect(await purgeFromTrash('case', case_._id, owner)).toBe(false);
+        await moveToTrash('case', case_._id, owner);
+        expect(await purgeFromTrash('case', case_._id, outsider)).toBe(false);
+        expect(await purgeFromTrash('case', case_._id, owner)).toBe(true);
+
+        expect(await Case.findById(case_._id).setOptions({ withDeleted: true })).toBeNull();
+        expect(await Hearing.findById(hearing._id).setOptions({ withDeleted: true })).toBeNull();
+        expect(await CaseNote.findById(note._id)).toBeNull();
+    });
+
+    test('the expiry sweep purges only what outlived the retention window', async () => {
+        const { case_: expired } = await caseWithDependents(`TRASH-${Date.now()}-4`);
+        const { case_: recent } = await caseWithDependents(`TRASH-${Date.now()}-5`);
+        await moveToTrash('case', expired._id, owner);
+        await moveToTrash('case', recent._id, owner);
+        await Case.updateOne(
+            { _id: expired._id, deletedAt: { $ne: null } },
+            { $set: { deletedAt: new Date(Date.now() - (TRASH_RETENTION_DAYS + 1) * DAY_MS) } }
+        );
+
+        const stats = await purgeExpired();
+        expect(stats.case).toBeGreaterThanOrEqual(1);
+        expect(await Case.findById(expired._id).setOptions({ withDeleted: true })).toBeNull();
+        expect(await Case.findById(recent._id).setOptions({ withDeleted: true })).not.toBeNull();
+    });
+});
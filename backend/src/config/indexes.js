@@ -15,18 +15,25 @@ export async function ensureIndexes() {
             name: 'Case',
             model: models.Case,
             indexes: [
-                { fields: { ownerId: 1, createdAt: -1 }, options: { name: 'case_owner_created' } },
-                { fields: { ownerId: 1, status: 1 }, options: { name: 'case_owner_status' } },
-                { fields: { clientId: 1, ownerId: 1 }, options: { name: 'case_client_owner' } },
-                { fields: { createdAt: -1 }, options: { name: 'case_created_desc' } },
+                // List pages sort on (field, _id) for keyset pagination — see services/listQuery.js
+                { fields: { owner: 1, createdAt: -1, _id: -1 }, options: { name: 'case_owner_created_id' } },
+                { fields: { owner: 1, updatedAt: -1, _id: -1 }, options: { name: 'case_owner_updated_id' } },
+                { fields: { owner: 1, nextHearing: 1, _id: 1 }, options: { name: 'case_owner_next_hearing_id' } },
+                { fields: { owner: 1, hearingDate: 1, _id: 1 }, options: { name: 'case_owner_hearing_date_id' } },
+                { fields: { owner: 1, caseNumber: 1, _id: 1 }, options: { name: 'case_owner_case_number_id' } },
+                { fields: { owner: 1, caseNumberKey: 1 }, options: { name: 'case_owner_case_number_key' } },
+                { fields: { owner: 1, clientName: 1, _id: 1 }, options: { name: 'case_owner_client_name_id' } },
+                { fields: { owner: 1, status: 1, createdAt: -1 }, options: { name: 'case_owner_status_created' } },
+                { fields: { owner: 1, priority: 1, createdAt: -1 }, options: { name: 'case_owner_priority_created' } },
             ],
         },
         {
             name: 'Client',
             model: models.Client,
             indexes: [
-                { fields: { ownerId: 1, createdAt: -1 }, options: { name: 'client_owner_created' } },
-                { fields: { ownerId: 1, status: 1 }, options: { name: 'client_owner_status' } },
+                { fields: { owner: 1, createdAt: -1, _id: -1 }, options: { name: 'client_owner_created_id' } },
+                { fields: { owner: 1, updatedAt: -1, _id: -1 }, options: { name: 'client_owner_updated_id' } },
+                { fields: { owner: 1, name: 1, _id: 1 }, options: { name: 'client_owner_name_id' } },
             ],
         },
         {
@@ -51,9 +58,13 @@ export async function ensureIndexes() {
             name: 'Invoice',
             model: models.Invoice,
             indexes: [
-                { fields: { ownerId: 1, status: 1 }, options: { name: 'invoice_owner_status' } },
-                { fields: { ownerId: 1, createdAt: -1 }, options: { name: 'invoice_owner_created' } },
-                { fields: { clientId: 1, ownerId: 1 }, options: { name: 'invoice_client_owner' } },
+                { fields: { owner: 1, createdAt: -1, _id: -1 }, options: { name: 'invoice_owner_created_id' } },
+                { fields: { owner: 1, dueDate: 1, _id: 1 }, options: { name: 'invoice_owner_due_id' } },
+                { fields: { owner: 1, issueDate: -1, _id: -1 }, options: { name: 'invoice_owner_issued_id' } },
+                { fields: { owner: 1, total: -1, _id: -1 }, options: { name: 'invoice_owner_total_id' } },
+                { fields: { owner: 1, invoiceNumber: 1, _id: 1 }, options: { name: 'invoice_owner_number_id' } },
+                { fields: { owner: 1, status: 1, createdAt: -1 }, options: { name: 'invoice_owner_status_created' } },
+                { fields: { owner: 1, clientId: 1, createdAt: -1 }, options: { name: 'invoice_owner_client_created' } },
             ],
         },
         {
@@ -0,0 +1,27 @@
+import logger from '../utils/logger.js';
+import { ARCHIVED_CASE_MESSAGE, isArchived, isCaseArchived } from '../services/caseClosure.js';
+
+/**
+ * Refuse a write to an archived case with 409. Place it after requireAuth on
+ * every route that changes a case or its hearings, notes or links.
+ *
+ * The case is req.caseDoc when the router has already loaded it; otherwise
+ * `caseIdOf(req)` names it (and may be async). A case that cannot be found
+ * passes through, for the route to answer 404.
+ */
+export const rejectArchivedCase = (caseIdOf = () => null) => {
+    return async (req, res, next) => {
+        try {
+            const archived = req.caseDoc
+                ? isArchived(req.caseDoc)
+                : await isCaseArchived(req.user.userId, await caseIdOf(req));
+            if (archived) {
+                return res.status(409).json({ error: ARCHIVED_CASE_MESSAGE });
+            }
+            return next();
+        } catch (error) {
+            logger.error({ err: error }, 'Archived case check error');
+            return res.status(500).json({ error: 'Server error' });
+        }
+    };
+};
@@ -50,7 +50,7 @@ export const enforcePlanLimits = (resourceType) => {
                 const totalSize = await Document.aggregate([
                     { $match: { ownerId: user._id } },
                     { $group: { _id: null, total: { $sum: '$size' } } }
-                ]);
+                ]).option({ withDeleted: true }); // Trashed files occupy storage until purged
                 const usedMB = (totalSize[0]?.total || 0) / (1024 * 1024);
                 if (usedMB >= plan.limits.storageMB) {
                     return res.status(403).json({
@@ -1,8 +1,9 @@
 import mongoose from 'mongoose';
+import { ALERT_TYPES } from '../schemas/validation-schemas.js';
 
 const alertSchema = new mongoose.Schema({
   caseId: { type: mongoose.Schema.Types.ObjectId, ref: 'Case' },
-  type: { type: String, enum: ['hearing', 'deadline', 'payment', 'document'], required: true },
+  type: { type: String, enum: ALERT_TYPES, required: true },
   message: { type: String, required: true },
   alertTime: { type: Date, required: true },
   isRead: { type: Boolean, default: false },
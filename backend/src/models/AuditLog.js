@@ -18,10 +18,11 @@ const auditLogSchema = new mongoose.Schema(
                 'login', 'logout', 'register', 'reactivate',
                 'password_change', 'password_reset', 'password_forgot',
                 'email_verify', '2fa_enable', '2fa_disable', '2fa_verify',
+                'calendar_feed_create', 'calendar_feed_revoke',
                 // Documents
                 'file_upload', 'file_delete', 'folder_create', 'folder_delete',
                 // Cases
-                'case_create', 'case_update', 'case_delete',
+                'case_create', 'case_update', 'case_delete', 'case_close', 'case_reopen',
                 // Clients
                 'client_create', 'client_update', 'client_delete',
                 // Billing
@@ -0,0 +1,24 @@
+import mongoose from 'mongoose';
+
+// An appointment on the calendar that belongs to no case, e.g. an event
+// imported from an .ics file that matched none. `source` identifies the
+// imported occurrence so importing the same file again does not repeat it.
+const calendarEventSchema = new mongoose.Schema({
+  owner: { type: mongoose.Schema.Types.ObjectId, ref: 'User', required: true },
+  title: { type: String, required: true, trim: true },
+  start: { type: Date, required: true },
+  end: { type: Date },
+  // All-day events start at UTC midnight of their day
+  allDay: { type: Boolean, default: false },
+  location: { type: String, trim: true },
+  description: { type: String },
+  source: {
+    uid: { type: String },
+    fileName: { type: String },
+  },
+}, { timestamps: true });
+
+calendarEventSchema.index({ owner: 1, start: 1 });
+calendarEventSchema.index({ owner: 1, 'source.uid': 1, start: 1 });
+
+export default mongoose.model('CalendarEvent', calendarEventSchema);
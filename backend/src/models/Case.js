@@ -1,19 +1,95 @@
 import mongoose from 'mongoose';
+import { CASE_LINK_TYPES, CASE_STATUSES, CLOSURE_OUTCOMES, CASE_PRIORITIES, DEADLINE_STATUSES, PARTY_ROLES, PARTY_TYPES } from '../schemas/validation-schemas.js';
+import softDelete from './plugins/softDelete.js';
+
+// One party to the case; `clientId` links parties the firm represents to their Client record
+const partySchema = new mongoose.Schema({
+  role: { type: String, enum: PARTY_ROLES, required: true },
+  partyType: { type: String, enum: PARTY_TYPES, default: 'individual' },
+  name: { type: String, required: true, trim: true },
+  clientId: { type: mongoose.Schema.Types.ObjectId, ref: 'Client' },
+  counsel: {
+    name: { type: String, trim: true },
+    enrollmentNumber: { type: String, trim: true },
+    phone: { type: String, trim: true },
+    email: { type: String, trim: true },
+  },
+});
+
+// A computed limitation or statutory deadline; see services/deadlines.js
+const deadlineSchema = new mongoose.Schema({
+  ruleId: { type: String, required: true },
+  title: { type: String, required: true, trim: true },
+  act: { type: String },
+  provision: { type: String },
+  // Length of a custom (ruleId 'custom') deadline, so it can be recomputed
+  periodDays: { type: Number },
+  triggerDate: { type: Date, required: true },
+  excludedDays: { type: Number, default: 0 },
+  dueDate: { type: Date, required: true },
+  graceUntil: { type: Date },
+  reminderDays: [{ type: Number }],
+  alertIds: [{ type: mongoose.Schema.Types.ObjectId, ref: 'Alert' }],
+  status: { type: String, enum: DEADLINE_STATUSES, default: 'open' },
+  completedAt: { type: Date },
+  notes: { type: String, trim: true },
+}, { timestamps: true });
+
+// A typed relation to another case, stored on one side only: "this case is an
+// appeal of / revision of / transferred from `caseId`", or a symmetric
+// connected-with / cross-FIR link. services/caseLinks.js reads both directions.
+const caseLinkSchema = new mongoose.Schema({
+  type: { type: String, enum: CASE_LINK_TYPES, required: true },
+  caseId: { type: mongoose.Schema.Types.ObjectId, ref: 'Case', required: true },
+  note: { type: String, trim: true },
+}, { timestamps: { createdAt: true, updatedAt: false } });
+
+// What the closure wizard recorded when the case was disposed of; see services/caseClosure.js
+const closureSchema = new mongoose.Schema({
+  outcome: { type: String, enum: CLOSURE_OUTCOMES, required: true },
+  disposalDate: { type: Date, required: true },
+  // The final order or judgment, one of the case's documents
+  finalOrderId: { type: mongoose.Schema.Types.ObjectId, ref: 'Document' },
+  summary: { type: String, trim: true },
+  // The appeal deadline the wizard added to `deadlines`
+  appealDeadlineId: { type: mongoose.Schema.Types.ObjectId },
+  closedAt: { type: Date, required: true },
+}, { _id: false });
 
 const caseSchema = new mongoose.Schema({
   caseNumber: { type: String, required: true },
+  // Same for every spelling of one number (utils/caseNumber.js); duplicates are found by it
+  caseNumberKey: { type: String },
+  caseNumberParts: {
+    kind: { type: String, enum: ['cnr', 'court', 'other'] },
+    canonical: { type: String },
+    caseType: { type: String },
+    number: { type: Number },
+    year: { type: Number },
+    cnr: { type: String },
+    stateCode: { type: String },
+    districtCode: { type: String },
+    establishment: { type: String },
+    serial: { type: Number },
+  },
   clientName: { type: String, required: true },
   opposingParty: { type: String },
+  // clientName / opposingParty stay as the one-line summary; parties hold the full line-up
+  parties: [partySchema],
   courtName: { type: String },
   judgeName: { type: String },
+  // Directory entries courtName / judgeName were picked from, when they were
+  courtId: { type: mongoose.Schema.Types.ObjectId, ref: 'Court' },
+  judgeId: { type: mongoose.Schema.Types.ObjectId, ref: 'Judge' },
   hearingDate: { type: Date },
   hearingTime: { type: String },
-  status: { type: String, enum: ['active', 'pending', 'closed', 'won', 'lost'], default: 'active' },
-  priority: { type: String, enum: ['low', 'medium', 'high', 'urgent'], default: 'medium' },
+  status: { type: String, enum: CASE_STATUSES, default: 'active' },
+  priority: { type: String, enum: CASE_PRIORITIES, default: 'medium' },
   caseType: { type: String },
   description: { type: String },
   nextHearing: { type: Date },
   notes: { type: String },
+  tags: [{ type: String, trim: true }],
   customPipelineNodes: [
     {
       nodeId: { type: String, required: true },
@@ -23,13 +99,26 @@ const caseSchema = new mongoose.Schema({
     }
   ],
   pipelineOrder: [{ type: String }],
+  // Stage the case was placed in on the case board; unset means "derive from hearings"
+  pipelineStage: { type: String },
   alerts: [{ type: mongoose.Schema.Types.ObjectId, ref: 'Alert' }],
   caseNotes: [{ type: mongoose.Schema.Types.ObjectId, ref: 'CaseNote' }],
+  deadlines: [deadlineSchema],
+  links: [caseLinkSchema],
+  closure: { type: closureSchema, default: undefined },
+  // Set while the case is in the archive; archived cases are read-only until reopened
+  archivedAt: { type: Date, default: null },
+  // Values for the owner's CaseFieldSchema of this caseType, keyed by field key
+  customFields: { type: mongoose.Schema.Types.Mixed, default: {} },
   owner: { type: mongoose.Schema.Types.ObjectId, ref: 'User', required: true, index: true },
 }, { timestamps: true });
 
 // Indexes for efficient queries
 caseSchema.index({ owner: 1, status: 1 });
 caseSchema.index({ owner: 1, nextHearing: 1 });
+caseSchema.index({ owner: 1, 'links.caseId': 1 });
+caseSchema.index({ owner: 1, archivedAt: 1 });
+
+caseSchema.plugin(softDelete);
 
 export default mongoose.model('Case', caseSchema);
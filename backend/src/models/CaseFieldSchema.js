@@ -0,0 +1,20 @@
+import mongoose from 'mongoose';
+import { CUSTOM_FIELD_TYPES } from '../schemas/validation-schemas.js';
+
+// Firm-defined extra fields for cases of one caseType (values live in Case.customFields)
+const caseFieldSchemaSchema = new mongoose.Schema({
+  owner: { type: mongoose.Schema.Types.ObjectId, ref: 'User', required: true },
+  caseType: { type: String, required: true, trim: true },
+  fields: [{
+    _id: false,
+    key: { type: String, required: true },
+    label: { type: String, required: true },
+    type: { type: String, enum: CUSTOM_FIELD_TYPES, required: true },
+    options: [{ type: String }],
+    required: { type: Boolean, default: false },
+  }],
+}, { timestamps: true });
+
+caseFieldSchemaSchema.index({ owner: 1, caseType: 1 }, { unique: true });
+
+export default mongoose.model('CaseFieldSchema', caseFieldSchemaSchema);
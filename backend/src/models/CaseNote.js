@@ -1,4 +1,5 @@
 import mongoose from 'mongoose';
+import { NOTE_TYPES, NOTE_ATTACHMENT_TYPES } from '../schemas/validation-schemas.js';
 
 const caseNoteSchema = new mongoose.Schema({
     caseId: {
@@ -30,7 +31,7 @@ const caseNoteSchema = new mongoose.Schema({
     },
     noteType: {
         type: String,
-        enum: ['general', 'hearing', 'evidence', 'strategy', 'internal'],
+        enum: NOTE_TYPES,
         default: 'general'
     },
     evidenceTags: [{
@@ -64,7 +65,7 @@ const caseNoteSchema = new mongoose.Schema({
         },
         type: {
             type: String,
-            enum: ['image', 'video', 'document', 'audio'],
+            enum: NOTE_ATTACHMENT_TYPES,
             default: 'document'
         },
         cloudinaryPublicId: { type: String },
@@ -77,6 +78,14 @@ const caseNoteSchema = new mongoose.Schema({
         type: Boolean,
         default: false,
         index: true
+    },
+    // Set when the note went to the Trash along with its case (see services/trash.js)
+    deletedAt: {
+        type: Date
+    },
+    trashedWith: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Case'
     }
 }, { timestamps: true });
 
@@ -1,4 +1,5 @@
 import mongoose from 'mongoose';
+import softDelete from './plugins/softDelete.js';
 
 const clientSchema = new mongoose.Schema({
   name: { type: String, required: true },
@@ -8,10 +9,13 @@ const clientSchema = new mongoose.Schema({
   panNumber: { type: String },
   aadharNumber: { type: String },
   notes: { type: String },
+  tags: [{ type: String, trim: true }],
   owner: { type: mongoose.Schema.Types.ObjectId, ref: 'User', required: true, index: true },
 }, { timestamps: true });
 
 // Indexes for efficient queries
 clientSchema.index({ owner: 1, email: 1 });
 
+clientSchema.plugin(softDelete);
+
 export default mongoose.model('Client', clientSchema);
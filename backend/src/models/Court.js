@@ -0,0 +1,22 @@
+import mongoose from 'mongoose';
+import { COURT_LEVELS } from '../schemas/validation-schemas.js';
+
+// A court in the directory cases and hearings pick their courtName from.
+// Entries without an owner are the built-in directory (scripts/seedCourts.js)
+// shared by every firm; a firm's own entries carry its owner.
+const courtSchema = new mongoose.Schema({
+  owner: { type: mongoose.Schema.Types.ObjectId, ref: 'User', default: null, index: true },
+  name: { type: String, required: true, trim: true },
+  level: { type: String, enum: COURT_LEVELS, default: 'other' },
+  bench: { type: String, trim: true },
+  complex: { type: String, trim: true },
+  city: { type: String, trim: true },
+  state: { type: String, trim: true },
+  courtHalls: [{ type: String, trim: true }],
+  // Other ways the court is written; matched by search and the name clean-up
+  aliases: [{ type: String, trim: true }],
+}, { timestamps: true });
+
+courtSchema.index({ owner: 1, name: 1, bench: 1 }, { unique: true });
+
+export default mongoose.model('Court', courtSchema);
@@ -0,0 +1,12 @@
+import mongoose from 'mongoose';
+
+// A day the owner's courts are closed; deadlines falling on it move to the next open day
+const courtHolidaySchema = new mongoose.Schema({
+  owner: { type: mongoose.Schema.Types.ObjectId, ref: 'User', required: true },
+  date: { type: String, required: true, match: /^\d{4}-\d{2}-\d{2}$/ },
+  name: { type: String, required: true, trim: true },
+}, { timestamps: { createdAt: true, updatedAt: false } });
+
+courtHolidaySchema.index({ owner: 1, date: 1 }, { unique: true });
+
+export default mongoose.model('CourtHoliday', courtHolidaySchema);
@@ -1,4 +1,5 @@
 import mongoose from 'mongoose';
+import softDelete from './plugins/softDelete.js';
 
 const documentSchema = new mongoose.Schema({
   name: { type: String, required: true },
@@ -16,5 +17,7 @@ const documentSchema = new mongoose.Schema({
 documentSchema.index({ ownerId: 1, folderId: 1 });
 documentSchema.index({ ownerId: 1, caseId: 1 });
 
+documentSchema.plugin(softDelete);
+
 export default mongoose.model('Document', documentSchema);
 
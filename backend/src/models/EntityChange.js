@@ -0,0 +1,25 @@
+import mongoose from 'mongoose';
+
+// Field-level edit history for cases, hearings, clients and invoices (see services/changeHistory.js)
+const entityChangeSchema = new mongoose.Schema({
+  owner: { type: mongoose.Schema.Types.ObjectId, ref: 'User', required: true, index: true },
+  actorId: { type: mongoose.Schema.Types.ObjectId, ref: 'User', required: true },
+  entityType: {
+    type: String,
+    enum: ['case', 'hearing', 'client', 'invoice'],
+    required: true
+  },
+  entityId: { type: mongoose.Schema.Types.ObjectId, required: true },
+  changes: [{
+    _id: false,
+    field: { type: String, required: true },
+    before: { type: mongoose.Schema.Types.Mixed, default: null },
+    after: { type: mongoose.Schema.Types.Mixed, default: null },
+  }],
+  // Set when this edit undid one field of an earlier change
+  revertOf: { type: mongoose.Schema.Types.ObjectId, ref: 'EntityChange' },
+}, { timestamps: { createdAt: true, updatedAt: false } });
+
+entityChangeSchema.index({ entityType: 1, entityId: 1, createdAt: -1 });
+
+export default mongoose.model('EntityChange', entityChangeSchema);
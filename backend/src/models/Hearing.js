@@ -1,4 +1,6 @@
 import mongoose from 'mongoose';
+import { HEARING_STATUSES } from '../schemas/validation-schemas.js';
+import softDelete from './plugins/softDelete.js';
 
 const hearingSchema = new mongoose.Schema({
   caseId: { type: mongoose.Schema.Types.ObjectId, ref: 'Case', required: true },
@@ -15,6 +17,9 @@ const hearingSchema = new mongoose.Schema({
 
   courtName: { type: String, required: true },
   judgeName: { type: String },
+  // Directory entries courtName / judgeName were picked from, when they were
+  courtId: { type: mongoose.Schema.Types.ObjectId, ref: 'Court' },
+  judgeId: { type: mongoose.Schema.Types.ObjectId, ref: 'Judge' },
   hearingType: {
     type: String,
     // Built-in values: first_hearing, interim_hearing, final_hearing,
@@ -26,7 +31,7 @@ const hearingSchema = new mongoose.Schema({
   customHearingType: { type: String },
   status: {
     type: String,
-    enum: ['scheduled', 'completed', 'adjourned', 'cancelled'],
+    enum: HEARING_STATUSES,
     default: 'scheduled'
   },
   purpose: { type: String }, // Purpose of the hearing
@@ -73,5 +78,7 @@ hearingSchema.index({ owner: 1, hearingDate: -1 });
 hearingSchema.index({ owner: 1, startAt: 1 }); // For conflict detection
 hearingSchema.index({ owner: 1, status: 1, startAt: 1 }); // For active hearings
 
+hearingSchema.plugin(softDelete);
+
 export default mongoose.model('Hearing', hearingSchema);
 
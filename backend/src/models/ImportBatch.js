@@ -0,0 +1,39 @@
+import mongoose from 'mongoose';
+import { IMPORT_ENTITIES, IMPORT_STATUSES } from '../schemas/validation-schemas.js';
+
+const DRAFT_TTL_SECONDS = 24 * 60 * 60;
+
+// A record the import created, or one it merged into (with the field values it replaced)
+const importedRecordSchema = new mongoose.Schema({
+  id: { type: mongoose.Schema.Types.ObjectId, required: true },
+  row: { type: Number },
+  before: { type: mongoose.Schema.Types.Mixed },
+}, { _id: false });
+
+// One spreadsheet import. Uploaded rows wait here as a draft while the user maps
+// columns; applying it records what was created and merged so it can be undone
+// as a whole (services/dataImport.js).
+const importBatchSchema = new mongoose.Schema({
+  owner: { type: mongoose.Schema.Types.ObjectId, ref: 'User', required: true, index: true },
+  entity: { type: String, enum: IMPORT_ENTITIES, required: true },
+  fileName: { type: String, trim: true },
+  status: { type: String, enum: IMPORT_STATUSES, default: 'draft' },
+  headers: [{ type: String }],
+  // Cleared once the import is applied
+  rows: { type: [[String]], default: undefined },
+  rowCount: { type: Number, default: 0 },
+  mapping: { type: mongoose.Schema.Types.Mixed, default: {} },
+  dateFormat: { type: String },
+  created: [importedRecordSchema],
+  merged: [importedRecordSchema],
+  skipped: { type: Number, default: 0 },
+  appliedAt: { type: Date },
+  revertedAt: { type: Date },
+  // Set only while a draft; abandoned drafts are removed by the TTL index
+  draftExpiresAt: { type: Date, default: () => new Date(Date.now() + DRAFT_TTL_SECONDS * 1000) },
+}, { timestamps: true });
+
+importBatchSchema.index({ draftExpiresAt: 1 }, { expireAfterSeconds: 0 });
+importBatchSchema.index({ owner: 1, createdAt: -1 });
+
+export default mongoose.model('ImportBatch', importBatchSchema);
@@ -1,4 +1,6 @@
 import mongoose from 'mongoose';
+import { INVOICE_STATUSES } from '../schemas/validation-schemas.js';
+import softDelete from './plugins/softDelete.js';
 
 const invoiceItemSchema = new mongoose.Schema({
   description: { type: String, required: true },
@@ -14,7 +16,7 @@ const invoiceSchema = new mongoose.Schema({
   invoiceNumber: { type: String, required: true },
   issueDate: { type: Date, required: true },
   dueDate: { type: Date, required: true },
-  status: { type: String, enum: ['draft', 'sent', 'paid', 'overdue'], default: 'draft', index: true },
+  status: { type: String, enum: INVOICE_STATUSES, default: 'draft', index: true },
   currency: { type: String, default: 'INR' },
   items: { type: [invoiceItemSchema], default: [] },
   subtotal: { type: Number, required: true, min: 0 },
@@ -25,10 +27,13 @@ const invoiceSchema = new mongoose.Schema({
   notes: { type: String },
   terms: { type: String },
   paidAt: { type: Date },
+  tags: [{ type: String, trim: true }],
 }, { timestamps: true });
 
 // Indexes for efficient queries
 invoiceSchema.index({ owner: 1, status: 1 });
 invoiceSchema.index({ owner: 1, dueDate: 1 });
 
+invoiceSchema.plugin(softDelete);
+
 export default mongoose.model('Invoice', invoiceSchema);
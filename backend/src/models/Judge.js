@@ -0,0 +1,15 @@
+import mongoose from 'mongoose';
+
+// A judge in the directory, sitting in one of its courts. Like courts, entries
+// without an owner are shared and a firm's own entries carry its owner.
+const judgeSchema = new mongoose.Schema({
+  owner: { type: mongoose.Schema.Types.ObjectId, ref: 'User', default: null, index: true },
+  name: { type: String, required: true, trim: true },
+  designation: { type: String, trim: true },
+  courtId: { type: mongoose.Schema.Types.ObjectId, ref: 'Court' },
+  aliases: [{ type: String, trim: true }],
+}, { timestamps: true });
+
+judgeSchema.index({ owner: 1, courtId: 1, name: 1 });
+
+export default mongoose.model('Judge', judgeSchema);
@@ -0,0 +1,19 @@
+import mongoose from 'mongoose';
+import { SAVED_VIEW_PAGES } from '../schemas/validation-schemas.js';
+
+// A named set of list filters, sort, visible columns and grouping for one page.
+// `state` holds the page's own query-string parameters, so a view and a
+// bookmarked URL describe a list the same way. Shared views are listed for
+// the other members of the owner's firm (User.firmId).
+const savedViewSchema = new mongoose.Schema({
+  owner: { type: mongoose.Schema.Types.ObjectId, ref: 'User', required: true },
+  page: { type: String, enum: SAVED_VIEW_PAGES, required: true },
+  name: { type: String, required: true, trim: true },
+  state: { type: Map, of: String, default: {} },
+  shared: { type: Boolean, default: false },
+}, { timestamps: true });
+
+savedViewSchema.index({ owner: 1, page: 1, name: 1 }, { unique: true });
+savedViewSchema.index({ page: 1, shared: 1 });
+
+export default mongoose.model('SavedView', savedViewSchema);
@@ -1,4 +1,5 @@
 import mongoose from 'mongoose';
+import { TEMPLATE_DOCUMENT_STATUSES } from '../schemas/validation-schemas.js';
 
 const templateDocumentSchema = new mongoose.Schema({
   userId: { 
@@ -25,7 +26,7 @@ const templateDocumentSchema = new mongoose.Schema({
   },
   status: { 
     type: String, 
-    enum: ['draft', 'completed'], 
+    enum: TEMPLATE_DOCUMENT_STATUSES, 
     default: 'draft' 
   }
 }, { timestamps: true });
@@ -75,6 +75,10 @@ const userSchema = new mongoose.Schema({
     }
   ],
 
+  // Firm membership, assigned by the admin control plane only (never from the
+  // profile's lawFirmName). Members see each other's shared saved views.
+  firmId: { type: String, default: null, index: true },
+
   // Legacy fields (kept for backward compatibility, will be migrated)
   barNumber: { type: String },
   firm: { type: String },
@@ -108,6 +112,7 @@ const userSchema = new mongoose.Schema({
     language: { type: String, default: 'en-IN' },
     timezone: { type: String, default: 'Asia/Kolkata' },
     dateFormat: { type: String, default: 'DD/MM/YYYY' },
+    timeFormat: { type: String, enum: ['12h', '24h'], default: '12h' },
     currency: { type: String, default: 'INR' },
   },
 
@@ -171,11 +176,19 @@ const userSchema = new mongoose.Schema({
   // Security question (set during onboarding, used to protect account deletion)
   securityQuestion: { type: String, default: null },
   securityAnswerHash: { type: String, default: null },
+
+  // Private iCalendar feed of hearings and deadlines; only a hash of the URL's token is kept
+  calendarFeed: {
+    tokenHash: { type: String, default: null },
+    createdAt: { type: Date, default: null },
+    lastFetchedAt: { type: Date, default: null },
+  },
 }, { timestamps: true });
 
 // Indexes (email already has unique index from field definition)
 userSchema.index({ resetPasswordToken: 1 });
 userSchema.index({ verificationToken: 1 });
+userSchema.index({ 'calendarFeed.tokenHash': 1 });
 
 // Hardening: Prevent recovery email from being the same as primary email
 userSchema.pre('save', function (next) {
@@ -18,3 +18,11 @@ export { default as PasswordReset } from './PasswordReset.js';
 export { default as Activity } from './Activity.js';
 export { default as AuditLog } from './AuditLog.js';
 export { default as TemplateDocument } from './TemplateDocument.js';
+export { default as EntityChange } from './EntityChange.js';
+export { default as CaseFieldSchema } from './CaseFieldSchema.js';
+export { default as CourtHoliday } from './CourtHoliday.js';
+export { default as ImportBatch } from './ImportBatch.js';
+export { default as Court } from './Court.js';
+export { default as Judge } from './Judge.js';
+export { default as SavedView } from './SavedView.js';
+export { default as CalendarEvent } from './CalendarEvent.js';
@@ -0,0 +1,40 @@
+import mongoose from 'mongoose';
+
+/**
+ * Soft-delete plugin for models that can be moved to the Trash.
+ *
+ * Adds `deletedAt` (set while the document is in the Trash) and `trashedWith`
+ * (the id of the trashed record that took this one with it, e.g. the case a
+ * hearing belongs to). Reads and updates skip trashed documents unless the
+ * filter mentions `deletedAt` or the query is run with `{ withDeleted: true }`.
+ */
+const QUERY_HOOKS = [
+    'find',
+    'findOne',
+    'findOneAndUpdate',
+    'findOneAndDelete',
+    'countDocuments',
+    'updateOne',
+    'updateMany',
+];
+
+export default function softDelete(schema) {
+    schema.add({
+        deletedAt: { type: Date, default: null, index: true },
+        trashedWith: { type: mongoose.Schema.Types.ObjectId, index: true, sparse: true },
+    });
+
+    schema.pre(QUERY_HOOKS, function excludeTrashed() {
+        if (this.getOptions().withDeleted || 'deletedAt' in this.getFilter()) {
+            return;
+        }
+        this.where({ deletedAt: null });
+    });
+
+    schema.pre('aggregate', function excludeTrashed() {
+        if (this.options.withDeleted) {
+            return;
+        }
+        this.pipeline().unshift({ $match: { deletedAt: null } });
+    });
+}
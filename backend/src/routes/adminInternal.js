@@ -70,6 +70,21 @@ router.post('/upgrade-plan', async (req, res) => {
     return res.json({ success: true, plan: user.plan });
 });
 
+// Add a user to a firm, or remove them from it with a null firmId
+router.post('/set-firm', async (req, res) => {
+    const { userId, firmId } = req.body;
+    if (firmId !== null && (typeof firmId !== 'string' || !firmId.trim())) {
+        return res.status(400).json({ error: 'firmId must be a non-empty string or null' });
+    }
+    const user = await User.findById(userId);
+    if (!user) { return res.status(404).json({ error: 'User not found' }); }
+
+    user.firmId = firmId === null ? null : firmId.trim();
+    await user.save();
+
+    return res.json({ success: true, firmId: user.firmId });
+});
+
 router.post('/reset-password', async (req, res) => {
     const { userId } = req.body;
     const user = await User.findById(userId);
@@ -86,6 +86,7 @@ const defaultPreferenceSettings = {
   language: 'en-IN',
   timezone: 'Asia/Kolkata',
   dateFormat: 'DD/MM/YYYY',
+  timeFormat: '12h',
   currency: 'INR'
 };
 
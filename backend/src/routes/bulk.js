@@ -0,0 +1,25 @@
+import express from 'express';
+import { requireAuth } from '../middleware/auth-jwt.js';
+import logger from '../utils/logger.js';
+import { BulkActionError, normalizeBulkRequest, runBulkAction } from '../services/bulkActions.js';
+
+// Bulk actions on selected cases, clients or invoices; the response reports each record
+const router = express.Router();
+
+router.use(requireAuth);
+
+router.post('/:type', async (req, res) => {
+    try {
+        const request = normalizeBulkRequest(req.params.type, req.body);
+        const summary = await runBulkAction({ type: req.params.type, owner: req.user.userId, ...request });
+        return res.json(summary);
+    } catch (error) {
+        if (error instanceof BulkActionError) {
+            return res.status(error.status).json({ error: error.message });
+        }
+        logger.error({ err: error, type: req.params.type }, 'Bulk action error');
+        return res.status(500).json({ error: 'Bulk update failed' });
+    }
+});
+
+export default router;
@@ -0,0 +1,203 @@
+import express from 'express';
+import mongoose from 'mongoose';
+import { requireAuth } from '../middleware/auth-jwt.js';
+import { auditLog } from '../middleware/audit.js';
+import logger from '../utils/logger.js';
+import CalendarEvent from '../models/CalendarEvent.js';
+import User from '../models/User.js';
+import {
+    CalendarFeedError,
+    FEED_TOKEN_PATTERN,
+    calendarEvents,
+    createFeedToken,
+    feedWindow,
+    hashFeedToken,
+    normalizeExportRange,
+    normalizeFeedFilters,
+} from '../services/calendarFeed.js';
+import { CalendarImportError, applyCalendarImport, previewCalendarImport } from '../services/calendarImport.js';
+import { formatDateOnly } from '../services/deadlines.js';
+import { ICalendarError, buildCalendar } from '../services/icalendar.js';
+
+// The private iCalendar feed and .ics downloads of hearings and deadlines,
+// .ics imports, and the standalone events imports create
+const router = express.Router();
+
+// Calendar apps poll the feed; record a fetch at most once an hour
+const FETCH_RECORD_INTERVAL_MS = 60 * 60 * 1000;
+
+function handleError(res, error, message) {
+    if (error instanceof CalendarFeedError || error instanceof CalendarImportError || error instanceof ICalendarError) {
+        return res.status(error.status).json({ error: error.message });
+    }
+    logger.error({ err: error }, message);
+    return res.status(500).json({ error: message });
+}
+
+const feedStatus = (feed) => ({
+    active: Boolean(feed?.tokenHash),
+    createdAt: feed?.tokenHash ? feed.createdAt : null,
+    lastFetchedAt: feed?.tokenHash ? feed.lastFetchedAt : null,
+});
+
+const toApiEvent = (event) => ({
+    id: String(event._id),
+    title: event.title,
+    start: event.start,
+    end: event.end ?? null,
+    allDay: Boolean(event.allDay),
+    location: event.location ?? null,
+    description: event.description ?? null,
+    fileName: event.source?.fileName ?? null,
+});
+
+const sendCalendar = (res, ics, filename) => {
+    res.set('Content-Type', 'text/calendar; charset=utf-8');
+    if (filename) {
+        res.set('Content-Disposition', `attachment; filename="${filename}"`);
+    }
+    return res.send(ics);
+};
+
+// The subscribed feed: the token in the URL is the only credential, as calendar apps cannot log in
+router.get('/feed/:token.ics', async (req, res) => {
+    try {
+        if (!FEED_TOKEN_PATTERN.test(req.params.token)) {
+            return res.status(404).json({ error: 'Calendar feed not found' });
+        }
+        const user = await User.findOne({ 'calendarFeed.tokenHash': hashFeedToken(req.params.token), status: 'active' })
+            .select('calendarFeed')
+            .lean();
+        if (!user) {
+            return res.status(404).json({ error: 'Calendar feed not found' });
+        }
+
+        const filters = normalizeFeedFilters(req.query);
+        const events = await calendarEvents(user._id, { ...feedWindow(), ...filters });
+
+        const now = new Date();
+        if (!user.calendarFeed.lastFetchedAt || now - user.calendarFeed.lastFetchedAt > FETCH_RECORD_INTERVAL_MS) {
+            await User.updateOne({ _id: user._id }, { $set: { 'calendarFeed.lastFetchedAt': now } });
+        }
+
+        res.set('Cache-Control', 'private, no-cache');
+        return sendCalendar(res, buildCalendar({ name: filters.court ? `Juriq — ${filters.court}` : 'Juriq hearings', events, now }));
+    } catch (error) {
+        return handleError(res, error, 'Failed to build calendar feed');
+    }
+});
+
+router.use(requireAuth);
+
+router.get('/feed', async (req, res) => {
+    try {
+        const user = await User.findById(req.user.userId).select('calendarFeed').lean();
+        return res.json(feedStatus(user?.calendarFeed));
+    } catch (error) {
+        return handleError(res, error, 'Failed to load calendar feed');
+    }
+});
+
+// Creates the feed, or replaces its token so the previous URL stops working
+router.post('/feed', async (req, res) => {
+    try {
+        const { token, tokenHash } = createFeedToken();
+        const calendarFeed = { tokenHash, createdAt: new Date(), lastFetchedAt: null };
+        const before = await User.findByIdAndUpdate(req.user.userId, { $set: { calendarFeed } })
+            .select('calendarFeed')
+            .lean();
+        if (!before) {
+            return res.status(404).json({ error: 'User not found' });
+        }
+        auditLog(req, 'calendar_feed_create', 'user', req.user.userId, { replaced: Boolean(before.calendarFeed?.tokenHash) });
+
+        return res.status(201).json({ ...feedStatus(calendarFeed), token, path: `/api/v1/calendar/feed/${token}.ics` });
+    } catch (error) {
+        return handleError(res, error, 'Failed to create calendar feed');
+    }
+});
+
+router.delete('/feed', async (req, res) => {
+    try {
+        const calendarFeed = { tokenHash: null, createdAt: null, lastFetchedAt: null };
+        const before = await User.findByIdAndUpdate(req.user.userId, { $set: { calendarFeed } })
+            .select('calendarFeed')
+            .lean();
+        if (before?.calendarFeed?.tokenHash) {
+            auditLog(req, 'calendar_feed_revoke', 'user', req.user.userId);
+        }
+        return res.json(feedStatus(calendarFeed));
+    } catch (error) {
+        return handleError(res, error, 'Failed to revoke calendar feed');
+    }
+});
+
+// One hearing (?hearingId=) or a date range (?from=&to=, with the feed's case and court filters) as a file
+router.get('/export.ics', async (req, res) => {
+    try {
+        if (req.query.hearingId) {
+            if (!mongoose.isValidObjectId(req.query.hearingId)) {
+                return res.status(404).json({ error: 'Hearing not found' });
+            }
+            const events = await calendarEvents(req.user.userId, { hearingId: req.query.hearingId });
+            return sendCalendar(res, buildCalendar({ name: 'Juriq hearing', events }), 'hearing.ics');
+        }
+        const { from, to } = normalizeExportRange(req.query);
+        const events = await calendarEvents(req.user.userId, { from, to, ...normalizeFeedFilters(req.query) });
+        return sendCalendar(
+            res,
+            buildCalendar({ name: 'Juriq hearings', events }),
+            `juriq-${formatDateOnly(from)}-to-${formatDateOnly(new Date(to.getTime() - 1))}.ics`
+        );
+    } catch (error) {
+        return handleError(res, error, 'Failed to export calendar');
+    }
+});
+
+// What importing an .ics file would do: body { ics, from, to }, the file's text and the days to import
+router.post('/import/preview', async (req, res) => {
+    try {
+        return res.json(await previewCalendarImport(req.user.userId, req.body ?? {}));
+    } catch (error) {
+        return handleError(res, error, 'Failed to read calendar file');
+    }
+});
+
+// Import it: the same body plus { fileName, items: [{ key, action, caseId?, override? }], overrideReason? }
+router.post('/import', async (req, res) => {
+    try {
+        return res.status(201).json(await applyCalendarImport(req.user.userId, req.body ?? {}));
+    } catch (error) {
+        return handleError(res, error, 'Failed to import calendar file');
+    }
+});
+
+// Standalone events starting in [from, to] (YYYY-MM-DD)
+router.get('/events', async (req, res) => {
+    try {
+        const { from, to } = normalizeExportRange(req.query);
+        const events = await CalendarEvent.find({ owner: req.user.userId, start: { $gte: from, $lt: to } })
+            .sort({ start: 1 })
+            .lean();
+        return res.json(events.map(toApiEvent));
+    } catch (error) {
+        return handleError(res, error, 'Failed to load calendar events');
+    }
+});
+
+router.delete('/events/:id', async (req, res) => {
+    try {
+        if (!mongoose.isValidObjectId(req.params.id)) {
+            return res.status(404).json({ error: 'Event not found' });
+        }
+        const result = await CalendarEvent.deleteOne({ _id: req.params.id, owner: req.user.userId });
+        if (result.deletedCount === 0) {
+            return res.status(404).json({ error: 'Event not found' });
+        }
+        return res.json({ ok: true });
+    } catch (error) {
+        return handleError(res, error, 'Failed to delete calendar event');
+    }
+});
+
+export default router;
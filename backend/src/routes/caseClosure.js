@@ -0,0 +1,143 @@
+import express from 'express';
+import mongoose from 'mongoose';
+import { requireAuth } from '../middleware/auth-jwt.js';
+import { logActivity } from '../middleware/activityLogger.js';
+import { auditLog } from '../middleware/audit.js';
+import logger from '../utils/logger.js';
+import Case from '../models/Case.js';
+import {
+    CaseClosureError,
+    closeCase,
+    closureChecklist,
+    normalizeClosureInput,
+    normalizeReopenReason,
+    reopenCase,
+} from '../services/caseClosure.js';
+import { DeadlineError, formatDateOnly } from '../services/deadlines.js';
+import { recordChange } from '../services/changeHistory.js';
+import { publishChange } from '../services/changeFeed.js';
+
+// Closing a case through the closure wizard, and reopening it from the archive
+const router = express.Router({ mergeParams: true });
+
+router.use(requireAuth);
+
+router.use(async (req, res, next) => {
+    try {
+        if (!mongoose.isValidObjectId(req.params.caseId)) {
+            return res.status(404).json({ error: 'Case not found' });
+        }
+        const caseDoc = await Case.findOne({ _id: req.params.caseId, owner: req.user.userId });
+        if (!caseDoc) {
+            return res.status(404).json({ error: 'Case not found' });
+        }
+        req.caseDoc = caseDoc;
+        return next();
+    } catch (error) {
+        logger.error({ err: error }, 'Verify case access error');
+        return res.status(500).json({ error: 'Server error' });
+    }
+});
+
+function handleError(res, error, message) {
+    if (error instanceof CaseClosureError || error instanceof DeadlineError) {
+        return res.status(error.status).json({ error: error.message });
+    }
+    logger.error({ err: error }, message);
+    return res.status(500).json({ error: message });
+}
+
+const toApiCase = (caseDoc) => ({ id: caseDoc._id.toString(), ...caseDoc.toObject(), _id: undefined });
+
+// Pending invoices, unbilled time, hearings and reminders still ahead, and the appeal rules to pick from
+router.get('/', async (req, res) => {
+    try {
+        return res.json(await closureChecklist(req.user.userId, req.caseDoc));
+    } catch (error) {
+        return handleError(res, error, 'Failed to prepare the closure checklist');
+    }
+});
+
+router.post('/', async (req, res) => {
+    try {
+        const input = normalizeClosureInput(req.body);
+        const caseDoc = req.caseDoc;
+        const before = caseDoc.toObject();
+        const { cancelledHearingIds, removedAlerts, appealDeadline } = await closeCase({
+            owner: req.user.userId, caseDoc, input
+        });
+        const after = caseDoc.toObject();
+
+        await recordChange({
+            entityType: 'case', entityId: caseDoc._id, owner: req.user.userId, actorId: req.user.userId, before, after
+        });
+        await logActivity(
+            req.user.userId,
+            'case_closed',
+            `Case ${caseDoc.caseNumber} closed (${input.outcome})`,
+            'case',
+            caseDoc._id,
+            { caseNumber: caseDoc.caseNumber, clientName: caseDoc.clientName, status: caseDoc.status }
+        );
+        auditLog(req, 'case_close', 'case', caseDoc._id, {
+            outcome: input.outcome,
+            disposalDate: formatDateOnly(input.disposalDate),
+            archived: Boolean(caseDoc.archivedAt),
+            cancelledHearings: cancelledHearingIds.length,
+            removedAlerts,
+        });
+
+        publishChange({ userId: req.user.userId, entity: 'case', action: 'updated', entityId: caseDoc.id, data: toApiCase(caseDoc) });
+        cancelledHearingIds.forEach(id => publishChange({
+            userId: req.user.userId, entity: 'hearing', action: 'updated', entityId: id, caseId: caseDoc.id
+        }));
+
+        return res.json({
+            case: toApiCase(caseDoc),
+            cancelledHearings: cancelledHearingIds.length,
+            removedAlerts,
+            appealDeadline: appealDeadline
+                ? { id: appealDeadline._id.toString(), title: appealDeadline.title, dueDate: formatDateOnly(appealDeadline.dueDate) }
+                : null,
+        });
+    } catch (error) {
+        return handleError(res, error, 'Failed to close case');
+    }
+});
+
+// Reopening takes the case out of the archive; the reason and the closure it undoes go to the audit log
+router.post('/reopen', async (req, res) => {
+    try {
+        const reason = normalizeReopenReason(req.body.reason);
+        const caseDoc = req.caseDoc;
+        const before = caseDoc.toObject();
+        const previous = await reopenCase(caseDoc);
+
+        await recordChange({
+            entityType: 'case', entityId: caseDoc._id, owner: req.user.userId, actorId: req.user.userId,
+            before, after: caseDoc.toObject()
+        });
+        await logActivity(
+            req.user.userId,
+            'case_updated',
+            `Case ${caseDoc.caseNumber} reopened`,
+            'case',
+            caseDoc._id,
+            { caseNumber: caseDoc.caseNumber, clientName: caseDoc.clientName, status: caseDoc.status }
+        );
+        auditLog(req, 'case_reopen', 'case', caseDoc._id, {
+            reason,
+            previousStatus: before.status,
+            outcome: previous?.outcome ?? null,
+            disposalDate: previous?.disposalDate ? formatDateOnly(previous.disposalDate) : null,
+            archivedAt: before.archivedAt ?? null,
+        });
+
+        publishChange({ userId: req.user.userId, entity: 'case', action: 'updated', entityId: caseDoc.id, data: toApiCase(caseDoc) });
+        return res.json(toApiCase(caseDoc));
+    } catch (error) {
+        return handleError(res, error, 'Failed to reopen case');
+    }
+});
+
+export default router;
@@ -0,0 +1,69 @@
+import express from 'express';
+import { requireAuth } from '../middleware/auth-jwt.js';
+import logger from '../utils/logger.js';
+import CaseFieldSchema from '../models/CaseFieldSchema.js';
+import { CustomFieldError, normalizeFieldDefinitions } from '../services/customFields.js';
+
+// Custom field schemas per case type (values are validated by the case routes)
+const router = express.Router();
+
+router.use(requireAuth);
+
+const toApi = (doc) => ({
+    id: doc._id.toString(),
+    caseType: doc.caseType,
+    fields: doc.fields,
+    updatedAt: doc.updatedAt,
+});
+
+router.get('/', async (req, res) => {
+    try {
+        const schemas = await CaseFieldSchema.find({ owner: req.user.userId }).sort({ caseType: 1 }).lean();
+        return res.json(schemas.map(toApi));
+    } catch (error) {
+        logger.error({ err: error }, 'Get case field schemas error');
+        return res.status(500).json({ error: 'Failed to fetch custom fields' });
+    }
+});
+
+router.put('/:caseType', async (req, res) => {
+    try {
+        const caseType = req.params.caseType.trim();
+        if (!caseType || caseType.length > 60) {
+            return res.status(400).json({ error: 'Case type must be 1-60 characters' });
+        }
+
+        // Keys are what case values and template placeholders are stored under,
+        // so an existing field keeps its key even if it is relabelled
+        const fields = normalizeFieldDefinitions(req.body.fields);
+
+        const schema = await CaseFieldSchema.findOneAndUpdate(
+            { owner: req.user.userId, caseType },
+            { $set: { fields } },
+            { new: true, upsert: true, runValidators: true }
+        ).lean();
+        return res.json(toApi(schema));
+    } catch (error) {
+        if (error instanceof CustomFieldError) {
+            return res.status(error.status).json({ error: error.message });
+        }
+        logger.error({ err: error }, 'Save case field schema error');
+        return res.status(500).json({ error: 'Failed to save custom fields' });
+    }
+});
+
+// Existing case values are left in place; they show up again if the schema is recreated
+router.delete('/:caseType', async (req, res) => {
+    try {
+        const result = await CaseFieldSchema.deleteOne({ owner: req.user.userId, caseType: req.params.caseType });
+        if (result.deletedCount === 0) {
+            return res.status(404).json({ error: 'Not found' });
+        }
+        return res.json({ ok: true });
+    } catch (error) {
+        logger.error({ err: error }, 'Delete case field schema error');
+        return res.status(500).json({ error: 'Failed to delete custom fields' });
+    }
+});
+
+export default router;
@@ -0,0 +1,111 @@
+import express from 'express';
+import mongoose from 'mongoose';
+import { requireAuth } from '../middleware/auth-jwt.js';
+import { rejectArchivedCase } from '../middleware/archivedCase.js';
+import logger from '../utils/logger.js';
+import Case from '../models/Case.js';
+import { CaseLinkError, caseLinkGraph, isDuplicateLink, normalizeCaseLink } from '../services/caseLinks.js';
+import { ARCHIVED_CASE_MESSAGE, isArchived } from '../services/caseClosure.js';
+import { publishChange } from '../services/changeFeed.js';
+
+// Typed links between a case and related matters (appeals, transfers, connected cases)
+const router = express.Router({ mergeParams: true });
+
+router.use(requireAuth);
+
+router.use(async (req, res, next) => {
+    try {
+        if (!mongoose.isValidObjectId(req.params.caseId)) {
+            return res.status(404).json({ error: 'Case not found' });
+        }
+        const caseDoc = await Case.findOne({ _id: req.params.caseId, owner: req.user.userId });
+        if (!caseDoc) {
+            return res.status(404).json({ error: 'Case not found' });
+        }
+        req.caseDoc = caseDoc;
+        return next();
+    } catch (error) {
+        logger.error({ err: error }, 'Verify case access error');
+        return res.status(500).json({ error: 'Server error' });
+    }
+});
+
+router.get('/', async (req, res) => {
+    try {
+        return res.json(await caseLinkGraph(req.user.userId, req.caseDoc._id));
+    } catch (error) {
+        logger.error({ err: error }, 'Get case links error');
+        return res.status(500).json({ error: 'Failed to fetch linked cases' });
+    }
+});
+
+// Both ends of a link must be open; the archived-case guard covers this one
+router.post('/', rejectArchivedCase(), async (req, res) => {
+    try {
+        const link = normalizeCaseLink(req.caseDoc._id, req.body);
+        const target = await Case.findOne({ _id: link.caseId, owner: req.user.userId }).select('links archivedAt').lean();
+        if (!target) {
+            return res.status(404).json({ error: 'Linked case not found' });
+        }
+        if (isArchived(target)) {
+            return res.status(409).json({ error: ARCHIVED_CASE_MESSAGE });
+        }
+
+        const sourceId = String(req.caseDoc._id);
+        if (isDuplicateLink(req.caseDoc, target, link)) {
+            return res.status(409).json({ error: 'These cases are already linked that way' });
+        }
+
+        req.caseDoc.links.push(link);
+        await req.caseDoc.save();
+        const saved = req.caseDoc.links[req.caseDoc.links.length - 1];
+
+        publishChange({ userId: req.user.userId, entity: 'case', action: 'updated', entityId: sourceId });
+        return res.status(201).json({
+            id: String(saved._id),
+            from: sourceId,
+            to: link.caseId,
+            type: saved.type,
+            note: saved.note || '',
+        });
+    } catch (error) {
+        if (error instanceof CaseLinkError) {
+            return res.status(error.status).json({ error: error.message });
+        }
+        logger.error({ err: error }, 'Add case link error');
+        return res.status(500).json({ error: 'Failed to link cases' });
+    }
+});
+
+// Either case of a link can remove it, whichever one stores it
+router.delete('/:linkId', rejectArchivedCase(), async (req, res) => {
+    try {
+        if (!mongoose.isValidObjectId(req.params.linkId)) {
+            return res.status(404).json({ error: 'Link not found' });
+        }
+        const caseId = req.caseDoc._id;
+        const holder = await Case.findOne({
+            owner: req.user.userId,
+            links: { $elemMatch: { _id: req.params.linkId } },
+            $or: [{ _id: caseId }, { 'links.caseId': caseId }],
+        });
+        const link = holder?.links.id(req.params.linkId);
+        if (!link || (!holder._id.equals(caseId) && !link.caseId.equals(caseId))) {
+            return res.status(404).json({ error: 'Link not found' });
+        }
+        if (isArchived(holder)) {
+            return res.status(409).json({ error: ARCHIVED_CASE_MESSAGE });
+        }
+
+        link.deleteOne();
+        await holder.save();
+
+        publishChange({ userId: req.user.userId, entity: 'case', action: 'updated', entityId: holder.id });
+        return res.json({ ok: true });
+    } catch (error) {
+        logger.error({ err: error }, 'Remove case link error');
+        return res.status(500).json({ error: 'Failed to remove link' });
+    }
+});
+
+export default router;
@@ -2,12 +2,14 @@ import express from 'express';
 import { requireAuth } from '../middleware/auth-jwt.js';
 import logger from '../utils/logger.js';
 import { logActivity } from '../middleware/activityLogger.js';
+import { rejectArchivedCase } from '../middleware/archivedCase.js';
 import CaseNote from '../models/CaseNote.js';
 import Case from '../models/Case.js';
 // We might need Hearing model if we want to validate hearingId actually belongs to caseId
 // assuming hearing is stored somewhere, but prompt says "verify hearing belongs to case". Let's import it if we know where it is, or we just validate it exists.
 // Wait, prompt says: Verify hearing belongs to case.
 import xss from 'xss';
+import { publishChange } from '../services/changeFeed.js';
 
 const router = express.Router({ mergeParams: true }); // Important: merge params to get :caseId from parent router if mounted that way, or we'll mount it directly on `/cases/:caseId/notes`.
 
@@ -42,7 +44,7 @@ const verifyCaseAccess = async (req, res, next) => {
 router.use(verifyCaseAccess);
 
 // Create Note
-router.post('/', async (req, res) => {
+router.post('/', rejectArchivedCase(), async (req, res) => {
     try {
         const { caseId } = req.params;
         let { title, content, evidenceTags } = req.body;
@@ -109,6 +111,10 @@ router.post('/', async (req, res) => {
 
         // Return populated author for frontend
         const populatedNote = await CaseNote.findById(savedNote._id).populate('authorId', 'name email');
+        publishChange({
+            userId: req.caseDoc.owner, entity: 'note', action: 'created',
+            entityId: savedNote._id, caseId, data: populatedNote
+        });
         return res.status(201).json(populatedNote);
     } catch (error) {
         logger.error({ err: error }, 'Create note error');
@@ -170,7 +176,7 @@ router.get('/', async (req, res) => {
 });
 
 // Update Note
-router.put('/:noteId', async (req, res) => {
+router.put('/:noteId', rejectArchivedCase(), async (req, res) => {
     try {
         const { caseId, noteId } = req.params;
         const note = await CaseNote.findOne({ _id: noteId, caseId, isDeleted: false });
@@ -245,6 +251,10 @@ router.put('/:noteId', async (req, res) => {
         );
 
         const populatedNote = await CaseNote.findById(updatedNote._id).populate('authorId', 'name email');
+        publishChange({
+            userId: req.caseDoc.owner, entity: 'note', action: 'updated',
+            entityId: updatedNote._id, caseId, data: populatedNote
+        });
         return res.json(populatedNote);
     } catch (error) {
         logger.error({ err: error }, 'Update note error');
@@ -253,7 +263,7 @@ router.put('/:noteId', async (req, res) => {
 });
 
 // Soft Delete Note
-router.delete('/:noteId', async (req, res) => {
+router.delete('/:noteId', rejectArchivedCase(), async (req, res) => {
     try {
         const { caseId, noteId } = req.params;
         const note = await CaseNote.findOne({ _id: noteId, caseId, isDeleted: false });
@@ -278,6 +288,8 @@ router.delete('/:noteId', async (req, res) => {
             { noteId: note._id }
         );
 
+        publishChange({ userId: req.caseDoc.owner, entity: 'note', action: 'deleted', entityId: note._id, caseId });
+
         return res.json({ success: true, message: 'Note deleted' });
     } catch (error) {
         logger.error({ err: error }, 'Delete note error');
@@ -0,0 +1,29 @@
+import express from 'express';
+import mongoose from 'mongoose';
+import { requireAuth } from '../middleware/auth-jwt.js';
+import logger from '../utils/logger.js';
+import Case from '../models/Case.js';
+import { buildCaseTimeline } from '../services/caseTimeline.js';
+
+// Chronology of a case: hearings, orders, notes, documents, invoices and time
+const router = express.Router({ mergeParams: true });
+
+router.use(requireAuth);
+
+router.get('/', async (req, res) => {
+    try {
+        if (!mongoose.isValidObjectId(req.params.caseId)) {
+            return res.status(404).json({ error: 'Case not found' });
+        }
+        const caseDoc = await Case.findOne({ _id: req.params.caseId, owner: req.user.userId }).select('_id').lean();
+        if (!caseDoc) {
+            return res.status(404).json({ error: 'Case not found' });
+        }
+        return res.json(await buildCaseTimeline(req.user.userId, caseDoc._id));
+    } catch (error) {
+        logger.error({ err: error, caseId: req.params.caseId }, 'Get case timeline error');
+        return res.status(500).json({ error: 'Failed to load the case timeline' });
+    }
+});
+
+export default router;
@@ -8,29 +8,94 @@ import {
   updateDocument,
   deleteDocument,
   queryDocuments,
-  MODELS,
   COLLECTIONS
 } from '../services/mongodb.js';
 import activityEmitter from '../utils/eventEmitter.js';
+import { publishChange } from '../services/changeFeed.js';
 import { enforcePlanLimits } from '../middleware/planEnforcement.js';
-import { validateHearingType } from '../schemas/validation-schemas.js';
+import { validateHearingType, validateParties, CASE_STATUSES, CASE_PRIORITIES } from '../schemas/validation-schemas.js';
+import { findList, parseListQuery, ListQueryError } from '../services/listQuery.js';
+import { moveToTrash } from '../services/trash.js';
+import { recordChange } from '../services/changeHistory.js';
+import {
+  coerceCustomFields,
+  customFieldConditions,
+  customFieldSearch,
+  mergeFieldDefinitions
+} from '../services/customFields.js';
+import Case from '../models/Case.js';
+import CaseFieldSchema from '../models/CaseFieldSchema.js';
+import { caseNumberFields } from '../utils/caseNumber.js';
+import { findSameCaseNumber } from '../services/caseNumbers.js';
+import { resolveDirectoryLinks } from '../services/courtDirectory.js';
+import { validatePartyClients } from '../services/caseParties.js';
+import { rejectArchivedCase } from '../middleware/archivedCase.js';
+import { SYSTEM_PIPELINE_NODES, countBoardColumns, stageFilter } from '../services/caseBoard.js';
+import { CaseConflictError, findConflictCandidates } from '../services/caseConflicts.js';
 
 
 const router = express.Router();
 
 router.use(requireAuth);
 
+const CASE_LIST_SPEC = {
+  sortFields: ['createdAt', 'updatedAt', 'nextHearing', 'hearingDate', 'caseNumber', 'clientName'],
+  enumFilters: { status: CASE_STATUSES, priority: CASE_PRIORITIES },
+  dateFields: ['nextHearing', 'hearingDate', 'createdAt'],
+  searchFields: ['caseNumber', 'clientName', 'opposingParty', 'courtName', 'judgeName'],
+  nullsLast: ['nextHearing'],
+};
+
+/**
+ * Validate custom field values against the owner's schema for `caseType`.
+ * Cases of a type without a schema carry no custom fields.
+ * @returns {Promise<{values: Object, errors: string[]}>}
+ */
+async function validateCustomFields(ownerId, caseType, values) {
+  const schema = caseType ? await CaseFieldSchema.findOne({ owner: ownerId, caseType }).lean() : null;
+  return coerceCustomFields(schema?.fields ?? [], values);
+}
+
 // API Routes
 
+/**
+ * Parse the case list params: those of CASE_LIST_SPEC plus ?caseType=,
+ * ?archived=, ?stage= (a board column, see services/caseBoard.js) and
+ * ?cf[key]= for custom fields, which ?q= searches too.
+ */
+async function parseCaseListQuery(req) {
+  const extraFilters = [];
+  if (typeof req.query.caseType === 'string' && req.query.caseType && req.query.caseType !== 'all') {
+    extraFilters.push({ caseType: { $in: req.query.caseType.split(',') } });
+  }
+  // ?archived=exclude leaves out archived cases, ?archived=only lists just those
+  if (req.query.archived === 'exclude') {
+    extraFilters.push({ archivedAt: null });
+  } else if (req.query.archived === 'only') {
+    extraFilters.push({ archivedAt: { $ne: null } });
+  }
+  if (req.query.stage) {
+    extraFilters.push(await stageFilter(req.user.userId, String(req.query.stage)));
+  }
+
+  // Custom fields are searched by ?q= and filtered by ?cf[key]=value
+  const schemas = await CaseFieldSchema.find({ owner: req.user.userId }).lean();
+  const defs = mergeFieldDefinitions(schemas);
+  extraFilters.push(...customFieldConditions(defs, req.query.cf));
+  const extraSearch = customFieldSearch(defs, req.query.q);
+
+  return parseListQuery(req.query, CASE_LIST_SPEC, req.user.userId, { extraSearch, extraFilters });
+}
+
+// Without ?limit this returns every case (legacy shape); with it, { items, nextCursor, total }
 router.get('/', async (req, res) => {
   try {
-    const cases = await queryDocuments(
-      MODELS.CASES,
-      [{ field: 'owner', operator: '==', value: req.user.userId }],
-      { field: 'createdAt', direction: 'desc' }
-    );
+    const cases = await findList(Case, await parseCaseListQuery(req));
     return res.json(cases);
   } catch (error) {
+    if (error instanceof ListQueryError) {
+      return res.status(error.status).json({ error: error.message });
+    }
     logger.error({ err: error }, 'Get cases error');
     return res.status(500).json({
       error: 'Failed to fetch cases',
@@ -42,23 +107,74 @@ router.get('/', async (req, res) => {
   }
 });
 
+/**
+ * GET /api/cases/board?groupBy=status|stage
+ * The number of cases in every board column, under the same filters as the list.
+ */
+router.get('/board', async (req, res) => {
+  try {
+    const groupBy = req.query.groupBy ?? 'status';
+    const { filter } = await parseCaseListQuery(req);
+    const columns = await countBoardColumns(req.user.userId, filter, groupBy);
+    return res.json({ groupBy, columns });
+  } catch (error) {
+    if (error instanceof ListQueryError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    logger.error({ err: error }, 'Count case board columns error');
+    return res.status(500).json({ error: 'Failed to count cases' });
+  }
+});
+
+/**
+ * POST /api/cases/conflict-candidates { caseNumber, names, from, to }
+ * The cases the conflict checker compares a case being entered against.
+ */
+router.post('/conflict-candidates', async (req, res) => {
+  try {
+    return res.json(await findConflictCandidates(req.user.userId, req.body));
+  } catch (error) {
+    if (error instanceof CaseConflictError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    logger.error({ err: error }, 'Find conflict candidates error');
+    return res.status(500).json({ error: 'Failed to check for conflicts' });
+  }
+});
+
+/**
+ * Fields a case body may not set: deadlines, links and closure have their own
+ * routes (/deadlines, /cases/:id/links, /cases/:id/closure), trash state
+ * changes only through the Trash, and the number's key and parts are derived
+ * from caseNumber here.
+ */
+const PROTECTED_FIELDS = ['deadlines', 'links', 'closure', 'archivedAt', 'deletedAt', 'trashedWith', 'caseNumberKey', 'caseNumberParts'];
+
+const stripProtectedFields = (body) => PROTECTED_FIELDS.forEach(field => delete body[field]);
+
+const duplicateCaseNumberMessage = (entered, duplicate) => (duplicate.caseNumber === entered
+  ? `Case number "${entered}" already exists. Please use a different case number.`
+  : `Case number "${entered}" is the same as existing case "${duplicate.caseNumber}". Please use a different case number.`);
+
 router.post('/', enforcePlanLimits('case'), async (req, res) => {
   try {
+    stripProtectedFields(req.body);
+
     // Validate case number is provided (any format allowed)
     if (!req.body.caseNumber || typeof req.body.caseNumber !== 'string' || !req.body.caseNumber.trim()) {
       return res.status(400).json({ error: 'Case number is required' });
     }
 
     const trimmedCaseNumber = req.body.caseNumber.trim();
+    const numberFields = caseNumberFields(trimmedCaseNumber);
+    if (numberFields.error) {
+      return res.status(400).json({ error: numberFields.error });
+    }
 
-    // Check for duplicate case number (case-insensitive, same owner)
-    const existingCases = await queryDocuments(COLLECTIONS.CASES, [
-      { field: 'owner', operator: '==', value: req.user.userId },
-      { field: 'caseNumber', operator: '==', value: trimmedCaseNumber }
-    ]);
-
-    if (existingCases.length > 0) {
-      return res.status(409).json({ error: `Case number "${trimmedCaseNumber}" already exists. Please use a different case number.` });
+    // Check for duplicate case number however it is written (same owner)
+    const [duplicate] = await findSameCaseNumber(req.user.userId, numberFields.fields.caseNumberKey);
+    if (duplicate) {
+      return res.status(409).json({ error: duplicateCaseNumberMessage(trimmedCaseNumber, duplicate) });
     }
 
     // Hearing type validation is optional - don't block if not provided
@@ -69,7 +185,36 @@ router.post('/', enforcePlanLimits('case'), async (req, res) => {
       }
     }
 
-    const data = { ...req.body, caseNumber: trimmedCaseNumber, owner: req.user.userId };
+    if (req.body.parties !== undefined) {
+      const partiesValidation = validateParties(req.body.parties);
+      if (!partiesValidation.valid) {
+        return res.status(400).json({ error: partiesValidation.error });
+      }
+      const clientsValidation = await validatePartyClients(req.user.userId, req.body.parties);
+      if (!clientsValidation.valid) {
+        return res.status(400).json({ error: clientsValidation.error });
+      }
+    }
+
+    const customFields = await validateCustomFields(req.user.userId, req.body.caseType, req.body.customFields);
+    if (customFields.errors.length > 0) {
+      return res.status(400).json({ error: customFields.errors.join('; ') });
+    }
+
+    // Link courtName / judgeName to the court directory
+    const directoryLinks = await resolveDirectoryLinks(req.user.userId, req.body);
+    if (directoryLinks.error) {
+      return res.status(400).json({ error: directoryLinks.error });
+    }
+    Object.assign(req.body, directoryLinks.fields);
+
+    const data = {
+      ...req.body,
+      caseNumber: trimmedCaseNumber,
+      ...numberFields.fields,
+      customFields: customFields.values,
+      owner: req.user.userId
+    };
     const item = await createDocument(COLLECTIONS.CASES, data);
 
     try {
@@ -119,6 +264,8 @@ router.post('/', enforcePlanLimits('case'), async (req, res) => {
       metadata: { caseId: item.id, caseNumber: item.caseNumber }
     });
 
+    publishChange({ userId: req.user.userId, entity: 'case', action: 'created', entityId: item.id, data: item });
+
     return res.status(201).json(item);
   } catch (error) {
     logger.error({ err: error }, 'Create case error');
@@ -140,8 +287,10 @@ router.get('/:id', async (req, res) => {
   }
 });
 
-router.put('/:id', async (req, res) => {
+router.put('/:id', rejectArchivedCase(req => req.params.id), async (req, res) => {
   try {
+    stripProtectedFields(req.body);
+
     const existing = await getDocumentById(COLLECTIONS.CASES, req.params.id);
     // Compare as strings to handle ObjectId vs string inconsistencies
     if (!existing || String(existing.owner) !== String(req.user.userId)) {
@@ -155,20 +304,19 @@ router.put('/:id', async (req, res) => {
       }
 
       const trimmedCaseNumber = req.body.caseNumber.trim();
+      const numberFields = caseNumberFields(trimmedCaseNumber);
+      if (numberFields.error) {
+        return res.status(400).json({ error: numberFields.error });
+      }
 
-      // Check for duplicate case number (excluding current case, same owner)
-      const existingCases = await queryDocuments(COLLECTIONS.CASES, [
-        { field: 'owner', operator: '==', value: req.user.userId },
-        { field: 'caseNumber', operator: '==', value: trimmedCaseNumber }
-      ]);
-
-      // Filter out the current case being updated
-      const duplicateCases = existingCases.filter(c => c.id !== req.params.id);
-      if (duplicateCases.length > 0) {
-        return res.status(409).json({ error: `Case number "${trimmedCaseNumber}" already exists. Please use a different case number.` });
+      // Check for duplicate case number however it is written (excluding current case, same owner)
+      const [duplicate] = await findSameCaseNumber(req.user.userId, numberFields.fields.caseNumberKey, req.params.id);
+      if (duplicate) {
+        return res.status(409).json({ error: duplicateCaseNumberMessage(trimmedCaseNumber, duplicate) });
       }
 
       req.body.caseNumber = trimmedCaseNumber;
+      Object.assign(req.body, numberFields.fields);
     }
 
     // Validate hearing type if being updated
@@ -179,8 +327,57 @@ router.put('/:id', async (req, res) => {
       }
     }
 
+    // A revert from the change history sends null for "no parties"
+    if (req.body.parties === null) {
+      req.body.parties = [];
+    }
+    if (req.body.parties !== undefined) {
+      const partiesValidation = validateParties(req.body.parties);
+      if (!partiesValidation.valid) {
+        return res.status(400).json({ error: partiesValidation.error });
+      }
+      const clientsValidation = await validatePartyClients(req.user.userId, req.body.parties);
+      if (!clientsValidation.valid) {
+        return res.status(400).json({ error: clientsValidation.error });
+      }
+    }
+
+    // Re-validate custom fields when they or the case type they belong to change
+    if (req.body.customFields !== undefined || req.body.caseType !== undefined) {
+      const customFields = await validateCustomFields(
+        req.user.userId,
+        req.body.caseType ?? existing.caseType,
+        req.body.customFields !== undefined ? req.body.customFields : existing.customFields
+      );
+      if (customFields.errors.length > 0) {
+        return res.status(400).json({ error: customFields.errors.join('; ') });
+      }
+      req.body.customFields = customFields.values;
+    }
+
+    // Board moves record a pipeline stage; null or '' clears it
+    if (req.body.pipelineStage !== undefined) {
+      if (!req.body.pipelineStage) {
+        req.body.pipelineStage = null;
+      } else if (!isPipelineStage(existing, req.body.pipelineStage)) {
+        return res.status(400).json({ error: `Unknown pipeline stage "${req.body.pipelineStage}"` });
+      }
+    }
+
+    // Link courtName / judgeName to the court directory
+    const directoryLinks = await resolveDirectoryLinks(req.user.userId, req.body);
+    if (directoryLinks.error) {
+      return res.status(400).json({ error: directoryLinks.error });
+    }
+    Object.assign(req.body, directoryLinks.fields);
+
     const item = await updateDocument(COLLECTIONS.CASES, req.params.id, req.body);
 
+    await recordChange({
+      entityType: 'case', entityId: item.id, owner: req.user.userId, actorId: req.user.userId,
+      before: existing, after: item, revertOf: req.body.revertOf
+    });
+
     // Log activity
     await logActivity(
       req.user.userId,
@@ -196,6 +393,8 @@ router.put('/:id', async (req, res) => {
       }
     );
 
+    publishChange({ userId: req.user.userId, entity: 'case', action: 'updated', entityId: item.id, data: item });
+
     return res.json(item);
   } catch (error) {
     console.error('Update case error:', error);
@@ -210,7 +409,8 @@ router.delete('/:id', async (req, res) => {
       return res.status(404).json({ error: 'Not found' });
     }
 
-    await deleteDocument(COLLECTIONS.CASES, req.params.id);
+    await moveToTrash('case', req.params.id, req.user.userId);
+    publishChange({ userId: req.user.userId, entity: 'case', action: 'deleted', entityId: req.params.id });
     return res.json({ ok: true });
   } catch (error) {
     console.error('Delete case error:', error);
@@ -257,16 +457,11 @@ router.post('/migrate-next-hearing', async (req, res) => {
 
 // ─── Pipeline endpoints ─────────────────────────────────────────────────────
 
-// The ordered list of built-in (system) pipeline node IDs
-const SYSTEM_PIPELINE_NODES = [
-  { nodeId: 'sys_filed', name: 'Case Filed', type: 'system', color: '#22c55e' },
-  { nodeId: 'sys_first', name: 'First Hearing', type: 'system', color: '#22c55e' },
-  { nodeId: 'sys_interim', name: 'Interim', type: 'system', color: '#22c55e' },
-  { nodeId: 'sys_evidence', name: 'Evidence', type: 'system', color: '#22c55e' },
-  { nodeId: 'sys_arguments', name: 'Arguments', type: 'system', color: '#22c55e' },
-  { nodeId: 'sys_final', name: 'Final Hearing', type: 'system', color: '#22c55e' },
-  { nodeId: 'sys_judgment', name: 'Judgment', type: 'system', color: '#22c55e' },
-];
+/** Whether nodeId is a system node or one of the case's own custom nodes. */
+function isPipelineStage(caseDoc, nodeId) {
+  return SYSTEM_PIPELINE_NODES.some(n => n.nodeId === nodeId)
+    || (caseDoc.customPipelineNodes || []).some(n => n.nodeId === nodeId);
+}
 
 /**
  * GET /api/cases/:id/pipeline
@@ -307,6 +502,7 @@ router.get('/:id/pipeline', async (req, res) => {
       nodes: orderedNodes,
       systemNodes: SYSTEM_PIPELINE_NODES,
       customNodes,
+      currentStage: caseDoc.pipelineStage || null,
     });
   } catch (error) {
     logger.error({ err: error }, 'Get pipeline error');
@@ -319,7 +515,7 @@ router.get('/:id/pipeline', async (req, res) => {
  * Saves custom nodes and the full ordered node ID list.
  * Body: { customNodes: [{nodeId, name, description, color}], pipelineOrder: [nodeId, ...] }
  */
-router.post('/:id/pipeline', async (req, res) => {
+router.post('/:id/pipeline', rejectArchivedCase(req => req.params.id), async (req, res) => {
   try {
     const caseDoc = await getDocumentById(COLLECTIONS.CASES, req.params.id);
     if (!caseDoc || String(caseDoc.owner) !== String(req.user.userId)) {
@@ -349,6 +545,10 @@ router.post('/:id/pipeline', async (req, res) => {
       nameSet.add(key);
     }
 
+    // A recorded stage that was a now-deleted custom node no longer applies
+    const stageRemoved = caseDoc.pipelineStage && !systemIds.has(caseDoc.pipelineStage)
+      && !customNodes.some(n => n.nodeId === caseDoc.pipelineStage);
+
     await updateDocument(COLLECTIONS.CASES, req.params.id, {
       customPipelineNodes: customNodes.map(n => ({
         nodeId: n.nodeId,
@@ -357,6 +557,7 @@ router.post('/:id/pipeline', async (req, res) => {
         color: n.color || '#6366f1',
       })),
       pipelineOrder: pipelineOrder.filter(Boolean),
+      ...(stageRemoved ? { pipelineStage: null } : {}),
     });
 
     // Re-fetch to return fresh data
@@ -376,6 +577,7 @@ router.post('/:id/pipeline', async (req, res) => {
       nodes: orderedNodes,
       systemNodes: SYSTEM_PIPELINE_NODES,
       customNodes: updatedCustom,
+      currentStage: updated.pipelineStage || null,
     });
   } catch (error) {
     logger.error({ err: error }, 'Save pipeline error');
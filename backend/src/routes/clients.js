@@ -6,26 +6,40 @@ import {
   createDocument,
   getDocumentById,
   updateDocument,
-  deleteDocument,
   queryDocuments,
-  MODELS,
   COLLECTIONS
 } from '../services/mongodb.js';
+import { findList, parseListQuery, ListQueryError } from '../services/listQuery.js';
+import { moveToTrash } from '../services/trash.js';
+import { recordChange } from '../services/changeHistory.js';
+import { summarizeClientCases } from '../services/clientCases.js';
+import Client from '../models/Client.js';
 import { validateMobileNumber, validateEmail, validatePAN, validateAadhar, generateClientCode } from '../schemas/validation-schemas.js';
 
 const router = express.Router();
 
 router.use(requireAuth);
 
+const CLIENT_LIST_SPEC = {
+  sortFields: ['createdAt', 'updatedAt', 'name'],
+  dateFields: ['createdAt'],
+  searchFields: ['name', 'email', 'phone'],
+};
+
+// Without ?limit this returns every client (legacy shape); with it, { items, nextCursor, total }
+// where each client on the page carries the summary of its cases (`caseSummary`)
 router.get('/', async (req, res) => {
   try {
-    const clients = await queryDocuments(
-      MODELS.CLIENTS,
-      [{ field: 'owner', operator: '==', value: req.user.userId }],
-      { field: 'createdAt', direction: 'desc' }
-    );
-    return res.json(clients);
+    const clients = await findList(Client, parseListQuery(req.query, CLIENT_LIST_SPEC, req.user.userId));
+    if (Array.isArray(clients)) {
+      return res.json(clients);
+    }
+    const summaries = await summarizeClientCases(req.user.userId, clients.items.map(client => client.name));
+    return res.json({ ...clients, items: clients.items.map(client => ({ ...client, caseSummary: summaries.get(client.name) })) });
   } catch (error) {
+    if (error instanceof ListQueryError) {
+      return res.status(error.status).json({ error: error.message });
+    }
     logger.error({ err: error }, 'Get clients error');
     return res.status(500).json({
       error: 'Failed to fetch clients',
@@ -153,6 +167,19 @@ router.post('/', async (req, res) => {
   }
 });
 
+router.get('/:id', async (req, res) => {
+  try {
+    const client = await getDocumentById(COLLECTIONS.CLIENTS, req.params.id);
+    if (!client || client.owner?.toString() !== req.user.userId.toString()) {
+      return res.status(404).json({ error: 'Not found' });
+    }
+    return res.json(client);
+  } catch (error) {
+    logger.error({ err: error }, 'Get client error');
+    return res.status(500).json({ error: 'Failed to fetch client' });
+  }
+});
+
 router.put('/:id', async (req, res) => {
   try {
     const existing = await getDocumentById(COLLECTIONS.CLIENTS, req.params.id);
@@ -245,6 +272,11 @@ router.put('/:id', async (req, res) => {
 
     const client = await updateDocument(COLLECTIONS.CLIENTS, req.params.id, req.body);
 
+    await recordChange({
+      entityType: 'client', entityId: client.id, owner: req.user.userId, actorId: req.user.userId,
+      before: existing, after: client, revertOf: req.body.revertOf
+    });
+
     // Log activity
     await logActivity(
       req.user.userId,
@@ -272,7 +304,7 @@ router.delete('/:id', async (req, res) => {
       return res.status(404).json({ error: 'Not found' });
     }
 
-    await deleteDocument(COLLECTIONS.CLIENTS, req.params.id);
+    await moveToTrash('client', req.params.id, req.user.userId);
     return res.json({ ok: true });
   } catch (error) {
     logger.error({ err: error }, 'Delete client error');
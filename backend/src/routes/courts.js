@@ -0,0 +1,188 @@
+import express from 'express';
+import mongoose from 'mongoose';
+import { requireAuth } from '../middleware/auth-jwt.js';
+import logger from '../utils/logger.js';
+import Case from '../models/Case.js';
+import Court from '../models/Court.js';
+import Hearing from '../models/Hearing.js';
+import Judge from '../models/Judge.js';
+import {
+    DIRECTORY_FIELDS,
+    DirectoryError,
+    applyNameCluster,
+    findNameClusters,
+    normalizeCourtInput,
+    normalizeJudgeInput,
+    searchCourts,
+    searchJudges,
+    toApiCourt,
+    toApiJudge,
+} from '../services/courtDirectory.js';
+
+// Court and judge directory: the shared list plus the firm's own entries, and
+// the clean-up of free-text court / judge names on cases and hearings
+const router = express.Router();
+
+router.use(requireAuth);
+
+function handleError(res, error, message) {
+    if (error instanceof DirectoryError) {
+        return res.status(error.status).json({ error: error.message });
+    }
+    if (error?.code === 11000) {
+        return res.status(409).json({ error: 'That entry is already in the directory' });
+    }
+    logger.error({ err: error }, message);
+    return res.status(500).json({ error: message });
+}
+
+/** A directory entry the firm added itself; shared entries are read-only. */
+async function loadOwnEntry(model, req, res, label) {
+    if (!mongoose.isValidObjectId(req.params.id)) {
+        res.status(404).json({ error: `${label} not found` });
+        return null;
+    }
+    const entry = await model.findOne({ _id: req.params.id, owner: req.user.userId });
+    if (!entry) {
+        res.status(404).json({ error: `${label} not found` });
+    }
+    return entry;
+}
+
+function checkField(req, res) {
+    if (!DIRECTORY_FIELDS[req.params.field]) {
+        res.status(404).json({ error: 'Unknown directory field' });
+        return false;
+    }
+    return true;
+}
+
+// ─── Judges ────────────────────────────────────────────────────────────────
+
+router.get('/judges', async (req, res) => {
+    try {
+        const judges = await searchJudges(req.user.userId, { query: req.query.q, courtId: req.query.courtId });
+        return res.json(judges);
+    } catch (error) {
+        return handleError(res, error, 'Failed to load judges');
+    }
+});
+
+router.post('/judges', async (req, res) => {
+    try {
+        const fields = await normalizeJudgeInput(req.user.userId, req.body);
+        const judge = await Judge.create({ ...fields, owner: req.user.userId });
+        return res.status(201).json(toApiJudge(judge.toObject()));
+    } catch (error) {
+        return handleError(res, error, 'Failed to add judge');
+    }
+});
+
+router.put('/judges/:id', async (req, res) => {
+    try {
+        const judge = await loadOwnEntry(Judge, req, res, 'Judge');
+        if (!judge) {
+            return undefined;
+        }
+        Object.assign(judge, await normalizeJudgeInput(req.user.userId, { ...judge.toObject(), ...req.body }));
+        await judge.save();
+        return res.json(toApiJudge(judge.toObject()));
+    } catch (error) {
+        return handleError(res, error, 'Failed to update judge');
+    }
+});
+
+router.delete('/judges/:id', async (req, res) => {
+    try {
+        const judge = await loadOwnEntry(Judge, req, res, 'Judge');
+        if (!judge) {
+            return undefined;
+        }
+        await judge.deleteOne();
+        // Records keep their judgeName text; only the link goes
+        const unlink = { owner: req.user.userId, judgeId: judge._id };
+        await Promise.all([Case.updateMany(unlink, { $set: { judgeId: null } }), Hearing.updateMany(unlink, { $set: { judgeId: null } })]);
+        return res.json({ success: true });
+    } catch (error) {
+        return handleError(res, error, 'Failed to delete judge');
+    }
+});
+
+// ─── Name clean-up ─────────────────────────────────────────────────────────
+
+router.get('/cleanup/:field', async (req, res) => {
+    if (!checkField(req, res)) {
+        return undefined;
+    }
+    try {
+        return res.json(await findNameClusters(req.user.userId, req.params.field));
+    } catch (error) {
+        return handleError(res, error, 'Failed to group names');
+    }
+});
+
+router.post('/cleanup/:field', async (req, res) => {
+    if (!checkField(req, res)) {
+        return undefined;
+    }
+    try {
+        const result = await applyNameCluster(req.user.userId, req.params.field, req.body || {});
+        return res.json(result);
+    } catch (error) {
+        return handleError(res, error, 'Failed to update names');
+    }
+});
+
+// ─── Courts ────────────────────────────────────────────────────────────────
+
+router.get('/', async (req, res) => {
+    try {
+        return res.json(await searchCourts(req.user.userId, req.query.q));
+    } catch (error) {
+        return handleError(res, error, 'Failed to load courts');
+    }
+});
+
+router.post('/', async (req, res) => {
+    try {
+        const court = await Court.create({ ...normalizeCourtInput(req.body), owner: req.user.userId });
+        return res.status(201).json(toApiCourt(court.toObject()));
+    } catch (error) {
+        return handleError(res, error, 'Failed to add court');
+    }
+});
+
+router.put('/:id', async (req, res) => {
+    try {
+        const court = await loadOwnEntry(Court, req, res, 'Court');
+        if (!court) {
+            return undefined;
+        }
+        Object.assign(court, normalizeCourtInput({ ...court.toObject(), ...req.body }));
+        await court.save();
+        return res.json(toApiCourt(court.toObject()));
+    } catch (error) {
+        return handleError(res, error, 'Failed to update court');
+    }
+});
+
+router.delete('/:id', async (req, res) => {
+    try {
+        const court = await loadOwnEntry(Court, req, res, 'Court');
+        if (!court) {
+            return undefined;
+        }
+        await court.deleteOne();
+        const unlink = { owner: req.user.userId, courtId: court._id };
+        await Promise.all([
+            Case.updateMany(unlink, { $set: { courtId: null } }),
+            Hearing.updateMany(unlink, { $set: { courtId: null } }),
+            Judge.updateMany({ owner: req.user.userId, courtId: court._id }, { $set: { courtId: null } }),
+        ]);
+        return res.json({ success: true });
+    } catch (error) {
+        return handleError(res, error, 'Failed to delete court');
+    }
+});
+
+export default router;
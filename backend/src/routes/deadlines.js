@@ -0,0 +1,280 @@
+import express from 'express';
+import mongoose from 'mongoose';
+import { requireAuth } from '../middleware/auth-jwt.js';
+import logger from '../utils/logger.js';
+import Case from '../models/Case.js';
+import CourtHoliday from '../models/CourtHoliday.js';
+import { CUSTOM_RULE_ID, DEADLINE_RULES } from '../services/deadlineRules.js';
+import { DEADLINE_STATUSES } from '../schemas/validation-schemas.js';
+import {
+    DEFAULT_REMINDER_DAYS,
+    DeadlineError,
+    computeDeadline,
+    courtHolidaysFrom,
+    createDeadlineAlerts,
+    formatDateOnly,
+    normalizeExcludedDays,
+    normalizeReminderDays,
+    parseDateOnly,
+    removePendingAlerts,
+    resolveRule,
+} from '../services/deadlines.js';
+import { publishChange } from '../services/changeFeed.js';
+import { ARCHIVED_CASE_MESSAGE, isArchived } from '../services/caseClosure.js';
+
+// Limitation and statutory deadlines: the rule table, court holidays, and deadlines stored on cases
+const router = express.Router();
+
+router.use(requireAuth);
+
+const toApiDeadline = (deadline) => ({
+    id: deadline._id.toString(),
+    ruleId: deadline.ruleId,
+    title: deadline.title,
+    act: deadline.act || '',
+    provision: deadline.provision || '',
+    triggerDate: formatDateOnly(deadline.triggerDate),
+    excludedDays: deadline.excludedDays || 0,
+    dueDate: formatDateOnly(deadline.dueDate),
+    graceUntil: deadline.graceUntil ? formatDateOnly(deadline.graceUntil) : null,
+    reminderDays: deadline.reminderDays,
+    status: deadline.status,
+    completedAt: deadline.completedAt,
+    notes: deadline.notes || '',
+});
+
+const toApiHoliday = (holiday) => ({
+    id: holiday._id.toString(),
+    date: holiday.date,
+    name: holiday.name,
+});
+
+/** Resolve the rule and compute the dates for a deadline request body. */
+async function computeFromBody(owner, body) {
+    const rule = resolveRule(body.ruleId, body);
+    const triggerDate = parseDateOnly(body.triggerDate, 'Trigger date');
+    const excludedDays = normalizeExcludedDays(body.excludedDays);
+    const holidays = await courtHolidaysFrom(owner, triggerDate);
+    return { rule, triggerDate, excludedDays, ...computeDeadline(rule, triggerDate, { holidays, excludedDays }) };
+}
+
+function handleError(res, error, message) {
+    if (error instanceof DeadlineError) {
+        return res.status(error.status).json({ error: error.message });
+    }
+    logger.error({ err: error }, message);
+    return res.status(500).json({ error: message });
+}
+
+// `write` refuses archived cases, which are read-only until reopened
+async function findOwnedCase(req, res, { write = false } = {}) {
+    if (!mongoose.isValidObjectId(req.params.caseId)) {
+        res.status(404).json({ error: 'Case not found' });
+        return null;
+    }
+    const caseDoc = await Case.findOne({ _id: req.params.caseId, owner: req.user.userId });
+    if (!caseDoc) {
+        res.status(404).json({ error: 'Case not found' });
+        return null;
+    }
+    if (write && isArchived(caseDoc)) {
+        res.status(409).json({ error: ARCHIVED_CASE_MESSAGE });
+        return null;
+    }
+    return caseDoc;
+}
+
+router.get('/rules', (req, res) => {
+    res.json({ rules: DEADLINE_RULES, defaultReminderDays: DEFAULT_REMINDER_DAYS });
+});
+
+// Preview a deadline without saving it
+router.post('/compute', async (req, res) => {
+    try {
+        const { rule, periodEnd, dueDate, graceUntil } = await computeFromBody(req.user.userId, req.body);
+        return res.json({
+            ruleId: rule.id,
+            title: rule.title,
+            periodEnd: formatDateOnly(periodEnd),
+            dueDate: formatDateOnly(dueDate),
+            graceUntil: graceUntil ? formatDateOnly(graceUntil) : null,
+        });
+    } catch (error) {
+        return handleError(res, error, 'Failed to compute deadline');
+    }
+});
+
+router.get('/holidays', async (req, res) => {
+    try {
+        const holidays = await CourtHoliday.find({ owner: req.user.userId }).sort({ date: 1 }).lean();
+        return res.json(holidays.map(toApiHoliday));
+    } catch (error) {
+        return handleError(res, error, 'Failed to fetch court holidays');
+    }
+});
+
+router.post('/holidays', async (req, res) => {
+    try {
+        const date = formatDateOnly(parseDateOnly(req.body.date, 'Holiday date'));
+        const name = typeof req.body.name === 'string' ? req.body.name.trim() : '';
+        if (!name || name.length > 120) {
+            return res.status(400).json({ error: 'Holiday name must be 1-120 characters' });
+        }
+        const holiday = await CourtHoliday.findOneAndUpdate(
+            { owner: req.user.userId, date },
+            { $set: { name } },
+            { new: true, upsert: true, runValidators: true }
+        ).lean();
+        return res.status(201).json(toApiHoliday(holiday));
+    } catch (error) {
+        return handleError(res, error, 'Failed to save court holiday');
+    }
+});
+
+router.delete('/holidays/:id', async (req, res) => {
+    try {
+        if (!mongoose.isValidObjectId(req.params.id)) {
+            return res.status(404).json({ error: 'Not found' });
+        }
+        const result = await CourtHoliday.deleteOne({ _id: req.params.id, owner: req.user.userId });
+        if (result.deletedCount === 0) {
+            return res.status(404).json({ error: 'Not found' });
+        }
+        return res.json({ ok: true });
+    } catch (error) {
+        return handleError(res, error, 'Failed to delete court holiday');
+    }
+});
+
+router.get('/case/:caseId', async (req, res) => {
+    try {
+        const caseDoc = await findOwnedCase(req, res);
+        if (!caseDoc) {
+            return undefined;
+        }
+        const deadlines = [...caseDoc.deadlines].sort((a, b) => a.dueDate - b.dueDate);
+        return res.json(deadlines.map(toApiDeadline));
+    } catch (error) {
+        return handleError(res, error, 'Failed to fetch deadlines');
+    }
+});
+
+router.post('/case/:caseId', async (req, res) => {
+    try {
+        const caseDoc = await findOwnedCase(req, res, { write: true });
+        if (!caseDoc) {
+            return undefined;
+        }
+
+        const { rule, triggerDate, excludedDays, dueDate, graceUntil } = await computeFromBody(req.user.userId, req.body);
+        const reminderDays = normalizeReminderDays(req.body.reminderDays);
+        const deadline = caseDoc.deadlines.create({
+            ruleId: rule.id,
+            title: rule.title,
+            act: rule.act,
+            provision: rule.provision,
+            periodDays: rule.id === CUSTOM_RULE_ID ? rule.period.days : undefined,
+            triggerDate,
+            excludedDays,
+            dueDate,
+            graceUntil,
+            reminderDays,
+            notes: typeof req.body.notes === 'string' ? req.body.notes.slice(0, 2000) : '',
+        });
+        deadline.alertIds = await createDeadlineAlerts({
+            owner: req.user.userId, caseId: caseDoc._id, caseNumber: caseDoc.caseNumber, deadline
+        });
+        caseDoc.deadlines.push(deadline);
+        await caseDoc.save();
+
+        publishChange({ userId: req.user.userId, entity: 'case', action: 'updated', entityId: caseDoc.id });
+        return res.status(201).json(toApiDeadline(deadline));
+    } catch (error) {
+        return handleError(res, error, 'Failed to save deadline');
+    }
+});
+
+// Change the trigger date, excluded days, reminders, notes or status. Date
+// changes recompute the deadline; any change to the dates, reminders or
+// status replaces the pending reminder alerts.
+router.patch('/case/:caseId/:deadlineId', async (req, res) => {
+    try {
+        const caseDoc = await findOwnedCase(req, res, { write: true });
+        if (!caseDoc) {
+            return undefined;
+        }
+        const deadline = caseDoc.deadlines.id(req.params.deadlineId);
+        if (!deadline) {
+            return res.status(404).json({ error: 'Deadline not found' });
+        }
+
+        const { triggerDate, excludedDays, reminderDays, notes, status } = req.body;
+        if (status !== undefined && !DEADLINE_STATUSES.includes(status)) {
+            return res.status(400).json({ error: `Status must be one of: ${DEADLINE_STATUSES.join(', ')}` });
+        }
+
+        if (triggerDate !== undefined || excludedDays !== undefined) {
+            const computed = await computeFromBody(req.user.userId, {
+                ruleId: deadline.ruleId,
+                // Custom deadlines keep their own title and length
+                title: deadline.title,
+                periodDays: deadline.periodDays,
+                triggerDate: triggerDate ?? formatDateOnly(deadline.triggerDate),
+                excludedDays: excludedDays ?? deadline.excludedDays,
+            });
+            deadline.triggerDate = computed.triggerDate;
+            deadline.excludedDays = computed.excludedDays;
+            deadline.dueDate = computed.dueDate;
+            deadline.graceUntil = computed.graceUntil;
+        }
+        if (reminderDays !== undefined) {
+            deadline.reminderDays = normalizeReminderDays(reminderDays);
+        }
+        if (notes !== undefined) {
+            deadline.notes = typeof notes === 'string' ? notes.slice(0, 2000) : '';
+        }
+        if (status !== undefined && status !== deadline.status) {
+            deadline.status = status;
+            deadline.completedAt = status === 'done' ? new Date() : undefined;
+        }
+
+        if (triggerDate !== undefined || excludedDays !== undefined || reminderDays !== undefined || status !== undefined) {
+            await removePendingAlerts(deadline.alertIds);
+            deadline.alertIds = deadline.status === 'open'
+                ? await createDeadlineAlerts({
+                    owner: req.user.userId, caseId: caseDoc._id, caseNumber: caseDoc.caseNumber, deadline
+                })
+                : [];
+        }
+        await caseDoc.save();
+
+        publishChange({ userId: req.user.userId, entity: 'case', action: 'updated', entityId: caseDoc.id });
+        return res.json(toApiDeadline(deadline));
+    } catch (error) {
+        return handleError(res, error, 'Failed to update deadline');
+    }
+});
+
+router.delete('/case/:caseId/:deadlineId', async (req, res) => {
+    try {
+        const caseDoc = await findOwnedCase(req, res, { write: true });
+        if (!caseDoc) {
+            return undefined;
+        }
+        const deadline = caseDoc.deadlines.id(req.params.deadlineId);
+        if (!deadline) {
+            return res.status(404).json({ error: 'Deadline not found' });
+        }
+
+        await removePendingAlerts(deadline.alertIds);
+        deadline.deleteOne();
+        await caseDoc.save();
+
+        publishChange({ userId: req.user.userId, entity: 'case', action: 'updated', entityId: caseDoc.id });
+        return res.json({ ok: true });
+    } catch (error) {
+        return handleError(res, error, 'Failed to delete deadline');
+    }
+});
+
+export default router;
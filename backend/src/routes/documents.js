@@ -14,6 +14,8 @@ import {
 import activityEmitter from '../utils/eventEmitter.js';
 import { enforcePlanLimits } from '../middleware/planEnforcement.js';
 import { uploadToCloudinary, deleteFromCloudinary, extractPublicIdFromUrl } from '../config/cloudinary.js';
+import { moveToTrash } from '../services/trash.js';
+import { createMissingCaseFolders } from '../services/caseFolders.js';
 
 const router = express.Router();
 
@@ -158,6 +160,17 @@ router.post('/folders', requireAuth, async (req, res) => {
   }
 });
 
+// Give every case that has no folder yet its own
+router.post('/folders/case-folders', requireAuth, async (req, res) => {
+  try {
+    const created = await createMissingCaseFolders(req.user.userId);
+    return res.json({ created });
+  } catch (error) {
+    logger.error({ err: error }, 'Create case folders error');
+    return res.status(500).json({ error: 'Failed to create case folders' });
+  }
+});
+
 router.put('/folders/:id', requireAuth, async (req, res) => {
   try {
     const { name, caseId } = req.body;
@@ -696,20 +709,8 @@ router.delete('/files/:id', requireAuth, async (req, res) => {
       return res.status(404).json({ error: 'File not found or access denied' });
     }
 
-    // Delete from Cloudinary if URL is a Cloudinary URL
-    try {
-      if (doc.url && (doc.url.includes('cloudinary.com') || doc.cloudinaryPublicId)) {
-        const publicId = doc.cloudinaryPublicId || extractPublicIdFromUrl(doc.url);
-        if (publicId) {
-          await deleteFromCloudinary(publicId, doc.resourceType || 'auto');
-        }
-      }
-    } catch (e) {
-      logger.error({ err: e }, 'Failed to delete file from Cloudinary');
-      // Continue with database deletion even if Cloudinary deletion fails
-    }
-
-    await deleteDocument(COLLECTIONS.DOCUMENTS, req.params.id);
+    // The Cloudinary asset stays until the file is purged from the Trash
+    await moveToTrash('document', req.params.id, ownerId);
     return res.json({ ok: true });
   } catch (error) {
     logger.error({ err: error }, 'Delete file error');
@@ -0,0 +1,62 @@
+/* global setInterval, clearInterval */
+import express from 'express';
+import { requireAuth } from '../middleware/auth-jwt.js';
+import logger from '../utils/logger.js';
+import { eventsSince, subscribeChanges } from '../services/changeFeed.js';
+
+const router = express.Router();
+router.use(requireAuth);
+
+const HEARTBEAT_MS = 25 * 1000;
+const RETRY_MS = 5000;
+
+// Server-Sent Events stream of the caller's data changes.
+// Resumes from the standard Last-Event-ID header (set by EventSource on its own
+// reconnects) or ?lastEventId= (used when the client opens a fresh connection).
+router.get('/', (req, res) => {
+  const userId = req.user.userId;
+  const lastEventId = req.get('Last-Event-ID') || req.query.lastEventId;
+
+  res.status(200).set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no', // disable proxy buffering (nginx / Render)
+  });
+  res.flushHeaders();
+
+  // compression() buffers writes until flushed
+  const write = (chunk) => {
+    res.write(chunk);
+    res.flush?.();
+  };
+  const send = (event) => {
+    // userId is routing metadata, not part of the payload
+    // eslint-disable-next-line no-unused-vars
+    const { userId: _owner, ...payload } = event;
+    write(`id: ${event.id}\nevent: change\ndata: ${JSON.stringify(payload)}\n\n`);
+  };
+
+  write(`retry: ${RETRY_MS}\n\n`);
+
+  if (lastEventId) {
+    const missed = eventsSince(userId, String(lastEventId));
+    if (missed) {
+      missed.forEach(send);
+    } else {
+      // Gap we cannot fill — the client should refetch everything it shows
+      write(`event: resync\ndata: {}\n\n`);
+    }
+  }
+
+  const unsubscribe = subscribeChanges(userId, send);
+  const heartbeat = setInterval(() => write(': ping\n\n'), HEARTBEAT_MS);
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+    logger.debug({ userId }, 'Change stream closed');
+  });
+});
+
+export default router;
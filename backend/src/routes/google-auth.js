@@ -285,7 +285,7 @@ const DEFAULT_NOTIFICATIONS = {
 };
 const DEFAULT_PREFERENCES = {
   theme: 'light', language: 'en-IN', timezone: 'Asia/Kolkata',
-  dateFormat: 'DD/MM/YYYY', currency: 'INR',
+  dateFormat: 'DD/MM/YYYY', timeFormat: '12h', currency: 'INR',
 };
 const DEFAULT_SECURITY = {
   twoFactorEnabled: false, sessionTimeout: '30', loginNotifications: true,
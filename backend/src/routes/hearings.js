@@ -1,6 +1,8 @@
 import express from 'express';
+import mongoose from 'mongoose';
 import { requireAuth } from '../middleware/auth-jwt.js';
 import { logActivity } from '../middleware/activityLogger.js';
+import { rejectArchivedCase } from '../middleware/archivedCase.js';
 import {
   createDocument,
   getDocumentById,
@@ -11,15 +13,27 @@ import {
 } from '../services/mongodb.js';
 import {
   checkHearingConflicts,
-  computeHearingTimes
+  computeHearingTimes,
+  hasBlockingConflict
 } from '../utils/conflictDetection.js';
 
 import logger from '../utils/logger.js';
+import { publishChange } from '../services/changeFeed.js';
+import { recordChange } from '../services/changeHistory.js';
+import { resolveDirectoryLinks } from '../services/courtDirectory.js';
+import Hearing from '../models/Hearing.js';
 
 const router = express.Router();
 
 router.use(requireAuth);
 
+// The case of the hearing a request changes, for the archived-case guard
+const hearingCaseId = async (req) => {
+  if (!mongoose.isValidObjectId(req.params.id)) { return null; }
+  const hearing = await Hearing.findOne({ _id: req.params.id, owner: req.user.userId }).select('caseId').lean();
+  return hearing?.caseId;
+};
+
 const normalizeDateInput = (value) => {
   if (!value) { return null; }
   const parsed = new Date(value);
@@ -35,7 +49,7 @@ const isBeforeToday = (date) => {
 // Check for hearing conflicts
 router.post('/check-conflict', async (req, res) => {
   try {
-    const { startAt, endAt, resourceScope, excludeHearingId } = req.body;
+    const { startAt, endAt, resourceScope, excludeHearingId, caseId } = req.body;
 
     // Validate required fields
     if (!startAt || !endAt) {
@@ -69,11 +83,12 @@ router.post('/check-conflict', async (req, res) => {
       start,
       end,
       resourceScope || {},
-      excludeHearingId
+      excludeHearingId,
+      caseId
     );
 
     return res.json({
-      hasConflict: conflicts.length > 0,
+      hasConflict: hasBlockingConflict(conflicts),
       conflicts
     });
   } catch (error) {
@@ -119,9 +134,12 @@ router.get('/', async (req, res) => {
           const case_ = await getDocumentById(COLLECTIONS.CASES, hearing.caseId);
           return {
             ...hearing,
+            // Enough of the case for the calendar to show and filter the hearing by
             caseId: case_ ? {
+              _id: case_.id,
               caseNumber: case_.caseNumber,
-              clientName: case_.clientName
+              clientName: case_.clientName,
+              priority: case_.priority
             } : hearing.caseId
           };
         } catch (_err) {
@@ -170,7 +188,7 @@ router.get('/:id', async (req, res) => {
 });
 
 // Create a new hearing
-router.post('/', async (req, res) => {
+router.post('/', rejectArchivedCase(req => req.body.caseId), async (req, res) => {
   try {
     const normalizedHearingDate = normalizeDateInput(req.body.hearingDate);
     if (!normalizedHearingDate) {
@@ -215,8 +233,15 @@ router.post('/', async (req, res) => {
     const rawHearingType = req.body.hearingType;
     const isCustomType = rawHearingType && !BUILT_IN_HEARING_TYPES.has(rawHearingType);
 
+    // Link courtName / judgeName to the court directory
+    const directoryLinks = await resolveDirectoryLinks(req.user.userId, req.body);
+    if (directoryLinks.error) {
+      return res.status(400).json({ error: directoryLinks.error });
+    }
+
     const data = {
       ...req.body,
+      ...directoryLinks.fields,
       owner: req.user.userId,
       hearingDate: normalizedHearingDate,
       timezone,
@@ -242,10 +267,11 @@ router.post('/', async (req, res) => {
       startAt,
       endAt,
       req.body.resourceScope || {},
-      null // No excludeHearingId for new hearings
+      null, // No excludeHearingId for new hearings
+      data.caseId
     );
 
-    if (conflicts.length > 0 && !override) {
+    if (hasBlockingConflict(conflicts) && !override) {
       // Return conflict error
       return res.status(409).json({
         error: 'CONFLICT',
@@ -255,7 +281,8 @@ router.post('/', async (req, res) => {
           caseNumber: c.caseNumber,
           startAt: c.startAt.toISOString(),
           endAt: c.endAt.toISOString(),
-          conflictReason: c.conflictReason
+          conflictReason: c.conflictReason,
+          listedTogether: c.listedTogether
         }))
       });
     }
@@ -361,6 +388,11 @@ router.post('/', async (req, res) => {
       }
     );
 
+    publishChange({
+      userId: req.user.userId, entity: 'hearing', action: 'created',
+      entityId: hearing.id, caseId: hearing.caseId, data: hearing
+    });
+
     return res.status(201).json(hearing);
   } catch (error) {
     logger.error({ err: error, body: req.body }, 'Create hearing error');
@@ -369,7 +401,8 @@ router.post('/', async (req, res) => {
 });
 
 // Update a hearing
-router.put('/:id', async (req, res) => {
+// The hearing's case, and the case it is being moved to, must both be open
+router.put('/:id', rejectArchivedCase(hearingCaseId), rejectArchivedCase(req => req.body.caseId), async (req, res) => {
   try {
     const original = await getDocumentById(COLLECTIONS.HEARINGS, req.params.id);
     if (!original) { return res.status(404).json({ error: 'Hearing not found' }); }
@@ -381,6 +414,12 @@ router.put('/:id', async (req, res) => {
     const updates = { ...req.body };
     const resultingStatus = updates.status || original.status;
 
+    const directoryLinks = await resolveDirectoryLinks(req.user.userId, updates);
+    if (directoryLinks.error) {
+      return res.status(400).json({ error: directoryLinks.error });
+    }
+    Object.assign(updates, directoryLinks.fields);
+
     if (updates.hearingDate) {
       const normalized = normalizeDateInput(updates.hearingDate);
       if (!normalized) {
@@ -440,10 +479,11 @@ router.put('/:id', async (req, res) => {
         updates.startAt,
         updates.endAt,
         updates.resourceScope || original.resourceScope || {},
-        req.params.id // Exclude this hearing from conflict check
+        req.params.id, // Exclude this hearing from conflict check
+        original.caseId
       );
 
-      if (conflicts.length > 0 && !override) {
+      if (hasBlockingConflict(conflicts) && !override) {
         return res.status(409).json({
           error: 'CONFLICT',
           message: 'Hearing update conflicts with existing schedules',
@@ -452,7 +492,8 @@ router.put('/:id', async (req, res) => {
             caseNumber: c.caseNumber,
             startAt: c.startAt.toISOString(),
             endAt: c.endAt.toISOString(),
-            conflictReason: c.conflictReason
+            conflictReason: c.conflictReason,
+            listedTogether: c.listedTogether
           }))
         });
       }
@@ -492,6 +533,11 @@ router.put('/:id', async (req, res) => {
 
     const hearing = await updateDocument(COLLECTIONS.HEARINGS, req.params.id, updates);
 
+    await recordChange({
+      entityType: 'hearing', entityId: hearing.id, owner: req.user.userId, actorId: req.user.userId,
+      before: original, after: hearing, revertOf: req.body.revertOf
+    });
+
     // Update the Case's nextHearing field to reflect the latest upcoming hearing
     if (hearing.caseId) {
       try {
@@ -543,6 +589,7 @@ router.put('/:id', async (req, res) => {
     }
 
     // Populate case info
+    const rawCaseId = hearing.caseId;
     if (hearing.caseId) {
       const case_ = await getDocumentById(COLLECTIONS.CASES, hearing.caseId);
       hearing.caseId = case_ ? {
@@ -568,6 +615,11 @@ router.put('/:id', async (req, res) => {
       }
     );
 
+    publishChange({
+      userId: req.user.userId, entity: 'hearing', action: 'updated',
+      entityId: hearing.id, caseId: rawCaseId, data: hearing
+    });
+
     return res.json(hearing);
   } catch (error) {
     logger.error({ err: error }, 'Update hearing error');
@@ -576,7 +628,7 @@ router.put('/:id', async (req, res) => {
 });
 
 // Delete a hearing
-router.delete('/:id', async (req, res) => {
+router.delete('/:id', rejectArchivedCase(hearingCaseId), async (req, res) => {
   try {
     const hearing = await getDocumentById(COLLECTIONS.HEARINGS, req.params.id);
 
@@ -656,6 +708,11 @@ router.delete('/:id', async (req, res) => {
       }
     );
 
+    publishChange({
+      userId: req.user.userId, entity: 'hearing', action: 'deleted',
+      entityId: hearing.id, caseId: hearing.caseId
+    });
+
     return res.json({ ok: true });
   } catch (error) {
     logger.error({ err: error }, 'Delete hearing error');
@@ -0,0 +1,29 @@
+import express from 'express';
+import mongoose from 'mongoose';
+import { requireAuth } from '../middleware/auth-jwt.js';
+import logger from '../utils/logger.js';
+import { TRACKED_FIELDS, listChanges } from '../services/changeHistory.js';
+
+// Field-level edit history (recorded by the case, hearing, client and invoice update routes)
+const router = express.Router();
+
+router.use(requireAuth);
+
+router.get('/:entityType/:entityId', async (req, res) => {
+    try {
+        const { entityType, entityId } = req.params;
+        if (!TRACKED_FIELDS[entityType]) {
+            return res.status(400).json({ error: `Unknown entity type: ${entityType}` });
+        }
+        if (!mongoose.isValidObjectId(entityId)) {
+            return res.status(404).json({ error: 'Not found' });
+        }
+
+        return res.json(await listChanges(entityType, entityId, req.user.userId));
+    } catch (error) {
+        logger.error({ err: error }, 'Get change history error');
+        return res.status(500).json({ error: 'Failed to fetch history' });
+    }
+});
+
+export default router;
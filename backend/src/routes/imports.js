@@ -0,0 +1,161 @@
+import express from 'express';
+import multer from 'multer';
+import mongoose from 'mongoose';
+import { requireAuth } from '../middleware/auth-jwt.js';
+import logger from '../utils/logger.js';
+import ImportBatch from '../models/ImportBatch.js';
+import User from '../models/User.js';
+import { IMPORT_ENTITIES } from '../schemas/validation-schemas.js';
+import { SpreadsheetError, parseSpreadsheet } from '../utils/spreadsheet.js';
+import {
+    DATE_FORMATS,
+    IMPORT_FIELDS,
+    ImportError,
+    applyImport,
+    previewImport,
+    revertImport,
+    suggestMapping,
+    toApiBatch,
+} from '../services/dataImport.js';
+
+// Spreadsheet import: upload → map columns → preview → apply, and undo an applied batch
+const router = express.Router();
+
+const MAX_FILE_SIZE_MB = 5;
+const SAMPLE_ROWS = 5;
+const HISTORY_LIMIT = 20;
+
+const upload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: MAX_FILE_SIZE_MB * 1024 * 1024, files: 1 },
+});
+
+router.use(requireAuth);
+
+function uploadFile(req, res, next) {
+    upload.single('file')(req, res, (err) => {
+        if (err instanceof multer.MulterError) {
+            const message = err.code === 'LIMIT_FILE_SIZE'
+                ? `File is too large. Maximum allowed size is ${MAX_FILE_SIZE_MB} MB.`
+                : `Upload error: ${err.message}`;
+            return res.status(400).json({ error: message });
+        }
+        if (err) {
+            return next(err);
+        }
+        return next();
+    });
+}
+
+async function loadBatch(req, res) {
+    if (!mongoose.isValidObjectId(req.params.id)) {
+        res.status(404).json({ error: 'Import not found' });
+        return null;
+    }
+    const batch = await ImportBatch.findOne({ _id: req.params.id, owner: req.user.userId });
+    if (!batch) {
+        res.status(404).json({ error: 'Import not found' });
+    }
+    return batch;
+}
+
+function handleError(res, error, message) {
+    if (error instanceof ImportError || error instanceof SpreadsheetError) {
+        return res.status(error.status).json({ error: error.message });
+    }
+    logger.error({ err: error }, message);
+    return res.status(500).json({ error: message });
+}
+
+router.get('/', async (req, res) => {
+    try {
+        const batches = await ImportBatch.find({ owner: req.user.userId, status: { $ne: 'draft' } })
+            .select('-rows -headers')
+            .sort({ createdAt: -1 })
+            .limit(HISTORY_LIMIT)
+            .lean();
+        return res.json(batches.map(toApiBatch));
+    } catch (error) {
+        return handleError(res, error, 'Failed to load imports');
+    }
+});
+
+router.post('/', uploadFile, async (req, res) => {
+    try {
+        const { entity } = req.body;
+        if (!IMPORT_ENTITIES.includes(entity)) {
+            return res.status(400).json({ error: `Import type must be one of: ${IMPORT_ENTITIES.join(', ')}` });
+        }
+        if (!req.file) {
+            return res.status(400).json({ error: 'No file provided' });
+        }
+
+        const { headers, rows } = parseSpreadsheet(req.file.buffer, req.file.originalname);
+        const user = await User.findById(req.user.userId).select('preferences.dateFormat').lean();
+        const preferred = user?.preferences?.dateFormat;
+        const batch = await ImportBatch.create({
+            owner: req.user.userId,
+            entity,
+            fileName: req.file.originalname,
+            headers,
+            rows,
+            rowCount: rows.length,
+            mapping: suggestMapping(entity, headers),
+            dateFormat: DATE_FORMATS.includes(preferred) ? preferred : DATE_FORMATS[0],
+        });
+
+        return res.status(201).json({
+            ...toApiBatch(batch),
+            headers,
+            sampleRows: rows.slice(0, SAMPLE_ROWS),
+            mapping: batch.mapping,
+            dateFormat: batch.dateFormat,
+            fields: IMPORT_FIELDS[entity].map(({ key, label, required = false }) => ({ key, label, required })),
+        });
+    } catch (error) {
+        return handleError(res, error, 'Failed to read the file');
+    }
+});
+
+router.post('/:id/preview', async (req, res) => {
+    try {
+        const batch = await loadBatch(req, res);
+        if (!batch) {
+            return undefined;
+        }
+        if (batch.status !== 'draft') {
+            return res.status(409).json({ error: 'This import has already been applied' });
+        }
+        return res.json(await previewImport(batch, req.body || {}));
+    } catch (error) {
+        return handleError(res, error, 'Failed to check the import');
+    }
+});
+
+router.post('/:id/commit', async (req, res) => {
+    try {
+        const batch = await loadBatch(req, res);
+        if (!batch) {
+            return undefined;
+        }
+        const summary = await applyImport(batch, req.body || {});
+        return res.json({ ...toApiBatch(batch), ...summary });
+    } catch (error) {
+        return handleError(res, error, 'Import failed');
+    }
+});
+
+router.post('/:id/revert', async (req, res) => {
+    try {
+        const batch = await loadBatch(req, res);
+        if (!batch) {
+            return undefined;
+        }
+        await revertImport(batch);
+        return res.json(toApiBatch(batch));
+    } catch (error) {
+        return handleError(res, error, 'Failed to undo the import');
+    }
+});
+
+export default router;
@@ -3,15 +3,20 @@ import { requireAuth } from '../middleware/auth-jwt.js';
 import { sendInvoiceEmail } from '../utils/mailer.js';
 import { logActivity } from '../middleware/activityLogger.js';
 import logger from '../utils/logger.js';
+import { publishChange } from '../services/changeFeed.js';
 import {
   createDocument,
   getDocumentById,
   updateDocument,
-  deleteDocument,
-  queryDocuments,
-  MODELS,
   COLLECTIONS
 } from '../services/mongodb.js';
+import { INVOICE_STATUSES } from '../schemas/validation-schemas.js';
+import { findList, parseListQuery, ListQueryError, escapeRegex } from '../services/listQuery.js';
+import { moveToTrash } from '../services/trash.js';
+import { recordChange } from '../services/changeHistory.js';
+import { summarizeInvoices, withClientNames } from '../services/invoiceSummary.js';
+import Invoice from '../models/Invoice.js';
+import Client from '../models/Client.js';
 
 // Helper function to generate email content
 function generateInvoiceEmailContent(invoice, _client) {
@@ -35,15 +40,36 @@ function generateInvoiceEmailContent(invoice, _client) {
 const router = express.Router();
 router.use(requireAuth);
 
+const INVOICE_LIST_SPEC = {
+  sortFields: ['createdAt', 'dueDate', 'issueDate', 'total', 'invoiceNumber'],
+  enumFilters: { status: INVOICE_STATUSES },
+  idFilters: ['clientId', 'caseId'],
+  dateFields: ['issueDate', 'dueDate', 'createdAt'],
+  searchFields: ['invoiceNumber', 'notes'],
+};
+
 router.get('/', async (req, res) => {
   try {
-    const items = await queryDocuments(
-      MODELS.INVOICES,
-      [{ field: 'owner', operator: '==', value: req.user.userId }],
-      { field: 'createdAt', direction: 'desc' }
-    );
-    return res.json(items);
+    // ?q= also matches invoices billed to a client whose name matches
+    const q = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+    const extraSearch = [];
+    if (q) {
+      const clientIds = await Client.find(
+        { owner: req.user.userId, name: { $regex: escapeRegex(q.slice(0, 100)), $options: 'i' } },
+        { _id: 1 }
+      ).lean();
+      extraSearch.push({ clientId: { $in: clientIds.map(c => c._id) } });
+    }
+    const items = await findList(Invoice, parseListQuery(req.query, INVOICE_LIST_SPEC, req.user.userId, { extraSearch }));
+    // Each invoice comes with the name of its client (`clientName`)
+    if (Array.isArray(items)) {
+      return res.json(await withClientNames(req.user.userId, items));
+    }
+    return res.json({ ...items, items: await withClientNames(req.user.userId, items.items) });
   } catch (error) {
+    if (error instanceof ListQueryError) {
+      return res.status(error.status).json({ error: error.message });
+    }
     logger.error({ err: error }, 'Get invoices error');
     return res.status(500).json({
       error: 'Failed to fetch invoices',
@@ -55,6 +81,16 @@ router.get('/', async (req, res) => {
   }
 });
 
+// Totals over every invoice: how many, and the amounts billed, paid and awaiting payment
+router.get('/summary', async (req, res) => {
+  try {
+    return res.json(await summarizeInvoices(req.user.userId));
+  } catch (error) {
+    logger.error({ err: error }, 'Get invoice summary error');
+    return res.status(500).json({ error: 'Failed to fetch invoice summary' });
+  }
+});
+
 router.get('/:id', async (req, res) => {
   try {
     const item = await getDocumentById(COLLECTIONS.INVOICES, req.params.id);
@@ -91,6 +127,8 @@ router.post('/', async (req, res) => {
       }
     );
 
+    publishChange({ userId: req.user.userId, entity: 'invoice', action: 'created', entityId: created.id, data: created });
+
     return res.status(201).json(created);
   } catch (error) {
     logger.error({ err: error }, 'Create invoice error');
@@ -106,6 +144,11 @@ router.put('/:id', async (req, res) => {
 
     const updated = await updateDocument(COLLECTIONS.INVOICES, req.params.id, req.body);
 
+    await recordChange({
+      entityType: 'invoice', entityId: updated.id, owner: req.user.userId, actorId: req.user.userId,
+      before: original, after: updated, revertOf: req.body.revertOf
+    });
+
     // Get client info for activity log
     const client = updated.clientId ? await getDocumentById(COLLECTIONS.CLIENTS, updated.clientId) : null;
 
@@ -141,6 +184,8 @@ router.put('/:id', async (req, res) => {
       );
     }
 
+    publishChange({ userId: req.user.userId, entity: 'invoice', action: 'updated', entityId: updated.id, data: updated });
+
     return res.json(updated);
   } catch (error) {
     logger.error({ err: error }, 'Update invoice error');
@@ -154,7 +199,8 @@ router.delete('/:id', async (req, res) => {
     if (!item) { return res.status(404).json({ error: 'Not found' }); }
     if (item.owner?.toString() !== req.user.userId.toString()) { return res.status(403).json({ error: 'Forbidden' }); }
 
-    await deleteDocument(COLLECTIONS.INVOICES, req.params.id);
+    await moveToTrash('invoice', req.params.id, req.user.userId);
+    publishChange({ userId: req.user.userId, entity: 'invoice', action: 'deleted', entityId: req.params.id });
     return res.json({ ok: true });
   } catch (error) {
     logger.error({ err: error }, 'Delete invoice error');
@@ -0,0 +1,56 @@
+import express from 'express';
+import { requireAuth } from '../middleware/auth-jwt.js';
+import logger from '../utils/logger.js';
+import CaseNote from '../models/CaseNote.js';
+import Case from '../models/Case.js';
+import { escapeRegex } from '../services/listQuery.js';
+
+// Account-wide note lookups (per-case CRUD lives in caseNotes.js)
+const router = express.Router();
+
+router.use(requireAuth);
+
+const SEARCH_LIMIT = 10;
+const EXCERPT_LENGTH = 140;
+
+// Search note titles and content across the user's cases, most recently edited first
+router.get('/search', async (req, res) => {
+    try {
+        const q = typeof req.query.q === 'string' ? req.query.q.trim().slice(0, 100) : '';
+        if (q.length < 2) {
+            return res.json([]);
+        }
+
+        const cases = await Case.find({ owner: req.user.userId }, { caseNumber: 1 }).lean();
+        if (cases.length === 0) {
+            return res.json([]);
+        }
+        const caseNumbers = new Map(cases.map(c => [c._id.toString(), c.caseNumber]));
+
+        const pattern = { $regex: escapeRegex(q), $options: 'i' };
+        const notes = await CaseNote.find({
+            caseId: { $in: cases.map(c => c._id) },
+            isDeleted: false,
+            $or: [{ title: pattern }, { content: pattern }],
+        })
+            .select('caseId title content noteType updatedAt')
+            .sort({ updatedAt: -1 })
+            .limit(SEARCH_LIMIT)
+            .lean();
+
+        return res.json(notes.map(note => ({
+            id: note._id.toString(),
+            caseId: note.caseId.toString(),
+            caseNumber: caseNumbers.get(note.caseId.toString()) ?? '',
+            title: note.title ?? '',
+            excerpt: note.content.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim().slice(0, EXCERPT_LENGTH),
+            noteType: note.noteType,
+            updatedAt: note.updatedAt,
+        })));
+    } catch (error) {
+        logger.error({ err: error }, 'Search notes error');
+        return res.status(500).json({ error: 'Failed to search notes' });
+    }
+});
+
+export default router;
@@ -0,0 +1,69 @@
+import express from 'express';
+import { requireAuth } from '../middleware/auth-jwt.js';
+import logger from '../utils/logger.js';
+import { publishChange } from '../services/changeFeed.js';
+import {
+    TRASH_RETENTION_DAYS,
+    TrashError,
+    listTrash,
+    restoreFromTrash,
+    purgeFromTrash,
+} from '../services/trash.js';
+
+// Trashed cases, clients, invoices and documents (moving to the Trash happens in each entity's DELETE route)
+const router = express.Router();
+
+router.use(requireAuth);
+
+function handleTrashError(res, error, message) {
+    if (error instanceof TrashError) {
+        return res.status(error.status).json({ error: error.message });
+    }
+    logger.error({ err: error }, message);
+    return res.status(500).json({ error: message });
+}
+
+router.get('/', async (req, res) => {
+    try {
+        const type = typeof req.query.type === 'string' && req.query.type ? req.query.type : null;
+        const items = await listTrash(req.user.userId, type);
+        return res.json({ retentionDays: TRASH_RETENTION_DAYS, items });
+    } catch (error) {
+        return handleTrashError(res, error, 'Failed to load trash');
+    }
+});
+
+router.post('/:type/:id/restore', async (req, res) => {
+    try {
+        const { type, id } = req.params;
+        const doc = await restoreFromTrash(type, id, req.user.userId);
+        if (!doc) {
+            return res.status(404).json({ error: 'Not found in trash' });
+        }
+
+        if (type === 'case' || type === 'invoice') {
+            const { _id, ...rest } = doc;
+            publishChange({ userId: req.user.userId, entity: type, action: 'created', entityId: id, data: { id: _id.toString(), ...rest } });
+        }
+
+        return res.json({ ok: true });
+    } catch (error) {
+        return handleTrashError(res, error, 'Failed to restore item');
+    }
+});
+
+// Permanently delete one item ahead of the retention window
+router.delete('/:type/:id', async (req, res) => {
+    try {
+        const { type, id } = req.params;
+        const purged = await purgeFromTrash(type, id, req.user.userId);
+        if (!purged) {
+            return res.status(404).json({ error: 'Not found in trash' });
+        }
+        return res.json({ ok: true });
+    } catch (error) {
+        return handleTrashError(res, error, 'Failed to delete item');
+    }
+});
+
+export default router;
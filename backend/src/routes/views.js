@@ -0,0 +1,88 @@
+import express from 'express';
+import mongoose from 'mongoose';
+import { requireAuth } from '../middleware/auth-jwt.js';
+import logger from '../utils/logger.js';
+import SavedView from '../models/SavedView.js';
+import {
+    SavedViewError,
+    checkPage,
+    listViews,
+    normalizeViewInput,
+    toApiView,
+} from '../services/savedViews.js';
+
+// Saved list views for the Cases, Calendar and Documents pages
+const router = express.Router();
+
+router.use(requireAuth);
+
+function handleError(res, error, message) {
+    if (error instanceof SavedViewError) {
+        return res.status(error.status).json({ error: error.message });
+    }
+    if (error?.code === 11000) {
+        return res.status(409).json({ error: 'You already have a view with that name' });
+    }
+    logger.error({ err: error }, message);
+    return res.status(500).json({ error: message });
+}
+
+/** A view the user saved; views shared by colleagues can be used but not changed. */
+async function loadOwnView(req, res) {
+    if (!mongoose.isValidObjectId(req.params.id)) {
+        res.status(404).json({ error: 'View not found' });
+        return null;
+    }
+    const view = await SavedView.findOne({ _id: req.params.id, owner: req.user.userId });
+    if (!view) {
+        res.status(404).json({ error: 'View not found' });
+    }
+    return view;
+}
+
+router.get('/', async (req, res) => {
+    try {
+        return res.json(await listViews(req.user.userId, req.query.page));
+    } catch (error) {
+        return handleError(res, error, 'Failed to load saved views');
+    }
+});
+
+router.post('/', async (req, res) => {
+    try {
+        const page = checkPage(req.body?.page);
+        const view = await SavedView.create({ ...normalizeViewInput(req.body), page, owner: req.user.userId });
+        return res.status(201).json(toApiView(view.toObject(), req.user.userId));
+    } catch (error) {
+        return handleError(res, error, 'Failed to save view');
+    }
+});
+
+router.put('/:id', async (req, res) => {
+    try {
+        const view = await loadOwnView(req, res);
+        if (!view) {
+            return undefined;
+        }
+        view.set(normalizeViewInput(req.body, { partial: true }));
+        await view.save();
+        return res.json(toApiView(view.toObject(), req.user.userId));
+    } catch (error) {
+        return handleError(res, error, 'Failed to update view');
+    }
+});
+
+router.delete('/:id', async (req, res) => {
+    try {
+        const view = await loadOwnView(req, res);
+        if (!view) {
+            return undefined;
+        }
+        await view.deleteOne();
+        return res.json({ success: true });
+    } catch (error) {
+        return handleError(res, error, 'Failed to delete view');
+    }
+});
+
+export default router;
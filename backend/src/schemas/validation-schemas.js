@@ -3,6 +3,8 @@
  * Centralized validation logic for consistency across endpoints
  */
 
+import mongoose from 'mongoose';
+
 // Case number format: CASE-YYYY-NNNNN (e.g., CASE-2024-00001)
 const CASE_NUMBER_REGEX = /^CASE-\d{4}-\d{5}$/;
 
@@ -27,6 +29,30 @@ const HEARING_TYPES = [
     'Other'
 ];
 
+// Status/type enums shared by the Mongoose models and the frontend API client
+// (frontend/src/services/api/schemas.ts mirrors these; see apiContract.test.js)
+const CASE_STATUSES = ['active', 'pending', 'closed', 'won', 'lost'];
+const CASE_PRIORITIES = ['low', 'medium', 'high', 'urgent'];
+const HEARING_STATUSES = ['scheduled', 'completed', 'adjourned', 'cancelled'];
+const INVOICE_STATUSES = ['draft', 'sent', 'paid', 'overdue'];
+const ALERT_TYPES = ['hearing', 'deadline', 'payment', 'document'];
+const DEADLINE_STATUSES = ['open', 'done'];
+const CASE_LINK_TYPES = ['appeal_of', 'revision_of', 'transferred_from', 'connected_with', 'cross_fir'];
+const BULK_ACTIONS = ['status', 'priority', 'reassign', 'tags', 'move_documents', 'trash'];
+const IMPORT_ENTITIES = ['case', 'client', 'hearing'];
+const IMPORT_STATUSES = ['draft', 'applied', 'reverted'];
+const TIMELINE_EVENT_TYPES = ['hearing', 'order', 'note', 'document', 'invoice', 'payment', 'time'];
+const COURT_LEVELS = ['supreme', 'high', 'district', 'tribunal', 'other'];
+const SAVED_VIEW_PAGES = ['cases', 'calendar', 'documents'];
+const CLOSURE_OUTCOMES = ['won', 'lost', 'settled', 'withdrawn', 'dismissed', 'disposed'];
+const CALENDAR_IMPORT_ACTIONS = ['hearing', 'event', 'skip'];
+const NOTE_TYPES = ['general', 'hearing', 'evidence', 'strategy', 'internal'];
+const NOTE_ATTACHMENT_TYPES = ['image', 'video', 'document', 'audio'];
+const TEMPLATE_DOCUMENT_STATUSES = ['draft', 'completed'];
+const CUSTOM_FIELD_TYPES = ['text', 'number', 'date', 'select', 'multiselect', 'party'];
+const PARTY_ROLES = ['petitioner', 'respondent', 'intervenor', 'impleaded'];
+const PARTY_TYPES = ['individual', 'organisation'];
+
 /**
  * Validate case number format
  * @param {string} caseNumber - Case number to validate
@@ -92,6 +118,35 @@ function validateHearingType(hearingType) {
     return { valid: true };
 }
 
+/**
+ * Validate the parties of a case
+ * @param {Array} parties - Party entries ({ role, partyType, name, clientId, counsel })
+ * @returns {object} { valid: boolean, error?: string }
+ */
+function validateParties(parties) {
+    if (!Array.isArray(parties)) {
+        return { valid: false, error: 'Parties must be a list' };
+    }
+
+    for (const [index, party] of parties.entries()) {
+        const position = `Party ${index + 1}`;
+        if (!party || typeof party.name !== 'string' || !party.name.trim()) {
+            return { valid: false, error: `${position} needs a name` };
+        }
+        if (!PARTY_ROLES.includes(party.role)) {
+            return { valid: false, error: `${position} role must be one of: ${PARTY_ROLES.join(', ')}` };
+        }
+        if (party.partyType !== undefined && !PARTY_TYPES.includes(party.partyType)) {
+            return { valid: false, error: `${position} type must be one of: ${PARTY_TYPES.join(', ')}` };
+        }
+        if (party.clientId !== undefined && party.clientId !== null && !mongoose.isValidObjectId(party.clientId)) {
+            return { valid: false, error: `${position} is linked to an invalid client` };
+        }
+    }
+
+    return { valid: true };
+}
+
 /**
  * Validate PAN number
  * @param {string} pan - PAN number to validate
@@ -197,11 +252,33 @@ export {
 
     // Enums
     HEARING_TYPES,
+    CASE_STATUSES,
+    CASE_PRIORITIES,
+    HEARING_STATUSES,
+    INVOICE_STATUSES,
+    ALERT_TYPES,
+    DEADLINE_STATUSES,
+    CASE_LINK_TYPES,
+    BULK_ACTIONS,
+    IMPORT_ENTITIES,
+    IMPORT_STATUSES,
+    TIMELINE_EVENT_TYPES,
+    COURT_LEVELS,
+    SAVED_VIEW_PAGES,
+    CLOSURE_OUTCOMES,
+    CALENDAR_IMPORT_ACTIONS,
+    NOTE_TYPES,
+    NOTE_ATTACHMENT_TYPES,
+    TEMPLATE_DOCUMENT_STATUSES,
+    CUSTOM_FIELD_TYPES,
+    PARTY_ROLES,
+    PARTY_TYPES,
 
     // Validation functions
     validateCaseNumber,
     validateMobileNumber,
     validateHearingType,
+    validateParties,
     validatePAN,
     validateAadhar,
     validateEmail,
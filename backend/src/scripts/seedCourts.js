@@ -0,0 +1,103 @@
+/* eslint-disable no-console */
+import dotenv from 'dotenv';
+import mongoose from 'mongoose';
+import { connect } from '../config/db.js';
+import Court from '../models/Court.js';
+
+dotenv.config();
+
+// The shared court directory: the Supreme Court and the High Courts with their
+// permanent benches. Firms add district courts, tribunals and judges themselves.
+// Entries are upserted by name and bench, so re-running keeps their ids (and the
+// cases linked to them) and picks up corrections.
+const HIGH_COURTS = [
+  { name: 'Allahabad High Court', city: 'Prayagraj', state: 'Uttar Pradesh', benches: [{ bench: 'Lucknow Bench', city: 'Lucknow' }] },
+  { name: 'Andhra Pradesh High Court', city: 'Amaravati', state: 'Andhra Pradesh' },
+  {
+    name: 'Bombay High Court', city: 'Mumbai', state: 'Maharashtra',
+    benches: [
+      { bench: 'Nagpur Bench', city: 'Nagpur' },
+      { bench: 'Aurangabad Bench', city: 'Aurangabad' },
+      { bench: 'Goa Bench', city: 'Panaji', state: 'Goa' },
+    ],
+  },
+  {
+    name: 'Calcutta High Court', city: 'Kolkata', state: 'West Bengal',
+    benches: [
+      { bench: 'Circuit Bench at Port Blair', city: 'Port Blair', state: 'Andaman and Nicobar Islands' },
+      { bench: 'Circuit Bench at Jalpaiguri', city: 'Jalpaiguri' },
+    ],
+  },
+  { name: 'Chhattisgarh High Court', city: 'Bilaspur', state: 'Chhattisgarh' },
+  { name: 'Delhi High Court', city: 'New Delhi', state: 'Delhi' },
+  {
+    name: 'Gauhati High Court', city: 'Guwahati', state: 'Assam', aliases: ['Guwahati High Court'],
+    benches: [
+      { bench: 'Kohima Bench', city: 'Kohima', state: 'Nagaland' },
+      { bench: 'Aizawl Bench', city: 'Aizawl', state: 'Mizoram' },
+      { bench: 'Itanagar Bench', city: 'Itanagar', state: 'Arunachal Pradesh' },
+    ],
+  },
+  { name: 'Gujarat High Court', city: 'Ahmedabad', state: 'Gujarat' },
+  { name: 'Himachal Pradesh High Court', city: 'Shimla', state: 'Himachal Pradesh' },
+  {
+    name: 'High Court of Jammu & Kashmir and Ladakh', city: 'Srinagar', state: 'Jammu and Kashmir',
+    aliases: ['Jammu and Kashmir High Court', 'J&K High Court'],
+    benches: [{ bench: 'Jammu Wing', city: 'Jammu' }],
+  },
+  { name: 'Jharkhand High Court', city: 'Ranchi', state: 'Jharkhand' },
+  {
+    name: 'Karnataka High Court', city: 'Bengaluru', state: 'Karnataka',
+    benches: [{ bench: 'Dharwad Bench', city: 'Dharwad' }, { bench: 'Kalaburagi Bench', city: 'Kalaburagi' }],
+  },
+  { name: 'Kerala High Court', city: 'Kochi', state: 'Kerala' },
+  {
+    name: 'Madhya Pradesh High Court', city: 'Jabalpur', state: 'Madhya Pradesh',
+    benches: [{ bench: 'Indore Bench', city: 'Indore' }, { bench: 'Gwalior Bench', city: 'Gwalior' }],
+  },
+  { name: 'Madras High Court', city: 'Chennai', state: 'Tamil Nadu', benches: [{ bench: 'Madurai Bench', city: 'Madurai' }] },
+  { name: 'Manipur High Court', city: 'Imphal', state: 'Manipur' },
+  { name: 'Meghalaya High Court', city: 'Shillong', state: 'Meghalaya' },
+  { name: 'Orissa High Court', city: 'Cuttack', state: 'Odisha', aliases: ['Odisha High Court'] },
+  { name: 'Patna High Court', city: 'Patna', state: 'Bihar' },
+  { name: 'Punjab and Haryana High Court', city: 'Chandigarh', state: 'Chandigarh', aliases: ['P&H High Court'] },
+  { name: 'Rajasthan High Court', city: 'Jodhpur', state: 'Rajasthan', benches: [{ bench: 'Jaipur Bench', city: 'Jaipur' }] },
+  { name: 'Sikkim High Court', city: 'Gangtok', state: 'Sikkim' },
+  { name: 'Telangana High Court', city: 'Hyderabad', state: 'Telangana' },
+  { name: 'Tripura High Court', city: 'Agartala', state: 'Tripura' },
+  { name: 'Uttarakhand High Court', city: 'Nainital', state: 'Uttarakhand' },
+];
+
+function directoryEntries() {
+  const entries = [{
+    name: 'Supreme Court of India', level: 'supreme', city: 'New Delhi', state: 'Delhi', aliases: ['SC', 'Supreme Court'],
+  }];
+  HIGH_COURTS.forEach(({ benches = [], aliases = [], ...court }) => {
+    // "Delhi High Court" is also written "High Court of Delhi"
+    const place = court.name.replace(/ High Court$/, '');
+    const allAliases = court.name.endsWith(' High Court') ? [`High Court of ${place}`, ...aliases] : aliases;
+    entries.push({ ...court, level: 'high', aliases: allAliases });
+    benches.forEach(bench => entries.push({ ...court, ...bench, level: 'high', aliases: allAliases }));
+  });
+  return entries;
+}
+
+async function run() {
+  await connect();
+
+  const entries = directoryEntries();
+  const result = await Court.bulkWrite(entries.map(entry => ({
+    updateOne: {
+      filter: { owner: null, name: entry.name, bench: entry.bench ?? null },
+      update: { $set: entry },
+      upsert: true,
+    },
+  })));
+  console.log(`Court directory: ${result.upsertedCount} added, ${result.modifiedCount} updated, ${entries.length} entries.`);
+  await mongoose.disconnect();
+}
+
+run().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,279 @@
+import mongoose from 'mongoose';
+import Case from '../models/Case.js';
+import Client from '../models/Client.js';
+import Invoice from '../models/Invoice.js';
+import Document from '../models/Document.js';
+import Folder from '../models/Folder.js';
+import { BULK_ACTIONS, CASE_PRIORITIES, CASE_STATUSES, INVOICE_STATUSES } from '../schemas/validation-schemas.js';
+import { recordChange } from './changeHistory.js';
+import { CHANGE_ENTITIES, publishChange } from './changeFeed.js';
+import { moveToTrash } from './trash.js';
+import { ARCHIVED_CASE_MESSAGE, isArchived } from './caseClosure.js';
+import logger from '../utils/logger.js';
+import { supportsTransactions } from '../utils/transactions.js';
+
+/**
+ * Bulk actions on a selection of cases, clients or invoices.
+ *
+ * A request is validated as a whole first (unknown action, bad value, missing
+ * client or folder fail it outright). Each selected record then gets its own
+ * result: records that are missing or not the user's are reported and
+ * skipped, the rest are written together in one transaction when the MongoDB
+ * deployment supports it (a replica set). History and change events go out
+ * only after the writes are committed.
+ */
+
+export const MAX_BULK_ITEMS = 200;
+const MAX_TAGS = 20;
+const MAX_TAG_LENGTH = 40;
+
+const BULK_TYPES = {
+    case: { model: Case, actions: ['status', 'priority', 'reassign', 'tags', 'move_documents', 'trash'], statuses: CASE_STATUSES },
+    client: { model: Client, actions: ['tags', 'trash'] },
+    invoice: { model: Invoice, actions: ['status', 'reassign', 'tags', 'trash'], statuses: INVOICE_STATUSES },
+};
+
+export class BulkActionError extends Error {
+    constructor(message, status = 400) {
+        super(message);
+        this.name = 'BulkActionError';
+        this.status = status;
+    }
+}
+
+/**
+ * Trim, drop blanks and de-duplicate tags, case-insensitively, keeping the first spelling.
+ * @throws {BulkActionError}
+ */
+export function normalizeTags(input) {
+    if (!Array.isArray(input)) {
+        throw new BulkActionError('Tags must be a list');
+    }
+    const seen = new Set();
+    const tags = [];
+    for (const raw of input) {
+        const tag = typeof raw === 'string' ? raw.trim().replace(/\s+/g, ' ') : '';
+        if (!tag || seen.has(tag.toLowerCase())) {
+            continue;
+        }
+        if (tag.length > MAX_TAG_LENGTH) {
+            throw new BulkActionError(`Tags must be at most ${MAX_TAG_LENGTH} characters`);
+        }
+        seen.add(tag.toLowerCase());
+        tags.push(tag);
+    }
+    return tags;
+}
+
+/** A record's tags with `added` appended, skipping ones it already has in any case. */
+export function mergeTags(existing = [], added = []) {
+    const merged = normalizeTags([...existing, ...added]);
+    if (merged.length > MAX_TAGS) {
+        throw new BulkActionError(`A record can have at most ${MAX_TAGS} tags`);
+    }
+    return merged;
+}
+
+/**
+ * Validate a bulk request for a record type.
+ * @returns {{ action: string, ids: string[], value: * }}
+ * @throws {BulkActionError}
+ */
+export function normalizeBulkRequest(type, { action, ids, value } = {}) {
+    const config = BULK_TYPES[type];
+    if (!config) {
+        throw new BulkActionError('Bulk actions are not available for this record type', 404);
+    }
+    if (!BULK_ACTIONS.includes(action) || !config.actions.includes(action)) {
+        throw new BulkActionError(`Action must be one of: ${config.actions.join(', ')}`);
+    }
+    if (!Array.isArray(ids) || ids.length === 0) {
+        throw new BulkActionError('Select at least one record');
+    }
+    const unique = [...new Set(ids.map(String))];
+    if (unique.length > MAX_BULK_ITEMS) {
+        throw new BulkActionError(`At most ${MAX_BULK_ITEMS} records can be changed at once`);
+    }
+
+    switch (action) {
+        case 'status':
+            if (!config.statuses.includes(value)) {
+                throw new BulkActionError(`Status must be one of: ${config.statuses.join(', ')}`);
+            }
+            return { action, ids: unique, value };
+        case 'priority':
+            if (!CASE_PRIORITIES.includes(value)) {
+                throw new BulkActionError(`Priority must be one of: ${CASE_PRIORITIES.join(', ')}`);
+            }
+            return { action, ids: unique, value };
+        case 'reassign':
+            if (!mongoose.isValidObjectId(value)) {
+                throw new BulkActionError('Choose a client to reassign to');
+            }
+            return { action, ids: unique, value: String(value) };
+        case 'tags': {
+            const tags = normalizeTags(value);
+            if (tags.length === 0) {
+                throw new BulkActionError('Enter at least one tag');
+            }
+            return { action, ids: unique, value: tags };
+        }
+        case 'move_documents':
+            // null moves the documents back to the top level
+            if (value !== null && !mongoose.isValidObjectId(value)) {
+                throw new BulkActionError('Choose a folder');
+            }
+            return { action, ids: unique, value: value === null ? null : String(value) };
+        default:
+            return { action, ids: unique, value: null };
+    }
+}
+
+/** Look up what the action points at (the new client, the target folder) before writing anything. */
+async function resolveTarget(type, action, value, owner) {
+    if (action === 'reassign') {
+        const client = await Client.findOne({ _id: value, owner }).select('name').lean();
+        if (!client) {
+            throw new BulkActionError('Client not found', 404);
+        }
+        return client;
+    }
+    if (action === 'move_documents' && value) {
+        const folder = await Folder.findOne({ _id: value, ownerId: owner }).select('_id').lean();
+        if (!folder) {
+            throw new BulkActionError('Folder not found', 404);
+        }
+        return folder;
+    }
+    return null;
+}
+
+function fieldUpdate(type, action, value, target, before) {
+    switch (action) {
+        case 'status':
+            // Marking paid stamps the payment date the dashboard revenue uses
+            return type === 'invoice' && value === 'paid' && before.status !== 'paid'
+                ? { status: value, paidAt: new Date() }
+                : { status: value };
+        case 'priority':
+            return { priority: value };
+        case 'reassign':
+            return type === 'case' ? { clientName: target.name } : { clientId: target._id };
+        case 'tags':
+            return { tags: mergeTags(before.tags, value) };
+        default:
+            return {};
+    }
+}
+
+async function applyToRecord({ type, action, value, target, owner, id, session }) {
+    const { model } = BULK_TYPES[type];
+    if (!mongoose.isValidObjectId(id)) {
+        return { result: { id, ok: false, error: 'Not found' } };
+    }
+
+    if (action === 'trash') {
+        const trashed = await moveToTrash(type, id, owner, { session });
+        return trashed
+            ? { result: { id, ok: true } }
+            : { result: { id, ok: false, error: 'Not found' } };
+    }
+
+    const before = await model.findOne({ _id: id, owner }).session(session).lean();
+    if (!before) {
+        return { result: { id, ok: false, error: 'Not found' } };
+    }
+    if (type === 'case' && isArchived(before)) {
+        return { result: { id, ok: false, error: ARCHIVED_CASE_MESSAGE } };
+    }
+
+    if (action === 'move_documents') {
+        const update = value ? { $set: { folderId: value } } : { $unset: { folderId: '' } };
+        const { modifiedCount } = await Document.updateMany({ ownerId: owner, caseId: id }, update, { session });
+        return { result: { id, ok: true, detail: `${modifiedCount} document${modifiedCount === 1 ? '' : 's'} moved` } };
+    }
+
+    let update;
+    try {
+        update = fieldUpdate(type, action, value, target, before);
+    } catch (error) {
+        if (error instanceof BulkActionError) {
+            return { result: { id, ok: false, error: error.message } };
+        }
+        throw error;
+    }
+    const after = await model.findOneAndUpdate({ _id: id, owner }, { $set: update }, { new: true, session }).lean();
+    return { result: { id, ok: true }, before, after };
+}
+
+const toApiRecord = (doc) => ({ id: doc._id.toString(), ...doc, _id: undefined });
+
+/**
+ * Apply a validated bulk request to the user's records.
+ * @returns {Promise<{ results: Array<{ id: string, ok: boolean, error?: string, detail?: string }>, succeeded: number, failed: number }>}
+ * @throws {BulkActionError} when the request's client or folder does not exist
+ */
+export async function runBulkAction({ type, action, ids, value, owner }) {
+    const target = await resolveTarget(type, action, value, owner);
+
+    const useTransaction = await supportsTransactions();
+    const session = await mongoose.startSession();
+    if (useTransaction) {
+        session.startTransaction();
+    }
+
+    const results = [];
+    const changed = [];
+    try {
+        for (const id of ids) {
+            try {
+                const outcome = await applyToRecord({
+                    type, action, value, target, owner, id, session: useTransaction ? session : null,
+                });
+                results.push(outcome.result);
+                if (outcome.after) {
+                    changed.push(outcome);
+                }
+            } catch (error) {
+                // Inside a transaction one failed write aborts the batch; without one, report it and carry on
+                if (useTransaction) {
+                    throw error;
+                }
+                logger.error({ err: error, type, action, id }, 'Bulk action failed for record');
+                results.push({ id, ok: false, error: 'Update failed' });
+            }
+        }
+        if (useTransaction) {
+            await session.commitTransaction();
+        }
+    } catch (error) {
+        if (useTransaction && session.inTransaction()) {
+            await session.abortTransaction();
+        }
+        throw error;
+    } finally {
+        session.endSession();
+    }
+
+    for (const { before, after } of changed) {
+        await recordChange({
+            entityType: type, entityId: after._id, owner, actorId: owner,
+            before: toApiRecord(before), after: toApiRecord(after),
+        });
+    }
+    if (CHANGE_ENTITIES.includes(type)) {
+        const updated = new Map(changed.map(({ after }) => [String(after._id), after]));
+        results.filter(r => r.ok && action !== 'move_documents').forEach(({ id }) => {
+            publishChange({
+                userId: owner,
+                entity: type,
+                action: action === 'trash' ? 'deleted' : 'updated',
+                entityId: id,
+                data: updated.has(id) ? toApiRecord(updated.get(id)) : undefined,
+            });
+        });
+    }
+
+    const succeeded = results.filter(r => r.ok).length;
+    return { results, succeeded, failed: results.length - succeeded };
+}
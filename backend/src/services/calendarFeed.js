@@ -0,0 +1,194 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import Case from '../models/Case.js';
+import Hearing from '../models/Hearing.js';
+import { computeHearingTimes } from '../utils/conflictDetection.js';
+import { formatDateOnly, parseDateOnly } from './deadlines.js';
+import { escapeRegex } from './listQuery.js';
+
+/**
+ * Hearings and open deadlines as calendar events, for the private feed a
+ * user subscribes to from their phone and for one-off .ics downloads.
+ *
+ * The feed URL carries a random token; only its SHA-256 hash is stored on the
+ * user, so the URL is shown once when generated and a leaked one is dealt
+ * with by regenerating (which revokes the old URL) or revoking it. Filters
+ * for a case or a court are plain query parameters on the URL.
+ */
+
+const TOKEN_BYTES = 24;
+export const FEED_TOKEN_PATTERN = /^[A-Za-z0-9_-]{32}$/;
+// The feed starts a month back, so the hearings just gone stay visible
+const FEED_PAST_DAYS = 30;
+const MAX_EXPORT_DAYS = 366;
+const MAX_COURT_LENGTH = 200;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class CalendarFeedError extends Error {
+    constructor(message, status = 400) {
+        super(message);
+        this.name = 'CalendarFeedError';
+        this.status = status;
+    }
+}
+
+export const hashFeedToken = (token) => crypto.createHash('sha256').update(token).digest('hex');
+
+/** A new feed token and the hash to store for it. */
+export function createFeedToken() {
+    const token = crypto.randomBytes(TOKEN_BYTES).toString('base64url');
+    return { token, tokenHash: hashFeedToken(token) };
+}
+
+/**
+ * `?caseId=` and `?court=` of a feed or download.
+ * @throws {CalendarFeedError} when the case id is malformed or the court name too long
+ */
+export function normalizeFeedFilters(query = {}) {
+    const caseId = typeof query.caseId === 'string' && query.caseId ? query.caseId : null;
+    if (caseId && !mongoose.isValidObjectId(caseId)) {
+        throw new CalendarFeedError('Unknown case');
+    }
+    const court = typeof query.court === 'string' ? query.court.trim() : '';
+    if (court.length > MAX_COURT_LENGTH) {
+        throw new CalendarFeedError(`Court name must be at most ${MAX_COURT_LENGTH} characters`);
+    }
+    return { caseId, court: court || null };
+}
+
+/**
+ * `?from=&to=` (YYYY-MM-DD, inclusive) of a download, as [from, end of `to`).
+ * @throws {CalendarFeedError} when either date is missing or invalid, or the range is over a year
+ */
+export function normalizeExportRange(query = {}) {
+    let from;
+    let to;
+    try {
+        from = parseDateOnly(query.from, 'From date');
+        to = parseDateOnly(query.to, 'To date');
+    } catch (error) {
+        throw new CalendarFeedError(error.message);
+    }
+    if (to < from) {
+        throw new CalendarFeedError('The range ends before it starts');
+    }
+    if ((to - from) / DAY_MS >= MAX_EXPORT_DAYS) {
+        throw new CalendarFeedError(`Export at most ${MAX_EXPORT_DAYS} days at a time`);
+    }
+    return { from, to: new Date(to.getTime() + DAY_MS) };
+}
+
+const humanize = (value) => String(value || '').replace(/_/g, ' ').replace(/^./, c => c.toUpperCase());
+
+const hearingTitle = (hearing) =>
+    hearing.purpose || (hearing.hearingType === 'other' && hearing.customHearingType) || humanize(hearing.hearingType) || 'Hearing';
+
+/** A hearing as an event: timed when it has a time, otherwise all day. */
+export function hearingEvent(hearing, caseDoc) {
+    const caseNumber = caseDoc?.caseNumber ?? 'Case';
+    const parties = caseDoc
+        ? [caseDoc.clientName, caseDoc.opposingParty].filter(Boolean).join(' v. ')
+        : '';
+    const documents = (hearing.documentsToBring || []).filter(Boolean);
+    const description = [
+        parties && `${caseNumber} — ${parties}`,
+        hearing.courtName && `Court: ${hearing.courtName}`,
+        hearing.judgeName && `Judge: ${hearing.judgeName}`,
+        hearing.purpose && `Purpose: ${hearing.purpose}`,
+        documents.length > 0 && `Documents to bring:\n${documents.map(doc => `- ${doc}`).join('\n')}`,
+        hearing.courtInstructions && `Directions: ${hearing.courtInstructions}`,
+    ].filter(Boolean).join('\n');
+
+    const event = {
+        uid: `hearing-${hearing._id}@juriq`,
+        summary: `${caseNumber} — ${hearingTitle(hearing)}`,
+        location: hearing.courtName,
+        description,
+        categories: ['Hearing'],
+        lastModified: hearing.updatedAt,
+    };
+    if (!hearing.hearingTime) {
+        return { ...event, allDay: true, start: hearing.hearingDate };
+    }
+    const times = hearing.startAt
+        ? { startAt: hearing.startAt, endAt: hearing.endAt }
+        : computeHearingTimes(hearing.hearingDate, hearing.hearingTime, hearing.timezone || 'Asia/Kolkata', hearing.duration || 60);
+    return { ...event, start: times.startAt, end: times.endAt ?? times.startAt };
+}
+
+/** An open deadline as an all-day event on its due date, with its reminders as alarms. */
+export function deadlineEvent(deadline, caseDoc) {
+    const description = [
+        `${caseDoc.caseNumber}${caseDoc.clientName ? ` — ${caseDoc.clientName}` : ''}`,
+        [deadline.act, deadline.provision].filter(Boolean).join(', '),
+        `Counted from ${formatDateOnly(deadline.triggerDate)}`,
+        deadline.graceUntil && `Grace until ${formatDateOnly(deadline.graceUntil)}`,
+        deadline.notes,
+    ].filter(Boolean).join('\n');
+
+    return {
+        uid: `deadline-${deadline._id}@juriq`,
+        allDay: true,
+        start: deadline.dueDate,
+        summary: `Due: ${deadline.title} — ${caseDoc.caseNumber}`,
+        description,
+        categories: ['Deadline'],
+        lastModified: deadline.updatedAt,
+        alarms: deadline.reminderDays ?? [],
+    };
+}
+
+const courtMatch = (court) => ({ $regex: `^${escapeRegex(court)}$`, $options: 'i' });
+
+/**
+ * Events for a user's hearings (cancelled ones left out) and open deadlines.
+ * @param {object} options
+ * @param {Date} options.from start of the window
+ * @param {Date} [options.to] end of the window (exclusive); open-ended when omitted
+ * @param {string} [options.caseId] only this case
+ * @param {string} [options.court] only hearings in, and deadlines of cases before, this court
+ * @param {string} [options.hearingId] just this hearing, and no deadlines
+ */
+export async function calendarEvents(owner, { from, to, caseId, court, hearingId } = {}) {
+    const range = { $gte: from, ...(to && { $lt: to }) };
+
+    const hearingFilter = hearingId
+        ? { _id: hearingId, owner }
+        : {
+            owner,
+            status: { $ne: 'cancelled' },
+            hearingDate: range,
+            ...(caseId && { caseId }),
+            ...(court && { courtName: courtMatch(court) }),
+        };
+    const hearings = await Hearing.find(hearingFilter).sort({ hearingDate: 1 }).lean();
+    if (hearingId && hearings.length === 0) {
+        throw new CalendarFeedError('Hearing not found', 404);
+    }
+
+    const deadlineCases = hearingId
+        ? []
+        : await Case.find({
+            owner,
+            ...(caseId && { _id: caseId }),
+            ...(court && { courtName: courtMatch(court) }),
+            deadlines: { $elemMatch: { status: 'open', dueDate: range } },
+        }).select('caseNumber clientName deadlines').lean();
+
+    const caseIds = [...new Set(hearings.map(hearing => String(hearing.caseId)))];
+    const cases = await Case.find({ _id: { $in: caseIds }, owner })
+        .select('caseNumber clientName opposingParty')
+        .lean();
+    const caseById = new Map(cases.map(caseDoc => [String(caseDoc._id), caseDoc]));
+
+    const inRange = (date) => date >= from && (!to || date < to);
+    return [
+        ...hearings.map(hearing => hearingEvent(hearing, caseById.get(String(hearing.caseId)))),
+        ...deadlineCases.flatMap(caseDoc => caseDoc.deadlines
+            .filter(deadline => deadline.status === 'open' && inRange(deadline.dueDate))
+            .map(deadline => deadlineEvent(deadline, caseDoc))),
+    ];
+}
+
+/** The window of the subscribed feed: a month back, and everything ahead. */
+export const feedWindow = (now = new Date()) => ({ from: new Date(now.getTime() - FEED_PAST_DAYS * DAY_MS) });
@@ -0,0 +1,380 @@
+import mongoose from 'mongoose';
+import Case from '../models/Case.js';
+import CalendarEvent from '../models/CalendarEvent.js';
+import Hearing from '../models/Hearing.js';
+import { logActivity } from '../middleware/activityLogger.js';
+import { CALENDAR_IMPORT_ACTIONS } from '../schemas/validation-schemas.js';
+import { parseCaseNumber } from '../utils/caseNumber.js';
+import { checkHearingConflicts, hasBlockingConflict } from '../utils/conflictDetection.js';
+import { normalizeExportRange } from './calendarFeed.js';
+import { isArchived } from './caseClosure.js';
+import { refreshNextHearing } from './dataImport.js';
+import { formatDateOnly, parseDateOnly } from './deadlines.js';
+import { parseCalendar, wallClock } from './icalendar.js';
+import { escapeRegex } from './listQuery.js';
+
+/**
+ * Import of hearings and appointments from .ics files, as exported by
+ * Outlook, Google Calendar or a court's cause-list service.
+ *
+ * Every event in the chosen date range (every occurrence, for a recurring
+ * one) is matched to a case by a case number in its summary or description,
+ * failing that by a party's name; several cases with the same number are told
+ * apart by the event's location. The preview lists the matches with any
+ * hearing the case already has that day and any scheduling conflict. Applying
+ * turns the events the user chose into hearings, through the same conflict
+ * check as scheduling one by hand, or into standalone calendar events.
+ * Nothing is kept between the two steps: the file is sent and parsed again.
+ *
+ * Hearings are kept on Indian Standard Time like the rest of the app, so an
+ * event from another zone lands on its IST date and time.
+ */
+
+const HEARING_TIMEZONE = 'Asia/Kolkata';
+const DEFAULT_DURATION = 60;
+const MIN_PARTY_LENGTH = 4;
+// A number recognised as neither a CNR nor a court number must be this long to be looked for
+const MIN_OTHER_NUMBER_LENGTH = 5;
+const MAX_CANDIDATES = 5;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class CalendarImportError extends Error {
+    constructor(message, status = 400) {
+        super(message);
+        this.name = 'CalendarImportError';
+        this.status = status;
+    }
+}
+
+const compact = (text) => String(text || '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+/** Whether `text` mentions the case's number, however it is written. */
+export function mentionsCaseNumber(text, caseDoc) {
+    const parts = caseDoc.caseNumberParts?.kind ? caseDoc.caseNumberParts : parseCaseNumber(caseDoc.caseNumber);
+    if (parts.kind === 'cnr') {
+        return compact(text).includes(parts.cnr);
+    }
+    if (parts.kind !== 'court') {
+        const key = compact(caseDoc.caseNumber);
+        return key.length >= MIN_OTHER_NUMBER_LENGTH && compact(text).includes(key);
+    }
+    const upper = text.toUpperCase();
+    const year = String(parts.year);
+    const pattern = new RegExp(`(?<![0-9])0*${parts.number}\\s*(?:/|-|\\s+OF\\s+)\\s*(?:${year}|${year.slice(2)})(?![0-9])`, 'g');
+    const caseType = compact(parts.caseType);
+    for (const match of upper.matchAll(pattern)) {
+        const before = compact(upper.slice(0, match.index));
+        if (!caseType || before.endsWith(caseType) || before.replace(/(?:NO|NUMBER)$/, '').endsWith(caseType)) {
+            return true;
+        }
+    }
+    return false;
+}
+
+const partyNames = (caseDoc) => [caseDoc.clientName, caseDoc.opposingParty, ...(caseDoc.parties ?? []).map(party => party.name)]
+    .map(name => String(name || '').trim())
+    .filter(name => name.length >= MIN_PARTY_LENGTH);
+
+/** Whether `text` names one of the case's parties as whole words. */
+export function mentionsParty(text, caseDoc) {
+    return partyNames(caseDoc).some(name =>
+        new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegex(name)}(?![\\p{L}\\p{N}])`, 'iu').test(text));
+}
+
+const sameCourt = (courtName, location) => {
+    const court = compact(courtName);
+    const place = compact(location);
+    return Boolean(court && place) && (place.includes(court) || court.includes(place));
+};
+
+/**
+ * The case an event belongs to: by case number, else by party name, and when
+ * that finds several, the one before the court at the event's location.
+ * @returns {{ match: object|null, candidates: object[] }} `match` is
+ *   `{ caseId, caseNumber, by }` when exactly one case fits
+ */
+export function matchCase(event, cases) {
+    const text = [event.summary, event.description].filter(Boolean).join('\n');
+    let by = 'case_number';
+    let found = cases.filter(caseDoc => mentionsCaseNumber(text, caseDoc));
+    if (found.length === 0) {
+        by = 'party';
+        found = cases.filter(caseDoc => mentionsParty(text, caseDoc));
+    }
+    if (found.length > 1 && event.location) {
+        const atLocation = found.filter(caseDoc => sameCourt(caseDoc.courtName, event.location));
+        if (atLocation.length > 0) {
+            found = atLocation;
+        }
+    }
+    const brief = (caseDoc) => ({ caseId: String(caseDoc._id), caseNumber: caseDoc.caseNumber });
+    return {
+        match: found.length === 1 ? { ...brief(found[0]), by } : null,
+        candidates: found.slice(0, MAX_CANDIDATES).map(caseDoc => ({ ...brief(caseDoc), clientName: caseDoc.clientName })),
+    };
+}
+
+/** The IST day of an event, the one its hearing would be on. */
+const eventDay = (event) => (event.allDay ? formatDateOnly(event.start) : wallClock(event.start, HEARING_TIMEZONE).date);
+
+/** The file's events on the days from `from` to `to` (YYYY-MM-DD, inclusive). */
+function readEvents({ ics, from, to }) {
+    if (typeof ics !== 'string' || !ics.trim()) {
+        throw new CalendarImportError('Choose an .ics file to import');
+    }
+    const range = normalizeExportRange({ from, to });
+    // Days are IST days, so read a day either side and keep the events whose IST day is in range
+    const { events, warnings } = parseCalendar(ics, {
+        from: new Date(range.from.getTime() - DAY_MS),
+        to: new Date(range.to.getTime() + DAY_MS),
+        defaultZone: HEARING_TIMEZONE,
+    });
+    const first = formatDateOnly(range.from);
+    const last = formatDateOnly(new Date(range.to.getTime() - DAY_MS));
+    return {
+        from: first,
+        to: last,
+        events: events.filter(event => eventDay(event) >= first && eventDay(event) <= last),
+        warnings,
+    };
+}
+
+const openCases = (owner) => Case.find({ owner, archivedAt: null })
+    .select('caseNumber caseNumberParts clientName opposingParty parties.name courtName')
+    .lean();
+
+/** `caseId|day` of the hearings the cases have in the range. */
+async function hearingDays(owner, caseIds, from, to) {
+    const hearings = await Hearing.find({
+        owner,
+        caseId: { $in: caseIds },
+        hearingDate: { $gte: parseDateOnly(from), $lte: parseDateOnly(to) },
+    }).select('caseId hearingDate').lean();
+    return new Set(hearings.map(hearing => `${hearing.caseId}|${formatDateOnly(hearing.hearingDate)}`));
+}
+
+/** `uid|start` of the occurrences already imported as calendar events. */
+async function importedEvents(owner, events) {
+    const uids = [...new Set(events.map(event => event.uid))];
+    const existing = await CalendarEvent.find({ owner, 'source.uid': { $in: uids } }).select('source.uid start').lean();
+    return new Set(existing.map(event => `${event.source.uid}|${event.start.toISOString()}`));
+}
+
+const eventEnd = (event) => event.end ?? new Date(event.start.getTime() + DEFAULT_DURATION * 60 * 1000);
+const isPast = (event) => eventDay(event) < wallClock(new Date(), HEARING_TIMEZONE).date;
+
+function conflictsFor(owner, event, caseId) {
+    // All-day events become hearings without a time, which the conflict check cannot place
+    if (event.allDay || isPast(event)) {
+        return Promise.resolve([]);
+    }
+    return checkHearingConflicts(owner, event.start, eventEnd(event), {}, null, caseId);
+}
+
+const conflictSummary = (conflict) => ({
+    hearingId: conflict.hearingId,
+    caseNumber: conflict.caseNumber,
+    startAt: conflict.startAt.toISOString(),
+    endAt: conflict.endAt.toISOString(),
+    conflictReason: conflict.conflictReason,
+    listedTogether: conflict.listedTogether,
+});
+
+/**
+ * What importing the file would do, event by event.
+ * @param {object} input `{ ics, from, to }`, the file's text and the days to import
+ * @returns {Promise<object>} `{ from, to, warnings, items }`, an item per occurrence with
+ *   its match, the candidate cases, `duplicate` ('hearing' when the matched case already
+ *   has a hearing that day, 'event' when it was imported before) and its conflicts
+ */
+export async function previewCalendarImport(owner, input) {
+    const { from, to, events, warnings } = readEvents(input);
+    const cases = await openCases(owner);
+    const matched = events.map(event => ({ event, ...matchCase(event, cases) }));
+    const caseIds = [...new Set(matched.filter(item => item.match).map(item => item.match.caseId))];
+    const days = await hearingDays(owner, caseIds, from, to);
+    const imported = await importedEvents(owner, events);
+
+    const items = [];
+    for (const { event, match, candidates } of matched) {
+        let duplicate = null;
+        if (match && days.has(`${match.caseId}|${eventDay(event)}`)) {
+            duplicate = 'hearing';
+        } else if (imported.has(`${event.uid}|${event.start.toISOString()}`)) {
+            duplicate = 'event';
+        }
+        const conflicts = match ? await conflictsFor(owner, event, match.caseId) : [];
+        items.push({
+            key: event.key,
+            summary: event.summary,
+            location: event.location,
+            description: event.description,
+            start: event.start,
+            end: event.end,
+            allDay: event.allDay,
+            recurring: event.recurring,
+            match,
+            candidates,
+            duplicate,
+            conflicts: conflicts.map(conflictSummary),
+            blocking: hasBlockingConflict(conflicts),
+        });
+    }
+    return { from, to, warnings, items };
+}
+
+/** The user's choices by event key. */
+function normalizeChoices(items) {
+    if (!Array.isArray(items)) {
+        throw new CalendarImportError('Choose what to do with each event');
+    }
+    const choices = new Map();
+    items.forEach(item => {
+        if (!item || typeof item.key !== 'string' || !CALENDAR_IMPORT_ACTIONS.includes(item.action)) {
+            throw new CalendarImportError(`Action must be one of: ${CALENDAR_IMPORT_ACTIONS.join(', ')}`);
+        }
+        if (item.action === 'hearing' && !mongoose.isValidObjectId(item.caseId)) {
+            throw new CalendarImportError('Choose the case for each event imported as a hearing');
+        }
+        choices.set(item.key, { action: item.action, caseId: item.caseId ? String(item.caseId) : null, override: item.override === true });
+    });
+    return choices;
+}
+
+function newHearing(owner, event, caseDoc) {
+    const day = eventDay(event);
+    const hearing = {
+        owner,
+        caseId: caseDoc._id,
+        hearingDate: parseDateOnly(day),
+        timezone: HEARING_TIMEZONE,
+        courtName: event.location || caseDoc.courtName || 'Not specified',
+        purpose: event.summary,
+        ...(event.description && { notes: event.description }),
+        status: isPast(event) ? 'completed' : 'scheduled',
+    };
+    if (event.allDay) {
+        return hearing;
+    }
+    const minutes = Math.round((eventEnd(event) - event.start) / 60000);
+    return {
+        ...hearing,
+        hearingTime: wallClock(event.start, HEARING_TIMEZONE).time,
+        startAt: event.start,
+        endAt: eventEnd(event),
+        duration: minutes > 0 ? minutes : DEFAULT_DURATION,
+    };
+}
+
+/**
+ * Create the hearings and calendar events chosen for the file's events.
+ * Hearings are checked one at a time, so two imported events that clash
+ * are caught as well; a blocking conflict skips the event unless the user
+ * chose to override it, which needs a reason as when scheduling by hand.
+ * @param {object} input `{ ics, from, to, fileName, items, overrideReason }`, `items`
+ *   as `{ key, action, caseId?, override? }`
+ * @returns {Promise<object>} `{ hearings, events, skipped }`, counts of what was
+ *   created and `{ key, summary, reason }` for each event that could not be
+ * @throws {CalendarImportError}
+ */
+export async function applyCalendarImport(owner, input) {
+    const choices = normalizeChoices(input.items);
+    const overrideReason = typeof input.overrideReason === 'string' ? input.overrideReason.trim() : '';
+    if (!overrideReason && [...choices.values()].some(choice => choice.action === 'hearing' && choice.override)) {
+        throw new CalendarImportError('Override reason is required when forcing a conflicting hearing');
+    }
+    const { from, to, events } = readEvents(input);
+    const byKey = new Map(events.map(event => [event.key, event]));
+
+    const caseIds = [...new Set([...choices.values()].filter(choice => choice.action === 'hearing').map(choice => choice.caseId))];
+    const cases = await Case.find({ _id: { $in: caseIds }, owner }).select('caseNumber courtName archivedAt').lean();
+    const caseById = new Map(cases.map(caseDoc => [String(caseDoc._id), caseDoc]));
+    const days = await hearingDays(owner, caseIds, from, to);
+    const imported = await importedEvents(owner, events);
+    const fileName = typeof input.fileName === 'string' ? input.fileName.slice(0, 200) : undefined;
+
+    const skipped = [];
+    const newEvents = [];
+    const touchedCases = new Set();
+    let hearings = 0;
+    for (const [key, choice] of choices) {
+        const event = byKey.get(key);
+        const skip = (reason) => skipped.push({ key, summary: event?.summary ?? key, reason });
+        if (choice.action === 'skip') {
+            continue;
+        }
+        if (!event) {
+            skip('Not in the file for these dates');
+            continue;
+        }
+        const occurrence = `${event.uid}|${event.start.toISOString()}`;
+        if (choice.action === 'event') {
+            if (imported.has(occurrence)) {
+                skip('Already imported');
+                continue;
+            }
+            imported.add(occurrence);
+            newEvents.push({
+                owner,
+                title: event.summary,
+                start: event.start,
+                end: event.end ?? undefined,
+                allDay: event.allDay,
+                location: event.location || undefined,
+                description: event.description || undefined,
+                source: { uid: event.uid, fileName },
+            });
+            continue;
+        }
+
+        const caseDoc = caseById.get(choice.caseId);
+        if (!caseDoc) {
+            skip('Case not found');
+            continue;
+        }
+        if (isArchived(caseDoc)) {
+            skip('The case is archived');
+            continue;
+        }
+        const day = `${choice.caseId}|${eventDay(event)}`;
+        if (days.has(day)) {
+            skip(`${caseDoc.caseNumber} already has a hearing that day`);
+            continue;
+        }
+        const data = newHearing(owner, event, caseDoc);
+        const conflicts = await conflictsFor(owner, event, choice.caseId);
+        if (hasBlockingConflict(conflicts)) {
+            if (!choice.override) {
+                skip(`Conflicts with ${conflicts.filter(c => !c.listedTogether).map(c => c.caseNumber).join(', ')}`);
+                continue;
+            }
+            data.conflictOverride = {
+                allowed: true,
+                reason: overrideReason,
+                overriddenBy: String(owner),
+                overriddenAt: new Date(),
+                conflictingHearings: conflicts.map(c => c.hearingId),
+            };
+            await logActivity(
+                owner,
+                'hearing_conflict_override',
+                `Hearing imported despite ${conflicts.length} conflict(s): ${overrideReason}`,
+                'hearing',
+                null,
+                { conflicts: conflicts.length, reason: overrideReason, conflictingHearings: conflicts.map(c => c.hearingId) }
+            );
+        }
+        await Hearing.create(data);
+        days.add(day);
+        touchedCases.add(choice.caseId);
+        hearings += 1;
+    }
+
+    if (newEvents.length > 0) {
+        await CalendarEvent.insertMany(newEvents);
+    }
+    if (touchedCases.size > 0) {
+        await refreshNextHearing(owner, [...touchedCases]);
+    }
+    return { hearings, events: newEvents.length, skipped };
+}
@@ -0,0 +1,118 @@
+import mongoose from 'mongoose';
+import Case from '../models/Case.js';
+import Hearing from '../models/Hearing.js';
+import { CASE_STATUSES } from '../schemas/validation-schemas.js';
+import { ListQueryError } from './listQuery.js';
+
+/**
+ * The case board: the case list laid out in columns by status or by hearing
+ * pipeline stage.
+ *
+ * A case's stage is the one recorded from the board (`pipelineStage`) while
+ * set; otherwise the furthest system stage it has a hearing of that type for,
+ * and Case Filed when it has none. Cases recorded at one of their own custom
+ * stages share a single column. Every column is a condition on the case list,
+ * so the board pages each one separately through GET /cases?stage= (or
+ * ?status=) and counts them all with GET /cases/board.
+ */
+
+// The ordered list of built-in (system) pipeline node IDs
+export const SYSTEM_PIPELINE_NODES = [
+    { nodeId: 'sys_filed', name: 'Case Filed', type: 'system', color: '#22c55e' },
+    { nodeId: 'sys_first', name: 'First Hearing', type: 'system', color: '#22c55e' },
+    { nodeId: 'sys_interim', name: 'Interim', type: 'system', color: '#22c55e' },
+    { nodeId: 'sys_evidence', name: 'Evidence', type: 'system', color: '#22c55e' },
+    { nodeId: 'sys_arguments', name: 'Arguments', type: 'system', color: '#22c55e' },
+    { nodeId: 'sys_final', name: 'Final Hearing', type: 'system', color: '#22c55e' },
+    { nodeId: 'sys_judgment', name: 'Judgment', type: 'system', color: '#22c55e' },
+];
+
+// Hearing type that marks each system stage as reached; Case Filed is reached by every case
+const STAGE_HEARING_TYPES = {
+    sys_first: 'first_hearing',
+    sys_interim: 'interim_hearing',
+    sys_evidence: 'evidence_hearing',
+    sys_arguments: 'argument_hearing',
+    sys_final: 'final_hearing',
+    sys_judgment: 'judgment_hearing',
+};
+
+const SYSTEM_STAGES = SYSTEM_PIPELINE_NODES.map(node => node.nodeId);
+const FILED_STAGE = SYSTEM_STAGES[0];
+
+/** Column for cases recorded at one of their own custom stages */
+export const CUSTOM_STAGE = 'custom';
+export const BOARD_STAGES = [...SYSTEM_STAGES, CUSTOM_STAGE];
+export const BOARD_GROUPINGS = ['status', 'stage'];
+
+const UNRECORDED = { pipelineStage: { $in: [null, ''] } };
+
+/**
+ * The owner's cases that have a stage-marking hearing, by the furthest system
+ * stage those hearings reach.
+ * @returns {Promise<Map<string, mongoose.Types.ObjectId[]>>} stage → case ids
+ */
+async function reachedStages(ownerId) {
+    const rows = await Hearing.aggregate([
+        {
+            $match: {
+                owner: new mongoose.Types.ObjectId(String(ownerId)),
+                hearingType: { $in: Object.values(STAGE_HEARING_TYPES) },
+            },
+        },
+        { $group: { _id: '$caseId', types: { $addToSet: '$hearingType' } } },
+    ]);
+
+    const reached = new Map();
+    for (const { _id, types } of rows) {
+        const stage = [...SYSTEM_STAGES].reverse().find(id => types.includes(STAGE_HEARING_TYPES[id]));
+        if (!reached.has(stage)) {
+            reached.set(stage, []);
+        }
+        reached.get(stage).push(_id);
+    }
+    return reached;
+}
+
+function stageCondition(stage, reached) {
+    if (stage === CUSTOM_STAGE) {
+        return { pipelineStage: { $nin: [null, '', ...SYSTEM_STAGES] } };
+    }
+    const derived = stage === FILED_STAGE
+        ? { _id: { $nin: [...reached.values()].flat() } }
+        : { _id: { $in: reached.get(stage) ?? [] } };
+    return { $or: [{ pipelineStage: stage }, { ...UNRECORDED, ...derived }] };
+}
+
+/**
+ * Filter condition selecting the cases in one pipeline-stage column (?stage=).
+ * @throws {ListQueryError} for a stage that is not a board column
+ */
+export async function stageFilter(ownerId, stage) {
+    if (!BOARD_STAGES.includes(stage)) {
+        throw new ListQueryError(`stage must be one of: ${BOARD_STAGES.join(', ')}`);
+    }
+    return stageCondition(stage, await reachedStages(ownerId));
+}
+
+/**
+ * Count the cases matching a parsed list filter in every column of the board.
+ * @param {'status'|'stage'} groupBy
+ * @returns {Promise<Object<string, number>>} column id → number of cases
+ */
+export async function countBoardColumns(ownerId, filter, groupBy) {
+    if (!BOARD_GROUPINGS.includes(groupBy)) {
+        throw new ListQueryError(`groupBy must be one of: ${BOARD_GROUPINGS.join(', ')}`);
+    }
+
+    let columns;
+    if (groupBy === 'status') {
+        columns = CASE_STATUSES.map(status => [status, { status }]);
+    } else {
+        const reached = await reachedStages(ownerId);
+        columns = BOARD_STAGES.map(stage => [stage, stageCondition(stage, reached)]);
+    }
+
+    const counts = await Promise.all(columns.map(([, condition]) => Case.countDocuments({ $and: [filter, condition] })));
+    return Object.fromEntries(columns.map(([id], i) => [id, counts[i]]));
+}
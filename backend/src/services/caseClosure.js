@@ -0,0 +1,287 @@
+import mongoose from 'mongoose';
+import Alert from '../models/Alert.js';
+import Case from '../models/Case.js';
+import Document from '../models/Document.js';
+import Folder from '../models/Folder.js';
+import Hearing from '../models/Hearing.js';
+import Invoice from '../models/Invoice.js';
+import TimeEntry from '../models/TimeEntry.js';
+import { CLOSURE_OUTCOMES } from '../schemas/validation-schemas.js';
+import { findRule } from './deadlineRules.js';
+import {
+    DEFAULT_REMINDER_DAYS,
+    computeDeadline,
+    courtHolidaysFrom,
+    createDeadlineAlerts,
+    formatDateOnly,
+    parseDateOnly,
+} from './deadlines.js';
+
+/**
+ * Closing a case: the closure wizard's checklist, and the close and reopen writes.
+ *
+ * Closing records the outcome, disposal date and final order, sets the status
+ * the outcome implies, cancels the hearings still ahead, removes reminders not
+ * yet fired and can add an appeal deadline counted from the disposal date.
+ * The case then moves to the archive (`archivedAt`), where the case, hearing
+ * and deadline routes treat it as read-only until it is reopened.
+ *
+ * Unbilled time is an estimate: a time entry does not record the invoice that
+ * billed it, so billable entries dated after the case's latest invoice count.
+ */
+
+/** Deadline rules that run from a decree, order or award: the remedies after disposal. */
+export const APPEAL_RULE_IDS = [
+    'cpc_appeal_hc', 'cpc_appeal_other', 'cpc_intra_court_appeal', 'sc_slp',
+    'crpc_appeal_hc', 'crpc_appeal_other', 'crpc_appeal_acquittal',
+    'bnss_appeal_hc', 'bnss_appeal_sessions', 'bnss_appeal_acquittal',
+    'lim_art_123', 'lim_art_124', 'lim_art_131', 'arb_s34', 'cpa_appeal_state',
+];
+
+export const ARCHIVED_CASE_MESSAGE = 'This case is archived and read-only. Reopen it to make changes';
+
+const OPEN_INVOICE_STATUSES = ['draft', 'sent', 'overdue'];
+const MAX_SUMMARY_LENGTH = 2000;
+const MAX_REASON_LENGTH = 500;
+const MAX_DOCUMENTS = 100;
+
+export class CaseClosureError extends Error {
+    constructor(message, status = 400) {
+        super(message);
+        this.name = 'CaseClosureError';
+        this.status = status;
+    }
+}
+
+/**
+ * Whether a case is in the archive. Archived cases are read-only until
+ * reopened: nothing may write to them or to their hearings, notes, deadlines
+ * or links. Routes check through middleware/archivedCase.js.
+ */
+export const isArchived = (caseDoc) => Boolean(caseDoc?.archivedAt);
+
+/** Whether the user's case `caseId` is in the archive; false when there is no such case. */
+export async function isCaseArchived(owner, caseId) {
+    if (!caseId || !mongoose.isValidObjectId(caseId)) {
+        return false;
+    }
+    const caseDoc = await Case.findOne({ _id: caseId, owner }).select('archivedAt').lean();
+    return isArchived(caseDoc);
+}
+
+/** The case status an outcome implies; outcomes other than won or lost close the case. */
+export const outcomeStatus = (outcome) => (outcome === 'won' || outcome === 'lost' ? outcome : 'closed');
+
+/**
+ * Validate a closure request. The cancel, remove and archive steps default to on.
+ * @throws {CaseClosureError|DeadlineError}
+ */
+export function normalizeClosureInput(body = {}, now = new Date()) {
+    if (!CLOSURE_OUTCOMES.includes(body.outcome)) {
+        throw new CaseClosureError(`Outcome must be one of: ${CLOSURE_OUTCOMES.join(', ')}`);
+    }
+    const disposalDate = parseDateOnly(body.disposalDate, 'Disposal date');
+    if (formatDateOnly(disposalDate) > formatDateOnly(now)) {
+        throw new CaseClosureError('Disposal date cannot be in the future');
+    }
+
+    let finalOrderId = null;
+    if (body.finalOrderId) {
+        if (!mongoose.isValidObjectId(body.finalOrderId)) {
+            throw new CaseClosureError('Final order document not found', 404);
+        }
+        finalOrderId = String(body.finalOrderId);
+    }
+
+    const summary = typeof body.summary === 'string' ? body.summary.trim() : '';
+    if (summary.length > MAX_SUMMARY_LENGTH) {
+        throw new CaseClosureError(`Summary must be at most ${MAX_SUMMARY_LENGTH} characters`);
+    }
+
+    const appealRuleId = body.appealRuleId || null;
+    if (appealRuleId && !APPEAL_RULE_IDS.includes(appealRuleId)) {
+        throw new CaseClosureError('Unknown appeal deadline rule');
+    }
+
+    return {
+        outcome: body.outcome,
+        disposalDate,
+        finalOrderId,
+        summary,
+        appealRuleId,
+        cancelHearings: body.cancelHearings !== false,
+        removeAlerts: body.removeAlerts !== false,
+        archive: body.archive !== false,
+    };
+}
+
+/**
+ * A reason is required to reopen, so the audit log says why.
+ * @throws {CaseClosureError}
+ */
+export function normalizeReopenReason(input) {
+    const reason = typeof input === 'string' ? input.trim() : '';
+    if (!reason || reason.length > MAX_REASON_LENGTH) {
+        throw new CaseClosureError(`Give a reason of up to ${MAX_REASON_LENGTH} characters for reopening`);
+    }
+    return reason;
+}
+
+// Scheduled hearings dated today or later
+const futureHearingsFilter = (owner, caseId, now) => ({
+    owner,
+    caseId,
+    status: 'scheduled',
+    hearingDate: { $gte: parseDateOnly(now) },
+});
+
+/** Documents filed under the case, directly or in its folders, newest first. */
+async function caseDocuments(owner, caseId) {
+    const folders = await Folder.find({ ownerId: owner, caseId }).select('_id').lean();
+    return Document.find({ ownerId: owner, $or: [{ caseId }, { folderId: { $in: folders.map(f => f._id) } }] })
+        .select('name mimetype createdAt')
+        .sort({ createdAt: -1 })
+        .limit(MAX_DOCUMENTS)
+        .lean();
+}
+
+/** What the closure wizard flags before a case is closed. */
+export async function closureChecklist(owner, caseDoc, now = new Date()) {
+    const caseId = caseDoc._id;
+    const [invoices, latestInvoice, hearings, pendingAlerts, documents] = await Promise.all([
+        Invoice.find({ owner, caseId, status: { $in: OPEN_INVOICE_STATUSES } })
+            .select('invoiceNumber status total currency dueDate')
+            .sort({ dueDate: 1 })
+            .lean(),
+        Invoice.findOne({ owner, caseId }).sort({ issueDate: -1 }).select('issueDate').lean(),
+        Hearing.find(futureHearingsFilter(owner, caseId, now))
+            .select('hearingDate hearingTime courtName purpose')
+            .sort({ hearingDate: 1 })
+            .lean(),
+        Alert.countDocuments({ owner, caseId, alertTime: { $gt: now } }),
+        caseDocuments(owner, caseId),
+    ]);
+
+    const since = latestInvoice?.issueDate ?? null;
+    const entries = await TimeEntry.find({ owner, caseId, billable: true, ...(since ? { date: { $gt: since } } : {}) })
+        .select('duration hourlyRate')
+        .lean();
+    const minutes = entries.reduce((sum, entry) => sum + (entry.duration || 0), 0);
+    const amount = entries.reduce((sum, entry) => sum + ((entry.duration || 0) / 60) * (entry.hourlyRate || 0), 0);
+
+    return {
+        pendingInvoices: invoices.map(invoice => ({
+            id: invoice._id.toString(),
+            invoiceNumber: invoice.invoiceNumber,
+            status: invoice.status,
+            total: invoice.total,
+            currency: invoice.currency || 'INR',
+            dueDate: invoice.dueDate,
+        })),
+        unbilledTime: { entries: entries.length, minutes, amount: Math.round(amount * 100) / 100, since },
+        futureHearings: hearings.map(hearing => ({
+            id: hearing._id.toString(),
+            hearingDate: hearing.hearingDate,
+            hearingTime: hearing.hearingTime || '',
+            courtName: hearing.courtName || '',
+            purpose: hearing.purpose || '',
+        })),
+        pendingAlerts,
+        openDeadlines: caseDoc.deadlines
+            .filter(deadline => deadline.status === 'open')
+            .map(deadline => ({ id: deadline._id.toString(), title: deadline.title, dueDate: formatDateOnly(deadline.dueDate) })),
+        documents: documents.map(doc => ({ id: doc._id.toString(), name: doc.name, mimetype: doc.mimetype, createdAt: doc.createdAt })),
+        appealRules: APPEAL_RULE_IDS.map(findRule).filter(Boolean),
+    };
+}
+
+/**
+ * Close a case (a Case document, saved here) with a validated closure request.
+ * @returns {Promise<{ cancelledHearingIds: string[], removedAlerts: number, appealDeadline: Object|null }>}
+ * @throws {CaseClosureError} when the case is archived already or the final order is not the user's
+ */
+export async function closeCase({ owner, caseDoc, input, now = new Date() }) {
+    if (caseDoc.archivedAt) {
+        throw new CaseClosureError('The case is already archived', 409);
+    }
+    if (input.finalOrderId) {
+        const finalOrder = await Document.findOne({ _id: input.finalOrderId, ownerId: owner }).select('_id').lean();
+        if (!finalOrder) {
+            throw new CaseClosureError('Final order document not found', 404);
+        }
+    }
+
+    let cancelledHearingIds = [];
+    if (input.cancelHearings) {
+        const hearings = await Hearing.find(futureHearingsFilter(owner, caseDoc._id, now)).select('_id').lean();
+        cancelledHearingIds = hearings.map(hearing => hearing._id.toString());
+        if (cancelledHearingIds.length > 0) {
+            await Hearing.updateMany({ _id: { $in: cancelledHearingIds } }, { $set: { status: 'cancelled' } });
+        }
+        caseDoc.nextHearing = null;
+    }
+
+    // Pending reminders go before the appeal deadline adds its own
+    let removedAlerts = 0;
+    if (input.removeAlerts) {
+        const result = await Alert.deleteMany({ owner, caseId: caseDoc._id, alertTime: { $gt: now } });
+        removedAlerts = result.deletedCount;
+    }
+
+    let appealDeadline = null;
+    if (input.appealRuleId) {
+        const rule = findRule(input.appealRuleId);
+        const holidays = await courtHolidaysFrom(owner, input.disposalDate);
+        const { dueDate, graceUntil } = computeDeadline(rule, input.disposalDate, { holidays });
+        appealDeadline = caseDoc.deadlines.create({
+            ruleId: rule.id,
+            title: rule.title,
+            act: rule.act,
+            provision: rule.provision,
+            triggerDate: input.disposalDate,
+            excludedDays: 0,
+            dueDate,
+            graceUntil,
+            reminderDays: [...DEFAULT_REMINDER_DAYS],
+            notes: 'Added when the case was closed',
+        });
+        appealDeadline.alertIds = await createDeadlineAlerts({
+            owner, caseId: caseDoc._id, caseNumber: caseDoc.caseNumber, deadline: appealDeadline, now
+        });
+        caseDoc.deadlines.push(appealDeadline);
+    }
+
+    caseDoc.status = outcomeStatus(input.outcome);
+    caseDoc.closure = {
+        outcome: input.outcome,
+        disposalDate: input.disposalDate,
+        finalOrderId: input.finalOrderId ?? undefined,
+        summary: input.summary,
+        appealDeadlineId: appealDeadline?._id,
+        closedAt: now,
+    };
+    if (input.archive) {
+        caseDoc.archivedAt = now;
+    }
+    await caseDoc.save();
+
+    return { cancelledHearingIds, removedAlerts, appealDeadline };
+}
+
+/**
+ * Take a case out of the archive and make it active again. The closure record
+ * is cleared; the caller logs it with the reason.
+ * @returns {Promise<Object|null>} the closure the case had
+ * @throws {CaseClosureError} when the case is neither closed nor archived
+ */
+export async function reopenCase(caseDoc) {
+    if (!caseDoc.archivedAt && !caseDoc.closure) {
+        throw new CaseClosureError('The case is not closed', 409);
+    }
+    const previous = caseDoc.closure ? caseDoc.closure.toObject() : null;
+    caseDoc.archivedAt = null;
+    caseDoc.closure = undefined;
+    caseDoc.status = 'active';
+    await caseDoc.save();
+    return previous;
+}
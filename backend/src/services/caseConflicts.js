@@ -0,0 +1,75 @@
+import Case from '../models/Case.js';
+import { caseNumberKey } from '../utils/caseNumber.js';
+import { escapeRegex } from './listQuery.js';
+
+/**
+ * Narrow the owner's cases down to those the conflict checker has to look at
+ * for a case being entered: the same number however it was written, a party
+ * name in common on either side, or a hearing listed in the same window. The
+ * checker then decides which of them are real conflicts.
+ */
+
+const MAX_NAMES = 50;
+const MAX_NAME_LENGTH = 200;
+const MAX_CANDIDATES = 200;
+
+export class CaseConflictError extends Error {
+    constructor(message, status = 400) {
+        super(message);
+        this.name = 'CaseConflictError';
+        this.status = status;
+    }
+}
+
+function parseDate(value, name) {
+    const date = new Date(value);
+    if (Number.isNaN(date.getTime())) {
+        throw new CaseConflictError(`${name} must be a date`);
+    }
+    return date;
+}
+
+// The same name, ignoring case and surrounding spaces
+const exactName = (name) => ({ $regex: `^\\s*${escapeRegex(name)}\\s*$`, $options: 'i' });
+
+/**
+ * @param {Object} input
+ * @param {string} [input.caseNumber]
+ * @param {string[]} [input.names] - Party names on both sides of the case
+ * @param {string} [input.from] - Start of the hearing window
+ * @param {string} [input.to] - End of the hearing window
+ * @returns {Promise<Object[]>} matching cases, at most MAX_CANDIDATES
+ * @throws {CaseConflictError} for malformed input
+ */
+export async function findConflictCandidates(ownerId, { caseNumber, names = [], from, to } = {}) {
+    if (!Array.isArray(names) || names.some(name => typeof name !== 'string')) {
+        throw new CaseConflictError('names must be a list of names');
+    }
+    if (names.length > MAX_NAMES) {
+        throw new CaseConflictError(`At most ${MAX_NAMES} names can be checked at once`);
+    }
+
+    const or = [];
+    const key = typeof caseNumber === 'string' && caseNumber.trim() ? caseNumberKey(caseNumber) : '';
+    if (key) {
+        or.push({ caseNumberKey: key });
+    }
+    const distinct = new Map(names.map(n => n.trim().slice(0, MAX_NAME_LENGTH)).filter(Boolean).map(n => [n.toLowerCase(), n]));
+    for (const name of distinct.values()) {
+        const pattern = exactName(name);
+        or.push({ clientName: pattern }, { opposingParty: pattern }, { 'parties.name': pattern });
+    }
+    if (from || to) {
+        if (!from || !to) {
+            throw new CaseConflictError('from and to go together');
+        }
+        const window = { $gte: parseDate(from, 'from'), $lte: parseDate(to, 'to') };
+        or.push({ nextHearing: window }, { hearingDate: window });
+    }
+
+    if (or.length === 0) {
+        return [];
+    }
+    const cases = await Case.find({ owner: ownerId, $or: or }).sort({ updatedAt: -1 }).limit(MAX_CANDIDATES).lean();
+    return cases.map(doc => ({ id: doc._id.toString(), ...doc, _id: undefined }));
+}
@@ -0,0 +1,31 @@
+import Case from '../models/Case.js';
+import Folder from '../models/Folder.js';
+
+/**
+ * Each case has a documents folder at the top level, named after its number
+ * and client. Cases that have none yet, such as those added before folders
+ * existed or brought in by an import, get theirs here.
+ */
+
+export const caseFolderName = (case_) => `${case_.caseNumber} - ${case_.clientName}`;
+
+/**
+ * Create the folders missing for the owner's cases. A case already has a
+ * folder when one is linked to it or carries its folder name.
+ * @returns {Promise<number>} how many folders were created
+ */
+export async function createMissingCaseFolders(ownerId) {
+    const folders = await Folder.find({ ownerId }).select('name caseId').lean();
+    const linked = folders.filter(folder => folder.caseId).map(folder => folder.caseId);
+    const names = new Set(folders.map(folder => folder.name));
+
+    const cases = await Case.find({ owner: ownerId, _id: { $nin: linked } }).select('caseNumber clientName').lean();
+    const missing = cases
+        .filter(case_ => !names.has(caseFolderName(case_)))
+        .map(case_ => ({ name: caseFolderName(case_), parentId: null, caseId: case_._id, ownerId }));
+
+    if (missing.length > 0) {
+        await Folder.insertMany(missing);
+    }
+    return missing.length;
+}
@@ -0,0 +1,131 @@
+import mongoose from 'mongoose';
+import Case from '../models/Case.js';
+import { CASE_LINK_TYPES } from '../schemas/validation-schemas.js';
+
+/**
+ * Linked and related matters.
+ *
+ * A link is stored on one case (`Case.links`) and points at another. The
+ * directional types read "this case is an appeal of / revision of /
+ * transferred from the linked case"; connected-with and cross-FIR are
+ * symmetric. Lookups therefore search both a case's own links and the links
+ * other cases hold to it.
+ */
+
+/** Link types whose matters are heard together, so their hearings may share a slot. */
+export const LISTED_TOGETHER_LINK_TYPES = ['connected_with', 'cross_fir'];
+
+const MAX_LINKED_CASES = 50;
+const MAX_NOTE_LENGTH = 500;
+const NODE_FIELDS = 'caseNumber clientName opposingParty courtName status links';
+
+export class CaseLinkError extends Error {
+    constructor(message, status = 400) {
+        super(message);
+        this.name = 'CaseLinkError';
+        this.status = status;
+    }
+}
+
+/**
+ * Validate a link request against the case it is added to.
+ * @throws {CaseLinkError}
+ */
+export function normalizeCaseLink(sourceId, { type, caseId, note } = {}) {
+    if (!CASE_LINK_TYPES.includes(type)) {
+        throw new CaseLinkError(`Link type must be one of: ${CASE_LINK_TYPES.join(', ')}`);
+    }
+    if (!mongoose.isValidObjectId(caseId)) {
+        throw new CaseLinkError('A linked case is required');
+    }
+    if (String(caseId) === String(sourceId)) {
+        throw new CaseLinkError('A case cannot be linked to itself');
+    }
+    const text = typeof note === 'string' ? note.trim() : '';
+    if (text.length > MAX_NOTE_LENGTH) {
+        throw new CaseLinkError(`Link note must be at most ${MAX_NOTE_LENGTH} characters`);
+    }
+    return { type, caseId: String(caseId), note: text };
+}
+
+/**
+ * Whether two cases are already linked with this type. One link of a type is
+ * kept per pair, whichever side holds it, so both cases' links are searched.
+ */
+export function isDuplicateLink(source, target, link) {
+    const sourceId = String(source._id);
+    return (source.links || []).some(l => l.type === link.type && String(l.caseId) === String(link.caseId))
+        || (target.links || []).some(l => l.type === link.type && String(l.caseId) === sourceId);
+}
+
+/**
+ * Walk links out from one case in both directions, following only `types`.
+ * Returns the cases reached (including the start) keyed by id, at most
+ * MAX_LINKED_CASES of them.
+ */
+async function collectLinkedCases(owner, caseId, types = CASE_LINK_TYPES) {
+    const found = new Map();
+    const queried = new Set();
+    let frontier = [String(caseId)];
+
+    while (frontier.length > 0 && found.size < MAX_LINKED_CASES) {
+        frontier.forEach(id => queried.add(id));
+        const docs = await Case.find({
+            owner,
+            $or: [
+                { _id: { $in: frontier } },
+                { links: { $elemMatch: { caseId: { $in: frontier }, type: { $in: types } } } },
+            ],
+        }).select(NODE_FIELDS).lean();
+
+        const next = new Set();
+        for (const doc of docs) {
+            const id = String(doc._id);
+            if (!found.has(id) && found.size < MAX_LINKED_CASES) {
+                found.set(id, doc);
+            }
+            next.add(id);
+            (doc.links || [])
+                .filter(link => types.includes(link.type))
+                .forEach(link => next.add(String(link.caseId)));
+        }
+        frontier = [...next].filter(id => !queried.has(id));
+    }
+    return found;
+}
+
+/**
+ * The lineage graph around a case: every case reachable through links, and
+ * the links between them. Trashed or purged cases drop out with their edges.
+ */
+export async function caseLinkGraph(owner, caseId) {
+    const cases = await collectLinkedCases(owner, caseId);
+    const nodes = [...cases.values()].map(doc => ({
+        id: String(doc._id),
+        caseNumber: doc.caseNumber,
+        clientName: doc.clientName,
+        opposingParty: doc.opposingParty || '',
+        courtName: doc.courtName || '',
+        status: doc.status,
+    }));
+    const edges = [...cases.values()].flatMap(doc => (doc.links || [])
+        .filter(link => cases.has(String(link.caseId)))
+        .map(link => ({
+            id: String(link._id),
+            from: String(doc._id),
+            to: String(link.caseId),
+            type: link.type,
+            note: link.note || '',
+        })));
+    return { nodes, edges };
+}
+
+/** Ids of the cases heard together with `caseId` (connected or cross-FIR, directly or through others). */
+export async function listedTogetherCaseIds(owner, caseId) {
+    if (!mongoose.isValidObjectId(caseId)) {
+        return new Set();
+    }
+    const cases = await collectLinkedCases(owner, caseId, LISTED_TOGETHER_LINK_TYPES);
+    cases.delete(String(caseId));
+    return new Set(cases.keys());
+}
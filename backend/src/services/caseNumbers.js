@@ -0,0 +1,16 @@
+import Case from '../models/Case.js';
+import { caseNumberKey } from '../utils/caseNumber.js';
+
+/**
+ * The owner's live cases whose number has the given key. Cases saved before
+ * keys were stored have theirs worked out here.
+ * @param {string} [excludeId] - the case being saved or restored, which does not clash with itself
+ */
+export async function findSameCaseNumber(owner, key, excludeId) {
+    const candidates = await Case.find({ owner, $or: [{ caseNumberKey: key }, { caseNumberKey: { $exists: false } }] })
+        .select('caseNumber caseNumberKey')
+        .lean();
+    return candidates.filter(c =>
+        String(c._id) !== String(excludeId) && (c.caseNumberKey || caseNumberKey(c.caseNumber)) === key
+    );
+}
@@ -0,0 +1,24 @@
+import Client from '../models/Client.js';
+
+/**
+ * Check that the clients a case's parties are linked to belong to the firm.
+ * Runs after validateParties, which has already refused malformed ids.
+ * @param {string} owner - User saving the case
+ * @param {Array} parties - Party entries ({ role, partyType, name, clientId, counsel })
+ * @returns {Promise<object>} { valid: boolean, error?: string }
+ */
+export async function validatePartyClients(owner, parties) {
+    const clientIds = [...new Set(parties.filter(party => party.clientId).map(party => String(party.clientId)))];
+    if (clientIds.length === 0) {
+        return { valid: true };
+    }
+
+    const found = await Client.find({ _id: { $in: clientIds }, owner }).select('_id').lean();
+    const known = new Set(found.map(client => String(client._id)));
+    const index = parties.findIndex(party => party.clientId && !known.has(String(party.clientId)));
+    if (index !== -1) {
+        return { valid: false, error: `Party ${index + 1} is linked to a client that was not found` };
+    }
+
+    return { valid: true };
+}
@@ -0,0 +1,153 @@
+import CaseNote from '../models/CaseNote.js';
+import Document from '../models/Document.js';
+import Hearing from '../models/Hearing.js';
+import Invoice from '../models/Invoice.js';
+import TimeEntry from '../models/TimeEntry.js';
+import { TIMELINE_EVENT_TYPES } from '../schemas/validation-schemas.js';
+
+/**
+ * One chronological view of everything recorded against a case: hearings and
+ * the orders passed at them, notes and their replies, uploaded documents,
+ * invoices and their payment, and time entries.
+ *
+ * Events are read from the existing records on every request rather than kept
+ * in a log of their own, so an edit to a hearing or a deleted document shows
+ * straight away. Records in the Trash are left out by the soft-delete plugin.
+ */
+
+const MAX_DETAIL_LENGTH = 2000;
+
+const humanize = (value) => String(value || '').replace(/_/g, ' ').replace(/^./, c => c.toUpperCase());
+
+const clip = (text) => {
+    const value = String(text || '').trim();
+    return value.length > MAX_DETAIL_LENGTH ? `${value.slice(0, MAX_DETAIL_LENGTH - 1)}…` : value;
+};
+
+/** What happened at a hearing, from whichever of its record fields are filled in. */
+function hearingOutcome(hearing) {
+    const parts = [];
+    if (hearing.proceedings) {
+        parts.push(hearing.proceedings);
+    }
+    if (hearing.status === 'adjourned' && hearing.adjournmentReason) {
+        parts.push(`Adjourned: ${hearing.adjournmentReason}`);
+    }
+    if (hearing.courtInstructions) {
+        parts.push(`Directions: ${hearing.courtInstructions}`);
+    }
+    if (hearing.notes) {
+        parts.push(hearing.notes);
+    }
+    return clip(parts.join('\n'));
+}
+
+function hearingEvents(hearing) {
+    const id = String(hearing._id);
+    const events = [{
+        id: `hearing:${id}`,
+        type: 'hearing',
+        date: hearing.startAt || hearing.hearingDate,
+        title: hearing.purpose || (hearing.hearingType === 'other' && hearing.customHearingType) || humanize(hearing.hearingType) || 'Hearing',
+        detail: hearingOutcome(hearing),
+        status: hearing.status,
+        court: [hearing.courtName, hearing.judgeName].filter(Boolean).join(' — '),
+        nextDate: hearing.nextHearingDate || null,
+        refId: id,
+    }];
+    (hearing.orders || []).forEach((order, index) => {
+        events.push({
+            id: `order:${id}:${index}`,
+            type: 'order',
+            date: order.orderDate || hearing.hearingDate,
+            title: humanize(order.orderType) || 'Order',
+            detail: clip(order.orderDetails),
+            court: hearing.courtName || '',
+            refId: id,
+        });
+    });
+    return events;
+}
+
+function noteEvent(note, titles) {
+    const parentTitle = note.parentNoteId ? titles.get(String(note.parentNoteId)) : null;
+    return {
+        id: `note:${note._id}`,
+        type: 'note',
+        date: note.createdAt,
+        title: note.parentNoteId ? `Reply to ${parentTitle || 'a note'}` : note.title || humanize(note.noteType),
+        detail: clip(note.content),
+        author: note.authorId?.name || '',
+        status: note.noteType,
+        refId: String(note.parentNoteId || note._id),
+    };
+}
+
+function invoiceEvents(invoice) {
+    const id = String(invoice._id);
+    const events = [{
+        id: `invoice:${id}`,
+        type: 'invoice',
+        date: invoice.issueDate,
+        title: `Invoice ${invoice.invoiceNumber}`,
+        detail: clip((invoice.items || []).map(item => item.description).join('; ')),
+        status: invoice.status,
+        amount: invoice.total,
+        currency: invoice.currency || 'INR',
+        refId: id,
+    }];
+    if (invoice.status === 'paid' && invoice.paidAt) {
+        events.push({
+            id: `payment:${id}`,
+            type: 'payment',
+            date: invoice.paidAt,
+            title: `Payment received for ${invoice.invoiceNumber}`,
+            amount: invoice.total,
+            currency: invoice.currency || 'INR',
+            refId: id,
+        });
+    }
+    return events;
+}
+
+/**
+ * All timeline events of a case, oldest first. Events on the same instant keep
+ * the order of TIMELINE_EVENT_TYPES, so an order follows its hearing.
+ */
+export async function buildCaseTimeline(owner, caseId) {
+    const [hearings, notes, documents, invoices, timeEntries] = await Promise.all([
+        Hearing.find({ caseId, owner }).lean(),
+        CaseNote.find({ caseId, isDeleted: false }).populate('authorId', 'name').lean(),
+        Document.find({ caseId, ownerId: owner }).select('name mimetype size createdAt').lean(),
+        Invoice.find({ caseId, owner }).lean(),
+        TimeEntry.find({ caseId, owner }).lean(),
+    ]);
+
+    const noteTitles = new Map(notes.map(note => [String(note._id), note.title || humanize(note.noteType)]));
+    const events = [
+        ...hearings.flatMap(hearingEvents),
+        ...notes.map(note => noteEvent(note, noteTitles)),
+        ...documents.map(doc => ({
+            id: `document:${doc._id}`,
+            type: 'document',
+            date: doc.createdAt,
+            title: doc.name,
+            status: doc.mimetype,
+            refId: String(doc._id),
+        })),
+        ...invoices.flatMap(invoiceEvents),
+        ...timeEntries.map(entry => ({
+            id: `time:${entry._id}`,
+            type: 'time',
+            date: entry.date,
+            title: entry.description,
+            minutes: entry.duration,
+            amount: entry.billable ? Math.round(entry.duration * entry.hourlyRate / 60 * 100) / 100 : 0,
+            status: entry.billable ? 'billable' : 'non-billable',
+            refId: String(entry._id),
+        })),
+    ].filter(event => event.date);
+
+    const rank = (type) => TIMELINE_EVENT_TYPES.indexOf(type);
+    return events.sort((a, b) => new Date(a.date) - new Date(b.date) || rank(a.type) - rank(b.type));
+}
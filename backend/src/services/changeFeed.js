@@ -0,0 +1,144 @@
+import crypto from 'crypto';
+import { EventEmitter } from 'events';
+import redis from '../utils/redis.js';
+import logger from '../utils/logger.js';
+
+/**
+ * Change feed for open sessions (served over SSE by routes/events.js).
+ *
+ * Routes call publishChange() after a successful write. Events are addressed
+ * to the owner of the record — the only user who can read it — and kept in a
+ * short per-user backlog so a reconnecting client can resume from its
+ * Last-Event-ID. A user's backlog is dropped once all of its events expire.
+ *
+ * With Redis connected, events fan out through pub/sub so every API instance
+ * sees them; otherwise delivery is in-process only.
+ */
+
+const CHANNEL = 'changes';
+const BACKLOG_SIZE = 200;
+const BACKLOG_TTL_MS = 15 * 60 * 1000;
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+export const CHANGE_ENTITIES = ['case', 'hearing', 'invoice', 'note'];
+export const CHANGE_ACTIONS = ['created', 'updated', 'deleted'];
+
+const instanceId = crypto.randomBytes(3).toString('hex');
+let sequence = 0;
+
+const bus = new EventEmitter();
+bus.setMaxListeners(0); // one listener per open stream
+
+const backlogs = new Map(); // userId → event[]
+let lastSweep = Date.now();
+
+let subscriber = null;
+
+/** Drop expired events, and the backlogs of users who have none left. */
+function sweepBacklogs(now) {
+    const cutoff = now - BACKLOG_TTL_MS;
+    for (const [userId, list] of backlogs) {
+        const live = list.filter(e => e.at >= cutoff);
+        if (live.length === 0) { backlogs.delete(userId); }
+        else if (live.length < list.length) { backlogs.set(userId, live); }
+    }
+    lastSweep = now;
+}
+
+function remember(event) {
+    const now = Date.now();
+    if (now - lastSweep >= SWEEP_INTERVAL_MS) { sweepBacklogs(now); }
+    const cutoff = now - BACKLOG_TTL_MS;
+    const list = (backlogs.get(event.userId) || []).filter(e => e.at >= cutoff);
+    list.push(event);
+    if (list.length > BACKLOG_SIZE) { list.splice(0, list.length - BACKLOG_SIZE); }
+    backlogs.set(event.userId, list);
+}
+
+function deliver(event) {
+    remember(event);
+    bus.emit(event.userId, event);
+}
+
+function ensureRedisBridge() {
+    if (subscriber || !redis.isAvailable()) { return !!subscriber; }
+    try {
+        subscriber = redis.raw().duplicate();
+        subscriber.subscribe(CHANNEL).catch(err => logger.error({ err }, 'Change feed subscribe failed'));
+        subscriber.on('message', (_channel, message) => {
+            try { deliver(JSON.parse(message)); }
+            catch (err) { logger.warn({ err }, 'Dropped malformed change event'); }
+        });
+        return true;
+    } catch (err) {
+        logger.error({ err }, 'Change feed Redis bridge failed — using in-process delivery');
+        subscriber = null;
+        return false;
+    }
+}
+
+/**
+ * Publish a change to every open session of the record's owner.
+ * Never throws — a lost notification must not fail the write that caused it.
+ *
+ * @param {Object} params
+ * @param {string} params.userId - Owner of the changed record
+ * @param {'case'|'hearing'|'invoice'|'note'} params.entity
+ * @param {'created'|'updated'|'deleted'} params.action
+ * @param {string} params.entityId
+ * @param {string} [params.caseId] - Parent case, for hearings and notes
+ * @param {Object} [params.data] - The record as the REST API returns it (omitted for deletes)
+ */
+export function publishChange({ userId, entity, action, entityId, caseId, data }) {
+    try {
+        const event = {
+            id: `${Date.now().toString(36)}-${instanceId}-${++sequence}`,
+            type: `${entity}.${action}`,
+            userId: String(userId),
+            entity,
+            action,
+            entityId: String(entityId),
+            ...(caseId && { caseId: String(caseId) }),
+            ...(data && action !== 'deleted' && { data: JSON.parse(JSON.stringify(data)) }),
+            at: Date.now(),
+        };
+
+        if (ensureRedisBridge()) {
+            redis.raw().publish(CHANNEL, JSON.stringify(event)).catch(err => {
+                logger.error({ err }, 'Change feed publish failed — delivering locally');
+                deliver(event);
+            });
+        } else {
+            deliver(event);
+        }
+    } catch (err) {
+        logger.error({ err, entity, action }, 'Failed to publish change event');
+    }
+}
+
+/**
+ * Listen for a user's change events; returns the unsubscribe function.
+ */
+export function subscribeChanges(userId, listener) {
+    ensureRedisBridge();
+    const key = String(userId);
+    bus.on(key, listener);
+    return () => bus.off(key, listener);
+}
+
+/**
+ * Events published after `lastEventId`. Returns null when that id is no longer
+ * in the backlog (too old, or from another deployment), meaning the client has
+ * missed an unknown number of events and must refetch.
+ */
+export function eventsSince(userId, lastEventId) {
+    const list = backlogs.get(String(userId)) || [];
+    const index = list.findIndex(e => e.id === lastEventId);
+    return index === -1 ? null : list.slice(index + 1);
+}
+
+export default {
+    publishChange,
+    subscribeChanges,
+    eventsSince,
+};
@@ -0,0 +1,121 @@
+import mongoose from 'mongoose';
+import EntityChange from '../models/EntityChange.js';
+import logger from '../utils/logger.js';
+
+/**
+ * Field-level change history for cases, hearings, clients and invoices.
+ *
+ * Update routes call recordChange() with the document as it was before and
+ * after the write; the fields listed in TRACKED_FIELDS that differ are stored
+ * as one EntityChange entry (old → new, actor, time). Derived or internal
+ * fields (startAt/endAt, pipeline layout, timestamps) are deliberately left out
+ * so every recorded field can be reverted by sending its old value back
+ * through the normal update route.
+ */
+
+export const TRACKED_FIELDS = {
+    case: [
+        'caseNumber', 'clientName', 'opposingParty', 'courtName', 'judgeName',
+        'hearingDate', 'hearingTime', 'nextHearing', 'status', 'priority',
+        'caseType', 'description', 'notes', 'customFields', 'parties', 'tags', 'pipelineStage',
+    ],
+    hearing: [
+        'hearingDate', 'hearingTime', 'timezone', 'duration', 'courtName', 'judgeName',
+        'hearingType', 'customHearingType', 'status', 'purpose', 'courtInstructions',
+        'documentsToBring', 'proceedings', 'nextHearingDate', 'nextHearingTime',
+        'adjournmentReason', 'attendance', 'orders', 'notes',
+    ],
+    client: ['name', 'email', 'phone', 'address', 'panNumber', 'aadharNumber', 'notes', 'tags'],
+    invoice: [
+        'invoiceNumber', 'issueDate', 'dueDate', 'status', 'currency', 'items',
+        'subtotal', 'taxRate', 'taxAmount', 'discountAmount', 'total', 'notes', 'terms', 'paidAt', 'tags',
+    ],
+};
+
+/** Reduce a stored value to plain JSON so snapshots compare and serialise predictably. */
+export function normalizeValue(value) {
+    if (value === undefined || value === null || value === '') {
+        return null;
+    }
+    if (value instanceof Date) {
+        return Number.isNaN(value.getTime()) ? null : value.toISOString();
+    }
+    if (value?.toDate instanceof Function) {
+        return normalizeValue(value.toDate());
+    }
+    if (value instanceof mongoose.Types.ObjectId) {
+        return value.toString();
+    }
+    if (Array.isArray(value)) {
+        return value.length === 0 ? null : value.map(normalizeValue);
+    }
+    if (typeof value === 'object') {
+        const entries = Object.entries(value)
+            .filter(([key]) => key !== '_id' && key !== 'id')
+            .map(([key, v]) => [key, normalizeValue(v)])
+            .filter(([, v]) => v !== null);
+        return entries.length === 0 ? null : Object.fromEntries(entries);
+    }
+    return value;
+}
+
+/**
+ * Compare two snapshots of an entity over `fields`.
+ * @returns {Array<{field: string, before: *, after: *}>} one entry per changed field
+ */
+export function diffSnapshots(before, after, fields) {
+    const changes = [];
+    for (const field of fields) {
+        const previous = normalizeValue(before?.[field]);
+        const next = normalizeValue(after?.[field]);
+        if (JSON.stringify(previous) !== JSON.stringify(next)) {
+            changes.push({ field, before: previous, after: next });
+        }
+    }
+    return changes;
+}
+
+/**
+ * Store the difference between `before` and `after`. Failures are logged and
+ * swallowed — history must never fail the update that produced it.
+ */
+export async function recordChange({ entityType, entityId, owner, actorId, before, after, revertOf }) {
+    try {
+        const changes = diffSnapshots(before, after, TRACKED_FIELDS[entityType]);
+        if (changes.length === 0) {
+            return null;
+        }
+        return await EntityChange.create({
+            owner,
+            actorId,
+            entityType,
+            entityId,
+            changes,
+            revertOf: mongoose.isValidObjectId(revertOf) ? revertOf : undefined,
+        });
+    } catch (err) {
+        logger.error({ err, entityType, entityId }, 'Failed to record change history');
+        return null;
+    }
+}
+
+/** Newest-first history of one entity, with the actor's name resolved. */
+export async function listChanges(entityType, entityId, owner, limit = 100) {
+    const entries = await EntityChange.find({ entityType, entityId, owner })
+        .sort({ createdAt: -1 })
+        .limit(limit)
+        .populate('actorId', 'name email')
+        .lean();
+
+    return entries.map(entry => ({
+        id: entry._id.toString(),
+        entityType: entry.entityType,
+        entityId: entry.entityId.toString(),
+        actor: entry.actorId
+            ? { id: entry.actorId._id.toString(), name: entry.actorId.name || entry.actorId.email }
+            : null,
+        changes: entry.changes,
+        revertOf: entry.revertOf?.toString() ?? null,
+        createdAt: entry.createdAt,
+    }));
+}
@@ -0,0 +1,46 @@
+import mongoose from 'mongoose';
+import Case from '../models/Case.js';
+
+/**
+ * Case figures for the client list: how many cases each client has, how many
+ * are active, and the next hearing among them. Cases belong to the client
+ * named in their `clientName`.
+ */
+
+/**
+ * Summarise the cases of the named clients.
+ * @param {string[]} names - Client names, as the cases record them
+ * @param {Date} [now] - Hearings after this count as upcoming
+ * @returns {Promise<Map<string, {total: number, active: number, nextHearing: {caseNumber: string, date: Date}|null}>>}
+ *   client name → summary, for every name given
+ */
+export async function summarizeClientCases(ownerId, names, now = new Date()) {
+    const rows = names.length > 0
+        ? await Case.aggregate([
+            { $match: { owner: new mongoose.Types.ObjectId(String(ownerId)), clientName: { $in: names } } },
+            {
+                $group: {
+                    _id: '$clientName',
+                    total: { $sum: 1 },
+                    active: { $sum: { $cond: [{ $eq: ['$status', 'active'] }, 1, 0] } },
+                    // $min skips the nulls and compares the rest by date first
+                    nextHearing: {
+                        $min: {
+                            $cond: [
+                                { $gt: ['$nextHearing', now] },
+                                { date: '$nextHearing', caseNumber: '$caseNumber' },
+                                null,
+                            ],
+                        },
+                    },
+                },
+            },
+        ])
+        : [];
+
+    const found = new Map(rows.map(({ _id, total, active, nextHearing }) => [
+        _id,
+        { total, active, nextHearing: nextHearing ? { caseNumber: nextHearing.caseNumber, date: nextHearing.date } : null },
+    ]));
+    return new Map(names.map(name => [name, found.get(name) ?? { total: 0, active: 0, nextHearing: null }]));
+}
@@ -0,0 +1,362 @@
+import mongoose from 'mongoose';
+import Case from '../models/Case.js';
+import Court from '../models/Court.js';
+import Hearing from '../models/Hearing.js';
+import Judge from '../models/Judge.js';
+import { COURT_LEVELS } from '../schemas/validation-schemas.js';
+import { publishChange } from './changeFeed.js';
+import { recordChange } from './changeHistory.js';
+
+/**
+ * The court and judge directory, and the link between it and the free-text
+ * courtName / judgeName on cases and hearings.
+ *
+ * A firm sees the shared entries (no owner) and its own. Cases and hearings
+ * keep their courtName / judgeName text; courtId / judgeId record the entry it
+ * came from, set when picked from the directory or when the text matches an
+ * entry. The name clean-up groups a firm's unlinked spellings into clusters
+ * and rewrites a cluster to one directory entry.
+ */
+
+export class DirectoryError extends Error {
+    constructor(message, status = 400) {
+        super(message);
+        this.name = 'DirectoryError';
+        this.status = status;
+    }
+}
+
+export const DIRECTORY_FIELDS = {
+    court: { text: 'courtName', ref: 'courtId' },
+    judge: { text: 'judgeName', ref: 'judgeId' },
+};
+
+const MAX_TEXT_LENGTH = 200;
+const MAX_LIST_ITEMS = 50;
+const MAX_CLUSTERS = 200;
+const MIN_SIMILARITY = 0.6;
+
+const ABBREVIATIONS = {
+    hc: ['high', 'court'],
+    sc: ['supreme', 'court'],
+    dist: ['district'],
+    distt: ['district'],
+    addl: ['additional'],
+    spl: ['special'],
+    jt: ['joint'],
+    sr: ['senior'],
+    jr: ['junior'],
+    civ: ['civil'],
+    crl: ['criminal'],
+};
+const COURT_STOP_WORDS = new Set(['the', 'of', 'at', 'hon', 'honble', 'ble', 'and']);
+const JUDGE_TITLES = new Set([
+    'the', 'hon', 'honble', 'ble', 'mr', 'mrs', 'ms', 'dr', 'shri', 'sri', 'smt', 'kumari',
+    'justice', 'judge', 'j', 'cj', 'chief',
+]);
+
+const visibleTo = (owner) => ({ $or: [{ owner: null }, { owner }] });
+const escapeRegex = (text) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+function tokens(text) {
+    return String(text || '')
+        .toLowerCase()
+        .replace(/&/g, ' and ')
+        .replace(/[^a-z0-9\s]/g, ' ')
+        .split(/\s+/)
+        .filter(Boolean);
+}
+
+/** Order-free key of a court name: "High Court of Delhi", "Delhi HC" and "delhi high court" agree. */
+export function courtKey(text) {
+    return tokens(text)
+        .flatMap(token => ABBREVIATIONS[token] || [token])
+        .filter(token => !COURT_STOP_WORDS.has(token))
+        .sort()
+        .join(' ');
+}
+
+/** Key of a judge's name without titles: "Hon'ble Mr. Justice A. K. Rao" → "a k rao". */
+export function judgeKey(text) {
+    return tokens(text).filter(token => !JUDGE_TITLES.has(token)).sort().join(' ');
+}
+
+/** Share of words two keys have in common (Jaccard), 0–1. */
+export function keySimilarity(a, b) {
+    const left = new Set(a.split(' ').filter(Boolean));
+    const right = new Set(b.split(' ').filter(Boolean));
+    if (left.size === 0 || right.size === 0) {
+        return 0;
+    }
+    const shared = [...left].filter(word => right.has(word)).length;
+    return shared / (left.size + right.size - shared);
+}
+
+/** The courtName a case or hearing gets when this court is picked. */
+export const courtLabel = (court) => (court.bench ? `${court.name}, ${court.bench}` : court.name);
+
+export const toApiCourt = (court) => ({
+    id: court._id.toString(),
+    name: court.name,
+    label: courtLabel(court),
+    level: court.level,
+    bench: court.bench || '',
+    complex: court.complex || '',
+    city: court.city || '',
+    state: court.state || '',
+    courtHalls: court.courtHalls || [],
+    aliases: court.aliases || [],
+    shared: !court.owner,
+});
+
+export const toApiJudge = (judge, courtLabels = new Map()) => ({
+    id: judge._id.toString(),
+    name: judge.name,
+    designation: judge.designation || '',
+    courtId: judge.courtId ? judge.courtId.toString() : null,
+    courtLabel: judge.courtId ? courtLabels.get(judge.courtId.toString()) || '' : '',
+    aliases: judge.aliases || [],
+    shared: !judge.owner,
+});
+
+function optionalText(value, label) {
+    if (value === undefined || value === null) {
+        return '';
+    }
+    if (typeof value !== 'string' || value.trim().length > MAX_TEXT_LENGTH) {
+        throw new DirectoryError(`${label} must be text of at most ${MAX_TEXT_LENGTH} characters`);
+    }
+    return value.trim();
+}
+
+function textList(value, label) {
+    if (value === undefined || value === null) {
+        return [];
+    }
+    if (!Array.isArray(value) || value.length > MAX_LIST_ITEMS) {
+        throw new DirectoryError(`${label} must be a list of at most ${MAX_LIST_ITEMS} entries`);
+    }
+    return [...new Set(value.map(item => optionalText(item, label)).filter(Boolean))];
+}
+
+/** Validate the fields of a court a firm adds or edits. */
+export function normalizeCourtInput(body = {}) {
+    const name = optionalText(body.name, 'Court name');
+    if (!name) {
+        throw new DirectoryError('Court name is required');
+    }
+    const level = body.level ?? 'other';
+    if (!COURT_LEVELS.includes(level)) {
+        throw new DirectoryError(`Court level must be one of: ${COURT_LEVELS.join(', ')}`);
+    }
+    return {
+        name,
+        level,
+        bench: optionalText(body.bench, 'Bench') || null,
+        complex: optionalText(body.complex, 'Court complex'),
+        city: optionalText(body.city, 'City'),
+        state: optionalText(body.state, 'State'),
+        courtHalls: textList(body.courtHalls, 'Court halls'),
+        aliases: textList(body.aliases, 'Other names'),
+    };
+}
+
+/** Validate the fields of a judge a firm adds or edits; the court must be one the firm sees. */
+export async function normalizeJudgeInput(owner, body = {}) {
+    const name = optionalText(body.name, 'Judge name');
+    if (!name) {
+        throw new DirectoryError('Judge name is required');
+    }
+    let courtId = null;
+    if (body.courtId) {
+        if (!mongoose.isValidObjectId(body.courtId) || !(await Court.exists({ _id: body.courtId, ...visibleTo(owner) }))) {
+            throw new DirectoryError('Court not found in the directory');
+        }
+        courtId = body.courtId;
+    }
+    return {
+        name,
+        designation: optionalText(body.designation, 'Designation'),
+        courtId,
+        aliases: textList(body.aliases, 'Other names'),
+    };
+}
+
+/** Courts the firm sees, matching a search over name, bench, complex, city and other names. */
+export async function searchCourts(owner, query = '', limit = 500) {
+    const filter = { ...visibleTo(owner) };
+    const q = String(query || '').trim();
+    if (q) {
+        const pattern = new RegExp(escapeRegex(q), 'i');
+        filter.$and = [{ $or: ['name', 'bench', 'complex', 'city', 'aliases'].map(field => ({ [field]: pattern })) }];
+    }
+    const courts = await Court.find(filter).sort({ level: 1, name: 1, bench: 1 }).limit(limit).lean();
+    // The firm's own entries first, then the shared directory
+    return courts.sort((a, b) => Number(!a.owner) - Number(!b.owner)).map(toApiCourt);
+}
+
+/** Judges the firm sees, optionally only those of one court, matching a search over names. */
+export async function searchJudges(owner, { query = '', courtId } = {}, limit = 500) {
+    const filter = { ...visibleTo(owner) };
+    if (courtId) {
+        if (!mongoose.isValidObjectId(courtId)) {
+            throw new DirectoryError('Invalid court');
+        }
+        filter.courtId = courtId;
+    }
+    const q = String(query || '').trim();
+    if (q) {
+        const pattern = new RegExp(escapeRegex(q), 'i');
+        filter.$and = [{ $or: [{ name: pattern }, { aliases: pattern }] }];
+    }
+    const judges = await Judge.find(filter).sort({ name: 1 }).limit(limit).lean();
+    const courts = await Court.find({ _id: { $in: judges.map(j => j.courtId).filter(Boolean) } }).lean();
+    const labels = new Map(courts.map(court => [court._id.toString(), courtLabel(court)]));
+    return judges.map(judge => toApiJudge(judge, labels));
+}
+
+/** Every key a directory entry answers to: its label, its name and its other names. */
+function entryKeys(field, entry) {
+    const keyOf = field === 'court' ? courtKey : judgeKey;
+    const names = field === 'court' ? [courtLabel(entry), entry.name, ...(entry.aliases || [])] : [entry.name, ...(entry.aliases || [])];
+    return [...new Set(names.map(keyOf).filter(Boolean))];
+}
+
+function directoryEntries(field, owner) {
+    const model = field === 'court' ? Court : Judge;
+    return model.find(visibleTo(owner)).lean();
+}
+
+/**
+ * The directory entry a piece of text names: an exact key match, or failing
+ * that (when `closest` is set) the most similar entry above MIN_SIMILARITY.
+ */
+function matchEntry(field, text, entries, { closest = false } = {}) {
+    const key = (field === 'court' ? courtKey : judgeKey)(text);
+    if (!key) {
+        return null;
+    }
+    let best = null;
+    for (const entry of entries) {
+        const keys = entryKeys(field, entry);
+        if (keys.includes(key)) {
+            return { entry, exact: true };
+        }
+        if (closest) {
+            const score = Math.max(...keys.map(candidate => keySimilarity(key, candidate)));
+            if (score >= MIN_SIMILARITY && (!best || score > best.score)) {
+                best = { entry, exact: false, score };
+            }
+        }
+    }
+    return best;
+}
+
+const entryLabel = (field, entry) => (field === 'court' ? courtLabel(entry) : entry.name);
+
+async function checkEntry(field, owner, id) {
+    const model = field === 'court' ? Court : Judge;
+    const entry = mongoose.isValidObjectId(id) ? await model.findOne({ _id: id, ...visibleTo(owner) }).lean() : null;
+    if (!entry) {
+        throw new DirectoryError(`${field === 'court' ? 'Court' : 'Judge'} not found in the directory`);
+    }
+    return entry;
+}
+
+/**
+ * The courtId / judgeId of a case or hearing being saved. An id sent by the
+ * form is checked against the directory (null or '' clears it); a name sent
+ * without one is linked when it matches an entry exactly, and unlinked when
+ * not. Returns { fields, error } like caseNumberFields.
+ */
+export async function resolveDirectoryLinks(owner, body) {
+    const fields = {};
+    try {
+        for (const [field, { text, ref }] of Object.entries(DIRECTORY_FIELDS)) {
+            if (body[ref] !== undefined) {
+                fields[ref] = body[ref] ? (await checkEntry(field, owner, body[ref]))._id : null;
+            } else if (body[text] !== undefined) {
+                const match = body[text] ? matchEntry(field, body[text], await directoryEntries(field, owner)) : null;
+                fields[ref] = match ? match.entry._id : null;
+            }
+        }
+    } catch (error) {
+        if (error instanceof DirectoryError) {
+            return { fields, error: error.message };
+        }
+        throw error;
+    }
+    return { fields, error: undefined };
+}
+
+/**
+ * The firm's unlinked court or judge names grouped into clusters of spellings
+ * of the same name, largest first, each with the directory entry it matches.
+ */
+export async function findNameClusters(owner, field) {
+    const { text, ref } = DIRECTORY_FIELDS[field];
+    const ownerId = new mongoose.Types.ObjectId(String(owner));
+    const pipeline = [
+        { $match: { owner: ownerId, [ref]: null, [text]: { $nin: [null, ''] } } },
+        { $group: { _id: `$${text}`, count: { $sum: 1 } } },
+    ];
+    const [fromCases, fromHearings] = await Promise.all([Case.aggregate(pipeline), Hearing.aggregate(pipeline)]);
+
+    const keyOf = field === 'court' ? courtKey : judgeKey;
+    const clusters = new Map();
+    [...fromCases, ...fromHearings].forEach(({ _id: value, count }) => {
+        const key = keyOf(value) || String(value).trim().toLowerCase();
+        const cluster = clusters.get(key) || { key, values: new Map(), total: 0 };
+        cluster.values.set(value, (cluster.values.get(value) || 0) + count);
+        cluster.total += count;
+        clusters.set(key, cluster);
+    });
+
+    const entries = await directoryEntries(field, owner);
+    return [...clusters.values()]
+        .sort((a, b) => b.total - a.total)
+        .slice(0, MAX_CLUSTERS)
+        .map(cluster => {
+            const values = [...cluster.values.entries()]
+                .map(([value, count]) => ({ value, count }))
+                .sort((a, b) => b.count - a.count);
+            const match = matchEntry(field, values[0].value, entries, { closest: true });
+            return {
+                key: cluster.key,
+                values,
+                total: cluster.total,
+                match: match ? { id: match.entry._id.toString(), label: entryLabel(field, match.entry), exact: match.exact } : null,
+            };
+        });
+}
+
+/**
+ * Point every case and hearing written with one of `values` at a directory
+ * entry: the text becomes the entry's name and the id is linked. Each record
+ * changed is recorded in the change history.
+ */
+export async function applyNameCluster(owner, field, { values, targetId }) {
+    if (!Array.isArray(values) || values.length === 0 || values.length > MAX_LIST_ITEMS || values.some(v => typeof v !== 'string')) {
+        throw new DirectoryError(`Names must be a list of 1-${MAX_LIST_ITEMS} values`);
+    }
+    const entry = await checkEntry(field, owner, targetId);
+    const { text, ref } = DIRECTORY_FIELDS[field];
+    const updates = { [text]: entryLabel(field, entry), [ref]: entry._id };
+
+    let updated = 0;
+    for (const [model, entityType] of [[Case, 'case'], [Hearing, 'hearing']]) {
+        const records = await model.find({ owner, [text]: { $in: values } }).lean();
+        for (const before of records) {
+            const after = await model.findOneAndUpdate({ _id: before._id, owner }, { $set: updates }, { new: true }).lean();
+            if (!after) {
+                continue;
+            }
+            const apiBefore = { id: before._id.toString(), ...before, _id: undefined };
+            const apiAfter = { id: after._id.toString(), ...after, _id: undefined };
+            await recordChange({ entityType, entityId: after._id, owner, actorId: owner, before: apiBefore, after: apiAfter });
+            publishChange({ userId: owner, entity: entityType, action: 'updated', entityId: apiAfter.id, data: apiAfter });
+            updated += 1;
+        }
+    }
+    return { updated, label: updates[text] };
+}
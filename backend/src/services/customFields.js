@@ -0,0 +1,205 @@
+import mongoose from 'mongoose';
+import { escapeRegex } from './listQuery.js';
+import { CUSTOM_FIELD_TYPES } from '../schemas/validation-schemas.js';
+
+/**
+ * Custom case fields.
+ *
+ * A firm defines, per caseType, a list of extra fields (CaseFieldSchema).
+ * Their values are stored on the case as `customFields.<key>`. This module
+ * validates definitions, coerces submitted values against them, and turns
+ * them into search and filter conditions for the case list.
+ */
+
+const MAX_FIELDS = 50;
+const KEY_PATTERN = /^[a-z][a-z0-9_]{0,39}$/;
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+export class CustomFieldError extends Error {
+    constructor(message, status = 400) {
+        super(message);
+        this.name = 'CustomFieldError';
+        this.status = status;
+    }
+}
+
+/** Derive a placeholder-safe key from a label: "Date of Marriage" → "date_of_marriage". */
+export function fieldKeyFromLabel(label) {
+    return String(label || '')
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '_')
+        .replace(/^[^a-z]+|_+$/g, '')
+        .slice(0, 40);
+}
+
+/**
+ * Validate and normalise a list of field definitions.
+ * @throws {CustomFieldError} on a malformed or duplicate definition
+ */
+export function normalizeFieldDefinitions(fields) {
+    if (!Array.isArray(fields)) {
+        throw new CustomFieldError('fields must be an array');
+    }
+    if (fields.length > MAX_FIELDS) {
+        throw new CustomFieldError(`A case type can have at most ${MAX_FIELDS} custom fields`);
+    }
+
+    const seen = new Set();
+    return fields.map((field, index) => {
+        const label = String(field?.label || '').trim();
+        if (!label) {
+            throw new CustomFieldError(`Field ${index + 1} needs a label`);
+        }
+        const key = field.key ? String(field.key) : fieldKeyFromLabel(label);
+        if (!KEY_PATTERN.test(key)) {
+            throw new CustomFieldError(`"${label}" needs a key of lowercase letters, digits and underscores`);
+        }
+        if (seen.has(key)) {
+            throw new CustomFieldError(`Duplicate field key "${key}"`);
+        }
+        seen.add(key);
+        if (!CUSTOM_FIELD_TYPES.includes(field.type)) {
+            throw new CustomFieldError(`"${label}" has an unknown type`);
+        }
+
+        const options = ['select', 'multiselect'].includes(field.type)
+            ? [...new Set((field.options || []).map(o => String(o).trim()).filter(Boolean))]
+            : [];
+        if (['select', 'multiselect'].includes(field.type) && options.length === 0) {
+            throw new CustomFieldError(`"${label}" needs at least one option`);
+        }
+
+        return { key, label, type: field.type, options, required: !!field.required };
+    });
+}
+
+function isEmpty(value) {
+    return value === undefined || value === null || value === ''
+        || (Array.isArray(value) && value.length === 0);
+}
+
+function coerceValue(def, value) {
+    switch (def.type) {
+        case 'text':
+            return { value: String(value).trim() };
+        case 'number': {
+            const n = typeof value === 'number' ? value : Number(String(value).trim());
+            return Number.isFinite(n) ? { value: n } : { error: 'must be a number' };
+        }
+        case 'date': {
+            // Stored as YYYY-MM-DD so it reads back the same in every timezone
+            const text = value instanceof Date ? value.toISOString() : String(value);
+            const day = text.slice(0, 10);
+            return DATE_ONLY.test(day) && !Number.isNaN(Date.parse(day))
+                ? { value: day }
+                : { error: 'must be a date' };
+        }
+        case 'select':
+            return def.options.includes(String(value))
+                ? { value: String(value) }
+                : { error: 'is not one of the allowed options' };
+        case 'multiselect': {
+            const list = (Array.isArray(value) ? value : [value]).map(String);
+            const invalid = list.filter(v => !def.options.includes(v));
+            return invalid.length === 0
+                ? { value: [...new Set(list)] }
+                : { error: `has unknown options: ${invalid.join(', ')}` };
+        }
+        case 'party':
+            return mongoose.isValidObjectId(value)
+                ? { value: String(value) }
+                : { error: 'must reference a client' };
+        default:
+            return { error: 'has an unknown type' };
+    }
+}
+
+/**
+ * Coerce submitted values against the field definitions of the case's type.
+ * Keys without a definition are dropped; empty values are omitted.
+ * @returns {{values: Object, errors: string[]}}
+ */
+export function coerceCustomFields(defs, input) {
+    const values = {};
+    const errors = [];
+    const source = input && typeof input === 'object' ? input : {};
+
+    for (const def of defs || []) {
+        const raw = source[def.key];
+        if (isEmpty(raw)) {
+            if (def.required) {
+                errors.push(`${def.label} is required`);
+            }
+            continue;
+        }
+        const { value, error } = coerceValue(def, raw);
+        if (error) {
+            errors.push(`${def.label} ${error}`);
+        } else if (!isEmpty(value)) {
+            values[def.key] = value;
+        }
+    }
+
+    return { values, errors };
+}
+
+/** Fields across all of the owner's schemas, one definition per key (first wins). */
+export function mergeFieldDefinitions(schemas) {
+    const byKey = new Map();
+    for (const schema of schemas || []) {
+        for (const def of schema.fields || []) {
+            if (!byKey.has(def.key)) {
+                byKey.set(def.key, def);
+            }
+        }
+    }
+    return [...byKey.values()];
+}
+
+/** Free-text search conditions over custom text and select values. */
+export function customFieldSearch(defs, q) {
+    const search = typeof q === 'string' ? q.trim().slice(0, 100) : '';
+    if (!search) {
+        return [];
+    }
+    const pattern = { $regex: escapeRegex(search), $options: 'i' };
+    return defs
+        .filter(def => ['text', 'select', 'multiselect'].includes(def.type))
+        .map(def => ({ [`customFields.${def.key}`]: pattern }));
+}
+
+/**
+ * Filter conditions from `?cf[key]=value` query params. Unknown keys and
+ * unparseable values are ignored rather than rejected, since
+ * a schema may change while a saved filter still refers to an old key.
+ */
+export function customFieldConditions(defs, cf) {
+    if (!cf || typeof cf !== 'object') {
+        return [];
+    }
+    const conditions = [];
+    for (const def of defs) {
+        const raw = cf[def.key];
+        if (typeof raw !== 'string' || raw.trim() === '') {
+            continue;
+        }
+        const path = `customFields.${def.key}`;
+        const value = raw.trim();
+        if (def.type === 'text') {
+            conditions.push({ [path]: { $regex: escapeRegex(value), $options: 'i' } });
+        } else if (def.type === 'number') {
+            const n = Number(value);
+            if (Number.isFinite(n)) {
+                conditions.push({ [path]: n });
+            }
+        } else if (def.type === 'date') {
+            if (DATE_ONLY.test(value)) {
+                conditions.push({ [path]: value });
+            }
+        } else {
+            // select / party match the value; multiselect matches any element
+            conditions.push({ [path]: value });
+        }
+    }
+    return conditions;
+}
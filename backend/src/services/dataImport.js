@@ -0,0 +1,631 @@
+import Case from '../models/Case.js';
+import Client from '../models/Client.js';
+import Hearing from '../models/Hearing.js';
+import {
+    CASE_PRIORITIES,
+    CASE_STATUSES,
+    HEARING_STATUSES,
+    validateAadhar,
+    validateEmail,
+    validateMobileNumber,
+    validatePAN,
+} from '../schemas/validation-schemas.js';
+import { caseNumberFields, caseNumberKey } from '../utils/caseNumber.js';
+import { computeHearingTimes } from '../utils/conflictDetection.js';
+import { excelSerialToDate } from '../utils/spreadsheet.js';
+import { ARCHIVED_CASE_MESSAGE, isArchived } from './caseClosure.js';
+import { recordChange } from './changeHistory.js';
+import { moveToTrash } from './trash.js';
+
+/**
+ * Spreadsheet import of cases, clients and hearings.
+ *
+ * An uploaded sheet is kept as a draft ImportBatch. The user maps columns to
+ * fields (suggestMapping guesses from the headers), previews the validation
+ * errors and duplicates, and applies it. Rows with errors are left out;
+ * duplicates of existing records are skipped unless the user chose to merge
+ * them, in which case the mapped non-empty values overwrite the record. The
+ * applied batch lists every record it created and every field it replaced, so
+ * revertImport can undo it in one go.
+ *
+ * Duplicates are matched on case number plus court for cases, email or phone
+ * for clients, and case plus day for hearings. Hearings attach to an existing
+ * case by its number (and court, when mapped). Rows that would add to or
+ * change an archived case are refused. Imported hearings skip the
+ * conflict check: they are a copy of a diary that already happened or is
+ * already listed.
+ */
+
+export const DATE_FORMATS = ['DD/MM/YYYY', 'MM/DD/YYYY', 'YYYY-MM-DD'];
+const MAX_PREVIEW_ISSUES = 500;
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+/**
+ * Importable fields per record type. `aliases` are header spellings that map
+ * to the field automatically, compared without case, spaces or punctuation.
+ */
+export const IMPORT_FIELDS = {
+    case: [
+        { key: 'caseNumber', label: 'Case number', required: true, aliases: ['caseno', 'casenumber', 'caseref', 'suitno', 'matterno', 'filingno'] },
+        { key: 'clientName', label: 'Client', required: true, aliases: ['client', 'clientname', 'ourclient'] },
+        { key: 'opposingParty', label: 'Opposing party', aliases: ['opposingparty', 'opponent', 'respondent', 'versus', 'vs', 'otherside'] },
+        { key: 'courtName', label: 'Court', aliases: ['court', 'courtname', 'forum', 'bench'] },
+        { key: 'judgeName', label: 'Judge', aliases: ['judge', 'judgename', 'coram'] },
+        { key: 'caseType', label: 'Case type', aliases: ['casetype', 'type', 'category', 'nature'] },
+        { key: 'status', label: 'Status', type: 'enum', options: CASE_STATUSES, aliases: ['status', 'casestatus'] },
+        { key: 'priority', label: 'Priority', type: 'enum', options: CASE_PRIORITIES, aliases: ['priority'] },
+        { key: 'nextHearing', label: 'Next hearing', type: 'date', aliases: ['nexthearing', 'nexthearingdate', 'nextdate', 'ndoh', 'hearingdate'] },
+        { key: 'description', label: 'Description', aliases: ['description', 'subject', 'details'] },
+        { key: 'notes', label: 'Notes', aliases: ['notes', 'remarks', 'comments'] },
+    ],
+    client: [
+        { key: 'name', label: 'Name', required: true, aliases: ['name', 'clientname', 'client', 'fullname'] },
+        { key: 'email', label: 'Email', required: true, type: 'email', aliases: ['email', 'emailid', 'emailaddress', 'mail'] },
+        { key: 'phone', label: 'Phone', required: true, type: 'phone', aliases: ['phone', 'mobile', 'mobileno', 'mobilenumber', 'phoneno', 'phonenumber', 'contact', 'contactno'] },
+        { key: 'address', label: 'Address', aliases: ['address', 'addr'] },
+        { key: 'panNumber', label: 'PAN', type: 'pan', aliases: ['pan', 'panno', 'pannumber', 'pancard'] },
+        { key: 'aadharNumber', label: 'Aadhaar', type: 'aadhar', aliases: ['aadhar', 'aadhaar', 'aadharno', 'aadhaarno', 'aadharnumber', 'aadhaarnumber'] },
+        { key: 'notes', label: 'Notes', aliases: ['notes', 'remarks', 'comments'] },
+    ],
+    hearing: [
+        { key: 'caseNumber', label: 'Case number', required: true, aliases: ['caseno', 'casenumber', 'caseref', 'suitno', 'matterno'] },
+        { key: 'courtName', label: 'Court', aliases: ['court', 'courtname', 'forum', 'bench'] },
+        { key: 'hearingDate', label: 'Hearing date', required: true, type: 'date', aliases: ['hearingdate', 'date', 'dateofhearing', 'doh'] },
+        { key: 'hearingTime', label: 'Time', type: 'time', aliases: ['time', 'hearingtime'] },
+        { key: 'judgeName', label: 'Judge', aliases: ['judge', 'judgename', 'coram'] },
+        { key: 'purpose', label: 'Purpose', aliases: ['purpose', 'stage', 'listedfor'] },
+        { key: 'status', label: 'Status', type: 'enum', options: HEARING_STATUSES, aliases: ['status'] },
+        { key: 'proceedings', label: 'Proceedings', aliases: ['proceedings', 'business', 'outcome'] },
+        { key: 'notes', label: 'Notes', aliases: ['notes', 'remarks', 'comments'] },
+    ],
+};
+
+const MODELS = { case: Case, client: Client, hearing: Hearing };
+
+export class ImportError extends Error {
+    constructor(message, status = 400) {
+        super(message);
+        this.name = 'ImportError';
+        this.status = status;
+    }
+}
+
+const normalizeHeader = (text) => String(text).toLowerCase().replace(/[^a-z0-9]/g, '');
+const normalizeKey = (text) => String(text || '').trim().toLowerCase().replace(/\s+/g, ' ');
+
+/** Guess the column for each field from the headers: exact alias matches first, then headers containing one. */
+export function suggestMapping(entity, headers) {
+    const normalized = headers.map(normalizeHeader);
+    const taken = new Set();
+    const mapping = {};
+    for (const pass of ['exact', 'contains']) {
+        for (const field of IMPORT_FIELDS[entity]) {
+            if (mapping[field.key] !== undefined) {
+                continue;
+            }
+            const names = [normalizeHeader(field.key), ...field.aliases];
+            const index = normalized.findIndex((header, i) => !taken.has(i) && header && names.some(name =>
+                pass === 'exact' ? header === name : name.length > 3 && header.includes(name)));
+            if (index >= 0) {
+                mapping[field.key] = index;
+                taken.add(index);
+            }
+        }
+    }
+    return mapping;
+}
+
+/**
+ * Validate a column mapping against the headers: known fields, columns in
+ * range, each column used once, every required field mapped.
+ * @returns {Object<string, number>}
+ * @throws {ImportError}
+ */
+export function normalizeMapping(entity, headers, input) {
+    if (!input || typeof input !== 'object') {
+        throw new ImportError('Map the columns before importing');
+    }
+    const mapping = {};
+    const used = new Set();
+    for (const field of IMPORT_FIELDS[entity]) {
+        const raw = input[field.key];
+        if (raw === undefined || raw === null || raw === '') {
+            if (field.required) {
+                throw new ImportError(`Choose the column for ${field.label}`);
+            }
+            continue;
+        }
+        const index = Number(raw);
+        if (!Number.isInteger(index) || index < 0 || index >= headers.length) {
+            throw new ImportError(`The column chosen for ${field.label} is not in the file`);
+        }
+        if (used.has(index)) {
+            throw new ImportError(`"${headers[index]}" is mapped to more than one field`);
+        }
+        used.add(index);
+        mapping[field.key] = index;
+    }
+    return mapping;
+}
+
+function buildDate(year, month, day) {
+    const fullYear = year < 100 ? (year < 70 ? 2000 + year : 1900 + year) : year;
+    const date = new Date(Date.UTC(fullYear, month - 1, day));
+    return date.getUTCFullYear() === fullYear && date.getUTCMonth() === month - 1 && date.getUTCDate() === day
+        ? date
+        : null;
+}
+
+/**
+ * Read a spreadsheet date: the user's date format (with /, - or . between the
+ * parts), ISO dates, "12-Jan-2024" style month names and Excel serial numbers.
+ * @returns {Date|null} UTC midnight of the day, or null if it is not a date
+ */
+export function parseImportDate(value, dateFormat = 'DD/MM/YYYY') {
+    const text = String(value).trim();
+    let match = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T ].*)?$/);
+    if (match) {
+        return buildDate(Number(match[1]), Number(match[2]), Number(match[3]));
+    }
+    if (/^\d{5}(\.\d+)?$/.test(text)) {
+        return parseImportDate(excelSerialToDate(Number(text)));
+    }
+    match = text.match(/^(\d{1,2})[\s\-/.]+([a-z]{3,9})[\s\-/.,]+(\d{2,4})$/i);
+    if (match) {
+        const month = MONTHS.indexOf(match[2].slice(0, 3).toLowerCase()) + 1;
+        return month ? buildDate(Number(match[3]), month, Number(match[1])) : null;
+    }
+    match = text.match(/^(\d{1,4})[-/.](\d{1,2})[-/.](\d{1,4})$/);
+    if (!match) {
+        return null;
+    }
+    const [a, b, c] = match.slice(1).map(Number);
+    switch (dateFormat) {
+        case 'MM/DD/YYYY':
+            return buildDate(c, a, b);
+        case 'YYYY-MM-DD':
+            return buildDate(a, b, c);
+        default:
+            return buildDate(c, b, a);
+    }
+}
+
+/** 24-hour HH:mm from "14:30", "2.30 pm" or "2 PM"; null if unreadable. */
+export function parseImportTime(value) {
+    const match = String(value).trim().match(/^(\d{1,2})(?:[:.](\d{2}))?\s*([ap]\.?m\.?)?$/i);
+    if (!match) {
+        return null;
+    }
+    let hours = Number(match[1]);
+    const minutes = Number(match[2] || 0);
+    const meridiem = match[3]?.[0].toLowerCase();
+    if (meridiem && (hours < 1 || hours > 12)) {
+        return null;
+    }
+    if (meridiem === 'p' && hours < 12) {
+        hours += 12;
+    } else if (meridiem === 'a' && hours === 12) {
+        hours = 0;
+    }
+    if (hours > 23 || minutes > 59 || (!meridiem && !match[2])) {
+        return null;
+    }
+    return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+}
+
+/** Indian mobile numbers, also written with +91 or a leading 0. */
+function normalizePhone(value) {
+    let digits = String(value).replace(/\D/g, '');
+    if (digits.length === 12 && digits.startsWith('91')) {
+        digits = digits.slice(2);
+    } else if (digits.length === 11 && digits.startsWith('0')) {
+        digits = digits.slice(1);
+    }
+    return validateMobileNumber(digits);
+}
+
+function readField(field, raw, dateFormat) {
+    switch (field.type) {
+        case 'date': {
+            const date = parseImportDate(raw, dateFormat);
+            return date ? { value: date } : { error: `${field.label}: "${raw}" is not a date in ${dateFormat} format` };
+        }
+        case 'time': {
+            const time = parseImportTime(raw);
+            return time ? { value: time } : { error: `${field.label}: "${raw}" is not a time` };
+        }
+        case 'enum': {
+            const option = raw.toLowerCase();
+            return field.options.includes(option)
+                ? { value: option }
+                : { error: `${field.label} must be one of: ${field.options.join(', ')}` };
+        }
+        case 'email': {
+            const result = validateEmail(raw);
+            return result.valid ? { value: result.normalized } : { error: `${field.label}: ${result.error}` };
+        }
+        case 'phone': {
+            const result = normalizePhone(raw);
+            return result.valid ? { value: result.normalized } : { error: `${field.label}: ${result.error}` };
+        }
+        case 'pan': {
+            const result = validatePAN(raw);
+            return result.valid ? { value: result.normalized } : { error: result.error };
+        }
+        case 'aadhar': {
+            const result = validateAadhar(raw);
+            return result.valid ? { value: result.normalized } : { error: result.error };
+        }
+        default:
+            return { value: raw };
+    }
+}
+
+/**
+ * Turn one spreadsheet row into field values.
+ * @returns {{ values: Object, errors: string[] }} values holds only the mapped, non-empty fields
+ */
+export function readRow(entity, row, mapping, dateFormat) {
+    const values = {};
+    const errors = [];
+    for (const field of IMPORT_FIELDS[entity]) {
+        const index = mapping[field.key];
+        const raw = index === undefined ? '' : String(row[index] ?? '').trim();
+        if (!raw) {
+            if (field.required) {
+                errors.push(`${field.label} is required`);
+            }
+            continue;
+        }
+        const { value, error } = readField(field, raw, dateFormat);
+        if (error) {
+            errors.push(error);
+        } else {
+            values[field.key] = value;
+        }
+    }
+    return { values, errors };
+}
+
+const caseKey = (caseNumber, courtName) => `${caseNumberKey(caseNumber)}|${normalizeKey(courtName)}`;
+const dayKey = (date) => new Date(date).toISOString().slice(0, 10);
+
+/**
+ * Load what rows are checked against: existing records for duplicates and,
+ * for hearings, the cases they attach to.
+ */
+async function loadContext(entity, owner) {
+    if (entity === 'client') {
+        const clients = await Client.find({ owner }).select('name email phone').lean();
+        return {
+            byEmail: new Map(clients.map(c => [normalizeKey(c.email), c])),
+            byPhone: new Map(clients.filter(c => c.phone).map(c => [String(c.phone).replace(/\D/g, ''), c])),
+        };
+    }
+    const cases = await Case.find({ owner }).select('caseNumber courtName clientName archivedAt').lean();
+    const byKey = new Map(cases.map(c => [caseKey(c.caseNumber, c.courtName), c]));
+    const byNumber = new Map();
+    cases.forEach(c => {
+        const number = caseNumberKey(c.caseNumber);
+        byNumber.set(number, [...(byNumber.get(number) || []), c]);
+    });
+    if (entity === 'case') {
+        return { byKey };
+    }
+    const hearings = await Hearing.find({ owner, caseId: { $in: cases.map(c => c._id) } }).select('caseId hearingDate').lean();
+    return {
+        byKey,
+        byNumber,
+        hearingsByKey: new Map(hearings.map(h => [`${h.caseId}|${dayKey(h.hearingDate)}`, h])),
+    };
+}
+
+/** For a hearing row, the case it belongs to, or an error explaining why none fits. */
+function findCaseForHearing(values, context) {
+    if (values.courtName) {
+        const match = context.byKey.get(caseKey(values.caseNumber, values.courtName));
+        if (match) {
+            return { caseDoc: match };
+        }
+    }
+    const candidates = context.byNumber.get(caseNumberKey(values.caseNumber)) || [];
+    if (candidates.length === 1) {
+        return { caseDoc: candidates[0] };
+    }
+    if (candidates.length > 1) {
+        return { error: `Several cases are numbered ${values.caseNumber}; map the Court column to tell them apart` };
+    }
+    return { error: `No case numbered ${values.caseNumber}` };
+}
+
+/**
+ * The identity of a row for duplicate checks, and the existing record it duplicates if any.
+ * Hearing rows also resolve their case here.
+ */
+function matchRow(entity, values, context) {
+    if (entity === 'case') {
+        const { error } = caseNumberFields(values.caseNumber);
+        if (error) {
+            return { error };
+        }
+        const key = caseKey(values.caseNumber, values.courtName);
+        const existing = context.byKey.get(key);
+        if (isArchived(existing)) {
+            return { error: `${existing.caseNumber}: ${ARCHIVED_CASE_MESSAGE}` };
+        }
+        return {
+            keys: [key],
+            duplicate: existing && { id: String(existing._id), label: `${existing.caseNumber}${existing.courtName ? ` (${existing.courtName})` : ''}` },
+        };
+    }
+    if (entity === 'client') {
+        const existing = (values.email && context.byEmail.get(values.email)) || (values.phone && context.byPhone.get(values.phone));
+        return {
+            keys: [values.email && `email:${values.email}`, values.phone && `phone:${values.phone}`].filter(Boolean),
+            duplicate: existing && { id: String(existing._id), label: `${existing.name} <${existing.email}>` },
+        };
+    }
+    const { caseDoc, error } = findCaseForHearing(values, context);
+    if (error) {
+        return { error };
+    }
+    if (isArchived(caseDoc)) {
+        return { error: `${caseDoc.caseNumber}: ${ARCHIVED_CASE_MESSAGE}` };
+    }
+    const key = `${caseDoc._id}|${dayKey(values.hearingDate)}`;
+    const existing = context.hearingsByKey.get(key);
+    return {
+        caseDoc,
+        keys: [key],
+        duplicate: existing && { id: String(existing._id), label: `${caseDoc.caseNumber} on ${dayKey(existing.hearingDate)}` },
+    };
+}
+
+/**
+ * Validate every row of a draft. Rows are numbered as in the spreadsheet
+ * (the header is row 1).
+ * @returns {Promise<{ entries: Array<{ row: number, values: Object, errors: string[], duplicate: Object|null, caseDoc?: Object }> }>}
+ */
+async function analyseRows(batch, mapping, dateFormat) {
+    const context = await loadContext(batch.entity, batch.owner);
+    const seen = new Map();
+    const entries = batch.rows.map((cells, i) => {
+        const row = i + 2;
+        const { values, errors } = readRow(batch.entity, cells, mapping, dateFormat);
+        if (errors.length > 0) {
+            return { row, values, errors, duplicate: null };
+        }
+        const match = matchRow(batch.entity, values, context);
+        if (match.error) {
+            return { row, values, errors: [match.error], duplicate: null };
+        }
+        const earlier = match.keys.map(key => seen.get(key)).find(Boolean);
+        if (earlier) {
+            return { row, values, errors: [`Same record as row ${earlier}`], duplicate: null };
+        }
+        match.keys.forEach(key => seen.set(key, row));
+        return { row, values, errors, duplicate: match.duplicate || null, caseDoc: match.caseDoc };
+    });
+    return { entries };
+}
+
+/** Resolve the date format for a request, falling back to the batch's or the default. */
+export function normalizeDateFormat(input, fallback = DATE_FORMATS[0]) {
+    if (input === undefined || input === null || input === '') {
+        return fallback;
+    }
+    if (!DATE_FORMATS.includes(input)) {
+        throw new ImportError(`Date format must be one of: ${DATE_FORMATS.join(', ')}`);
+    }
+    return input;
+}
+
+/**
+ * Check a draft with a mapping: the rows with errors or duplicates, and counts.
+ * The mapping and date format are saved on the draft for the next step.
+ */
+export async function previewImport(batch, { mapping: rawMapping, dateFormat: rawDateFormat }) {
+    const mapping = normalizeMapping(batch.entity, batch.headers, rawMapping);
+    const dateFormat = normalizeDateFormat(rawDateFormat, batch.dateFormat);
+    const { entries } = await analyseRows(batch, mapping, dateFormat);
+
+    batch.mapping = mapping;
+    batch.dateFormat = dateFormat;
+    await batch.save();
+
+    const issues = entries.filter(entry => entry.errors.length > 0 || entry.duplicate);
+    return {
+        total: entries.length,
+        valid: entries.filter(entry => entry.errors.length === 0 && !entry.duplicate).length,
+        invalid: entries.filter(entry => entry.errors.length > 0).length,
+        duplicates: entries.filter(entry => entry.duplicate).length,
+        issues: issues.slice(0, MAX_PREVIEW_ISSUES).map(({ row, errors, duplicate }) => ({ row, errors, duplicate })),
+    };
+}
+
+function newRecord(entity, values, owner, caseDoc) {
+    if (entity === 'case') {
+        return {
+            ...values,
+            ...caseNumberFields(values.caseNumber).fields,
+            ...(values.nextHearing && { hearingDate: values.nextHearing }),
+            owner,
+        };
+    }
+    if (entity === 'client') {
+        return { ...values, owner };
+    }
+    const hearing = { ...values };
+    delete hearing.caseNumber;
+    const hearingTime = hearing.hearingTime || '10:00';
+    const { startAt, endAt } = computeHearingTimes(hearing.hearingDate, hearingTime, 'Asia/Kolkata', 60);
+    const past = hearing.hearingDate < new Date(new Date().setUTCHours(0, 0, 0, 0));
+    return {
+        ...hearing,
+        caseId: caseDoc._id,
+        courtName: hearing.courtName || caseDoc.courtName || 'Not specified',
+        hearingTime,
+        startAt,
+        endAt,
+        // A past diary entry without a status has been heard
+        status: hearing.status || (past ? 'completed' : 'scheduled'),
+        owner,
+    };
+}
+
+/** Fields a merge writes: the mapped values, with a case's number key and parts, less a hearing's case number. */
+function mergeValues(entity, values) {
+    if (entity === 'case') {
+        return { ...values, ...caseNumberFields(values.caseNumber).fields };
+    }
+    if (entity !== 'hearing') {
+        return values;
+    }
+    const updates = { ...values };
+    delete updates.caseNumber;
+    return updates;
+}
+
+const toApiRecord = (doc) => ({ id: doc._id.toString(), ...doc, _id: undefined });
+
+/** Point each case's nextHearing at its earliest scheduled hearing from today on. */
+export async function refreshNextHearing(owner, caseIds) {
+    const today = new Date(new Date().setUTCHours(0, 0, 0, 0));
+    for (const caseId of caseIds) {
+        const next = await Hearing.findOne({ owner, caseId, status: 'scheduled', hearingDate: { $gte: today } })
+            .sort({ hearingDate: 1 }).select('hearingDate').lean();
+        await Case.updateOne({ _id: caseId, owner }, next ? { $set: { nextHearing: next.hearingDate } } : { $unset: { nextHearing: '' } });
+    }
+}
+
+/**
+ * Apply a draft: create the valid new rows and merge the duplicates listed in
+ * `merge` (spreadsheet row numbers). Rows with errors and unmerged duplicates
+ * are skipped.
+ */
+export async function applyImport(batch, { mapping: rawMapping, dateFormat: rawDateFormat, merge = [] }) {
+    if (batch.status !== 'draft') {
+        throw new ImportError('This import has already been applied', 409);
+    }
+    const mapping = normalizeMapping(batch.entity, batch.headers, rawMapping ?? batch.mapping);
+    const dateFormat = normalizeDateFormat(rawDateFormat, batch.dateFormat);
+    const mergeRows = new Set(Array.isArray(merge) ? merge.map(Number) : []);
+    const { entries } = await analyseRows(batch, mapping, dateFormat);
+    const model = MODELS[batch.entity];
+    const owner = batch.owner;
+
+    const toCreate = entries.filter(entry => entry.errors.length === 0 && !entry.duplicate);
+    const createdDocs = toCreate.length > 0
+        ? await model.insertMany(toCreate.map(entry => newRecord(batch.entity, entry.values, owner, entry.caseDoc)))
+        : [];
+    batch.created = createdDocs.map((doc, i) => ({ id: doc._id, row: toCreate[i].row }));
+
+    const merged = [];
+    for (const entry of entries.filter(e => e.errors.length === 0 && e.duplicate && mergeRows.has(e.row))) {
+        const updates = mergeValues(batch.entity, entry.values);
+        const before = await model.findOne({ _id: entry.duplicate.id, owner }).lean();
+        if (!before) {
+            continue;
+        }
+        if (batch.entity === 'hearing' && updates.hearingTime) {
+            Object.assign(updates, computeHearingTimes(before.hearingDate, updates.hearingTime, before.timezone, before.duration));
+        }
+        const after = await model.findOneAndUpdate({ _id: before._id, owner }, { $set: updates }, { new: true }).lean();
+        merged.push({ id: before._id, row: entry.row, before: Object.fromEntries(Object.keys(updates).map(key => [key, before[key] ?? null])) });
+        await recordChange({
+            entityType: batch.entity, entityId: before._id, owner, actorId: owner,
+            before: toApiRecord(before), after: toApiRecord(after),
+        });
+    }
+    batch.merged = merged;
+
+    if (batch.entity === 'hearing') {
+        const caseIds = new Set(entries.filter(e => e.caseDoc).map(e => String(e.caseDoc._id)));
+        await refreshNextHearing(owner, [...caseIds]);
+    }
+
+    batch.mapping = mapping;
+    batch.dateFormat = dateFormat;
+    batch.status = 'applied';
+    batch.appliedAt = new Date();
+    batch.skipped = entries.length - batch.created.length - merged.length;
+    batch.rows = undefined;
+    batch.draftExpiresAt = undefined;
+    await batch.save();
+
+    return {
+        created: batch.created.length,
+        merged: merged.length,
+        skipped: batch.skipped,
+    };
+}
+
+/**
+ * Undo an applied import: created cases and clients go to the Trash (with
+ * anything added to them since), created hearings are deleted, and merged
+ * records get back the values the import replaced.
+ */
+export async function revertImport(batch) {
+    if (batch.status !== 'applied') {
+        throw new ImportError('Only an applied import can be undone', 409);
+    }
+    const { entity, owner } = batch;
+    const model = MODELS[entity];
+    const createdIds = batch.created.map(record => record.id);
+
+    let touchedCaseIds = [];
+    if (entity === 'hearing') {
+        const ids = [...createdIds, ...batch.merged.map(record => record.id)];
+        touchedCaseIds = (await Hearing.distinct('caseId', { _id: { $in: ids }, owner })).map(String);
+        await Hearing.deleteMany({ _id: { $in: createdIds }, owner });
+    } else {
+        for (const id of createdIds) {
+            await moveToTrash(entity, id, owner);
+        }
+    }
+
+    for (const record of batch.merged) {
+        const before = await model.findOne({ _id: record.id, owner }).lean();
+        if (!before) {
+            continue;
+        }
+        const restore = Object.entries(record.before || {});
+        const $set = Object.fromEntries(restore.filter(([, value]) => value !== null));
+        const $unset = Object.fromEntries(restore.filter(([, value]) => value === null).map(([key]) => [key, '']));
+        const after = await model.findOneAndUpdate(
+            { _id: record.id, owner },
+            { ...(Object.keys($set).length && { $set }), ...(Object.keys($unset).length && { $unset }) },
+            { new: true }
+        ).lean();
+        await recordChange({
+            entityType: entity, entityId: record.id, owner, actorId: owner,
+            before: toApiRecord(before), after: toApiRecord(after),
+        });
+    }
+
+    if (touchedCaseIds.length > 0) {
+        await refreshNextHearing(owner, touchedCaseIds);
+    }
+
+    batch.status = 'reverted';
+    batch.revertedAt = new Date();
+    await batch.save();
+    return { removed: createdIds.length, restored: batch.merged.length };
+}
+
+/** A batch as the API returns it, without the raw rows. */
+export function toApiBatch(batch) {
+    return {
+        id: String(batch._id),
+        entity: batch.entity,
+        fileName: batch.fileName || '',
+        status: batch.status,
+        rowCount: batch.rowCount,
+        created: batch.created?.length || 0,
+        merged: batch.merged?.length || 0,
+        skipped: batch.skipped || 0,
+        createdAt: batch.createdAt,
+        appliedAt: batch.appliedAt || null,
+        revertedAt: batch.revertedAt || null,
+    };
+}
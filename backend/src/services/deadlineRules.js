@@ -0,0 +1,233 @@
+/**
+ * Statutory periods the deadline engine knows about.
+ *
+ * Each rule counts `period` from its trigger date (after an optional
+ * `startOffset`, for periods that begin when an earlier window closes).
+ * `grace` is the further time the statute itself allows (e.g. Arbitration Act
+ * s.34(3)); discretionary condonation under Limitation Act s.5 is not modelled.
+ * Periods are as commonly applied — the engine is an aid, and the governing
+ * provision should be checked for the matter at hand.
+ */
+
+export const DEADLINE_RULES = [
+    // ── Limitation Act, 1963 (Schedule) ──────────────────────────────────────
+    {
+        id: 'lim_art_113',
+        act: 'Limitation Act, 1963',
+        provision: 'Art. 113',
+        title: 'Suit — residuary (no other period provided)',
+        trigger: 'Date the right to sue accrues',
+        period: { years: 3 },
+    },
+    {
+        id: 'lim_art_54',
+        act: 'Limitation Act, 1963',
+        provision: 'Art. 54',
+        title: 'Suit for specific performance',
+        trigger: 'Date fixed for performance, or notice of refusal',
+        period: { years: 3 },
+    },
+    {
+        id: 'lim_art_58',
+        act: 'Limitation Act, 1963',
+        provision: 'Art. 58',
+        title: 'Suit for declaration',
+        trigger: 'Date the right to sue first accrues',
+        period: { years: 3 },
+    },
+    {
+        id: 'lim_art_123',
+        act: 'Limitation Act, 1963',
+        provision: 'Art. 123',
+        title: 'Set aside an ex parte decree',
+        trigger: 'Date of decree (or of knowledge, if summons not served)',
+        period: { days: 30 },
+    },
+    {
+        id: 'lim_art_124',
+        act: 'Limitation Act, 1963',
+        provision: 'Art. 124',
+        title: 'Review of judgment (other than Supreme Court)',
+        trigger: 'Date of decree or order',
+        period: { days: 30 },
+    },
+    {
+        id: 'lim_art_131',
+        act: 'Limitation Act, 1963',
+        provision: 'Art. 131',
+        title: 'Revision (CPC / CrPC / BNSS)',
+        trigger: 'Date of decree, order or sentence',
+        period: { days: 90 },
+    },
+    {
+        id: 'lim_art_136',
+        act: 'Limitation Act, 1963',
+        provision: 'Art. 136',
+        title: 'Execution of a decree or order',
+        trigger: 'Date the decree or order becomes enforceable',
+        period: { years: 12 },
+    },
+    {
+        id: 'lim_art_137',
+        act: 'Limitation Act, 1963',
+        provision: 'Art. 137',
+        title: 'Application — residuary',
+        trigger: 'Date the right to apply accrues',
+        period: { years: 3 },
+    },
+
+    // ── Civil appeals (CPC) ─────────────────────────────────────────────────
+    {
+        id: 'cpc_appeal_hc',
+        act: 'Code of Civil Procedure, 1908',
+        provision: 'Limitation Act Art. 116(a)',
+        title: 'Appeal to the High Court',
+        trigger: 'Date of decree or order',
+        period: { days: 90 },
+    },
+    {
+        id: 'cpc_appeal_other',
+        act: 'Code of Civil Procedure, 1908',
+        provision: 'Limitation Act Art. 116(b)',
+        title: 'Appeal to any other court',
+        trigger: 'Date of decree or order',
+        period: { days: 30 },
+    },
+    {
+        id: 'cpc_intra_court_appeal',
+        act: 'Code of Civil Procedure, 1908',
+        provision: 'Limitation Act Art. 117',
+        title: 'Intra-court appeal (Letters Patent)',
+        trigger: 'Date of decree or order',
+        period: { days: 30 },
+    },
+    {
+        id: 'cpc_written_statement',
+        act: 'Code of Civil Procedure, 1908',
+        provision: 'Order VIII Rule 1',
+        title: 'Written statement',
+        trigger: 'Date of service of summons',
+        period: { days: 30 },
+        grace: { days: 60 },
+    },
+    {
+        id: 'sc_slp',
+        act: 'Supreme Court Rules, 2013',
+        provision: 'Order XXII Rule 2',
+        title: 'Special leave petition',
+        trigger: 'Date of the High Court judgment',
+        period: { days: 90 },
+    },
+
+    // ── Criminal appeals (CrPC / BNSS) ──────────────────────────────────────
+    {
+        id: 'crpc_appeal_hc',
+        act: 'Code of Criminal Procedure, 1973',
+        provision: 'Limitation Act Art. 115(b)(i)',
+        title: 'Appeal against conviction to the High Court',
+        trigger: 'Date of sentence or order',
+        period: { days: 60 },
+    },
+    {
+        id: 'crpc_appeal_other',
+        act: 'Code of Criminal Procedure, 1973',
+        provision: 'Limitation Act Art. 115(b)(ii)',
+        title: 'Appeal against conviction to any other court',
+        trigger: 'Date of sentence or order',
+        period: { days: 30 },
+    },
+    {
+        id: 'crpc_appeal_acquittal',
+        act: 'Code of Criminal Procedure, 1973',
+        provision: 'Limitation Act Art. 114(a)',
+        title: 'State appeal against acquittal',
+        trigger: 'Date of order of acquittal',
+        period: { days: 90 },
+    },
+    {
+        id: 'bnss_appeal_hc',
+        act: 'Bharatiya Nagarik Suraksha Sanhita, 2023',
+        provision: 'Section 415 (Limitation Act Art. 115)',
+        title: 'Appeal against conviction to the High Court',
+        trigger: 'Date of sentence or order',
+        period: { days: 60 },
+    },
+    {
+        id: 'bnss_appeal_sessions',
+        act: 'Bharatiya Nagarik Suraksha Sanhita, 2023',
+        provision: 'Section 415 (Limitation Act Art. 115)',
+        title: 'Appeal against conviction to the Court of Session',
+        trigger: 'Date of sentence or order',
+        period: { days: 30 },
+    },
+    {
+        id: 'bnss_appeal_acquittal',
+        act: 'Bharatiya Nagarik Suraksha Sanhita, 2023',
+        provision: 'Section 419 (Limitation Act Art. 114)',
+        title: 'State appeal against acquittal',
+        trigger: 'Date of order of acquittal',
+        period: { days: 90 },
+    },
+
+    // ── Negotiable Instruments Act, 1881 — Section 138 ──────────────────────
+    {
+        id: 'ni138_notice',
+        act: 'Negotiable Instruments Act, 1881',
+        provision: 'Section 138(b)',
+        title: 'Demand notice for dishonoured cheque',
+        trigger: 'Date of information of dishonour from the bank',
+        period: { days: 30 },
+    },
+    {
+        id: 'ni138_payment',
+        act: 'Negotiable Instruments Act, 1881',
+        provision: 'Section 138(c)',
+        title: 'Drawer’s time to pay after notice',
+        trigger: 'Date the drawer received the notice',
+        period: { days: 15 },
+    },
+    {
+        id: 'ni138_complaint',
+        act: 'Negotiable Instruments Act, 1881',
+        provision: 'Section 142(1)(b)',
+        title: 'Complaint for dishonoured cheque',
+        trigger: 'Date the drawer received the notice',
+        // The cause of action arises once the 15-day payment window closes
+        startOffset: { days: 15 },
+        period: { months: 1 },
+    },
+
+    // ── Other statutes ──────────────────────────────────────────────────────
+    {
+        id: 'arb_s34',
+        act: 'Arbitration and Conciliation Act, 1996',
+        provision: 'Section 34(3)',
+        title: 'Application to set aside an arbitral award',
+        trigger: 'Date of receipt of the award',
+        period: { months: 3 },
+        grace: { days: 30 },
+    },
+    {
+        id: 'cpa_written_version',
+        act: 'Consumer Protection Act, 2019',
+        provision: 'Section 38(2)(a)',
+        title: 'Written version of the opposite party',
+        trigger: 'Date of receipt of the complaint',
+        period: { days: 30 },
+        grace: { days: 15 },
+    },
+    {
+        id: 'cpa_appeal_state',
+        act: 'Consumer Protection Act, 2019',
+        provision: 'Section 41',
+        title: 'Appeal to the State Commission',
+        trigger: 'Date of the District Commission order',
+        period: { days: 45 },
+    },
+];
+
+export const CUSTOM_RULE_ID = 'custom';
+
+export function findRule(ruleId) {
+    return DEADLINE_RULES.find(rule => rule.id === ruleId) ?? null;
+}
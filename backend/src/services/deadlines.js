@@ -0,0 +1,195 @@
+import Alert from '../models/Alert.js';
+import CourtHoliday from '../models/CourtHoliday.js';
+import { CUSTOM_RULE_ID, findRule } from './deadlineRules.js';
+
+/**
+ * Limitation and statutory deadline engine.
+ *
+ * Dates are calendar days held as UTC midnight. A period runs from the day
+ * after the trigger (Limitation Act s.12(1)); a period in months or years ends
+ * on the same date of the final month, or that month's last day if shorter.
+ * Time spent obtaining certified copies (s.12(2)/(3)) is added as
+ * `excludedDays`. If the period ends on a Sunday or a court holiday, the
+ * deadline moves to the next day the court is open (s.4). Statutory grace
+ * runs from the unextended end of the period and is not itself moved: s.4
+ * covers only the prescribed period.
+ */
+
+export const DEFAULT_REMINDER_DAYS = [30, 7, 1];
+const MAX_REMINDERS = 10;
+const MAX_REMINDER_DAYS = 365;
+const MAX_EXCLUDED_DAYS = 3650;
+// Reminders fire at 09:00 IST on their day
+const REMINDER_UTC_HOURS = 3;
+const REMINDER_UTC_MINUTES = 30;
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class DeadlineError extends Error {
+    constructor(message, status = 400) {
+        super(message);
+        this.name = 'DeadlineError';
+        this.status = status;
+    }
+}
+
+/**
+ * Parse a YYYY-MM-DD string (or a Date) to UTC midnight of that day.
+ * @throws {DeadlineError} when the value is not a real calendar date
+ */
+export function parseDateOnly(value, label = 'Date') {
+    if (value instanceof Date && !Number.isNaN(value.getTime())) {
+        return new Date(Date.UTC(value.getUTCFullYear(), value.getUTCMonth(), value.getUTCDate()));
+    }
+    const text = typeof value === 'string' ? value.slice(0, 10) : '';
+    if (!DATE_ONLY.test(text)) {
+        throw new DeadlineError(`${label} must be a date (YYYY-MM-DD)`);
+    }
+    const date = new Date(`${text}T00:00:00Z`);
+    if (Number.isNaN(date.getTime()) || formatDateOnly(date) !== text) {
+        throw new DeadlineError(`${label} is not a valid date`);
+    }
+    return date;
+}
+
+export const formatDateOnly = (date) => date.toISOString().slice(0, 10);
+
+export const addDays = (date, days) => new Date(date.getTime() + days * DAY_MS);
+
+/** Add a { years, months, days } period, clamping to the last day of a shorter month. */
+export function addPeriod(date, { years = 0, months = 0, days = 0 } = {}) {
+    let result = date;
+    const totalMonths = years * 12 + months;
+    if (totalMonths) {
+        const target = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + totalMonths, 1));
+        const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+        target.setUTCDate(Math.min(date.getUTCDate(), lastDay));
+        result = target;
+    }
+    return days ? addDays(result, days) : result;
+}
+
+export const isCourtClosed = (date, holidays) =>
+    date.getUTCDay() === 0 || holidays.has(formatDateOnly(date));
+
+/** The given day, or the next one after it on which the court is open. */
+export function nextOpenDay(date, holidays = new Set()) {
+    let day = date;
+    // A year of consecutive closures would mean a bad holiday list, not a real vacation
+    for (let i = 0; i < 366 && isCourtClosed(day, holidays); i++) {
+        day = addDays(day, 1);
+    }
+    return day;
+}
+
+/**
+ * Resolve the rule for a request. `custom` builds an ad-hoc rule from a title
+ * and a period in days, for deadlines the table does not cover.
+ * @throws {DeadlineError} for an unknown rule or a malformed custom one
+ */
+export function resolveRule(ruleId, custom = {}) {
+    if (ruleId === CUSTOM_RULE_ID) {
+        const title = typeof custom.title === 'string' ? custom.title.trim() : '';
+        const days = Number(custom.periodDays);
+        if (!title || title.length > 200) {
+            throw new DeadlineError('Custom deadlines need a title of up to 200 characters');
+        }
+        if (!Number.isInteger(days) || days < 1 || days > MAX_EXCLUDED_DAYS) {
+            throw new DeadlineError(`Custom period must be 1-${MAX_EXCLUDED_DAYS} days`);
+        }
+        return { id: CUSTOM_RULE_ID, title, act: '', provision: '', period: { days } };
+    }
+    const rule = findRule(ruleId);
+    if (!rule) {
+        throw new DeadlineError('Unknown deadline rule');
+    }
+    return rule;
+}
+
+/**
+ * Compute a deadline.
+ * @param {Object} rule - a rule from DEADLINE_RULES (or resolveRule)
+ * @param {Date} triggerDate - UTC midnight of the trigger day
+ * @param {Object} [options]
+ * @param {Set<string>} [options.holidays] - court holidays as YYYY-MM-DD
+ * @param {number} [options.excludedDays] - days excluded under s.12(2)/(3)
+ * @returns {{ periodEnd: Date, dueDate: Date, graceUntil: Date|null }}
+ */
+export function computeDeadline(rule, triggerDate, { holidays = new Set(), excludedDays = 0 } = {}) {
+    const start = rule.startOffset ? addPeriod(triggerDate, rule.startOffset) : triggerDate;
+    const periodEnd = addDays(addPeriod(start, rule.period), excludedDays);
+    return {
+        periodEnd,
+        dueDate: nextOpenDay(periodEnd, holidays),
+        graceUntil: rule.grace ? addPeriod(periodEnd, rule.grace) : null,
+    };
+}
+
+/**
+ * Validate a reminder schedule: whole days before the due date, 0 meaning on the day.
+ * Missing input gives the default schedule.
+ * @throws {DeadlineError}
+ */
+export function normalizeReminderDays(input) {
+    if (input === undefined || input === null) {
+        return [...DEFAULT_REMINDER_DAYS];
+    }
+    if (!Array.isArray(input) || input.length > MAX_REMINDERS) {
+        throw new DeadlineError(`Reminders must be a list of at most ${MAX_REMINDERS} day counts`);
+    }
+    const days = input.map(Number);
+    if (days.some(day => !Number.isInteger(day) || day < 0 || day > MAX_REMINDER_DAYS)) {
+        throw new DeadlineError(`Reminder days must be whole numbers from 0 to ${MAX_REMINDER_DAYS}`);
+    }
+    return [...new Set(days)].sort((a, b) => b - a);
+}
+
+export function normalizeExcludedDays(input) {
+    if (input === undefined || input === null || input === '') {
+        return 0;
+    }
+    const days = Number(input);
+    if (!Number.isInteger(days) || days < 0 || days > MAX_EXCLUDED_DAYS) {
+        throw new DeadlineError(`Excluded days must be a whole number from 0 to ${MAX_EXCLUDED_DAYS}`);
+    }
+    return days;
+}
+
+/** Reminder times still in the future for a due date, earliest first. */
+export function reminderTimes(dueDate, reminderDays, now = new Date()) {
+    return reminderDays
+        .map(days => {
+            const time = addDays(dueDate, -days);
+            time.setUTCHours(REMINDER_UTC_HOURS, REMINDER_UTC_MINUTES);
+            return time;
+        })
+        .filter(time => time > now)
+        .sort((a, b) => a - b);
+}
+
+/** The owner's court holidays on or after `date`, as YYYY-MM-DD strings. */
+export async function courtHolidaysFrom(owner, date) {
+    const holidays = await CourtHoliday.find({ owner, date: { $gte: formatDateOnly(date) } }).select('date').lean();
+    return new Set(holidays.map(holiday => holiday.date));
+}
+
+/** Create the reminder alerts for a deadline and return their ids. */
+export async function createDeadlineAlerts({ owner, caseId, caseNumber, deadline, now = new Date() }) {
+    const due = formatDateOnly(deadline.dueDate);
+    const alerts = await Alert.insertMany(reminderTimes(deadline.dueDate, deadline.reminderDays, now).map(alertTime => ({
+        owner,
+        caseId,
+        type: 'deadline',
+        message: `${deadline.title} due ${due} — ${caseNumber}`,
+        alertTime,
+    })));
+    return alerts.map(alert => alert._id);
+}
+
+/** Remove a deadline's reminders that have not fired yet; past ones stay as history. */
+export async function removePendingAlerts(alertIds = [], now = new Date()) {
+    if (alertIds.length === 0) {
+        return;
+    }
+    await Alert.deleteMany({ _id: { $in: alertIds }, alertTime: { $gt: now } });
+}
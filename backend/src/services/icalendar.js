@@ -0,0 +1,664 @@
+/**
+ * iCalendar (RFC 5545) output for the hearing feed and .ics downloads, and
+ * parsing of .ics files for import.
+ *
+ * Timed events are written in UTC, so no VTIMEZONE is needed; events without a
+ * time are all-day (DATE values, DTEND the following day). Reminders become
+ * VALARMs a number of days before the event, at 09:00 on an all-day event.
+ *
+ * Parsing resolves TZIDs through the runtime's IANA zone data (Outlook's
+ * Windows zone names are mapped first), falling back to the standard offset
+ * of the file's VTIMEZONE; times without a zone are read as `defaultZone`.
+ * Recurring events are expanded within a window: RRULE with DAILY, WEEKLY,
+ * MONTHLY or YEARLY frequency, INTERVAL, COUNT, UNTIL, BYDAY, BYMONTHDAY and
+ * BYMONTH, less EXDATEs and with RECURRENCE-ID overrides applied. A rule
+ * using any other part yields only its first occurrence and a warning.
+ */
+
+const PRODID = '-//Juriq//Hearings and deadlines//EN';
+const MAX_LINE_OCTETS = 75;
+const CRLF = '\r\n';
+const ALARM_HOUR = 9;
+
+/** Escape a TEXT value: backslash, semicolon, comma and newlines. */
+export function escapeText(value) {
+    return String(value)
+        .replace(/\\/g, '\\\\')
+        .replace(/;/g, '\\;')
+        .replace(/,/g, '\\,')
+        .replace(/\r?\n/g, '\\n');
+}
+
+/** Split a content line over 75 octets into continuation lines, never inside a character. */
+export function foldLine(line) {
+    if (Buffer.byteLength(line, 'utf8') <= MAX_LINE_OCTETS) {
+        return line;
+    }
+    const parts = [];
+    let current = '';
+    let octets = 0;
+    for (const char of line) {
+        const size = Buffer.byteLength(char, 'utf8');
+        // Continuation lines start with a space, which counts towards their 75 octets
+        const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+        if (octets + size > limit) {
+            parts.push(current);
+            current = '';
+            octets = 0;
+        }
+        current += char;
+        octets += size;
+    }
+    parts.push(current);
+    return parts.join(`${CRLF} `);
+}
+
+/** A UTC DATE-TIME value, e.g. 20250310T043000Z. */
+export const formatUtc = (date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+/** A DATE value from a date held as UTC midnight, e.g. 20250310. */
+export const formatDay = (date) => date.toISOString().slice(0, 10).replace(/-/g, '');
+
+const nextDay = (date) => new Date(date.getTime() + 24 * 60 * 60 * 1000);
+
+/** TRIGGER for an alarm `days` before the event; all-day events are reminded at 09:00. */
+export function alarmTrigger(days, allDay) {
+    const hours = days * 24 - (allDay ? ALARM_HOUR : 0);
+    if (hours <= 0) {
+        return `PT${-hours}H`;
+    }
+    const whole = Math.floor(hours / 24);
+    const rest = hours % 24;
+    return `-P${whole > 0 ? `${whole}D` : ''}${rest > 0 ? `T${rest}H` : ''}`;
+}
+
+function eventLines(event, stamp) {
+    const lines = [
+        'BEGIN:VEVENT',
+        `UID:${event.uid}`,
+        `DTSTAMP:${stamp}`,
+    ];
+    if (event.allDay) {
+        lines.push(`DTSTART;VALUE=DATE:${formatDay(event.start)}`);
+        lines.push(`DTEND;VALUE=DATE:${formatDay(event.end ?? nextDay(event.start))}`);
+    } else {
+        lines.push(`DTSTART:${formatUtc(event.start)}`);
+        lines.push(`DTEND:${formatUtc(event.end ?? event.start)}`);
+    }
+    lines.push(`SUMMARY:${escapeText(event.summary)}`);
+    if (event.location) {
+        lines.push(`LOCATION:${escapeText(event.location)}`);
+    }
+    if (event.description) {
+        lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    }
+    if (event.categories?.length) {
+        lines.push(`CATEGORIES:${event.categories.map(escapeText).join(',')}`);
+    }
+    if (event.status) {
+        lines.push(`STATUS:${event.status}`);
+    }
+    if (event.lastModified) {
+        lines.push(`LAST-MODIFIED:${formatUtc(event.lastModified)}`);
+    }
+    (event.alarms ?? []).forEach(days => {
+        lines.push(
+            'BEGIN:VALARM',
+            'ACTION:DISPLAY',
+            `DESCRIPTION:${escapeText(event.summary)}`,
+            `TRIGGER:${alarmTrigger(days, event.allDay)}`,
+            'END:VALARM'
+        );
+    });
+    lines.push('END:VEVENT');
+    return lines;
+}
+
+/**
+ * Render a VCALENDAR.
+ * @param {object} calendar
+ * @param {string} calendar.name shown by calendar apps that honour X-WR-CALNAME
+ * @param {object[]} calendar.events `{ uid, start, end?, allDay?, summary, location?,
+ *   description?, categories?, status?, lastModified?, alarms? }`, alarms in days before
+ * @returns {string} CRLF-terminated iCalendar text
+ */
+export function buildCalendar({ name, events, now = new Date() }) {
+    const stamp = formatUtc(now);
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        `PRODID:${PRODID}`,
+        'CALSCALE:GREGORIAN',
+        'METHOD:PUBLISH',
+        `X-WR-CALNAME:${escapeText(name)}`,
+        ...events.flatMap(event => eventLines(event, stamp)),
+        'END:VCALENDAR',
+    ];
+    return lines.map(foldLine).join(CRLF) + CRLF;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const FREQUENCIES = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+const RULE_PARTS = new Set(['FREQ', 'INTERVAL', 'COUNT', 'UNTIL', 'BYDAY', 'BYMONTHDAY', 'BYMONTH', 'WKST']);
+// Occurrences kept per recurring event, and periods walked looking for them
+const MAX_OCCURRENCES = 500;
+const MAX_PERIODS = 50000;
+const MAX_EVENTS = 2000;
+
+// Outlook writes Windows zone names rather than IANA ones
+const WINDOWS_ZONES = {
+    'India Standard Time': 'Asia/Kolkata',
+    'Sri Lanka Standard Time': 'Asia/Colombo',
+    'Nepal Standard Time': 'Asia/Kathmandu',
+    'Bangladesh Standard Time': 'Asia/Dhaka',
+    'Pakistan Standard Time': 'Asia/Karachi',
+    'Arabian Standard Time': 'Asia/Dubai',
+    'Arab Standard Time': 'Asia/Riyadh',
+    'Singapore Standard Time': 'Asia/Singapore',
+    'China Standard Time': 'Asia/Shanghai',
+    'Tokyo Standard Time': 'Asia/Tokyo',
+    'AUS Eastern Standard Time': 'Australia/Sydney',
+    'GMT Standard Time': 'Europe/London',
+    'W. Europe Standard Time': 'Europe/Berlin',
+    'Romance Standard Time': 'Europe/Paris',
+    'Eastern Standard Time': 'America/New_York',
+    'Central Standard Time': 'America/Chicago',
+    'Mountain Standard Time': 'America/Denver',
+    'Pacific Standard Time': 'America/Los_Angeles',
+    'UTC': 'UTC',
+};
+
+export class ICalendarError extends Error {
+    constructor(message, status = 400) {
+        super(message);
+        this.name = 'ICalendarError';
+        this.status = status;
+    }
+}
+
+/** Undo escapeText. */
+export function unescapeText(value) {
+    return value.replace(/\\([\\;,nN])/g, (_, char) => (char === 'n' || char === 'N' ? '\n' : char));
+}
+
+function splitOutsideQuotes(text, separator) {
+    const parts = [];
+    let current = '';
+    let quoted = false;
+    for (const char of text) {
+        if (char === '"') {
+            quoted = !quoted;
+        }
+        if (char === separator && !quoted) {
+            parts.push(current);
+            current = '';
+        } else {
+            current += char;
+        }
+    }
+    parts.push(current);
+    return parts;
+}
+
+function parseContentLine(line) {
+    let quoted = false;
+    let colon = -1;
+    for (let i = 0; i < line.length && colon < 0; i++) {
+        if (line[i] === '"') {
+            quoted = !quoted;
+        } else if (line[i] === ':' && !quoted) {
+            colon = i;
+        }
+    }
+    if (colon < 0) {
+        return null;
+    }
+    const [name, ...rawParams] = splitOutsideQuotes(line.slice(0, colon), ';');
+    const params = {};
+    rawParams.forEach(param => {
+        const eq = param.indexOf('=');
+        if (eq > 0) {
+            params[param.slice(0, eq).toUpperCase()] = param.slice(eq + 1).replace(/^"|"$/g, '');
+        }
+    });
+    return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+/** The VCALENDAR of `text` as nested `{ type, props, children }` components. */
+function readCalendar(text) {
+    const lines = text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+    const root = { type: 'ROOT', props: [], children: [] };
+    const stack = [root];
+    lines.forEach(line => {
+        const parsed = line.trim() ? parseContentLine(line) : null;
+        if (!parsed) {
+            return;
+        }
+        const current = stack[stack.length - 1];
+        if (parsed.name === 'BEGIN') {
+            const component = { type: parsed.value.trim().toUpperCase(), props: [], children: [] };
+            current.children.push(component);
+            stack.push(component);
+        } else if (parsed.name === 'END') {
+            if (stack.length > 1) {
+                stack.pop();
+            }
+        } else {
+            current.props.push(parsed);
+        }
+    });
+    const calendar = root.children.find(component => component.type === 'VCALENDAR');
+    if (!calendar) {
+        throw new ICalendarError('This is not an iCalendar (.ics) file');
+    }
+    return calendar;
+}
+
+const findProp = (component, name) => component.props.find(prop => prop.name === name);
+const textProp = (component, name) => {
+    const prop = findProp(component, name);
+    return prop ? unescapeText(prop.value).trim() : '';
+};
+
+const formatters = new Map();
+function zoneFormatter(zone) {
+    if (!formatters.has(zone)) {
+        formatters.set(zone, new Intl.DateTimeFormat('en-US', {
+            timeZone: zone,
+            hourCycle: 'h23',
+            year: 'numeric',
+            month: '2-digit',
+            day: '2-digit',
+            hour: '2-digit',
+            minute: '2-digit',
+            second: '2-digit',
+        }));
+    }
+    return formatters.get(zone);
+}
+
+function isZone(name) {
+    try {
+        zoneFormatter(name);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/** The wall-clock time in `zone` at instant `ms`, as a UTC timestamp. */
+function wallTime(ms, zone) {
+    const parts = Object.fromEntries(zoneFormatter(zone).formatToParts(new Date(ms)).map(part => [part.type, part.value]));
+    return Date.UTC(+parts.year, +parts.month - 1, +parts.day, +parts.hour, +parts.minute, +parts.second);
+}
+
+const ianaZone = (name) => ({ name, offsetAt: ms => wallTime(ms, name) - ms });
+const fixedZone = (name, offset) => ({ name, offsetAt: () => offset });
+const UTC_ZONE = fixedZone('UTC', 0);
+
+/** The instant a wall-clock time (as a UTC timestamp) happens in `zone`. */
+function toInstant(wall, zone) {
+    const guess = wall - zone.offsetAt(wall);
+    return wall - zone.offsetAt(guess);
+}
+
+/** Date (yyyy-MM-dd) and time (HH:mm) of `date` on the clocks of an IANA zone. */
+export function wallClock(date, zone) {
+    const iso = new Date(wallTime(date.getTime(), zone)).toISOString();
+    return { date: iso.slice(0, 10), time: iso.slice(11, 16) };
+}
+
+function parseOffset(value) {
+    const match = value.trim().match(/^([+-])(\d{2})(\d{2})(\d{2})?$/);
+    if (!match) {
+        return null;
+    }
+    const [, sign, hours, minutes, seconds] = match;
+    return (sign === '-' ? -1 : 1) * ((+hours * 60 + +minutes) * 60 + +(seconds ?? 0)) * 1000;
+}
+
+function resolveZone(tzid, timezones) {
+    const name = tzid.trim();
+    if (isZone(name)) {
+        return ianaZone(name);
+    }
+    if (WINDOWS_ZONES[name]) {
+        return ianaZone(WINDOWS_ZONES[name]);
+    }
+    // Prefixed ids such as /mozilla.org/20050126_1/Asia/Kolkata
+    const segments = name.split('/').filter(Boolean);
+    for (const length of [3, 2]) {
+        const candidate = segments.slice(-length).join('/');
+        if (segments.length >= length && isZone(candidate)) {
+            return ianaZone(candidate);
+        }
+    }
+    const definition = timezones.get(name);
+    const standard = definition?.children.find(child => child.type === 'STANDARD') ?? definition?.children[0];
+    const offset = standard ? parseOffset(findProp(standard, 'TZOFFSETTO')?.value ?? '') : null;
+    return offset === null ? null : fixedZone(name, offset);
+}
+
+const DATE_VALUE = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/;
+
+/** `{ wall, allDay, zone }` of a DATE or DATE-TIME value, the wall clock as a UTC timestamp. */
+function parseDateValue(value, params, context) {
+    const match = value.trim().match(DATE_VALUE);
+    if (!match) {
+        return null;
+    }
+    const [, year, month, day, hours, minutes, seconds, utc] = match;
+    const wall = Date.UTC(+year, +month - 1, +day, +(hours ?? 0), +(minutes ?? 0), +(seconds ?? 0));
+    if (hours === undefined) {
+        return { wall, allDay: true, zone: UTC_ZONE };
+    }
+    if (utc) {
+        return { wall, allDay: false, zone: UTC_ZONE };
+    }
+    return { wall, allDay: false, zone: params.TZID ? context.zone(params.TZID) : context.defaultZone };
+}
+
+const instantOf = (value) => (value.allDay ? value.wall : toInstant(value.wall, value.zone));
+
+const DURATION = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/;
+
+function parseDuration(value) {
+    const match = value.trim().match(DURATION);
+    if (!match) {
+        return null;
+    }
+    const [, sign, weeks, days, hours, minutes, seconds] = match;
+    const ms = ((((+(weeks ?? 0) * 7 + +(days ?? 0)) * 24 + +(hours ?? 0)) * 60 + +(minutes ?? 0)) * 60 + +(seconds ?? 0)) * 1000;
+    return sign === '-' ? -ms : ms;
+}
+
+const integers = (value) => value.split(',').map(part => Number.parseInt(part, 10));
+
+/** The RRULE as expandable parts, or null when it uses a part this parser does not follow. */
+function readRule(value, start) {
+    const parts = {};
+    value.split(';').forEach(part => {
+        const [key, partValue = ''] = part.split('=');
+        if (key.trim()) {
+            parts[key.trim().toUpperCase()] = partValue.trim().toUpperCase();
+        }
+    });
+    if (!FREQUENCIES.includes(parts.FREQ) || Object.keys(parts).some(key => !RULE_PARTS.has(key))) {
+        return null;
+    }
+    const weekdays = parts.BYDAY ? parts.BYDAY.split(',').map(day => {
+        const match = day.match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/);
+        return match ? { weekday: WEEKDAYS.indexOf(match[2]), ordinal: match[1] ? Number(match[1]) : null } : null;
+    }) : null;
+    const monthDays = parts.BYMONTHDAY ? integers(parts.BYMONTHDAY) : null;
+    const months = parts.BYMONTH ? integers(parts.BYMONTH).map(month => month - 1) : null;
+    if (weekdays?.some(day => day === null)
+        || monthDays?.some(day => !Number.isInteger(day) || day === 0 || Math.abs(day) > 31)
+        || months?.some(month => !Number.isInteger(month) || month < 0 || month > 11)) {
+        return null;
+    }
+    // Ordinals count within a month here, so a yearly rule needs its months
+    const ordinals = weekdays?.some(day => day.ordinal !== null);
+    if ((ordinals && !['MONTHLY', 'YEARLY'].includes(parts.FREQ)) || (parts.FREQ === 'YEARLY' && weekdays && !months)) {
+        return null;
+    }
+    let until = Infinity;
+    if (parts.UNTIL) {
+        const end = parseDateValue(parts.UNTIL, {}, { defaultZone: start.zone, zone: () => start.zone });
+        if (!end) {
+            return null;
+        }
+        // A date-only UNTIL on a timed event includes that whole day
+        until = end.allDay && !start.allDay ? toInstant(end.wall + DAY_MS - 1, start.zone) : instantOf(end);
+    }
+    const interval = Number.parseInt(parts.INTERVAL ?? '1', 10);
+    const count = Number.parseInt(parts.COUNT ?? '', 10);
+    return {
+        freq: parts.FREQ,
+        interval: interval > 0 ? interval : 1,
+        count: count > 0 ? count : Infinity,
+        until,
+        weekdays,
+        monthDays,
+        months,
+    };
+}
+
+/** Days of a month, in order, that the rule's BYMONTHDAY and BYDAY select. */
+function monthDays(year, month, rule, startDay) {
+    const length = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+    let days = null;
+    if (rule.monthDays) {
+        days = rule.monthDays.map(day => (day > 0 ? day : length + day + 1)).filter(day => day >= 1 && day <= length);
+    }
+    if (rule.weekdays) {
+        const selected = new Set();
+        rule.weekdays.forEach(({ weekday, ordinal }) => {
+            const first = (weekday - new Date(Date.UTC(year, month, 1)).getUTCDay() + 7) % 7 + 1;
+            const matching = [];
+            for (let day = first; day <= length; day += 7) {
+                matching.push(day);
+            }
+            if (ordinal === null) {
+                matching.forEach(day => selected.add(day));
+            } else {
+                const day = ordinal > 0 ? matching[ordinal - 1] : matching[matching.length + ordinal];
+                if (day) {
+                    selected.add(day);
+                }
+            }
+        });
+        days = days ? days.filter(day => selected.has(day)) : [...selected];
+    }
+    days = days ?? (startDay <= length ? [startDay] : []);
+    return [...new Set(days)].sort((a, b) => a - b);
+}
+
+/** Wall-clock starts the rule generates, in order, from the period holding `startWall`. */
+function* ruleStarts(startWall, rule) {
+    const timeOfDay = ((startWall % DAY_MS) + DAY_MS) % DAY_MS;
+    const startDay = startWall - timeOfDay;
+    const start = new Date(startDay);
+    const weekdayOf = (day) => new Date(day).getUTCDay();
+    for (let period = 0; period < MAX_PERIODS; period++) {
+        let days;
+        if (rule.freq === 'DAILY') {
+            const day = startDay + period * rule.interval * DAY_MS;
+            const date = new Date(day);
+            const keep = (!rule.monthDays || monthDays(date.getUTCFullYear(), date.getUTCMonth(), rule, date.getUTCDate()).includes(date.getUTCDate()))
+                && (!rule.weekdays || rule.weekdays.some(({ weekday }) => weekday === weekdayOf(day)));
+            days = keep ? [day] : [];
+        } else if (rule.freq === 'WEEKLY') {
+            const weekStart = startDay - ((start.getUTCDay() + 6) % 7) * DAY_MS + period * rule.interval * 7 * DAY_MS;
+            const weekdays = rule.weekdays ? rule.weekdays.map(({ weekday }) => weekday) : [start.getUTCDay()];
+            days = [...new Set(weekdays)].map(weekday => weekStart + ((weekday + 6) % 7) * DAY_MS).sort((a, b) => a - b);
+        } else if (rule.freq === 'MONTHLY') {
+            const index = start.getUTCMonth() + period * rule.interval;
+            const year = start.getUTCFullYear() + Math.floor(index / 12);
+            const month = index % 12;
+            days = monthDays(year, month, rule, start.getUTCDate()).map(day => Date.UTC(year, month, day));
+        } else {
+            const year = start.getUTCFullYear() + period * rule.interval;
+            days = [...(rule.months ?? [start.getUTCMonth()])].sort((a, b) => a - b)
+                .flatMap(month => monthDays(year, month, rule, start.getUTCDate()).map(day => Date.UTC(year, month, day)));
+        }
+        for (const day of days) {
+            if (!rule.months || rule.months.includes(new Date(day).getUTCMonth())) {
+                yield day + timeOfDay;
+            }
+        }
+    }
+}
+
+/** Start instants of a recurring event within [from, to), DTSTART counting as the first occurrence. */
+function expandStarts(event, from, to) {
+    const starts = event.start >= from ? [event.start] : [];
+    let seen = 1;
+    for (const wall of ruleStarts(event.wall, event.rule)) {
+        if (wall <= event.wall) {
+            continue;
+        }
+        const at = event.allDay ? wall : toInstant(wall, event.zone);
+        if (at > event.rule.until || at >= to || seen >= event.rule.count || starts.length >= MAX_OCCURRENCES) {
+            break;
+        }
+        seen++;
+        if (at >= from) {
+            starts.push(at);
+        }
+    }
+    return starts;
+}
+
+function readEvent(component, index, context, warnings) {
+    const summary = textProp(component, 'SUMMARY') || '(No title)';
+    const startProp = findProp(component, 'DTSTART');
+    const start = startProp ? parseDateValue(startProp.value, startProp.params, context) : null;
+    if (!start) {
+        warnings.add(`Skipped "${summary}": it has no valid start date`);
+        return null;
+    }
+    const endProp = findProp(component, 'DTEND');
+    const end = endProp ? parseDateValue(endProp.value, endProp.params, context) : null;
+    const durationProp = findProp(component, 'DURATION');
+    let duration = null;
+    if (end) {
+        duration = instantOf(end) - instantOf(start);
+    } else if (durationProp) {
+        duration = parseDuration(durationProp.value);
+    } else if (start.allDay) {
+        duration = DAY_MS;
+    }
+    const ruleProp = findProp(component, 'RRULE');
+    let rule = null;
+    if (ruleProp) {
+        rule = readRule(ruleProp.value, start);
+        if (!rule) {
+            warnings.add(`"${summary}" repeats by a rule that is not supported (${ruleProp.value.trim()}); only its first occurrence is read`);
+        }
+    }
+    const exdates = component.props.filter(prop => prop.name === 'EXDATE').flatMap(prop => prop.value.split(',')
+        .map(value => parseDateValue(value, prop.params, context))
+        .filter(Boolean)
+        .map(instantOf));
+    const recurrenceProp = findProp(component, 'RECURRENCE-ID');
+    const recurrenceId = recurrenceProp ? parseDateValue(recurrenceProp.value, recurrenceProp.params, context) : null;
+    return {
+        uid: textProp(component, 'UID') || `event-${index + 1}`,
+        summary,
+        location: textProp(component, 'LOCATION'),
+        description: textProp(component, 'DESCRIPTION'),
+        cancelled: textProp(component, 'STATUS').toUpperCase() === 'CANCELLED',
+        allDay: start.allDay,
+        wall: start.wall,
+        zone: start.zone,
+        start: instantOf(start),
+        duration: duration !== null && duration >= 0 ? duration : null,
+        recurring: Boolean(ruleProp || recurrenceId),
+        rule,
+        exdates: new Set(exdates),
+        recurrenceId: recurrenceId ? instantOf(recurrenceId) : null,
+    };
+}
+
+function occurrence(event, start) {
+    return {
+        key: `${event.uid}|${new Date(start).toISOString()}`,
+        uid: event.uid,
+        summary: event.summary,
+        location: event.location,
+        description: event.description,
+        start: new Date(start),
+        end: event.duration !== null ? new Date(start + event.duration) : null,
+        allDay: event.allDay,
+        recurring: event.recurring,
+    };
+}
+
+/**
+ * Read the events of an .ics file that start within a window, recurring ones
+ * expanded to an event per occurrence. Cancelled events are left out.
+ * @param {string} text the file's content
+ * @param {object} options
+ * @param {Date} options.from start of the window
+ * @param {Date} options.to end of the window, exclusive
+ * @param {string} [options.defaultZone] IANA zone of times without one
+ * @returns {{ events: object[], warnings: string[] }} events as `{ key, uid, summary, location,
+ *   description, start, end, allDay, recurring }` sorted by start, `end` null when the file has
+ *   none, all-day ones at UTC midnight; `key` tells occurrences of one event apart
+ * @throws {ICalendarError} when the text is not an iCalendar file
+ */
+export function parseCalendar(text, { from, to, defaultZone = 'Asia/Kolkata' }) {
+    const calendar = readCalendar(String(text));
+    const warnings = new Set();
+    const timezones = new Map(calendar.children
+        .filter(component => component.type === 'VTIMEZONE')
+        .map(component => [findProp(component, 'TZID')?.value.trim(), component]));
+    const resolved = new Map();
+    const calendarZone = findProp(calendar, 'X-WR-TIMEZONE')?.value;
+    const context = {
+        defaultZone: (calendarZone && resolveZone(calendarZone, timezones)) || ianaZone(defaultZone),
+        zone(tzid) {
+            if (!resolved.has(tzid)) {
+                const zone = resolveZone(tzid, timezones);
+                if (!zone) {
+                    warnings.add(`Unknown time zone "${tzid}"; its times are read as ${this.defaultZone.name}`);
+                }
+                resolved.set(tzid, zone ?? this.defaultZone);
+            }
+            return resolved.get(tzid);
+        },
+    };
+
+    const masters = [];
+    // Changed occurrences by UID, then by the start they replace
+    const overrides = new Map();
+    calendar.children.filter(component => component.type === 'VEVENT').forEach((component, index) => {
+        const event = readEvent(component, index, context, warnings);
+        if (!event) {
+            return;
+        }
+        if (event.recurrenceId === null) {
+            masters.push(event);
+            return;
+        }
+        if (!overrides.has(event.uid)) {
+            overrides.set(event.uid, new Map());
+        }
+        overrides.get(event.uid).set(event.recurrenceId, event);
+    });
+
+    const inWindow = (start) => start >= from.getTime() && start < to.getTime();
+    const events = [];
+    masters.forEach(event => {
+        const changed = overrides.get(event.uid) ?? new Map();
+        const starts = event.rule ? expandStarts(event, from.getTime(), to.getTime()) : [event.start];
+        if (event.rule && starts.length >= MAX_OCCURRENCES) {
+            warnings.add(`"${event.summary}" repeats more than ${MAX_OCCURRENCES} times in the range; only the first ${MAX_OCCURRENCES} are read`);
+        }
+        starts.forEach(start => {
+            const override = changed.get(start);
+            changed.delete(start);
+            if (override) {
+                if (!override.cancelled && inWindow(override.start)) {
+                    events.push(occurrence(override, override.start));
+                }
+            } else if (!event.cancelled && !event.exdates.has(start) && inWindow(start)) {
+                events.push(occurrence(event, start));
+            }
+        });
+    });
+    // Changed occurrences moved in from outside the window, or without their series
+    overrides.forEach(changed => changed.forEach(override => {
+        if (!override.cancelled && inWindow(override.start)) {
+            events.push(occurrence(override, override.start));
+        }
+    }));
+
+    events.sort((a, b) => a.start - b.start || a.summary.localeCompare(b.summary));
+    if (events.length > MAX_EVENTS) {
+        warnings.add(`The file has more than ${MAX_EVENTS} events in the range; only the first ${MAX_EVENTS} are read`);
+    }
+    return { events: events.slice(0, MAX_EVENTS), warnings: [...warnings] };
+}
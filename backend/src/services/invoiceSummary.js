@@ -0,0 +1,47 @@
+import mongoose from 'mongoose';
+import Client from '../models/Client.js';
+import Invoice from '../models/Invoice.js';
+
+/**
+ * Figures the billing page shows about invoices as a whole, worked out on the
+ * server so they cover every invoice rather than the pages loaded so far.
+ */
+
+// Sent and overdue invoices are awaiting payment; drafts are not billed to anyone yet
+const PENDING_STATUSES = ['sent', 'overdue'];
+
+/**
+ * Totals over all of the owner's invoices.
+ * @returns {Promise<{count: number, billed: number, paid: number, pending: number}>}
+ */
+export async function summarizeInvoices(ownerId) {
+    const rows = await Invoice.aggregate([
+        { $match: { owner: new mongoose.Types.ObjectId(String(ownerId)) } },
+        { $group: { _id: '$status', count: { $sum: 1 }, total: { $sum: { $ifNull: ['$total', 0] } } } },
+    ]);
+
+    const summary = { count: 0, billed: 0, paid: 0, pending: 0 };
+    for (const { _id: status, count, total } of rows) {
+        summary.count += count;
+        summary.billed += total;
+        if (status === 'paid') {
+            summary.paid += total;
+        } else if (PENDING_STATUSES.includes(status)) {
+            summary.pending += total;
+        }
+    }
+    return summary;
+}
+
+/**
+ * Add the name of the client each invoice is billed to (`clientName`), read
+ * in one query for the whole list. Invoices whose client is gone get null.
+ */
+export async function withClientNames(ownerId, invoices) {
+    const ids = [...new Set(invoices.filter(invoice => invoice.clientId).map(invoice => String(invoice.clientId)))];
+    const clients = ids.length > 0
+        ? await Client.find({ _id: { $in: ids }, owner: ownerId }).select('name').lean()
+        : [];
+    const names = new Map(clients.map(client => [String(client._id), client.name]));
+    return invoices.map(invoice => ({ ...invoice, clientName: names.get(String(invoice.clientId)) ?? null }));
+}
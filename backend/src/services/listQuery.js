@@ -0,0 +1,224 @@
+import mongoose from 'mongoose';
+
+/**
+ * Cursor pagination, sorting, filtering and search for the owner-scoped list
+ * routes (cases, clients, invoices).
+ *
+ * Each route describes what it allows in a spec:
+ *   sortFields   — sortable fields; the first is the default (newest first)
+ *   enumFilters  — { param: allowedValues } matched with $in, e.g. ?status=active,pending
+ *   idFilters    — params holding an ObjectId, e.g. ?clientId=
+ *   dateFields   — fields a ?dateField=&from=&to= range may target (first is the default)
+ *   searchFields — fields matched case-insensitively by ?q=
+ *   nullsLast    — sort fields whose documents without a value come last in
+ *                  ascending order too (e.g. cases with no next hearing)
+ *
+ * Pages are keyset-based: the cursor carries the sort value and _id of the last
+ * item, so every page is an index range scan on { owner, <sortField>, _id }
+ * (see config/indexes.js) no matter how deep the user scrolls.
+ */
+
+export const DEFAULT_PAGE_SIZE = 25;
+export const MAX_PAGE_SIZE = 100;
+
+export class ListQueryError extends Error {
+    constructor(message) {
+        super(message);
+        this.name = 'ListQueryError';
+        this.status = 400;
+    }
+}
+
+export const escapeRegex = (value) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const splitList = (value) => String(value).split(',').map(v => v.trim()).filter(Boolean);
+
+function parseDate(value, param) {
+    const date = new Date(String(value));
+    if (Number.isNaN(date.getTime())) {
+        throw new ListQueryError(`${param} must be a valid date`);
+    }
+    return date;
+}
+
+export function encodeCursor(doc, sortField) {
+    const value = doc[sortField];
+    const payload = {
+        v: value instanceof Date ? value.toISOString() : value ?? null,
+        d: value instanceof Date,
+        id: String(doc._id ?? doc.id),
+    };
+    return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+export function decodeCursor(cursor) {
+    try {
+        const { v, d, id } = JSON.parse(Buffer.from(String(cursor), 'base64url').toString('utf8'));
+        if (!mongoose.isValidObjectId(id)) {
+            throw new Error('bad id');
+        }
+        return { value: d && v !== null ? new Date(v) : v, id: new mongoose.Types.ObjectId(id) };
+    } catch {
+        throw new ListQueryError('Invalid cursor');
+    }
+}
+
+/**
+ * Filter selecting the documents after `cursor` in (sortField, _id) order.
+ * Missing/null sort values sort lowest in MongoDB, so they come last in
+ * descending order and first in ascending order.
+ */
+export function cursorFilter(sortField, direction, { value, id }) {
+    const after = direction === 'desc' ? '$lt' : '$gt';
+    if (value === null || value === undefined) {
+        const sameBucket = { [sortField]: null, _id: { [after]: id } };
+        return direction === 'desc' ? sameBucket : { $or: [sameBucket, { [sortField]: { $ne: null } }] };
+    }
+    const branches = [
+        { [sortField]: { [after]: value } },
+        { [sortField]: value, _id: { [after]: id } },
+    ];
+    if (direction === 'desc') {
+        branches.push({ [sortField]: null });
+    }
+    return { $or: branches };
+}
+
+/**
+ * Parse list query params against `spec`. `extraSearch` adds conditions that
+ * also satisfy ?q= (e.g. invoices whose client name matches); `extraFilters`
+ * are ANDed in as-is (e.g. conditions on a case's custom fields).
+ * @returns {{ filter: object, sortField: string, direction: 'asc'|'desc', nullsLast: boolean, limit: number|null, cursor: object|null }}
+ *          `limit` is null when the caller did not ask for a page (legacy full-list response).
+ */
+export function parseListQuery(query, spec, ownerId, { extraSearch = [], extraFilters = [] } = {}) {
+    const and = [{ owner: ownerId }, ...extraFilters];
+
+    const sortField = query.sort ?? spec.sortFields[0];
+    if (!spec.sortFields.includes(sortField)) {
+        throw new ListQueryError(`sort must be one of: ${spec.sortFields.join(', ')}`);
+    }
+    const direction = query.order ?? 'desc';
+    if (direction !== 'asc' && direction !== 'desc') {
+        throw new ListQueryError('order must be asc or desc');
+    }
+
+    for (const [param, allowed] of Object.entries(spec.enumFilters ?? {})) {
+        if (!query[param] || query[param] === 'all') {
+            continue;
+        }
+        const values = splitList(query[param]);
+        const invalid = values.find(v => !allowed.includes(v));
+        if (invalid) {
+            throw new ListQueryError(`Invalid ${param} "${invalid}"`);
+        }
+        and.push({ [param]: { $in: values } });
+    }
+
+    for (const param of spec.idFilters ?? []) {
+        if (!query[param]) {
+            continue;
+        }
+        if (!mongoose.isValidObjectId(query[param])) {
+            throw new ListQueryError(`${param} must be a valid id`);
+        }
+        and.push({ [param]: new mongoose.Types.ObjectId(String(query[param])) });
+    }
+
+    if (query.from || query.to) {
+        const dateField = query.dateField ?? spec.dateFields?.[0];
+        if (!spec.dateFields?.includes(dateField)) {
+            throw new ListQueryError(`dateField must be one of: ${(spec.dateFields ?? []).join(', ')}`);
+        }
+        const range = {};
+        if (query.from) {
+            range.$gte = parseDate(query.from, 'from');
+        }
+        if (query.to) {
+            range.$lte = parseDate(query.to, 'to');
+        }
+        and.push({ [dateField]: range });
+    }
+
+    const q = typeof query.q === 'string' ? query.q.trim() : '';
+    if (q) {
+        const pattern = { $regex: escapeRegex(q.slice(0, 100)), $options: 'i' };
+        and.push({ $or: [...spec.searchFields.map(field => ({ [field]: pattern })), ...extraSearch] });
+    }
+
+    let limit = null;
+    if (query.limit !== undefined) {
+        limit = Number.parseInt(query.limit, 10);
+        if (!Number.isFinite(limit) || limit < 1) {
+            limit = DEFAULT_PAGE_SIZE;
+        }
+        limit = Math.min(limit, MAX_PAGE_SIZE);
+    }
+
+    const cursor = query.cursor ? decodeCursor(query.cursor) : null;
+
+    // Descending order already puts missing values last
+    const nullsLast = direction === 'asc' && (spec.nullsLast ?? []).includes(sortField);
+
+    return { filter: { $and: and }, sortField, direction, nullsLast, limit, cursor };
+}
+
+/**
+ * Ascending (sortField, _id) order with the documents lacking a sort value
+ * after the rest, read as two runs: valued documents by the sort index, then
+ * the rest by _id. `take` of 0 reads everything.
+ */
+async function findNullsLast(Model, filter, sortField, cursor, take) {
+    const inNullRun = cursor !== null && (cursor.value === null || cursor.value === undefined);
+    let docs = [];
+    if (!inNullRun) {
+        const after = cursor ? [cursorFilter(sortField, 'asc', cursor)] : [];
+        docs = await Model.find({ $and: [filter, { [sortField]: { $ne: null } }, ...after] })
+            .sort({ [sortField]: 1, _id: 1 })
+            .limit(take)
+            .lean();
+    }
+    if (take === 0 || docs.length < take) {
+        const after = inNullRun ? [{ _id: { $gt: cursor.id } }] : [];
+        const unset = await Model.find({ $and: [filter, { [sortField]: null }, ...after] })
+            .sort({ _id: 1 })
+            .limit(take === 0 ? 0 : take - docs.length)
+            .lean();
+        docs = docs.concat(unset);
+    }
+    return docs;
+}
+
+/**
+ * Run a parsed list query. Returns `{ items, nextCursor, total }` when a page
+ * was requested, otherwise the full array (the response shape older clients expect).
+ * `total` counts every match, ignoring the cursor.
+ */
+export async function findList(Model, { filter, sortField, direction, nullsLast = false, limit, cursor }) {
+    const order = direction === 'desc' ? -1 : 1;
+    const sort = { [sortField]: order, _id: order };
+    const toApi = (doc) => ({ id: doc._id.toString(), ...doc, _id: undefined });
+
+    if (limit === null) {
+        const docs = nullsLast
+            ? await findNullsLast(Model, filter, sortField, null, 0)
+            : await Model.find(filter).sort(sort).lean();
+        return docs.map(toApi);
+    }
+
+    const pageFilter = cursor ? { $and: [filter, cursorFilter(sortField, direction, cursor)] } : filter;
+    const [docs, total] = await Promise.all([
+        nullsLast
+            ? findNullsLast(Model, filter, sortField, cursor, limit + 1)
+            : Model.find(pageFilter).sort(sort).limit(limit + 1).lean(),
+        Model.countDocuments(filter),
+    ]);
+    const hasMore = docs.length > limit;
+    const items = hasMore ? docs.slice(0, limit) : docs;
+
+    return {
+        items: items.map(toApi),
+        nextCursor: hasMore ? encodeCursor(items[items.length - 1], sortField) : null,
+        total,
+    };
+}
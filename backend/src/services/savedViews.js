@@ -0,0 +1,106 @@
+import SavedView from '../models/SavedView.js';
+import User from '../models/User.js';
+import { SAVED_VIEW_PAGES } from '../schemas/validation-schemas.js';
+
+/**
+ * Saved list views: named filter / sort / column / grouping settings for the
+ * Cases, Calendar and Documents pages. A view belongs to the user who saved
+ * it; a shared one is also listed (read-only) for the other members of the
+ * owner's firm. Membership is the firmId the admin control plane assigns, never
+ * the firm name users type into their profiles, which anyone can copy.
+ */
+
+export class SavedViewError extends Error {
+    constructor(message, status = 400) {
+        super(message);
+        this.name = 'SavedViewError';
+        this.status = status;
+    }
+}
+
+const MAX_NAME_LENGTH = 80;
+const MAX_STATE_KEYS = 30;
+const MAX_VALUE_LENGTH = 500;
+const STATE_KEY_PATTERN = /^[A-Za-z][A-Za-z0-9_-]{0,39}$/;
+
+export function checkPage(page) {
+    if (!SAVED_VIEW_PAGES.includes(page)) {
+        throw new SavedViewError(`Page must be one of: ${SAVED_VIEW_PAGES.join(', ')}`);
+    }
+    return page;
+}
+
+/** Validate the name, state and sharing of a view being saved; `partial` allows leaving fields out. */
+export function normalizeViewInput(body = {}, { partial = false } = {}) {
+    const fields = {};
+    if (!partial || body.name !== undefined) {
+        const name = typeof body.name === 'string' ? body.name.trim() : '';
+        if (!name || name.length > MAX_NAME_LENGTH) {
+            throw new SavedViewError(`View name is required (at most ${MAX_NAME_LENGTH} characters)`);
+        }
+        fields.name = name;
+    }
+    if (!partial || body.state !== undefined) {
+        const state = body.state ?? {};
+        if (typeof state !== 'object' || Array.isArray(state)) {
+            throw new SavedViewError('View state must be an object of text values');
+        }
+        const entries = Object.entries(state);
+        if (entries.length > MAX_STATE_KEYS) {
+            throw new SavedViewError(`A view can hold at most ${MAX_STATE_KEYS} settings`);
+        }
+        entries.forEach(([key, value]) => {
+            if (!STATE_KEY_PATTERN.test(key) || typeof value !== 'string' || value.length > MAX_VALUE_LENGTH) {
+                throw new SavedViewError(`Invalid view setting "${key}"`);
+            }
+        });
+        fields.state = Object.fromEntries(entries);
+    }
+    if (body.shared !== undefined) {
+        fields.shared = Boolean(body.shared);
+    }
+    return fields;
+}
+
+/** Other members of the user's firm; none when the account is not part of one. */
+async function firmColleagueIds(userId) {
+    const user = await User.findById(userId).select('firmId').lean();
+    if (!user?.firmId) {
+        return [];
+    }
+    const users = await User.find({ _id: { $ne: userId }, firmId: user.firmId }).select('_id').lean();
+    return users.map(colleague => colleague._id);
+}
+
+export const toApiView = (view, userId, ownerNames = new Map()) => {
+    const own = String(view.owner) === String(userId);
+    return {
+        id: view._id.toString(),
+        page: view.page,
+        name: view.name,
+        state: view.state instanceof Map ? Object.fromEntries(view.state) : view.state || {},
+        shared: Boolean(view.shared),
+        own,
+        ownerName: own ? null : ownerNames.get(String(view.owner)) || null,
+        updatedAt: view.updatedAt,
+    };
+};
+
+/** The user's views of a page, then those shared by colleagues at the same firm. */
+export async function listViews(userId, page) {
+    checkPage(page);
+    const colleagues = await firmColleagueIds(userId);
+    const views = await SavedView.find({
+        page,
+        $or: [{ owner: userId }, ...(colleagues.length ? [{ owner: { $in: colleagues }, shared: true }] : [])],
+    }).sort({ name: 1 }).lean();
+
+    const sharedOwners = [...new Set(views.map(v => String(v.owner)).filter(owner => owner !== String(userId)))];
+    const owners = sharedOwners.length
+        ? await User.find({ _id: { $in: sharedOwners } }).select('name profile.fullName').lean()
+        : [];
+    const ownerNames = new Map(owners.map(user => [String(user._id), user.profile?.fullName || user.name || 'A colleague']));
+    return views
+        .map(view => toApiView(view, userId, ownerNames))
+        .sort((a, b) => Number(b.own) - Number(a.own));
+}
@@ -0,0 +1,294 @@
+import mongoose from 'mongoose';
+import Case from '../models/Case.js';
+import Client from '../models/Client.js';
+import Invoice from '../models/Invoice.js';
+import Document from '../models/Document.js';
+import Hearing from '../models/Hearing.js';
+import CaseNote from '../models/CaseNote.js';
+import EntityChange from '../models/EntityChange.js';
+import { deleteFromCloudinary, extractPublicIdFromUrl } from '../config/cloudinary.js';
+import logger from '../utils/logger.js';
+import { withTransaction } from '../utils/transactions.js';
+import { caseNumberKey } from '../utils/caseNumber.js';
+import { findSameCaseNumber } from './caseNumbers.js';
+
+/**
+ * Trash: soft delete, restore and permanent purge.
+ *
+ * Deleting a case, client, invoice or document stamps `deletedAt` on it (see
+ * models/plugins/softDelete.js) instead of removing it. A trashed case takes
+ * its hearings, notes and case documents with it, marked `trashedWith` so a
+ * restore brings back exactly those and not records deleted on their own
+ * earlier. Anything left in the Trash longer than the retention window is
+ * purged for good by the cleanup worker.
+ */
+
+export const TRASH_RETENTION_DAYS = parseInt(process.env.TRASH_RETENTION_DAYS || '30', 10);
+const RETENTION_MS = TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+
+export const TRASH_TYPES = {
+    case: { model: Case, ownerField: 'owner' },
+    client: { model: Client, ownerField: 'owner' },
+    invoice: { model: Invoice, ownerField: 'owner' },
+    document: { model: Document, ownerField: 'ownerId' },
+};
+
+export class TrashError extends Error {
+    constructor(message, status = 400) {
+        super(message);
+        this.name = 'TrashError';
+        this.status = status;
+    }
+}
+
+function getType(type) {
+    const entry = TRASH_TYPES[type];
+    if (!entry) {
+        throw new TrashError(`Unknown trash type: ${type}`);
+    }
+    return entry;
+}
+
+function toObjectId(id) {
+    if (!mongoose.isValidObjectId(id)) {
+        throw new TrashError('Not found', 404);
+    }
+    return new mongoose.Types.ObjectId(String(id));
+}
+
+export function purgeDate(deletedAt) {
+    return new Date(new Date(deletedAt).getTime() + RETENTION_MS);
+}
+
+function describe(type, doc) {
+    switch (type) {
+        case 'case':
+            return { label: doc.caseNumber, subtitle: doc.clientName };
+        case 'client':
+            return { label: doc.name, subtitle: doc.email };
+        case 'invoice':
+            return { label: doc.invoiceNumber, subtitle: doc.status };
+        case 'document':
+            return { label: doc.name, subtitle: doc.mimetype };
+        default:
+            return { label: String(doc._id), subtitle: '' };
+    }
+}
+
+/**
+ * Move a record (and, for cases, its dependents) to the Trash, all in one
+ * transaction where the server supports them.
+ * @param {Object} [options]
+ * @param {mongoose.ClientSession} [options.session] - run inside the caller's transaction
+ * @returns {Promise<Object|null>} the trashed record, or null if the user has no such live record
+ */
+export async function moveToTrash(type, id, ownerId, { session = null } = {}) {
+    const { model, ownerField } = getType(type);
+    const _id = toObjectId(id);
+    const deletedAt = new Date();
+
+    const trash = async (txn) => {
+        const doc = await model.findOneAndUpdate(
+            { _id, [ownerField]: ownerId },
+            { $set: { deletedAt } },
+            { new: true, session: txn }
+        ).lean();
+        if (!doc) {
+            return null;
+        }
+
+        if (type === 'case') {
+            const marker = { $set: { deletedAt, trashedWith: _id } };
+            // Sequential: a session cannot run concurrent operations inside a transaction
+            await Hearing.updateMany({ caseId: _id }, marker, { session: txn });
+            await Document.updateMany({ caseId: _id }, marker, { session: txn });
+            await CaseNote.updateMany({ caseId: _id, isDeleted: false }, { $set: { isDeleted: true, deletedAt, trashedWith: _id } }, { session: txn });
+        }
+
+        return doc;
+    };
+
+    const doc = session ? await trash(session) : await withTransaction(trash);
+    return doc;
+}
+
+/**
+ * Bring a trashed record back, together with everything trashed alongside it,
+ * in one transaction where the server supports them. A case whose number has
+ * since been given to another live case stays in the Trash.
+ * @returns {Promise<Object|null>} the restored record, or null if it is not in the user's Trash
+ * @throws {TrashError} 409 when a restored case would duplicate a live case number
+ */
+export async function restoreFromTrash(type, id, ownerId) {
+    const { model, ownerField } = getType(type);
+    const _id = toObjectId(id);
+    const filter = { _id, [ownerField]: ownerId, deletedAt: { $ne: null } };
+
+    if (type === 'case') {
+        const trashed = await model.findOne(filter).select('caseNumber caseNumberKey').lean();
+        if (!trashed) {
+            return null;
+        }
+        const key = trashed.caseNumberKey || caseNumberKey(trashed.caseNumber);
+        const [duplicate] = await findSameCaseNumber(ownerId, key, _id);
+        if (duplicate) {
+            throw new TrashError(
+                `Case number "${trashed.caseNumber}" is now used by case "${duplicate.caseNumber}". Change one of the numbers before restoring this case.`,
+                409
+            );
+        }
+    }
+
+    return withTransaction(async (session) => {
+        const doc = await model.findOneAndUpdate(
+            filter,
+            { $set: { deletedAt: null }, $unset: { trashedWith: '' } },
+            { new: true, session }
+        ).lean();
+        if (!doc) {
+            return null;
+        }
+
+        if (type === 'case') {
+            const marker = { $set: { deletedAt: null }, $unset: { trashedWith: '' } };
+            await Hearing.updateMany({ trashedWith: _id, deletedAt: { $ne: null } }, marker, { session });
+            await Document.updateMany({ trashedWith: _id, deletedAt: { $ne: null } }, marker, { session });
+            await CaseNote.updateMany({ trashedWith: _id }, { $set: { isDeleted: false }, $unset: { deletedAt: '', trashedWith: '' } }, { session });
+        }
+
+        return doc;
+    });
+}
+
+async function deleteStoredFile(publicId, resourceType) {
+    if (!publicId) {
+        return;
+    }
+    try {
+        await deleteFromCloudinary(publicId, resourceType || 'auto');
+    } catch (err) {
+        // The database record goes regardless; an orphaned asset is cheaper than a stuck purge
+        logger.error({ err, publicId }, 'Trash purge: failed to delete file from Cloudinary');
+    }
+}
+
+async function purgeDocuments(filter) {
+    const docs = await Document.find(filter).setOptions({ withDeleted: true }).lean();
+    for (const doc of docs) {
+        const publicId = doc.cloudinaryPublicId
+            || (doc.url?.includes('cloudinary.com') ? extractPublicIdFromUrl(doc.url) : null);
+        await deleteStoredFile(publicId, doc.resourceType);
+    }
+    await Document.deleteMany({ _id: { $in: docs.map(d => d._id) } });
+}
+
+async function purgeCaseDependents(caseId) {
+    const notes = await CaseNote.find({ caseId }).select('attachments').lean();
+    for (const note of notes) {
+        for (const attachment of note.attachments || []) {
+            const resourceType = attachment.type === 'image' ? 'image'
+                : attachment.type === 'video' ? 'video'
+                : 'raw';
+            await deleteStoredFile(attachment.cloudinaryPublicId, resourceType);
+        }
+    }
+    const hearingIds = await Hearing.distinct('_id', { caseId });
+    await EntityChange.deleteMany({ entityType: 'hearing', entityId: { $in: hearingIds } });
+    await CaseNote.deleteMany({ caseId });
+    await Hearing.deleteMany({ caseId });
+    await purgeDocuments({ trashedWith: caseId, deletedAt: { $ne: null } });
+}
+
+async function purgeRecord(type, doc) {
+    const { model } = getType(type);
+    if (type === 'case') {
+        await purgeCaseDependents(doc._id);
+    }
+    if (type === 'document') {
+        await purgeDocuments({ _id: doc._id, deletedAt: { $ne: null } });
+        return;
+    }
+    await model.deleteOne({ _id: doc._id });
+    await EntityChange.deleteMany({ entityType: type, entityId: doc._id });
+}
+
+/**
+ * Permanently delete one trashed record before its retention window is up.
+ * @returns {Promise<boolean>} false if it is not in the user's Trash
+ */
+export async function purgeFromTrash(type, id, ownerId) {
+    const { model, ownerField } = getType(type);
+    const doc = await model.findOne({ _id: toObjectId(id), [ownerField]: ownerId, deletedAt: { $ne: null } }).lean();
+    if (!doc) {
+        return false;
+    }
+    await purgeRecord(type, doc);
+    return true;
+}
+
+/**
+ * List the user's Trash, newest first. Records that went in with a case are
+ * folded into that case's entry rather than listed on their own.
+ */
+export async function listTrash(ownerId, type = null) {
+    const types = type ? [type] : Object.keys(TRASH_TYPES);
+    types.forEach(getType);
+
+    const groups = await Promise.all(types.map(async (t) => {
+        const { model, ownerField } = TRASH_TYPES[t];
+        const docs = await model
+            .find({ [ownerField]: ownerId, deletedAt: { $ne: null }, trashedWith: { $exists: false } })
+            .sort({ deletedAt: -1 })
+            .lean();
+
+        const counts = new Map();
+        if (t === 'case' && docs.length > 0) {
+            const ids = docs.map(d => d._id);
+            const [hearings, notes, documents] = await Promise.all([
+                Hearing.aggregate([{ $match: { trashedWith: { $in: ids } } }, { $group: { _id: '$trashedWith', n: { $sum: 1 } } }]).option({ withDeleted: true }),
+                CaseNote.aggregate([{ $match: { trashedWith: { $in: ids } } }, { $group: { _id: '$trashedWith', n: { $sum: 1 } } }]),
+                Document.aggregate([{ $match: { trashedWith: { $in: ids } } }, { $group: { _id: '$trashedWith', n: { $sum: 1 } } }]).option({ withDeleted: true }),
+            ]);
+            for (const [key, rows] of [['hearings', hearings], ['notes', notes], ['documents', documents]]) {
+                for (const row of rows) {
+                    const entry = counts.get(row._id.toString()) || {};
+                    entry[key] = row.n;
+                    counts.set(row._id.toString(), entry);
+                }
+            }
+        }
+
+        return docs.map(doc => ({
+            type: t,
+            id: doc._id.toString(),
+            ...describe(t, doc),
+            deletedAt: doc.deletedAt,
+            purgeAt: purgeDate(doc.deletedAt),
+            dependents: counts.get(doc._id.toString()) || {},
+        }));
+    }));
+
+    return groups.flat().sort((a, b) => b.deletedAt - a.deletedAt);
+}
+
+/**
+ * Purge everything whose retention window has expired. Run by the cleanup worker.
+ * @returns {Promise<Object>} purged counts by type
+ */
+export async function purgeExpired(now = new Date()) {
+    const cutoff = new Date(now.getTime() - RETENTION_MS);
+    const stats = {};
+
+    for (const [type, { model }] of Object.entries(TRASH_TYPES)) {
+        const expired = await model
+            .find({ deletedAt: { $ne: null, $lt: cutoff }, trashedWith: { $exists: false } })
+            .select('_id')
+            .lean();
+        for (const doc of expired) {
+            await purgeRecord(type, doc);
+        }
+        stats[type] = expired.length;
+    }
+
+    return stats;
+}
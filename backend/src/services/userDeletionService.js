@@ -11,7 +11,15 @@ import {
     TimeEntry,
     Activity,
     AuditLog,
-    PasswordReset
+    PasswordReset,
+    EntityChange,
+    CaseFieldSchema,
+    CourtHoliday,
+    ImportBatch,
+    Court,
+    Judge,
+    SavedView,
+    CalendarEvent
 } from '../models/index.js';
 // Models not in index.js but identified
 import AdminAuditLog from '../models/AdminAuditLog.js';
@@ -73,7 +81,15 @@ export async function deleteUserAccount(userId) {
             { model: Hearing, name: 'hearings', field: 'owner' },
             { model: Alert, name: 'alerts', field: 'owner' },
             { model: TimeEntry, name: 'timeEntries', field: 'owner' },
-            { model: Activity, name: 'activities', field: 'owner' }
+            { model: Activity, name: 'activities', field: 'owner' },
+            { model: EntityChange, name: 'entityChanges', field: 'owner' },
+            { model: CaseFieldSchema, name: 'caseFieldSchemas', field: 'owner' },
+            { model: CourtHoliday, name: 'courtHolidays', field: 'owner' },
+            { model: ImportBatch, name: 'importBatches', field: 'owner' },
+            { model: Court, name: 'courts', field: 'owner' },
+            { model: Judge, name: 'judges', field: 'owner' },
+            { model: SavedView, name: 'savedViews', field: 'owner' },
+            { model: CalendarEvent, name: 'calendarEvents', field: 'owner' }
         ];
 
         for (const { model, name, field } of mainModels) {
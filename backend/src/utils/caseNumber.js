@@ -0,0 +1,105 @@
+/**
+ * Parsing and normalisation of case numbers.
+ *
+ * The same matter reaches the app written many ways: "CS(OS) 123/2023",
+ * "CS (OS) No. 123 of 2023", "cs(os)-0123-23", or by its 16-character eCourts
+ * CNR such as "DLHC010012342023". parseCaseNumber() recognises a CNR or a
+ * court number (case type, number, year) and returns a canonical spelling and
+ * a key that is equal for every way of writing the same number. Anything else
+ * is kept as entered and keyed on its letters and digits alone.
+ */
+
+// CNR: state code (2 letters), district code (2 letters), establishment (2 digits),
+// case serial (6 digits), filing year (4 digits)
+const CNR_PATTERN = /^([A-Z]{2})([A-Z]{2})(\d{2})(\d{6})(\d{4})$/;
+const CNR_PREFIX = /^CNR\s*(?:NO\.?|NUMBER)?\s*[:#-]?\s*/;
+const COURT_PATTERN = /^(.*?)[\s.]*(\d+)\s*(?:\/|-|\s+OF\s+)\s*(\d{4}|\d{2})$/;
+const CASE_TYPE_PATTERN = /^[A-Z][A-Z0-9()&-]*$/;
+const EARLIEST_YEAR = 1900;
+
+const latestYear = () => new Date().getFullYear() + 1;
+
+/** A two-digit year is in this century unless that would put it in the future. */
+function fullYear(year) {
+    if (year.length === 4) {
+        return Number(year);
+    }
+    const century = Number(year) <= latestYear() % 100 ? 2000 : 1900;
+    return century + Number(year);
+}
+
+/**
+ * The parts of a CNR number, or null when value is not shaped like one.
+ * A CNR-shaped value with an impossible part comes back with an error.
+ */
+export function parseCnr(value) {
+    const compact = String(value || '').toUpperCase().trim().replace(CNR_PREFIX, '').replace(/[\s/.-]/g, '');
+    const match = compact.match(CNR_PATTERN);
+    if (!match) {
+        return null;
+    }
+    const [, stateCode, districtCode, establishment, serial, year] = match;
+    const parts = { cnr: compact, stateCode, districtCode, establishment, serial: Number(serial), year: Number(year) };
+    if (establishment === '00') {
+        return { ...parts, error: `CNR ${compact} has no court establishment code` };
+    }
+    if (parts.serial === 0) {
+        return { ...parts, error: `CNR ${compact} has no case serial number` };
+    }
+    if (parts.year < EARLIEST_YEAR || parts.year > latestYear()) {
+        return { ...parts, error: `CNR ${compact} has an impossible filing year (${year})` };
+    }
+    return parts;
+}
+
+/** "W.P. (C)" → "WP(C)", "Crl.M.C." → "CRLMC"; drops a trailing "No." */
+function normalizeCaseType(text) {
+    return text.replace(/\b(?:NO|NUMBER)\.?\s*$/, '').replace(/[.\s]/g, '').replace(/-+$/, '');
+}
+
+/**
+ * Recognise a case number.
+ *
+ * Returns { kind, canonical, key } plus the parts found: for a CNR the cnr,
+ * state and district codes, establishment, serial and year; for a court
+ * number the caseType ('' when none was written), number and year. `error`
+ * is set when the value is a CNR with an impossible part.
+ */
+export function parseCaseNumber(raw) {
+    const text = String(raw || '').trim().replace(/\s+/g, ' ');
+    const upper = text.toUpperCase();
+
+    const cnr = parseCnr(upper);
+    if (cnr) {
+        return { kind: 'cnr', canonical: cnr.cnr, key: `CNR:${cnr.cnr}`, ...cnr };
+    }
+
+    const match = upper.match(COURT_PATTERN);
+    if (match) {
+        const caseType = normalizeCaseType(match[1]);
+        const number = Number(match[2]);
+        const year = fullYear(match[3]);
+        const typeOk = caseType === '' || CASE_TYPE_PATTERN.test(caseType);
+        if (typeOk && number > 0 && year >= EARLIEST_YEAR && year <= latestYear()) {
+            return {
+                kind: 'court',
+                canonical: `${caseType ? `${caseType} ` : ''}${number}/${year}`,
+                key: `${caseType}|${number}|${year}`,
+                caseType,
+                number,
+                year,
+            };
+        }
+    }
+
+    return { kind: 'other', canonical: text, key: upper.replace(/[^A-Z0-9]/g, '') };
+}
+
+/** The key two case numbers share when they are the same number written differently. */
+export const caseNumberKey = (raw) => parseCaseNumber(raw).key;
+
+/** What a case stores about its number: the key duplicates are found by and the parsed parts. */
+export function caseNumberFields(raw) {
+    const { key, error, ...parts } = parseCaseNumber(raw);
+    return { fields: { caseNumberKey: key, caseNumberParts: parts }, error };
+}
@@ -6,6 +6,7 @@
  */
 
 import { queryDocuments, getDocumentById, COLLECTIONS } from '../services/mongodb.js';
+import { listedTogetherCaseIds } from '../services/caseLinks.js';
 
 /**
  * Get active conflict scopes from environment configuration
@@ -94,11 +95,14 @@ export function computeHearingTimes(hearingDate, hearingTime, timezone, duration
  * @param {Date} endAt - End time (UTC)
  * @param {Object} resourceScope - Resource scope identifiers
  * @param {string} excludeHearingId - Hearing ID to exclude (for updates)
+ * @param {string} caseId - Case of the hearing being scheduled; overlaps with
+ *   hearings of its connected and cross-FIR matters are flagged `listedTogether`
  * @returns {Promise<Array>} Array of conflicting hearings
  */
-export async function checkHearingConflicts(userId, startAt, endAt, resourceScope = {}, excludeHearingId = null) {
+export async function checkHearingConflicts(userId, startAt, endAt, resourceScope = {}, excludeHearingId = null, caseId = null) {
     // Get active conflict scopes from config
     const conflictScopes = getConflictScopes();
+    const listedTogetherCases = caseId ? await listedTogetherCaseIds(userId, caseId) : new Set();
 
     // Query all active hearings for the user
     const filters = [
@@ -180,13 +184,19 @@ export async function checkHearingConflicts(userId, startAt, endAt, resourceScop
                 console.warn(`Could not fetch case ${hearing.caseId} for conflict details:`, err.message);
             }
 
+            // Connected matters are called on together, so sharing a slot is expected
+            const listedTogether = listedTogetherCases.has(String(hearing.caseId));
+
             conflicts.push({
                 hearingId: hearing.id,
                 caseNumber,
                 startAt: hearingStart,
                 endAt: hearingEnd,
-                conflictReason: scopeConflicts.length > 0 ? scopeConflicts.join(', ') : 'Time overlap',
-                resourceScope: scopeConflicts
+                conflictReason: listedTogether
+                    ? 'Listed together (connected matter)'
+                    : scopeConflicts.length > 0 ? scopeConflicts.join(', ') : 'Time overlap',
+                resourceScope: scopeConflicts,
+                listedTogether
             });
         }
     }
@@ -194,6 +204,15 @@ export async function checkHearingConflicts(userId, startAt, endAt, resourceScop
     return conflicts;
 }
 
+/**
+ * Whether any of the conflicts is a real clash, i.e. not a connected matter listed together
+ * @param {Array} conflicts - Result of checkHearingConflicts
+ * @returns {boolean}
+ */
+export function hasBlockingConflict(conflicts) {
+    return conflicts.some(conflict => !conflict.listedTogether);
+}
+
 /**
  * Validate hearing data before conflict check
  * @param {Object} hearingData - Hearing data to validate
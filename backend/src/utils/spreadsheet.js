@@ -0,0 +1,289 @@
+import zlib from 'zlib';
+
+/**
+ * Read the first sheet of a CSV or XLSX file into rows of cell strings.
+ *
+ * XLSX is a zip of XML parts; only what a data sheet needs is read (shared
+ * strings, number formats to recognise dates, the first worksheet). Date
+ * cells come back as YYYY-MM-DD. Formulas give their cached value.
+ */
+
+export class SpreadsheetError extends Error {
+    constructor(message, status = 400) {
+        super(message);
+        this.name = 'SpreadsheetError';
+        this.status = status;
+    }
+}
+
+const MAX_ROWS = 5000;
+const MAX_COLUMNS = 100;
+// Unpacked size caps for .xlsx parts, so a small zip cannot inflate into gigabytes
+const MAX_ENTRY_BYTES = 32 * 1024 * 1024;
+const MAX_UNZIPPED_BYTES = 64 * 1024 * 1024;
+
+// ── CSV ──────────────────────────────────────────────────────────────────────
+
+/** The delimiter that splits the header line into the most columns: comma, semicolon or tab. */
+function detectDelimiter(text) {
+    const firstLine = text.slice(0, text.search(/\r?\n|$/));
+    return [',', ';', '\t']
+        .map(delimiter => ({ delimiter, count: firstLine.split(delimiter).length }))
+        .sort((a, b) => b.count - a.count)[0].delimiter;
+}
+
+/** Parse CSV text (RFC 4180 quoting, any line ending). Blank lines are dropped. */
+export function parseCsv(input) {
+    const text = input.replace(/^\uFEFF/, '');
+    const delimiter = detectDelimiter(text);
+    const rows = [];
+    let row = [];
+    let cell = '';
+    let quoted = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+        if (quoted) {
+            if (ch === '"' && text[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (ch === '"') {
+                quoted = false;
+            } else {
+                cell += ch;
+            }
+        } else if (ch === '"' && cell === '') {
+            quoted = true;
+        } else if (ch === delimiter) {
+            row.push(cell);
+            cell = '';
+        } else if (ch === '\n' || ch === '\r') {
+            if (ch === '\r' && text[i + 1] === '\n') {
+                i++;
+            }
+            row.push(cell);
+            rows.push(row);
+            row = [];
+            cell = '';
+        } else {
+            cell += ch;
+        }
+    }
+    if (cell !== '' || row.length > 0) {
+        row.push(cell);
+        rows.push(row);
+    }
+    return rows.filter(r => r.some(value => value.trim() !== ''));
+}
+
+// ── XLSX ─────────────────────────────────────────────────────────────────────
+
+/** Inflate one zip entry, within what is left of the unpacked size allowance. */
+function inflateEntry(data, allowance) {
+    try {
+        return zlib.inflateRawSync(data, { maxOutputLength: Math.max(1, Math.min(MAX_ENTRY_BYTES, allowance)) });
+    } catch (error) {
+        if (error.code === 'ERR_BUFFER_TOO_LARGE') {
+            throw new SpreadsheetError('The workbook is too large to import');
+        }
+        throw error;
+    }
+}
+
+/** Read the entries of a zip archive into a Map of name → Buffer. */
+function readZip(buffer) {
+    const EOCD = 0x06054b50;
+    let eocd = -1;
+    // The end-of-central-directory record sits in the last 64 KiB (after an optional comment)
+    for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 65557); i--) {
+        if (buffer.readUInt32LE(i) === EOCD) {
+            eocd = i;
+            break;
+        }
+    }
+    if (eocd < 0) {
+        throw new SpreadsheetError('The file is not a valid .xlsx workbook');
+    }
+
+    const entries = new Map();
+    let unzipped = 0;
+    const count = buffer.readUInt16LE(eocd + 10);
+    let offset = buffer.readUInt32LE(eocd + 16);
+    for (let n = 0; n < count; n++) {
+        if (buffer.readUInt32LE(offset) !== 0x02014b50) {
+            throw new SpreadsheetError('The workbook is damaged');
+        }
+        const method = buffer.readUInt16LE(offset + 10);
+        const compressedSize = buffer.readUInt32LE(offset + 20);
+        const nameLength = buffer.readUInt16LE(offset + 28);
+        const extraLength = buffer.readUInt16LE(offset + 30);
+        const commentLength = buffer.readUInt16LE(offset + 32);
+        const localOffset = buffer.readUInt32LE(offset + 42);
+        const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+        const dataStart = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+        const data = buffer.subarray(dataStart, dataStart + compressedSize);
+        let content = null;
+        if (method === 0) {
+            content = data;
+        } else if (method === 8) {
+            content = inflateEntry(data, MAX_UNZIPPED_BYTES - unzipped);
+        }
+        if (content) {
+            unzipped += content.length;
+            if (content.length > MAX_ENTRY_BYTES || unzipped > MAX_UNZIPPED_BYTES) {
+                throw new SpreadsheetError('The workbook is too large to import');
+            }
+            entries.set(name, content);
+        }
+        offset += 46 + nameLength + extraLength + commentLength;
+    }
+    return entries;
+}
+
+function unescapeXml(text) {
+    return text
+        .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+        .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&amp;/g, '&');
+}
+
+const attribute = (attrs, name) => attrs.match(new RegExp(`\\b${name}="([^"]*)"`))?.[1];
+
+/** Text of a rich or plain string item, skipping phonetic runs. */
+const stringItemText = (xml) => unescapeXml(
+    [...xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, '').matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g)].map(m => m[1]).join('')
+);
+
+function readSharedStrings(xml = '') {
+    return [...xml.matchAll(/<si>([\s\S]*?)<\/si>/g)].map(m => stringItemText(m[1]));
+}
+
+// Built-in number formats that display a date
+const BUILT_IN_DATE_FORMATS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47]);
+
+/** For each cell style index, whether it formats its number as a date. */
+function readDateStyles(xml = '') {
+    const customDates = new Set();
+    for (const [, attrs] of xml.matchAll(/<numFmt\b([^>]*)\/?>/g)) {
+        // Ignore quoted literals and [colour]/[locale] sections before looking for date parts
+        const code = unescapeXml(attribute(attrs, 'formatCode') || '').replace(/"[^"]*"|\[[^\]]*\]/g, '');
+        if (/[dmy]/i.test(code)) {
+            customDates.add(Number(attribute(attrs, 'numFmtId')));
+        }
+    }
+    const cellXfs = xml.match(/<cellXfs\b[^>]*>([\s\S]*?)<\/cellXfs>/)?.[1] || '';
+    return [...cellXfs.matchAll(/<xf\b([^>]*)/g)].map(([, attrs]) => {
+        const id = Number(attribute(attrs, 'numFmtId') || 0);
+        return BUILT_IN_DATE_FORMATS.has(id) || customDates.has(id);
+    });
+}
+
+/** Excel serial day (1900 date system) to YYYY-MM-DD. */
+export function excelSerialToDate(serial) {
+    const ms = Math.round((serial - 25569) * 86400) * 1000;
+    return new Date(ms).toISOString().slice(0, 10);
+}
+
+const columnIndex = (ref) => [...ref.replace(/\d+$/, '')]
+    .reduce((n, ch) => n * 26 + ch.toUpperCase().charCodeAt(0) - 64, 0) - 1;
+
+function firstSheetPath(entries) {
+    const workbook = entries.get('xl/workbook.xml')?.toString('utf8') || '';
+    const relId = workbook.match(/<sheet\b[^>]*\br:id="([^"]+)"/)?.[1];
+    const rels = entries.get('xl/_rels/workbook.xml.rels')?.toString('utf8') || '';
+    const target = relId && [...rels.matchAll(/<Relationship\b([^>]*)\/?>/g)]
+        .map(([, attrs]) => attrs)
+        .find(attrs => attribute(attrs, 'Id') === relId);
+    const path = target ? attribute(target, 'Target') : 'worksheets/sheet1.xml';
+    return path.startsWith('/') ? path.slice(1) : `xl/${path}`;
+}
+
+/** Parse the first worksheet of an .xlsx file, stopping once there are more rows than an import takes. */
+export function parseXlsx(buffer) {
+    const entries = readZip(buffer);
+    const sheet = entries.get(firstSheetPath(entries))?.toString('utf8');
+    if (!sheet) {
+        throw new SpreadsheetError('The workbook has no worksheet');
+    }
+    const strings = readSharedStrings(entries.get('xl/sharedStrings.xml')?.toString('utf8'));
+    const dateStyles = readDateStyles(entries.get('xl/styles.xml')?.toString('utf8'));
+
+    const rows = [];
+    for (const [, rowXml] of sheet.matchAll(/<row\b[^>]*>([\s\S]*?)<\/row>/g)) {
+        const row = [];
+        for (const [, attrs, body = ''] of rowXml.matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+            const ref = attribute(attrs, 'r');
+            const index = ref ? columnIndex(ref) : row.length;
+            if (index >= MAX_COLUMNS) {
+                continue;
+            }
+            const type = attribute(attrs, 't');
+            const raw = body.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+            let value = '';
+            if (type === 's') {
+                value = strings[Number(raw)] ?? '';
+            } else if (type === 'inlineStr') {
+                value = stringItemText(body.match(/<is>([\s\S]*?)<\/is>/)?.[1] || '');
+            } else if (type === 'b') {
+                value = raw === '1' ? 'TRUE' : 'FALSE';
+            } else if (raw !== undefined) {
+                value = unescapeXml(raw);
+                if (type !== 'str' && type !== 'e' && dateStyles[Number(attribute(attrs, 's') || 0)] && Number.isFinite(Number(value))) {
+                    value = excelSerialToDate(Number(value));
+                }
+            }
+            while (row.length < index) {
+                row.push('');
+            }
+            row[index] = value;
+        }
+        if (row.some(value => value.trim() !== '')) {
+            rows.push(row);
+        }
+        // The header, MAX_ROWS data rows and one more, so parseSpreadsheet can refuse the file
+        if (rows.length > MAX_ROWS + 1) {
+            break;
+        }
+    }
+    return rows;
+}
+
+/**
+ * Parse an uploaded spreadsheet by its extension.
+ * @returns {{ headers: string[], rows: string[][] }} the first non-blank row as headers, the rest as data
+ * @throws {SpreadsheetError}
+ */
+export function parseSpreadsheet(buffer, fileName = '') {
+    const extension = fileName.toLowerCase().split('.').pop();
+    let rows;
+    if (extension === 'csv' || extension === 'txt') {
+        rows = parseCsv(buffer.toString('utf8'));
+    } else if (extension === 'xlsx') {
+        try {
+            rows = parseXlsx(buffer);
+        } catch (error) {
+            // Offsets read from a corrupt archive run past the buffer
+            if (error instanceof SpreadsheetError) {
+                throw error;
+            }
+            throw new SpreadsheetError('The file is not a valid .xlsx workbook');
+        }
+    } else {
+        throw new SpreadsheetError('Upload a .csv or .xlsx file');
+    }
+
+    if (rows.length < 2) {
+        throw new SpreadsheetError('The file needs a header row and at least one data row');
+    }
+    if (rows.length - 1 > MAX_ROWS) {
+        throw new SpreadsheetError(`Files can have at most ${MAX_ROWS} data rows`);
+    }
+    const headers = rows[0].slice(0, MAX_COLUMNS).map(header => header.trim());
+    const data = rows.slice(1).map(row => headers.map((_, i) => (row[i] ?? '').trim()));
+    return { headers, rows: data };
+}
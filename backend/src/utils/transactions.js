@@ -0,0 +1,45 @@
+import mongoose from 'mongoose';
+
+/**
+ * MongoDB transactions where the server has them.
+ *
+ * Transactions need a replica set. A standalone mongod (local development,
+ * some self-hosted installs) has none, so writes there run one by one with no
+ * session, as they did before transactions were used.
+ */
+
+/** Whether the connected server is a replica set member and can run transactions. */
+export async function supportsTransactions() {
+    try {
+        const hello = await mongoose.connection.db.admin().command({ hello: 1 });
+        return !!hello.setName;
+    } catch (_err) {
+        return false;
+    }
+}
+
+/**
+ * Run `work(session)` in a transaction, committed when it resolves and aborted
+ * when it throws. Without transaction support `work(null)` runs on its own.
+ * @param {(session: mongoose.ClientSession|null) => Promise<*>} work
+ */
+export async function withTransaction(work) {
+    if (!(await supportsTransactions())) {
+        return work(null);
+    }
+
+    const session = await mongoose.startSession();
+    session.startTransaction();
+    try {
+        const result = await work(session);
+        await session.commitTransaction();
+        return result;
+    } catch (error) {
+        if (session.inTransaction()) {
+            await session.abortTransaction();
+        }
+        throw error;
+    } finally {
+        session.endSession();
+    }
+}
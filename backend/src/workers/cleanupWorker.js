@@ -28,6 +28,14 @@ async function processCleanupJob(job) {
         return { deleted: result.deletedCount };
     }
 
+    if (type === 'purge_trash') {
+        // Permanently remove Trash items (and their files) past the retention window
+        const { purgeExpired } = await import('../services/trash.js');
+        const purged = await purgeExpired();
+        logger.info({ purged }, 'Cleanup: expired trash purged');
+        return { purged };
+    }
+
     logger.warn({ type }, 'Cleanup worker: unknown job type');
     return {};
 }
@@ -45,6 +53,14 @@ export function startCleanupWorker() {
         logger.error({ jobId: job?.id, err }, 'Cleanup job failed');
     });
 
+    const cleanupQueue = new Queue(QUEUE_NAME, { connection });
+
+    cleanupQueue.add('purge_trash', { type: 'purge_trash' }, {
+        repeat: { every: 6 * 60 * 60 * 1000 } // every 6 hours
+    }).catch(err => {
+        logger.error({ err }, 'Cleanup worker: failed to schedule the trash purge');
+    });
+
     logger.info('Cleanup worker started');
     return worker;
 }
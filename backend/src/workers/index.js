@@ -22,6 +22,11 @@ if (!process.env.REDIS_URL) {
     process.exit(1);
 }
 
+// Jobs read and write through the Mongoose models, so the worker process needs its own connection.
+// Imported after dotenv so the module sees MONGODB_URI.
+const { connectMongoDB } = await import('../config/mongodb.js');
+await connectMongoDB();
+
 logger.info('Starting Juriq background workers...');
 
 const emailWorker = startEmailWorker();
@@ -7,6 +7,7 @@ import { AuthProvider, useAuth } from "./contexts/AuthContext";
 import { LegalDataProvider } from "./contexts/LegalDataContext";
 import { ThemeProvider } from "./contexts/ThemeContext";
 import { FormattingProvider } from "./contexts/FormattingContext";
+import { OfflineProvider } from "./contexts/OfflineContext";
 import React, { Suspense } from "react";
 import RequireAuth from "./components/auth/RequireAuth";
 import PublicOnlyRoute from "./components/auth/PublicOnlyRoute";
@@ -30,6 +31,7 @@ const Documents = React.lazy(() => import("./pages/Documents"));
 const Settings = React.lazy(() => import("./pages/Settings"));
 const News = React.lazy(() => import("./pages/News"));
 const Notes = React.lazy(() => import("./pages/Notes"));
+const Trash = React.lazy(() => import("./pages/Trash"));
 const NotFound = React.lazy(() => import("./pages/NotFound"));
 const ForgotPassword = React.lazy(() => import("./pages/ForgotPassword"));
 const ResetPassword = React.lazy(() => import("./pages/ResetPassword"));
@@ -92,64 +94,67 @@ const App = () => (
       <AuthProvider>
         <FormattingProvider>
           <LegalDataProvider>
-            <TooltipProvider>
-              <Toaster />
-              <Sonner />
-              <BrowserRouter future={{ v7_startTransition: true, v7_relativeSplatPath: true }}>
-                <ScrollToHash />
-                <DynamicCanonical />
-                <Suspense fallback={<PageLoader />}>
-                  <Routes>
-                    {/* Public Landing Routes — authenticated users are bounced to /dashboard */}
-                    <Route path="/" element={<PublicOnlyRoute><Home /></PublicOnlyRoute>} />
-                    <Route path="/product" element={<Product />} />
-                    <Route path="/experience" element={<Experience />} />
-                    <Route path="/security" element={<Security />} />
-                    <Route path="/about" element={<About />} />
-                    <Route path="/privacy" element={<Privacy />} />
-                    <Route path="/terms" element={<Terms />} />
-                    <Route path="/data-processing" element={<DataProcessing />} />
-                    <Route path="/cookie-policy" element={<CookiePolicy />} />
-                    <Route path="/client-portal" element={<ClientPortalLanding />} />
-                    <Route path="/legal-notes" element={<LegalNotesLanding />} />
+            <OfflineProvider>
+              <TooltipProvider>
+                <Toaster />
+                <Sonner />
+                <BrowserRouter future={{ v7_startTransition: true, v7_relativeSplatPath: true }}>
+                  <ScrollToHash />
+                  <DynamicCanonical />
+                  <Suspense fallback={<PageLoader />}>
+                    <Routes>
+                      {/* Public Landing Routes — authenticated users are bounced to /dashboard */}
+                      <Route path="/" element={<PublicOnlyRoute><Home /></PublicOnlyRoute>} />
+                      <Route path="/product" element={<Product />} />
+                      <Route path="/experience" element={<Experience />} />
+                      <Route path="/security" element={<Security />} />
+                      <Route path="/about" element={<About />} />
+                      <Route path="/privacy" element={<Privacy />} />
+                      <Route path="/terms" element={<Terms />} />
+                      <Route path="/data-processing" element={<DataProcessing />} />
+                      <Route path="/cookie-policy" element={<CookiePolicy />} />
+                      <Route path="/client-portal" element={<ClientPortalLanding />} />
+                      <Route path="/legal-notes" element={<LegalNotesLanding />} />
 
-                    {/* Auth pages — authenticated users are immediately bounced to /dashboard */}
-                    <Route path="/login" element={<PublicOnlyRoute><Login /></PublicOnlyRoute>} />
-                    <Route path="/signup" element={<PublicOnlyRoute><Signup /></PublicOnlyRoute>} />
-                    <Route path="/forgot-password" element={<PublicOnlyRoute><ForgotPassword /></PublicOnlyRoute>} />
-                    <Route path="/reset-password/:token" element={<ResetPassword />} />
-                    <Route path="/verify-email" element={<EmailVerificationSuccess />} />
-                    <Route path="/verification-pending" element={<EmailVerificationPending />} />
+                      {/* Auth pages — authenticated users are immediately bounced to /dashboard */}
+                      <Route path="/login" element={<PublicOnlyRoute><Login /></PublicOnlyRoute>} />
+                      <Route path="/signup" element={<PublicOnlyRoute><Signup /></PublicOnlyRoute>} />
+                      <Route path="/forgot-password" element={<PublicOnlyRoute><ForgotPassword /></PublicOnlyRoute>} />
+                      <Route path="/reset-password/:token" element={<ResetPassword />} />
+                      <Route path="/verify-email" element={<EmailVerificationSuccess />} />
+                      <Route path="/verification-pending" element={<EmailVerificationPending />} />
 
-                    {/* 14. Protected Dashboard Routes — wrapped with RequireAuth */}
-                    <Route
-                      path="/dashboard"
-                      element={
-                        <RequireAuth>
-                          <DashboardLayout />
-                        </RequireAuth>
-                      }
-                    >
-                      <Route index element={<Dashboard />} />
-                      <Route path="cases" element={<Cases />} />
-                      <Route path="calendar" element={<Calendar />} />
-                      <Route path="clients" element={<Clients />} />
-                      <Route path="legal-research" element={<LegalResearch />} />
-                      <Route path="billing" element={<Billing />} />
-                      <Route path="documents" element={<Documents />} />
-                      <Route path="settings" element={<Settings />} />
-                      <Route path="news" element={<News />} />
-                      <Route path="notes" element={<Notes />} />
-                      <Route path="templates" element={<TemplatesDashboard />} />
-                      <Route path="templates/:id" element={<TemplateWorkspace />} />
-                    </Route>
+                      {/* 14. Protected Dashboard Routes — wrapped with RequireAuth */}
+                      <Route
+                        path="/dashboard"
+                        element={
+                          <RequireAuth>
+                            <DashboardLayout />
+                          </RequireAuth>
+                        }
+                      >
+                        <Route index element={<Dashboard />} />
+                        <Route path="cases" element={<Cases />} />
+                        <Route path="calendar" element={<Calendar />} />
+                        <Route path="clients" element={<Clients />} />
+                        <Route path="legal-research" element={<LegalResearch />} />
+                        <Route path="billing" element={<Billing />} />
+                        <Route path="documents" element={<Documents />} />
+                        <Route path="settings" element={<Settings />} />
+                        <Route path="news" element={<News />} />
+                        <Route path="notes" element={<Notes />} />
+                        <Route path="trash" element={<Trash />} />
+                        <Route path="templates" element={<TemplatesDashboard />} />
+                        <Route path="templates/:id" element={<TemplateWorkspace />} />
+                      </Route>
 
-                    {/* Catch All */}
-                    <Route path="*" element={<NotFound />} />
-                  </Routes>
-                </Suspense>
-              </BrowserRouter>
-            </TooltipProvider>
+                      {/* Catch All */}
+                      <Route path="*" element={<NotFound />} />
+                    </Routes>
+                  </Suspense>
+                </BrowserRouter>
+              </TooltipProvider>
+            </OfflineProvider>
           </LegalDataProvider>
         </FormattingProvider>
       </AuthProvider>
@@ -10,6 +10,7 @@ import { Label } from '@/components/ui/label';
 import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
+import { useCases } from '@/hooks/useLegalQueries';
 import { useFormatting } from '@/contexts/FormattingContext';
 import { apiFetch } from '@/lib/api';
 
@@ -29,8 +30,10 @@ interface DashboardNotifications {
 }
 
 export const AlertManager = () => {
-  const { cases, alerts, addAlert, markAlertAsRead, deleteAlert } = useLegalData();
+  const { alerts, addAlert, markAlertAsRead, deleteAlert } = useLegalData();
   const [showCreateAlert, setShowCreateAlert] = useState(false);
+  // Cases label the alert cards and fill the new-alert picker
+  const { data: cases = [] } = useCases(showCreateAlert || alerts.length > 0);
   const [isActionBusy, setIsActionBusy] = useState(false);
   const [notifications, setNotifications] = useState<DashboardNotifications | null>(null);
   const [loading, setLoading] = useState(true);
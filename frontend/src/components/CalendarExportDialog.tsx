@@ -0,0 +1,91 @@
+import React, { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Download, Loader2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import { saveBlob } from '@/lib/calendarExport';
+import { calendarApi } from '@/services/api/client';
+
+interface CalendarExportDialogProps {
+  open: boolean;
+  /** The month on screen; the range starts as that month */
+  month: Date;
+  onClose: () => void;
+}
+
+/** Download the hearings and deadlines of a date range as an .ics file. */
+export const CalendarExportDialog: React.FC<CalendarExportDialogProps> = ({ open, month, onClose }) => {
+  const { toast } = useToast();
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [exporting, setExporting] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setFrom(format(new Date(month.getFullYear(), month.getMonth(), 1), 'yyyy-MM-dd'));
+      setTo(format(new Date(month.getFullYear(), month.getMonth() + 1, 0), 'yyyy-MM-dd'));
+    }
+  }, [open, month]);
+
+  const handleExport = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setExporting(true);
+    try {
+      saveBlob(`juriq-${from}-to-${to}.ics`, await calendarApi.exportRange(from, to));
+      onClose();
+    } catch (error) {
+      toast({
+        title: 'Export failed',
+        description: error instanceof Error ? error.message : 'Unable to export the calendar',
+        variant: 'destructive'
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={isOpen => { if (!isOpen) onClose(); }}>
+      <DialogContent className="max-w-sm">
+        <form onSubmit={handleExport} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Download className="h-5 w-5 text-primary" />
+              Export to calendar
+            </DialogTitle>
+            <DialogDescription>
+              An .ics file of the hearings and open deadlines in the range, for Google Calendar, Outlook or Apple Calendar.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1.5">
+              <Label htmlFor="exportFrom">From</Label>
+              <Input id="exportFrom" type="date" value={from} onChange={e => setFrom(e.target.value)} required />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="exportTo">To</Label>
+              <Input id="exportTo" type="date" value={to} min={from} onChange={e => setTo(e.target.value)} required />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose}>Cancel</Button>
+            <Button type="submit" disabled={exporting || !from || !to}>
+              {exporting && <Loader2 className="mr-1 h-3.5 w-3.5 animate-spin" />}
+              Download .ics
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
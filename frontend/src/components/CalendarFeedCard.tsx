@@ -0,0 +1,140 @@
+import React, { useState } from 'react';
+import { CalendarPlus, Copy, Link2Off, Loader2, RefreshCw } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { CourtAutocomplete } from '@/components/directory/DirectoryAutocomplete';
+import { CasePicker } from '@/components/pickers/RecordPicker';
+import { useToast } from '@/hooks/use-toast';
+import { useCalendarFeed, useCreateCalendarFeed, useRevokeCalendarFeed } from '@/hooks/useLegalQueries';
+import { useFormatting } from '@/contexts/FormattingContext';
+import { feedUrl, webcalUrl } from '@/lib/calendarExport';
+
+/**
+ * Settings card for the private calendar feed of hearings and deadlines. The
+ * URL is shown once, right after it is created; regenerating replaces it.
+ */
+export const CalendarFeedCard: React.FC = () => {
+  const { toast } = useToast();
+  const { formatDate } = useFormatting();
+  const { data: feed } = useCalendarFeed();
+  const createFeed = useCreateCalendarFeed();
+  const revokeFeed = useRevokeCalendarFeed();
+  // Path of the feed just created, with its token; gone once the page is left
+  const [path, setPath] = useState<string | null>(null);
+  // Empty for every case and every court
+  const [caseId, setCaseId] = useState('');
+  const [court, setCourt] = useState('');
+
+  const url = path
+    ? feedUrl(path, { caseId: caseId || undefined, court: court.trim() || undefined })
+    : null;
+
+  const handleCreate = async () => {
+    if (feed?.active && !confirm('Regenerate the feed link? Calendars subscribed to the current link stop updating.')) return;
+    try {
+      const created = await createFeed.mutateAsync();
+      setPath(created.path);
+    } catch (error) {
+      toast({
+        title: 'Feed not created',
+        description: error instanceof Error ? error.message : 'Unable to create the calendar feed',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const handleRevoke = async () => {
+    if (!confirm('Revoke the feed link? Calendars subscribed to it stop updating.')) return;
+    try {
+      await revokeFeed.mutateAsync();
+      setPath(null);
+      toast({ title: 'Feed revoked', description: 'The link no longer works' });
+    } catch (error) {
+      toast({
+        title: 'Revoke failed',
+        description: error instanceof Error ? error.message : 'Unable to revoke the calendar feed',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!url) return;
+    try {
+      await navigator.clipboard.writeText(url);
+      toast({ title: 'Link copied', description: 'Add it to your calendar app as a subscription' });
+    } catch {
+      toast({ title: 'Copy failed', description: 'Select the link and copy it instead', variant: 'destructive' });
+    }
+  };
+
+  return (
+    <Card className="shadow-card-custom">
+      <CardHeader className="p-3 pb-1.5">
+        <CardTitle className="flex items-center gap-1.5 text-sm">
+          <CalendarPlus className="h-4 w-4 text-primary" />
+          Calendar Feed
+        </CardTitle>
+        <CardDescription className="text-[10px]">
+          Subscribe to your hearings and deadlines from Google Calendar, Outlook or your phone. Anyone with the link can read it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3 px-3 pb-3 pt-0">
+        <p className="text-xs text-muted-foreground">
+          {feed?.active
+            ? <>
+                Active since {feed.createdAt ? formatDate(feed.createdAt) : '—'}
+                {feed.lastFetchedAt ? `; last read by a calendar on ${formatDate(feed.lastFetchedAt)}` : '; not read by a calendar yet'}.
+              </>
+            : 'No feed link yet.'}
+        </p>
+
+        {url && (
+          <div className="space-y-2 rounded-md border bg-muted/30 p-2">
+            <div className="flex flex-wrap gap-2">
+              <CasePicker value={caseId} onChange={id => setCaseId(id)} noneLabel="All cases" className="h-7 w-48 text-xs" />
+              <div className="w-56">
+                <CourtAutocomplete value={court} onChange={({ name }) => setCourt(name)} placeholder="All courts" className="h-7 text-xs" />
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <Input readOnly value={url} onFocus={e => e.target.select()} className="h-7 font-mono text-[10px]" />
+              <Button size="sm" variant="outline" className="h-7 text-xs" onClick={handleCopy}>
+                <Copy className="mr-1 h-3.5 w-3.5" />
+                Copy
+              </Button>
+              <Button size="sm" variant="outline" className="h-7 text-xs" asChild>
+                <a href={webcalUrl(url)}>Subscribe</a>
+              </Button>
+            </div>
+            <p className="text-[10px] text-muted-foreground">
+              This link is shown only now. If you lose it, regenerate the feed and subscribe again.
+            </p>
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <Button size="sm" variant="outline" className="h-7 text-xs" onClick={handleCreate} disabled={createFeed.isPending}>
+            {createFeed.isPending
+              ? <Loader2 className="mr-1 h-3.5 w-3.5 animate-spin" />
+              : feed?.active ? <RefreshCw className="mr-1 h-3.5 w-3.5" /> : <CalendarPlus className="mr-1 h-3.5 w-3.5" />}
+            {feed?.active ? 'Regenerate link' : 'Create feed link'}
+          </Button>
+          {feed?.active && (
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-7 text-xs text-destructive hover:text-destructive"
+              onClick={handleRevoke}
+              disabled={revokeFeed.isPending}
+            >
+              <Link2Off className="mr-1 h-3.5 w-3.5" />
+              Revoke
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,246 @@
+import React, { useMemo, useState } from 'react';
+import { Calendar, Loader2, User } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { useInfiniteScroll } from '@/hooks/useInfiniteScroll';
+import { useCaseBoardCounts, useCasePages, type ListFilters } from '@/hooks/useLegalQueries';
+import { useLegalData, type Case } from '@/contexts/LegalDataContext';
+import { useFormatting } from '@/contexts/FormattingContext';
+import { isClosedStatus } from '@/lib/closure';
+import { SYSTEM_PIPELINE_STAGES, currentStage } from '@/lib/pipeline';
+import { cn } from '@/lib/utils';
+import { CASE_STATUSES, type BoardGrouping } from '@/services/api/schemas';
+
+// Cases recorded at one of their own custom stages; CUSTOM_STAGE in backend/src/services/caseBoard.js
+const CUSTOM_COLUMN = 'custom';
+
+const PRIORITY_VARIANTS: Record<Case['priority'], 'destructive' | 'secondary' | 'outline'> = {
+  urgent: 'destructive',
+  high: 'secondary',
+  medium: 'outline',
+  low: 'outline',
+};
+
+interface Column {
+  id: string;
+  title: string;
+  /** Cards can be dropped here; the custom-stage column only collects */
+  droppable: boolean;
+}
+
+/** A card dropped in another column, shown there until the refreshed columns arrive */
+interface Move {
+  case_: Case;
+  from: string;
+  to: string;
+}
+
+interface CaseBoardProps {
+  /** The page's search, filters and sort; each column narrows them to its status or stage */
+  filters: ListFilters;
+  grouping: BoardGrouping;
+  onGroupingChange: (grouping: BoardGrouping) => void;
+  onOpen: (case_: Case) => void;
+  /** Dropping a card on won, lost or closed hands it to the closure wizard instead of changing the status */
+  onCloseCase?: (case_: Case, status: Case['status']) => void;
+}
+
+interface BoardColumnProps {
+  column: Column;
+  filters: ListFilters;
+  /** False when the page's status filter already rules the column out */
+  enabled: boolean;
+  /** Matching cases in the column on the server, before pending moves */
+  total: number | undefined;
+  moves: Move[];
+  highlighted: boolean;
+  onDragOver: (e: React.DragEvent) => void;
+  onDragLeave: () => void;
+  onDrop: (e: React.DragEvent) => void;
+  onDragStart: (case_: Case) => void;
+  onOpen: (case_: Case) => void;
+}
+
+/** One column, paging through its own cases as it scrolls. */
+const BoardColumn: React.FC<BoardColumnProps> = ({
+  column, filters, enabled, total, moves, highlighted, onDragOver, onDragLeave, onDrop, onDragStart, onOpen,
+}) => {
+  const { formatDateShort } = useFormatting();
+  const pages = useCasePages(filters, enabled);
+  const loadMoreRef = useInfiniteScroll({
+    hasNextPage: pages.hasNextPage,
+    isFetchingNextPage: pages.isFetchingNextPage,
+    fetchNextPage: pages.fetchNextPage,
+  });
+
+  const cards = useMemo(() => {
+    const moved = new Set(moves.map(move => move.case_.id));
+    const loaded = enabled ? pages.data?.pages.flatMap(page => page.items) ?? [] : [];
+    return [
+      ...moves.filter(move => move.to === column.id).map(move => move.case_),
+      ...loaded.filter(case_ => !moved.has(case_.id)),
+    ];
+  }, [moves, enabled, pages.data, column.id]);
+
+  const movedIn = moves.filter(move => move.to === column.id).length;
+  const movedOut = moves.filter(move => move.from === column.id).length;
+  let count: number | undefined = 0;
+  if (enabled) count = total === undefined ? undefined : total + movedIn - movedOut;
+
+  return (
+    <div
+      onDragOver={onDragOver}
+      onDragLeave={onDragLeave}
+      onDrop={onDrop}
+      className={cn(
+        'flex w-64 shrink-0 flex-col rounded-md border bg-muted/30',
+        highlighted && 'border-primary bg-primary/5'
+      )}
+    >
+      <div className="flex items-center justify-between px-2.5 py-2">
+        <span className="text-xs font-semibold">{column.title}</span>
+        <Badge variant="secondary" className="h-4 px-1.5 text-[10px]" title={count === undefined ? undefined : `${count} cases`}>
+          {count ?? '…'}
+        </Badge>
+      </div>
+      <div className="flex min-h-24 flex-col gap-1.5 px-1.5 pb-1.5">
+        {cards.map(case_ => (
+          <div
+            key={case_.id}
+            draggable={!case_.archivedAt}
+            onDragStart={e => { e.dataTransfer.setData('text/plain', case_.id); e.dataTransfer.effectAllowed = 'move'; onDragStart(case_); }}
+            onClick={() => onOpen(case_)}
+            className={cn(
+              'space-y-1 rounded-md border bg-card p-2 text-xs shadow-sm transition-colors hover:border-accent',
+              case_.archivedAt ? 'cursor-pointer opacity-70' : 'cursor-grab active:cursor-grabbing'
+            )}
+          >
+            <div className="flex items-start justify-between gap-1.5">
+              <span className="font-medium">{case_.caseNumber}</span>
+              <Badge variant={PRIORITY_VARIANTS[case_.priority]} className="h-4 px-1 text-[10px]">
+                {case_.priority}
+              </Badge>
+            </div>
+            <div className="flex items-center gap-1 text-muted-foreground">
+              <User className="h-3 w-3" />
+              <span className="truncate">{case_.clientName}</span>
+            </div>
+            <div className="flex items-center gap-1 text-muted-foreground">
+              <Calendar className="h-3 w-3" />
+              <span>{case_.nextHearing ? formatDateShort(case_.nextHearing) : 'No hearing listed'}</span>
+            </div>
+            {column.id === CUSTOM_COLUMN && (
+              <Badge variant="outline" className="h-4 px-1 text-[10px]">{currentStage(case_, []).name}</Badge>
+            )}
+            {case_.archivedAt && <Badge variant="outline" className="h-4 px-1 text-[10px]">Archived</Badge>}
+          </div>
+        ))}
+        <div ref={loadMoreRef} className="flex justify-center">
+          {(pages.isLoading || pages.isFetchingNextPage) && enabled && (
+            <Loader2 className="h-3.5 w-3.5 animate-spin text-muted-foreground" />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Cases as cards in columns by status or by hearing pipeline stage. Each
+ * column pages through its own cases on the server, and the counts cover
+ * every matching case. Dropping a card in another column changes the case's
+ * status, or records the stage it has reached. Archived cases stay where they are.
+ */
+export const CaseBoard: React.FC<CaseBoardProps> = ({ filters, grouping, onGroupingChange, onOpen, onCloseCase }) => {
+  const { toast } = useToast();
+  const { updateCase } = useLegalData();
+  const counts = useCaseBoardCounts(grouping, filters);
+  const [moves, setMoves] = useState<Record<string, Move>>({});
+  const [dragging, setDragging] = useState<{ case_: Case; from: string } | null>(null);
+  const [dragOver, setDragOver] = useState<string | null>(null);
+
+  const columns: Column[] = grouping === 'status'
+    ? CASE_STATUSES.map(status => ({ id: status, title: status.charAt(0).toUpperCase() + status.slice(1), droppable: true }))
+    : [
+      ...SYSTEM_PIPELINE_STAGES.map(stage => ({ id: stage.nodeId, title: stage.name, droppable: true })),
+      { id: CUSTOM_COLUMN, title: 'Custom stages', droppable: false },
+    ];
+  const statusFilter = filters.status?.split(',');
+
+  const clearMove = (caseId: string) => setMoves(current => {
+    const next = { ...current };
+    delete next[caseId];
+    return next;
+  });
+
+  const handleDrop = async (e: React.DragEvent, column: Column) => {
+    e.preventDefault();
+    setDragOver(null);
+    setDragging(null);
+    if (!dragging || !column.droppable || dragging.case_.archivedAt) return;
+    const { case_, from } = dragging;
+    if (from === column.id) return;
+    if (grouping === 'status' && onCloseCase && isClosedStatus(column.id as Case['status'])) {
+      onCloseCase(case_, column.id as Case['status']);
+      return;
+    }
+
+    setMoves(current => ({ ...current, [case_.id]: { case_, from: current[case_.id]?.from ?? from, to: column.id } }));
+    try {
+      // Resolves once the columns and counts have refetched
+      await updateCase(case_.id, grouping === 'status'
+        ? { status: column.id as Case['status'] }
+        : { pipelineStage: column.id });
+      clearMove(case_.id);
+    } catch (error) {
+      clearMove(case_.id);
+      toast({
+        title: 'Move failed',
+        description: error instanceof Error ? error.message : `Unable to move ${case_.caseNumber}`,
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const pendingMoves = useMemo(() => Object.values(moves), [moves]);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-1.5">
+        <span className="text-xs text-muted-foreground">Columns by</span>
+        {(['status', 'stage'] as const).map(option => (
+          <Button
+            key={option}
+            size="sm"
+            variant={grouping === option ? 'secondary' : 'outline'}
+            className="h-7 text-xs"
+            aria-pressed={grouping === option}
+            onClick={() => onGroupingChange(option)}
+          >
+            {option === 'status' ? 'Status' : 'Pipeline stage'}
+          </Button>
+        ))}
+      </div>
+
+      <div className="flex items-start gap-3 overflow-x-auto pb-2">
+        {columns.map(column => (
+          <BoardColumn
+            key={`${grouping}:${column.id}`}
+            column={column}
+            filters={grouping === 'status' ? { ...filters, status: column.id } : { ...filters, stage: column.id }}
+            enabled={grouping !== 'status' || !statusFilter || statusFilter.includes(column.id)}
+            total={counts.data?.groupBy === grouping ? counts.data.columns[column.id] : undefined}
+            moves={pendingMoves}
+            highlighted={dragOver === column.id}
+            onDragOver={e => { if (column.droppable) { e.preventDefault(); setDragOver(column.id); } }}
+            onDragLeave={() => setDragOver(current => (current === column.id ? null : current))}
+            onDrop={e => handleDrop(e, column)}
+            onDragStart={case_ => setDragging({ case_, from: column.id })}
+            onOpen={onOpen}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
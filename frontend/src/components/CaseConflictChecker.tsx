@@ -3,8 +3,12 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Badge } from '@/components/ui/badge';
 import { AlertTriangle, CheckCircle, Clock } from 'lucide-react';
 import { type Case, useLegalData } from '@/contexts/LegalDataContext';
+import { useDebounce } from '@/hooks/useDebounce';
+import { useConflictCandidates } from '@/hooks/useLegalQueries';
 
 import { parseTimeToMinutes } from '@/lib/utils';
+import { findSharedName, partySides } from '@/lib/parties';
+import { caseNumberKey } from '@/lib/caseNumber';
 
 interface ConflictCheckerProps {
   currentCase?: Case;
@@ -12,7 +16,7 @@ interface ConflictCheckerProps {
 }
 
 interface Conflict {
-  type: 'time' | 'client' | 'court' | 'opposing-party' | 'same-day';
+  type: 'time' | 'client' | 'court' | 'opposing-party' | 'adverse-interest' | 'same-day' | 'duplicate-number';
   severity: 'high' | 'medium' | 'low';
   message: string;
   affectedCase: Case;
@@ -20,8 +24,35 @@ interface Conflict {
   date?: string;
 }
 
+/** Midnight to midnight of the local day `date` falls on. */
+const dayWindow = (date: Date) => {
+  const from = new Date(date);
+  from.setHours(0, 0, 0, 0);
+  const to = new Date(from);
+  to.setDate(to.getDate() + 1);
+  to.setMilliseconds(-1);
+  return { from, to };
+};
+
 export const CaseConflictChecker = ({ currentCase, selectedDate }: ConflictCheckerProps) => {
-  const { cases, hearings } = useLegalData();
+  const { hearings } = useLegalData();
+
+  // Only the cases that could clash are loaded: same number, a shared party name or the same hearing day
+  const caseNumber = currentCase?.caseNumber?.trim() || undefined;
+  const sides = currentCase ? partySides(currentCase) : null;
+  const names = sides ? [...sides.own, ...sides.adverse].join('\n') : '';
+  const day = currentCase ? currentCase.hearingDate : selectedDate;
+  const dayTime = day ? new Date(day).getTime() : NaN;
+  const request = useMemo(() => ({
+    caseNumber,
+    names: names ? names.split('\n') : undefined,
+    ...(Number.isNaN(dayTime) ? {} : dayWindow(new Date(dayTime))),
+  }), [caseNumber, names, dayTime]);
+  const candidates = useDebounce(request, 300);
+  const { data: cases = [] } = useConflictCandidates(
+    candidates,
+    !!(candidates.caseNumber || candidates.names || candidates.from)
+  );
 
   const conflicts = useMemo(() => {
     const foundConflicts: Conflict[] = [];
@@ -33,6 +64,7 @@ export const CaseConflictChecker = ({ currentCase, selectedDate }: ConflictCheck
         caseNumber: c.caseNumber,
         clientName: c.clientName,
         opposingParty: c.opposingParty,
+        sides: partySides(c),
         // Preference: nextHearing, fallback to hearingDate
         eventDate: c.nextHearing || c.hearingDate,
         eventTime: c.hearingTime,
@@ -41,11 +73,13 @@ export const CaseConflictChecker = ({ currentCase, selectedDate }: ConflictCheck
       })),
       ...hearings.map(h => {
         const caseData = (h as unknown as { populatedCase: Case }).populatedCase || (h.caseId && typeof h.caseId === 'object' ? h.caseId : null);
+        const opposingParty = (h as unknown as { opposingParty: string }).opposingParty || '';
         return {
           id: h.id,
           caseNumber: caseData?.caseNumber || `Case ${h.caseId}`,
           clientName: caseData?.clientName || 'Unknown',
-          opposingParty: (h as unknown as { opposingParty: string }).opposingParty || '',
+          opposingParty,
+          sides: partySides({ clientName: caseData?.clientName ?? '', opposingParty, parties: caseData?.parties }),
           eventDate: h.nextHearingDate || h.hearingDate,
           eventTime: h.nextHearingTime || h.hearingTime,
           status: 'active' as const,
@@ -56,9 +90,21 @@ export const CaseConflictChecker = ({ currentCase, selectedDate }: ConflictCheck
 
     if (currentCase) {
       // MODE 1: Check conflicts FOR A SPECIFIC CASE (Editing/Adding mode)
+      const currentSides = partySides(currentCase);
+      const currentKey = currentCase.caseNumber?.trim() ? caseNumberKey(currentCase.caseNumber) : '';
       allEvents.forEach(event => {
         if (event.id === currentCase.id) return;
 
+        // The same case number written another way ("CS 12/2023" and "CS No. 12 of 2023")
+        if (currentKey && event.eventType === 'case' && caseNumberKey(event.caseNumber) === currentKey) {
+          foundConflicts.push({
+            type: 'duplicate-number',
+            severity: 'high',
+            message: `Possible duplicate: ${event.caseNumber} has the same case number`,
+            affectedCase: event as unknown as Case
+          });
+        }
+
         // Same day conflict check
         if (event.eventDate && currentCase.hearingDate) {
           const eDate = new Date(event.eventDate);
@@ -92,13 +138,25 @@ export const CaseConflictChecker = ({ currentCase, selectedDate }: ConflictCheck
           });
         }
 
-        // Opposing party conflict check
-        if (event.opposingParty && currentCase.opposingParty &&
-          event.opposingParty.toLowerCase() === currentCase.opposingParty.toLowerCase()) {
+        // Opposing party conflict check, across every party on the other side
+        const sharedOpponent = findSharedName(currentSides.adverse, event.sides.adverse);
+        if (sharedOpponent) {
           foundConflicts.push({
             type: 'opposing-party',
             severity: 'high',
-            message: `Conflict of interest: Same opposing party (${currentCase.opposingParty})`,
+            message: `Conflict of interest: Same opposing party (${sharedOpponent})`,
+            affectedCase: event as unknown as Case
+          });
+        }
+
+        // A party we act for in one matter is on the other side in the other
+        const switchedSide = findSharedName(currentSides.adverse, event.sides.own)
+          ?? findSharedName(currentSides.own, event.sides.adverse);
+        if (switchedSide) {
+          foundConflicts.push({
+            type: 'adverse-interest',
+            severity: 'high',
+            message: `Conflict of interest: ${switchedSide} is on opposite sides in ${currentCase.caseNumber} and ${event.caseNumber}`,
             affectedCase: event as unknown as Case
           });
         }
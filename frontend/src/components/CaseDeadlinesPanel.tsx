@@ -0,0 +1,323 @@
+import React, { useMemo, useState } from 'react';
+import { CheckCircle, Hourglass, Loader2, Plus, RotateCcw, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useDebounce } from '@/hooks/useDebounce';
+import {
+  useCaseDeadlines,
+  useCreateCaseDeadline,
+  useDeadlinePreview,
+  useDeadlineRules,
+  useDeleteCaseDeadline,
+  useUpdateCaseDeadline,
+} from '@/hooks/useLegalQueries';
+import { useFormatting } from '@/contexts/FormattingContext';
+import { CUSTOM_RULE_ID, daysUntil, parseDay, parseReminderDays, ruleSummary, rulesByAct } from '@/lib/deadlines';
+import type { DeadlineRequest } from '@/services/api/client';
+import type { CaseDeadline } from '@/services/api/schemas';
+
+interface CaseDeadlinesPanelProps {
+  caseId: string;
+}
+
+function dueBadge(deadline: CaseDeadline) {
+  if (deadline.status === 'done') return <Badge variant="secondary" className="text-[10px]">Done</Badge>;
+  const days = daysUntil(deadline.dueDate);
+  if (days < 0) return <Badge variant="destructive" className="text-[10px]">Overdue by {-days}d</Badge>;
+  if (days === 0) return <Badge variant="destructive" className="text-[10px]">Due today</Badge>;
+  return (
+    <Badge variant={days <= 7 ? 'default' : 'outline'} className="text-[10px]">
+      {days}d left
+    </Badge>
+  );
+}
+
+/**
+ * Limitation and statutory deadlines of a case. The due date is computed by
+ * the server from the rule, the trigger date and the firm's court holidays,
+ * and reminder alerts are scheduled for each open deadline.
+ */
+export const CaseDeadlinesPanel: React.FC<CaseDeadlinesPanelProps> = ({ caseId }) => {
+  const { toast } = useToast();
+  const { formatDate } = useFormatting();
+  const { data: ruleTable } = useDeadlineRules();
+  const { data: deadlines = [], isLoading } = useCaseDeadlines(caseId);
+  const createDeadline = useCreateCaseDeadline();
+  const updateDeadline = useUpdateCaseDeadline();
+  const deleteDeadline = useDeleteCaseDeadline();
+
+  const [adding, setAdding] = useState(false);
+  const [ruleId, setRuleId] = useState('');
+  const [triggerDate, setTriggerDate] = useState('');
+  const [excludedDays, setExcludedDays] = useState('');
+  const [customTitle, setCustomTitle] = useState('');
+  const [customDays, setCustomDays] = useState('');
+  const [remindersText, setRemindersText] = useState('');
+
+  const rules = useMemo(() => ruleTable?.rules ?? [], [ruleTable]);
+  const rule = rules.find(r => r.id === ruleId);
+  const isCustom = ruleId === CUSTOM_RULE_ID;
+
+  const request = useMemo<DeadlineRequest | null>(() => {
+    if (!ruleId || !triggerDate) return null;
+    if (isCustom && (!customTitle.trim() || !Number(customDays))) return null;
+    return {
+      ruleId,
+      triggerDate,
+      ...(excludedDays && { excludedDays: Number(excludedDays) }),
+      ...(isCustom && { title: customTitle.trim(), periodDays: Number(customDays) }),
+    };
+  }, [ruleId, triggerDate, excludedDays, isCustom, customTitle, customDays]);
+  const debouncedRequest = useDebounce(request, 300);
+  const preview = useDeadlinePreview(debouncedRequest);
+
+  const defaultReminders = (ruleTable?.defaultReminderDays ?? []).join(', ');
+
+  const resetForm = () => {
+    setAdding(false);
+    setRuleId('');
+    setTriggerDate('');
+    setExcludedDays('');
+    setCustomTitle('');
+    setCustomDays('');
+    setRemindersText('');
+  };
+
+  const showError = (title: string, error: unknown, fallback: string) =>
+    toast({ title, description: error instanceof Error ? error.message : fallback, variant: 'destructive' });
+
+  const handleSave = async () => {
+    if (!request) return;
+    const reminderDays = remindersText.trim() ? parseReminderDays(remindersText) : undefined;
+    if (reminderDays === null) {
+      toast({ title: 'Invalid reminders', description: 'Enter whole days before the due date, e.g. 30, 7, 1', variant: 'destructive' });
+      return;
+    }
+    try {
+      const saved = await createDeadline.mutateAsync({ caseId, deadline: { ...request, reminderDays } });
+      toast({ title: 'Deadline added', description: `${saved.title} — due ${formatDate(parseDay(saved.dueDate))}` });
+      resetForm();
+    } catch (error) {
+      showError('Save failed', error, 'Unable to save the deadline');
+    }
+  };
+
+  const setStatus = async (deadline: CaseDeadline, status: CaseDeadline['status']) => {
+    try {
+      await updateDeadline.mutateAsync({ caseId, id: deadline.id, updates: { status } });
+    } catch (error) {
+      showError('Update failed', error, 'Unable to update the deadline');
+    }
+  };
+
+  const handleDelete = async (deadline: CaseDeadline) => {
+    try {
+      await deleteDeadline.mutateAsync({ caseId, id: deadline.id });
+      toast({ title: 'Deadline removed', description: 'Its pending reminders were cancelled' });
+    } catch (error) {
+      showError('Delete failed', error, 'Unable to delete the deadline');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <Hourglass className="h-5 w-5" />
+            Deadlines
+          </CardTitle>
+          {!adding && (
+            <Button size="sm" variant="outline" onClick={() => setAdding(true)}>
+              <Plus className="mr-1 h-4 w-4" />
+              Add deadline
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {adding && (
+          <div className="space-y-3 rounded-md border p-3">
+            <div className="space-y-1.5">
+              <Label className="text-xs">Rule</Label>
+              <Select value={ruleId} onValueChange={setRuleId}>
+                <SelectTrigger className="h-8 text-xs">
+                  <SelectValue placeholder="Limitation article, appeal or notice period" />
+                </SelectTrigger>
+                <SelectContent>
+                  {rulesByAct(rules).map(([act, actRules]) => (
+                    <SelectGroup key={act}>
+                      <SelectLabel className="text-[10px]">{act}</SelectLabel>
+                      {actRules.map(r => (
+                        <SelectItem key={r.id} value={r.id} className="text-xs">
+                          {r.title} — {r.provision}
+                        </SelectItem>
+                      ))}
+                    </SelectGroup>
+                  ))}
+                  <SelectGroup>
+                    <SelectLabel className="text-[10px]">Other</SelectLabel>
+                    <SelectItem value={CUSTOM_RULE_ID} className="text-xs">Custom period</SelectItem>
+                  </SelectGroup>
+                </SelectContent>
+              </Select>
+              {rule && <p className="text-[10px] text-muted-foreground">{ruleSummary(rule)} from the trigger date</p>}
+            </div>
+
+            {isCustom && (
+              <div className="grid grid-cols-3 gap-2">
+                <Input
+                  value={customTitle}
+                  onChange={e => setCustomTitle(e.target.value)}
+                  placeholder="Deadline title"
+                  className="col-span-2 h-8 text-xs"
+                />
+                <Input
+                  type="number"
+                  min={1}
+                  value={customDays}
+                  onChange={e => setCustomDays(e.target.value)}
+                  placeholder="Days"
+                  className="h-8 text-xs"
+                />
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 gap-2 sm:grid-cols-3">
+              <div className="space-y-1.5">
+                <Label className="text-xs">{rule?.trigger ?? 'Trigger date'}</Label>
+                <Input type="date" value={triggerDate} onChange={e => setTriggerDate(e.target.value)} className="h-8 text-xs" />
+              </div>
+              <div className="space-y-1.5">
+                <Label className="text-xs">Days excluded (copy time)</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  value={excludedDays}
+                  onChange={e => setExcludedDays(e.target.value)}
+                  placeholder="0"
+                  className="h-8 text-xs"
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label className="text-xs">Remind days before</Label>
+                <Input
+                  value={remindersText}
+                  onChange={e => setRemindersText(e.target.value)}
+                  placeholder={defaultReminders}
+                  className="h-8 text-xs"
+                />
+              </div>
+            </div>
+
+            {request && (
+              <div className="rounded-md bg-muted/40 p-2 text-xs">
+                {preview.isFetching ? (
+                  <span className="flex items-center gap-1.5 text-muted-foreground">
+                    <Loader2 className="h-3.5 w-3.5 animate-spin" /> Computing…
+                  </span>
+                ) : preview.error ? (
+                  <span className="text-destructive">{preview.error.message}</span>
+                ) : preview.data && (
+                  <>
+                    <span className="font-medium">Due {formatDate(parseDay(preview.data.dueDate))}</span>
+                    {preview.data.periodEnd !== preview.data.dueDate && (
+                      <span className="text-muted-foreground">
+                        {' '}(period ends {formatDate(parseDay(preview.data.periodEnd))}, a court holiday or Sunday)
+                      </span>
+                    )}
+                    {preview.data.graceUntil && (
+                      <span className="block text-muted-foreground">
+                        Grace period until {formatDate(parseDay(preview.data.graceUntil))}
+                      </span>
+                    )}
+                  </>
+                )}
+              </div>
+            )}
+
+            <div className="flex justify-end gap-2">
+              <Button size="sm" variant="ghost" onClick={resetForm}>Cancel</Button>
+              <Button size="sm" onClick={handleSave} disabled={!request || createDeadline.isPending}>
+                Save deadline
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading deadlines…</p>
+        ) : deadlines.length === 0 ? (
+          !adding && <p className="text-sm text-muted-foreground">No deadlines tracked for this case.</p>
+        ) : (
+          <div className="space-y-2">
+            {deadlines.map(deadline => (
+              <div key={deadline.id} className="flex flex-wrap items-start justify-between gap-2 rounded-md border p-3">
+                <div className="min-w-0 space-y-0.5">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className={deadline.status === 'done' ? 'text-sm font-medium line-through' : 'text-sm font-medium'}>
+                      {deadline.title}
+                    </span>
+                    {dueBadge(deadline)}
+                  </div>
+                  {(deadline.provision || deadline.act) && (
+                    <p className="text-xs text-muted-foreground">
+                      {[deadline.provision, deadline.act].filter(Boolean).join(', ')}
+                    </p>
+                  )}
+                  <p className="text-xs">
+                    Due <span className="font-medium">{formatDate(parseDay(deadline.dueDate))}</span>
+                    <span className="text-muted-foreground"> · from {formatDate(parseDay(deadline.triggerDate))}</span>
+                    {deadline.graceUntil && (
+                      <span className="text-muted-foreground"> · grace until {formatDate(parseDay(deadline.graceUntil))}</span>
+                    )}
+                  </p>
+                  {deadline.reminderDays.length > 0 && deadline.status === 'open' && (
+                    <p className="text-[10px] text-muted-foreground">
+                      Reminders {deadline.reminderDays.map(days => (days === 0 ? 'on the day' : `${days}d before`)).join(', ')}
+                    </p>
+                  )}
+                </div>
+                <div className="flex gap-1">
+                  {deadline.status === 'open' ? (
+                    <Button size="sm" variant="ghost" className="h-7 px-2 text-xs" onClick={() => setStatus(deadline, 'done')}>
+                      <CheckCircle className="mr-1 h-3.5 w-3.5" />
+                      Done
+                    </Button>
+                  ) : (
+                    <Button size="sm" variant="ghost" className="h-7 px-2 text-xs" onClick={() => setStatus(deadline, 'open')}>
+                      <RotateCcw className="mr-1 h-3.5 w-3.5" />
+                      Reopen
+                    </Button>
+                  )}
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-7 px-2 text-destructive hover:text-destructive"
+                    onClick={() => handleDelete(deadline)}
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                    <span className="sr-only">Delete deadline</span>
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
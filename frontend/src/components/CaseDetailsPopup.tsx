@@ -18,13 +18,28 @@ import {
   Users,
   FileCheck,
   ArrowRight,
-  Eye
+  Eye,
+  Archive
 } from 'lucide-react';
 import { useLegalData, type Case, type Hearing } from '@/contexts/LegalDataContext';
 import { HearingRecordPopup } from './HearingRecordPopup';
 import { HearingViewPopup } from './HearingViewPopup';
 import { HearingPipelinePanel } from './HearingPipelinePanel';
+import { ChangeHistoryPanel } from './ChangeHistoryPanel';
+import { CaseDeadlinesPanel } from './CaseDeadlinesPanel';
+import { CaseLinksPanel } from './CaseLinksPanel';
+import { CaseTimelinePanel } from './CaseTimelinePanel';
+import { ReopenCaseDialog } from './closure/ReopenCaseDialog';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { getApiUrl, apiFetch } from '@/lib/api';
+import { cn } from '@/lib/utils';
+import { caseClientIds, fieldsForCaseType, formatCustomFieldValue } from '@/lib/customFields';
+import { CLOSURE_OUTCOME_LABELS } from '@/lib/closure';
+import { parseDay } from '@/lib/deadlines';
+import { causeTitle, PARTY_ROLE_LABELS, PARTY_ROLE_PLURAL_LABELS } from '@/lib/parties';
+import { PARTY_ROLES } from '@/services/api/schemas';
+import { useCaseFieldSchemas, useClientsById } from '@/hooks/useLegalQueries';
+import { useFormatting } from '@/contexts/FormattingContext';
 
 interface CaseDetailsPopupProps {
   case_: Case | null;
@@ -95,6 +110,10 @@ const normalizeHearing = (hearing: Hearing): Hearing => {
 
 export const CaseDetailsPopup: React.FC<CaseDetailsPopupProps> = ({ case_, isOpen, onClose }) => {
   const { getHearingsByCaseId, refreshCase } = useLegalData();
+  const { formatDate } = useFormatting();
+  const { data: caseFieldSchemas } = useCaseFieldSchemas();
+  // Only the clients the case's party fields name
+  const clients = useClientsById(isOpen && case_ ? caseClientIds(case_, fieldsForCaseType(caseFieldSchemas, case_.caseType)) : []);
   const [showHearingRecord, setShowHearingRecord] = useState(false);
   const [showHearingView, setShowHearingView] = useState(false);
   const [selectedHearing, setSelectedHearing] = useState<Hearing | null>(null);
@@ -103,6 +122,8 @@ export const CaseDetailsPopup: React.FC<CaseDetailsPopupProps> = ({ case_, isOpe
   const [localHearings, setLocalHearings] = useState<Hearing[]>([]);
   const [customPipelineNodes, setCustomPipelineNodes] = useState<Array<{ nodeId: string; name: string }>>([]);
   const [highlightedHearingId, setHighlightedHearingId] = useState<string | null>(null);
+  const [view, setView] = useState<'details' | 'timeline' | 'history'>('details');
+  const [showReopen, setShowReopen] = useState(false);
 
   // Get hearings from both global state and local state for maximum reliability
   const globalHearings = case_
@@ -180,6 +201,7 @@ export const CaseDetailsPopup: React.FC<CaseDetailsPopupProps> = ({ case_, isOpe
   // Fetch hearings and pipeline nodes when the popup opens or the case changes
   useEffect(() => {
     if (case_ && isOpen) {
+      setView('details');
       reloadHearings();
       // Fetch pipeline nodes so HearingRecordPopup dropdown is in sync
       apiFetch(getApiUrl(`/api/cases/${case_.id}/pipeline`), { credentials: 'include' })
@@ -194,6 +216,11 @@ export const CaseDetailsPopup: React.FC<CaseDetailsPopupProps> = ({ case_, isOpe
 
   if (!case_) return null;
 
+  const customFields = fieldsForCaseType(caseFieldSchemas, case_.caseType).map(field => ({
+    field,
+    value: formatCustomFieldValue(field, case_.customFields?.[field.key], { clients, formatDate }),
+  }));
+
   const getStatusIcon = (status: Case['status']) => {
     switch (status) {
       case 'active': return <Clock className="h-4 w-4" />;
@@ -279,12 +306,66 @@ export const CaseDetailsPopup: React.FC<CaseDetailsPopupProps> = ({ case_, isOpe
                 <Badge variant={getPriorityColor(case_.priority)}>
                   {case_.priority}
                 </Badge>
+                {case_.archivedAt && (
+                  <Badge variant="outline" className="gap-1">
+                    <Archive className="h-3 w-3" />
+                    archived
+                  </Badge>
+                )}
               </div>
             </DialogTitle>
+            <Tabs value={view} onValueChange={value => setView(value as typeof view)} className="pt-2">
+              <TabsList className="h-8">
+                <TabsTrigger value="details" className="text-xs">Details</TabsTrigger>
+                <TabsTrigger value="timeline" className="text-xs">Timeline</TabsTrigger>
+                <TabsTrigger value="history" className="text-xs">History</TabsTrigger>
+              </TabsList>
+            </Tabs>
           </DialogHeader>
 
-          <ScrollArea className="h-[calc(90vh-120px)]">
+          {view === 'timeline' && (
+            <ScrollArea className="h-[calc(90vh-160px)]">
+              <div className="p-6">
+                <CaseTimelinePanel case_={case_} />
+              </div>
+            </ScrollArea>
+          )}
+
+          {view === 'history' && (
+            <ScrollArea className="h-[calc(90vh-160px)]">
+              <div className="p-6">
+                <ChangeHistoryPanel entityType="case" entityId={case_.id} onReverted={() => refreshCase(case_.id)} />
+              </div>
+            </ScrollArea>
+          )}
+
+          <ScrollArea className={cn('h-[calc(90vh-160px)]', view !== 'details' && 'hidden')}>
             <div className="p-6 space-y-6">
+              {/* Closure */}
+              {(case_.closure || case_.archivedAt) && (
+                <Card className="border-muted-foreground/30 bg-muted/30">
+                  <CardContent className="flex items-start justify-between gap-4 py-4">
+                    <div className="space-y-1 text-sm">
+                      <div className="flex items-center gap-2 font-medium">
+                        <FileCheck className="h-4 w-4 text-muted-foreground" />
+                        {case_.closure
+                          ? `${CLOSURE_OUTCOME_LABELS[case_.closure.outcome]} — disposed of on ${formatDate(parseDay(case_.closure.disposalDate))}`
+                          : 'Closed'}
+                      </div>
+                      {case_.closure?.summary && <p className="text-muted-foreground">{case_.closure.summary}</p>}
+                      {case_.archivedAt && (
+                        <p className="text-xs text-muted-foreground">
+                          Archived on {formatDate(case_.archivedAt)}; the case and its hearings and deadlines are read-only.
+                        </p>
+                      )}
+                    </div>
+                    <Button size="sm" variant="outline" onClick={() => setShowReopen(true)}>
+                      Reopen
+                    </Button>
+                  </CardContent>
+                </Card>
+              )}
+
               {/* Case Overview */}
               <Card>
                 <CardHeader>
@@ -337,6 +418,16 @@ export const CaseDetailsPopup: React.FC<CaseDetailsPopupProps> = ({ case_, isOpe
                       )}
                     </div>
                   </div>
+                  {customFields.length > 0 && (
+                    <div className="grid grid-cols-2 gap-x-4 gap-y-2 border-t pt-3">
+                      {customFields.map(({ field, value }) => (
+                        <div key={field.key} className="flex items-baseline gap-2 text-sm">
+                          <span className="font-medium">{field.label}:</span>
+                          <span className={cn(!value && 'text-muted-foreground')}>{value || '—'}</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
                   {case_.description && (
                     <div>
                       <span className="font-medium text-sm">Description:</span>
@@ -346,6 +437,51 @@ export const CaseDetailsPopup: React.FC<CaseDetailsPopupProps> = ({ case_, isOpe
                 </CardContent>
               </Card>
 
+              {/* Parties */}
+              {(case_.parties?.length ?? 0) > 0 && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <Users className="h-5 w-5" />
+                      Parties
+                    </CardTitle>
+                    <p className="text-sm font-medium text-muted-foreground">{causeTitle(case_)}</p>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    {PARTY_ROLES.map(role => {
+                      const members = case_.parties!.filter(party => party.role === role);
+                      if (members.length === 0) return null;
+                      return (
+                        <div key={role} className="space-y-1.5">
+                          <h4 className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+                            {(members.length > 1 ? PARTY_ROLE_PLURAL_LABELS : PARTY_ROLE_LABELS)[role]}
+                          </h4>
+                          {members.map((party, index) => (
+                            <div key={party.id ?? index} className="flex flex-wrap items-center gap-2 text-sm">
+                              <span className="font-medium">{party.name}</span>
+                              {party.partyType === 'organisation' && (
+                                <Badge variant="outline" className="text-[10px]">Organisation</Badge>
+                              )}
+                              {party.clientId && <Badge variant="secondary" className="text-[10px]">Client</Badge>}
+                              {party.counsel.name && (
+                                <span className="text-xs text-muted-foreground">
+                                  Counsel: {party.counsel.name}
+                                  {party.counsel.enrollmentNumber && ` (${party.counsel.enrollmentNumber})`}
+                                </span>
+                              )}
+                            </div>
+                          ))}
+                        </div>
+                      );
+                    })}
+                  </CardContent>
+                </Card>
+              )}
+
+              <CaseLinksPanel caseId={case_.id} />
+
+              <CaseDeadlinesPanel caseId={case_.id} />
+
               {/* Hearing Pipeline Panel – custom + system nodes with drag-and-drop */}
               <HearingPipelinePanel
                 caseId={case_.id}
@@ -440,17 +576,19 @@ export const CaseDetailsPopup: React.FC<CaseDetailsPopupProps> = ({ case_, isOpe
                       >
                         Reload
                       </Button>
-                      <Button
-                        size="sm"
-                        onClick={() => {
-                          setSelectedHearing(null);
-                          setShowHearingRecord(true);
-                        }}
-                        className="border border-transparent hover:border-accent hover:border-2 hover:bg-transparent hover:text-foreground transition-all"
-                      >
-                        <Plus className="h-4 w-4 mr-2" />
-                        Record Hearing
-                      </Button>
+                      {!case_.archivedAt && (
+                        <Button
+                          size="sm"
+                          onClick={() => {
+                            setSelectedHearing(null);
+                            setShowHearingRecord(true);
+                          }}
+                          className="border border-transparent hover:border-accent hover:border-2 hover:bg-transparent hover:text-foreground transition-all"
+                        >
+                          <Plus className="h-4 w-4 mr-2" />
+                          Record Hearing
+                        </Button>
+                      )}
                     </div>
                   </div>
                 </CardHeader>
@@ -509,17 +647,19 @@ export const CaseDetailsPopup: React.FC<CaseDetailsPopupProps> = ({ case_, isOpe
                               >
                                 <Eye className="h-3 w-3" />
                               </Button>
-                              <Button
-                                size="sm"
-                                variant="outline"
-                                onClick={() => {
-                                  setSelectedHearing(normalizeHearing(hearing));
-                                  setShowHearingRecord(true);
-                                }}
-                                className="border-transparent hover:border-accent hover:border-2 hover:bg-transparent hover:text-foreground transition-all"
-                              >
-                                <Edit className="h-3 w-3" />
-                              </Button>
+                              {!case_.archivedAt && (
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => {
+                                    setSelectedHearing(normalizeHearing(hearing));
+                                    setShowHearingRecord(true);
+                                  }}
+                                  className="border-transparent hover:border-accent hover:border-2 hover:bg-transparent hover:text-foreground transition-all"
+                                >
+                                  <Edit className="h-3 w-3" />
+                                </Button>
+                              )}
                             </div>
                           </div>
 
@@ -614,6 +754,8 @@ export const CaseDetailsPopup: React.FC<CaseDetailsPopupProps> = ({ case_, isOpe
           setTimeout(() => { reloadHearings(); }, 200);
         }}
       />
+
+      <ReopenCaseDialog case_={showReopen ? case_ : null} onClose={() => setShowReopen(false)} />
     </>
   );
 };
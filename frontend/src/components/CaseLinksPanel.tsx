@@ -0,0 +1,195 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowDown, GitBranch, Link2, Plus, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useAddCaseLink, useCaseLinkGraph, useCases, useRemoveCaseLink } from '@/hooks/useLegalQueries';
+import { cn } from '@/lib/utils';
+import { LINK_TYPE_LABELS, lineageStages, linkFromCase } from '@/lib/caseLinks';
+import { CASE_LINK_TYPES, type CaseLinkType } from '@/services/api/schemas';
+
+interface CaseLinksPanelProps {
+  caseId: string;
+}
+
+/**
+ * Appeals, revisions, transfers and connected matters of a case, laid out as
+ * a lineage from the earliest forum down. Other cases open on click.
+ */
+export const CaseLinksPanel: React.FC<CaseLinksPanelProps> = ({ caseId }) => {
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const { data: graph } = useCaseLinkGraph(caseId);
+  const addLink = useAddCaseLink();
+  const removeLink = useRemoveCaseLink();
+
+  const [adding, setAdding] = useState(false);
+  const [type, setType] = useState<CaseLinkType>('appeal_of');
+  const [targetId, setTargetId] = useState('');
+  const [note, setNote] = useState('');
+  const { data: cases = [] } = useCases(adding);
+
+  const nodes = graph?.nodes ?? [];
+  const edges = graph?.edges ?? [];
+  const stages = graph ? lineageStages(graph, caseId) : [];
+  const caseNumberOf = (id: string) => nodes.find(node => node.id === id)?.caseNumber ?? 'Unknown case';
+  const ownLinks = edges.filter(edge => edge.from === caseId || edge.to === caseId);
+
+  const openCase = (id: string) => {
+    if (id !== caseId) navigate(`/dashboard/cases?open=${id}`);
+  };
+
+  const handleAdd = async () => {
+    if (!targetId) return;
+    try {
+      await addLink.mutateAsync({ caseId, link: { type, caseId: targetId, note: note.trim() || undefined } });
+      setAdding(false);
+      setTargetId('');
+      setNote('');
+    } catch (error) {
+      toast({
+        title: 'Link failed',
+        description: error instanceof Error ? error.message : 'Unable to link the cases',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const handleRemove = async (linkId: string) => {
+    try {
+      await removeLink.mutateAsync({ caseId, linkId });
+    } catch (error) {
+      toast({
+        title: 'Remove failed',
+        description: error instanceof Error ? error.message : 'Unable to remove the link',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <GitBranch className="h-5 w-5" />
+            Linked Matters
+          </CardTitle>
+          {!adding && (
+            <Button size="sm" variant="outline" onClick={() => setAdding(true)}>
+              <Plus className="mr-1 h-4 w-4" />
+              Link case
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {adding && (
+          <div className="grid grid-cols-1 gap-2 rounded-md border p-3 sm:grid-cols-6">
+            <Select value={type} onValueChange={value => setType(value as CaseLinkType)}>
+              <SelectTrigger className="h-8 text-xs sm:col-span-2">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CASE_LINK_TYPES.map(linkType => (
+                  <SelectItem key={linkType} value={linkType} className="text-xs">
+                    This case is: {LINK_TYPE_LABELS[linkType].toLowerCase()}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={targetId} onValueChange={setTargetId}>
+              <SelectTrigger className="h-8 text-xs sm:col-span-2">
+                <SelectValue placeholder="Case" />
+              </SelectTrigger>
+              <SelectContent>
+                {cases.filter(c => c.id !== caseId).map(c => (
+                  <SelectItem key={c.id} value={c.id} className="text-xs">
+                    {c.caseNumber} — {c.clientName}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              value={note}
+              onChange={e => setNote(e.target.value)}
+              placeholder="Note (optional)"
+              className="h-8 text-xs sm:col-span-2"
+            />
+            <div className="flex justify-end gap-2 sm:col-span-6">
+              <Button size="sm" variant="ghost" onClick={() => setAdding(false)}>Cancel</Button>
+              <Button size="sm" onClick={handleAdd} disabled={!targetId || addLink.isPending}>Link</Button>
+            </div>
+          </div>
+        )}
+
+        {ownLinks.length === 0 ? (
+          !adding && (
+            <p className="text-sm text-muted-foreground">
+              Link the trial court matter, appeals, transfers and connected cases to keep their history together.
+            </p>
+          )
+        ) : (
+          <>
+            <div className="flex flex-col items-center gap-1">
+              {stages.map((stage, index) => (
+                <React.Fragment key={index}>
+                  {index > 0 && <ArrowDown className="h-4 w-4 text-muted-foreground" />}
+                  <div className="flex flex-wrap justify-center gap-2">
+                    {stage.map(node => (
+                      <button
+                        key={node.id}
+                        type="button"
+                        onClick={() => openCase(node.id)}
+                        className={cn(
+                          'rounded-md border px-3 py-1.5 text-left text-xs transition-colors',
+                          node.id === caseId ? 'border-primary bg-primary/10 cursor-default' : 'hover:bg-muted'
+                        )}
+                      >
+                        <div className="font-medium">{node.caseNumber}</div>
+                        <div className="text-[10px] text-muted-foreground">
+                          {[node.courtName, node.status].filter(Boolean).join(' · ')}
+                        </div>
+                      </button>
+                    ))}
+                  </div>
+                </React.Fragment>
+              ))}
+            </div>
+
+            <div className="space-y-1.5">
+              {ownLinks.map(edge => {
+                const { label, otherId } = linkFromCase(edge, caseId);
+                return (
+                  <div key={edge.id} className="flex items-center justify-between gap-2 text-sm">
+                    <div className="flex min-w-0 flex-wrap items-center gap-2">
+                      <Badge variant="outline" className="text-[10px]">{label}</Badge>
+                      <button type="button" className="flex items-center gap-1 font-medium hover:underline" onClick={() => openCase(otherId)}>
+                        <Link2 className="h-3.5 w-3.5" />
+                        {caseNumberOf(otherId)}
+                      </button>
+                      {edge.note && <span className="text-xs text-muted-foreground">{edge.note}</span>}
+                    </div>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="h-7 px-2 text-destructive hover:text-destructive"
+                      onClick={() => handleRemove(edge.id)}
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                      <span className="sr-only">Remove link</span>
+                    </Button>
+                  </div>
+                );
+              })}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -5,7 +5,10 @@ import { generateCaseNoteDocument, type CaseNoteExportData } from '@/lib/export/
 import { NoteAttachmentUploader, uploadStagedFiles, type StagedAttachment, type UploadedAttachment } from './NoteAttachmentUploader';
 import { NoteAttachmentViewer } from './NoteAttachmentViewer';
 
-import { getApiUrl, apiRequest } from '@/lib/api';
+import { isNetworkError, readCache, writeCache } from '@/lib/offline/idb';
+import { enqueue } from '@/lib/offline/outbox';
+import { apiPath, caseNotesApi } from '@/services/api/client';
+import type { CaseNote } from '@/services/api/schemas';
 import { formatDistanceToNow, format } from 'date-fns';
 import {
     X, Filter, Plus, MessageSquare, Edit2, Trash2,
@@ -25,41 +28,17 @@ import { Checkbox } from '@/components/ui/checkbox';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/contexts/AuthContext';
+import { OUTBOX_REPLAYED_EVENT } from '@/contexts/OfflineContext';
+import { NOTES_CHANGED_EVENT } from '@/hooks/useChangeStream';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { useLegalData, type Hearing } from '@/contexts/LegalDataContext';
+import { type Hearing } from '@/contexts/LegalDataContext';
+import { useCase } from '@/hooks/useLegalQueries';
 
 
 // -----------------------------------------------------------------
 // Types
 // -----------------------------------------------------------------
-export interface Note {
-    _id: string;
-    caseId: string;
-    hearingId?: string;
-    authorId: { _id: string; name: string; email: string };
-    title?: string;
-    content: string;
-    noteType: 'general' | 'hearing' | 'evidence' | 'strategy' | 'internal';
-    evidenceTags: string[];
-    isPinned: boolean;
-    isPrivate: boolean;
-    parentNoteId?: string;
-    attachments: {
-        fileUrl: string;
-        fileName: string;
-        fileSize?: number;
-        mimeType?: string;
-        // New attachment fields (optional for backward compat)
-        attachmentId?: string;
-        type?: 'image' | 'video' | 'document' | 'audio';
-        uploadedAt?: string;
-        cloudinaryPublicId?: string;
-    }[];
-    createdAt: string;
-    editedAt?: string;
-    isDeleted: boolean;
-    replies?: Note[];
-}
+export type Note = CaseNote;
 
 // -----------------------------------------------------------------
 // Type colour config (rich, dark-mode-friendly)
@@ -98,6 +77,20 @@ const updateNoteInList = (notes: Note[], updatedNote: Note): Note[] => {
     });
 };
 
+/** Insert a new note at the top of the list, or under its parent when it is a reply. */
+const addNoteToList = (notes: Note[], newNote: Note): Note[] => {
+    if (!newNote.parentNoteId) return [newNote, ...notes];
+    return notes.map(note => {
+        if (note._id === newNote.parentNoteId) {
+            return { ...note, replies: [...(note.replies || []), newNote] };
+        }
+        if (note.replies && note.replies.length > 0) {
+            return { ...note, replies: addNoteToList(note.replies, newNote) };
+        }
+        return note;
+    });
+};
+
 const authorName = (authorId: Note['authorId']): string =>
     typeof authorId === 'object' && authorId !== null ? authorId.name : 'Unknown User';
 
@@ -879,29 +872,31 @@ export const CaseNotesPanel = ({
     // ───────────────────────────────────────────────────────────
 
     const { user } = useAuth();
-    const { cases } = useLegalData();
-    const activeCase = cases.find(c => c.id === caseId);
+    const { data: activeCase } = useCase(caseId);
     const { toast } = useToast();
     const navigate = useNavigate();
     const nodeRef = React.useRef<HTMLDivElement>(null);
 
     // -- Data Fetching ----------------------------------------------
     const fetchNotes = useCallback(async () => {
+        // Last good response per filter combination, served when the network is down
+        const cacheKey = `notes:${caseId}:${filterType}:${filterHearing}`;
         try {
             setLoading(true);
-            const baseUrl = getApiUrl(`/api/v1/cases/${caseId}/notes`);
-            const params = new URLSearchParams();
-            if (filterType !== 'all') params.append('noteType', filterType);
-            if (filterHearing !== 'all') params.append('hearingId', filterHearing);
-
-            // Add cache-buster to prevent stale data
-            params.append('_t', Date.now().toString());
-
-            const query = params.toString();
-            const url = query ? `${baseUrl}?${query}` : baseUrl;
-            const data = await apiRequest(url, { credentials: 'include' });
+            const data = await caseNotesApi.list(caseId, {
+                noteType: filterType !== 'all' ? filterType : undefined,
+                hearingId: filterHearing !== 'all' ? filterHearing : undefined,
+            });
             setNotes(data);
+            writeCache(cacheKey, data);
         } catch (error) {
+            if (isNetworkError(error)) {
+                const cached = await readCache<Note[]>(cacheKey);
+                if (cached) {
+                    setNotes(cached);
+                    return;
+                }
+            }
             console.error('Failed to fetch case notes', error);
             toast({ title: 'Error Loading Notes', description: 'Failed to load case notes.', variant: 'destructive' });
         } finally {
@@ -916,6 +911,23 @@ export const CaseNotesPanel = ({
         }
     }, [isOpen, caseId, filterType, filterHearing, defaultHearingId, fetchNotes]);
 
+    // Reload once queued offline notes have been written to the server, and
+    // when the change stream reports a note edit on this case from elsewhere
+    useEffect(() => {
+        if (!isOpen || !caseId) return;
+        const handleReplayed = () => fetchNotes();
+        const handleNotesChanged = (e: Event) => {
+            const changedCaseId = (e as CustomEvent<{ caseId?: string }>).detail?.caseId;
+            if (!changedCaseId || changedCaseId === caseId) fetchNotes();
+        };
+        window.addEventListener(OUTBOX_REPLAYED_EVENT, handleReplayed);
+        window.addEventListener(NOTES_CHANGED_EVENT, handleNotesChanged);
+        return () => {
+            window.removeEventListener(OUTBOX_REPLAYED_EVENT, handleReplayed);
+            window.removeEventListener(NOTES_CHANGED_EVENT, handleNotesChanged);
+        };
+    }, [isOpen, caseId, fetchNotes]);
+
     // Sync detail note when notes array changes (after pin/reply/edit)
     useEffect(() => {
         if (detailNote) {
@@ -925,23 +937,76 @@ export const CaseNotesPanel = ({
     }, [notes, detailNote, detailNote?._id]);
 
     // -- CRUD Handlers ----------------------------------------------
-    const handleSaveNote = async (data: any) => { // eslint-disable-line @typescript-eslint/no-explicit-any
-        let method = 'POST';
-        let url = getApiUrl(`/api/v1/cases/${caseId}/notes`);
-        if (editingNote) { method = 'PUT'; url += `/${editingNote._id}`; }
 
+    /**
+     * Park a note create/edit in the outbox and show it locally until the
+     * replay lands. Attachments need a live upload, so they are not queued.
+     */
+    const saveNoteOffline = async (payload: Record<string, unknown>, existing: Note | null, droppedFiles: number) => {
+        const caseLabel = activeCase?.caseNumber || 'case';
+        if (existing) {
+            await enqueue({
+                method: 'PUT',
+                path: apiPath(`/cases/${caseId}/notes/${existing._id}`),
+                body: payload,
+                label: `Edit note on ${caseLabel}`,
+                entity: 'note',
+            });
+            const edited = { ...existing, ...payload, editedAt: new Date().toISOString() } as Note;
+            setNotes(prev => updateNoteInList(prev, edited));
+            if (detailNote && detailNote._id === existing._id) setDetailNote(edited);
+        } else {
+            const pendingId = `temp-${crypto.randomUUID()}`;
+            await enqueue({
+                method: 'POST',
+                path: apiPath(`/cases/${caseId}/notes`),
+                body: payload,
+                label: payload.parentNoteId ? `Reply on ${caseLabel}` : `New note on ${caseLabel}`,
+                entity: 'note',
+                tempId: pendingId,
+            });
+            setNotes(prev => addNoteToList(prev, {
+                _id: pendingId,
+                caseId,
+                authorId: { _id: user?.id || '', name: user?.name || 'You', email: user?.email || '' },
+                content: '',
+                noteType: 'general',
+                evidenceTags: [],
+                isPinned: false,
+                isPrivate: false,
+                attachments: [],
+                createdAt: new Date().toISOString(),
+                isDeleted: false,
+                replies: [],
+                ...payload,
+            } as Note));
+        }
+
+        toast({
+            title: 'Saved offline',
+            description: droppedFiles > 0
+                ? 'The note will sync when you are back online. Attachments were not saved — add them again once connected.'
+                : 'The note will sync when you are back online.',
+        });
+    };
+
+    const handleSaveNote = async (data: any) => { // eslint-disable-line @typescript-eslint/no-explicit-any
         // Extract staged files (not sent to backend as part of the note body)
         const stagedFiles: StagedAttachment[] = data._stagedFiles || [];
         // eslint-disable-next-line @typescript-eslint/no-unused-vars
         const { _stagedFiles: _sf, ...notePayload } = data;
 
+        const queueOffline = async () => {
+            await saveNoteOffline(notePayload, editingNote, stagedFiles.length);
+            setEditingNote(null);
+            setReplyingTo(null);
+        };
+        if (!navigator.onLine) return queueOffline();
+
         try {
-            const response = await apiRequest(url, {
-                method,
-                headers: { 'Content-Type': 'application/json' },
-                credentials: 'include',
-                body: JSON.stringify(notePayload)
-            });
+            const response = editingNote
+                ? await caseNotesApi.update(caseId, editingNote._id, notePayload)
+                : await caseNotesApi.create(caseId, notePayload);
 
             toast({ title: 'Success', description: `Note ${editingNote ? 'updated' : 'created'} successfully` });
             setEditingNote(null);
@@ -970,7 +1035,8 @@ export const CaseNotesPanel = ({
             } else {
                 fetchNotes();
             }
-        } catch {
+        } catch (error) {
+            if (isNetworkError(error)) return queueOffline();
             toast({ title: 'Error Saving Note', description: 'Failed to save case note.', variant: 'destructive' });
         }
     };
@@ -979,15 +1045,17 @@ export const CaseNotesPanel = ({
     const handleDirectReply = async () => {
         if ((!directReplyText.trim() && directReplyStagedFiles.length === 0) || !detailNote || isSendingReply) return;
         setIsSendingReply(true);
+        // Use a placeholder if text is empty but files are being sent
+        const replyContent = directReplyText.trim() || '📎 Attachment';
+        const replyPayload = { content: replyContent, noteType: 'internal', parentNoteId: detailNote._id };
+        const queueOffline = async () => {
+            await saveNoteOffline(replyPayload, null, directReplyStagedFiles.length);
+            setDirectReplyText('');
+            setDirectReplyStagedFiles([]);
+        };
         try {
-            // Use a placeholder if text is empty but files are being sent
-            const replyContent = directReplyText.trim() || '📎 Attachment';
-            const response = await apiRequest(getApiUrl(`/api/v1/cases/${caseId}/notes`), {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                credentials: 'include',
-                body: JSON.stringify({ content: replyContent, noteType: 'internal', parentNoteId: detailNote._id })
-            });
+            if (!navigator.onLine) return await queueOffline();
+            const response = await caseNotesApi.create(caseId, replyPayload);
             setDirectReplyText('');
 
             // Upload any staged files to the newly created reply note
@@ -1004,7 +1072,8 @@ export const CaseNotesPanel = ({
             }
 
             fetchNotes();
-        } catch {
+        } catch (error) {
+            if (isNetworkError(error)) return await queueOffline();
             toast({ title: 'Error', description: 'Failed to send reply', variant: 'destructive' });
         } finally {
             setIsSendingReply(false);
@@ -1031,9 +1100,7 @@ export const CaseNotesPanel = ({
     const handleDelete = async (note: Note) => {
         if (!window.confirm('Are you sure you want to delete this note?')) return;
         try {
-            await apiRequest(getApiUrl(`/api/v1/cases/${caseId}/notes/${note._id}`), {
-                method: 'DELETE', credentials: 'include'
-            });
+            await caseNotesApi.remove(caseId, note._id);
             toast({ title: 'Deleted', description: 'Note removed' });
             if (detailNote?._id === note._id) setDetailNote(null);
             fetchNotes();
@@ -1044,12 +1111,7 @@ export const CaseNotesPanel = ({
 
     const handlePin = async (note: Note, pinned: boolean) => {
         try {
-            await apiRequest(getApiUrl(`/api/v1/cases/${caseId}/notes/${note._id}`), {
-                method: 'PUT',
-                headers: { 'Content-Type': 'application/json' },
-                credentials: 'include',
-                body: JSON.stringify({ isPinned: pinned })
-            });
+            await caseNotesApi.update(caseId, note._id, { isPinned: pinned });
             fetchNotes();
         } catch {
             toast({ title: 'Error', description: 'Failed to toggle pin', variant: 'destructive' });
@@ -1504,10 +1566,7 @@ export const CaseNotesPanel = ({
                                                     onDelete={async (att) => {
                                                         if (!att.attachmentId) return;
                                                         try {
-                                                            await apiRequest(
-                                                                getApiUrl(`/api/v1/cases/${caseId}/notes/${detailNote._id}/attachments/${att.attachmentId}`),
-                                                                { method: 'DELETE', credentials: 'include' }
-                                                            );
+                                                            await caseNotesApi.removeAttachment(caseId, detailNote._id, att.attachmentId);
                                                             fetchNotes();
                                                         } catch {
                                                             toast({ title: 'Error', description: 'Failed to remove attachment', variant: 'destructive' });
@@ -0,0 +1,115 @@
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ClientPicker } from '@/components/pickers/RecordPicker';
+import type { CaseParty, Client } from '@/contexts/LegalDataContext';
+import { PARTY_ROLE_LABELS, PARTY_TYPE_LABELS } from '@/lib/parties';
+import { PARTY_ROLES, PARTY_TYPES } from '@/services/api/schemas';
+
+interface CasePartiesEditorProps {
+  parties: CaseParty[];
+  onChange: (parties: CaseParty[]) => void;
+}
+
+/** Petitioners, respondents and other parties of a case, each with their counsel of record. */
+export const CasePartiesEditor: React.FC<CasePartiesEditorProps> = ({ parties, onChange }) => {
+  const update = (index: number, patch: Partial<CaseParty>) =>
+    onChange(parties.map((party, i) => (i === index ? { ...party, ...patch } : party)));
+
+  const addParty = () => {
+    // Alternate sides so the common "one each" line-up takes two clicks
+    const role = parties.some(p => p.role === 'petitioner') && !parties.some(p => p.role === 'respondent')
+      ? 'respondent'
+      : 'petitioner';
+    onChange([...parties, { role, partyType: 'individual', name: '', counsel: {} }]);
+  };
+
+  const linkClient = (index: number, clientId: string, client?: Client) => {
+    if (!clientId) {
+      update(index, { clientId: undefined });
+      return;
+    }
+    update(index, { clientId, name: client?.name ?? parties[index].name });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label>Parties</Label>
+        <Button type="button" size="sm" variant="outline" className="h-7 text-xs" onClick={addParty}>
+          <Plus className="mr-1 h-3.5 w-3.5" />
+          Add party
+        </Button>
+      </div>
+      {parties.length === 0 && (
+        <p className="text-xs text-muted-foreground">
+          Add petitioners, respondents and other parties when there is more than one on a side.
+        </p>
+      )}
+      {parties.map((party, index) => (
+        <div key={party.id ?? index} className="grid grid-cols-2 gap-2 rounded-md border p-2 sm:grid-cols-6">
+          <Select value={party.role} onValueChange={role => update(index, { role: role as CaseParty['role'] })}>
+            <SelectTrigger className="h-8 text-xs sm:col-span-2">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PARTY_ROLES.map(role => (
+                <SelectItem key={role} value={role} className="text-xs">{PARTY_ROLE_LABELS[role]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={party.partyType} onValueChange={type => update(index, { partyType: type as CaseParty['partyType'] })}>
+            <SelectTrigger className="h-8 text-xs sm:col-span-2">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PARTY_TYPES.map(type => (
+                <SelectItem key={type} value={type} className="text-xs">{PARTY_TYPE_LABELS[type]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <ClientPicker
+            value={party.clientId ?? ''}
+            onChange={(clientId, client) => linkClient(index, clientId, client)}
+            noneLabel="Not our client"
+            className="h-8 text-xs sm:col-span-2"
+          />
+          <Input
+            value={party.name}
+            onChange={e => update(index, { name: e.target.value })}
+            placeholder="Party name"
+            className="h-8 text-xs sm:col-span-2"
+            required
+          />
+          <Input
+            value={party.counsel.name ?? ''}
+            onChange={e => update(index, { counsel: { ...party.counsel, name: e.target.value } })}
+            placeholder="Counsel of record"
+            className="h-8 text-xs sm:col-span-2"
+          />
+          <div className="flex gap-2 sm:col-span-2">
+            <Input
+              value={party.counsel.enrollmentNumber ?? ''}
+              onChange={e => update(index, { counsel: { ...party.counsel, enrollmentNumber: e.target.value } })}
+              placeholder="Enrolment no."
+              className="h-8 text-xs"
+            />
+            <Button
+              type="button"
+              size="sm"
+              variant="ghost"
+              className="h-8 px-2 text-destructive hover:text-destructive"
+              onClick={() => onChange(parties.filter((_, i) => i !== index))}
+            >
+              <Trash2 className="h-3.5 w-3.5" />
+              <span className="sr-only">Remove party</span>
+            </Button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -3,7 +3,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { FileText, Sparkles, Copy, Download, RefreshCw } from 'lucide-react';
-import { useLegalData } from '@/contexts/LegalDataContext';
+import { useCase } from '@/hooks/useLegalQueries';
 import { useToast } from '@/hooks/use-toast';
 import JuriqLoader from '@/components/ui/JuriqLoader';
 
@@ -12,12 +12,11 @@ interface CaseSummaryGeneratorProps {
 }
 
 export const CaseSummaryGenerator = ({ caseId }: CaseSummaryGeneratorProps) => {
-  const { cases } = useLegalData();
   const [isGenerating, setIsGenerating] = useState(false);
   const [summary, setSummary] = useState<string | null>(null);
   const { toast } = useToast();
 
-  const case_ = cases.find(c => c.id === caseId);
+  const { data: case_ } = useCase(caseId);
 
   const generateSummary = async () => {
     if (!case_) return;
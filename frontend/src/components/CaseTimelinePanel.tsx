@@ -0,0 +1,231 @@
+import React, { useMemo, useRef, useState } from 'react';
+import {
+  Clock,
+  Download,
+  FileText,
+  Gavel,
+  IndianRupee,
+  Loader2,
+  MessageSquare,
+  Receipt,
+  Scale,
+  type LucideIcon,
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/hooks/use-toast';
+import { useCaseTimeline } from '@/hooks/useLegalQueries';
+import { useFormatting } from '@/contexts/FormattingContext';
+import type { Case } from '@/contexts/LegalDataContext';
+import { generateChronologyPDF } from '@/lib/export/chronology-pdf';
+import { formatCurrency, type CurrencyCode } from '@/lib/formatters';
+import { causeTitle } from '@/lib/parties';
+import { cn } from '@/lib/utils';
+import { TIMELINE_EVENT_TYPES, type TimelineEvent, type TimelineEventType } from '@/services/api/schemas';
+
+const EVENT_TYPES: Record<TimelineEventType, { label: string; plural: string; icon: LucideIcon; color: string }> = {
+  hearing: { label: 'Hearing', plural: 'Hearings', icon: Scale, color: 'text-primary' },
+  order: { label: 'Order', plural: 'Orders', icon: Gavel, color: 'text-amber-600' },
+  note: { label: 'Note', plural: 'Notes', icon: MessageSquare, color: 'text-sky-600' },
+  document: { label: 'Document', plural: 'Documents', icon: FileText, color: 'text-slate-600' },
+  invoice: { label: 'Invoice', plural: 'Invoices', icon: Receipt, color: 'text-violet-600' },
+  payment: { label: 'Payment', plural: 'Payments', icon: IndianRupee, color: 'text-green-600' },
+  time: { label: 'Time', plural: 'Time', icon: Clock, color: 'text-muted-foreground' },
+};
+
+const CURRENCIES: CurrencyCode[] = ['INR', 'USD', 'EUR', 'GBP', 'AED'];
+
+const durationLabel = (minutes: number) =>
+  minutes >= 60 ? `${Math.floor(minutes / 60)}h${minutes % 60 ? ` ${minutes % 60}m` : ''}` : `${minutes}m`;
+
+const monthLabel = (date: Date) => date.toLocaleDateString('en-GB', { month: 'long', year: 'numeric' });
+
+/**
+ * Everything recorded against a case in date order — hearings and their
+ * orders, notes, documents, invoices, payments and time — with type filters,
+ * a jump-to-date control and a PDF chronology of what is shown.
+ */
+export const CaseTimelinePanel: React.FC<{ case_: Case }> = ({ case_ }) => {
+  const { toast } = useToast();
+  const { formatDate, formatDateTime } = useFormatting();
+  const { data: events = [], isLoading } = useCaseTimeline(case_.id);
+  const [hidden, setHidden] = useState<TimelineEventType[]>([]);
+  const [highlighted, setHighlighted] = useState<string | null>(null);
+  const itemRefs = useRef(new Map<string, HTMLDivElement>());
+
+  const visible = useMemo(() => events.filter(event => !hidden.includes(event.type)), [events, hidden]);
+  const counts = useMemo(() => {
+    const byType = new Map<TimelineEventType, number>();
+    events.forEach(event => byType.set(event.type, (byType.get(event.type) ?? 0) + 1));
+    return byType;
+  }, [events]);
+
+  const toggleType = (type: TimelineEventType) =>
+    setHidden(current => (current.includes(type) ? current.filter(t => t !== type) : [...current, type]));
+
+  // Invoices carry their own currency; the PDF fonts have no rupee sign, so print the code there
+  const money = (event: TimelineEvent, forPrint = false) => {
+    if (event.amount === undefined) return '';
+    const currency = CURRENCIES.find(code => code === event.currency) ?? 'INR';
+    return forPrint
+      ? `${currency} ${formatCurrency(event.amount, currency, { showSymbol: false })}`
+      : formatCurrency(event.amount, currency);
+  };
+
+  const metaLine = (event: TimelineEvent, forPrint = false) => {
+    const parts: (string | undefined)[] = [];
+    switch (event.type) {
+      case 'hearing':
+        parts.push(event.status, event.court, event.nextDate && `Next date ${formatDate(event.nextDate)}`);
+        break;
+      case 'order':
+        parts.push(event.court);
+        break;
+      case 'note':
+        parts.push(event.author, event.status);
+        break;
+      case 'invoice':
+        parts.push(event.status, money(event, forPrint));
+        break;
+      case 'payment':
+        parts.push(money(event, forPrint));
+        break;
+      case 'time':
+        parts.push(event.minutes !== undefined ? durationLabel(event.minutes) : undefined, event.status, event.amount ? money(event, forPrint) : undefined);
+        break;
+      default:
+        break;
+    }
+    return parts.filter(Boolean).join(' · ');
+  };
+
+  const eventDate = (event: TimelineEvent) => (event.type === 'hearing' ? formatDateTime(event.date) : formatDate(event.date));
+
+  const jumpTo = (day: string) => {
+    if (!day) return;
+    const target = visible.find(event => event.date.getTime() >= new Date(`${day}T00:00:00`).getTime()) ?? visible[visible.length - 1];
+    if (!target) return;
+    itemRefs.current.get(target.id)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    setHighlighted(target.id);
+  };
+
+  const handleExport = () => {
+    try {
+      generateChronologyPDF({
+        caseNumber: case_.caseNumber,
+        causeTitle: causeTitle(case_),
+        court: [case_.courtName, case_.judgeName].filter(Boolean).join(' — ') || undefined,
+        preparedOn: formatDate(new Date()),
+        includes: hidden.length > 0
+          ? TIMELINE_EVENT_TYPES.filter(type => !hidden.includes(type)).map(type => EVENT_TYPES[type].plural).join(', ')
+          : undefined,
+        entries: visible.map(event => ({
+          date: eventDate(event),
+          label: EVENT_TYPES[event.type].label,
+          title: event.title,
+          meta: metaLine(event, true),
+          detail: event.detail,
+        })),
+      });
+    } catch (error) {
+      toast({
+        title: 'Export failed',
+        description: error instanceof Error ? error.message : 'Unable to create the PDF',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center gap-2 py-6 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" /> Loading timeline…
+      </div>
+    );
+  }
+
+  let lastMonth = '';
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-1.5">
+        {TIMELINE_EVENT_TYPES.filter(type => counts.has(type)).map(type => {
+          const { plural, icon: Icon } = EVENT_TYPES[type];
+          const active = !hidden.includes(type);
+          return (
+            <Button
+              key={type}
+              size="sm"
+              variant={active ? 'secondary' : 'outline'}
+              className={cn('h-7 gap-1 text-xs', !active && 'text-muted-foreground')}
+              aria-pressed={active}
+              onClick={() => toggleType(type)}
+            >
+              <Icon className="h-3.5 w-3.5" />
+              {plural}
+              <span className="text-muted-foreground">{counts.get(type)}</span>
+            </Button>
+          );
+        })}
+        <div className="ml-auto flex items-center gap-1.5">
+          <Input
+            type="date"
+            className="h-7 w-36 text-xs"
+            aria-label="Jump to date"
+            title="Jump to date"
+            onChange={e => jumpTo(e.target.value)}
+          />
+          <Button size="sm" variant="outline" className="h-7 text-xs" onClick={handleExport} disabled={visible.length === 0}>
+            <Download className="mr-1 h-3.5 w-3.5" />
+            Chronology PDF
+          </Button>
+        </div>
+      </div>
+
+      {visible.length === 0 ? (
+        <p className="py-6 text-center text-sm text-muted-foreground">
+          {events.length === 0 ? 'Nothing has been recorded for this case yet.' : 'No events of the selected types.'}
+        </p>
+      ) : (
+        <div className="relative space-y-3 border-l pl-5">
+          {visible.map(event => {
+            const { label, icon: Icon, color } = EVENT_TYPES[event.type];
+            const month = monthLabel(event.date);
+            const showMonth = month !== lastMonth;
+            lastMonth = month;
+            const meta = metaLine(event);
+            return (
+              <React.Fragment key={event.id}>
+                {showMonth && (
+                  <h4 className="-ml-5 pl-5 pt-1 text-xs font-semibold uppercase tracking-wide text-muted-foreground">{month}</h4>
+                )}
+                <div
+                  ref={node => { if (node) itemRefs.current.set(event.id, node); else itemRefs.current.delete(event.id); }}
+                  className={cn(
+                    'relative rounded-md border bg-card px-3 py-2 transition-colors',
+                    highlighted === event.id && 'border-primary ring-1 ring-primary'
+                  )}
+                >
+                  <span className="absolute -left-[27px] top-2.5 flex h-3.5 w-3.5 items-center justify-center rounded-full border bg-background">
+                    <span className="h-1.5 w-1.5 rounded-full bg-primary" />
+                  </span>
+                  <div className="flex flex-wrap items-center gap-2 text-sm">
+                    <Icon className={cn('h-4 w-4', color)} />
+                    <span className="font-medium">{event.title}</span>
+                    <Badge variant="outline" className="text-[10px]">{label}</Badge>
+                    <span className="ml-auto text-xs text-muted-foreground">{eventDate(event)}</span>
+                  </div>
+                  {meta && <p className="mt-0.5 text-xs text-muted-foreground">{meta}</p>}
+                  {event.detail && (
+                    <p className="mt-1 line-clamp-4 whitespace-pre-line text-xs">{event.detail}</p>
+                  )}
+                </div>
+              </React.Fragment>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,132 @@
+import React from 'react';
+import { ArrowRight, History, Loader2, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { useEntityHistory, useRevertChange } from '@/hooks/useLegalQueries';
+import { useFormatting } from '@/contexts/FormattingContext';
+import type { EntityChange, HistoryEntityType } from '@/services/api/schemas';
+
+interface ChangeHistoryPanelProps {
+  entityType: HistoryEntityType;
+  entityId: string;
+  /** Called after a field has been reverted, so the owner can refresh what it displays. */
+  onReverted?: () => void;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  panNumber: 'PAN',
+  aadharNumber: 'Aadhaar',
+  nextHearing: 'Next hearing',
+};
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/;
+
+const fieldLabel = (field: string) =>
+  FIELD_LABELS[field] ?? field.replace(/([A-Z])/g, ' $1').replace(/^./, c => c.toUpperCase());
+
+/**
+ * Field-level edit history of one case, hearing, client or invoice, newest
+ * first. Only the latest change to each field can be reverted — reverting an
+ * older one would silently undo the edits made after it.
+ */
+export const ChangeHistoryPanel: React.FC<ChangeHistoryPanelProps> = ({ entityType, entityId, onReverted }) => {
+  const { toast } = useToast();
+  const { formatDate, formatDateTime } = useFormatting();
+  const { data: entries = [], isLoading } = useEntityHistory(entityType, entityId);
+  const revertChange = useRevertChange();
+
+  const formatValue = (value: unknown): string => {
+    if (value === null || value === undefined || value === '') return '—';
+    if (typeof value === 'string') return ISO_DATE.test(value) ? formatDate(value) : value;
+    if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+    if (typeof value === 'number') return String(value);
+    if (Array.isArray(value) && value.every(v => typeof v === 'string')) return value.join(', ');
+    return JSON.stringify(value);
+  };
+
+  // The newest entry touching each field is the one whose `after` is still current
+  const latestForField = new Map<string, string>();
+  entries.forEach(entry => entry.changes.forEach(({ field }) => {
+    if (!latestForField.has(field)) latestForField.set(field, entry.id);
+  }));
+
+  const handleRevert = async (entry: EntityChange, field: string) => {
+    try {
+      await revertChange.mutateAsync({ change: entry, field });
+      toast({ title: `${fieldLabel(field)} reverted` });
+      onReverted?.();
+    } catch (error) {
+      toast({
+        title: 'Revert failed',
+        description: error instanceof Error ? error.message : 'Unable to revert this change',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center gap-1.5 py-10 text-xs text-muted-foreground">
+        <Loader2 className="h-3.5 w-3.5 animate-spin" />
+        Loading history…
+      </div>
+    );
+  }
+
+  if (entries.length === 0) {
+    return (
+      <div className="flex flex-col items-center gap-2 py-10 text-muted-foreground">
+        <History className="h-8 w-8 opacity-30" />
+        <p className="text-sm">No changes recorded yet</p>
+      </div>
+    );
+  }
+
+  return (
+    <ol className="relative space-y-4 border-l border-border/60 pl-5">
+      {entries.map(entry => (
+        <li key={entry.id} className="relative">
+          <span className="absolute -left-[25px] top-1.5 h-2 w-2 rounded-full bg-primary" />
+          <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+            <span className="font-medium text-foreground">{entry.actor?.name || 'Unknown user'}</span>
+            <span>{formatDateTime(entry.createdAt)}</span>
+            {entry.revertOf && <Badge variant="outline" className="text-[10px]">Revert</Badge>}
+          </div>
+          <ul className="mt-1.5 space-y-1.5">
+            {entry.changes.map(change => {
+              const canRevert = latestForField.get(change.field) === entry.id;
+              const busy = revertChange.isPending
+                && revertChange.variables?.change.id === entry.id
+                && revertChange.variables.field === change.field;
+              return (
+                <li key={change.field} className="flex items-start gap-2 rounded-md bg-muted/30 px-3 py-2 text-sm">
+                  <div className="min-w-0 flex-1">
+                    <div className="text-xs font-medium">{fieldLabel(change.field)}</div>
+                    <div className="flex flex-wrap items-center gap-1.5 break-words text-xs">
+                      <span className="text-muted-foreground line-through">{formatValue(change.before)}</span>
+                      <ArrowRight className="h-3 w-3 shrink-0 text-muted-foreground" />
+                      <span>{formatValue(change.after)}</span>
+                    </div>
+                  </div>
+                  {canRevert && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="h-6 px-2 text-[10px]"
+                      disabled={revertChange.isPending}
+                      onClick={() => handleRevert(entry, change.field)}
+                    >
+                      {busy ? <Loader2 className="h-3 w-3 animate-spin" /> : <RotateCcw className="mr-1 h-3 w-3" />}
+                      {!busy && 'Revert'}
+                    </Button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        </li>
+      ))}
+    </ol>
+  );
+};
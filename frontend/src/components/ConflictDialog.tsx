@@ -11,6 +11,7 @@ import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { AlertTriangle } from 'lucide-react';
+import { useFormatting } from '@/contexts/FormattingContext';
 
 interface ConflictDialogProps {
     isOpen: boolean;
@@ -21,6 +22,8 @@ interface ConflictDialogProps {
         startAt: string;
         endAt: string;
         conflictReason: string;
+        /** Hearing of a connected matter; shown for context, not as a clash */
+        listedTogether?: boolean;
     }>;
     onCancel: () => void;
     onEditTime: () => void;
@@ -35,6 +38,7 @@ export const ConflictDialog: React.FC<ConflictDialogProps> = ({
     onEditTime,
     onOverride,
 }) => {
+    const { formatTime } = useFormatting();
     const [showOverrideInput, setShowOverrideInput] = React.useState(false);
     const [overrideReason, setOverrideReason] = React.useState('');
 
@@ -56,14 +60,7 @@ export const ConflictDialog: React.FC<ConflictDialogProps> = ({
         onClose();
     };
 
-    const formatTime = (isoString: string) => {
-        const date = new Date(isoString);
-        return date.toLocaleTimeString('en-IN', {
-            hour: '2-digit',
-            minute: '2-digit',
-            hour12: true,
-        });
-    };
+    const clashCount = conflicts.filter(c => !c.listedTogether).length;
 
     return (
         <Dialog open={isOpen} onOpenChange={handleClose}>
@@ -74,7 +71,8 @@ export const ConflictDialog: React.FC<ConflictDialogProps> = ({
                         Scheduling Conflict Detected
                     </DialogTitle>
                     <DialogDescription>
-                        This hearing conflicts with {conflicts.length} existing hearing{conflicts.length > 1 ? 's' : ''}.
+                        This hearing conflicts with {clashCount} existing hearing{clashCount > 1 ? 's' : ''}.
+                        {clashCount < conflicts.length && ' Connected matters listed together with it are shown for reference.'}
                     </DialogDescription>
                 </DialogHeader>
 
@@ -82,14 +80,16 @@ export const ConflictDialog: React.FC<ConflictDialogProps> = ({
                     {conflicts.map((conflict) => (
                         <div
                             key={conflict.hearingId}
-                            className="p-3 bg-destructive/10 border border-destructive/20 rounded-lg"
+                            className={conflict.listedTogether
+                                ? 'p-3 bg-muted/40 border rounded-lg'
+                                : 'p-3 bg-destructive/10 border border-destructive/20 rounded-lg'}
                         >
                             <div className="font-semibold text-sm">{conflict.caseNumber}</div>
                             <div className="text-sm text-muted-foreground mt-1">
                                 {formatTime(conflict.startAt)} - {formatTime(conflict.endAt)}
                             </div>
-                            <div className="text-xs text-destructive mt-1">
-                                Reason: {conflict.conflictReason}
+                            <div className={conflict.listedTogether ? 'text-xs text-muted-foreground mt-1' : 'text-xs text-destructive mt-1'}>
+                                {conflict.listedTogether ? conflict.conflictReason : `Reason: ${conflict.conflictReason}`}
                             </div>
                         </div>
                     ))}
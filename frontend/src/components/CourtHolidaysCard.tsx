@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { CalendarOff, Plus, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/hooks/use-toast';
+import { useAddCourtHoliday, useCourtHolidays, useDeleteCourtHoliday } from '@/hooks/useLegalQueries';
+import { useFormatting } from '@/contexts/FormattingContext';
+import { daysUntil, parseDay } from '@/lib/deadlines';
+
+/** Settings card listing the days the firm's courts are closed, used when computing deadlines. */
+export const CourtHolidaysCard: React.FC = () => {
+  const { toast } = useToast();
+  const { formatDate } = useFormatting();
+  const { data: holidays = [] } = useCourtHolidays();
+  const addHoliday = useAddCourtHoliday();
+  const deleteHoliday = useDeleteCourtHoliday();
+  const [date, setDate] = useState('');
+  const [name, setName] = useState('');
+
+  const upcoming = holidays.filter(holiday => daysUntil(holiday.date) >= 0);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      await addHoliday.mutateAsync({ date, name: name.trim() });
+      setDate('');
+      setName('');
+    } catch (error) {
+      toast({
+        title: 'Save failed',
+        description: error instanceof Error ? error.message : 'Unable to save the holiday',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteHoliday.mutateAsync(id);
+    } catch (error) {
+      toast({
+        title: 'Delete failed',
+        description: error instanceof Error ? error.message : 'Unable to remove the holiday',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  return (
+    <Card className="shadow-card-custom">
+      <CardHeader className="p-3 pb-1.5">
+        <CardTitle className="flex items-center gap-1.5 text-sm">
+          <CalendarOff className="h-4 w-4 text-primary" />
+          Court Holidays
+        </CardTitle>
+        <CardDescription className="text-[10px]">
+          A deadline that falls on a Sunday or one of these days moves to the next day the court is open
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3 px-3 pb-3 pt-0">
+        <form onSubmit={handleAdd} className="flex flex-wrap items-center gap-2">
+          <Input type="date" value={date} onChange={e => setDate(e.target.value)} className="h-7 w-40 text-xs" required />
+          <Input
+            value={name}
+            onChange={e => setName(e.target.value)}
+            placeholder="e.g. Summer vacation, Diwali"
+            className="h-7 w-56 text-xs"
+            required
+          />
+          <Button type="submit" size="sm" variant="outline" className="h-7 text-xs" disabled={addHoliday.isPending}>
+            <Plus className="mr-1 h-3.5 w-3.5" />
+            Add holiday
+          </Button>
+        </form>
+
+        {upcoming.length === 0 ? (
+          <p className="text-[10px] text-muted-foreground">No upcoming court holidays.</p>
+        ) : (
+          <div className="max-h-48 space-y-1 overflow-y-auto">
+            {upcoming.map(holiday => (
+              <div key={holiday.id} className="flex items-center justify-between rounded-md bg-muted/30 px-2 py-1 text-xs">
+                <span>
+                  <span className="font-medium">{formatDate(parseDay(holiday.date))}</span>
+                  <span className="text-muted-foreground"> — {holiday.name}</span>
+                </span>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="h-6 px-2 text-destructive hover:text-destructive"
+                  onClick={() => handleDelete(holiday.id)}
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                  <span className="sr-only">Remove holiday</span>
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -93,6 +93,8 @@ export const HearingPipelinePanel: React.FC<HearingPipelinePanelProps> = ({
     const [nodes, setNodes] = useState<PipelineNode[]>([]);
     const [isLoading, setIsLoading] = useState(true);
     const [isSaving, setIsSaving] = useState(false);
+    // Stage recorded from the case board, outlined in the pipeline
+    const [boardStage, setBoardStage] = useState<string | null>(null);
 
     // "Add custom node" modal
     const [showAddModal, setShowAddModal] = useState(false);
@@ -136,6 +138,7 @@ export const HearingPipelinePanel: React.FC<HearingPipelinePanelProps> = ({
             if (res.ok) {
                 const data = await res.json();
                 setNodes(data.nodes || []);
+                setBoardStage(data.currentStage ?? null);
             }
         } catch (err) {
             console.error('[HearingPipelinePanel] Failed to fetch pipeline:', err);
@@ -370,14 +373,16 @@ export const HearingPipelinePanel: React.FC<HearingPipelinePanelProps> = ({
 
                                                 {/* Circle */}
                                                 <div
-                                                    className="w-8 h-8 rounded-full flex items-center justify-center transition-all duration-200 group-hover:scale-110 cursor-pointer"
+                                                    className={`w-8 h-8 rounded-full flex items-center justify-center transition-all duration-200 group-hover:scale-110 cursor-pointer ${node.nodeId === boardStage ? 'ring-2 ring-primary ring-offset-2 ring-offset-background' : ''}`}
                                                     onClick={() => {
                                                         const key = node.type === 'system'
                                                             ? (SYSTEM_NODE_HEARING_MAP[node.nodeId] ?? node.nodeId)
                                                             : node.nodeId;
                                                         onNodeClick?.(key);
                                                     }}
-                                                    title={`Click to find hearing for ${node.name}`}
+                                                    title={node.nodeId === boardStage
+                                                        ? `Current stage on the case board. Click to find hearing for ${node.name}`
+                                                        : `Click to find hearing for ${node.name}`}
                                                     style={
                                                         node.type === 'system'
                                                             ? complete
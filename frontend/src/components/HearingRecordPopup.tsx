@@ -224,6 +224,14 @@ export const HearingRecordPopup: React.FC<HearingRecordPopupProps> = ({
         await addHearing(hearingData as unknown as Omit<Hearing, "id" | "createdAt" | "updatedAt">);
       }
 
+      // Without a connection the save was parked in the outbox (see useLegalQueries)
+      if (!navigator.onLine) {
+        toast({
+          title: 'Saved offline',
+          description: 'This hearing record will sync when you are back online.',
+        });
+      }
+
 
       // Notify parent that hearing was saved
       if (onHearingSaved) {
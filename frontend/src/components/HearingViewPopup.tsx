@@ -18,6 +18,7 @@ import {
 import type { Case, Hearing } from '@/contexts/LegalDataContext';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { CaseNotesPanel } from '@/components/CaseNotesPanel';
+import { ChangeHistoryPanel } from '@/components/ChangeHistoryPanel';
 
 interface HearingViewPopupProps {
   case_: Case | null;
@@ -123,9 +124,10 @@ export const HearingViewPopup: React.FC<HearingViewPopupProps> = ({
           </div>
         ) : (
           <Tabs defaultValue="details" className="w-full mt-2">
-            <TabsList className="grid w-full grid-cols-2 mb-4">
+            <TabsList className="grid w-full grid-cols-3 mb-4">
               <TabsTrigger value="details">Details</TabsTrigger>
               <TabsTrigger value="notes">Notes</TabsTrigger>
+              <TabsTrigger value="history">History</TabsTrigger>
             </TabsList>
 
             <TabsContent value="details" className="space-y-6 mt-0">
@@ -392,6 +394,10 @@ export const HearingViewPopup: React.FC<HearingViewPopupProps> = ({
                 inline={true}
               />
             </TabsContent>
+
+            <TabsContent value="history" className="mt-0">
+              <ChangeHistoryPanel entityType="hearing" entityId={safeHearing.id} />
+            </TabsContent>
           </Tabs>
         )}
       </DialogContent>
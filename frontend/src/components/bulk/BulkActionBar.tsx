@@ -0,0 +1,220 @@
+import React, { useState } from 'react';
+import { Download, Loader2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useBulkAction, useClients, useDocumentFolders } from '@/hooks/useLegalQueries';
+import { BulkResultDialog } from './BulkResultDialog';
+import type { BulkRecordType } from '@/services/api/client';
+import { CASE_PRIORITIES, type BulkAction, type BulkResult } from '@/services/api/schemas';
+
+export const BULK_ACTION_LABELS: Record<BulkAction, string> = {
+  status: 'Change status',
+  priority: 'Change priority',
+  reassign: 'Reassign client',
+  tags: 'Add tags',
+  move_documents: 'Move documents',
+  trash: 'Move to Trash',
+};
+
+const ROOT_FOLDER = '__root__';
+const TRIGGER_CLASS = 'h-7 w-40 text-xs';
+
+interface BulkActionBarProps {
+  type: BulkRecordType;
+  /** Plural noun for the records, e.g. "cases" */
+  noun: string;
+  selectedIds: string[];
+  visibleCount: number;
+  allSelected: boolean;
+  someSelected: boolean;
+  onToggleAll: () => void;
+  actions: BulkAction[];
+  statuses?: readonly string[];
+  describe: (id: string) => string;
+  onExport: () => void;
+  /** Replace the selection; after an action only the records it could not apply to stay selected */
+  onSelect: (ids: string[]) => void;
+}
+
+/** Select-all toggle for a list, and the actions to apply to the selected rows. */
+export const BulkActionBar: React.FC<BulkActionBarProps> = ({
+  type,
+  noun,
+  selectedIds,
+  visibleCount,
+  allSelected,
+  someSelected,
+  onToggleAll,
+  actions,
+  statuses = [],
+  describe,
+  onExport,
+  onSelect,
+}) => {
+  const { toast } = useToast();
+  const bulkAction = useBulkAction();
+  const [action, setAction] = useState<BulkAction | ''>('');
+  const [value, setValue] = useState('');
+  const [result, setResult] = useState<BulkResult | null>(null);
+  const { data: clients = [] } = useClients(action === 'reassign');
+  const { data: folders = [] } = useDocumentFolders(action === 'move_documents');
+
+  const count = selectedIds.length;
+  const needsValue = action !== '' && action !== 'trash';
+  const canApply = action !== '' && (!needsValue || value.trim() !== '') && !bulkAction.isPending;
+
+  const chooseAction = (next: string) => {
+    setAction(next as BulkAction);
+    setValue('');
+  };
+
+  const requestValue = (): string | string[] | null | undefined => {
+    switch (action) {
+      case 'tags':
+        return value.split(',').map(tag => tag.trim()).filter(Boolean);
+      case 'move_documents':
+        return value === ROOT_FOLDER ? null : value;
+      case 'trash':
+        return undefined;
+      default:
+        return value;
+    }
+  };
+
+  const apply = async () => {
+    if (!action) return;
+    if (action === 'trash' && !confirm(`Move ${count} ${noun} to the Trash? They can be restored from the Trash.`)) return;
+    try {
+      const summary = await bulkAction.mutateAsync({ type, action, ids: selectedIds, value: requestValue() });
+      const failedIds = summary.results.filter(item => !item.ok).map(item => item.id);
+      onSelect(failedIds);
+      if (summary.failed > 0) {
+        setResult(summary);
+      } else {
+        toast({ title: BULK_ACTION_LABELS[action], description: `Applied to ${summary.succeeded} ${noun}` });
+        setAction('');
+        setValue('');
+      }
+    } catch (error) {
+      toast({
+        title: 'Bulk action failed',
+        description: error instanceof Error ? error.message : 'No changes were made',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const valueInput = () => {
+    switch (action) {
+      case 'status':
+      case 'priority':
+        return (
+          <Select value={value} onValueChange={setValue}>
+            <SelectTrigger className={TRIGGER_CLASS}>
+              <SelectValue placeholder={action === 'status' ? 'New status' : 'New priority'} />
+            </SelectTrigger>
+            <SelectContent>
+              {(action === 'status' ? statuses : CASE_PRIORITIES).map(option => (
+                <SelectItem key={option} value={option} className="text-xs capitalize">{option}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      case 'reassign':
+        return (
+          <Select value={value} onValueChange={setValue}>
+            <SelectTrigger className={TRIGGER_CLASS}>
+              <SelectValue placeholder="Client" />
+            </SelectTrigger>
+            <SelectContent>
+              {clients.map(client => (
+                <SelectItem key={client.id} value={client.id} className="text-xs">{client.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      case 'move_documents':
+        return (
+          <Select value={value} onValueChange={setValue}>
+            <SelectTrigger className={TRIGGER_CLASS}>
+              <SelectValue placeholder="Folder" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ROOT_FOLDER} className="text-xs">Top level (no folder)</SelectItem>
+              {folders.map(folder => (
+                <SelectItem key={folder.id} value={folder.id} className="text-xs">{folder.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      case 'tags':
+        return (
+          <Input
+            value={value}
+            onChange={e => setValue(e.target.value)}
+            placeholder="Tags, comma separated"
+            className="h-7 w-48 text-xs"
+          />
+        );
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 rounded-md border bg-card px-3 py-1.5">
+      <label className="flex items-center gap-2 text-xs">
+        <Checkbox
+          checked={allSelected ? true : someSelected ? 'indeterminate' : false}
+          onCheckedChange={onToggleAll}
+          disabled={visibleCount === 0}
+        />
+        {count > 0 ? `${count} selected` : `Select all ${visibleCount} loaded`}
+      </label>
+
+      {count > 0 && (
+        <>
+          <Select value={action} onValueChange={chooseAction}>
+            <SelectTrigger className={TRIGGER_CLASS}>
+              <SelectValue placeholder="Bulk action" />
+            </SelectTrigger>
+            <SelectContent>
+              {actions.map(option => (
+                <SelectItem key={option} value={option} className="text-xs">{BULK_ACTION_LABELS[option]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {valueInput()}
+          <Button
+            size="sm"
+            className="h-7 text-xs"
+            variant={action === 'trash' ? 'destructive' : 'default'}
+            disabled={!canApply}
+            onClick={apply}
+          >
+            {bulkAction.isPending && <Loader2 className="mr-1 h-3.5 w-3.5 animate-spin" />}
+            Apply
+          </Button>
+          <Button size="sm" variant="outline" className="h-7 text-xs" onClick={onExport}>
+            <Download className="mr-1 h-3.5 w-3.5" />
+            Export CSV
+          </Button>
+          <Button size="sm" variant="ghost" className="h-7 px-2 text-xs" onClick={() => onSelect([])}>
+            <X className="h-3.5 w-3.5" />
+            <span className="sr-only">Clear selection</span>
+          </Button>
+        </>
+      )}
+
+      <BulkResultDialog
+        result={result}
+        actionLabel={action ? BULK_ACTION_LABELS[action] : 'Bulk action'}
+        describe={describe}
+        onClose={() => setResult(null)}
+      />
+    </div>
+  );
+};
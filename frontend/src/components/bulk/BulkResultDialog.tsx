@@ -0,0 +1,53 @@
+import React from 'react';
+import { AlertTriangle, CheckCircle } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import type { BulkResult } from '@/services/api/schemas';
+
+interface BulkResultDialogProps {
+  result: BulkResult | null;
+  actionLabel: string;
+  /** Display name of a record, e.g. its case number */
+  describe: (id: string) => string;
+  onClose: () => void;
+}
+
+/** Summary of a bulk action that did not apply to every selected record. */
+export const BulkResultDialog: React.FC<BulkResultDialogProps> = ({ result, actionLabel, describe, onClose }) => {
+  const failures = result?.results.filter(item => !item.ok) ?? [];
+
+  return (
+    <Dialog open={!!result} onOpenChange={open => { if (!open) onClose(); }}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <AlertTriangle className="h-5 w-5 text-destructive" />
+            {actionLabel}: {result?.failed} not applied
+          </DialogTitle>
+          <DialogDescription className="flex items-center gap-1.5">
+            <CheckCircle className="h-3.5 w-3.5 text-green-600" />
+            {result?.succeeded} of {result?.results.length} records were updated. The rest are still selected.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="max-h-64 space-y-1.5 overflow-y-auto">
+          {failures.map(item => (
+            <div key={item.id} className="flex items-start justify-between gap-3 rounded-md border px-3 py-2 text-sm">
+              <span className="font-medium">{describe(item.id)}</span>
+              <span className="text-right text-xs text-muted-foreground">{item.error}</span>
+            </div>
+          ))}
+        </div>
+        <DialogFooter>
+          <Button size="sm" onClick={onClose}>Close</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,84 @@
+import React from 'react';
+import { format } from 'date-fns';
+import { Calendar as CalendarIcon, Clock } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import { formatClock } from '@/lib/formatters';
+import { useFormatting } from '@/contexts/FormattingContext';
+import { parseDayKey, type CalendarViewItem } from '@/lib/calendarViews';
+
+interface CalendarAgendaProps {
+  /** yyyy-MM-dd keys of the days to list, in the user's time zone */
+  days: string[];
+  items: CalendarViewItem[];
+  today: string;
+  onOpen: (item: CalendarViewItem) => void;
+}
+
+const KIND_LABELS: Record<CalendarViewItem['kind'], string> = {
+  hearing: 'Hearing',
+  case: 'Case',
+  event: 'Event',
+};
+
+/** Day-by-day list of the entries in a range; days with nothing on are left out. */
+export const CalendarAgenda: React.FC<CalendarAgendaProps> = ({ days, items, today, onOpen }) => {
+  const { timeFormat, formatDate } = useFormatting();
+
+  const byDay = days
+    .map(day => ({
+      day,
+      entries: items
+        .filter(item => item.day === day)
+        .sort((a, b) => (a.start ?? -1) - (b.start ?? -1)),
+    }))
+    .filter(group => group.entries.length > 0);
+
+  if (byDay.length === 0) {
+    return (
+      <div className="text-center py-6 text-muted-foreground">
+        <CalendarIcon className="h-8 w-8 mx-auto mb-1.5 opacity-50" />
+        <p className="text-xs">Nothing scheduled in the next {days.length} days</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {byDay.map(({ day, entries }) => {
+        const date = parseDayKey(day);
+        return (
+          <div key={day}>
+            <h4 className={cn('mb-1 text-[11px] font-semibold', day === today && 'text-blue-700 dark:text-blue-300')}>
+              {format(date, 'EEEE')}, {formatDate(date)}
+              {day === today && <span className="ml-1.5 text-[9px] font-normal">Today</span>}
+            </h4>
+            <div className="space-y-1">
+              {entries.map(item => (
+                <button
+                  key={item.key}
+                  type="button"
+                  onClick={() => onOpen(item)}
+                  className={cn(
+                    'flex w-full items-center gap-2 rounded-lg border p-2 text-left hover:bg-muted',
+                    item.kind === 'event' && 'border-dashed'
+                  )}
+                >
+                  <div className="flex w-16 flex-shrink-0 items-center gap-1 text-[10px] text-muted-foreground">
+                    <Clock className="h-2.5 w-2.5" />
+                    {item.start === null ? 'All day' : formatClock(item.start, timeFormat)}
+                  </div>
+                  <div className="min-w-0 flex-1">
+                    <div className="truncate text-[11px] font-medium">{item.title}</div>
+                    {item.subtitle && <div className="truncate text-[10px] text-muted-foreground">{item.subtitle}</div>}
+                  </div>
+                  <Badge variant="outline" className="h-4 px-1 text-[9px]">{KIND_LABELS[item.kind]}</Badge>
+                </button>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,186 @@
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { cn } from '@/lib/utils';
+import { formatClock } from '@/lib/formatters';
+import { useFormatting } from '@/contexts/FormattingContext';
+import { layoutLanes, parseDayKey, type CalendarViewItem } from '@/lib/calendarViews';
+import type { Hearing } from '@/contexts/LegalDataContext';
+
+const HOUR_HEIGHT = 48;
+const SNAP_MINUTES = 30;
+const DEFAULT_FIRST_HOUR = 7;
+const DEFAULT_LAST_HOUR = 21;
+
+/** MIME type of a hearing being dragged, so stray drops from other pages are ignored */
+const HEARING_DRAG_TYPE = 'application/x-juriq-hearing';
+
+interface CalendarTimeGridProps {
+  /** yyyy-MM-dd keys of the columns, in the user's time zone */
+  days: string[];
+  items: CalendarViewItem[];
+  /** Today in the user's time zone, with the minutes past its midnight */
+  now: { date: string; minutes: number };
+  onOpen: (item: CalendarViewItem) => void;
+  onSelectDay: (day: string) => void;
+  /** A hearing was dropped on the slot starting at `minutes` past midnight of `day` */
+  onMoveHearing: (hearing: Hearing, day: string, minutes: number) => void;
+}
+
+const itemColour = (item: CalendarViewItem) => {
+  if (item.kind === 'event') return 'bg-slate-100 border-slate-300 text-slate-700 dark:bg-slate-800 dark:border-slate-600 dark:text-slate-200';
+  if (item.kind === 'case') return 'bg-amber-50 border-amber-300 text-amber-900 dark:bg-amber-950/40 dark:border-amber-700 dark:text-amber-100';
+  return 'bg-blue-50 border-blue-300 text-blue-900 dark:bg-blue-950/40 dark:border-blue-700 dark:text-blue-100';
+};
+
+/**
+ * Week or day time grid. Timed entries sit in half-hour slots; hearings can be
+ * dragged to another slot, which hands the move to the page to check and save.
+ */
+export const CalendarTimeGrid: React.FC<CalendarTimeGridProps> = ({ days, items, now, onOpen, onSelectDay, onMoveHearing }) => {
+  const { timeFormat, formatDate } = useFormatting();
+  const [dropTarget, setDropTarget] = useState<{ day: string; minutes: number } | null>(null);
+
+  const visible = items.filter(item => days.includes(item.day));
+  const timed = visible.filter(item => item.start !== null);
+  const firstHour = Math.min(DEFAULT_FIRST_HOUR, ...timed.map(item => Math.floor(item.start! / 60)));
+  const lastHour = Math.max(DEFAULT_LAST_HOUR, ...timed.map(item => Math.ceil((item.start! + item.duration) / 60)));
+  const hours = Array.from({ length: Math.min(24, lastHour) - firstHour }, (_, i) => firstHour + i);
+
+  const slotAt = (e: React.DragEvent<HTMLDivElement>) => {
+    const offset = e.clientY - e.currentTarget.getBoundingClientRect().top;
+    const snapped = Math.floor((offset / HOUR_HEIGHT) * (60 / SNAP_MINUTES)) * SNAP_MINUTES;
+    return firstHour * 60 + Math.min(Math.max(snapped, 0), hours.length * 60 - SNAP_MINUTES);
+  };
+
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>, day: string) => {
+    if (!e.dataTransfer.types.includes(HEARING_DRAG_TYPE)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+    const minutes = slotAt(e);
+    if (dropTarget?.day !== day || dropTarget.minutes !== minutes) setDropTarget({ day, minutes });
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>, day: string) => {
+    const hearingId = e.dataTransfer.getData(HEARING_DRAG_TYPE);
+    setDropTarget(null);
+    if (!hearingId) return;
+    e.preventDefault();
+    const hearing = items.find(item => item.hearing?.id === hearingId)?.hearing;
+    if (hearing) onMoveHearing(hearing, day, slotAt(e));
+  };
+
+  return (
+    <div className="overflow-x-auto">
+      <div className={cn('min-w-full', days.length > 1 && 'min-w-[640px]')}>
+        {/* Day headers and all-day row */}
+        <div className="grid border-b" style={{ gridTemplateColumns: `3.5rem repeat(${days.length}, minmax(0, 1fr))` }}>
+          <div />
+          {days.map(day => {
+            const allDay = visible.filter(item => item.day === day && item.start === null);
+            return (
+              <div key={day} className="border-l px-1 pb-1">
+                <button
+                  type="button"
+                  onClick={() => onSelectDay(day)}
+                  className={cn(
+                    'w-full rounded py-0.5 text-center text-[11px] font-medium hover:bg-muted',
+                    day === now.date && 'bg-blue-500/10 text-blue-700 dark:text-blue-300'
+                  )}
+                  title={formatDate(parseDayKey(day))}
+                >
+                  {format(parseDayKey(day), 'EEE d')}
+                </button>
+                <div className="mt-0.5 space-y-0.5">
+                  {allDay.map(item => (
+                    <button
+                      key={item.key}
+                      type="button"
+                      onClick={() => onOpen(item)}
+                      className={cn('block w-full truncate rounded border px-1 text-left text-[9px] leading-4', itemColour(item))}
+                      title={item.subtitle ? `${item.title} — ${item.subtitle}` : item.title}
+                    >
+                      {item.title}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        {/* Hour rows */}
+        <div className="grid" style={{ gridTemplateColumns: `3.5rem repeat(${days.length}, minmax(0, 1fr))` }}>
+          <div>
+            {hours.map(hour => (
+              <div key={hour} className="pr-1 text-right text-[9px] text-muted-foreground" style={{ height: HOUR_HEIGHT }}>
+                {formatClock(hour * 60, timeFormat)}
+              </div>
+            ))}
+          </div>
+          {days.map(day => (
+            <div
+              key={day}
+              className={cn('relative border-l', day === now.date && 'bg-blue-500/5')}
+              style={{ height: hours.length * HOUR_HEIGHT }}
+              onDragOver={e => handleDragOver(e, day)}
+              onDragLeave={() => setDropTarget(null)}
+              onDrop={e => handleDrop(e, day)}
+            >
+              {hours.map(hour => (
+                <div key={hour} className="border-t border-dashed border-muted" style={{ height: HOUR_HEIGHT }} />
+              ))}
+
+              {dropTarget?.day === day && (
+                <div
+                  className="pointer-events-none absolute inset-x-0.5 rounded border-2 border-dashed border-primary bg-primary/10 px-1 text-[9px] text-primary"
+                  style={{ top: ((dropTarget.minutes - firstHour * 60) / 60) * HOUR_HEIGHT, height: HOUR_HEIGHT / 2 }}
+                >
+                  {formatClock(dropTarget.minutes, timeFormat)}
+                </div>
+              )}
+
+              {day === now.date && now.minutes >= firstHour * 60 && now.minutes < (firstHour + hours.length) * 60 && (
+                <div
+                  className="pointer-events-none absolute inset-x-0 z-10 border-t-2 border-red-500"
+                  style={{ top: ((now.minutes - firstHour * 60) / 60) * HOUR_HEIGHT }}
+                />
+              )}
+
+              {layoutLanes(visible.filter(item => item.day === day)).map(({ item, lane, lanes }) => (
+                <div
+                  key={item.key}
+                  draggable={Boolean(item.hearing)}
+                  onDragStart={e => {
+                    if (!item.hearing) return;
+                    e.dataTransfer.setData(HEARING_DRAG_TYPE, item.hearing.id);
+                    e.dataTransfer.effectAllowed = 'move';
+                  }}
+                  onDragEnd={() => setDropTarget(null)}
+                  onClick={() => onOpen(item)}
+                  className={cn(
+                    'absolute overflow-hidden rounded border px-1 py-0.5 text-[9px] leading-tight shadow-sm',
+                    itemColour(item),
+                    item.hearing ? 'cursor-grab active:cursor-grabbing' : 'cursor-pointer'
+                  )}
+                  style={{
+                    top: ((item.start! - firstHour * 60) / 60) * HOUR_HEIGHT,
+                    height: Math.max((Math.max(item.duration, 15) / 60) * HOUR_HEIGHT - 2, 16),
+                    left: `calc(${(lane / lanes) * 100}% + 2px)`,
+                    width: `calc(${100 / lanes}% - 4px)`,
+                  }}
+                  title={item.hearing ? `${item.title} — drag to reschedule` : item.title}
+                >
+                  <div className="truncate font-medium">{item.title}</div>
+                  <div className="truncate opacity-80">
+                    {formatClock(item.start!, timeFormat)}
+                    {item.subtitle ? ` · ${item.subtitle}` : ''}
+                  </div>
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,348 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { AlertTriangle, Archive, CalendarX, CheckCircle, Clock, FileCheck, Hourglass, Loader2, Receipt } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import type { Case } from '@/contexts/LegalDataContext';
+import { useFormatting } from '@/contexts/FormattingContext';
+import { useToast } from '@/hooks/use-toast';
+import { useCloseCase, useClosureChecklist, useDeadlinePreview } from '@/hooks/useLegalQueries';
+import { CLOSURE_OUTCOME_LABELS } from '@/lib/closure';
+import { parseDay, ruleSummary, rulesByAct } from '@/lib/deadlines';
+import { CLOSURE_OUTCOMES, type ClosureOutcome } from '@/services/api/schemas';
+
+const NONE = '__none__';
+
+type Step = 'outcome' | 'checklist' | 'appeal';
+
+interface CaseClosureWizardProps {
+  /** The case to close; null keeps the wizard closed */
+  case_: Case | null;
+  /** Outcome to start with, e.g. from the board column the card was dropped in */
+  initialOutcome?: ClosureOutcome;
+  onClose: () => void;
+}
+
+/**
+ * Close a case in three steps: the outcome, disposal date and final order;
+ * what is still open on it (invoices, unbilled time, hearings, reminders);
+ * then an optional appeal deadline and the move to the archive.
+ */
+export const CaseClosureWizard: React.FC<CaseClosureWizardProps> = ({ case_, initialOutcome, onClose }) => {
+  const { toast } = useToast();
+  const { formatCurrency, formatDateShort } = useFormatting();
+  const { data: checklist, isLoading } = useClosureChecklist(case_?.id, !!case_);
+  const closeCase = useCloseCase();
+  const today = format(new Date(), 'yyyy-MM-dd');
+
+  const [step, setStep] = useState<Step>('outcome');
+  const [outcome, setOutcome] = useState<ClosureOutcome>('disposed');
+  const [disposalDate, setDisposalDate] = useState(today);
+  const [finalOrderId, setFinalOrderId] = useState(NONE);
+  const [summary, setSummary] = useState('');
+  const [cancelHearings, setCancelHearings] = useState(true);
+  const [removeAlerts, setRemoveAlerts] = useState(true);
+  const [appealRuleId, setAppealRuleId] = useState(NONE);
+  const [archive, setArchive] = useState(true);
+
+  useEffect(() => {
+    if (case_) {
+      setStep('outcome');
+      setOutcome(initialOutcome ?? 'disposed');
+      setDisposalDate(format(new Date(), 'yyyy-MM-dd'));
+      setFinalOrderId(NONE);
+      setSummary('');
+      setCancelHearings(true);
+      setRemoveAlerts(true);
+      setAppealRuleId(NONE);
+      setArchive(true);
+    }
+  }, [case_, initialOutcome]);
+
+  const appealRules = useMemo(() => checklist?.appealRules ?? [], [checklist]);
+  const appealRule = appealRules.find(rule => rule.id === appealRuleId);
+  const preview = useDeadlinePreview(appealRule && disposalDate ? { ruleId: appealRule.id, triggerDate: disposalDate } : null);
+
+  const dateValid = !!disposalDate && disposalDate <= today;
+  const unbilled = checklist?.unbilledTime;
+  const flags = checklist
+    ? checklist.pendingInvoices.length + (unbilled?.entries ? 1 : 0)
+    : 0;
+
+  const handleClose = async () => {
+    if (!case_) return;
+    try {
+      const result = await closeCase.mutateAsync({
+        caseId: case_.id,
+        input: {
+          outcome,
+          disposalDate,
+          finalOrderId: finalOrderId === NONE ? undefined : finalOrderId,
+          summary: summary.trim() || undefined,
+          appealRuleId: appealRuleId === NONE ? undefined : appealRuleId,
+          cancelHearings,
+          removeAlerts,
+          archive,
+        },
+      });
+      const done = [
+        result.cancelledHearings > 0 && `${result.cancelledHearings} hearing${result.cancelledHearings === 1 ? '' : 's'} cancelled`,
+        result.appealDeadline && `${result.appealDeadline.title} due ${formatDateShort(parseDay(result.appealDeadline.dueDate))}`,
+        archive && 'moved to the archive',
+      ].filter(Boolean).join('; ');
+      toast({ title: `${case_.caseNumber} closed`, description: done || CLOSURE_OUTCOME_LABELS[outcome] });
+      onClose();
+    } catch (error) {
+      toast({
+        title: 'Closing failed',
+        description: error instanceof Error ? error.message : 'Unable to close the case',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  return (
+    <Dialog open={!!case_} onOpenChange={open => { if (!open) onClose(); }}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileCheck className="h-5 w-5 text-primary" />
+            Close {case_?.caseNumber}
+          </DialogTitle>
+          <DialogDescription>
+            {step === 'outcome' && 'Record how the matter ended and the order that disposed of it.'}
+            {step === 'checklist' && 'What is still open on the case. Billing is only flagged; settle it from Billing.'}
+            {step === 'appeal' && 'Add the deadline for an appeal or review, counted from the disposal date.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading && (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        )}
+
+        {!isLoading && step === 'outcome' && (
+          <div className="space-y-3">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1.5">
+                <Label htmlFor="closureOutcome">Outcome</Label>
+                <Select value={outcome} onValueChange={value => setOutcome(value as ClosureOutcome)}>
+                  <SelectTrigger id="closureOutcome">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CLOSURE_OUTCOMES.map(value => (
+                      <SelectItem key={value} value={value}>{CLOSURE_OUTCOME_LABELS[value]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="disposalDate">Disposal date</Label>
+                <Input id="disposalDate" type="date" value={disposalDate} max={today} onChange={e => setDisposalDate(e.target.value)} />
+              </div>
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="finalOrder">Final order or judgment</Label>
+              <Select value={finalOrderId} onValueChange={setFinalOrderId}>
+                <SelectTrigger id="finalOrder">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>Not on file</SelectItem>
+                  {checklist?.documents.map(doc => (
+                    <SelectItem key={doc.id} value={doc.id}>{doc.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {checklist?.documents.length === 0 && (
+                <p className="text-[10px] text-muted-foreground">Upload the order to the case folder in Documents to attach it here.</p>
+              )}
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="closureSummary">Summary</Label>
+              <Textarea
+                id="closureSummary"
+                value={summary}
+                onChange={e => setSummary(e.target.value)}
+                placeholder="Relief granted, costs, directions"
+                maxLength={2000}
+                rows={3}
+              />
+            </div>
+          </div>
+        )}
+
+        {!isLoading && step === 'checklist' && checklist && (
+          <div className="max-h-[60vh] space-y-3 overflow-y-auto pr-1 text-xs">
+            <section className="space-y-1.5">
+              <h4 className="flex items-center gap-1.5 font-medium">
+                <Receipt className="h-3.5 w-3.5 text-muted-foreground" />
+                Invoices not paid
+              </h4>
+              {checklist.pendingInvoices.length === 0 ? (
+                <p className="text-muted-foreground">None.</p>
+              ) : checklist.pendingInvoices.map(invoice => (
+                <div key={invoice.id} className="flex items-center justify-between rounded-md border border-amber-500/40 bg-amber-500/5 px-2 py-1">
+                  <span>
+                    <span className="font-medium">{invoice.invoiceNumber}</span>
+                    <span className="text-muted-foreground"> — {invoice.status}{invoice.dueDate && `, due ${formatDateShort(invoice.dueDate)}`}</span>
+                  </span>
+                  <span>{formatCurrency(invoice.total)}</span>
+                </div>
+              ))}
+            </section>
+
+            <section className="space-y-1.5">
+              <h4 className="flex items-center gap-1.5 font-medium">
+                <Clock className="h-3.5 w-3.5 text-muted-foreground" />
+                Unbilled time
+              </h4>
+              {unbilled && unbilled.entries > 0 ? (
+                <p className="rounded-md border border-amber-500/40 bg-amber-500/5 px-2 py-1">
+                  {unbilled.entries} billable entr{unbilled.entries === 1 ? 'y' : 'ies'}, {Math.round(unbilled.minutes / 6) / 10}h
+                  worth {formatCurrency(unbilled.amount)}
+                  {unbilled.since ? ` logged since the last invoice (${formatDateShort(unbilled.since)})` : ' and no invoice raised yet'}
+                </p>
+              ) : (
+                <p className="text-muted-foreground">None since the last invoice.</p>
+              )}
+            </section>
+
+            <section className="space-y-1.5">
+              <h4 className="flex items-center gap-1.5 font-medium">
+                <CalendarX className="h-3.5 w-3.5 text-muted-foreground" />
+                Hearings ahead
+              </h4>
+              {checklist.futureHearings.length === 0 ? (
+                <p className="text-muted-foreground">None scheduled.</p>
+              ) : (
+                <>
+                  {checklist.futureHearings.map(hearing => (
+                    <div key={hearing.id} className="rounded-md border px-2 py-1">
+                      {formatDateShort(hearing.hearingDate)}{hearing.hearingTime && ` at ${hearing.hearingTime}`}
+                      <span className="text-muted-foreground"> — {[hearing.courtName, hearing.purpose].filter(Boolean).join(', ')}</span>
+                    </div>
+                  ))}
+                  <label className="flex items-center gap-1.5">
+                    <Checkbox checked={cancelHearings} onCheckedChange={checked => setCancelHearings(checked === true)} />
+                    Cancel {checklist.futureHearings.length === 1 ? 'this hearing' : `these ${checklist.futureHearings.length} hearings`}
+                  </label>
+                </>
+              )}
+            </section>
+
+            <section className="space-y-1.5">
+              <h4 className="flex items-center gap-1.5 font-medium">
+                <Hourglass className="h-3.5 w-3.5 text-muted-foreground" />
+                Reminders and deadlines
+              </h4>
+              {checklist.openDeadlines.map(deadline => (
+                <div key={deadline.id} className="rounded-md border px-2 py-1">
+                  {deadline.title}
+                  <span className="text-muted-foreground"> — due {formatDateShort(parseDay(deadline.dueDate))}</span>
+                </div>
+              ))}
+              {checklist.pendingAlerts > 0 ? (
+                <label className="flex items-center gap-1.5">
+                  <Checkbox checked={removeAlerts} onCheckedChange={checked => setRemoveAlerts(checked === true)} />
+                  Remove {checklist.pendingAlerts} pending reminder{checklist.pendingAlerts === 1 ? '' : 's'}
+                </label>
+              ) : (
+                <p className="text-muted-foreground">No reminders pending.</p>
+              )}
+            </section>
+          </div>
+        )}
+
+        {!isLoading && step === 'appeal' && (
+          <div className="space-y-3">
+            <div className="space-y-1.5">
+              <Label htmlFor="appealRule">Appeal deadline</Label>
+              <Select value={appealRuleId} onValueChange={setAppealRuleId}>
+                <SelectTrigger id="appealRule">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>No appeal deadline</SelectItem>
+                  {rulesByAct(appealRules).map(([act, actRules]) => (
+                    <SelectGroup key={act}>
+                      <SelectLabel className="text-[10px]">{act}</SelectLabel>
+                      {actRules.map(rule => (
+                        <SelectItem key={rule.id} value={rule.id} className="text-xs">
+                          {rule.title} — {rule.provision}
+                        </SelectItem>
+                      ))}
+                    </SelectGroup>
+                  ))}
+                </SelectContent>
+              </Select>
+              {appealRule && (
+                <p className="text-xs text-muted-foreground">
+                  {ruleSummary(appealRule)} from {formatDateShort(parseDay(disposalDate))}
+                  {preview.data && <> — due <span className="font-medium text-foreground">{formatDateShort(parseDay(preview.data.dueDate))}</span></>}
+                  {preview.isFetching && <Loader2 className="ml-1 inline h-3 w-3 animate-spin" />}
+                </p>
+              )}
+              {appealRule && (
+                <p className="text-[10px] text-muted-foreground">
+                  Time for certified copies is not counted yet; adjust the deadline on the case once the copy arrives.
+                </p>
+              )}
+            </div>
+            <label className="flex items-start gap-2 text-sm">
+              <Checkbox checked={archive} onCheckedChange={checked => setArchive(checked === true)} className="mt-0.5" />
+              <span>
+                <span className="flex items-center gap-1.5 font-medium"><Archive className="h-3.5 w-3.5" />Move to the archive</span>
+                <span className="block text-xs text-muted-foreground">
+                  Archived cases are read-only and hidden from the case list until reopened.
+                </span>
+              </span>
+            </label>
+          </div>
+        )}
+
+        <DialogFooter>
+          {step === 'outcome' && (
+            <Button size="sm" onClick={() => setStep('checklist')} disabled={isLoading || !dateValid}>
+              Next
+            </Button>
+          )}
+          {step === 'checklist' && (
+            <>
+              <Button size="sm" variant="outline" onClick={() => setStep('outcome')}>Back</Button>
+              <Button size="sm" onClick={() => setStep('appeal')}>
+                {flags > 0 && <AlertTriangle className="mr-1 h-3.5 w-3.5 text-amber-500" />}
+                Next
+              </Button>
+            </>
+          )}
+          {step === 'appeal' && (
+            <>
+              <Button size="sm" variant="outline" onClick={() => setStep('checklist')}>Back</Button>
+              <Button size="sm" onClick={handleClose} disabled={closeCase.isPending}>
+                {closeCase.isPending
+                  ? <Loader2 className="mr-1 h-3.5 w-3.5 animate-spin" />
+                  : <CheckCircle className="mr-1 h-3.5 w-3.5" />}
+                Close case
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,87 @@
+import React, { useEffect, useState } from 'react';
+import { ArchiveRestore, Loader2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import type { Case } from '@/contexts/LegalDataContext';
+import { useToast } from '@/hooks/use-toast';
+import { useReopenCase } from '@/hooks/useLegalQueries';
+
+interface ReopenCaseDialogProps {
+  /** The closed or archived case; null keeps the dialog closed */
+  case_: Case | null;
+  onClose: () => void;
+}
+
+/** Take a case out of the archive, with the reason recorded in the audit log. */
+export const ReopenCaseDialog: React.FC<ReopenCaseDialogProps> = ({ case_, onClose }) => {
+  const { toast } = useToast();
+  const reopen = useReopenCase();
+  const [reason, setReason] = useState('');
+
+  useEffect(() => {
+    if (case_) setReason('');
+  }, [case_]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!case_) return;
+    try {
+      await reopen.mutateAsync({ caseId: case_.id, reason: reason.trim() });
+      toast({ title: `${case_.caseNumber} reopened`, description: 'The case is active again' });
+      onClose();
+    } catch (error) {
+      toast({
+        title: 'Reopen failed',
+        description: error instanceof Error ? error.message : 'Unable to reopen the case',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  return (
+    <Dialog open={!!case_} onOpenChange={open => { if (!open) onClose(); }}>
+      <DialogContent className="max-w-md">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <ArchiveRestore className="h-5 w-5 text-primary" />
+              Reopen {case_?.caseNumber}
+            </DialogTitle>
+            <DialogDescription>
+              The case becomes active and editable again. Its closure record is cleared; the reason is kept in the audit log.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-1.5">
+            <Label htmlFor="reopenReason">Reason</Label>
+            <Textarea
+              id="reopenReason"
+              value={reason}
+              onChange={e => setReason(e.target.value)}
+              placeholder="e.g. Review petition allowed, matter restored to file"
+              maxLength={500}
+              rows={3}
+              required
+              autoFocus
+            />
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose}>Cancel</Button>
+            <Button type="submit" disabled={reopen.isPending || !reason.trim()}>
+              {reopen.isPending && <Loader2 className="mr-1 h-3.5 w-3.5 animate-spin" />}
+              Reopen case
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
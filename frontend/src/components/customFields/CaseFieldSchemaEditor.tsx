@@ -0,0 +1,228 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Plus, SlidersHorizontal, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useCaseFieldSchemas, useDeleteCaseFieldSchema, useSaveCaseFieldSchema } from '@/hooks/useLegalQueries';
+import { caseTypeLabel, caseTypeOptions, fieldKeyFromLabel, fieldsForCaseType } from '@/lib/customFields';
+import { CUSTOM_FIELD_TYPES, type CustomField, type CustomFieldType } from '@/services/api/schemas';
+
+const TYPE_LABELS: Record<CustomFieldType, string> = {
+  text: 'Text',
+  number: 'Number',
+  date: 'Date',
+  select: 'Select',
+  multiselect: 'Multi-select',
+  party: 'Party (client)',
+};
+
+interface DraftField {
+  /** Empty until saved; saved keys never change so stored values and placeholders keep working */
+  key: string;
+  label: string;
+  type: CustomFieldType;
+  optionsText: string;
+  required: boolean;
+}
+
+const NEW_TYPE = '__new__';
+
+const toDraft = (field: CustomField): DraftField => ({
+  key: field.key,
+  label: field.label,
+  type: field.type,
+  optionsText: field.options.join(', '),
+  required: field.required,
+});
+
+const hasOptions = (type: CustomFieldType) => type === 'select' || type === 'multiselect';
+
+/** Settings card for defining the custom fields of each case type. */
+export const CaseFieldSchemaEditor: React.FC = () => {
+  const { toast } = useToast();
+  const { data } = useCaseFieldSchemas();
+  const schemas = useMemo(() => data ?? [], [data]);
+  const saveSchema = useSaveCaseFieldSchema();
+  const deleteSchema = useDeleteCaseFieldSchema();
+  const [caseType, setCaseType] = useState<string>('family');
+  const [newType, setNewType] = useState('');
+  const [draft, setDraft] = useState<DraftField[]>([]);
+
+  const hasSchema = schemas.some(schema => schema.caseType === caseType);
+
+  // Reload the draft when switching types or when the saved schema changes
+  useEffect(() => {
+    setDraft(fieldsForCaseType(schemas, caseType).map(toDraft));
+  }, [caseType, schemas]);
+
+  const updateField = (index: number, patch: Partial<DraftField>) =>
+    setDraft(prev => prev.map((field, i) => (i === index ? { ...field, ...patch } : field)));
+
+  const handleTypeSelect = (value: string) => {
+    if (value !== NEW_TYPE) {
+      setCaseType(value);
+      return;
+    }
+    const name = newType.trim().toLowerCase();
+    if (name) {
+      setCaseType(name);
+      setNewType('');
+    }
+  };
+
+  const handleSave = async () => {
+    const fields: CustomField[] = draft.map(field => ({
+      key: field.key || fieldKeyFromLabel(field.label),
+      label: field.label.trim(),
+      type: field.type,
+      options: hasOptions(field.type) ? field.optionsText.split(',').map(o => o.trim()).filter(Boolean) : [],
+      required: field.required,
+    }));
+    try {
+      await saveSchema.mutateAsync({ caseType, fields });
+      toast({ title: 'Custom fields saved', description: `${caseTypeLabel(caseType)} cases now have ${fields.length} custom field${fields.length === 1 ? '' : 's'}` });
+    } catch (error) {
+      toast({
+        title: 'Save failed',
+        description: error instanceof Error ? error.message : 'Unable to save custom fields',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const handleDelete = async () => {
+    try {
+      await deleteSchema.mutateAsync(caseType);
+      toast({ title: 'Custom fields removed', description: 'Values already entered on cases are kept' });
+    } catch (error) {
+      toast({
+        title: 'Delete failed',
+        description: error instanceof Error ? error.message : 'Unable to remove custom fields',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const typeOptions = caseTypeOptions(schemas);
+  if (!typeOptions.includes(caseType)) typeOptions.push(caseType);
+
+  return (
+    <Card className="shadow-card-custom">
+      <CardHeader className="p-3 pb-1.5">
+        <CardTitle className="flex items-center gap-1.5 text-sm">
+          <SlidersHorizontal className="h-4 w-4 text-primary" />
+          Custom Case Fields
+        </CardTitle>
+        <CardDescription className="text-[10px]">
+          Extra fields per case type, shown on every case of that type and usable as template placeholders
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3 px-3 pb-3 pt-0">
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={caseType} onValueChange={handleTypeSelect}>
+            <SelectTrigger className="h-7 w-44 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {typeOptions.map(type => (
+                <SelectItem key={type} value={type} className="text-xs">{caseTypeLabel(type)}</SelectItem>
+              ))}
+              {newType.trim() && <SelectItem value={NEW_TYPE} className="text-xs">+ Add “{newType.trim()}”</SelectItem>}
+            </SelectContent>
+          </Select>
+          <Input
+            value={newType}
+            onChange={e => setNewType(e.target.value)}
+            onKeyDown={e => { if (e.key === 'Enter') { e.preventDefault(); handleTypeSelect(NEW_TYPE); } }}
+            placeholder="New case type, e.g. arbitration"
+            className="h-7 w-56 text-xs"
+          />
+        </div>
+
+        {draft.length === 0 ? (
+          <p className="text-[10px] text-muted-foreground">No custom fields for {caseTypeLabel(caseType)} cases yet.</p>
+        ) : (
+          <div className="space-y-2">
+            {draft.map((field, index) => (
+              <div key={index} className="flex flex-wrap items-center gap-2 rounded-md bg-muted/30 p-2">
+                <Input
+                  value={field.label}
+                  onChange={e => updateField(index, { label: e.target.value })}
+                  placeholder="Field label"
+                  className="h-7 w-44 text-xs"
+                />
+                <Select
+                  value={field.type}
+                  onValueChange={value => updateField(index, { type: value as CustomFieldType })}
+                  disabled={!!field.key}
+                >
+                  <SelectTrigger className="h-7 w-36 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CUSTOM_FIELD_TYPES.map(type => (
+                      <SelectItem key={type} value={type} className="text-xs">{TYPE_LABELS[type]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {hasOptions(field.type) && (
+                  <Input
+                    value={field.optionsText}
+                    onChange={e => updateField(index, { optionsText: e.target.value })}
+                    placeholder="Options, comma separated"
+                    className="h-7 min-w-40 flex-1 text-xs"
+                  />
+                )}
+                <label className="flex items-center gap-1.5 text-[10px] text-muted-foreground">
+                  <Switch checked={field.required} onCheckedChange={required => updateField(index, { required })} />
+                  Required
+                </label>
+                <code className="text-[10px] text-muted-foreground">
+                  {`{{${field.key || fieldKeyFromLabel(field.label) || 'key'}}}`}
+                </code>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="ml-auto h-7 px-2 text-destructive hover:text-destructive"
+                  onClick={() => setDraft(prev => prev.filter((_, i) => i !== index))}
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                  <span className="sr-only">Remove field</span>
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          <Button
+            size="sm"
+            variant="outline"
+            className="h-7 text-xs"
+            onClick={() => setDraft(prev => [...prev, { key: '', label: '', type: 'text', optionsText: '', required: false }])}
+          >
+            <Plus className="mr-1 h-3.5 w-3.5" />
+            Add field
+          </Button>
+          <Button size="sm" className="h-7 text-xs" onClick={handleSave} disabled={saveSchema.isPending}>
+            Save {caseTypeLabel(caseType)} fields
+          </Button>
+          {hasSchema && (
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-7 text-xs text-destructive hover:text-destructive"
+              onClick={handleDelete}
+              disabled={deleteSchema.isPending}
+            >
+              Remove all
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,120 @@
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ClientPicker } from '@/components/pickers/RecordPicker';
+import type { CustomFieldValue } from '@/contexts/LegalDataContext';
+import type { CustomField } from '@/services/api/schemas';
+
+interface CustomFieldInputsProps {
+  fields: CustomField[];
+  values: Record<string, CustomFieldValue>;
+  onChange: (values: Record<string, CustomFieldValue>) => void;
+}
+
+const NONE = '__none__';
+
+/** Form inputs for a case type's custom fields, laid out like the rest of the case dialog. */
+export const CustomFieldInputs: React.FC<CustomFieldInputsProps> = ({ fields, values, onChange }) => {
+  if (fields.length === 0) return null;
+
+  const setValue = (key: string, value: CustomFieldValue | undefined) => {
+    const next = { ...values };
+    if (value === undefined || value === '' || (Array.isArray(value) && value.length === 0)) {
+      delete next[key];
+    } else {
+      next[key] = value;
+    }
+    onChange(next);
+  };
+
+  const renderInput = (field: CustomField) => {
+    const id = `cf-${field.key}`;
+    const value = values[field.key];
+    switch (field.type) {
+      case 'number':
+        return (
+          <Input
+            id={id}
+            type="number"
+            value={value === undefined ? '' : String(value)}
+            onChange={e => setValue(field.key, e.target.value === '' ? undefined : Number(e.target.value))}
+            required={field.required}
+          />
+        );
+      case 'date':
+        return (
+          <Input
+            id={id}
+            type="date"
+            value={typeof value === 'string' ? value : ''}
+            onChange={e => setValue(field.key, e.target.value)}
+            required={field.required}
+          />
+        );
+      case 'select':
+        return (
+          <Select value={typeof value === 'string' ? value : NONE} onValueChange={v => setValue(field.key, v === NONE ? undefined : v)}>
+            <SelectTrigger id={id}>
+              <SelectValue placeholder="Select" />
+            </SelectTrigger>
+            <SelectContent>
+              {!field.required && <SelectItem value={NONE}>—</SelectItem>}
+              {field.options.map(option => (
+                <SelectItem key={option} value={option}>{option}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      case 'multiselect': {
+        const selected = Array.isArray(value) ? value : [];
+        return (
+          <div id={id} className="flex flex-wrap gap-x-4 gap-y-2 rounded-md border px-3 py-2">
+            {field.options.map(option => (
+              <label key={option} className="flex items-center gap-1.5 text-sm">
+                <Checkbox
+                  checked={selected.includes(option)}
+                  onCheckedChange={checked => setValue(
+                    field.key,
+                    checked ? [...selected, option] : selected.filter(v => v !== option)
+                  )}
+                />
+                {option}
+              </label>
+            ))}
+          </div>
+        );
+      }
+      case 'party':
+        return (
+          <ClientPicker
+            id={id}
+            value={typeof value === 'string' ? value : ''}
+            onChange={v => setValue(field.key, v || undefined)}
+            noneLabel={field.required ? undefined : '—'}
+          />
+        );
+      default:
+        return (
+          <Input
+            id={id}
+            value={typeof value === 'string' ? value : ''}
+            onChange={e => setValue(field.key, e.target.value)}
+            required={field.required}
+          />
+        );
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-2 gap-4">
+      {fields.map(field => (
+        <div key={field.key} className={field.type === 'multiselect' ? 'col-span-2' : undefined}>
+          <Label htmlFor={`cf-${field.key}`}>{field.label}{field.required && '*'}</Label>
+          {renderInput(field)}
+        </div>
+      ))}
+    </div>
+  );
+};
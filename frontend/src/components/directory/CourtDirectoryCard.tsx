@@ -0,0 +1,207 @@
+import React, { useState } from 'react';
+import { Gavel, Landmark, Plus, Trash2, Wand2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useAddCourt, useAddJudge, useCourts, useDeleteCourt, useDeleteJudge, useJudges } from '@/hooks/useLegalQueries';
+import type { DirectoryField } from '@/services/api/client';
+import { COURT_LEVELS, type CourtLevel } from '@/services/api/schemas';
+import { CourtAutocomplete, type DirectoryValue } from './DirectoryAutocomplete';
+import { NameCleanupDialog } from './NameCleanupDialog';
+
+const COURT_LEVEL_LABELS: Record<CourtLevel, string> = {
+  supreme: 'Supreme Court',
+  high: 'High Court',
+  district: 'District court',
+  tribunal: 'Tribunal',
+  other: 'Other',
+};
+
+/**
+ * Settings card for the firm's own courts and judges, added to the shared
+ * directory of the Supreme Court and High Courts, and the name clean-up.
+ */
+export const CourtDirectoryCard: React.FC = () => {
+  const { toast } = useToast();
+  const { data: courts = [] } = useCourts();
+  const { data: judges = [] } = useJudges();
+  const addCourt = useAddCourt();
+  const deleteCourt = useDeleteCourt();
+  const addJudge = useAddJudge();
+  const deleteJudge = useDeleteJudge();
+  const [court, setCourt] = useState({ name: '', bench: '', city: '', level: 'district' as CourtLevel });
+  const [judge, setJudge] = useState({ name: '', designation: '' });
+  const [judgeCourt, setJudgeCourt] = useState<DirectoryValue>({ name: '' });
+  const [cleanup, setCleanup] = useState<DirectoryField | null>(null);
+
+  const ownCourts = courts.filter(c => !c.shared);
+  const ownJudges = judges.filter(j => !j.shared);
+
+  const failed = (title: string, fallback: string) => (error: unknown) => toast({
+    title,
+    description: error instanceof Error ? error.message : fallback,
+    variant: 'destructive'
+  });
+
+  const handleAddCourt = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      await addCourt.mutateAsync({ ...court, name: court.name.trim(), bench: court.bench.trim(), city: court.city.trim() });
+      setCourt(prev => ({ ...prev, name: '', bench: '', city: '' }));
+    } catch (error) {
+      failed('Save failed', 'Unable to add the court')(error);
+    }
+  };
+
+  const handleAddJudge = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      await addJudge.mutateAsync({ name: judge.name.trim(), designation: judge.designation.trim(), courtId: judgeCourt.id ?? null });
+      setJudge({ name: '', designation: '' });
+    } catch (error) {
+      failed('Save failed', 'Unable to add the judge')(error);
+    }
+  };
+
+  return (
+    <Card className="shadow-card-custom">
+      <CardHeader className="p-3 pb-1.5">
+        <CardTitle className="flex items-center gap-1.5 text-sm">
+          <Landmark className="h-4 w-4 text-primary" />
+          Court Directory
+        </CardTitle>
+        <CardDescription className="text-[10px]">
+          The Supreme Court and High Courts are listed for everyone. Add the district courts, tribunals and judges you
+          appear before; the case and calendar forms suggest them as you type
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3 px-3 pb-3 pt-0">
+        <form onSubmit={handleAddCourt} className="flex flex-wrap items-center gap-2">
+          <Input
+            value={court.name}
+            onChange={e => setCourt(prev => ({ ...prev, name: e.target.value }))}
+            placeholder="Court, e.g. Saket District Court"
+            className="h-7 w-56 text-xs"
+            required
+          />
+          <Input
+            value={court.bench}
+            onChange={e => setCourt(prev => ({ ...prev, bench: e.target.value }))}
+            placeholder="Bench (optional)"
+            className="h-7 w-32 text-xs"
+          />
+          <Input
+            value={court.city}
+            onChange={e => setCourt(prev => ({ ...prev, city: e.target.value }))}
+            placeholder="City"
+            className="h-7 w-28 text-xs"
+          />
+          <Select value={court.level} onValueChange={value => setCourt(prev => ({ ...prev, level: value as CourtLevel }))}>
+            <SelectTrigger className="h-7 w-36 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {COURT_LEVELS.map(level => (
+                <SelectItem key={level} value={level} className="text-xs">{COURT_LEVEL_LABELS[level]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button type="submit" size="sm" variant="outline" className="h-7 text-xs" disabled={addCourt.isPending}>
+            <Plus className="mr-1 h-3.5 w-3.5" />
+            Add court
+          </Button>
+        </form>
+
+        {ownCourts.length > 0 && (
+          <div className="max-h-40 space-y-1 overflow-y-auto">
+            {ownCourts.map(c => (
+              <div key={c.id} className="flex items-center justify-between gap-2 rounded-md bg-muted/30 px-2 py-1 text-xs">
+                <span className="min-w-0 truncate">
+                  <span className="font-medium">{c.label}</span>
+                  <span className="text-muted-foreground"> — {[COURT_LEVEL_LABELS[c.level], c.city].filter(Boolean).join(', ')}</span>
+                </span>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-6 w-6"
+                  aria-label={`Remove ${c.label}`}
+                  onClick={() => deleteCourt.mutateAsync(c.id).catch(failed('Delete failed', 'Unable to remove the court'))}
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <form onSubmit={handleAddJudge} className="flex flex-wrap items-center gap-2">
+          <Input
+            value={judge.name}
+            onChange={e => setJudge(prev => ({ ...prev, name: e.target.value }))}
+            placeholder="Judge, e.g. Justice A. K. Rao"
+            className="h-7 w-48 text-xs"
+            required
+          />
+          <Input
+            value={judge.designation}
+            onChange={e => setJudge(prev => ({ ...prev, designation: e.target.value }))}
+            placeholder="Designation"
+            className="h-7 w-32 text-xs"
+          />
+          <div className="w-56">
+            <CourtAutocomplete
+              value={judgeCourt.name}
+              linkedId={judgeCourt.id}
+              onChange={setJudgeCourt}
+              placeholder="Court (optional)"
+              className="h-7 text-xs"
+            />
+          </div>
+          <Button type="submit" size="sm" variant="outline" className="h-7 text-xs" disabled={addJudge.isPending}>
+            <Gavel className="mr-1 h-3.5 w-3.5" />
+            Add judge
+          </Button>
+        </form>
+
+        {ownJudges.length > 0 && (
+          <div className="max-h-40 space-y-1 overflow-y-auto">
+            {ownJudges.map(j => (
+              <div key={j.id} className="flex items-center justify-between gap-2 rounded-md bg-muted/30 px-2 py-1 text-xs">
+                <span className="min-w-0 truncate">
+                  <span className="font-medium">{j.name}</span>
+                  {(j.designation || j.courtLabel) && (
+                    <span className="text-muted-foreground"> — {[j.designation, j.courtLabel].filter(Boolean).join(', ')}</span>
+                  )}
+                </span>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-6 w-6"
+                  aria-label={`Remove ${j.name}`}
+                  onClick={() => deleteJudge.mutateAsync(j.id).catch(failed('Delete failed', 'Unable to remove the judge'))}
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex flex-wrap gap-2 border-t pt-3">
+          <Button size="sm" variant="outline" className="h-7 text-xs" onClick={() => setCleanup('court')}>
+            <Wand2 className="mr-1 h-3.5 w-3.5" />
+            Tidy up court names
+          </Button>
+          <Button size="sm" variant="outline" className="h-7 text-xs" onClick={() => setCleanup('judge')}>
+            <Wand2 className="mr-1 h-3.5 w-3.5" />
+            Tidy up judge names
+          </Button>
+        </div>
+      </CardContent>
+
+      <NameCleanupDialog field={cleanup} onClose={() => setCleanup(null)} />
+    </Card>
+  );
+};
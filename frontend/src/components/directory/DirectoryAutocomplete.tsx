@@ -0,0 +1,146 @@
+import React, { useMemo, useState } from 'react';
+import { Link2 } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { useCourts, useJudges } from '@/hooks/useLegalQueries';
+import { cn } from '@/lib/utils';
+
+const MAX_SUGGESTIONS = 8;
+
+interface DirectoryOption {
+  id: string;
+  label: string;
+  detail: string;
+  /** Text searched besides the label: other names, city, court */
+  keywords: string[];
+  /** Listed before the rest, e.g. judges of the court already picked */
+  preferred?: boolean;
+}
+
+/** The name typed, and the directory entry it was picked from (cleared as soon as it is edited). */
+export interface DirectoryValue {
+  name: string;
+  id?: string;
+}
+
+interface AutocompleteProps {
+  id?: string;
+  value: string;
+  linkedId?: string;
+  onChange: (value: DirectoryValue) => void;
+  placeholder?: string;
+  className?: string;
+  required?: boolean;
+}
+
+/** Options whose label or keywords contain every word typed. */
+function filterOptions(options: DirectoryOption[], query: string) {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  return options
+    .filter(option => {
+      const haystack = [option.label, option.detail, ...option.keywords].join(' ').toLowerCase();
+      return words.every(word => haystack.includes(word));
+    })
+    .sort((a, b) => Number(Boolean(b.preferred)) - Number(Boolean(a.preferred)))
+    .slice(0, MAX_SUGGESTIONS);
+}
+
+/** Free-text input suggesting directory entries; picking one links it. */
+const DirectoryInput: React.FC<AutocompleteProps & { options: DirectoryOption[] }> = ({
+  id, value, linkedId, onChange, placeholder, className, required, options
+}) => {
+  const [open, setOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+  const matches = useMemo(() => filterOptions(options, value), [options, value]);
+  const showList = open && matches.length > 0 && !(linkedId && matches.length === 1 && matches[0].id === linkedId);
+
+  const pick = (option: DirectoryOption) => {
+    onChange({ name: option.label, id: option.id });
+    setOpen(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!showList) return;
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setHighlighted(current => (current + step + matches.length) % matches.length);
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      pick(matches[Math.min(highlighted, matches.length - 1)]);
+    } else if (e.key === 'Escape') {
+      setOpen(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <Input
+        id={id}
+        value={value}
+        onChange={e => {
+          onChange({ name: e.target.value });
+          setHighlighted(0);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        onKeyDown={handleKeyDown}
+        placeholder={placeholder}
+        className={cn(linkedId && 'pr-8', className)}
+        required={required}
+        autoComplete="off"
+      />
+      {linkedId && (
+        <Link2
+          className="absolute right-2.5 top-1/2 h-3.5 w-3.5 -translate-y-1/2 text-primary"
+          aria-label="Linked to the court directory"
+        />
+      )}
+      {showList && (
+        <ul className="absolute z-50 mt-1 max-h-64 w-full overflow-y-auto rounded-md border bg-popover p-1 text-popover-foreground shadow-md">
+          {matches.map((option, index) => (
+            <li
+              key={option.id}
+              // Keep focus in the input so onBlur doesn't close the list before the click lands
+              onMouseDown={e => e.preventDefault()}
+              onClick={() => pick(option)}
+              onMouseEnter={() => setHighlighted(index)}
+              className={cn(
+                'cursor-pointer rounded-sm px-2 py-1.5 text-sm',
+                index === highlighted && 'bg-accent text-accent-foreground'
+              )}
+            >
+              <div className="truncate">{option.label}</div>
+              {option.detail && <div className="truncate text-[10px] text-muted-foreground">{option.detail}</div>}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+/** Court name input suggesting courts from the directory. */
+export const CourtAutocomplete: React.FC<AutocompleteProps> = props => {
+  const { data: courts = [] } = useCourts();
+  const options = useMemo<DirectoryOption[]>(() => courts.map(court => ({
+    id: court.id,
+    label: court.label,
+    detail: [court.complex, court.city, court.state].filter(Boolean).join(', '),
+    keywords: [court.name, ...court.aliases],
+  })), [courts]);
+  return <DirectoryInput {...props} options={options} />;
+};
+
+/** Judge name input suggesting judges from the directory, those of `courtId` first. */
+export const JudgeAutocomplete: React.FC<AutocompleteProps & { courtId?: string }> = ({ courtId, ...props }) => {
+  const { data: judges = [] } = useJudges();
+  const options = useMemo<DirectoryOption[]>(() => judges.map(judge => ({
+    id: judge.id,
+    label: judge.name,
+    detail: [judge.designation, judge.courtLabel].filter(Boolean).join(' · '),
+    keywords: judge.aliases,
+    preferred: Boolean(courtId) && judge.courtId === courtId,
+  })), [judges, courtId]);
+  return <DirectoryInput {...props} options={options} />;
+};
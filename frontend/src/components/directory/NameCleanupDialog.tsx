@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+import { Check, Loader2, Wand2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { useAddCourt, useAddJudge, useApplyNameCluster, useNameClusters } from '@/hooks/useLegalQueries';
+import type { DirectoryField } from '@/services/api/client';
+import type { NameCluster } from '@/services/api/schemas';
+import { CourtAutocomplete, JudgeAutocomplete, type DirectoryValue } from './DirectoryAutocomplete';
+
+interface NameCleanupDialogProps {
+  field: DirectoryField | null;
+  onClose: () => void;
+}
+
+/**
+ * Groups the spellings of court or judge names on cases and hearings not yet
+ * linked to the directory, and rewrites a group to one directory entry,
+ * adding the entry first when there is none.
+ */
+export const NameCleanupDialog: React.FC<NameCleanupDialogProps> = ({ field, onClose }) => {
+  const { toast } = useToast();
+  const { data: clusters = [], isLoading } = useNameClusters(field ?? 'court', field !== null);
+  const addCourt = useAddCourt();
+  const addJudge = useAddJudge();
+  const applyCluster = useApplyNameCluster();
+  // The entry chosen for each cluster, when it differs from the suggested match
+  const [targets, setTargets] = useState<Record<string, DirectoryValue>>({});
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+
+  const targetFor = (cluster: NameCluster): DirectoryValue =>
+    targets[cluster.key] ?? (cluster.match ? { name: cluster.match.label, id: cluster.match.id } : { name: cluster.values[0].value });
+
+  const handleApply = async (cluster: NameCluster) => {
+    if (!field) return;
+    const target = targetFor(cluster);
+    const name = target.name.trim();
+    if (!name) return;
+    setBusyKey(cluster.key);
+    try {
+      let targetId = target.id;
+      if (!targetId) {
+        const created = field === 'court'
+          ? await addCourt.mutateAsync({ name, level: 'other' })
+          : await addJudge.mutateAsync({ name });
+        targetId = created.id;
+      }
+      const result = await applyCluster.mutateAsync({ field, values: cluster.values.map(v => v.value), targetId });
+      toast({ title: 'Names updated', description: `${result.updated} record${result.updated === 1 ? '' : 's'} now read "${result.label}"` });
+      setTargets(prev => {
+        const next = { ...prev };
+        delete next[cluster.key];
+        return next;
+      });
+    } catch (error) {
+      toast({
+        title: 'Clean-up failed',
+        description: error instanceof Error ? error.message : 'Unable to update the names',
+        variant: 'destructive'
+      });
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const label = field ?? '';
+  const Picker = field === 'judge' ? JudgeAutocomplete : CourtAutocomplete;
+
+  return (
+    <Dialog open={field !== null} onOpenChange={open => { if (!open) onClose(); }}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Wand2 className="h-5 w-5 text-primary" />
+            Tidy up {label} names
+          </DialogTitle>
+          <DialogDescription>
+            Cases and hearings whose {label} was typed by hand, grouped by spelling. Pick the directory entry each group
+            means and apply it, or add the name to the directory.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : clusters.length === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">
+            Every {label} name is linked to the directory.
+          </p>
+        ) : (
+          <div className="max-h-[60vh] space-y-2 overflow-y-auto pr-1">
+            {clusters.map(cluster => {
+              const target = targetFor(cluster);
+              return (
+                <div key={cluster.key} className="grid gap-2 rounded-md border p-2 md:grid-cols-[1fr_1fr_auto] md:items-center">
+                  <div className="min-w-0 space-y-0.5 text-xs">
+                    {cluster.values.map(({ value, count }) => (
+                      <div key={value} className="flex items-center gap-1.5">
+                        <span className="truncate">{value}</span>
+                        <Badge variant="secondary" className="px-1.5 text-[10px]">{count}</Badge>
+                      </div>
+                    ))}
+                  </div>
+                  <Picker
+                    value={target.name}
+                    linkedId={target.id}
+                    onChange={value => setTargets(prev => ({ ...prev, [cluster.key]: value }))}
+                    className="h-8 text-xs"
+                  />
+                  <Button
+                    size="sm"
+                    variant={target.id ? 'default' : 'outline'}
+                    className="h-8 text-xs"
+                    disabled={busyKey !== null || !target.name.trim()}
+                    onClick={() => handleApply(cluster)}
+                  >
+                    {busyKey === cluster.key
+                      ? <Loader2 className="mr-1 h-3.5 w-3.5 animate-spin" />
+                      : <Check className="mr-1 h-3.5 w-3.5" />}
+                    {target.id ? `Apply to ${cluster.total}` : 'Add and apply'}
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
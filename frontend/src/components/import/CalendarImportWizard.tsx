@@ -0,0 +1,392 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { addMonths, format } from 'date-fns';
+import { AlertTriangle, CalendarPlus, CheckCircle, CopyCheck, Loader2, Repeat } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useApplyCalendarImport, useCases, usePreviewCalendarImport } from '@/hooks/useLegalQueries';
+import type { CalendarImportChoice } from '@/services/api/client';
+import type {
+  CalendarImportAction,
+  CalendarImportItem,
+  CalendarImportPreview,
+  CalendarImportResult,
+} from '@/services/api/schemas';
+
+const NO_CASE = '__none__';
+// The server reads JSON bodies up to 1 MB, and the file travels as text inside one
+const MAX_FILE_BYTES = 900 * 1024;
+
+const ACTION_LABELS: Record<CalendarImportAction, string> = {
+  hearing: 'Hearing',
+  event: 'Calendar event',
+  skip: 'Skip',
+};
+
+type Step = 'upload' | 'review' | 'done';
+type Unmatched = Exclude<CalendarImportAction, 'hearing'>;
+
+interface Choice {
+  action: CalendarImportAction;
+  caseId: string | null;
+  override: boolean;
+}
+
+interface CalendarImportWizardProps {
+  open: boolean;
+  /** The month on screen; the range starts with it */
+  month: Date;
+  onClose: () => void;
+}
+
+/** What an event becomes unless the user changes it: a hearing of its matched case, or the choice for unmatched events. */
+function initialChoice(item: CalendarImportItem, unmatched: Unmatched): Choice {
+  if (item.duplicate) return { action: 'skip', caseId: item.match?.caseId ?? null, override: false };
+  if (item.match) return { action: 'hearing', caseId: item.match.caseId, override: false };
+  return { action: unmatched, caseId: null, override: false };
+}
+
+const formatWhen = (item: CalendarImportItem) => (item.allDay
+  ? `${format(item.start, 'EEE d MMM yyyy')}, all day`
+  : `${format(item.start, 'EEE d MMM yyyy, HH:mm')}${item.end ? `–${format(item.end, 'HH:mm')}` : ''}`);
+
+/**
+ * Import hearings and appointments from an .ics file: choose the dates, check
+ * the case each event was matched to, then create hearings for the matched
+ * ones and skip or keep the rest as standalone calendar events.
+ */
+export const CalendarImportWizard: React.FC<CalendarImportWizardProps> = ({ open, month, onClose }) => {
+  const { toast } = useToast();
+  const { data: cases = [] } = useCases(open);
+  const preview = usePreviewCalendarImport();
+  const apply = useApplyCalendarImport();
+  const [step, setStep] = useState<Step>('upload');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [unmatched, setUnmatched] = useState<Unmatched>('skip');
+  const [file, setFile] = useState<{ name: string; text: string } | null>(null);
+  const [report, setReport] = useState<CalendarImportPreview | null>(null);
+  const [choices, setChoices] = useState<Record<string, Choice>>({});
+  const [overrideReason, setOverrideReason] = useState('');
+  const [result, setResult] = useState<CalendarImportResult | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      const first = new Date(month.getFullYear(), month.getMonth(), 1);
+      setStep('upload');
+      setFrom(format(first, 'yyyy-MM-dd'));
+      setTo(format(addMonths(first, 6), 'yyyy-MM-dd'));
+      setFile(null);
+      setReport(null);
+      setChoices({});
+      setOverrideReason('');
+      setResult(null);
+    }
+  }, [open, month]);
+
+  const openCases = useMemo(
+    () => cases.filter(c => !c.archivedAt).sort((a, b) => a.caseNumber.localeCompare(b.caseNumber)),
+    [cases]
+  );
+
+  const fail = (title: string, error: unknown) => {
+    toast({ title, description: error instanceof Error ? error.message : 'Please try again', variant: 'destructive' });
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const chosen = e.target.files?.[0];
+    e.target.value = '';
+    if (!chosen) return;
+    if (chosen.size > MAX_FILE_BYTES) {
+      fail('File too large', new Error('Export a shorter date range from your calendar app and try again'));
+      return;
+    }
+    setFile({ name: chosen.name, text: await chosen.text() });
+  };
+
+  const handleCheck = async () => {
+    if (!file) return;
+    try {
+      const checked = await preview.mutateAsync({ ics: file.text, from, to });
+      setReport(checked);
+      setChoices(Object.fromEntries(checked.items.map(item => [item.key, initialChoice(item, unmatched)])));
+      setStep('review');
+    } catch (error) {
+      fail('Could not read the file', error);
+    }
+  };
+
+  const setChoice = (key: string, change: Partial<Choice>) =>
+    setChoices(current => ({ ...current, [key]: { ...current[key], ...change } }));
+
+  const setCase = (item: CalendarImportItem, caseId: string) => {
+    if (caseId === NO_CASE) {
+      setChoice(item.key, { caseId: null, action: unmatched, override: false });
+    } else {
+      setChoice(item.key, { caseId, action: 'hearing', override: false });
+    }
+  };
+
+  // Applies to every event without a case
+  const changeUnmatched = (value: Unmatched) => {
+    setUnmatched(value);
+    setChoices(current => Object.fromEntries(Object.entries(current).map(([key, choice]) =>
+      [key, choice.caseId ? choice : { ...choice, action: value }])));
+  };
+
+  const items = report?.items ?? [];
+  const chosen = items.map(item => ({ item, choice: choices[item.key] })).filter(({ choice }) => choice && choice.action !== 'skip');
+  const hearingCount = chosen.filter(({ choice }) => choice.action === 'hearing').length;
+  const eventCount = chosen.length - hearingCount;
+  const needsReason = chosen.some(({ choice }) => choice.action === 'hearing' && choice.override);
+
+  const handleImport = async () => {
+    if (!report || !file) return;
+    const selections: CalendarImportChoice[] = chosen.map(({ item, choice }) => ({
+      key: item.key,
+      action: choice.action,
+      ...(choice.action === 'hearing' && { caseId: choice.caseId ?? undefined, override: choice.override }),
+    }));
+    try {
+      const applied = await apply.mutateAsync({
+        ics: file.text,
+        from: report.from,
+        to: report.to,
+        fileName: file.name,
+        items: selections,
+        ...(needsReason && { overrideReason: overrideReason.trim() }),
+      });
+      setResult(applied);
+      setStep('done');
+    } catch (error) {
+      fail('Import failed', error);
+    }
+  };
+
+  const matchedCount = items.filter(item => item.match).length;
+
+  return (
+    <Dialog open={open} onOpenChange={isOpen => { if (!isOpen) onClose(); }}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <CalendarPlus className="h-5 w-5 text-primary" />
+            Import calendar
+          </DialogTitle>
+          <DialogDescription>
+            {step === 'upload' && 'An .ics file exported from Outlook, Google Calendar or a cause-list service. Events are matched to cases by case number, or else by party name.'}
+            {step === 'review' && `${items.length} events from ${file?.name}; ${matchedCount} matched to a case. Check each one before importing.`}
+            {step === 'done' && 'Imported hearings appear on their cases; other events only on this calendar.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'upload' && (
+          <div className="space-y-3">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1.5">
+                <Label htmlFor="importFrom">Events from</Label>
+                <Input id="importFrom" type="date" value={from} onChange={e => setFrom(e.target.value)} />
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="importTo">To</Label>
+                <Input id="importTo" type="date" value={to} min={from} onChange={e => setTo(e.target.value)} />
+              </div>
+            </div>
+            <div className="space-y-1.5">
+              <Label>Events that match no case</Label>
+              <Select value={unmatched} onValueChange={value => setUnmatched(value as Unmatched)}>
+                <SelectTrigger className="h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="skip" className="text-xs">Skip them</SelectItem>
+                  <SelectItem value="event" className="text-xs">Add them as calendar events</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <Input type="file" accept=".ics,text/calendar" onChange={handleFile} className="text-xs" />
+          </div>
+        )}
+
+        {step === 'review' && report && (
+          <div className="space-y-3">
+            {report.warnings.length > 0 && (
+              <div className="space-y-0.5 rounded-md border border-yellow-500/40 bg-yellow-500/5 px-3 py-2 text-[11px]">
+                {report.warnings.map(warning => (
+                  <p key={warning} className="flex items-start gap-1.5">
+                    <AlertTriangle className="mt-0.5 h-3 w-3 shrink-0 text-yellow-600" />
+                    {warning}
+                  </p>
+                ))}
+              </div>
+            )}
+            <div className="flex items-center gap-2 text-xs">
+              <span className="font-medium">Events that match no case</span>
+              <Select value={unmatched} onValueChange={value => changeUnmatched(value as Unmatched)}>
+                <SelectTrigger className="h-7 w-52 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="skip" className="text-xs">Skip them</SelectItem>
+                  <SelectItem value="event" className="text-xs">Add as calendar events</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {items.length === 0 ? (
+              <p className="py-4 text-center text-xs text-muted-foreground">The file has no events in this date range.</p>
+            ) : (
+              <div className="max-h-96 space-y-1.5 overflow-y-auto pr-1">
+                {items.map(item => {
+                  const choice = choices[item.key];
+                  const blocking = choice.action === 'hearing' && choice.caseId === item.match?.caseId && item.blocking;
+                  // Candidates first, so a case the event names is easy to pick
+                  const candidateIds = new Set(item.candidates.map(c => c.caseId));
+                  return (
+                    <div key={item.key} className={`space-y-1.5 rounded-md border px-3 py-2 text-xs ${choice.action === 'skip' ? 'opacity-60' : ''}`}>
+                      <div className="flex items-start justify-between gap-2">
+                        <div className="min-w-0">
+                          <p className="truncate font-medium" title={item.summary}>{item.summary}</p>
+                          <p className="flex items-center gap-1 text-[10px] text-muted-foreground">
+                            {formatWhen(item)}
+                            {item.recurring && <Repeat className="h-2.5 w-2.5" aria-label="Recurring" />}
+                            {item.location && <span className="truncate">· {item.location}</span>}
+                          </p>
+                        </div>
+                        <div className="flex shrink-0 flex-wrap justify-end gap-1">
+                          {item.match && (
+                            <Badge variant="outline" className="h-4 px-1 text-[9px]">
+                              {item.match.by === 'case_number' ? 'Case number' : 'Party name'}
+                            </Badge>
+                          )}
+                          {!item.match && item.candidates.length > 1 && (
+                            <Badge variant="outline" className="h-4 px-1 text-[9px]">{item.candidates.length} possible cases</Badge>
+                          )}
+                          {item.duplicate && (
+                            <Badge variant="outline" className="h-4 gap-0.5 px-1 text-[9px]">
+                              <CopyCheck className="h-2.5 w-2.5" />
+                              {item.duplicate === 'hearing' ? 'Hearing that day exists' : 'Imported before'}
+                            </Badge>
+                          )}
+                        </div>
+                      </div>
+                      <div className="grid grid-cols-[1fr_9rem] gap-2">
+                        <Select value={choice.caseId ?? NO_CASE} onValueChange={value => setCase(item, value)}>
+                          <SelectTrigger className="h-7 text-xs">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={NO_CASE} className="text-xs">No case</SelectItem>
+                            {item.candidates.map(c => (
+                              <SelectItem key={c.caseId} value={c.caseId} className="text-xs">
+                                {c.caseNumber}{c.clientName ? ` — ${c.clientName}` : ''}
+                              </SelectItem>
+                            ))}
+                            {openCases.filter(c => !candidateIds.has(c.id)).map(c => (
+                              <SelectItem key={c.id} value={c.id} className="text-xs">
+                                {c.caseNumber}{c.clientName ? ` — ${c.clientName}` : ''}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Select value={choice.action} onValueChange={value => setChoice(item.key, { action: value as CalendarImportAction })}>
+                          <SelectTrigger className="h-7 text-xs">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {(Object.keys(ACTION_LABELS) as CalendarImportAction[]).map(action => (
+                              <SelectItem key={action} value={action} disabled={action === 'hearing' && !choice.caseId} className="text-xs">
+                                {ACTION_LABELS[action]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      {blocking && (
+                        <div className="flex items-center justify-between gap-2 text-[11px] text-destructive">
+                          <span className="flex items-center gap-1">
+                            <AlertTriangle className="h-3 w-3" />
+                            Clashes with {item.conflicts.filter(c => !c.listedTogether).map(c => c.caseNumber).join(', ')}
+                          </span>
+                          <label className="flex shrink-0 items-center gap-1.5 text-foreground">
+                            <Checkbox checked={choice.override} onCheckedChange={checked => setChoice(item.key, { override: checked === true })} />
+                            Schedule anyway
+                          </label>
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+            {needsReason && (
+              <div className="space-y-1.5">
+                <Label htmlFor="importOverrideReason">Reason for scheduling despite the clashes</Label>
+                <Input
+                  id="importOverrideReason"
+                  value={overrideReason}
+                  onChange={e => setOverrideReason(e.target.value)}
+                  placeholder="e.g. Junior counsel will attend the other matter"
+                  className="h-8 text-xs"
+                />
+              </div>
+            )}
+          </div>
+        )}
+
+        {step === 'done' && result && (
+          <div className="space-y-2">
+            <p className="flex items-center gap-2 py-2 text-sm">
+              <CheckCircle className="h-4 w-4 text-green-600" />
+              {result.hearings} hearings and {result.events} calendar events added.
+            </p>
+            {result.skipped.length > 0 && (
+              <div className="max-h-60 space-y-1 overflow-y-auto pr-1">
+                {result.skipped.map(skip => (
+                  <div key={skip.key} className="flex items-start gap-3 rounded-md border px-3 py-1.5 text-xs">
+                    <span className="min-w-0 flex-1 truncate font-medium" title={skip.summary}>{skip.summary}</span>
+                    <span className="text-destructive">{skip.reason}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {step === 'upload' && (
+            <Button size="sm" onClick={handleCheck} disabled={!file || !from || !to || preview.isPending}>
+              {preview.isPending && <Loader2 className="mr-1 h-3.5 w-3.5 animate-spin" />}
+              Match events
+            </Button>
+          )}
+          {step === 'review' && (
+            <>
+              <Button size="sm" variant="outline" onClick={() => setStep('upload')}>Back</Button>
+              <Button
+                size="sm"
+                onClick={handleImport}
+                disabled={chosen.length === 0 || (needsReason && !overrideReason.trim()) || apply.isPending}
+              >
+                {apply.isPending && <Loader2 className="mr-1 h-3.5 w-3.5 animate-spin" />}
+                Import {hearingCount} hearings{eventCount > 0 ? ` and ${eventCount} events` : ''}
+              </Button>
+            </>
+          )}
+          {step === 'done' && <Button size="sm" onClick={onClose}>Close</Button>}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
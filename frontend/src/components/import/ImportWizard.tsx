@@ -0,0 +1,259 @@
+import React, { useEffect, useState } from 'react';
+import { AlertTriangle, CheckCircle, CopyCheck, FileSpreadsheet, Loader2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useCommitImport, usePreviewImport, useUploadImport } from '@/hooks/useLegalQueries';
+import type { ImportBatch, ImportDraft, ImportEntity, ImportPreview } from '@/services/api/schemas';
+
+export const IMPORT_ENTITY_LABELS: Record<ImportEntity, string> = {
+  case: 'Cases',
+  client: 'Clients',
+  hearing: 'Hearings',
+};
+
+const DATE_FORMATS: ImportDraft['dateFormat'][] = ['DD/MM/YYYY', 'MM/DD/YYYY', 'YYYY-MM-DD'];
+const NOT_MAPPED = '__none__';
+
+type Step = 'upload' | 'map' | 'preview' | 'done';
+
+interface ImportWizardProps {
+  /** The record type being imported; null keeps the wizard closed */
+  entity: ImportEntity | null;
+  onClose: () => void;
+}
+
+/** Upload a CSV or Excel sheet, map its columns, review errors and duplicates, then import. */
+export const ImportWizard: React.FC<ImportWizardProps> = ({ entity, onClose }) => {
+  const { toast } = useToast();
+  const upload = useUploadImport();
+  const preview = usePreviewImport();
+  const commit = useCommitImport();
+  const [step, setStep] = useState<Step>('upload');
+  const [draft, setDraft] = useState<ImportDraft | null>(null);
+  const [mapping, setMapping] = useState<Record<string, number>>({});
+  const [dateFormat, setDateFormat] = useState<ImportDraft['dateFormat']>('DD/MM/YYYY');
+  const [report, setReport] = useState<ImportPreview | null>(null);
+  const [merge, setMerge] = useState<number[]>([]);
+  const [result, setResult] = useState<ImportBatch | null>(null);
+
+  useEffect(() => {
+    if (entity) {
+      setStep('upload');
+      setDraft(null);
+      setReport(null);
+      setMerge([]);
+      setResult(null);
+    }
+  }, [entity]);
+
+  const fail = (title: string, error: unknown) => {
+    toast({ title, description: error instanceof Error ? error.message : 'Please try again', variant: 'destructive' });
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !entity) return;
+    try {
+      const uploaded = await upload.mutateAsync({ entity, file });
+      setDraft(uploaded);
+      setMapping(uploaded.mapping);
+      setDateFormat(uploaded.dateFormat);
+      setStep('map');
+    } catch (error) {
+      fail('Could not read the file', error);
+    }
+  };
+
+  const setColumn = (field: string, column: string) => {
+    setMapping(current => {
+      const next = { ...current };
+      if (column === NOT_MAPPED) {
+        delete next[field];
+      } else {
+        // A column feeds one field; take it away from any other
+        Object.keys(next).forEach(key => { if (next[key] === Number(column)) delete next[key]; });
+        next[field] = Number(column);
+      }
+      return next;
+    });
+  };
+
+  const handleCheck = async () => {
+    if (!draft) return;
+    try {
+      const checked = await preview.mutateAsync({ id: draft.id, mapping, dateFormat });
+      setReport(checked);
+      setMerge([]);
+      setStep('preview');
+    } catch (error) {
+      fail('Check failed', error);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!draft) return;
+    try {
+      const applied = await commit.mutateAsync({ id: draft.id, mapping, dateFormat, merge });
+      setResult(applied);
+      setStep('done');
+    } catch (error) {
+      fail('Import failed', error);
+    }
+  };
+
+  const duplicateRows = report?.issues.filter(issue => issue.duplicate && issue.errors.length === 0).map(issue => issue.row) ?? [];
+  const toggleMerge = (row: number) =>
+    setMerge(current => (current.includes(row) ? current.filter(r => r !== row) : [...current, row]));
+  const missingRequired = draft?.fields.filter(field => field.required && mapping[field.key] === undefined) ?? [];
+  const importCount = (report?.valid ?? 0) + merge.length;
+  const label = entity ? IMPORT_ENTITY_LABELS[entity].toLowerCase() : 'records';
+
+  return (
+    <Dialog open={!!entity} onOpenChange={open => { if (!open) onClose(); }}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileSpreadsheet className="h-5 w-5 text-primary" />
+            Import {label}
+          </DialogTitle>
+          <DialogDescription>
+            {step === 'upload' && 'Choose a .csv or .xlsx file. The first row must hold the column names.'}
+            {step === 'map' && `${draft?.fileName}: ${draft?.rowCount} rows. Match each field to a column of the file.`}
+            {step === 'preview' && 'Rows with errors are skipped. Rows matching an existing record are skipped unless you merge them.'}
+            {step === 'done' && 'The import can be undone from Settings as a whole.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'upload' && (
+          <div className="flex items-center gap-3 py-4">
+            <Input type="file" accept=".csv,.xlsx" onChange={handleFile} disabled={upload.isPending} className="text-xs" />
+            {upload.isPending && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+          </div>
+        )}
+
+        {step === 'map' && draft && (
+          <div className="space-y-3">
+            <div className="max-h-80 space-y-1.5 overflow-y-auto pr-1">
+              {draft.fields.map(field => {
+                const column = mapping[field.key];
+                const sample = column === undefined ? '' : draft.sampleRows[0]?.[column];
+                return (
+                  <div key={field.key} className="grid grid-cols-[9rem_12rem_1fr] items-center gap-2 text-xs">
+                    <span className="font-medium">
+                      {field.label}
+                      {field.required && <span className="text-destructive"> *</span>}
+                    </span>
+                    <Select value={column === undefined ? NOT_MAPPED : String(column)} onValueChange={value => setColumn(field.key, value)}>
+                      <SelectTrigger className="h-7 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NOT_MAPPED} className="text-xs">Not imported</SelectItem>
+                        {draft.headers.map((header, index) => (
+                          <SelectItem key={index} value={String(index)} className="text-xs">
+                            {header || `Column ${index + 1}`}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <span className="truncate text-muted-foreground" title={sample}>{sample}</span>
+                  </div>
+                );
+              })}
+            </div>
+            <div className="flex items-center gap-2 text-xs">
+              <span className="font-medium">Dates in the file are</span>
+              <Select value={dateFormat} onValueChange={value => setDateFormat(value as ImportDraft['dateFormat'])}>
+                <SelectTrigger className="h-7 w-36 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DATE_FORMATS.map(format => (
+                    <SelectItem key={format} value={format} className="text-xs">{format}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        )}
+
+        {step === 'preview' && report && (
+          <div className="space-y-3">
+            <div className="flex flex-wrap gap-3 text-xs">
+              <span className="flex items-center gap-1"><CheckCircle className="h-3.5 w-3.5 text-green-600" />{report.valid} new</span>
+              <span className="flex items-center gap-1"><CopyCheck className="h-3.5 w-3.5 text-primary" />{report.duplicates} already exist</span>
+              <span className="flex items-center gap-1"><AlertTriangle className="h-3.5 w-3.5 text-destructive" />{report.invalid} with errors</span>
+              {duplicateRows.length > 0 && (
+                <label className="ml-auto flex items-center gap-1.5">
+                  <Checkbox
+                    checked={merge.length === duplicateRows.length}
+                    onCheckedChange={checked => setMerge(checked ? duplicateRows : [])}
+                  />
+                  Merge all duplicates
+                </label>
+              )}
+            </div>
+            {report.issues.length > 0 && (
+              <div className="max-h-72 space-y-1 overflow-y-auto pr-1">
+                {report.issues.map(issue => (
+                  <div key={issue.row} className="flex items-start gap-3 rounded-md border px-3 py-1.5 text-xs">
+                    <span className="w-12 shrink-0 font-medium">Row {issue.row}</span>
+                    {issue.errors.length > 0 ? (
+                      <span className="text-destructive">{issue.errors.join('; ')}</span>
+                    ) : (
+                      <label className="flex flex-1 items-center gap-1.5">
+                        <Checkbox checked={merge.includes(issue.row)} onCheckedChange={() => toggleMerge(issue.row)} />
+                        Merge into {issue.duplicate?.label}
+                      </label>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+            {report.issues.length < report.invalid + report.duplicates && (
+              <p className="text-[10px] text-muted-foreground">Only the first {report.issues.length} rows needing attention are shown.</p>
+            )}
+          </div>
+        )}
+
+        {step === 'done' && result && (
+          <p className="flex items-center gap-2 py-2 text-sm">
+            <CheckCircle className="h-4 w-4 text-green-600" />
+            {result.created} {label} added, {result.merged} merged, {result.skipped} rows skipped.
+          </p>
+        )}
+
+        <DialogFooter>
+          {step === 'map' && (
+            <Button size="sm" onClick={handleCheck} disabled={missingRequired.length > 0 || preview.isPending}>
+              {preview.isPending && <Loader2 className="mr-1 h-3.5 w-3.5 animate-spin" />}
+              Check rows
+            </Button>
+          )}
+          {step === 'preview' && (
+            <>
+              <Button size="sm" variant="outline" onClick={() => setStep('map')}>Back</Button>
+              <Button size="sm" onClick={handleImport} disabled={importCount === 0 || commit.isPending}>
+                {commit.isPending && <Loader2 className="mr-1 h-3.5 w-3.5 animate-spin" />}
+                Import {importCount} rows
+              </Button>
+            </>
+          )}
+          {step === 'done' && <Button size="sm" onClick={onClose}>Close</Button>}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
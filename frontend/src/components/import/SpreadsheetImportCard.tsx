@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { FileSpreadsheet, Undo2, Upload } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { useImports, useRevertImport } from '@/hooks/useLegalQueries';
+import { useFormatting } from '@/contexts/FormattingContext';
+import { IMPORT_ENTITIES, type ImportBatch, type ImportEntity } from '@/services/api/schemas';
+import { IMPORT_ENTITY_LABELS, ImportWizard } from './ImportWizard';
+
+/** Settings card to import cases, clients or hearings from a spreadsheet, with the history of imports. */
+export const SpreadsheetImportCard: React.FC = () => {
+  const { toast } = useToast();
+  const { formatDate } = useFormatting();
+  const { data: imports = [] } = useImports();
+  const revert = useRevertImport();
+  const [entity, setEntity] = useState<ImportEntity | null>(null);
+
+  const handleRevert = async (batch: ImportBatch) => {
+    const label = IMPORT_ENTITY_LABELS[batch.entity].toLowerCase();
+    if (!confirm(`Undo the import of ${batch.fileName}? ${batch.created} ${label} will be removed and ${batch.merged} merged records restored.`)) return;
+    try {
+      await revert.mutateAsync(batch.id);
+      toast({ title: 'Import undone', description: batch.fileName });
+    } catch (error) {
+      toast({
+        title: 'Undo failed',
+        description: error instanceof Error ? error.message : 'Unable to undo the import',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  return (
+    <Card className="shadow-card-custom">
+      <CardHeader className="p-3 pb-1.5">
+        <CardTitle className="flex items-center gap-1.5 text-sm">
+          <FileSpreadsheet className="h-4 w-4 text-primary" />
+          Spreadsheet Import
+        </CardTitle>
+        <CardDescription className="text-[10px]">
+          Bring in records from a CSV or Excel file. Existing cases are matched by case number and court, clients by email or phone
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3 px-3 pb-3 pt-0">
+        <div className="flex flex-wrap gap-2">
+          {IMPORT_ENTITIES.map(option => (
+            <Button key={option} size="sm" variant="outline" className="h-7 text-xs" onClick={() => setEntity(option)}>
+              <Upload className="mr-1 h-3.5 w-3.5" />
+              Import {IMPORT_ENTITY_LABELS[option].toLowerCase()}
+            </Button>
+          ))}
+        </div>
+
+        {imports.length > 0 && (
+          <div className="max-h-48 space-y-1 overflow-y-auto">
+            {imports.map(batch => (
+              <div key={batch.id} className="flex items-center justify-between gap-2 rounded-md bg-muted/30 px-2 py-1 text-xs">
+                <span className="min-w-0 truncate">
+                  <span className="font-medium">{batch.fileName}</span>
+                  <span className="text-muted-foreground">
+                    {' '}— {IMPORT_ENTITY_LABELS[batch.entity]}, {formatDate(batch.appliedAt ?? batch.createdAt)}: {batch.created} added, {batch.merged} merged
+                  </span>
+                </span>
+                {batch.status === 'applied' ? (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-6 px-2 text-xs"
+                    disabled={revert.isPending}
+                    onClick={() => handleRevert(batch)}
+                  >
+                    <Undo2 className="mr-1 h-3.5 w-3.5" />
+                    Undo
+                  </Button>
+                ) : (
+                  <Badge variant="secondary" className="text-[10px] capitalize">{batch.status}</Badge>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <ImportWizard entity={entity} onClose={() => setEntity(null)} />
+    </Card>
+  );
+};
@@ -0,0 +1,110 @@
+import { useEffect, useMemo, useState, useSyncExternalStore } from 'react';
+import { Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { clearApiTelemetry, getApiTelemetry, subscribeApiTelemetry, type ApiCallOutcome } from '@/lib/apiTelemetry';
+
+const OUTCOME_VARIANT: Record<ApiCallOutcome, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  ok: 'secondary',
+  deduped: 'outline',
+  aborted: 'outline',
+  'http-error': 'destructive',
+  'network-error': 'destructive',
+  timeout: 'destructive',
+};
+
+/** Strip the API host so rows stay readable. */
+const displayPath = (url: string) => {
+  try {
+    const { pathname, search } = new URL(url, window.location.origin);
+    return pathname + search;
+  } catch {
+    return url;
+  }
+};
+
+/**
+ * Recent API requests (latency, status, request id, retries). Toggled with
+ * Ctrl/Cmd + Alt + D; meant for support sessions and local debugging.
+ */
+export const ApiDebugPanel = () => {
+  const [open, setOpen] = useState(false);
+  const events = useSyncExternalStore(subscribeApiTelemetry, getApiTelemetry);
+  const rows = useMemo(() => [...events].reverse(), [events]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.altKey && e.code === 'KeyD') {
+        e.preventDefault();
+        setOpen(prev => !prev);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const failures = events.filter(e => e.outcome === 'http-error' || e.outcome === 'network-error' || e.outcome === 'timeout').length;
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <SheetContent side="right" className="w-full sm:max-w-3xl p-0 flex flex-col">
+        <SheetHeader className="border-b px-4 py-3">
+          <div className="flex items-center justify-between pr-6">
+            <div>
+              <SheetTitle>API requests</SheetTitle>
+              <SheetDescription>
+                Last {events.length} request{events.length === 1 ? '' : 's'}{failures > 0 && ` · ${failures} failed`}
+              </SheetDescription>
+            </div>
+            <Button variant="outline" size="sm" className="h-7 text-xs" onClick={clearApiTelemetry} disabled={events.length === 0}>
+              <Trash2 className="mr-1 h-3 w-3" />
+              Clear
+            </Button>
+          </div>
+        </SheetHeader>
+        <ScrollArea className="flex-1">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-20">Time</TableHead>
+                <TableHead>Request</TableHead>
+                <TableHead className="w-24">Result</TableHead>
+                <TableHead className="w-16 text-right">ms</TableHead>
+                <TableHead className="w-40">Request ID</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map(event => (
+                <TableRow key={event.id} className="text-xs">
+                  <TableCell className="text-muted-foreground">{new Date(event.at).toLocaleTimeString()}</TableCell>
+                  <TableCell className="font-mono break-all">
+                    <span className="font-semibold">{event.method}</span> {displayPath(event.url)}
+                    {event.attempt > 1 && <span className="ml-1 text-muted-foreground">(attempt {event.attempt})</span>}
+                    {event.error && <div className="text-destructive">{event.error}</div>}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={OUTCOME_VARIANT[event.outcome]} className="text-[10px]">
+                      {event.status ?? event.outcome}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-right tabular-nums">{event.durationMs}</TableCell>
+                  <TableCell className="font-mono text-[10px] text-muted-foreground break-all">{event.requestId ?? '—'}</TableCell>
+                </TableRow>
+              ))}
+              {rows.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={5} className="py-8 text-center text-sm text-muted-foreground">
+                    No requests recorded yet
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+};
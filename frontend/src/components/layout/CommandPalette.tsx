@@ -0,0 +1,392 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { defaultFilter } from 'cmdk';
+import {
+  BookOpen,
+  CalendarClock,
+  CalendarPlus,
+  FilePen,
+  FileText,
+  LayoutGrid,
+  MessageSquare,
+  Search,
+  Timer,
+  User,
+  type LucideIcon,
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandShortcut,
+} from '@/components/ui/command';
+import { DialogDescription, DialogTitle } from '@/components/ui/dialog';
+import { useLegalData, type Case } from '@/contexts/LegalDataContext';
+import { useFormatting } from '@/contexts/FormattingContext';
+import { useDebounce } from '@/hooks/useDebounce';
+import { legalKeys, useCases, useClients } from '@/hooks/useLegalQueries';
+import { ALL_TEMPLATES } from '@/modules/legalTemplates/templates';
+import { notesApi, templatesApi } from '@/services/api/client';
+import { STATIC_ACTS } from '@/services/staticLegalData';
+import { navigation } from './Sidebar';
+
+type GroupId = 'actions' | 'cases' | 'clients' | 'hearings' | 'templates' | 'drafts' | 'notes' | 'sections' | 'pages';
+
+const GROUP_HEADINGS: Record<GroupId, string> = {
+  actions: 'Actions',
+  cases: 'Cases',
+  clients: 'Clients',
+  hearings: 'Upcoming hearings',
+  templates: 'Templates',
+  drafts: 'Template drafts',
+  notes: 'Notes',
+  sections: 'Legal sections',
+  pages: 'Go to',
+};
+
+interface PaletteItem {
+  /** Unique cmdk value, e.g. `case:<id>`; also the key in the recent list */
+  key: string;
+  group: GroupId;
+  label: string;
+  hint?: string;
+  /** Text the query is matched against */
+  keywords: string[];
+  icon: LucideIcon;
+  updatedAt?: Date;
+  /** Already matched on the server; shown regardless of the local filter */
+  prefiltered?: boolean;
+  run: () => void;
+}
+
+/** Sub-lists reached from an action that needs a case first */
+type PickCasePage = 'hearing-for-case' | 'time-for-case';
+
+const PICK_CASE_TITLES: Record<PickCasePage, string> = {
+  'hearing-for-case': 'New hearing for case…',
+  'time-for-case': 'Log time to…',
+};
+
+// ── Recently used entries (ranking + the empty-query view) ──────────────────
+
+const RECENT_KEY = 'juriq:command-palette-recent';
+const MAX_RECENT = 20;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type RecentEntries = Record<string, number>;
+
+function readRecent(): RecentEntries {
+  try {
+    return JSON.parse(localStorage.getItem(RECENT_KEY) || '{}') as RecentEntries;
+  } catch {
+    return {};
+  }
+}
+
+function rememberRecent(key: string) {
+  const entries = Object.entries({ ...readRecent(), [key]: Date.now() })
+    .sort(([, a], [, b]) => b - a)
+    .slice(0, MAX_RECENT);
+  try {
+    localStorage.setItem(RECENT_KEY, JSON.stringify(Object.fromEntries(entries)));
+  } catch {
+    // Ranking just loses its recency boost
+  }
+}
+
+/**
+ * Multiplier on the fuzzy score: entries picked from the palette recently and
+ * records edited in the last month rank above equally good text matches.
+ */
+function recencyBoost(lastUsedAt: number | undefined, updatedAt: Date | undefined) {
+  const now = Date.now();
+  let boost = 1;
+  if (lastUsedAt) boost += 0.6 * Math.max(0, 1 - (now - lastUsedAt) / (14 * DAY_MS));
+  if (updatedAt) boost += 0.25 * Math.max(0, 1 - (now - updatedAt.getTime()) / (30 * DAY_MS));
+  return boost;
+}
+
+const startOfToday = () => {
+  const d = new Date();
+  d.setHours(0, 0, 0, 0);
+  return d;
+};
+
+/**
+ * Global Ctrl/Cmd + K palette: fuzzy search over cases, clients, upcoming
+ * hearings, templates and drafts, notes and legal sections, plus quick actions.
+ * Navigation is fully keyboard driven (arrows, Enter, Backspace to go back).
+ */
+export const CommandPalette = () => {
+  const navigate = useNavigate();
+  const { hearings } = useLegalData();
+  const { formatDateShort } = useFormatting();
+  const [open, setOpen] = useState(false);
+  const { data: cases = [] } = useCases(open);
+  const { data: clients = [] } = useClients(open);
+  const [search, setSearch] = useState('');
+  const [page, setPage] = useState<PickCasePage | null>(null);
+  const [recent, setRecent] = useState<RecentEntries>({});
+  const debouncedSearch = useDebounce(search.trim(), 250);
+  const query = search.trim();
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && !e.altKey && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setOpen(prev => !prev);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  useEffect(() => {
+    if (open) {
+      setRecent(readRecent());
+    } else {
+      setSearch('');
+      setPage(null);
+    }
+  }, [open]);
+
+  const { data: drafts = [] } = useQuery({
+    queryKey: legalKeys.templateDocuments(),
+    queryFn: ({ signal }) => templatesApi.list(signal),
+    enabled: open,
+    staleTime: 60 * 1000,
+  });
+
+  const { data: notes = [], isFetching: searchingNotes } = useQuery({
+    queryKey: legalKeys.noteSearch(debouncedSearch),
+    queryFn: ({ signal }) => notesApi.search(debouncedSearch, signal),
+    enabled: open && page === null && debouncedSearch.length >= 2,
+    staleTime: 30 * 1000,
+  });
+
+  const go = useCallback((path: string) => {
+    setOpen(false);
+    navigate(path);
+  }, [navigate]);
+
+  const caseItem = useCallback((c: Case, run: () => void): PaletteItem => ({
+    key: `case:${c.id}`,
+    group: 'cases',
+    label: c.caseNumber,
+    hint: [c.clientName, c.opposingParty && `vs ${c.opposingParty}`, c.courtName].filter(Boolean).join(' · '),
+    keywords: [c.caseNumber, c.clientName, c.opposingParty, c.courtName, c.judgeName ?? ''],
+    icon: FileText,
+    updatedAt: c.updatedAt,
+    run,
+  }), []);
+
+  const items = useMemo<PaletteItem[]>(() => {
+    if (page) {
+      return cases.map(c => caseItem(c, () => go(page === 'hearing-for-case'
+        ? `/dashboard/calendar?scheduleCase=${c.id}`
+        : `/dashboard/billing?logTime=${c.id}`)));
+    }
+
+    const today = startOfToday();
+    const list: PaletteItem[] = [
+      {
+        key: 'action:hearing-for-case',
+        group: 'actions',
+        label: PICK_CASE_TITLES['hearing-for-case'],
+        keywords: ['new hearing', 'schedule hearing', 'add hearing'],
+        icon: CalendarPlus,
+        run: () => { setPage('hearing-for-case'); setSearch(''); },
+      },
+      {
+        key: 'action:time-for-case',
+        group: 'actions',
+        label: PICK_CASE_TITLES['time-for-case'],
+        keywords: ['log time', 'time entry', 'billable hours'],
+        icon: Timer,
+        run: () => { setPage('time-for-case'); setSearch(''); },
+      },
+      ...cases.map(c => caseItem(c, () => go(`/dashboard/cases?open=${c.id}`))),
+      ...clients.map(client => ({
+        key: `client:${client.id}`,
+        group: 'clients' as const,
+        label: client.name,
+        hint: [client.email, client.phone].filter(Boolean).join(' · '),
+        keywords: [client.name, client.email, client.phone],
+        icon: User,
+        updatedAt: client.updatedAt,
+        run: () => go(`/dashboard/clients?q=${encodeURIComponent(client.name)}`),
+      })),
+      ...hearings
+        .filter(h => h.status === 'scheduled' && new Date(h.hearingDate) >= today)
+        .map(h => {
+          const parent = cases.find(c => c.id === h.caseId);
+          const date = new Date(h.hearingDate);
+          return {
+            key: `hearing:${h.id}`,
+            group: 'hearings' as const,
+            label: `${parent?.caseNumber ?? 'Hearing'} — ${formatDateShort(date)}${h.hearingTime ? ` ${h.hearingTime}` : ''}`,
+            hint: [parent?.clientName, h.courtName, h.purpose].filter(Boolean).join(' · '),
+            keywords: [parent?.caseNumber ?? '', parent?.clientName ?? '', h.courtName, h.judgeName ?? '', h.purpose ?? ''],
+            icon: CalendarClock,
+            updatedAt: date,
+            run: () => go(`/dashboard/calendar?date=${date.toISOString().slice(0, 10)}`),
+          };
+        }),
+      ...ALL_TEMPLATES.map(t => ({
+        key: `template:${t.id}`,
+        group: 'templates' as const,
+        label: `Open template: ${t.name}`,
+        hint: t.category,
+        keywords: [t.name, t.category, 'template'],
+        icon: LayoutGrid,
+        run: () => go(`/dashboard/templates/new?templateId=${encodeURIComponent(t.id)}`),
+      })),
+      ...drafts.map(d => ({
+        key: `draft:${d.id}`,
+        group: 'drafts' as const,
+        label: d.templateName || 'Untitled draft',
+        hint: d.status === 'completed' ? 'Completed' : 'Draft',
+        keywords: [d.templateName ?? '', 'draft'],
+        icon: FilePen,
+        updatedAt: d.updatedAt,
+        run: () => go(`/dashboard/templates/${d.id}`),
+      })),
+      ...notes.map(n => ({
+        key: `note:${n.id}`,
+        group: 'notes' as const,
+        label: n.title || n.excerpt.slice(0, 60) || 'Note',
+        hint: [n.caseNumber, n.title ? n.excerpt : ''].filter(Boolean).join(' · '),
+        keywords: [n.title, n.excerpt, n.caseNumber],
+        icon: MessageSquare,
+        updatedAt: n.updatedAt,
+        prefiltered: true,
+        run: () => go(`/dashboard/notes?caseId=${n.caseId}`),
+      })),
+      ...navigation.map(nav => ({
+        key: `page:${nav.href}`,
+        group: 'pages' as const,
+        label: nav.name,
+        keywords: [nav.name],
+        icon: nav.icon,
+        run: () => go(nav.href),
+      })),
+    ];
+
+    // The section list is long; only offer it once the user is searching
+    if (query.length >= 2) {
+      list.push(...STATIC_ACTS.map(act => ({
+        key: `section:${act.id}`,
+        group: 'sections' as const,
+        label: act.title,
+        hint: act.subtitle,
+        keywords: [act.title, act.subtitle ?? '', ...(act.keywords ?? [])],
+        icon: BookOpen,
+        run: () => go(`/dashboard/legal-research?q=${encodeURIComponent(act.title)}`),
+      })));
+    }
+    return list;
+  }, [page, cases, clients, hearings, drafts, notes, query, caseItem, go, formatDateShort]);
+
+  const itemsByKey = useMemo(() => new Map(items.map(item => [item.key, item])), [items]);
+
+  const filter = useCallback((value: string, term: string, keywords?: string[]) => {
+    const item = itemsByKey.get(value);
+    if (item?.prefiltered) return 1;
+    const score = defaultFilter((keywords ?? []).join(' '), term);
+    return score > 0 ? score * recencyBoost(recent[value], item?.updatedAt) : 0;
+  }, [itemsByKey, recent]);
+
+  const select = (item: PaletteItem) => {
+    if (item.group !== 'actions') {
+      rememberRecent(item.key);
+    }
+    item.run();
+  };
+
+  // With no query: recent picks first, then actions and pages
+  const recentItems = useMemo(() => Object.entries(recent)
+    .sort(([, a], [, b]) => b - a)
+    .map(([key]) => itemsByKey.get(key))
+    .filter((item): item is PaletteItem => !!item)
+    .slice(0, 6), [recent, itemsByKey]);
+
+  const showAll = query.length > 0 || page !== null;
+  const grouped = (Object.keys(GROUP_HEADINGS) as GroupId[])
+    .map(group => ({
+      group,
+      items: items.filter(item => item.group === group && (showAll || group === 'actions' || group === 'pages')),
+    }))
+    .filter(({ items: groupItems }) => groupItems.length > 0);
+
+  const renderItem = (item: PaletteItem, keyPrefix = '') => (
+    <CommandItem
+      key={keyPrefix + item.key}
+      value={keyPrefix + item.key}
+      keywords={item.keywords}
+      forceMount={item.prefiltered}
+      onSelect={() => select(item)}
+    >
+      <item.icon className="mr-2 h-4 w-4 shrink-0 text-muted-foreground" />
+      <div className="flex min-w-0 flex-col">
+        <span className="truncate">{item.label}</span>
+        {item.hint && <span className="truncate text-xs text-muted-foreground">{item.hint}</span>}
+      </div>
+    </CommandItem>
+  );
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => setOpen(true)}
+        className="h-7 gap-2 px-2 text-xs text-muted-foreground"
+        aria-label="Open command palette"
+      >
+        <Search className="h-3.5 w-3.5" />
+        <span className="hidden md:inline">Search…</span>
+        <kbd className="hidden md:inline rounded border bg-muted px-1 font-mono text-[10px]">⌘K</kbd>
+      </Button>
+
+      <CommandDialog open={open} onOpenChange={setOpen} commandProps={{ filter, loop: true }}>
+        <DialogTitle className="sr-only">Command palette</DialogTitle>
+        <DialogDescription className="sr-only">Search cases, clients, hearings, templates, notes and legal sections</DialogDescription>
+        <CommandInput
+          value={search}
+          onValueChange={setSearch}
+          placeholder={page ? `${PICK_CASE_TITLES[page]} search cases` : 'Search cases, clients, hearings, templates, notes…'}
+          onKeyDown={e => {
+            if (e.key === 'Backspace' && !search && page) {
+              e.preventDefault();
+              setPage(null);
+            }
+          }}
+        />
+        <CommandList>
+          <CommandEmpty>{searchingNotes ? 'Searching…' : 'No results found.'}</CommandEmpty>
+          {!showAll && recentItems.length > 0 && (
+            <CommandGroup heading="Recent">
+              {recentItems.map(item => renderItem(item, 'recent:'))}
+            </CommandGroup>
+          )}
+          {grouped.map(({ group, items: groupItems }) => (
+            <CommandGroup key={group} heading={page ? PICK_CASE_TITLES[page] : GROUP_HEADINGS[group]}>
+              {groupItems.map(item => renderItem(item))}
+            </CommandGroup>
+          ))}
+        </CommandList>
+        <div className="flex items-center justify-end gap-3 border-t px-3 py-1.5 text-[10px] text-muted-foreground">
+          <span>↑↓ navigate</span>
+          <span>↵ open</span>
+          {page && <span>⌫ back</span>}
+          <CommandShortcut>Esc to close</CommandShortcut>
+        </div>
+      </CommandDialog>
+    </>
+  );
+};
@@ -2,6 +2,7 @@ import { Outlet, Navigate } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import { Sidebar } from './Sidebar';
 import { Header } from './Header';
+import { ApiDebugPanel } from './ApiDebugPanel';
 import { SidebarProvider } from '@/components/ui/sidebar';
 import { useState, useEffect } from 'react';
 import OnboardingOverlay from '@/components/onboarding/OnboardingOverlay';
@@ -71,6 +72,8 @@ const DashboardLayout = () => {
           </main>
         </div>
 
+        <ApiDebugPanel />
+
         {/* Onboarding Overlay - appears when onboarding not completed */}
         {user && user.onboardingCompleted === false && (
           <OnboardingOverlay />
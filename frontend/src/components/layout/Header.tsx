@@ -15,6 +15,8 @@ import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 import { useLegalData } from '@/contexts/LegalDataContext';
 import { useNavigate } from 'react-router-dom';
 import { NotificationDropdown } from './NotificationDropdown';
+import { OfflineIndicator } from './OfflineIndicator';
+import { CommandPalette } from './CommandPalette';
 import { useState, useEffect } from 'react';
 
 export const Header = () => {
@@ -64,6 +66,12 @@ export const Header = () => {
       </div>
 
       <div className="flex items-center gap-1.5 md:gap-3">
+        {/* Global search (Ctrl/Cmd + K) */}
+        <CommandPalette />
+
+        {/* Offline / pending sync status */}
+        <OfflineIndicator />
+
         {/* Dark Mode Toggle */}
         <ThemeToggle />
 
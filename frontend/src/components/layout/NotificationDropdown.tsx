@@ -9,6 +9,7 @@ import { Label } from '@/components/ui/label';
 import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
+import { useCases } from '@/hooks/useLegalQueries';
 import { useFormatting } from '@/contexts/FormattingContext';
 import { apiFetch } from '@/lib/api';
 import JuriqLoader from '@/components/ui/JuriqLoader';
@@ -33,8 +34,9 @@ interface NotificationDropdownProps {
 }
 
 export const NotificationDropdown = ({ unreadCount }: NotificationDropdownProps) => {
-    const { cases, alerts, addAlert, markAlertAsRead, deleteAlert } = useLegalData();
+    const { alerts, addAlert, markAlertAsRead, deleteAlert } = useLegalData();
     const [isOpen, setIsOpen] = useState(false);
+    const { data: cases = [] } = useCases(isOpen);
     const [isExpanded, setIsExpanded] = useState(false);
     const [showCreateAlert, setShowCreateAlert] = useState(false);
     const [isActionBusy, setIsActionBusy] = useState(false);
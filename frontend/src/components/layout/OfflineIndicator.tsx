@@ -0,0 +1,128 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { AlertTriangle, CloudOff, RefreshCw, Trash2, WifiOff } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { ConflictDialog } from '@/components/ConflictDialog';
+import { useOffline } from '@/contexts/OfflineContext';
+import type { OutboxEntry } from '@/lib/offline/outbox';
+
+const STATUS_LABEL: Record<OutboxEntry['status'], string> = {
+  pending: 'Waiting to sync',
+  conflict: 'Scheduling conflict',
+  failed: 'Rejected by server',
+};
+
+export const OfflineIndicator = () => {
+  const { isOnline, entries, pendingCount, isSyncing, syncNow, overrideAndSync, retry, discard } = useOffline();
+  const navigate = useNavigate();
+  const [conflictEntry, setConflictEntry] = useState<OutboxEntry | null>(null);
+
+  if (isOnline && pendingCount === 0) return null;
+
+  const needsAttention = entries.some(e => e.status !== 'pending');
+
+  return (
+    <>
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button
+            variant="ghost"
+            size="sm"
+            className={`h-7 gap-1.5 px-2 text-xs ${needsAttention ? 'text-destructive' : 'text-muted-foreground'}`}
+          >
+            {isOnline ? <CloudOff className="h-3.5 w-3.5" /> : <WifiOff className="h-3.5 w-3.5" />}
+            <span className="hidden sm:inline">{isOnline ? 'Pending' : 'Offline'}</span>
+            {pendingCount > 0 && (
+              <Badge variant={needsAttention ? 'destructive' : 'secondary'} className="h-4 px-1.5 text-[10px]">
+                {pendingCount}
+              </Badge>
+            )}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="end" className="w-80 p-0">
+          <div className="flex items-center justify-between border-b px-3 py-2">
+            <div>
+              <p className="text-sm font-semibold">{isOnline ? 'Online' : 'You are offline'}</p>
+              <p className="text-xs text-muted-foreground">
+                {pendingCount === 0
+                  ? 'Showing the last synced data'
+                  : `${pendingCount} pending change${pendingCount > 1 ? 's' : ''}`}
+              </p>
+            </div>
+            {isOnline && pendingCount > 0 && (
+              <Button variant="outline" size="sm" className="h-7 text-xs" onClick={syncNow} disabled={isSyncing}>
+                <RefreshCw className={`mr-1 h-3 w-3 ${isSyncing ? 'animate-spin' : ''}`} />
+                Sync now
+              </Button>
+            )}
+          </div>
+
+          {entries.length > 0 && (
+            <ul className="max-h-72 divide-y overflow-y-auto">
+              {entries.map(entry => (
+                <li key={entry.id} className="px-3 py-2 text-xs">
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="truncate font-medium text-foreground">{entry.label}</p>
+                      <p className={entry.status === 'pending' ? 'text-muted-foreground' : 'text-destructive'}>
+                        {STATUS_LABEL[entry.status]}
+                        {entry.status === 'failed' && entry.error ? ` — ${entry.error}` : ''}
+                      </p>
+                    </div>
+                    <div className="flex shrink-0 gap-1">
+                      {entry.status === 'conflict' && (
+                        <Button variant="outline" size="sm" className="h-6 px-2 text-[11px]" onClick={() => setConflictEntry(entry)}>
+                          <AlertTriangle className="mr-1 h-3 w-3" />
+                          Resolve
+                        </Button>
+                      )}
+                      {entry.status === 'failed' && (
+                        <Button variant="outline" size="sm" className="h-6 px-2 text-[11px]" onClick={() => retry(entry.id!)}>
+                          Retry
+                        </Button>
+                      )}
+                      {entry.status !== 'pending' && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-6 w-6 p-0 text-muted-foreground hover:text-destructive"
+                          title="Discard change"
+                          onClick={() => discard(entry.id!)}
+                        >
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </PopoverContent>
+      </Popover>
+
+      {conflictEntry && (
+        <ConflictDialog
+          isOpen={!!conflictEntry}
+          onClose={() => setConflictEntry(null)}
+          conflicts={conflictEntry.conflicts || []}
+          onCancel={() => {
+            discard(conflictEntry.id!);
+            setConflictEntry(null);
+          }}
+          onEditTime={() => {
+            // Leave the entry parked; the user reschedules from the calendar and discards it
+            setConflictEntry(null);
+            navigate('/dashboard/calendar');
+          }}
+          onOverride={reason => {
+            overrideAndSync(conflictEntry.id!, reason);
+            setConflictEntry(null);
+          }}
+        />
+      )}
+    </>
+  );
+};
@@ -14,7 +14,8 @@ import {
   Newspaper,
   ChevronsLeftRight,
   MessageSquare,
-  LayoutGrid
+  LayoutGrid,
+  Trash2
 } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 import { BrandLogo } from '@/components/ui/BrandLogo';
@@ -33,7 +34,8 @@ import {
   useSidebar,
 } from '@/components/ui/sidebar';
 
-const navigation = [
+/** Dashboard sections, also offered as "Go to" entries in the command palette. */
+export const navigation = [
   { name: 'Dashboard', href: '/dashboard', icon: LayoutDashboard },
   { name: 'Cases', href: '/dashboard/cases', icon: FileText },
   { name: 'Calendar', href: '/dashboard/calendar', icon: Calendar },
@@ -43,6 +45,7 @@ const navigation = [
   { name: 'Documents', href: '/dashboard/documents', icon: FolderOpen },
   { name: 'Legal Templates', href: '/dashboard/templates', icon: LayoutGrid },
   { name: 'Notes', href: '/dashboard/notes', icon: MessageSquare },
+  { name: 'Trash', href: '/dashboard/trash', icon: Trash2 },
   { name: 'Settings', href: '/dashboard/settings', icon: Settings },
 ];
 
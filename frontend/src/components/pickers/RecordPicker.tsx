@@ -0,0 +1,190 @@
+import React, { useMemo, useState } from 'react';
+import { Check, ChevronsUpDown, Loader2, Plus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import type { Case, Client } from '@/contexts/LegalDataContext';
+import { useDebounce } from '@/hooks/useDebounce';
+import { useInfiniteScroll } from '@/hooks/useInfiniteScroll';
+import { useCase, useCasePages, useClient, useClientPages } from '@/hooks/useLegalQueries';
+import { cn } from '@/lib/utils';
+
+// cmdk value of the "none" entry; record ids are ObjectIds, so it cannot clash
+const NONE = '__none__';
+
+interface PickerProps<T> {
+  id?: string;
+  /** Id of the picked record, or '' for none */
+  value: string;
+  onChange: (id: string, record?: T) => void;
+  placeholder?: string;
+  /** When set, the list starts with an entry of this label that clears the value */
+  noneLabel?: string;
+  className?: string;
+  disabled?: boolean;
+}
+
+interface SearchPickerProps<T extends { id: string }> extends PickerProps<T> {
+  /** Shown on the button for the picked record */
+  selectedLabel: string | undefined;
+  searchPlaceholder: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  search: string;
+  onSearchChange: (search: string) => void;
+  items: T[];
+  isLoading: boolean;
+  hasNextPage: boolean;
+  isFetchingNextPage: boolean;
+  fetchNextPage: () => unknown;
+  renderItem: (item: T) => React.ReactNode;
+  /** Extra entry after the results, e.g. to add a record that is not there */
+  footer?: { label: string; onSelect: () => void };
+}
+
+/** Button opening a searchable list of records loaded page by page from the server. */
+function SearchPicker<T extends { id: string }>({
+  id, value, onChange, placeholder = 'Select…', noneLabel, className, disabled, selectedLabel, searchPlaceholder,
+  open, onOpenChange, search, onSearchChange, items, isLoading, hasNextPage, isFetchingNextPage, fetchNextPage, renderItem, footer,
+}: SearchPickerProps<T>) {
+  const loadMoreRef = useInfiniteScroll({ hasNextPage, isFetchingNextPage, fetchNextPage, rootMargin: '0px' });
+
+  const pick = (id: string, record?: T) => {
+    onChange(id, record);
+    onOpenChange(false);
+  };
+
+  return (
+    // Modal so the list scrolls when the picker sits in a dialog
+    <Popover open={open} onOpenChange={onOpenChange} modal>
+      <PopoverTrigger asChild>
+        <Button
+          id={id}
+          type="button"
+          variant="outline"
+          role="combobox"
+          aria-expanded={open}
+          disabled={disabled}
+          className={cn('w-full justify-between font-normal', !value && 'text-muted-foreground', className)}
+        >
+          <span className="truncate">{(value && selectedLabel) || (!value && noneLabel) || placeholder}</span>
+          <ChevronsUpDown className="ml-2 h-3.5 w-3.5 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[--radix-popover-trigger-width] min-w-64 p-0" align="start">
+        {/* Results are already matched on the server */}
+        <Command shouldFilter={false}>
+          <CommandInput value={search} onValueChange={onSearchChange} placeholder={searchPlaceholder} className="h-9 text-xs" />
+          <CommandList>
+            {!isLoading && <CommandEmpty className="py-4 text-center text-xs text-muted-foreground">No matches</CommandEmpty>}
+            <CommandGroup>
+              {noneLabel && !search && (
+                <CommandItem value={NONE} onSelect={() => pick('')} className="text-xs">
+                  <Check className={cn('mr-2 h-3.5 w-3.5', value ? 'opacity-0' : 'opacity-100')} />
+                  {noneLabel}
+                </CommandItem>
+              )}
+              {items.map(item => (
+                <CommandItem key={item.id} value={item.id} onSelect={() => pick(item.id, item)} className="text-xs">
+                  <Check className={cn('mr-2 h-3.5 w-3.5 shrink-0', item.id === value ? 'opacity-100' : 'opacity-0')} />
+                  {renderItem(item)}
+                </CommandItem>
+              ))}
+              {footer && (
+                <CommandItem value={`${NONE}:footer`} onSelect={() => { onOpenChange(false); footer.onSelect(); }} className="text-xs">
+                  <Plus className="mr-2 h-3.5 w-3.5" />
+                  {footer.label}
+                </CommandItem>
+              )}
+            </CommandGroup>
+            <div ref={loadMoreRef} className="flex justify-center">
+              {(isLoading || isFetchingNextPage) && <Loader2 className="my-2 h-3.5 w-3.5 animate-spin text-muted-foreground" />}
+            </div>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+/** Open state and the debounced search text of a picker. */
+function usePickerSearch() {
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState('');
+  const q = useDebounce(search.trim(), 250);
+  const onOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (!next) setSearch('');
+  };
+  return { open, onOpenChange, search, onSearchChange: setSearch, filters: { q: q || undefined } };
+}
+
+/** Pick a case by number, client, court or judge, searched on the server. */
+export const CasePicker: React.FC<PickerProps<Case>> = ({ value, ...props }) => {
+  const { filters, ...picker } = usePickerSearch();
+  const pages = useCasePages(filters, picker.open);
+  const items = useMemo(() => pages.data?.pages.flatMap(page => page.items) ?? [], [pages.data]);
+  const loaded = items.find(case_ => case_.id === value);
+  const { data: fetched } = useCase(value && !loaded ? value : undefined);
+  const selected = loaded ?? fetched;
+
+  return (
+    <SearchPicker
+      {...props}
+      {...picker}
+      value={value}
+      placeholder={props.placeholder ?? 'Select a case'}
+      searchPlaceholder="Search cases…"
+      selectedLabel={selected && `${selected.caseNumber} — ${selected.clientName}`}
+      items={items}
+      isLoading={pages.isLoading}
+      hasNextPage={pages.hasNextPage}
+      isFetchingNextPage={pages.isFetchingNextPage}
+      fetchNextPage={pages.fetchNextPage}
+      renderItem={case_ => (
+        <span className="truncate">
+          <span className="font-medium">{case_.caseNumber}</span>
+          <span className="text-muted-foreground"> — {case_.clientName}</span>
+        </span>
+      )}
+    />
+  );
+};
+
+interface ClientPickerProps extends PickerProps<Client> {
+  /** Adds an entry after the results for a client not on the list yet */
+  onAddNew?: () => void;
+}
+
+/** Pick a client by name, email or phone, searched on the server. */
+export const ClientPicker: React.FC<ClientPickerProps> = ({ value, onAddNew, ...props }) => {
+  const { filters, ...picker } = usePickerSearch();
+  const pages = useClientPages(filters, picker.open);
+  const items = useMemo(() => pages.data?.pages.flatMap(page => page.items) ?? [], [pages.data]);
+  const loaded = items.find(client => client.id === value);
+  const { data: fetched } = useClient(value && !loaded ? value : undefined);
+  const selected = loaded ?? fetched;
+
+  return (
+    <SearchPicker
+      {...props}
+      {...picker}
+      value={value}
+      placeholder={props.placeholder ?? 'Select a client'}
+      searchPlaceholder="Search clients…"
+      selectedLabel={selected?.name}
+      items={items}
+      isLoading={pages.isLoading}
+      hasNextPage={pages.hasNextPage}
+      isFetchingNextPage={pages.isFetchingNextPage}
+      fetchNextPage={pages.fetchNextPage}
+      renderItem={client => (
+        <span className="truncate">
+          {client.name}
+          {client.email && <span className="text-muted-foreground"> · {client.email}</span>}
+        </span>
+      )}
+      footer={onAddNew && { label: 'Add new client', onSelect: onAddNew }}
+    />
+  );
+};
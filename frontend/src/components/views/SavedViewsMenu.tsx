@@ -0,0 +1,220 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Bookmark, Check, ChevronDown, Link2, RotateCcw, Save, Share2, Trash2, Users } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import { useDeleteView, useSaveView, useSavedViews } from '@/hooks/useLegalQueries';
+import type { ListView } from '@/hooks/useListView';
+import type { SavedView, SavedViewPage } from '@/services/api/schemas';
+
+interface SavedViewsMenuProps {
+  page: SavedViewPage;
+  listView: Pick<ListView, 'changed' | 'viewId' | 'hasSettings' | 'applyView' | 'reset'>;
+}
+
+const sameState = (a: Record<string, string>, b: Record<string, string>) => {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  return [...keys].every(key => a[key] === b[key]);
+};
+
+/**
+ * Views menu for a list page: apply one of the user's saved views or one a
+ * colleague shared, save the current settings as a view, update, share or
+ * delete the selected one, and copy a link to the list as shown.
+ */
+export const SavedViewsMenu: React.FC<SavedViewsMenuProps> = ({ page, listView }) => {
+  const { toast } = useToast();
+  const { data: views = [] } = useSavedViews(page);
+  const saveView = useSaveView(page);
+  const deleteView = useDeleteView(page);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [shared, setShared] = useState(false);
+
+  const { changed, viewId, hasSettings, applyView, reset } = listView;
+  const active = views.find(view => view.id === viewId);
+  const modified = active ? !sameState(active.state, changed) : false;
+  const ownViews = useMemo(() => views.filter(view => view.own), [views]);
+  const sharedViews = useMemo(() => views.filter(view => !view.own), [views]);
+
+  // A link carrying only ?view=<id> opens that view once the list of views has loaded
+  const openedFromLink = useRef(false);
+  useEffect(() => {
+    if (openedFromLink.current || !active) return;
+    openedFromLink.current = true;
+    if (!hasSettings && Object.keys(active.state).length > 0) applyView(active);
+  }, [active, hasSettings, applyView]);
+
+  const failed = (title: string) => (error: unknown) => toast({
+    title,
+    description: error instanceof Error ? error.message : 'Please try again',
+    variant: 'destructive'
+  });
+
+  const handleSaveNew = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const view = await saveView.mutateAsync({ name: name.trim(), state: changed, shared });
+      applyView(view);
+      setDialogOpen(false);
+      toast({ title: 'View saved', description: view.name });
+    } catch (error) {
+      failed('Save failed')(error);
+    }
+  };
+
+  const handleUpdate = (view: SavedView) => {
+    saveView.mutateAsync({ id: view.id, state: changed })
+      .then(() => toast({ title: 'View updated', description: view.name }))
+      .catch(failed('Update failed'));
+  };
+
+  const handleShare = (view: SavedView) => {
+    saveView.mutateAsync({ id: view.id, shared: !view.shared })
+      .then(() => toast({ title: view.shared ? 'No longer shared' : 'Shared with your firm', description: view.name }))
+      .catch(failed('Update failed'));
+  };
+
+  const handleDelete = (view: SavedView) => {
+    if (!confirm(`Delete the view "${view.name}"?`)) return;
+    deleteView.mutateAsync(view.id)
+      .then(() => reset())
+      .catch(failed('Delete failed'));
+  };
+
+  const copyLink = () => {
+    navigator.clipboard.writeText(window.location.href)
+      .then(() => toast({ title: 'Link copied', description: 'The link opens this list with the same filters' }))
+      .catch(failed('Copy failed'));
+  };
+
+  const openSaveDialog = () => {
+    setName('');
+    setShared(false);
+    setDialogOpen(true);
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button size="sm" variant="outline" className="h-8 max-w-48 text-xs">
+            <Bookmark className="mr-1.5 h-3.5 w-3.5 shrink-0" />
+            <span className="truncate">{active ? active.name : 'Views'}</span>
+            {modified && <span className="ml-0.5 text-muted-foreground" title="Changed since saved">*</span>}
+            <ChevronDown className="ml-1 h-3.5 w-3.5 shrink-0" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-60">
+          {ownViews.length > 0 && <DropdownMenuLabel className="text-[10px] text-muted-foreground">My views</DropdownMenuLabel>}
+          {ownViews.map(view => (
+            <DropdownMenuItem key={view.id} className="text-xs" onClick={() => applyView(view)}>
+              <Check className={`mr-2 h-3.5 w-3.5 ${view.id === viewId ? '' : 'invisible'}`} />
+              <span className="flex-1 truncate">{view.name}</span>
+              {view.shared && <Users className="ml-2 h-3 w-3 text-muted-foreground" aria-label="Shared" />}
+            </DropdownMenuItem>
+          ))}
+          {sharedViews.length > 0 && (
+            <>
+              <DropdownMenuLabel className="text-[10px] text-muted-foreground">Shared by colleagues</DropdownMenuLabel>
+              {sharedViews.map(view => (
+                <DropdownMenuItem key={view.id} className="text-xs" onClick={() => applyView(view)}>
+                  <Check className={`mr-2 h-3.5 w-3.5 ${view.id === viewId ? '' : 'invisible'}`} />
+                  <span className="flex-1 truncate">{view.name}</span>
+                  {view.ownerName && <span className="ml-2 truncate text-[10px] text-muted-foreground">{view.ownerName}</span>}
+                </DropdownMenuItem>
+              ))}
+            </>
+          )}
+          {views.length > 0 && <DropdownMenuSeparator />}
+
+          {active?.own && (
+            <>
+              <DropdownMenuItem className="text-xs" disabled={!modified} onClick={() => handleUpdate(active)}>
+                <Save className="mr-2 h-3.5 w-3.5" />
+                Update “{active.name}”
+              </DropdownMenuItem>
+              <DropdownMenuItem className="text-xs" onClick={() => handleShare(active)}>
+                <Share2 className="mr-2 h-3.5 w-3.5" />
+                {active.shared ? 'Stop sharing' : 'Share with my firm'}
+              </DropdownMenuItem>
+              <DropdownMenuItem className="text-xs text-destructive" onClick={() => handleDelete(active)}>
+                <Trash2 className="mr-2 h-3.5 w-3.5" />
+                Delete “{active.name}”
+              </DropdownMenuItem>
+              <DropdownMenuSeparator />
+            </>
+          )}
+          <DropdownMenuItem className="text-xs" onClick={openSaveDialog}>
+            <Bookmark className="mr-2 h-3.5 w-3.5" />
+            Save as new view…
+          </DropdownMenuItem>
+          <DropdownMenuItem className="text-xs" onClick={copyLink}>
+            <Link2 className="mr-2 h-3.5 w-3.5" />
+            Copy link to this list
+          </DropdownMenuItem>
+          <DropdownMenuItem className="text-xs" disabled={!hasSettings && !viewId} onClick={reset}>
+            <RotateCcw className="mr-2 h-3.5 w-3.5" />
+            Clear filters
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-sm">
+          <form onSubmit={handleSaveNew} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>Save view</DialogTitle>
+              <DialogDescription>
+                Keeps the current search, filters, sort{page === 'cases' ? ', card fields and layout' : ''} under a name.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-1.5">
+              <Label htmlFor="viewName">Name</Label>
+              <Input
+                id="viewName"
+                value={name}
+                onChange={e => setName(e.target.value)}
+                placeholder="e.g. Urgent matters this week"
+                maxLength={80}
+                required
+                autoFocus
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox id="viewShared" checked={shared} onCheckedChange={checked => setShared(checked === true)} />
+              <Label htmlFor="viewShared" className="text-sm font-normal">
+                Share with my firm
+              </Label>
+            </div>
+            <p className="text-[10px] text-muted-foreground">
+              Shared views are listed for the other members of your firm's account.
+            </p>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>Cancel</Button>
+              <Button type="submit" disabled={saveView.isPending || !name.trim()}>Save view</Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
@@ -1,6 +1,10 @@
 import React, { type ReactNode, createContext, useContext, useState, useEffect, useCallback, useRef } from 'react';
 
-import { getApiUrl, apiFetch } from '@/lib/api';
+import { type QueryKey, useQueryClient } from '@tanstack/react-query';
+
+import { getApiUrl, apiFetch, refreshSession } from '@/lib/api';
+import { clearOfflineData } from '@/lib/offline/idb';
+import { postTabMessage, subscribeTabMessages } from '@/lib/tabSync';
 import JuriqLoader from '@/components/ui/JuriqLoader';
 
 interface NotificationSettings {
@@ -18,6 +22,7 @@ interface PreferenceSettings {
   language: string;
   timezone: string;
   dateFormat: string;
+  timeFormat?: '12h' | '24h';
   currency: string;
 }
 
@@ -97,6 +102,14 @@ interface AuthProviderProps {
 // Session boundaries are now strictly governed by secure backend cookies
 // and synchronous /validate calls, destroying old frontend fallbacks.
 
+// Coalesces the refetch when another tab runs several mutations in a row
+const REMOTE_DATA_CHANGE_DELAY_MS = 300;
+// Invalidated queries are announced by their group (e.g. ['legal', 'invoices']), not their exact key,
+// so another tab refetches the same group whatever filters or pages it has loaded
+const INVALIDATED_KEY_DEPTH = 2;
+
+const isSameUserData = (a: User, b: User) => JSON.stringify(a) === JSON.stringify(b);
+
 export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
@@ -104,8 +117,12 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   // Guard: prevents refreshUser() from re-authenticating while logout is in progress
   const isLoggingOut = useRef(false);
   const hasInitialized = useRef(false);
+  // Latest user for the cross-tab listeners, which are registered once
+  const userRef = useRef<User | null>(null);
+  const queryClient = useQueryClient();
 
   const persistUser = useCallback((userData: User | null, shouldClearCookies = false) => {
+    userRef.current = userData;
     if (userData) {
       setUser(userData);
       setAuthState("authenticated");
@@ -122,7 +139,12 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   }, []);
 
-  const refreshUser = useCallback(async () => {
+  /**
+   * Load the signed-in user, refreshing the access token once if it expired.
+   * Resolves to null when there is no session and to undefined when the
+   * request was aborted (keep the current state).
+   */
+  const fetchCurrentUser = useCallback(async (): Promise<User | null | undefined> => {
     try {
       const res = await apiFetch(getApiUrl('/api/v1/auth/me'), {
         credentials: 'include',
@@ -137,39 +159,42 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       if (res.status === 401) {
         // user not logged in → expected
         // Skip refresh entirely if logout is in progress to prevent re-login after logout
-        if (isLoggingOut.current) { persistUser(null); return; }
+        if (isLoggingOut.current) return null;
         try {
-          const refreshRes = await apiFetch(getApiUrl('/api/v1/auth/refresh'), {
-            method: 'POST',
-            credentials: 'include',
-            cache: 'no-store',
-          });
-          if (!refreshRes.ok) {
-            persistUser(null);
-            return;
-          }
+          // Shares the refresh with apiFetch and with other tabs
+          if (!(await refreshSession())) return null;
           // Retry /me with the new access token
           const retryRes = await apiFetch(getApiUrl('/api/v1/auth/me'), {
             credentials: 'include',
             cache: 'no-store',
           });
-          if (!retryRes.ok) { persistUser(null); return; }
+          if (!retryRes.ok) return null;
           const retryData = await retryRes.json();
-          persistUser(retryData.user ? retryData.user as User : null);
-          return;
+          return retryData.user ? retryData.user as User : null;
         } catch {
-          persistUser(null);
-          return;
+          return null;
         }
       }
 
-      if (!res.ok) { persistUser(null); return; }
+      if (!res.ok) return null;
       const data = await res.json();
-      persistUser(data.user ? data.user as User : null);
+      return data.user ? data.user as User : null;
     } catch (error: unknown) {
-      if ((error as any).name !== 'AbortError') persistUser(null); // eslint-disable-line @typescript-eslint/no-explicit-any
+      if ((error as any).name === 'AbortError') return undefined; // eslint-disable-line @typescript-eslint/no-explicit-any
+      return null;
     }
-  }, [persistUser]);
+  }, []);
+
+  const refreshUser = useCallback(async () => {
+    const previous = userRef.current;
+    const next = await fetchCurrentUser();
+    if (next === undefined) return;
+    persistUser(next);
+    // Profile/preference saves end with refreshUser(); let the other tabs pick them up
+    if (next && previous && previous.id === next.id && !isSameUserData(previous, next)) {
+      postTabMessage({ type: 'user-updated' });
+    }
+  }, [fetchCurrentUser, persistUser]);
 
   useEffect(() => {
     let mounted = true;
@@ -220,6 +245,8 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         if (mounted) {
           persistUser(data.user as User);
           setIsLoading(false);
+          // Tabs still on the login page (or signed in as someone else) reload into this session
+          postTabMessage({ type: 'login', userId: (data.user as User).id });
         }
       } catch (err) {
         if (mounted) {
@@ -260,6 +287,9 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     const handleUnauthorized = () => {
       console.warn('Handling global auth:unauthorized event');
       persistUser(null, true);
+      clearOfflineData();
+      // The refresh cookie is shared, so every other tab has lost the session too
+      postTabMessage({ type: 'logout' });
       if (!isLoggingOut.current) {
         window.location.replace('/login');
       }
@@ -274,6 +304,71 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     };
   }, [refreshUser, persistUser]);
 
+  // 8. CROSS-TAB SYNC
+  // Apply session and data changes announced by other tabs (see lib/tabSync)
+  useEffect(() => {
+    let dataChangeTimer: ReturnType<typeof setTimeout> | undefined;
+    const remoteKeys = new Map<string, QueryKey>();
+
+    const unsubscribe = subscribeTabMessages(message => {
+      switch (message.type) {
+        case 'logout':
+          if (!userRef.current || isLoggingOut.current) return;
+          persistUser(null, true);
+          queryClient.clear();
+          window.location.replace('/login');
+          break;
+        case 'login':
+          if (userRef.current?.id !== message.userId) window.location.reload();
+          break;
+        case 'user-updated':
+          if (!userRef.current) return;
+          fetchCurrentUser().then(next => { if (next !== undefined) persistUser(next); });
+          break;
+        case 'data-changed':
+          if (!userRef.current) return;
+          message.queryKeys.forEach(key => remoteKeys.set(JSON.stringify(key), key));
+          clearTimeout(dataChangeTimer);
+          dataChangeTimer = setTimeout(() => {
+            remoteKeys.forEach(key => queryClient.invalidateQueries({ queryKey: key }));
+            remoteKeys.clear();
+          }, REMOTE_DATA_CHANGE_DELAY_MS);
+          break;
+      }
+    });
+
+    // Announce every successful mutation in this tab, with the query groups it
+    // invalidated, so other tabs refetch those and nothing else
+    const pendingMutations = new Set<number>();
+    const invalidatedKeys = new Map<string, QueryKey>();
+    const unsubscribeQueries = queryClient.getQueryCache().subscribe(event => {
+      if (pendingMutations.size > 0 && event.type === 'updated' && event.action.type === 'invalidate') {
+        const key = event.query.queryKey.slice(0, INVALIDATED_KEY_DEPTH);
+        invalidatedKeys.set(JSON.stringify(key), key);
+      }
+    });
+    const unsubscribeMutations = queryClient.getMutationCache().subscribe(event => {
+      if (event.type !== 'updated') return;
+      const { mutationId } = event.mutation;
+      if (event.action.type === 'pending') {
+        pendingMutations.add(mutationId);
+      } else if (event.action.type === 'success' || event.action.type === 'error') {
+        pendingMutations.delete(mutationId);
+        if (event.action.type === 'success' && invalidatedKeys.size > 0) {
+          postTabMessage({ type: 'data-changed', queryKeys: [...invalidatedKeys.values()] });
+        }
+        if (pendingMutations.size === 0) invalidatedKeys.clear();
+      }
+    });
+
+    return () => {
+      clearTimeout(dataChangeTimer);
+      unsubscribe();
+      unsubscribeQueries();
+      unsubscribeMutations();
+    };
+  }, [queryClient, fetchCurrentUser, persistUser]);
+
   const login = async (email: string, password: string): Promise<{ success: boolean; error?: string; errorCode?: string }> => {
     setIsLoading(true);
     setAuthState("loading");
@@ -344,6 +439,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       persistUser(data.user as User);
       setIsLoading(false);
       setAuthState("authenticated");
+      postTabMessage({ type: 'login', userId: (data.user as User).id });
       return { success: true };
     } catch {
       persistUser(null);
@@ -367,6 +463,8 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       // This call handles clearing memory (setUser(null)), authState, 
       // localStorage (SESSION_FLAG), and all cookie variants.
       persistUser(null, true);
+      await clearOfflineData();
+      postTabMessage({ type: 'logout' });
       
       setIsLoading(false);
       isLoggingOut.current = false;
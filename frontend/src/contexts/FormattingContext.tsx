@@ -6,6 +6,8 @@ import {
     formatDateShort as formatDateShortUtil,
     formatDateTime as formatDateTimeUtil,
     formatRelativeDate as formatRelativeDateUtil,
+    formatTime as formatTimeUtil,
+    resolveTimeZone,
     parseDate as parseDateUtil,
     formatNumber as formatNumberUtil,
     type CurrencyCode,
@@ -26,6 +28,11 @@ interface FormattingContextType {
     parseDate: (dateStr: string) => Date | null;
     dateFormat: DateFormatType;
 
+    // Time formatting, in the user's time zone and clock preference
+    formatTime: (date: Date | string | number) => string;
+    timeFormat: '12h' | '24h';
+    timezone: string;
+
     // Number formatting
     formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
 
@@ -54,6 +61,8 @@ export const FormattingProvider: React.FC<FormattingProviderProps> = ({ children
     const currencyCode = (user?.preferences?.currency as CurrencyCode) || (user?.profile?.currency as CurrencyCode) || 'INR';
     const dateFormat = (user?.preferences?.dateFormat as DateFormatType) || 'DD/MM/YYYY';
     const locale = user?.preferences?.language || 'en-IN';
+    const timeFormat = user?.preferences?.timeFormat === '24h' ? '24h' : '12h';
+    const timezone = resolveTimeZone(user?.preferences?.timezone || user?.profile?.timezone);
 
     // Currency symbol mapping
     const currencySymbols: Record<CurrencyCode, string> = {
@@ -76,9 +85,9 @@ export const FormattingProvider: React.FC<FormattingProviderProps> = ({ children
 
     const formatDate = useCallback(
         (date: Date | string | number, options?: { includeTime?: boolean; timeFormat?: '12h' | '24h' }) => {
-            return formatDateUtil(date, dateFormat, options);
+            return formatDateUtil(date, dateFormat, { timeFormat, ...options });
         },
-        [dateFormat]
+        [dateFormat, timeFormat]
     );
 
     const formatDateShort = useCallback(
@@ -89,10 +98,17 @@ export const FormattingProvider: React.FC<FormattingProviderProps> = ({ children
     );
 
     const formatDateTime = useCallback(
-        (date: Date | string | number, timeFormat: '12h' | '24h' = '12h') => {
-            return formatDateTimeUtil(date, dateFormat, timeFormat);
+        (date: Date | string | number, clock: '12h' | '24h' = timeFormat) => {
+            return formatDateTimeUtil(date, dateFormat, clock);
         },
-        [dateFormat]
+        [dateFormat, timeFormat]
+    );
+
+    const formatTime = useCallback(
+        (date: Date | string | number) => {
+            return formatTimeUtil(date, timeFormat, timezone);
+        },
+        [timeFormat, timezone]
     );
 
     const formatRelativeDate = useCallback(
@@ -126,6 +142,9 @@ export const FormattingProvider: React.FC<FormattingProviderProps> = ({ children
         formatRelativeDate,
         parseDate,
         dateFormat,
+        formatTime,
+        timeFormat,
+        timezone,
         formatNumber,
         locale,
     };
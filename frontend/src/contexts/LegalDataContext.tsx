@@ -1,15 +1,72 @@
 import React, { type ReactNode, createContext, useContext, useState } from 'react';
 
-import { useAuth } from './AuthContext';
-import { getApiUrl, apiFetch } from '@/lib/api';
+import {
+  checkHearingConflict,
+  useAddAlert,
+  useAddCase,
+  useAddClient,
+  useAddHearing,
+  useAddTimeEntry,
+  useAlerts,
+  useCreateInvoice,
+  useDeleteAlert,
+  useDeleteCase,
+  useDeleteClient,
+  useDeleteHearing,
+  useDeleteInvoice,
+  useHearings,
+  useMarkAlertAsRead,
+  useRefreshCase,
+  useSendInvoice,
+  useTimeEntries,
+  useUpdateCase,
+  useUpdateClient,
+  useUpdateHearing,
+  useUpdateInvoice,
+} from '@/hooks/useLegalQueries';
+import { useChangeStream } from '@/hooks/useChangeStream';
+
+export interface CaseParty {
+  /** Absent until the party has been saved */
+  id?: string;
+  role: 'petitioner' | 'respondent' | 'intervenor' | 'impleaded';
+  partyType: 'individual' | 'organisation';
+  name: string;
+  /** Set when the firm represents this party */
+  clientId?: string;
+  counsel: {
+    name?: string;
+    enrollmentNumber?: string;
+    phone?: string;
+    email?: string;
+  };
+}
+
+/** A custom field value: text/date/select/party are strings, multi-select a list. */
+export type CustomFieldValue = string | number | string[];
+
+/** Recorded by the closure wizard when the case was disposed of */
+export interface CaseClosure {
+  outcome: 'won' | 'lost' | 'settled' | 'withdrawn' | 'dismissed' | 'disposed';
+  /** Calendar day, YYYY-MM-DD */
+  disposalDate: string;
+  finalOrderId?: string;
+  summary?: string;
+  appealDeadlineId?: string;
+  closedAt: Date;
+}
 
 export interface Case {
   id: string;
   caseNumber: string;
   clientName: string;
   opposingParty: string;
+  parties?: CaseParty[];
   courtName: string;
   judgeName: string;
+  /** Directory entries courtName / judgeName were picked from, when they were */
+  courtId?: string;
+  judgeId?: string;
   hearingDate: Date;
   hearingTime: string;
   status: 'active' | 'pending' | 'closed' | 'won' | 'lost';
@@ -23,6 +80,15 @@ export interface Case {
   createdAt: Date;
   updatedAt: Date;
   folderId?: string;
+  /** Values for the firm's custom fields of this caseType, keyed by field key */
+  customFields?: Record<string, CustomFieldValue>;
+  tags?: string[];
+  /** Stage set from the case board; when unset the stage follows the hearings held */
+  pipelineStage?: string;
+  customPipelineNodes?: { nodeId: string; name: string; color?: string }[];
+  closure?: CaseClosure;
+  /** Set while the case is in the archive, where it is read-only until reopened */
+  archivedAt?: Date;
 }
 
 export interface Client {
@@ -36,10 +102,20 @@ export interface Client {
   cases: string[]; // Case IDs
   documents: string[];
   notes: string;
+  tags?: string[];
+  /** Present on list pages: the client's cases, counted on the server */
+  caseSummary?: ClientCaseSummary;
   createdAt: Date;
   updatedAt: Date;
 }
 
+export interface ClientCaseSummary {
+  total: number;
+  active: number;
+  /** The soonest upcoming hearing among the client's cases */
+  nextHearing: { caseNumber: string; date: Date } | null;
+}
+
 export interface Alert {
   id: string;
   caseId: string;
@@ -75,8 +151,15 @@ export interface Hearing {
   caseId: string;
   hearingDate: Date;
   hearingTime?: string;
+  // IANA zone of hearingTime; startAt/endAt are the resulting instants
+  timezone?: string;
+  duration?: number;
+  startAt?: Date;
+  endAt?: Date;
   courtName: string;
   judgeName?: string;
+  courtId?: string;
+  judgeId?: string;
   // Built-in values: 'first_hearing' | 'interim_hearing' | 'final_hearing' | 'evidence_hearing' | 'argument_hearing' | 'judgment_hearing' | 'other'
   // Custom pipeline node IDs (e.g. custom_<timestamp>) are also allowed.
   hearingType: string;
@@ -113,6 +196,8 @@ export interface InvoiceItem {
 export interface Invoice {
   id: string;
   clientId: string;
+  /** Name of the client billed, as listed by the server; null once the client is gone */
+  clientName?: string | null;
   caseId?: string;
   invoiceNumber: string;
   issueDate: Date;
@@ -127,21 +212,19 @@ export interface Invoice {
   total: number;
   notes?: string;
   terms?: string;
+  tags?: string[];
   createdAt: Date;
   updatedAt: Date;
 }
 
 interface LegalDataContextType {
   // Cases
-  cases: Case[];
   addCase: (case_: Omit<Case, 'id' | 'createdAt' | 'updatedAt'>) => Promise<Case>;
   updateCase: (id: string, updates: Partial<Case>) => Promise<Case>;
   deleteCase: (id: string) => Promise<void>;
-  getCaseById: (caseId: string) => Case | undefined;
   refreshCase: (caseId: string) => Promise<Case>;
 
   // Client operations
-  clients: Client[];
   addClient: (client: Omit<Client, 'id' | 'createdAt' | 'updatedAt'>) => Promise<Client>;
   updateClient: (id: string, updates: Partial<Client>) => Promise<Client>;
   deleteClient: (id: string) => Promise<void>;
@@ -162,14 +245,13 @@ interface LegalDataContextType {
 
   // Hearings
   hearings: Hearing[];
-  addHearing: (hearing: Omit<Hearing, 'id' | 'createdAt' | 'updatedAt'>, override?: boolean, overrideReason?: string) => Promise<void>;
+  addHearing: (hearing: Omit<Hearing, 'id' | 'createdAt' | 'updatedAt'>, override?: boolean, overrideReason?: string) => Promise<Hearing>;
   updateHearing: (hearingId: string, updates: Partial<Hearing>, override?: boolean, overrideReason?: string) => void;
   deleteHearing: (hearingId: string) => void;
   getHearingsByCaseId: (caseId: string) => Hearing[];
-  checkHearingConflict: (startAt: Date, endAt: Date, timezone: string, resourceScope?: unknown, excludeHearingId?: string) => Promise<{ hasConflict: boolean; conflicts: unknown[] }>;
+  checkHearingConflict: (startAt: Date, endAt: Date, timezone: string, resourceScope?: unknown, excludeHearingId?: string, caseId?: string) => Promise<{ hasConflict: boolean; conflicts: unknown[] }>;
 
   // Invoices
-  invoices: Invoice[];
   createInvoice: (invoice: Omit<Invoice, 'id' | 'createdAt' | 'updatedAt'>) => Promise<void>;
   updateInvoice: (invoiceId: string, updates: Partial<Invoice>) => Promise<void>;
   deleteInvoice: (invoiceId: string) => Promise<void>;
@@ -230,185 +312,73 @@ const mockLegalSections: LegalSection[] = [
   }
 ];
 
+// Stable empty arrays so consumers don't re-render while a query is still loading
+const EMPTY_ALERTS: Alert[] = [];
+const EMPTY_TIME_ENTRIES: TimeEntry[] = [];
+const EMPTY_HEARINGS: Hearing[] = [];
+
+/**
+ * Compatibility layer over the per-entity query hooks in `hooks/useLegalQueries`.
+ * New code should use those hooks directly; this keeps `useLegalData()` working.
+ * The cases, clients and invoices lists are not loaded here, so signing in does
+ * not download them; each screen reads the paged or full list it needs.
+ */
 export const LegalDataProvider: React.FC<LegalDataProviderProps> = ({ children }) => {
-  const [cases, setCases] = useState<Case[]>([]);
-  const [clients, setClients] = useState<Client[]>([]);
-  const [alerts, setAlerts] = useState<Alert[]>([]);
   const [legalSections] = useState<LegalSection[]>(mockLegalSections);
-  const [timeEntries, setTimeEntries] = useState<TimeEntry[]>([]);
-  const [hearings, setHearings] = useState<Hearing[]>([]);
-  const [invoices, setInvoices] = useState<Invoice[]>([]);
-
-  // Get authentication status
-  const { isAuthenticated } = useAuth();
-
-  // Initial loads - only fetch if user is authenticated
-  React.useEffect(() => {
-    // Don't fetch data if user is not authenticated
-    if (!isAuthenticated) {
-      return;
-    }
-
-    let mounted = true;
-    const abortController = new AbortController();
-
-    // Load initial data from API
-    Promise.all([
-      apiFetch(getApiUrl('/api/cases'), { credentials: 'include', signal: abortController.signal })
-        .then(r => {
-          if (r.status === 401) {
-            // User not authenticated, return empty array
-            return [];
-          }
-          return r.ok ? r.json() : Promise.resolve([]);
-        })
-        .catch(() => []),
-      apiFetch(getApiUrl('/api/clients'), { credentials: 'include', signal: abortController.signal })
-        .then(r => {
-          if (r.status === 401) return [];
-          return r.ok ? r.json() : Promise.resolve([]);
-        })
-        .catch(() => []),
-      apiFetch(getApiUrl('/api/alerts'), { credentials: 'include', signal: abortController.signal })
-        .then(r => {
-          if (r.status === 401) return [];
-          return r.ok ? r.json() : Promise.resolve([]);
-        })
-        .catch(() => []),
-      apiFetch(getApiUrl('/api/time-entries'), { credentials: 'include', signal: abortController.signal })
-        .then(r => {
-          if (r.status === 401) return [];
-          return r.ok ? r.json() : Promise.resolve([]);
-        })
-        .catch(() => []),
-      apiFetch(getApiUrl('/api/hearings'), { credentials: 'include', signal: abortController.signal })
-        .then(r => {
-          if (r.status === 401) return [];
-          return r.ok ? r.json() : Promise.resolve([]);
-        })
-        .catch(() => []),
-      apiFetch(getApiUrl('/api/invoices'), { credentials: 'include', signal: abortController.signal })
-        .then(r => {
-          if (r.status === 401) return [];
-          return r.ok ? r.json() : Promise.resolve([]);
-        })
-        .catch(() => []),
-    ]).then(([casesRes, clientsRes, alertsRes, timeEntriesRes, hearingsRes, invoicesRes]) => {
-      if (!mounted) return;
-      setCases(Array.isArray(casesRes) ? casesRes.map(mapCaseFromApi) : []);
-      setClients(Array.isArray(clientsRes) ? clientsRes.map(mapClientFromApi) : []);
-      setAlerts(Array.isArray(alertsRes) ? alertsRes.map(mapAlertFromApi) : []);
-      setTimeEntries(Array.isArray(timeEntriesRes) ? timeEntriesRes.map(mapTimeEntryFromApi) : []);
-      const mappedHearings = Array.isArray(hearingsRes) ? hearingsRes.map(mapHearingFromApi) : [];
-      setHearings(mappedHearings);
-      setInvoices(Array.isArray(invoicesRes) ? invoicesRes.map(mapInvoiceFromApi) : []);
-    }).catch((error) => {
-      // Silently ignore errors; UI can still function without data
-      // Don't log aborted requests or 401 errors as they're expected
-      if (!abortController.signal.aborted && (error as { status?: number }).status !== 401) {
-        // Error logging removed for production
-      }
-    });
 
-    return () => {
-      mounted = false;
-      abortController.abort();
-    };
-  }, [isAuthenticated]);
+  // Apply server-pushed changes from other sessions to the cached lists
+  useChangeStream();
+
+  const alerts = useAlerts().data ?? EMPTY_ALERTS;
+  const timeEntries = useTimeEntries().data ?? EMPTY_TIME_ENTRIES;
+  const hearings = useHearings().data ?? EMPTY_HEARINGS;
+
+  const addCaseMutation = useAddCase();
+  const updateCaseMutation = useUpdateCase();
+  const deleteCaseMutation = useDeleteCase();
+  const refreshCase = useRefreshCase();
+  const addClientMutation = useAddClient();
+  const updateClientMutation = useUpdateClient();
+  const deleteClientMutation = useDeleteClient();
+  const addAlertMutation = useAddAlert();
+  const markAlertAsReadMutation = useMarkAlertAsRead();
+  const deleteAlertMutation = useDeleteAlert();
+  const addTimeEntryMutation = useAddTimeEntry();
+  const addHearingMutation = useAddHearing();
+  const updateHearingMutation = useUpdateHearing();
+  const deleteHearingMutation = useDeleteHearing();
+  const createInvoiceMutation = useCreateInvoice();
+  const updateInvoiceMutation = useUpdateInvoice();
+  const deleteInvoiceMutation = useDeleteInvoice();
+  const sendInvoiceMutation = useSendInvoice();
 
   // Case management functions
-  const addCase = async (caseData: Omit<Case, 'id' | 'createdAt' | 'updatedAt'>) => {
-    const res = await apiFetch(getApiUrl('/api/cases'), { method: 'POST', headers: { 'Content-Type': 'application/json' }, credentials: 'include', body: JSON.stringify(caseData) });
-    if (!res.ok) {
-      const errorData = await res.json().catch(() => ({ error: 'Failed to create case' }));
-      throw new Error(errorData.error || 'Failed to create case');
-    }
-    const saved = await res.json();
-    const mappedCase = mapCaseFromApi(saved);
-    setCases(prev => [...prev, mappedCase]);
-    return mappedCase;
-  };
+  const addCase = (caseData: Omit<Case, 'id' | 'createdAt' | 'updatedAt'>) => addCaseMutation.mutateAsync(caseData);
 
-  const updateCase = async (caseId: string, updates: Partial<Case>): Promise<Case> => {
-    const res = await apiFetch(getApiUrl(`/api/cases/${caseId}`), { method: 'PUT', headers: { 'Content-Type': 'application/json' }, credentials: 'include', body: JSON.stringify(updates) });
-    if (!res.ok) {
-      const errorData = await res.json().catch(() => ({ error: 'Failed to update case' }));
-      throw new Error(errorData.error || 'Failed to update case');
-    }
-    const saved = await res.json();
-    const mappedCase = mapCaseFromApi(saved);
-    setCases(prev => prev.map(c => c.id === caseId ? mappedCase : c));
-    return mappedCase;
-  };
+  const updateCase = (caseId: string, updates: Partial<Case>) => updateCaseMutation.mutateAsync({ id: caseId, updates });
 
-  const deleteCase = async (caseId: string): Promise<void> => {
-    const res = await apiFetch(getApiUrl(`/api/cases/${caseId}`), { method: 'DELETE', credentials: 'include' });
-    if (!res.ok) {
-      throw new Error('Failed to delete case');
-    }
-    setCases(prev => prev.filter(c => c.id !== caseId));
-  };
-
-  const getCaseById = (caseId: string) => {
-    return cases.find(c => c.id === caseId);
-  };
+  const deleteCase = (caseId: string) => deleteCaseMutation.mutateAsync(caseId);
 
   // Client management functions
-  const addClient = async (clientData: Omit<Client, 'id' | 'createdAt' | 'updatedAt'>) => {
-    const res = await apiFetch(getApiUrl('/api/clients'), { method: 'POST', headers: { 'Content-Type': 'application/json' }, credentials: 'include', body: JSON.stringify(clientData) });
-    if (res.ok) {
-      const saved = await res.json();
-      setClients(prev => [...prev, mapClientFromApi(saved)]);
-      return saved;
-    } else {
-      const errorData = await res.json().catch(() => ({ error: 'Failed to create client' }));
-      throw new Error(errorData.error || 'Failed to create client');
-    }
-  };
+  const addClient = (clientData: Omit<Client, 'id' | 'createdAt' | 'updatedAt'>) => addClientMutation.mutateAsync(clientData);
 
-  const updateClient = async (clientId: string, updates: Partial<Client>): Promise<Client> => {
-    const res = await apiFetch(getApiUrl(`/api/clients/${clientId}`), { method: 'PUT', headers: { 'Content-Type': 'application/json' }, credentials: 'include', body: JSON.stringify(updates) });
-    if (!res.ok) {
-      const errorData = await res.json().catch(() => ({ error: 'Failed to update client' }));
-      throw new Error(errorData.error || 'Failed to update client');
-    }
-    const saved = await res.json();
-    const mappedClient = mapClientFromApi(saved);
-    setClients(prev => prev.map(c => c.id === clientId ? mappedClient : c));
-    return mappedClient;
-  };
+  const updateClient = (clientId: string, updates: Partial<Client>) => updateClientMutation.mutateAsync({ id: clientId, updates });
 
-  const deleteClient = async (clientId: string): Promise<void> => {
-    const res = await apiFetch(getApiUrl(`/api/clients/${clientId}`), { method: 'DELETE', credentials: 'include' });
-    if (!res.ok) {
-      throw new Error('Failed to delete client');
-    }
-    setClients(prev => prev.filter(c => c.id !== clientId));
-  };
+  const deleteClient = (clientId: string) => deleteClientMutation.mutateAsync(clientId);
 
-  // Alert management
-  const addAlert = async (alertData: Omit<Alert, 'id' | 'createdAt'>) => {
-    const res = await apiFetch(getApiUrl('/api/alerts'), { method: 'POST', headers: { 'Content-Type': 'application/json' }, credentials: 'include', body: JSON.stringify(alertData) });
-    if (res.ok) {
-      const saved = await res.json();
-      setAlerts(prev => [...prev, mapAlertFromApi(saved)]);
-    }
+  // Alert management — failures are swallowed, as callers fire these without awaiting
+  const addAlert = (alertData: Omit<Alert, 'id' | 'createdAt'>) => {
+    addAlertMutation.mutateAsync(alertData).catch(() => undefined);
   };
 
-  const markAlertAsRead = async (alertId: string) => {
-    const res = await apiFetch(getApiUrl(`/api/alerts/${alertId}/read`), { method: 'PATCH', credentials: 'include' });
-    if (res.ok) {
-      const saved = await res.json();
-      setAlerts(prev => prev.map(a => a.id === alertId ? mapAlertFromApi(saved) : a));
-    }
+  const markAlertAsRead = (alertId: string) => {
+    markAlertAsReadMutation.mutateAsync(alertId).catch(() => undefined);
   };
 
-  const deleteAlert = async (alertId: string) => {
-    const res = await apiFetch(getApiUrl(`/api/alerts/${alertId}`), { method: 'DELETE', credentials: 'include' });
-    if (res.ok) setAlerts(prev => prev.filter(a => a.id !== alertId));
+  const deleteAlert = (alertId: string) => {
+    deleteAlertMutation.mutateAsync(alertId).catch(() => undefined);
   };
 
-
   // Legal research
   const searchLegalSections = (query: string): LegalSection[] => {
     if (!query) return legalSections;
@@ -424,125 +394,21 @@ export const LegalDataProvider: React.FC<LegalDataProviderProps> = ({ children }
   };
 
   // Time tracking
-  const addTimeEntry = async (entry: Omit<TimeEntry, 'id'>) => {
-    const res = await apiFetch(getApiUrl('/api/time-entries'), { method: 'POST', headers: { 'Content-Type': 'application/json' }, credentials: 'include', body: JSON.stringify(entry) });
-    if (res.ok) {
-      const saved = await res.json();
-      setTimeEntries(prev => [...prev, mapTimeEntryFromApi(saved)]);
-    }
+  const addTimeEntry = (entry: Omit<TimeEntry, 'id'>) => {
+    addTimeEntryMutation.mutateAsync(entry).catch(() => undefined);
   };
 
   // Hearing management functions
-  const checkHearingConflict = async (
-    startAt: Date,
-    endAt: Date,
-    timezone: string,
-    resourceScope: any = {}, // eslint-disable-line @typescript-eslint/no-explicit-any
-    excludeHearingId?: string
-  ): Promise<{ hasConflict: boolean; conflicts: any[] }> => { // eslint-disable-line @typescript-eslint/no-explicit-any
-    const res = await apiFetch(getApiUrl('/api/hearings/check-conflict'), {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      credentials: 'include',
-      body: JSON.stringify({
-        startAt: startAt.toISOString(),
-        endAt: endAt.toISOString(),
-        timezone,
-        resourceScope,
-        excludeHearingId
-      })
-    });
-
-    if (!res.ok) {
-      throw new Error('Failed to check conflicts');
-    }
-
-    return await res.json();
-  };
-
-  const addHearing = async (
+  const addHearing = (
     hearing: Omit<Hearing, 'id' | 'createdAt' | 'updatedAt'>,
     override: boolean = false,
     overrideReason?: string
-  ) => {
-    const payload = {
-      ...hearing,
-      override,
-      overrideReason
-    };
-
-    const res = await apiFetch(getApiUrl('/api/hearings'), {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      credentials: 'include',
-      body: JSON.stringify(payload)
-    });
-
-    if (!res.ok) {
-      const errorData = await res.json().catch(() => ({ error: 'Failed to create hearing' }));
-      // If it's a conflict error (409), throw with conflict details
-      if (res.status === 409) {
-        const error: { message: string; conflicts?: unknown[]; status?: number } = new Error(errorData.message || 'Hearing conflicts with existing schedules');
-        error.conflicts = errorData.conflicts;
-        error.status = 409;
-        throw error;
-      }
-      throw new Error(errorData.error || 'Failed to create hearing');
-    }
-
-    const saved = await res.json();
-    const mappedHearing = mapHearingFromApi(saved);
-    setHearings(prev => [...prev, mappedHearing]);
-    return saved;
-  };
-
-  const updateHearing = async (hearingId: string, updates: Partial<Hearing>) => {
-    const res = await apiFetch(getApiUrl(`/api/hearings/${hearingId}`), {
-      method: 'PUT',
-      headers: { 'Content-Type': 'application/json' },
-      credentials: 'include',
-      body: JSON.stringify(updates)
-    });
+  ) => addHearingMutation.mutateAsync({ hearing, override, overrideReason });
 
-    if (!res.ok) {
-      const errorData = await res.json().catch(() => ({ error: 'Failed to update hearing' }));
-      throw new Error(errorData.error || 'Failed to update hearing');
-    }
-
-    const saved = await res.json();
-    const mappedHearing = mapHearingFromApi(saved);
-
-    // Update hearing in state
-    setHearings(prev => {
-      const hearingIndex = prev.findIndex(h => {
-        const idMatch = h.id === hearingId ||
-          h.id === hearingId.toString() ||
-          h.id === saved._id ||
-          h.id === saved.id;
-        const caseIdMatch = h.caseId === saved.caseId || h.caseId === saved.caseId?.toString();
-        return idMatch || (caseIdMatch && h.hearingDate === saved.hearingDate);
-      });
-
-      if (hearingIndex !== -1) {
-        const updatedHearings = [...prev];
-        updatedHearings[hearingIndex] = mappedHearing;
-        return updatedHearings;
-      } else {
-        return [...prev, mappedHearing];
-      }
-    });
+  const updateHearing = (hearingId: string, updates: Partial<Hearing>, override?: boolean, overrideReason?: string) =>
+    updateHearingMutation.mutateAsync({ id: hearingId, updates, override, overrideReason });
 
-    return saved;
-  };
-
-  const deleteHearing = async (hearingId: string) => {
-    const res = await apiFetch(getApiUrl(`/api/hearings/${hearingId}`), { method: 'DELETE', credentials: 'include' });
-    if (!res.ok) {
-      const errorData = await res.json().catch(() => ({ error: 'Failed to delete hearing' }));
-      throw new Error(errorData.error || 'Failed to delete hearing');
-    }
-    setHearings(prev => prev.filter(h => h.id !== hearingId));
-  };
+  const deleteHearing = (hearingId: string) => deleteHearingMutation.mutateAsync(hearingId);
 
   const getHearingsByCaseId = (caseId: string) => {
     return hearings.filter(h => {
@@ -552,71 +418,28 @@ export const LegalDataProvider: React.FC<LegalDataProviderProps> = ({ children }
     });
   };
 
-  // Invoices
+  // Invoices — create/update keep their historical "fail quietly" contract
   const createInvoice = async (invoice: Omit<Invoice, 'id' | 'createdAt' | 'updatedAt'>) => {
-    const payload = mapInvoiceToApi(invoice);
-    const res = await apiFetch(getApiUrl('/api/invoices'), { method: 'POST', headers: { 'Content-Type': 'application/json' }, credentials: 'include', body: JSON.stringify(payload) });
-    if (res.ok) {
-      const saved = await res.json();
-      setInvoices(prev => [mapInvoiceFromApi(saved), ...prev]);
-    }
+    await createInvoiceMutation.mutateAsync(invoice).catch(() => undefined);
   };
 
   const updateInvoice = async (invoiceId: string, updates: Partial<Invoice>) => {
-    const res = await apiFetch(getApiUrl(`/api/invoices/${invoiceId}`), { method: 'PUT', headers: { 'Content-Type': 'application/json' }, credentials: 'include', body: JSON.stringify(mapInvoicePartialToApi(updates)) });
-    if (res.ok) {
-      const saved = await res.json();
-      setInvoices(prev => prev.map(i => i.id === invoiceId ? mapInvoiceFromApi(saved) : i));
-    }
+    await updateInvoiceMutation.mutateAsync({ id: invoiceId, updates }).catch(() => undefined);
   };
 
+  // Optimistic: the invoice disappears immediately and is restored if the server refuses
   const deleteInvoice = async (invoiceId: string) => {
-    const res = await apiFetch(getApiUrl(`/api/invoices/${invoiceId}`), { method: 'DELETE', credentials: 'include' });
-    if (res.ok) setInvoices(prev => prev.filter(i => i.id !== invoiceId));
-  };
-
-  const sendInvoice = async (invoiceId: string, payload: { to?: string; subject?: string; message?: string }) => {
-    const res = await apiFetch(getApiUrl(`/api/invoices/${invoiceId}/send`), { method: 'POST', headers: { 'Content-Type': 'application/json' }, credentials: 'include', body: JSON.stringify(payload) });
-    if (!res.ok) throw new Error('Failed to send invoice');
-    const body = await res.json();
-    return { previewUrl: body.previewUrl } as { previewUrl?: string };
+    await deleteInvoiceMutation.mutateAsync(invoiceId).catch(() => undefined);
   };
 
-  // Refresh a single case from the API
-  const refreshCase = async (caseId: string) => {
-    const res = await apiFetch(getApiUrl(`/api/cases/${caseId}`), {
-      credentials: 'include'
-    });
-
-    if (!res.ok) {
-      throw new Error('Failed to refresh case');
-    }
-
-    const rawCase = await res.json();
-    const mappedCase = mapCaseFromApi(rawCase);
-
-    // Update the case in the global state
-    setCases(prev => {
-      const index = prev.findIndex(c => c.id === caseId);
-      if (index !== -1) {
-        const updated = [...prev];
-        updated[index] = mappedCase;
-        return updated;
-      }
-      return prev;
-    });
-
-    return mappedCase;
-  };
+  const sendInvoice = (invoiceId: string, payload: { to?: string; subject?: string; message?: string }) =>
+    sendInvoiceMutation.mutateAsync({ id: invoiceId, payload });
 
   const value: LegalDataContextType = {
-    cases,
     addCase,
     updateCase,
     deleteCase,
-    getCaseById,
     refreshCase,
-    clients,
     addClient,
     updateClient,
     deleteClient,
@@ -634,7 +457,6 @@ export const LegalDataProvider: React.FC<LegalDataProviderProps> = ({ children }
     deleteHearing,
     getHearingsByCaseId,
     checkHearingConflict,
-    invoices,
     createInvoice,
     updateInvoice,
     deleteInvoice,
@@ -647,201 +469,3 @@ export const LegalDataProvider: React.FC<LegalDataProviderProps> = ({ children }
     </LegalDataContext.Provider>
   );
 };
-
-// Helper to safely convert Firestore timestamps / mixed values to JS Date
-function toSafeDate(value: unknown): Date | undefined {
-  // Return undefined only for truly absent values
-  if (value === null || value === undefined) return undefined;
-
-  // Already a valid Date object
-  if (value instanceof Date) {
-    return Number.isNaN(value.getTime()) ? undefined : value;
-  }
-
-  // Firestore Timestamp object with toDate() method
-  if (typeof value === 'object' && value !== null && 'toDate' in value && typeof (value as { toDate: () => Date }).toDate === 'function') {
-    try {
-      const d = (value as { toDate: () => Date }).toDate();
-      return Number.isNaN(d.getTime()) ? undefined : d;
-    } catch (_error) { // eslint-disable-line @typescript-eslint/no-unused-vars
-      return undefined;
-    }
-  }
-
-  // Firestore Timestamp-like plain object { seconds, nanoseconds } or {_seconds, _nanoseconds}
-  if (typeof value === 'object' && value !== null && ('seconds' in value || '_seconds' in value)) {
-    const seconds = (value as { seconds?: number }).seconds ?? (value as { _seconds?: number })._seconds;
-    if (typeof seconds === 'number') {
-      const millis = seconds * 1000;
-      const d = new Date(millis);
-      return Number.isNaN(d.getTime()) ? undefined : d;
-    }
-  }
-
-  // ISO string or number - try to parse
-  try {
-    const d = new Date(value as string | number);
-    return Number.isNaN(d.getTime()) ? undefined : d;
-  } catch (_error) { // eslint-disable-line @typescript-eslint/no-unused-vars
-    return undefined;
-  }
-}
-
-// Mappers
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-function mapCaseFromApi(raw: any): Case {
-  return {
-    id: raw._id || raw.id,
-    caseNumber: raw.caseNumber,
-    clientName: raw.clientName,
-    opposingParty: raw.opposingParty,
-    courtName: raw.courtName,
-    judgeName: raw.judgeName,
-    hearingDate: (toSafeDate(raw.hearingDate) || undefined) as any, // eslint-disable-line @typescript-eslint/no-explicit-any
-    hearingTime: raw.hearingTime,
-    status: raw.status,
-    priority: raw.priority,
-    caseType: raw.caseType,
-    description: raw.description,
-    nextHearing: toSafeDate(raw.nextHearing) as any, // eslint-disable-line @typescript-eslint/no-explicit-any
-    documents: raw.documents || [],
-    notes: raw.notes || '',
-    alerts: [],
-    createdAt: toSafeDate(raw.createdAt) || new Date(),
-    updatedAt: toSafeDate(raw.updatedAt) || new Date(),
-    folderId: raw.folderId,
-  };
-}
-
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-function mapClientFromApi(raw: any): Client {
-  return {
-    id: raw._id || raw.id,
-    name: raw.name,
-    email: raw.email,
-    phone: raw.phone,
-    address: raw.address || '',
-    panNumber: raw.panNumber,
-    aadharNumber: raw.aadharNumber,
-    cases: raw.cases || [],
-    documents: raw.documents || [],
-    notes: raw.notes || '',
-    createdAt: toSafeDate(raw.createdAt) || new Date(),
-    updatedAt: toSafeDate(raw.updatedAt) || new Date(),
-  };
-}
-
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-function mapAlertFromApi(raw: any): Alert {
-  return {
-    id: raw._id || raw.id,
-    caseId: raw.caseId,
-    type: raw.type,
-    message: raw.message,
-    alertTime: toSafeDate(raw.alertTime) || new Date(),
-    isRead: !!raw.isRead,
-    createdAt: toSafeDate(raw.createdAt) || new Date(),
-  };
-}
-
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-function mapTimeEntryFromApi(raw: any): TimeEntry {
-  return {
-    id: raw._id || raw.id,
-    caseId: raw.caseId,
-    description: raw.description,
-    duration: raw.duration,
-    hourlyRate: raw.hourlyRate,
-    date: toSafeDate(raw.date) || new Date(),
-    billable: !!raw.billable,
-  };
-}
-
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-function mapHearingFromApi(raw: any): Hearing & { populatedCase?: any } {
-  return {
-    id: raw._id || raw.id,
-    caseId: raw.caseId,
-    hearingDate: toSafeDate(raw.hearingDate) || new Date(),
-    hearingTime: raw.hearingTime,
-    courtName: raw.courtName,
-    judgeName: raw.judgeName,
-    hearingType: raw.hearingType,
-    status: raw.status,
-    purpose: raw.purpose,
-    courtInstructions: raw.courtInstructions,
-    documentsToBring: raw.documentsToBring || [],
-    proceedings: raw.proceedings,
-    nextHearingDate: toSafeDate(raw.nextHearingDate),
-    nextHearingTime: raw.nextHearingTime,
-    adjournmentReason: raw.adjournmentReason,
-    attendance: {
-      clientPresent: !!raw.attendance?.clientPresent,
-      opposingPartyPresent: !!raw.attendance?.opposingPartyPresent,
-      witnessesPresent: raw.attendance?.witnessesPresent || [],
-    },
-    orders: (raw.orders || []).map((order: any) => ({ // eslint-disable-line @typescript-eslint/no-explicit-any
-      orderType: order.orderType,
-      orderDetails: order.orderDetails,
-      orderDate: toSafeDate(order.orderDate) || new Date(),
-    })),
-    notes: raw.notes,
-    createdAt: toSafeDate(raw.createdAt) || new Date(),
-    updatedAt: toSafeDate(raw.updatedAt) || new Date(),
-    // Preserve populated case data if available
-    populatedCase: raw.caseId && typeof raw.caseId === 'object' ? raw.caseId : null,
-  };
-}
-
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-function mapInvoiceFromApi(raw: any): Invoice {
-  return {
-    id: raw._id || raw.id,
-    clientId: raw.clientId,
-    caseId: raw.caseId,
-    invoiceNumber: raw.invoiceNumber,
-    issueDate: toSafeDate(raw.issueDate) || new Date(),
-    dueDate: toSafeDate(raw.dueDate) || new Date(),
-    status: raw.status,
-    currency: raw.currency || 'INR',
-    items: (raw.items || []).map((i: { description: string; quantity: number; unitPrice: number; amount: number }) => ({ description: i.description, quantity: i.quantity, unitPrice: i.unitPrice, amount: i.amount })),
-    subtotal: raw.subtotal || 0,
-    taxRate: raw.taxRate || 0,
-    taxAmount: raw.taxAmount || 0,
-    discountAmount: raw.discountAmount || 0,
-    total: raw.total || 0,
-    notes: raw.notes,
-    terms: raw.terms,
-    createdAt: raw.createdAt ? new Date(raw.createdAt) : new Date(),
-    updatedAt: raw.updatedAt ? new Date(raw.updatedAt) : new Date(),
-  } as Invoice;
-}
-
-function mapInvoiceToApi(inv: Omit<Invoice, 'id' | 'createdAt' | 'updatedAt'>) {
-  return {
-    clientId: inv.clientId,
-    caseId: inv.caseId,
-    invoiceNumber: inv.invoiceNumber,
-    issueDate: inv.issueDate,
-    dueDate: inv.dueDate,
-    status: inv.status,
-    currency: inv.currency,
-    items: inv.items,
-    subtotal: inv.subtotal,
-    taxRate: inv.taxRate,
-    taxAmount: inv.taxAmount,
-    discountAmount: inv.discountAmount,
-    total: inv.total,
-    notes: inv.notes,
-    terms: inv.terms,
-  };
-}
-
-function mapInvoicePartialToApi(updates: Partial<Invoice>) {
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const u: any = { ...updates };
-  if ('id' in u) delete u.id;
-  if (u.issueDate instanceof Date) u.issueDate = u.issueDate.toISOString();
-  if (u.dueDate instanceof Date) u.dueDate = u.dueDate.toISOString();
-  return u;
-}
\ No newline at end of file
@@ -0,0 +1,131 @@
+import React, { type ReactNode, createContext, useCallback, useContext, useEffect, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+
+import { useAuth } from './AuthContext';
+import { toast } from '@/hooks/use-toast';
+import { legalKeys, offlineCacheKey } from '@/hooks/useLegalQueries';
+import { writeCache } from '@/lib/offline/idb';
+import {
+  discardEntry,
+  listOutbox,
+  overrideConflict,
+  replayOutbox,
+  retryEntry,
+  subscribeOutbox,
+  type OutboxEntry,
+  type ReplayResult,
+} from '@/lib/offline/outbox';
+
+interface OfflineContextType {
+  isOnline: boolean;
+  /** Every queued change, including conflicts and failures awaiting the user */
+  entries: OutboxEntry[];
+  pendingCount: number;
+  isSyncing: boolean;
+  syncNow: () => Promise<void>;
+  overrideAndSync: (entryId: number, reason: string) => Promise<void>;
+  retry: (entryId: number) => Promise<void>;
+  discard: (entryId: number) => Promise<void>;
+}
+
+const OfflineContext = createContext<OfflineContextType | undefined>(undefined);
+
+export const useOffline = () => {
+  const context = useContext(OfflineContext);
+  if (context === undefined) {
+    throw new Error('useOffline must be used within an OfflineProvider');
+  }
+  return context;
+};
+
+/** Fired on window after an outbox replay so non-query views (e.g. case notes) can reload. */
+export const OUTBOX_REPLAYED_EVENT = 'outbox:replayed';
+
+export const OfflineProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const queryClient = useQueryClient();
+  const { isAuthenticated } = useAuth();
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+  const [isSyncing, setIsSyncing] = useState(false);
+
+  // Mirror the outbox into state
+  useEffect(() => {
+    const load = () => { listOutbox().then(setEntries); };
+    load();
+    return subscribeOutbox(load);
+  }, []);
+
+  // Persist every successful legal query result (including optimistic patches)
+  // so it can be served from IndexedDB when the next fetch has no network.
+  useEffect(() => {
+    return queryClient.getQueryCache().subscribe(event => {
+      if (event.type !== 'updated' || event.action.type !== 'success') return;
+      const { queryKey, state } = event.query;
+      if (queryKey[0] !== legalKeys.all[0] || state.data === undefined) return;
+      writeCache(offlineCacheKey(queryKey), state.data);
+    });
+  }, [queryClient]);
+
+  const afterReplay = useCallback((result: ReplayResult) => {
+    if (result.replayed > 0) {
+      queryClient.invalidateQueries({ queryKey: legalKeys.all });
+      window.dispatchEvent(new CustomEvent(OUTBOX_REPLAYED_EVENT));
+      toast({ title: 'Offline changes synced', description: `${result.replayed} change${result.replayed > 1 ? 's' : ''} saved to the server.` });
+    }
+  }, [queryClient]);
+
+  const syncNow = useCallback(async () => {
+    setIsSyncing(true);
+    try {
+      afterReplay(await replayOutbox());
+    } catch (error) {
+      console.error('Outbox replay failed', error);
+    } finally {
+      setIsSyncing(false);
+    }
+  }, [afterReplay]);
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      if (isAuthenticated) syncNow();
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+
+    // Flush anything left over from a previous session
+    if (isAuthenticated && navigator.onLine) syncNow();
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [isAuthenticated, syncNow]);
+
+  const overrideAndSync = useCallback(async (entryId: number, reason: string) => {
+    afterReplay(await overrideConflict(entryId, reason));
+  }, [afterReplay]);
+
+  const retry = useCallback(async (entryId: number) => {
+    afterReplay(await retryEntry(entryId));
+  }, [afterReplay]);
+
+  const value: OfflineContextType = {
+    isOnline,
+    entries,
+    pendingCount: entries.length,
+    isSyncing,
+    syncNow,
+    overrideAndSync,
+    retry,
+    discard: discardEntry,
+  };
+
+  return (
+    <OfflineContext.Provider value={value}>
+      {children}
+    </OfflineContext.Provider>
+  );
+};
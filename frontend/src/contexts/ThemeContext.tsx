@@ -1,5 +1,6 @@
 import React, { createContext, useContext, useEffect, useState } from 'react';
 import { getApiUrl, apiFetch } from '@/lib/api';
+import { postTabMessage } from '@/lib/tabSync';
 
 type Theme = 'dark' | 'light' | 'system';
 
@@ -65,12 +66,13 @@ export function ThemeProvider({
   // Save theme to DB silently (fire-and-forget, no error surfacing)
   const saveThemeToDB = async (newTheme: Theme) => {
     try {
-      await apiFetch(getApiUrl('/api/v1/auth/me'), {
+      const res = await apiFetch(getApiUrl('/api/v1/auth/me'), {
         method: 'PUT',
         headers: { 'Content-Type': 'application/json' },
         credentials: 'include',
         body: JSON.stringify({ preferences: { theme: newTheme } }),
       });
+      if (res.ok) postTabMessage({ type: 'user-updated' });
     } catch {
       // Silently ignore — localStorage is still updated so UX is unaffected
     }
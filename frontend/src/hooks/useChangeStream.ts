@@ -0,0 +1,195 @@
+/**
+ * Live change feed from `GET /api/v1/events` (Server-Sent Events).
+ *
+ * The backend pushes a typed event whenever a case, hearing, invoice or note
+ * owned by the current user is created, updated or deleted — including
+ * changes made from another device or by another session. Events are applied
+ * straight to the TanStack Query cache behind `LegalDataContext`; only data
+ * the event cannot carry (derived case fields, populated hearing lists) is
+ * invalidated.
+ *
+ * The browser's EventSource already reconnects after network drops and sends
+ * `Last-Event-ID`. When the server refuses the stream outright (typically an
+ * expired access token) the connection closes for good, so we refresh the
+ * session and reopen it ourselves, passing the last id as `?lastEventId=`.
+ */
+
+import { useEffect } from 'react';
+import { useQueryClient, type QueryClient, type QueryKey } from '@tanstack/react-query';
+
+import { useAuth } from '@/contexts/AuthContext';
+import type { Case, Hearing, Invoice } from '@/contexts/LegalDataContext';
+import { getApiUrl, refreshSession } from '@/lib/api';
+import { caseSchema, hearingSchema, invoiceSchema, type HearingWithCase } from '@/services/api/schemas';
+import { legalKeys } from './useLegalQueries';
+
+export type ChangeEntity = 'case' | 'hearing' | 'invoice' | 'note';
+export type ChangeAction = 'created' | 'updated' | 'deleted';
+
+export interface ChangeEvent {
+  id: string;
+  type: `${ChangeEntity}.${ChangeAction}`;
+  entity: ChangeEntity;
+  action: ChangeAction;
+  entityId: string;
+  caseId?: string;
+  /** The saved document (same shape as the REST response) for created/updated events */
+  data?: unknown;
+  at: number;
+}
+
+/**
+ * Fired on window for note changes (notes are not held in the query cache).
+ * `detail.caseId` is omitted after a resync, meaning "every case".
+ */
+export const NOTES_CHANGED_EVENT = 'notes:changed';
+
+const MAX_RETRY_DELAY_MS = 60 * 1000;
+
+function patchList<T extends { id: string }>(queryClient: QueryClient, key: QueryKey, update: (list: T[]) => T[]) {
+  queryClient.setQueryData<T[]>(key, old => (Array.isArray(old) ? update(old) : old));
+}
+
+function upsert<T extends { id: string }>(list: T[], item: T): T[] {
+  return list.some(x => x.id === item.id) ? list.map(x => (x.id === item.id ? item : x)) : [...list, item];
+}
+
+export function applyChange(queryClient: QueryClient, event: ChangeEvent) {
+  const { entity, action, entityId } = event;
+
+  switch (entity) {
+    case 'case':
+      if (action === 'deleted') {
+        patchList<Case>(queryClient, legalKeys.cases(), list => list.filter(c => c.id !== entityId));
+        queryClient.removeQueries({ queryKey: legalKeys.caseDetail(entityId) });
+        queryClient.removeQueries({ queryKey: legalKeys.hearingsByCase(entityId) });
+      } else if (event.data) {
+        const saved = caseSchema.parse(event.data);
+        patchList<Case>(queryClient, legalKeys.cases(), list => upsert(list, saved));
+        queryClient.setQueryData(legalKeys.caseDetail(entityId), saved);
+      } else {
+        // Deadline and link changes announce the case without sending it
+        queryClient.invalidateQueries({ queryKey: legalKeys.cases(), exact: true });
+        queryClient.invalidateQueries({ queryKey: legalKeys.caseDetail(entityId) });
+      }
+      // Paged lists depend on server-side sort/filter, so refetch rather than patch
+      queryClient.invalidateQueries({ queryKey: legalKeys.casePages() });
+      queryClient.invalidateQueries({ queryKey: legalKeys.caseBoard() });
+      queryClient.invalidateQueries({ queryKey: legalKeys.caseRanges() });
+      queryClient.invalidateQueries({ queryKey: legalKeys.caseConflicts() });
+      // as do the case summaries on the client pages
+      queryClient.invalidateQueries({ queryKey: legalKeys.clientPages() });
+      if (action !== 'updated') {
+        // Trashing or restoring a case takes its hearings along
+        queryClient.invalidateQueries({ queryKey: legalKeys.hearings() });
+      }
+      break;
+
+    case 'hearing': {
+      const keys = [legalKeys.hearings(), ...(event.caseId ? [legalKeys.hearingsByCase(event.caseId)] : [])];
+      if (action === 'deleted') {
+        keys.forEach(key => patchList<Hearing>(queryClient, key, list => list.filter(h => h.id !== entityId)));
+      } else if (action === 'updated' && event.data) {
+        // Update responses carry the populated case summary the lists display
+        const updated = hearingSchema.parse(event.data);
+        keys.forEach(key => patchList<HearingWithCase>(queryClient, key, list =>
+          list.map(h => (h.id === entityId ? { ...updated, populatedCase: updated.populatedCase || h.populatedCase } : h))
+        ));
+      } else {
+        // Create responses do not, and a case closure's cancellations send no hearing, so let the lists refetch
+        keys.forEach(key => queryClient.invalidateQueries({ queryKey: key, exact: true }));
+      }
+      // nextHearing on the parent case is recomputed server-side, and with it the client's next hearing
+      queryClient.invalidateQueries({ queryKey: legalKeys.cases() });
+      queryClient.invalidateQueries({ queryKey: legalKeys.clientPages() });
+      break;
+    }
+
+    case 'invoice':
+      if (action === 'deleted') {
+        patchList<Invoice>(queryClient, legalKeys.invoices(), list => list.filter(i => i.id !== entityId));
+      } else {
+        patchList<Invoice>(queryClient, legalKeys.invoices(), list => upsert(list, invoiceSchema.parse(event.data)));
+      }
+      queryClient.invalidateQueries({ queryKey: legalKeys.invoicePages() });
+      queryClient.invalidateQueries({ queryKey: legalKeys.invoiceSummary() });
+      break;
+
+    case 'note':
+      window.dispatchEvent(new CustomEvent(NOTES_CHANGED_EVENT, { detail: { caseId: event.caseId } }));
+      break;
+  }
+}
+
+/** Keep the legal data cache in sync with server-side changes while signed in. */
+export function useChangeStream() {
+  const queryClient = useQueryClient();
+  const { isAuthenticated } = useAuth();
+
+  useEffect(() => {
+    if (!isAuthenticated || typeof EventSource === 'undefined') return;
+
+    let source: EventSource | null = null;
+    let lastEventId: string | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    let attempt = 0;
+    let stopped = false;
+
+    const connect = () => {
+      const url = getApiUrl('/api/v1/events') + (lastEventId ? `?lastEventId=${encodeURIComponent(lastEventId)}` : '');
+      source = new EventSource(url, { withCredentials: true });
+
+      source.onopen = () => { attempt = 0; };
+
+      source.addEventListener('change', (e: MessageEvent) => {
+        if (e.lastEventId) lastEventId = e.lastEventId;
+        try {
+          applyChange(queryClient, JSON.parse(e.data));
+        } catch (error) {
+          console.error('Failed to apply change event', error);
+        }
+      });
+
+      // Missed more events than the server kept — refetch what is on screen
+      source.addEventListener('resync', () => {
+        queryClient.invalidateQueries({ queryKey: legalKeys.all });
+        window.dispatchEvent(new CustomEvent(NOTES_CHANGED_EVENT, { detail: {} }));
+      });
+
+      source.onerror = () => {
+        // Still CONNECTING means the browser is retrying on its own
+        if (source?.readyState === EventSource.CLOSED) scheduleReconnect();
+      };
+    };
+
+    const scheduleReconnect = () => {
+      source?.close();
+      clearTimeout(retryTimer);
+      if (stopped) return;
+      const delay = Math.min(MAX_RETRY_DELAY_MS, 1000 * 2 ** attempt++) * (0.5 + Math.random() / 2);
+      retryTimer = setTimeout(async () => {
+        // A refused stream is usually an expired access token. The shared refresh
+        // elects one tab to rotate the cookie, so tabs reconnecting together don't race it.
+        await refreshSession().catch(() => undefined);
+        if (!stopped) connect();
+      }, delay);
+    };
+
+    const handleOnline = () => {
+      if (source?.readyState !== EventSource.CLOSED) return;
+      attempt = 0;
+      clearTimeout(retryTimer);
+      connect();
+    };
+
+    connect();
+    window.addEventListener('online', handleOnline);
+
+    return () => {
+      stopped = true;
+      clearTimeout(retryTimer);
+      source?.close();
+      window.removeEventListener('online', handleOnline);
+    };
+  }, [isAuthenticated, queryClient]);
+}
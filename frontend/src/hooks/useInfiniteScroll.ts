@@ -0,0 +1,35 @@
+import { useEffect, useRef } from 'react';
+
+interface InfiniteScrollOptions {
+  hasNextPage: boolean;
+  isFetchingNextPage: boolean;
+  fetchNextPage: () => unknown;
+  /** How far below the viewport to start loading the next page */
+  rootMargin?: string;
+}
+
+/**
+ * Calls `fetchNextPage` when the returned sentinel element scrolls into view.
+ * Render the sentinel after the last row of an infinite list.
+ */
+export function useInfiniteScroll<E extends Element = HTMLDivElement>({
+  hasNextPage,
+  isFetchingNextPage,
+  fetchNextPage,
+  rootMargin = '400px',
+}: InfiniteScrollOptions) {
+  const sentinelRef = useRef<E>(null);
+
+  useEffect(() => {
+    const node = sentinelRef.current;
+    if (!node || !hasNextPage || isFetchingNextPage) return;
+    const observer = new IntersectionObserver(
+      entries => { if (entries[0]?.isIntersecting) fetchNextPage(); },
+      { rootMargin }
+    );
+    observer.observe(node);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage, rootMargin]);
+
+  return sentinelRef;
+}
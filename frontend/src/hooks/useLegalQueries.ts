@@ -0,0 +1,1261 @@
+/**
+ * TanStack Query hooks for the legal data entities (cases, clients, alerts,
+ * time entries, hearings, invoices).
+ *
+ * Each entity has a list query plus mutations. Mutations that users trigger
+ * most often (adding a case, recording a hearing, deleting an invoice) apply
+ * optimistically and roll back on failure; every mutation finishes by
+ * invalidating only the query keys it can have affected.
+ *
+ * Requests go through the typed client in `services/api`, so every result is
+ * already validated and mapped to the UI types.
+ *
+ * Lists are served from the IndexedDB copy when the network is unreachable,
+ * and hearing creates/updates made offline are queued in the outbox
+ * (`lib/offline/outbox`) instead of failing.
+ *
+ * The list pages (cases, clients, billing) page through the server with
+ * `use*Pages`, which are keyed under the entity key so the same invalidations
+ * refresh them.
+ *
+ * `LegalDataProvider` is built on top of these hooks so `useLegalData()`
+ * keeps working for existing pages. It does not load the cases, clients or
+ * invoices lists; components read those through the hooks here.
+ */
+
+import {
+  keepPreviousData,
+  useInfiniteQuery,
+  useMutation,
+  useQueries,
+  useQuery,
+  useQueryClient,
+  type InfiniteData,
+  type QueryClient,
+  type QueryKey,
+} from '@tanstack/react-query';
+
+import { useAuth } from '@/contexts/AuthContext';
+import type { Alert, Case, Client, Hearing, Invoice, TimeEntry } from '@/contexts/LegalDataContext';
+import { isNetworkError, readCache } from '@/lib/offline/idb';
+import { enqueue, type OutboxEntry } from '@/lib/offline/outbox';
+import {
+  alertsApi,
+  apiPath,
+  bulkApi,
+  calendarApi,
+  caseClosureApi,
+  caseFieldsApi,
+  caseLinksApi,
+  caseTimelineApi,
+  casesApi,
+  clientsApi,
+  courtsApi,
+  deadlinesApi,
+  documentFoldersApi,
+  hearingsApi,
+  importsApi,
+  historyApi,
+  invoicesApi,
+  timeEntriesApi,
+  trashApi,
+  viewsApi,
+  type BulkRecordType,
+  type BulkRequest,
+  type CaseDeadlineUpdate,
+  type CloseCaseInput,
+  type ConflictCandidatesRequest,
+  type CourtInput,
+  type DeadlineRequest,
+  type DirectoryField,
+  type HearingOverride,
+  type ImportOptions,
+  type JudgeInput,
+  type ListParams,
+  type NewAlert,
+  type NewCase,
+  type NewCaseDeadline,
+  type NewClient,
+  type NewHearing,
+  type NewInvoice,
+  type NewTimeEntry,
+  type SavedViewInput,
+  type SendInvoiceRequest,
+} from '@/services/api/client';
+import { isApiError } from '@/services/api/errors';
+import type {
+  BoardGrouping,
+  CaseFieldSchema,
+  CustomField,
+  EntityChange,
+  HearingWithCase,
+  HistoryEntityType,
+  ImportEntity,
+  Page,
+  SavedViewPage,
+  TrashList,
+  TrashType,
+} from '@/services/api/schemas';
+
+export type { ListParams, NewCase, NewClient, NewHearing, NewInvoice } from '@/services/api/client';
+export { HearingConflictError } from '@/services/api/errors';
+
+// ── Query keys ───────────────────────────────────────────────────────────────
+
+export const legalKeys = {
+  all: ['legal'] as const,
+  cases: () => [...legalKeys.all, 'cases'] as const,
+  clients: () => [...legalKeys.all, 'clients'] as const,
+  alerts: () => [...legalKeys.all, 'alerts'] as const,
+  timeEntries: () => [...legalKeys.all, 'timeEntries'] as const,
+  hearings: () => [...legalKeys.all, 'hearings'] as const,
+  hearingsByCase: (caseId: string) => [...legalKeys.hearings(), 'case', caseId] as const,
+  invoices: () => [...legalKeys.all, 'invoices'] as const,
+  casePages: () => [...legalKeys.cases(), 'pages'] as const,
+  caseDetail: (caseId: string) => [...legalKeys.cases(), 'detail', caseId] as const,
+  caseBoard: () => [...legalKeys.cases(), 'board'] as const,
+  caseConflicts: () => [...legalKeys.cases(), 'conflicts'] as const,
+  caseRanges: () => [...legalKeys.cases(), 'ranges'] as const,
+  clientPages: () => [...legalKeys.clients(), 'pages'] as const,
+  clientDetail: (clientId: string) => [...legalKeys.clients(), 'detail', clientId] as const,
+  invoicePages: () => [...legalKeys.invoices(), 'pages'] as const,
+  invoiceSummary: () => [...legalKeys.invoices(), 'summary'] as const,
+  templateDocuments: () => [...legalKeys.all, 'templateDocuments'] as const,
+  noteSearch: (q: string) => [...legalKeys.all, 'noteSearch', q] as const,
+  trash: () => [...legalKeys.all, 'trash'] as const,
+  history: (type: HistoryEntityType, id: string) => [...legalKeys.all, 'history', type, id] as const,
+  caseFields: () => [...legalKeys.all, 'caseFields'] as const,
+  caseLinks: (caseId: string) => [...legalKeys.all, 'caseLinks', caseId] as const,
+  caseTimeline: (caseId: string) => [...legalKeys.cases(), 'timeline', caseId] as const,
+  caseClosure: (caseId: string) => [...legalKeys.cases(), 'closure', caseId] as const,
+  deadlineRules: () => [...legalKeys.all, 'deadlineRules'] as const,
+  caseDeadlines: (caseId: string) => [...legalKeys.all, 'deadlines', caseId] as const,
+  courtHolidays: () => [...legalKeys.all, 'courtHolidays'] as const,
+  documentFolders: () => [...legalKeys.all, 'documentFolders'] as const,
+  imports: () => [...legalKeys.all, 'imports'] as const,
+  courts: () => [...legalKeys.all, 'courts'] as const,
+  judges: () => [...legalKeys.courts(), 'judges'] as const,
+  nameClusters: (field: DirectoryField) => [...legalKeys.courts(), 'cleanup', field] as const,
+  savedViews: (page: SavedViewPage) => [...legalKeys.all, 'savedViews', page] as const,
+  calendarFeed: () => [...legalKeys.all, 'calendarFeed'] as const,
+  calendarEvents: () => [...legalKeys.all, 'calendarEvents'] as const,
+  calendarEventRange: (from: string, to: string) => [...legalKeys.calendarEvents(), from, to] as const,
+  deadlinePreview: (input: DeadlineRequest) => [...legalKeys.all, 'deadlinePreview', input] as const,
+};
+
+// ── Fetch helpers ────────────────────────────────────────────────────────────
+
+/** IndexedDB key under which the offline copy of a query's data is kept. */
+export const offlineCacheKey = (queryKey: QueryKey) => `query:${JSON.stringify(queryKey)}`;
+
+/**
+ * Load a list through the API client. A 401 yields an empty list, matching the
+ * pre-query behaviour. When the network is unreachable the last cached copy for
+ * `queryKey` is returned.
+ */
+async function fetchList<T>(load: (signal?: AbortSignal) => Promise<T[]>, queryKey: QueryKey, signal?: AbortSignal): Promise<T[]> {
+  try {
+    return await load(signal);
+  } catch (error) {
+    if (isApiError(error) && error.status === 401) return [];
+    if (!signal?.aborted && isNetworkError(error)) {
+      const cached = await readCache<T[]>(offlineCacheKey(queryKey));
+      if (cached) return cached;
+    }
+    throw error;
+  }
+}
+
+/** Marker returned by mutations whose request was parked in the outbox. */
+const QUEUED = { queued: true } as const;
+type Queued = typeof QUEUED;
+
+const isQueued = (value: unknown): value is Queued => (value as Queued | undefined)?.queued === true;
+
+/**
+ * Run `send`, but when there is no connection store the equivalent request in
+ * the outbox for replay and return `QUEUED` instead of throwing.
+ */
+async function sendOrEnqueue<T>(
+  send: () => Promise<T>,
+  request: Pick<OutboxEntry, 'method' | 'path' | 'body' | 'label' | 'entity' | 'tempId'>
+): Promise<T | Queued> {
+  const queue = async () => {
+    await enqueue(request);
+    return QUEUED;
+  };
+  if (!navigator.onLine) return queue();
+  try {
+    return await send();
+  } catch (error) {
+    if (isNetworkError(error)) return queue();
+    throw error;
+  }
+}
+
+// ── Cache helpers ────────────────────────────────────────────────────────────
+
+type Snapshot = Array<[QueryKey, unknown]>;
+
+/** Cancel in-flight fetches for `key` and snapshot every matching cache entry for rollback. */
+async function snapshot(queryClient: QueryClient, key: QueryKey, exact = false): Promise<Snapshot> {
+  await queryClient.cancelQueries({ queryKey: key, exact });
+  return queryClient.getQueriesData({ queryKey: key, exact });
+}
+
+function restore(queryClient: QueryClient, saved?: Snapshot) {
+  saved?.forEach(([key, data]) => queryClient.setQueryData(key, data));
+}
+
+/**
+ * Apply `update` to every cached list under `key` (e.g. all hearings lists, per-case or global).
+ * `exact` limits it to the list at `key` itself, for prefixes shared with other arrays.
+ */
+function updateLists<T>(queryClient: QueryClient, key: QueryKey, update: (list: T[]) => T[], exact = false) {
+  queryClient.setQueriesData<T[]>({ queryKey: key, exact }, old => (Array.isArray(old) ? update(old) : old));
+}
+
+const tempId = () => `temp-${crypto.randomUUID()}`;
+
+// ── Queries ──────────────────────────────────────────────────────────────────
+
+// The full lists are only for pickers and lookups; list pages use the paged queries below
+export function useCases(enabled = true) {
+  const { isAuthenticated } = useAuth();
+  return useQuery({
+    queryKey: legalKeys.cases(),
+    queryFn: ({ signal, queryKey }) => fetchList(casesApi.list, queryKey, signal),
+    enabled: isAuthenticated && enabled,
+    networkMode: 'offlineFirst',
+  });
+}
+
+/** One case, for screens that show a single case without the full list. */
+export function useCase(caseId: string | undefined) {
+  const { isAuthenticated } = useAuth();
+  return useQuery({
+    queryKey: legalKeys.caseDetail(caseId ?? ''),
+    queryFn: ({ signal }) => casesApi.get(caseId as string, signal),
+    enabled: isAuthenticated && !!caseId,
+  });
+}
+
+export function useClients(enabled = true) {
+  const { isAuthenticated } = useAuth();
+  return useQuery({
+    queryKey: legalKeys.clients(),
+    queryFn: ({ signal, queryKey }) => fetchList(clientsApi.list, queryKey, signal),
+    enabled: isAuthenticated && enabled,
+    networkMode: 'offlineFirst',
+  });
+}
+
+/** One client, for pickers and screens that show a single client without the full list. */
+export function useClient(clientId: string | undefined) {
+  const { isAuthenticated } = useAuth();
+  return useQuery({
+    queryKey: legalKeys.clientDetail(clientId ?? ''),
+    queryFn: ({ signal }) => clientsApi.get(clientId as string, signal),
+    enabled: isAuthenticated && !!clientId,
+  });
+}
+
+// Module-level so useQueries keeps returning the same array while the clients are unchanged
+const loadedClients = (results: Array<{ data?: Client }>) => results.flatMap(result => (result.data ? [result.data] : []));
+
+/** The clients with these ids, as they load; for showing the few clients one case refers to. */
+export function useClientsById(clientIds: string[]) {
+  const { isAuthenticated } = useAuth();
+  return useQueries({
+    queries: clientIds.map(clientId => ({
+      queryKey: legalKeys.clientDetail(clientId),
+      queryFn: ({ signal }: { signal: AbortSignal }) => clientsApi.get(clientId, signal),
+      enabled: isAuthenticated,
+    })),
+    combine: loadedClients,
+  });
+}
+
+export function useAlerts() {
+  const { isAuthenticated } = useAuth();
+  return useQuery({
+    queryKey: legalKeys.alerts(),
+    queryFn: ({ signal, queryKey }) => fetchList(alertsApi.list, queryKey, signal),
+    enabled: isAuthenticated,
+    networkMode: 'offlineFirst',
+  });
+}
+
+export function useTimeEntries() {
+  const { isAuthenticated } = useAuth();
+  return useQuery({
+    queryKey: legalKeys.timeEntries(),
+    queryFn: ({ signal, queryKey }) => fetchList(timeEntriesApi.list, queryKey, signal),
+    enabled: isAuthenticated,
+    networkMode: 'offlineFirst',
+  });
+}
+
+/**
+ * Hearings for the whole account, or only those of `caseId` when given.
+ * The account-wide list carries the populated case summary (`populatedCase`).
+ */
+export function useHearings(caseId?: string) {
+  const { isAuthenticated } = useAuth();
+  return useQuery({
+    queryKey: caseId ? legalKeys.hearingsByCase(caseId) : legalKeys.hearings(),
+    queryFn: ({ signal, queryKey }) => fetchList<HearingWithCase>(s => (caseId ? hearingsApi.listByCase(caseId, s) : hearingsApi.list(s)), queryKey, signal),
+    enabled: isAuthenticated,
+    networkMode: 'offlineFirst',
+  });
+}
+
+export function useInvoices(enabled = true) {
+  const { isAuthenticated } = useAuth();
+  return useQuery({
+    queryKey: legalKeys.invoices(),
+    queryFn: ({ signal, queryKey }) => fetchList(invoicesApi.list, queryKey, signal),
+    enabled: isAuthenticated && enabled,
+    networkMode: 'offlineFirst',
+  });
+}
+
+/** Totals over every invoice, worked out on the server. */
+export function useInvoiceSummary() {
+  const { isAuthenticated } = useAuth();
+  return useQuery({
+    queryKey: legalKeys.invoiceSummary(),
+    queryFn: ({ signal }) => invoicesApi.summary(signal),
+    enabled: isAuthenticated,
+  });
+}
+
+// ── Paginated lists ──────────────────────────────────────────────────────────
+
+/** Filters and sort for a paginated list; the cursor is managed by the query. */
+export type ListFilters = Omit<ListParams, 'cursor' | 'limit'>;
+
+const EMPTY_PAGE = { items: [], nextCursor: null, total: 0 };
+
+/**
+ * Load one page. Like `fetchList`, a 401 yields an empty page, and without a
+ * network the first page falls back to the cached copy of this query.
+ */
+async function fetchPage<T>(
+  load: (params: ListParams, signal?: AbortSignal) => Promise<Page<T>>,
+  params: ListParams,
+  queryKey: QueryKey,
+  signal?: AbortSignal
+): Promise<Page<T>> {
+  try {
+    return await load(params, signal);
+  } catch (error) {
+    if (isApiError(error) && error.status === 401) return EMPTY_PAGE;
+    if (!params.cursor && !signal?.aborted && isNetworkError(error)) {
+      const cached = await readCache<InfiniteData<Page<T>>>(offlineCacheKey(queryKey));
+      if (cached?.pages?.[0]) return cached.pages[0];
+    }
+    throw error;
+  }
+}
+
+function usePagedList<T>(
+  key: QueryKey,
+  load: (params: ListParams, signal?: AbortSignal) => Promise<Page<T>>,
+  filters: ListFilters,
+  enabled: boolean
+) {
+  const { isAuthenticated } = useAuth();
+  return useInfiniteQuery({
+    queryKey: [...key, filters],
+    queryFn: ({ pageParam, signal, queryKey }) => fetchPage(load, { ...filters, cursor: pageParam }, queryKey, signal),
+    initialPageParam: null as string | null,
+    getNextPageParam: last => last.nextCursor,
+    enabled: isAuthenticated && enabled,
+    networkMode: 'offlineFirst',
+    // Keep the current rows on screen while a new filter/sort loads
+    placeholderData: keepPreviousData,
+  });
+}
+
+export const useCasePages = (filters: ListFilters, enabled = true) =>
+  usePagedList(legalKeys.casePages(), casesApi.page, filters, enabled);
+export const useClientPages = (filters: ListFilters, enabled = true) =>
+  usePagedList(legalKeys.clientPages(), clientsApi.page, filters, enabled);
+export const useInvoicePages = (filters: ListFilters, enabled = true) =>
+  usePagedList(legalKeys.invoicePages(), invoicesApi.page, filters, enabled);
+
+/** How many cases matching `filters` each case board column holds, counted on the server. */
+export function useCaseBoardCounts(groupBy: BoardGrouping, filters: ListFilters, enabled = true) {
+  const { isAuthenticated } = useAuth();
+  return useQuery({
+    queryKey: [...legalKeys.caseBoard(), groupBy, filters],
+    queryFn: ({ signal }) => casesApi.board(groupBy, filters, signal),
+    enabled: isAuthenticated && enabled,
+    placeholderData: keepPreviousData,
+  });
+}
+
+// A calendar range holds few cases, so each is read whole at the largest page size
+const RANGE_PAGE_SIZE = 100;
+
+/** Every case whose `dateField` falls between `from` and `to`, page after page. */
+async function casesDatedBetween(dateField: 'nextHearing' | 'hearingDate', from: Date, to: Date, signal?: AbortSignal) {
+  const cases: Case[] = [];
+  let cursor: string | null = null;
+  do {
+    const page = await casesApi.page({ dateField, from, to, limit: RANGE_PAGE_SIZE, cursor }, signal);
+    cases.push(...page.items);
+    cursor = page.nextCursor;
+  } while (cursor);
+  return cases;
+}
+
+/**
+ * Cases listed between `from` and `to`, for the calendar: by next hearing, or
+ * by hearing date for cases without one.
+ */
+export function useCasesListedBetween(from: Date, to: Date, enabled = true) {
+  const { isAuthenticated } = useAuth();
+  return useQuery({
+    queryKey: [...legalKeys.caseRanges(), from.toISOString(), to.toISOString()],
+    queryFn: async ({ signal }) => {
+      const [byNextHearing, byHearingDate] = await Promise.all([
+        casesDatedBetween('nextHearing', from, to, signal),
+        casesDatedBetween('hearingDate', from, to, signal),
+      ]);
+      return [...byNextHearing, ...byHearingDate.filter(case_ => !case_.nextHearing)];
+    },
+    enabled: isAuthenticated && enabled,
+    placeholderData: keepPreviousData,
+  });
+}
+
+/**
+ * Cases sharing the number, a party name or the hearing window of a case
+ * being entered, found on the server; the conflict checker and the
+ * duplicate-number warning work out which of them clash.
+ */
+export function useConflictCandidates(input: ConflictCandidatesRequest, enabled = true) {
+  const { isAuthenticated } = useAuth();
+  return useQuery({
+    queryKey: [...legalKeys.caseConflicts(), input],
+    queryFn: ({ signal }) => casesApi.conflictCandidates(input, signal),
+    enabled: isAuthenticated && enabled,
+    placeholderData: keepPreviousData,
+  });
+}
+
+// ── Case mutations ───────────────────────────────────────────────────────────
+// Timelines and closure checklists are arrays under the cases prefix too, so
+// optimistic updates touch only the full list.
+
+export function useAddCase() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (caseData: NewCase) => casesApi.create(caseData),
+    onMutate: async (caseData) => {
+      const saved = await snapshot(queryClient, legalKeys.cases(), true);
+      const optimistic: Case = { ...caseData, id: tempId(), createdAt: new Date(), updatedAt: new Date() };
+      updateLists<Case>(queryClient, legalKeys.cases(), list => [...list, optimistic], true);
+      return { saved, optimisticId: optimistic.id };
+    },
+    onSuccess: (created, _vars, ctx) => {
+      // The change stream may have delivered the new case already
+      updateLists<Case>(queryClient, legalKeys.cases(), list =>
+        list.filter(c => c.id !== created.id).map(c => c.id === ctx?.optimisticId ? created : c),
+        true
+      );
+    },
+    onError: (_err, _vars, ctx) => restore(queryClient, ctx?.saved),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: legalKeys.cases() }),
+  });
+}
+
+export function useUpdateCase() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, updates }: { id: string; updates: Partial<Case> }) => casesApi.update(id, updates),
+    onSuccess: (updated) => {
+      updateLists<Case>(queryClient, legalKeys.cases(), list => list.map(c => c.id === updated.id ? updated : c), true);
+      queryClient.invalidateQueries({ queryKey: legalKeys.cases() });
+    },
+  });
+}
+
+export function useDeleteCase() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (caseId: string) => casesApi.remove(caseId),
+    onSuccess: (_data, caseId) => {
+      updateLists<Case>(queryClient, legalKeys.cases(), list => list.filter(c => c.id !== caseId), true);
+      queryClient.removeQueries({ queryKey: legalKeys.hearingsByCase(caseId) });
+      queryClient.invalidateQueries({ queryKey: legalKeys.cases() });
+      // The case's hearings went to the Trash with it
+      queryClient.invalidateQueries({ queryKey: legalKeys.hearings() });
+    },
+  });
+}
+
+/** Re-read one case from the API and splice it into the cached list. */
+export function useRefreshCase() {
+  const queryClient = useQueryClient();
+  return async (caseId: string): Promise<Case> => {
+    const refreshed = await casesApi.get(caseId);
+    updateLists<Case>(queryClient, legalKeys.cases(), list => list.map(c => c.id === caseId ? refreshed : c), true);
+    queryClient.setQueryData(legalKeys.caseDetail(caseId), refreshed);
+    return refreshed;
+  };
+}
+
+// ── Client mutations ─────────────────────────────────────────────────────────
+
+export function useAddClient() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (clientData: NewClient) => clientsApi.create(clientData),
+    onSuccess: (saved) => {
+      updateLists<Client>(queryClient, legalKeys.clients(), list => [...list, saved]);
+      queryClient.invalidateQueries({ queryKey: legalKeys.clients() });
+    },
+  });
+}
+
+export function useUpdateClient() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, updates }: { id: string; updates: Partial<Client> }) => clientsApi.update(id, updates),
+    onSuccess: (updated) => {
+      updateLists<Client>(queryClient, legalKeys.clients(), list => list.map(c => c.id === updated.id ? updated : c));
+      queryClient.invalidateQueries({ queryKey: legalKeys.clients() });
+    },
+  });
+}
+
+export function useDeleteClient() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (clientId: string) => clientsApi.remove(clientId),
+    onSuccess: (_data, clientId) => {
+      updateLists<Client>(queryClient, legalKeys.clients(), list => list.filter(c => c.id !== clientId));
+      queryClient.invalidateQueries({ queryKey: legalKeys.clients() });
+    },
+  });
+}
+
+// ── Alert mutations ──────────────────────────────────────────────────────────
+
+export function useAddAlert() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (alertData: NewAlert) => alertsApi.create(alertData),
+    onSuccess: (created) => {
+      updateLists<Alert>(queryClient, legalKeys.alerts(), list => [...list, created]);
+      queryClient.invalidateQueries({ queryKey: legalKeys.alerts() });
+    },
+  });
+}
+
+export function useMarkAlertAsRead() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (alertId: string) => alertsApi.markRead(alertId),
+    onMutate: async (alertId) => {
+      const saved = await snapshot(queryClient, legalKeys.alerts());
+      updateLists<Alert>(queryClient, legalKeys.alerts(), list => list.map(a => a.id === alertId ? { ...a, isRead: true } : a));
+      return { saved };
+    },
+    onError: (_err, _alertId, ctx) => restore(queryClient, ctx?.saved),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: legalKeys.alerts() }),
+  });
+}
+
+export function useDeleteAlert() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (alertId: string) => alertsApi.remove(alertId),
+    onSuccess: (_data, alertId) => {
+      updateLists<Alert>(queryClient, legalKeys.alerts(), list => list.filter(a => a.id !== alertId));
+    },
+  });
+}
+
+// ── Time entry mutations ─────────────────────────────────────────────────────
+
+export function useAddTimeEntry() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (entry: NewTimeEntry) => timeEntriesApi.create(entry),
+    onSuccess: (created) => {
+      updateLists<TimeEntry>(queryClient, legalKeys.timeEntries(), list => [...list, created]);
+      queryClient.invalidateQueries({ queryKey: legalKeys.timeEntries() });
+    },
+  });
+}
+
+// ── Hearing mutations ────────────────────────────────────────────────────────
+
+/**
+ * Creating or changing a hearing moves the parent case's `nextHearing` on the
+ * server, so both the hearing lists and the case list are refreshed.
+ */
+function invalidateAfterHearingChange(queryClient: QueryClient) {
+  queryClient.invalidateQueries({ queryKey: legalKeys.hearings() });
+  queryClient.invalidateQueries({ queryKey: legalKeys.cases() });
+}
+
+export function useAddHearing() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    networkMode: 'always',
+    mutationFn: async ({ hearing, override = false, overrideReason }: { hearing: NewHearing } & HearingOverride) => {
+      const pendingId = tempId();
+      const result = await sendOrEnqueue(() => hearingsApi.create(hearing, { override, overrideReason }), {
+        method: 'POST',
+        path: apiPath('/hearings'),
+        body: { ...hearing, override, overrideReason },
+        entity: 'hearing',
+        tempId: pendingId,
+        label: `New hearing on ${new Date(hearing.hearingDate).toLocaleDateString()}`,
+      });
+      // Queued offline: stand in a local copy until the outbox replays it
+      if (isQueued(result)) {
+        const now = new Date();
+        return { ...hearing, id: pendingId, createdAt: now, updatedAt: now, pendingSync: true } as HearingWithCase & { pendingSync?: boolean };
+      }
+      return result as HearingWithCase & { pendingSync?: boolean };
+    },
+    onSuccess: (created) => {
+      // Only the account-wide list is patched in place; per-case lists refetch on invalidation.
+      queryClient.setQueryData<Hearing[]>(legalKeys.hearings(), old => (old ? [...old.filter(h => h.id !== created.id), created] : old));
+    },
+    onSettled: (saved) => {
+      if (!saved?.pendingSync) invalidateAfterHearingChange(queryClient);
+    },
+  });
+}
+
+export function useUpdateHearing() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    networkMode: 'always',
+    mutationFn: ({ id, updates, override, overrideReason }: { id: string; updates: Partial<Hearing> } & HearingOverride) =>
+      sendOrEnqueue(() => hearingsApi.update(id, updates, { override, overrideReason }), {
+        method: 'PUT',
+        path: apiPath(`/hearings/${id}`),
+        body: override === undefined ? updates : { ...updates, override, overrideReason },
+        entity: 'hearing',
+        label: `Hearing update${updates.status ? ` (${updates.status})` : ''}`,
+      }),
+    onMutate: async ({ id, updates }) => {
+      const saved = await snapshot(queryClient, legalKeys.hearings());
+      updateLists<Hearing>(queryClient, legalKeys.hearings(), list => list.map(h => h.id === id ? { ...h, ...updates, updatedAt: new Date() } : h));
+      return { saved };
+    },
+    onSuccess: (updated, { id }) => {
+      // Queued offline: the optimistic copy stays until the replay succeeds
+      if (isQueued(updated)) return;
+      // Keep the populated case summary the optimistic copy already had when the
+      // response only carries a bare case reference.
+      updateLists<HearingWithCase>(queryClient, legalKeys.hearings(), list =>
+        list.map(h => (h.id === id ? { ...updated, populatedCase: updated.populatedCase || h.populatedCase } : h))
+      );
+    },
+    onError: (_err, _vars, ctx) => restore(queryClient, ctx?.saved),
+    onSettled: (updated) => {
+      if (!isQueued(updated)) invalidateAfterHearingChange(queryClient);
+    },
+  });
+}
+
+export function useDeleteHearing() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (hearingId: string) => hearingsApi.remove(hearingId),
+    onSuccess: (_data, hearingId) => {
+      updateLists<Hearing>(queryClient, legalKeys.hearings(), list => list.filter(h => h.id !== hearingId));
+    },
+    onSettled: () => invalidateAfterHearingChange(queryClient),
+  });
+}
+
+export function checkHearingConflict(
+  startAt: Date,
+  endAt: Date,
+  timezone: string,
+  resourceScope: unknown = {},
+  excludeHearingId?: string,
+  caseId?: string
+) {
+  return hearingsApi.checkConflict({ startAt, endAt, timezone, resourceScope, excludeHearingId, caseId });
+}
+
+// ── Invoice mutations ────────────────────────────────────────────────────────
+
+export function useCreateInvoice() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (invoice: NewInvoice) => invoicesApi.create(invoice),
+    onSuccess: (created) => {
+      updateLists<Invoice>(queryClient, legalKeys.invoices(), list => [created, ...list.filter(i => i.id !== created.id)]);
+      queryClient.invalidateQueries({ queryKey: legalKeys.invoices() });
+    },
+  });
+}
+
+export function useUpdateInvoice() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, updates }: { id: string; updates: Partial<Invoice> }) => invoicesApi.update(id, updates),
+    onSuccess: (updated) => {
+      updateLists<Invoice>(queryClient, legalKeys.invoices(), list => list.map(i => i.id === updated.id ? updated : i));
+      queryClient.invalidateQueries({ queryKey: legalKeys.invoices() });
+    },
+  });
+}
+
+export function useDeleteInvoice() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (invoiceId: string) => invoicesApi.remove(invoiceId),
+    onMutate: async (invoiceId) => {
+      const saved = await snapshot(queryClient, legalKeys.invoices());
+      updateLists<Invoice>(queryClient, legalKeys.invoices(), list => list.filter(i => i.id !== invoiceId));
+      return { saved };
+    },
+    onError: (_err, _invoiceId, ctx) => restore(queryClient, ctx?.saved),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: legalKeys.invoices() }),
+  });
+}
+
+export function useSendInvoice() {
+  return useMutation({
+    mutationFn: async ({ id, payload }: { id: string; payload: SendInvoiceRequest }) => {
+      const { previewUrl } = await invoicesApi.send(id, payload);
+      return { previewUrl };
+    },
+  });
+}
+
+// ── Trash ────────────────────────────────────────────────────────────────────
+
+/** Deleted cases, clients, invoices and documents awaiting purge. */
+export function useTrash() {
+  const { isAuthenticated } = useAuth();
+  return useQuery({
+    queryKey: legalKeys.trash(),
+    queryFn: ({ signal }) => trashApi.list(undefined, signal),
+    enabled: isAuthenticated,
+    refetchOnMount: 'always',
+  });
+}
+
+/** Restoring can bring back a case with its hearings and notes, so every legal list is refreshed. */
+export function useRestoreTrashItem() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ type, id }: { type: TrashType; id: string }) => trashApi.restore(type, id),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: legalKeys.all }),
+  });
+}
+
+export function usePurgeTrashItem() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ type, id }: { type: TrashType; id: string }) => trashApi.purge(type, id),
+    onMutate: ({ type, id }) => {
+      queryClient.setQueryData<TrashList>(
+        legalKeys.trash(),
+        data => data && { ...data, items: data.items.filter(item => item.type !== type || item.id !== id) }
+      );
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: legalKeys.trash() }),
+  });
+}
+
+// ── Change history ───────────────────────────────────────────────────────────
+
+export function useEntityHistory(type: HistoryEntityType, id: string | undefined) {
+  const { isAuthenticated } = useAuth();
+  return useQuery({
+    queryKey: legalKeys.history(type, id ?? ''),
+    queryFn: ({ signal }) => historyApi.list(type, id!, signal),
+    enabled: isAuthenticated && !!id,
+  });
+}
+
+export function useRevertChange() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ change, field }: { change: EntityChange; field: string }) => historyApi.revert(change, field),
+    onSuccess: (_data, { change }) => {
+      queryClient.invalidateQueries({ queryKey: legalKeys.history(change.entityType, change.entityId) });
+      if (change.entityType === 'hearing') {
+        invalidateAfterHearingChange(queryClient);
+      } else {
+        const listKey = { case: legalKeys.cases, client: legalKeys.clients, invoice: legalKeys.invoices }[change.entityType];
+        queryClient.invalidateQueries({ queryKey: listKey() });
+      }
+    },
+  });
+}
+
+// ── Custom case fields ───────────────────────────────────────────────────────
+
+/** The firm's custom field schemas, one per case type. */
+export function useCaseFieldSchemas() {
+  const { isAuthenticated } = useAuth();
+  return useQuery({
+    queryKey: legalKeys.caseFields(),
+    queryFn: ({ signal }) => caseFieldsApi.list(signal),
+    enabled: isAuthenticated,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+export function useSaveCaseFieldSchema() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ caseType, fields }: { caseType: string; fields: CustomField[] }) => caseFieldsApi.save(caseType, fields),
+    onSuccess: saved => {
+      queryClient.setQueryData<CaseFieldSchema[]>(legalKeys.caseFields(), list =>
+        list && [...list.filter(s => s.caseType !== saved.caseType), saved].sort((a, b) => a.caseType.localeCompare(b.caseType))
+      );
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: legalKeys.caseFields() }),
+  });
+}
+
+export function useDeleteCaseFieldSchema() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (caseType: string) => caseFieldsApi.remove(caseType),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: legalKeys.caseFields() }),
+  });
+}
+
+// ── Case timeline ────────────────────────────────────────────────────────────
+
+/** Hearings, orders, notes, documents, invoices and time of one case, oldest first. */
+export function useCaseTimeline(caseId: string | undefined, enabled = true) {
+  const { isAuthenticated } = useAuth();
+  return useQuery({
+    queryKey: legalKeys.caseTimeline(caseId ?? ''),
+    queryFn: ({ signal }) => caseTimelineApi.get(caseId as string, signal),
+    enabled: isAuthenticated && !!caseId && enabled,
+  });
+}
+
+// ── Linked cases ─────────────────────────────────────────────────────────────
+
+/** Every case reachable from `caseId` through appeal, revision, transfer and connected links. */
+export function useCaseLinkGraph(caseId: string | undefined) {
+  const { isAuthenticated } = useAuth();
+  return useQuery({
+    queryKey: legalKeys.caseLinks(caseId ?? ''),
+    queryFn: ({ signal }) => caseLinksApi.graph(caseId as string, signal),
+    enabled: isAuthenticated && !!caseId,
+  });
+}
+
+// A link changes the graph of every case in it, so drop all cached graphs
+const invalidateCaseLinks = (queryClient: QueryClient) =>
+  queryClient.invalidateQueries({ queryKey: [...legalKeys.all, 'caseLinks'] });
+
+export function useAddCaseLink() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ caseId, link }: { caseId: string; link: Parameters<typeof caseLinksApi.add>[1] }) =>
+      caseLinksApi.add(caseId, link),
+    onSettled: () => invalidateCaseLinks(queryClient),
+  });
+}
+
+export function useRemoveCaseLink() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ caseId, linkId }: { caseId: string; linkId: string }) => caseLinksApi.remove(caseId, linkId),
+    onSettled: () => invalidateCaseLinks(queryClient),
+  });
+}
+
+// ── Case closure ─────────────────────────────────────────────────────────────
+
+/** Pending invoices, unbilled time, hearings and reminders still ahead, for the closure wizard. */
+export function useClosureChecklist(caseId: string | undefined, enabled = true) {
+  const { isAuthenticated } = useAuth();
+  return useQuery({
+    queryKey: legalKeys.caseClosure(caseId ?? ''),
+    queryFn: ({ signal }) => caseClosureApi.checklist(caseId as string, signal),
+    enabled: isAuthenticated && !!caseId && enabled,
+  });
+}
+
+// Closing cancels hearings, removes reminders and may add an appeal deadline
+function invalidateAfterClosure(queryClient: QueryClient, caseId: string) {
+  queryClient.invalidateQueries({ queryKey: legalKeys.cases() });
+  queryClient.invalidateQueries({ queryKey: legalKeys.hearings() });
+  queryClient.invalidateQueries({ queryKey: legalKeys.alerts() });
+  queryClient.invalidateQueries({ queryKey: legalKeys.caseDeadlines(caseId) });
+}
+
+export function useCloseCase() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ caseId, input }: { caseId: string; input: CloseCaseInput }) => caseClosureApi.close(caseId, input),
+    onSettled: (_data, _error, { caseId }) => invalidateAfterClosure(queryClient, caseId),
+  });
+}
+
+export function useReopenCase() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ caseId, reason }: { caseId: string; reason: string }) => caseClosureApi.reopen(caseId, reason),
+    onSettled: (_data, _error, { caseId }) => invalidateAfterClosure(queryClient, caseId),
+  });
+}
+
+// ── Bulk actions ─────────────────────────────────────────────────────────────
+
+const BULK_LIST_KEYS: Record<BulkRecordType, () => QueryKey> = {
+  case: legalKeys.cases,
+  client: legalKeys.clients,
+  invoice: legalKeys.invoices,
+};
+
+/** The user's document folders, for pickers outside the Documents page. */
+export function useDocumentFolders(enabled = true) {
+  const { isAuthenticated } = useAuth();
+  return useQuery({
+    queryKey: legalKeys.documentFolders(),
+    queryFn: ({ signal }) => documentFoldersApi.list(signal),
+    enabled: isAuthenticated && enabled,
+  });
+}
+
+/** Run one action over a selection; the result lists what failed and why. */
+export function useBulkAction() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ type, ...input }: BulkRequest & { type: BulkRecordType }) => bulkApi.run(type, input),
+    onSettled: (_data, _error, { type, action }) => {
+      queryClient.invalidateQueries({ queryKey: BULK_LIST_KEYS[type]() });
+      if (action === 'trash') {
+        queryClient.invalidateQueries({ queryKey: legalKeys.trash() });
+        // Trashed cases take their hearings along
+        if (type === 'case') queryClient.invalidateQueries({ queryKey: legalKeys.hearings() });
+      }
+    },
+  });
+}
+
+// ── Spreadsheet imports ──────────────────────────────────────────────────────
+
+/** Applied and reverted imports, newest first. */
+export function useImports() {
+  const { isAuthenticated } = useAuth();
+  return useQuery({
+    queryKey: legalKeys.imports(),
+    queryFn: ({ signal }) => importsApi.list(signal),
+    enabled: isAuthenticated,
+  });
+}
+
+export function useUploadImport() {
+  return useMutation({
+    mutationFn: ({ entity, file }: { entity: ImportEntity; file: File }) => importsApi.upload(entity, file),
+  });
+}
+
+export function usePreviewImport() {
+  return useMutation({
+    mutationFn: ({ id, ...input }: ImportOptions & { id: string }) => importsApi.preview(id, input),
+  });
+}
+
+/** An import can create, merge into or trash any of these */
+function invalidateImported(queryClient: QueryClient) {
+  [legalKeys.imports(), legalKeys.cases(), legalKeys.clients(), legalKeys.hearings(), legalKeys.trash()]
+    .forEach(queryKey => queryClient.invalidateQueries({ queryKey }));
+}
+
+export function useCommitImport() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, ...input }: ImportOptions & { id: string; merge: number[] }) => importsApi.commit(id, input),
+    onSettled: () => invalidateImported(queryClient),
+  });
+}
+
+/** Undo a whole import: created records go to the Trash, merged ones get their old values back. */
+export function useRevertImport() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: string) => importsApi.revert(id),
+    onSettled: () => invalidateImported(queryClient),
+  });
+}
+
+// ── Court directory ──────────────────────────────────────────────────────────
+
+const DIRECTORY_STALE_MS = 5 * 60 * 1000;
+
+/** Every court the firm sees: the shared directory and its own entries. Forms filter it as the user types. */
+export function useCourts() {
+  const { isAuthenticated } = useAuth();
+  return useQuery({
+    queryKey: legalKeys.courts(),
+    queryFn: ({ signal }) => courtsApi.list('', signal),
+    enabled: isAuthenticated,
+    staleTime: DIRECTORY_STALE_MS,
+  });
+}
+
+export function useJudges() {
+  const { isAuthenticated } = useAuth();
+  return useQuery({
+    queryKey: legalKeys.judges(),
+    queryFn: ({ signal }) => courtsApi.judges({}, signal),
+    enabled: isAuthenticated,
+    staleTime: DIRECTORY_STALE_MS,
+  });
+}
+
+export function useAddCourt() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (court: CourtInput) => courtsApi.create(court),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: legalKeys.courts() }),
+  });
+}
+
+/** Deleting a court unlinks the cases, hearings and judges pointing at it. */
+export function useDeleteCourt() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: string) => courtsApi.remove(id),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: legalKeys.courts() }),
+  });
+}
+
+export function useAddJudge() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (judge: JudgeInput) => courtsApi.createJudge(judge),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: legalKeys.judges() }),
+  });
+}
+
+export function useDeleteJudge() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: string) => courtsApi.removeJudge(id),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: legalKeys.judges() }),
+  });
+}
+
+/** Spellings of court or judge names on unlinked cases and hearings, grouped for the clean-up. */
+export function useNameClusters(field: DirectoryField, enabled = true) {
+  const { isAuthenticated } = useAuth();
+  return useQuery({
+    queryKey: legalKeys.nameClusters(field),
+    queryFn: ({ signal }) => courtsApi.nameClusters(field, signal),
+    enabled: isAuthenticated && enabled,
+  });
+}
+
+/** Rewrite every case and hearing using one of `values` to a directory entry. */
+export function useApplyNameCluster() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ field, ...input }: { field: DirectoryField; values: string[]; targetId: string }) =>
+      courtsApi.applyCluster(field, input),
+    onSettled: (_data, _error, { field }) => {
+      [legalKeys.nameClusters(field), legalKeys.cases(), legalKeys.hearings()]
+        .forEach(queryKey => queryClient.invalidateQueries({ queryKey }));
+    },
+  });
+}
+
+// ── Saved views ──────────────────────────────────────────────────────────────
+
+/** The user's saved views of a list page, then those colleagues shared. */
+export function useSavedViews(page: SavedViewPage) {
+  const { isAuthenticated } = useAuth();
+  return useQuery({
+    queryKey: legalKeys.savedViews(page),
+    queryFn: ({ signal }) => viewsApi.list(page, signal),
+    enabled: isAuthenticated,
+  });
+}
+
+export function useSaveView(page: SavedViewPage) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, ...view }: Partial<SavedViewInput> & { id?: string }) => (id
+      ? viewsApi.update(id, view)
+      : viewsApi.create({ name: '', state: {}, ...view, page })),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: legalKeys.savedViews(page) }),
+  });
+}
+
+export function useDeleteView(page: SavedViewPage) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: string) => viewsApi.remove(id),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: legalKeys.savedViews(page) }),
+  });
+}
+
+// ── Deadlines ────────────────────────────────────────────────────────────────
+
+/** The statutory rule table and the default reminder schedule. */
+export function useDeadlineRules() {
+  const { isAuthenticated } = useAuth();
+  return useQuery({
+    queryKey: legalKeys.deadlineRules(),
+    queryFn: ({ signal }) => deadlinesApi.rules(signal),
+    enabled: isAuthenticated,
+    staleTime: Infinity,
+  });
+}
+
+/** Due date for a rule and trigger date, computed server-side against the firm's court holidays. */
+export function useDeadlinePreview(input: DeadlineRequest | null) {
+  const { isAuthenticated } = useAuth();
+  return useQuery({
+    queryKey: legalKeys.deadlinePreview(input as DeadlineRequest),
+    queryFn: () => deadlinesApi.compute(input as DeadlineRequest),
+    enabled: isAuthenticated && !!input,
+    retry: false,
+  });
+}
+
+export function useCaseDeadlines(caseId: string | undefined) {
+  const { isAuthenticated } = useAuth();
+  return useQuery({
+    queryKey: legalKeys.caseDeadlines(caseId ?? ''),
+    queryFn: ({ signal }) => deadlinesApi.listForCase(caseId as string, signal),
+    enabled: isAuthenticated && !!caseId,
+  });
+}
+
+// Saving, rescheduling or closing a deadline replaces its reminder alerts
+function invalidateAfterDeadlineChange(queryClient: QueryClient, caseId: string) {
+  queryClient.invalidateQueries({ queryKey: legalKeys.caseDeadlines(caseId) });
+  queryClient.invalidateQueries({ queryKey: legalKeys.alerts() });
+}
+
+export function useCreateCaseDeadline() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ caseId, deadline }: { caseId: string; deadline: NewCaseDeadline }) =>
+      deadlinesApi.create(caseId, deadline),
+    onSettled: (_data, _error, { caseId }) => invalidateAfterDeadlineChange(queryClient, caseId),
+  });
+}
+
+export function useUpdateCaseDeadline() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ caseId, id, updates }: { caseId: string; id: string; updates: CaseDeadlineUpdate }) =>
+      deadlinesApi.update(caseId, id, updates),
+    onSettled: (_data, _error, { caseId }) => invalidateAfterDeadlineChange(queryClient, caseId),
+  });
+}
+
+export function useDeleteCaseDeadline() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ caseId, id }: { caseId: string; id: string }) => deadlinesApi.remove(caseId, id),
+    onSettled: (_data, _error, { caseId }) => invalidateAfterDeadlineChange(queryClient, caseId),
+  });
+}
+
+export function useCourtHolidays() {
+  const { isAuthenticated } = useAuth();
+  return useQuery({
+    queryKey: legalKeys.courtHolidays(),
+    queryFn: ({ signal }) => deadlinesApi.holidays(signal),
+    enabled: isAuthenticated,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+export function useAddCourtHoliday() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: deadlinesApi.addHoliday,
+    onSettled: () => queryClient.invalidateQueries({ queryKey: legalKeys.courtHolidays() }),
+  });
+}
+
+export function useDeleteCourtHoliday() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: deadlinesApi.removeHoliday,
+    onSettled: () => queryClient.invalidateQueries({ queryKey: legalKeys.courtHolidays() }),
+  });
+}
+
+export function useCalendarFeed() {
+  const { isAuthenticated } = useAuth();
+  return useQuery({
+    queryKey: legalKeys.calendarFeed(),
+    queryFn: ({ signal }) => calendarApi.feed(signal),
+    enabled: isAuthenticated,
+  });
+}
+
+/** Creates the feed, or regenerates it so the previous URL stops working. */
+export function useCreateCalendarFeed() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: calendarApi.createFeed,
+    onSettled: () => queryClient.invalidateQueries({ queryKey: legalKeys.calendarFeed() }),
+  });
+}
+
+export function useRevokeCalendarFeed() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: calendarApi.revokeFeed,
+    onSettled: () => queryClient.invalidateQueries({ queryKey: legalKeys.calendarFeed() }),
+  });
+}
+
+/** Standalone calendar events from `from` to `to` (YYYY-MM-DD, inclusive). */
+export function useCalendarEvents(from: string, to: string) {
+  const { isAuthenticated } = useAuth();
+  return useQuery({
+    queryKey: legalKeys.calendarEventRange(from, to),
+    queryFn: ({ signal }) => calendarApi.events(from, to, signal),
+    enabled: isAuthenticated,
+  });
+}
+
+export function useDeleteCalendarEvent() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: calendarApi.removeEvent,
+    onSettled: () => queryClient.invalidateQueries({ queryKey: legalKeys.calendarEvents() }),
+  });
+}
+
+export function usePreviewCalendarImport() {
+  return useMutation({
+    mutationFn: calendarApi.previewImport,
+  });
+}
+
+/** An .ics import creates hearings, which move their cases' next hearing, and standalone events. */
+export function useApplyCalendarImport() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: calendarApi.applyImport,
+    onSettled: () => {
+      [legalKeys.hearings(), legalKeys.cases(), legalKeys.calendarEvents()]
+        .forEach(queryKey => queryClient.invalidateQueries({ queryKey }));
+    },
+  });
+}
@@ -0,0 +1,83 @@
+import { useCallback, useEffect, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import type { SavedView, SavedViewPage } from '@/services/api/schemas';
+
+/** Query parameter naming the saved view a list was opened from. */
+export const VIEW_PARAM = 'view';
+
+const sessionKey = (page: SavedViewPage) => `listView:${page}`;
+
+export type ListViewState = Record<string, string>;
+
+/**
+ * List settings (filters, sort, visible columns, grouping) kept in the URL
+ * query string, so a list can be bookmarked and saved as a named view. Only
+ * values that differ from `defaults` appear in the URL; `defaults` must be a
+ * stable (module-level) object. The last settings used on a page are kept for
+ * the session and restored when the page is opened without any.
+ */
+export function useListView<T extends ListViewState>(page: SavedViewPage, defaults: T) {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const keys = useMemo(() => Object.keys(defaults), [defaults]);
+
+  const state = useMemo(() => {
+    const next: ListViewState = { ...defaults };
+    keys.forEach(key => {
+      const value = searchParams.get(key);
+      if (value !== null) next[key] = value;
+    });
+    return next as T;
+  }, [defaults, keys, searchParams]);
+
+  const viewId = searchParams.get(VIEW_PARAM);
+  const hasSettings = keys.some(key => searchParams.has(key));
+
+  // The settings that differ from the defaults: what a saved view stores
+  const changed = useMemo(
+    () => Object.fromEntries(keys.filter(key => state[key] !== defaults[key]).map(key => [key, state[key]])),
+    [keys, state, defaults]
+  );
+
+  const write = useCallback((values: Partial<T>, view?: string | null) => {
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      Object.entries(values).forEach(([key, value]) => {
+        if (value === undefined || value === defaults[key]) next.delete(key);
+        else next.set(key, value);
+      });
+      if (view === null) next.delete(VIEW_PARAM);
+      else if (view) next.set(VIEW_PARAM, view);
+      return next;
+    }, { replace: true });
+  }, [defaults, setSearchParams]);
+
+  /** Change some settings; the saved view the list came from stays selected, now modified. */
+  const update = useCallback((patch: Partial<T>) => write(patch), [write]);
+
+  const applyView = useCallback((view: SavedView) => {
+    const known = Object.fromEntries(Object.entries(view.state).filter(([key]) => key in defaults));
+    write({ ...defaults, ...known } as T, view.id);
+  }, [defaults, write]);
+
+  const reset = useCallback(() => write(defaults, null), [defaults, write]);
+
+  // Restore the session's last settings when the page opens without any (runs before they are stored below)
+  useEffect(() => {
+    if (hasSettings || viewId) return;
+    try {
+      const saved = JSON.parse(sessionStorage.getItem(sessionKey(page)) || 'null') as { state: Partial<T>; viewId: string | null } | null;
+      if (saved && Object.keys(saved.state).length > 0) write(saved.state, saved.viewId);
+    } catch {
+      // A malformed entry is simply ignored
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  useEffect(() => {
+    sessionStorage.setItem(sessionKey(page), JSON.stringify({ state: changed, viewId }));
+  }, [page, changed, viewId]);
+
+  return { state, changed, viewId, hasSettings, update, applyView, reset };
+}
+
+export type ListView<T extends ListViewState = ListViewState> = ReturnType<typeof useListView<T>>;
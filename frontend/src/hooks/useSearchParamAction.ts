@@ -0,0 +1,25 @@
+import { useEffect, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
+
+/**
+ * Deep-link hook: when the URL carries `?<name>=value`, call `handler(value)`
+ * once `ready` (e.g. after the data it refers to has loaded), then drop the
+ * param so a refresh or back navigation does not repeat the action.
+ * Used by the command palette to open records on other pages.
+ */
+export function useSearchParamAction(name: string, handler: (value: string) => void, ready = true) {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const value = searchParams.get(name);
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  useEffect(() => {
+    if (value === null || !ready) return;
+    handlerRef.current(value);
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      next.delete(name);
+      return next;
+    }, { replace: true });
+  }, [name, value, ready, setSearchParams]);
+}
@@ -0,0 +1,47 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+
+/**
+ * Multi-select over a list of record ids. Ids that drop out of the list
+ * (filtered away, trashed) are deselected so bulk actions only ever apply to
+ * rows the user can see.
+ */
+export function useSelection(visibleIds: string[]) {
+  const [selected, setSelected] = useState<Set<string>>(() => new Set());
+
+  const visibleKey = visibleIds.join(',');
+  useEffect(() => {
+    setSelected(prev => {
+      const visible = new Set(visibleIds);
+      const kept = [...prev].filter(id => visible.has(id));
+      return kept.length === prev.size ? prev : new Set(kept);
+    });
+    // visibleKey stands in for the array, which is rebuilt on every render
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [visibleKey]);
+
+  const toggle = useCallback((id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  }, []);
+
+  const allSelected = visibleIds.length > 0 && visibleIds.every(id => selected.has(id));
+
+  const toggleAll = () => setSelected(allSelected ? new Set() : new Set(visibleIds));
+
+  const selectOnly = useCallback((ids: string[]) => setSelected(new Set(ids)), []);
+  const selectedIds = useMemo(() => [...selected], [selected]);
+
+  return {
+    selectedIds,
+    isSelected: (id: string) => selected.has(id),
+    allSelected,
+    someSelected: selected.size > 0 && !allSelected,
+    toggle,
+    toggleAll,
+    selectOnly,
+  };
+}
@@ -2,6 +2,9 @@
  * API utility functions for making requests to the backend
  */
 
+import { recordApiCall, type ApiCallOutcome } from './apiTelemetry';
+import { runExclusive } from './tabSync';
+
 /**
  * Get the API base URL for fetch() calls.
  *
@@ -42,14 +45,125 @@ export function getOAuthUrl(path: string): string {
 }
 
 
-export const fetchWithTimeout = (url: string | URL, options = {}, timeout = 8000) => {
-  return Promise.race([
-    fetch(url, options as RequestInit),
-    new Promise<Response>((_, reject) =>
-      setTimeout(() => reject(new Error("timeout")), timeout)
-    )
-  ]);
-};
+export const DEFAULT_TIMEOUT_MS = 8000;
+
+/** Raised when a request is aborted because it ran past its timeout. */
+export class RequestTimeoutError extends Error {
+  readonly url: string;
+  readonly timeoutMs: number;
+
+  constructor(url: string, timeoutMs: number) {
+    super('timeout');
+    this.name = 'RequestTimeoutError';
+    this.url = url;
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * fetch() that really aborts the request after `timeout` ms (0 disables the
+ * timeout) or when `options.signal` fires. The timeout covers the upload and
+ * waiting for response headers, not reading the body.
+ */
+export async function fetchWithTimeout(url: string | URL, options: RequestInit = {}, timeout = DEFAULT_TIMEOUT_MS): Promise<Response> {
+  const controller = new AbortController();
+  const callerSignal = options.signal;
+  const forwardAbort = () => controller.abort(callerSignal?.reason);
+  if (callerSignal?.aborted) forwardAbort();
+  else callerSignal?.addEventListener('abort', forwardAbort, { once: true });
+
+  let timedOut = false;
+  const timer = timeout > 0
+    ? setTimeout(() => { timedOut = true; controller.abort(); }, timeout)
+    : undefined;
+
+  try {
+    return await fetch(url, { ...options, signal: controller.signal });
+  } catch (error) {
+    if (timedOut) throw new RequestTimeoutError(String(url), timeout);
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    callerSignal?.removeEventListener('abort', forwardAbort);
+  }
+}
+
+export interface ApiFetchOptions extends RequestInit {
+  /** Abort after this many ms (default 8000); 0 disables the timeout, e.g. for large uploads */
+  timeoutMs?: number;
+  /** Extra attempts after a network error, timeout or 408/429/502/503/504. GET and HEAD only; default 2 */
+  retries?: number;
+  /** Share one network request between identical in-flight GETs (default true) */
+  dedupe?: boolean;
+}
+
+const IDEMPOTENT_METHODS = ['GET', 'HEAD'];
+const DEFAULT_RETRIES = 2;
+const RETRYABLE_STATUSES = new Set([408, 429, 502, 503, 504]);
+const RETRY_BASE_DELAY_MS = 300;
+const RETRY_MAX_DELAY_MS = 5000;
+
+const isAbortError = (error: unknown) => error instanceof DOMException && error.name === 'AbortError';
+
+function abortReason(signal: AbortSignal) {
+  return signal.reason ?? new DOMException('The operation was aborted.', 'AbortError');
+}
+
+/** Exponential backoff with full jitter; a Retry-After header (in seconds) takes precedence. */
+function retryDelay(attempt: number, response?: Response) {
+  const retryAfter = Number(response?.headers.get('retry-after'));
+  if (retryAfter > 0) return Math.min(retryAfter * 1000, RETRY_MAX_DELAY_MS);
+  return Math.random() * Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** attempt);
+}
+
+function sleep(ms: number, signal?: AbortSignal | null) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(abortReason(signal));
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortReason(signal!));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * One logical request: `fetchWithTimeout` plus backoff retries for idempotent
+ * methods. Every attempt is recorded in the API telemetry log.
+ */
+async function sendWithRetry(url: string, init: RequestInit, { timeoutMs, retries }: { timeoutMs: number; retries: number }) {
+  const method = (init.method || 'GET').toUpperCase();
+  const sentRequestId = new Headers(init.headers).get('x-request-id') ?? undefined;
+
+  for (let attempt = 1; ; attempt++) {
+    const started = performance.now();
+    const record = (outcome: ApiCallOutcome, extra: { status?: number; requestId?: string; error?: string } = {}) =>
+      recordApiCall({ method, url, outcome, attempt, durationMs: Math.round(performance.now() - started), requestId: sentRequestId, ...extra });
+
+    let response: Response;
+    try {
+      response = await fetchWithTimeout(url, init, timeoutMs);
+    } catch (error) {
+      const timedOut = error instanceof RequestTimeoutError;
+      const aborted = isAbortError(error) || !!init.signal?.aborted;
+      record(timedOut ? 'timeout' : aborted ? 'aborted' : 'network-error', { error: String(error) });
+      if (aborted || attempt > retries || !(timedOut || error instanceof TypeError)) throw error;
+      await sleep(retryDelay(attempt - 1), init.signal);
+      continue;
+    }
+
+    record(response.ok ? 'ok' : 'http-error', {
+      status: response.status,
+      requestId: response.headers.get('x-request-id') ?? sentRequestId,
+    });
+    if (attempt > retries || !RETRYABLE_STATUSES.has(response.status)) return response;
+    await sleep(retryDelay(attempt - 1, response), init.signal);
+  }
+}
 
 /**
  * Helper to get the CSRF token from cookies
@@ -65,15 +179,137 @@ export function getCsrfToken(): string | null {
   return null;
 }
 
+interface InFlightGet {
+  response: Promise<Response>;
+  controller: AbortController;
+  /** Callers still waiting for the response */
+  waiting: number;
+}
+
+const inFlightGets = new Map<string, InFlightGet>();
+
+const REFRESH_LOCK = 'juriq:token-refresh';
+const REFRESH_RESULT_KEY = 'juriq:last-token-refresh';
+/** A refresh another tab finished this recently also covers 401s that raced it. */
+const REFRESH_REUSE_WINDOW_MS = 5000;
+
+interface RefreshResult {
+  at: number;
+  ok: boolean;
+}
+
+function readRefreshResult(): RefreshResult | null {
+  try {
+    const raw = localStorage.getItem(REFRESH_RESULT_KEY);
+    return raw ? JSON.parse(raw) as RefreshResult : null;
+  } catch {
+    return null;
+  }
+}
+
+function writeRefreshResult(result: RefreshResult) {
+  try {
+    localStorage.setItem(REFRESH_RESULT_KEY, JSON.stringify(result));
+  } catch {
+    // Storage unavailable (private mode); other tabs will refresh for themselves
+  }
+}
+
+let refreshInFlight: Promise<boolean> | null = null;
+
 /**
- * A wrapper around native fetch that automatically appends the CSRF token 
- * to mutating requests (POST, PUT, PATCH, DELETE).
+ * Exchange the refresh-token cookie for a new access token, resolving to
+ * whether it worked. Calls within a tab share one request, and across tabs
+ * only the tab holding the refresh lock talks to the server: the others wait
+ * for it and reuse its recorded result instead of racing it with the same
+ * (by then rotated) refresh cookie. Network failures reject and are not shared.
  */
-export async function apiFetch(pathOrUrl: string, options: RequestInit = {}): Promise<Response> {
-  const url = getApiUrl(pathOrUrl);
+export function refreshSession(requestId?: string): Promise<boolean> {
+  if (!refreshInFlight) {
+    const requestedAt = Date.now();
+    refreshInFlight = runExclusive(REFRESH_LOCK, async () => {
+      const last = readRefreshResult();
+      if (last && last.at >= requestedAt - REFRESH_REUSE_WINDOW_MS) return last.ok;
+
+      const res = await fetch(getApiUrl('/api/v1/auth/refresh'), {
+        method: 'POST',
+        credentials: 'include',
+        cache: 'no-store',
+        ...(requestId && { headers: { 'x-request-id': requestId } }),
+      });
+      writeRefreshResult({ at: Date.now(), ok: res.ok });
+      return res.ok;
+    }).finally(() => { refreshInFlight = null; });
+  }
+  return refreshInFlight;
+}
 
-  const headers = new Headers(options.headers);
+/**
+ * A wrapper around native fetch that automatically appends the CSRF token
+ * to mutating requests (POST, PUT, PATCH, DELETE), refreshes an expired
+ * session once, applies a per-call timeout and retries idempotent requests.
+ *
+ * Identical GETs issued while one is already in flight share its network
+ * request; each caller receives its own clone of the response and can abort
+ * independently. The shared request is cancelled once every caller aborted.
+ */
+export function apiFetch(pathOrUrl: string, options: ApiFetchOptions = {}): Promise<Response> {
+  const { dedupe = true, ...rest } = options;
   const method = (options.method || 'GET').toUpperCase();
+  if (!dedupe || method !== 'GET' || options.body || options.headers) return performFetch(pathOrUrl, rest);
+
+  const url = getApiUrl(pathOrUrl);
+  const { signal, ...shared } = rest;
+  if (signal?.aborted) return Promise.reject(abortReason(signal));
+
+  let entry = inFlightGets.get(url);
+  if (entry) {
+    recordApiCall({ method, url, outcome: 'deduped', attempt: 1, durationMs: 0 });
+  } else {
+    const controller = new AbortController();
+    const created: InFlightGet = { controller, waiting: 0, response: performFetch(url, { ...shared, signal: controller.signal }) };
+    const forget = () => { if (inFlightGets.get(url) === created) inFlightGets.delete(url); };
+    created.response.then(forget, forget);
+    inFlightGets.set(url, created);
+    entry = created;
+  }
+
+  const current = entry;
+  current.waiting++;
+  return new Promise<Response>((resolve, reject) => {
+    let settled = false;
+    const settle = () => {
+      settled = true;
+      current.waiting--;
+      signal?.removeEventListener('abort', onAbort);
+    };
+    const onAbort = () => {
+      if (settled) return;
+      settle();
+      if (current.waiting === 0) {
+        inFlightGets.delete(url);
+        current.controller.abort(signal!.reason);
+      }
+      reject(abortReason(signal!));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+    current.response.then(
+      res => { if (!settled) { settle(); resolve(res.clone()); } },
+      error => { if (!settled) { settle(); reject(error); } }
+    );
+  });
+}
+
+async function performFetch(pathOrUrl: string, options: ApiFetchOptions): Promise<Response> {
+  const { timeoutMs = DEFAULT_TIMEOUT_MS, retries, ...init } = options;
+  const url = getApiUrl(pathOrUrl);
+
+  const headers = new Headers(init.headers);
+  const method = (init.method || 'GET').toUpperCase();
+  const send = (requestInit: RequestInit) => sendWithRetry(url, requestInit, {
+    timeoutMs,
+    retries: IDEMPOTENT_METHODS.includes(method) ? retries ?? DEFAULT_RETRIES : 0,
+  });
   const isMutating = ['POST', 'PUT', 'PATCH', 'DELETE'].includes(method);
 
   // Attach Request Tracing UUID consistently per session
@@ -87,7 +323,7 @@ export async function apiFetch(pathOrUrl: string, options: RequestInit = {}): Pr
   }
 
   // Ensure we send JSON by default if body is present (unless it's FormData)
-  if (!headers.has('Content-Type') && options.body && !(options.body instanceof FormData)) {
+  if (!headers.has('Content-Type') && init.body && !(init.body instanceof FormData)) {
     headers.set('Content-Type', 'application/json');
   }
 
@@ -136,11 +372,11 @@ export async function apiFetch(pathOrUrl: string, options: RequestInit = {}): Pr
     }
   }
 
-  let response = await fetchWithTimeout(url, {
-    ...options,
+  let response = await send({
+    ...init,
     headers,
     credentials: 'include', // ALWAYS set
-  }, 8000);
+  });
 
   // CSRF Handling: If we get a 403 with CSRF error, the cached frontend token is stale.
   // We need to clear it, fetch a new one, and retry the request exactly once.
@@ -165,11 +401,11 @@ export async function apiFetch(pathOrUrl: string, options: RequestInit = {}): Pr
             headers.set('X-CSRF-Token', freshToken);
             
             // 3. Retry the exactly identical robust request
-            response = await fetchWithTimeout(url, {
-              ...options,
+            response = await send({
+              ...init,
               headers,
               credentials: 'include',
-            }, 8000);
+            });
           }
         }
       }
@@ -192,23 +428,18 @@ export async function apiFetch(pathOrUrl: string, options: RequestInit = {}): Pr
     console.warn('API 401 Unauthorized encountered. Attempting token refresh...', { url, method });
 
     try {
-      // 1. Attempt to refresh the token using the refresh token cookie
-      const refreshRes = await fetch(getApiUrl('/api/v1/auth/refresh'), {
-        method: 'POST',
-        credentials: 'include',
-        headers: {
-          'x-request-id': requestId as string // Reuse same request ID for tracing
-        }
-      });
+      // 1. Attempt to refresh the token using the refresh token cookie (once across tabs).
+      // Reuse same request ID for tracing
+      const refreshed = await refreshSession(requestId as string);
 
-      if (refreshRes.ok) {
+      if (refreshed) {
         console.info('Token refreshed successfully. Retrying original request.');
         // 2. Retry the original request with the same parameters
-        const retryResponse = await fetchWithTimeout(url, {
-          ...options,
+        const retryResponse = await send({
+          ...init,
           headers,
           credentials: 'include',
-        }, 8000);
+        });
 
         return retryResponse;
       } else {
@@ -231,7 +462,7 @@ export async function apiFetch(pathOrUrl: string, options: RequestInit = {}): Pr
  */
 export async function apiRequest<T = any>( // eslint-disable-line @typescript-eslint/no-explicit-any
   path: string,
-  options: RequestInit = {}
+  options: ApiFetchOptions = {}
 ): Promise<T> {
   const response = await apiFetch(path, options);
 
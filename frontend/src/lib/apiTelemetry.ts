@@ -0,0 +1,51 @@
+/**
+ * In-memory log of recent `apiFetch` network attempts, read by the API debug
+ * panel. One event is recorded per attempt (so retries show up individually)
+ * and one per GET that joined an identical request already in flight.
+ */
+
+export type ApiCallOutcome = 'ok' | 'http-error' | 'network-error' | 'timeout' | 'aborted' | 'deduped';
+
+export interface ApiTelemetryEvent {
+  id: number;
+  method: string;
+  url: string;
+  /** HTTP status; absent when no response arrived */
+  status?: number;
+  outcome: ApiCallOutcome;
+  durationMs: number;
+  /** `x-request-id` echoed by the backend, or the one we sent */
+  requestId?: string;
+  /** 1 for the first try, 2+ for retries */
+  attempt: number;
+  error?: string;
+  at: number;
+}
+
+const MAX_EVENTS = 200;
+
+let nextId = 1;
+let events: readonly ApiTelemetryEvent[] = [];
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach(listener => listener());
+
+export function recordApiCall(event: Omit<ApiTelemetryEvent, 'id' | 'at'>) {
+  events = [...events.slice(-(MAX_EVENTS - 1)), { ...event, id: nextId++, at: Date.now() }];
+  notify();
+}
+
+/** Oldest first. The array is replaced on every change, so it is safe for `useSyncExternalStore`. */
+export function getApiTelemetry(): readonly ApiTelemetryEvent[] {
+  return events;
+}
+
+export function subscribeApiTelemetry(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+export function clearApiTelemetry() {
+  events = [];
+  notify();
+}
@@ -0,0 +1,25 @@
+import { getApiUrl } from '@/lib/api';
+import type { CalendarFilters } from '@/services/api/client';
+
+/** Save a downloaded file (e.g. an .ics export) under `filename`. */
+export function saveBlob(filename: string, blob: Blob) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+/** Absolute https URL of the feed at `path`, with its case and court filters. */
+export function feedUrl(path: string, filters: CalendarFilters = {}) {
+  const url = new URL(getApiUrl(path), window.location.origin);
+  if (filters.caseId) url.searchParams.set('caseId', filters.caseId);
+  if (filters.court) url.searchParams.set('court', filters.court);
+  return url.toString();
+}
+
+/** The same URL with the webcal scheme, which phones and desktop calendars open as a subscription. */
+export const webcalUrl = (url: string) => url.replace(/^https?:/, 'webcal:');
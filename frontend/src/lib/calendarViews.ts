@@ -0,0 +1,128 @@
+import { addDays, format, startOfWeek } from 'date-fns';
+import type { Hearing } from '@/contexts/LegalDataContext';
+import type { CalendarEvent } from '@/services/api/schemas';
+import { zonedTimeToUtc, zonedWallClock } from '@/lib/formatters';
+import { parseTimeToMinutes } from '@/lib/utils';
+
+/** Zone assumed for hearing and case times saved without one */
+export const DEFAULT_HEARING_ZONE = 'Asia/Kolkata';
+
+export type CalendarViewMode = 'month' | 'week' | 'day' | 'agenda';
+
+/** Days the agenda lists from the day on screen */
+export const AGENDA_DAYS = 30;
+
+/** Where an entry sits on the week, day and agenda views, in the viewer's time zone */
+export interface CalendarSlot {
+  /** yyyy-MM-dd */
+  day: string;
+  /** Minutes past midnight; null for all-day and untimed entries */
+  start: number | null;
+  /** Minutes */
+  duration: number;
+}
+
+export interface CalendarViewItem extends CalendarSlot {
+  key: string;
+  kind: 'hearing' | 'case' | 'event';
+  title: string;
+  subtitle?: string;
+  /** Set on hearings, which can be dragged to another slot */
+  hearing?: Hearing;
+  /** The case, hearing or event the entry was made from, for opening it */
+  source: unknown;
+}
+
+/** The yyyy-MM-dd keys of the days a week or day view shows, or the agenda lists. */
+export function viewDays(view: CalendarViewMode, anchor: Date): string[] {
+  if (view === 'day') return [format(anchor, 'yyyy-MM-dd')];
+  const first = view === 'week' ? startOfWeek(anchor) : anchor;
+  const count = view === 'week' ? 7 : AGENDA_DAYS;
+  return Array.from({ length: count }, (_, i) => format(addDays(first, i), 'yyyy-MM-dd'));
+}
+
+/** The local date of a yyyy-MM-dd key. */
+export function parseDayKey(day: string): Date {
+  const [year, month, date] = day.split('-').map(Number);
+  return new Date(year, month - 1, date);
+}
+
+/** A wall-clock date and time in one zone, moved to another. */
+function rezone(day: string, time: string, fromZone: string, toZone: string): Omit<CalendarSlot, 'duration'> {
+  const seen = zonedWallClock(zonedTimeToUtc(day, time, fromZone), toZone);
+  return { day: seen.date, start: seen.minutes };
+}
+
+/**
+ * Slot of a hearing. startAt is authoritative; older hearings without it are
+ * placed from hearingDate (whose UTC date the server uses) and hearingTime.
+ */
+export function hearingSlot(hearing: Hearing, timeZone: string): CalendarSlot {
+  const duration = hearing.startAt && hearing.endAt
+    ? Math.max(15, Math.round((new Date(hearing.endAt).getTime() - new Date(hearing.startAt).getTime()) / 60000))
+    : hearing.duration || 60;
+
+  if (hearing.startAt && !Number.isNaN(new Date(hearing.startAt).getTime())) {
+    const seen = zonedWallClock(hearing.startAt, timeZone);
+    return { day: seen.date, start: seen.minutes, duration };
+  }
+
+  const day = new Date(hearing.hearingDate).toISOString().slice(0, 10);
+  const time = hearing.hearingTime ? toClockTime(parseTimeToMinutes(hearing.hearingTime)) : '10:00';
+  return { ...rezone(day, time, hearing.timezone || DEFAULT_HEARING_ZONE, timeZone), duration };
+}
+
+/** Slot of a case's listed hearing; untimed when the case has no hearing time. */
+export function caseSlot(date: Date, hearingTime: string | undefined, timeZone: string): CalendarSlot {
+  const day = format(date, 'yyyy-MM-dd');
+  if (!hearingTime) return { day, start: null, duration: 60 };
+  return { ...rezone(day, toClockTime(parseTimeToMinutes(hearingTime)), DEFAULT_HEARING_ZONE, timeZone), duration: 60 };
+}
+
+/** Slot of a standalone event; all-day events are stored at UTC midnight of their day. */
+export function calendarEventSlot(event: CalendarEvent, timeZone: string): CalendarSlot {
+  if (event.allDay) return { day: event.start.toISOString().slice(0, 10), start: null, duration: 24 * 60 };
+  const seen = zonedWallClock(event.start, timeZone);
+  const duration = event.end ? Math.max(15, Math.round((event.end.getTime() - event.start.getTime()) / 60000)) : 60;
+  return { day: seen.date, start: seen.minutes, duration };
+}
+
+/** Minutes past midnight as HH:mm, the form hearingTime is saved in. */
+export function toClockTime(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Side-by-side lanes for the timed entries of one day: each entry takes the
+ * first lane free at its start, and `lanes` is the widest its overlap group gets.
+ */
+export function layoutLanes<T extends CalendarSlot>(items: T[]): Array<{ item: T; lane: number; lanes: number }> {
+  const sorted = items
+    .filter(item => item.start !== null)
+    .sort((a, b) => a.start! - b.start! || b.duration - a.duration);
+  const placed: Array<{ item: T; lane: number; lanes: number }> = [];
+  let group: typeof placed = [];
+  let groupEnd = -1;
+  let laneEnds: number[] = [];
+
+  const closeGroup = () => {
+    const lanes = Math.max(1, laneEnds.length);
+    group.forEach(entry => { entry.lanes = lanes; });
+    placed.push(...group);
+    group = [];
+    laneEnds = [];
+  };
+
+  sorted.forEach(item => {
+    const start = item.start!;
+    const end = start + Math.max(item.duration, 15);
+    if (start >= groupEnd) closeGroup();
+    let lane = laneEnds.findIndex(laneEnd => laneEnd <= start);
+    if (lane === -1) lane = laneEnds.length;
+    laneEnds[lane] = end;
+    groupEnd = Math.max(groupEnd, end);
+    group.push({ item, lane, lanes: 1 });
+  });
+  closeGroup();
+  return placed;
+}
@@ -0,0 +1,60 @@
+import type { CaseLink, CaseLinkGraph, CaseLinkType } from '@/services/api/schemas';
+
+/** How the case holding a link relates to the linked case: "X is an appeal of Y". */
+export const LINK_TYPE_LABELS: Record<CaseLinkType, string> = {
+  appeal_of: 'Appeal of',
+  revision_of: 'Revision of',
+  transferred_from: 'Transferred from',
+  connected_with: 'Connected with',
+  cross_fir: 'Cross-FIR of',
+};
+
+/** The same relation read from the linked case: "Y was appealed in X". */
+export const INVERSE_LINK_TYPE_LABELS: Record<CaseLinkType, string> = {
+  appeal_of: 'Appealed in',
+  revision_of: 'Revised in',
+  transferred_from: 'Transferred to',
+  connected_with: 'Connected with',
+  cross_fir: 'Cross-FIR of',
+};
+
+/** Link types that move a matter to a later stage or another forum; the rest are side by side. */
+const STAGE_LINK_TYPES: readonly CaseLinkType[] = ['appeal_of', 'revision_of', 'transferred_from'];
+
+/** The label for `link` seen from `caseId`, and the case on the other end. */
+export function linkFromCase(link: CaseLink, caseId: string): { label: string; otherId: string } {
+  return link.from === caseId
+    ? { label: LINK_TYPE_LABELS[link.type], otherId: link.to }
+    : { label: INVERSE_LINK_TYPE_LABELS[link.type], otherId: link.from };
+}
+
+/**
+ * Arrange a link graph into stages, earliest forum first: an appeal, revision
+ * or transfer sits one stage after the case it came from, and connected or
+ * cross-FIR matters share a stage.
+ */
+export function lineageStages(graph: CaseLinkGraph, rootId: string): CaseLinkGraph['nodes'][] {
+  const stage = new Map<string, number>([[rootId, 0]]);
+  const queue = [rootId];
+  while (queue.length > 0) {
+    const id = queue.shift() as string;
+    const current = stage.get(id) as number;
+    graph.edges.forEach(edge => {
+      if (edge.from !== id && edge.to !== id) return;
+      const otherId = edge.from === id ? edge.to : edge.from;
+      if (stage.has(otherId)) return;
+      const step = STAGE_LINK_TYPES.includes(edge.type) ? 1 : 0;
+      // `from` is the later stage of a stage link
+      stage.set(otherId, current + (edge.from === id ? -step : step));
+      queue.push(otherId);
+    });
+  }
+
+  const stages = new Map<number, CaseLinkGraph['nodes']>();
+  graph.nodes.forEach(node => {
+    const level = stage.get(node.id);
+    if (level === undefined) return;
+    stages.set(level, [...(stages.get(level) ?? []), node]);
+  });
+  return [...stages.entries()].sort(([a], [b]) => a - b).map(([, nodes]) => nodes);
+}
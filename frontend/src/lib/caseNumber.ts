@@ -0,0 +1,75 @@
+/**
+ * Case number recognition, matching backend/src/utils/caseNumber.js: an
+ * eCourts CNR or a court number (case type, number, year) gets a canonical
+ * spelling and a key shared by every way of writing the same number.
+ */
+
+export interface ParsedCaseNumber {
+  kind: 'cnr' | 'court' | 'other';
+  canonical: string;
+  key: string;
+  caseType?: string;
+  number?: number;
+  year?: number;
+  cnr?: string;
+  /** Set when the value is a CNR with an impossible part */
+  error?: string;
+}
+
+const CNR_PATTERN = /^([A-Z]{2})([A-Z]{2})(\d{2})(\d{6})(\d{4})$/;
+const CNR_PREFIX = /^CNR\s*(?:NO\.?|NUMBER)?\s*[:#-]?\s*/;
+const COURT_PATTERN = /^(.*?)[\s.]*(\d+)\s*(?:\/|-|\s+OF\s+)\s*(\d{4}|\d{2})$/;
+const CASE_TYPE_PATTERN = /^[A-Z][A-Z0-9()&-]*$/;
+const EARLIEST_YEAR = 1900;
+
+const latestYear = () => new Date().getFullYear() + 1;
+
+const fullYear = (year: string) => {
+  if (year.length === 4) return Number(year);
+  return (Number(year) <= latestYear() % 100 ? 2000 : 1900) + Number(year);
+};
+
+function parseCnr(value: string): ParsedCaseNumber | null {
+  const compact = value.replace(CNR_PREFIX, '').replace(/[\s/.-]/g, '');
+  const match = compact.match(CNR_PATTERN);
+  if (!match) return null;
+  const [, , , establishment, serial, year] = match;
+  const parsed: ParsedCaseNumber = { kind: 'cnr', canonical: compact, key: `CNR:${compact}`, cnr: compact, year: Number(year) };
+  if (establishment === '00') return { ...parsed, error: `CNR ${compact} has no court establishment code` };
+  if (Number(serial) === 0) return { ...parsed, error: `CNR ${compact} has no case serial number` };
+  if (Number(year) < EARLIEST_YEAR || Number(year) > latestYear()) {
+    return { ...parsed, error: `CNR ${compact} has an impossible filing year (${year})` };
+  }
+  return parsed;
+}
+
+export function parseCaseNumber(raw: string): ParsedCaseNumber {
+  const text = raw.trim().replace(/\s+/g, ' ');
+  const upper = text.toUpperCase();
+
+  const cnr = parseCnr(upper);
+  if (cnr) return cnr;
+
+  const match = upper.match(COURT_PATTERN);
+  if (match) {
+    const caseType = match[1].replace(/\b(?:NO|NUMBER)\.?\s*$/, '').replace(/[.\s]/g, '').replace(/-+$/, '');
+    const number = Number(match[2]);
+    const year = fullYear(match[3]);
+    const typeOk = caseType === '' || CASE_TYPE_PATTERN.test(caseType);
+    if (typeOk && number > 0 && year >= EARLIEST_YEAR && year <= latestYear()) {
+      return {
+        kind: 'court',
+        canonical: `${caseType ? `${caseType} ` : ''}${number}/${year}`,
+        key: `${caseType}|${number}|${year}`,
+        caseType,
+        number,
+        year,
+      };
+    }
+  }
+
+  return { kind: 'other', canonical: text, key: upper.replace(/[^A-Z0-9]/g, '') };
+}
+
+/** The key two case numbers share when they are the same number written differently. */
+export const caseNumberKey = (raw: string) => parseCaseNumber(raw).key;
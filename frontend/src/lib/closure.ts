@@ -0,0 +1,20 @@
+import type { Case } from '@/contexts/LegalDataContext';
+import type { ClosureOutcome } from '@/services/api/schemas';
+
+export const CLOSURE_OUTCOME_LABELS: Record<ClosureOutcome, string> = {
+  won: 'Won',
+  lost: 'Lost',
+  settled: 'Settled',
+  withdrawn: 'Withdrawn',
+  dismissed: 'Dismissed',
+  disposed: 'Disposed of (other)',
+};
+
+/** Statuses a case reaches through the closure wizard rather than a plain status change. */
+export const CLOSED_STATUSES: Case['status'][] = ['won', 'lost', 'closed'];
+
+export const isClosedStatus = (status: Case['status']) => CLOSED_STATUSES.includes(status);
+
+/** The outcome to start the wizard with when a case is moved to a closed status. */
+export const outcomeForStatus = (status: Case['status']): ClosureOutcome =>
+  status === 'won' || status === 'lost' ? status : 'disposed';
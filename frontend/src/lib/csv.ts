@@ -0,0 +1,37 @@
+export interface CsvColumn<T> {
+  header: string;
+  value: (row: T) => unknown;
+}
+
+/** Leading characters that make Excel and Sheets evaluate a cell as a formula (OWASP CSV injection). */
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+/**
+ * Quote a cell when it holds a comma, quote or line break (RFC 4180). Text that
+ * would be read as a formula gets a leading apostrophe; numbers are left alone.
+ */
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  let text = value instanceof Date ? value.toISOString().slice(0, 10) : Array.isArray(value) ? value.join('; ') : String(value);
+  if (typeof value !== 'number' && FORMULA_START.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv<T>(rows: T[], columns: CsvColumn<T>[]): string {
+  const lines = [columns.map(column => csvCell(column.header)).join(',')];
+  rows.forEach(row => lines.push(columns.map(column => csvCell(column.value(row))).join(',')));
+  return lines.join('\r\n');
+}
+
+/** Save CSV text as a file. The byte-order mark lets Excel read it as UTF-8. */
+export function downloadCsv(filename: string, csv: string) {
+  const blob = new Blob(['\uFEFF', csv], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
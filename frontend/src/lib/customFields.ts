@@ -0,0 +1,104 @@
+import type { Case, Client, CustomFieldValue } from '@/contexts/LegalDataContext';
+import type { CaseFieldSchema, CustomField } from '@/services/api/schemas';
+import { causeTitle, clientRole, partiesWithRole, sideTitle } from '@/lib/parties';
+
+/** Case types offered out of the box; firms add their own by defining a custom field schema. */
+export const BUILT_IN_CASE_TYPES = [
+  'criminal',
+  'civil',
+  'family',
+  'corporate',
+  'property',
+  'tax',
+  'labor',
+  'constitutional',
+] as const;
+
+export const caseTypeLabel = (caseType: string) =>
+  caseType ? caseType.charAt(0).toUpperCase() + caseType.slice(1) : '';
+
+/** Built-in case types followed by any extra ones the firm has defined schemas for. */
+export function caseTypeOptions(schemas: CaseFieldSchema[] = []): string[] {
+  const extra = schemas
+    .map(schema => schema.caseType)
+    .filter(type => !(BUILT_IN_CASE_TYPES as readonly string[]).includes(type));
+  return [...BUILT_IN_CASE_TYPES, ...extra];
+}
+
+export function fieldsForCaseType(schemas: CaseFieldSchema[] | undefined, caseType: string): CustomField[] {
+  return schemas?.find(schema => schema.caseType === caseType)?.fields ?? [];
+}
+
+/** Same derivation as the backend, so the editor can show a new field's placeholder before saving. */
+export const fieldKeyFromLabel = (label: string) =>
+  label.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^[^a-z]+|_+$/g, '').slice(0, 40);
+
+/** Ids of the clients a case refers to, through its parties and its party custom fields. */
+export function caseClientIds(case_: Case, fields: CustomField[]): string[] {
+  const ids = (case_.parties ?? []).map(party => party.clientId);
+  for (const field of fields) {
+    const value = case_.customFields?.[field.key];
+    if (field.type === 'party' && typeof value === 'string') ids.push(value);
+  }
+  return [...new Set(ids.filter((id): id is string => Boolean(id)))];
+}
+
+/** Display text for a stored value; dates are YYYY-MM-DD and parties are client ids. */
+export function formatCustomFieldValue(
+  field: CustomField,
+  value: CustomFieldValue | undefined,
+  { clients = [], formatDate }: { clients?: Client[]; formatDate: (date: Date) => string }
+): string {
+  if (value === undefined || value === '' || (Array.isArray(value) && value.length === 0)) return '';
+  switch (field.type) {
+    case 'date':
+      return formatDate(new Date(`${value}T00:00:00`));
+    case 'multiselect':
+      return Array.isArray(value) ? value.join(', ') : String(value);
+    case 'party':
+      return clients.find(client => client.id === value)?.name ?? '';
+    default:
+      return String(value);
+  }
+}
+
+/**
+ * Template placeholder values for a case: the standard case placeholders, the
+ * cause title and each side's names under the party placeholders the built-in
+ * templates use, plus one per custom field of its type, keyed by the field key.
+ */
+export function caseTemplateValues(
+  case_: Case,
+  fields: CustomField[],
+  options: { clients?: Client[]; formatDate: (date: Date) => string }
+): Record<string, string> {
+  const petitioners = partiesWithRole(case_, 'petitioner');
+  const respondents = partiesWithRole(case_, 'respondent');
+  const petitionerSide = sideTitle(petitioners.map(p => p.name)) || case_.clientName;
+  const respondentSide = sideTitle(respondents.map(p => p.name)) || case_.opposingParty;
+  const addressOf = (parties: typeof petitioners) =>
+    options.clients?.find(client => client.id === parties.find(p => p.clientId)?.clientId)?.address ?? '';
+  const ourCounsel = partiesWithRole(case_, clientRole(case_)).find(p => p.counsel.name)?.counsel.name ?? '';
+
+  const values: Record<string, string> = {
+    case_number: case_.caseNumber,
+    client_name: case_.clientName,
+    opposing_party: case_.opposingParty,
+    court_name: case_.courtName,
+    judge_name: case_.judgeName,
+    case_type: caseTypeLabel(case_.caseType),
+    cause_title: causeTitle(case_),
+    case_title: causeTitle(case_),
+    advocate_name: ourCounsel,
+  };
+  ['petitioner', 'petitioner_name', 'plaintiff_name', 'applicant', 'applicant_name', 'complainant_name']
+    .forEach(key => { values[key] = petitionerSide; });
+  ['respondent', 'respondent_name', 'defendant_name', 'accused_name']
+    .forEach(key => { values[key] = respondentSide; });
+  values.petitioner_address = addressOf(petitioners);
+  values.respondent_address = addressOf(respondents);
+  fields.forEach(field => {
+    values[field.key] = formatCustomFieldValue(field, case_.customFields?.[field.key], options);
+  });
+  return Object.fromEntries(Object.entries(values).filter(([, value]) => value));
+}
@@ -0,0 +1,47 @@
+import type { DeadlineRule } from '@/services/api/schemas';
+
+export const CUSTOM_RULE_ID = 'custom';
+
+/** Local-midnight Date for a YYYY-MM-DD deadline day. */
+export const parseDay = (value: string) => new Date(`${value}T00:00:00`);
+
+/** Whole days from today until a YYYY-MM-DD day; negative once it has passed. */
+export function daysUntil(value: string, today = new Date()): number {
+  const start = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+  return Math.round((parseDay(value).getTime() - start.getTime()) / 86_400_000);
+}
+
+/** "3 years", "1 month", "30 days"; combined parts are joined with "and". */
+export function formatPeriod(period: DeadlineRule['period']): string {
+  const parts = [
+    [period.years, 'year'],
+    [period.months, 'month'],
+    [period.days, 'day'],
+  ] as const;
+  return parts
+    .filter(([count]) => count)
+    .map(([count, unit]) => `${count} ${unit}${count === 1 ? '' : 's'}`)
+    .join(' and ');
+}
+
+/** One-line description of a rule's period, e.g. "3 months + 30 days grace". */
+export function ruleSummary(rule: DeadlineRule): string {
+  const base = rule.startOffset
+    ? `${formatPeriod(rule.period)} after ${formatPeriod(rule.startOffset)}`
+    : formatPeriod(rule.period);
+  return rule.grace ? `${base} + ${formatPeriod(rule.grace)} grace` : base;
+}
+
+/** Parse "30, 7, 1" into reminder days; returns null when any entry is not a whole number. */
+export function parseReminderDays(text: string): number[] | null {
+  const entries = text.split(',').map(entry => entry.trim()).filter(Boolean);
+  const days = entries.map(Number);
+  return days.every(day => Number.isInteger(day) && day >= 0) ? days : null;
+}
+
+/** Rules grouped by act, in table order. */
+export function rulesByAct(rules: DeadlineRule[]): [string, DeadlineRule[]][] {
+  const groups = new Map<string, DeadlineRule[]>();
+  rules.forEach(rule => groups.set(rule.act, [...(groups.get(rule.act) ?? []), rule]));
+  return [...groups.entries()];
+}
@@ -0,0 +1,91 @@
+import { jsPDF } from 'jspdf';
+import { PDFRenderer } from './pdf-driver';
+import type { ChronologyExportData } from './types';
+
+// ─── Case Chronology ───────────────────────────────────────────────────────
+// A dated list of events for counsel briefings: date in the left column,
+// the event and its particulars beside it.
+export const generateChronologyPDF = (data: ChronologyExportData) => {
+    const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+    const r = new PDFRenderer(doc);
+    const lx = r.margin.left;
+    const cx = r.pageWidth / 2;
+    const rx = r.pageWidth - r.margin.right;
+    const dateColumn = r.toMm(78);
+    const textX = lx + dateColumn;
+    const textWidth = r.contentWidth() - dateColumn;
+
+    r.drawBorder();
+
+    // ── 1. Header ─────────────────────────────────────────────────────────────
+    r.paragraph('CASE CHRONOLOGY', { align: 'center', bold: true, fontSize: 15 });
+    r.paragraph(data.causeTitle, { align: 'center', bold: true, fontSize: 12 });
+    r.paragraph(`CASE NO: ${data.caseNumber}`, { align: 'center', fontSize: 11 });
+    if (data.court) r.paragraph(data.court, { align: 'center', fontSize: 11 });
+    r.divider(2, 4);
+
+    r.metaRow('Prepared on', data.preparedOn);
+    r.metaRow('Entries', String(data.entries.length));
+    if (data.includes) r.metaRow('Includes', data.includes);
+    r.divider(2, 5);
+
+    // ── 2. Entries ────────────────────────────────────────────────────────────
+    const wrapped = (text: string, fontSize: number, style: 'normal' | 'bold' | 'italic') => {
+        doc.setFontSize(fontSize);
+        doc.setFont('times', style);
+        return doc.splitTextToSize(text, textWidth) as string[];
+    };
+    const writeLines = (lines: string[], fontSize: number, style: 'normal' | 'bold' | 'italic', leading = 1.3) => {
+        const lh = r.lineH(fontSize, leading);
+        lines.forEach(line => {
+            r.ensureSpace(lh);
+            doc.setFontSize(fontSize);
+            doc.setFont('times', style);
+            doc.text(line, textX, r.currentY);
+            r.currentY += lh;
+        });
+    };
+
+    if (data.entries.length === 0) {
+        r.paragraph('No events recorded for this case.', { align: 'center', fontSize: 11 });
+    }
+
+    data.entries.forEach(entry => {
+        const heading = wrapped(`${entry.label.toUpperCase()} — ${entry.title}`, 11, 'bold');
+        // Keep the date, heading and first line of particulars on one page
+        r.ensureSpace(r.lineH(11) * (heading.length + 1));
+        doc.setFontSize(10);
+        doc.setFont('times', 'bold');
+        doc.text(entry.date, lx, r.currentY);
+        writeLines(heading, 11, 'bold');
+
+        if (entry.meta) {
+            doc.setTextColor(90);
+            writeLines(wrapped(entry.meta, 9, 'italic'), 9, 'italic');
+            doc.setTextColor(0);
+        }
+        if (entry.detail) {
+            entry.detail.split('\n').filter(line => line.trim()).forEach(line => {
+                writeLines(wrapped(line.trim(), 10, 'normal'), 10, 'normal', 1.25);
+            });
+        }
+        r.currentY += r.toMm(8);
+    });
+
+    // ── 3. Footer on every page ───────────────────────────────────────────────
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const total = (doc as any).internal.getNumberOfPages();
+    for (let i = 1; i <= total; i++) {
+        doc.setPage(i);
+        const fy = r.pageHeight - r.toMm(28);
+        doc.setDrawColor(100); doc.setLineWidth(0.18);
+        doc.line(r.margin.left, fy - r.toMm(2), rx, fy - r.toMm(2));
+        doc.setFontSize(9); doc.setFont('times', 'normal'); doc.setTextColor(100);
+        doc.text(`Ref: ${data.caseNumber}`, r.margin.left, fy);
+        doc.text(`Page ${i} of ${total}`, cx, fy, { align: 'center' });
+        doc.text('Generated via Juriq Platform', rx, fy, { align: 'right' });
+        doc.setTextColor(0);
+    }
+
+    doc.save(`${data.caseNumber.replace(/[^\w-]+/g, '_')}_Chronology.pdf`);
+};
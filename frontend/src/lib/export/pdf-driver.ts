@@ -22,7 +22,7 @@ function stripPrefix(line: string, type: LineType): string {
 }
 
 // ─── PDFRenderer ───────────────────────────────────────────────────────────
-class PDFRenderer {
+export class PDFRenderer {
     doc: jsPDF;
     pageWidth: number;
     pageHeight: number;
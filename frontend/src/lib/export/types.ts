@@ -26,3 +26,20 @@ export interface CaseNoteExportData {
         createdDateTime: string;
     }[];
 }
+
+/** A case chronology, already formatted for print; entries are in date order. */
+export interface ChronologyExportData {
+    caseNumber: string;
+    causeTitle: string;
+    court?: string;
+    preparedOn: string;
+    /** The event types included, when the export is filtered */
+    includes?: string;
+    entries: {
+        date: string;
+        label: string;
+        title: string;
+        meta?: string;
+        detail?: string;
+    }[];
+}
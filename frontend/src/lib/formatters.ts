@@ -89,22 +89,26 @@ export function formatDate(
     }
 
     if (includeTime) {
-        const hours = dateObj.getHours();
-        const minutes = String(dateObj.getMinutes()).padStart(2, '0');
-
-        if (timeFormat === '12h') {
-            const period = hours >= 12 ? 'PM' : 'AM';
-            const hours12 = hours % 12 || 12;
-            formattedDate += ` ${hours12}:${minutes} ${period}`;
-        } else {
-            const hours24 = String(hours).padStart(2, '0');
-            formattedDate += ` ${hours24}:${minutes}`;
-        }
+        formattedDate += ` ${formatClock(dateObj.getHours() * 60 + dateObj.getMinutes(), timeFormat)}`;
     }
 
     return formattedDate;
 }
 
+/**
+ * Format minutes past midnight as a clock time ("2:30 PM" or "14:30")
+ */
+export function formatClock(minutesOfDay: number, timeFormat: '12h' | '24h' = '12h'): string {
+    const hours = Math.floor(minutesOfDay / 60) % 24;
+    const minutes = String(minutesOfDay % 60).padStart(2, '0');
+
+    if (timeFormat === '12h') {
+        const period = hours >= 12 ? 'PM' : 'AM';
+        return `${hours % 12 || 12}:${minutes} ${period}`;
+    }
+    return `${String(hours).padStart(2, '0')}:${minutes}`;
+}
+
 /**
  * Format date for display (short format)
  */
@@ -126,6 +130,69 @@ export function formatDateTime(
     return formatDate(date, format, { includeTime: true, timeFormat });
 }
 
+/**
+ * Fall back to India Standard Time when a stored time zone is not one the browser knows
+ */
+export function resolveTimeZone(timeZone: string | undefined | null): string {
+    if (!timeZone) return 'Asia/Kolkata';
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone });
+        return timeZone;
+    } catch {
+        return 'Asia/Kolkata';
+    }
+}
+
+/**
+ * Wall-clock date (yyyy-MM-dd) and minutes past midnight of an instant in a time zone
+ */
+export function zonedWallClock(date: Date | string | number, timeZone: string): { date: string; minutes: number } {
+    const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        hour: '2-digit',
+        minute: '2-digit',
+        hourCycle: 'h23',
+    }).formatToParts(date instanceof Date ? date : new Date(date));
+    const part = (type: string) => parts.find(p => p.type === type)?.value ?? '00';
+
+    return {
+        date: `${part('year')}-${part('month')}-${part('day')}`,
+        minutes: (Number(part('hour')) % 24) * 60 + Number(part('minute')),
+    };
+}
+
+/**
+ * The instant at which a wall-clock date (yyyy-MM-dd) and time (HH:mm) occur in a time zone
+ */
+export function zonedTimeToUtc(date: string, time: string, timeZone: string): Date {
+    const [year, month, day] = date.split('-').map(Number);
+    const [hours, minutes] = time.split(':').map(Number);
+    const wall = Date.UTC(year, month - 1, day, hours, minutes);
+
+    // Two passes settle the offset across a daylight-saving change
+    let instant = wall;
+    for (let pass = 0; pass < 2; pass++) {
+        const seen = zonedWallClock(instant, timeZone);
+        const [y, m, d] = seen.date.split('-').map(Number);
+        instant += wall - Date.UTC(y, m - 1, d, Math.floor(seen.minutes / 60), seen.minutes % 60);
+    }
+    return new Date(instant);
+}
+
+/**
+ * Format the time of day of an instant as seen in a time zone
+ */
+export function formatTime(
+    date: Date | string | number,
+    timeFormat: '12h' | '24h' = '12h',
+    timeZone: string = 'Asia/Kolkata'
+): string {
+    return formatClock(zonedWallClock(date, timeZone).minutes, timeFormat);
+}
+
 /**
  * Format relative date (e.g., "2 days ago", "in 3 hours")
  */
@@ -0,0 +1,82 @@
+/**
+ * Minimal promise wrapper around IndexedDB for the offline workspace.
+ *
+ * Two object stores:
+ *  - `cache`  — last known API data, keyed by a string (query key / notes key)
+ *  - `outbox` — queued mutations, auto-incrementing numeric keys
+ */
+
+import { RequestTimeoutError } from '@/lib/api';
+
+const DB_NAME = 'juriq-offline';
+const DB_VERSION = 1;
+
+export type StoreName = 'cache' | 'outbox';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains('cache')) db.createObjectStore('cache');
+      if (!db.objectStoreNames.contains('outbox')) db.createObjectStore('outbox', { keyPath: 'id', autoIncrement: true });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  // Allow a retry on the next call if opening failed (e.g. private mode quota)
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+}
+
+function run<T>(store: StoreName, mode: IDBTransactionMode, op: (s: IDBObjectStore) => IDBRequest): Promise<T> {
+  return openDb().then(db => new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(store, mode);
+    const request = op(tx.objectStore(store));
+    tx.oncomplete = () => resolve(request.result as T);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  }));
+}
+
+export const idbGet = <T>(store: StoreName, key: IDBValidKey) => run<T | undefined>(store, 'readonly', s => s.get(key));
+export const idbGetAll = <T>(store: StoreName) => run<T[]>(store, 'readonly', s => s.getAll());
+export const idbPut = (store: StoreName, value: unknown, key?: IDBValidKey) => run<IDBValidKey>(store, 'readwrite', s => s.put(value, key));
+export const idbDelete = (store: StoreName, key: IDBValidKey) => run<undefined>(store, 'readwrite', s => s.delete(key));
+export const idbClear = (store: StoreName) => run<undefined>(store, 'readwrite', s => s.clear());
+
+// ── Read-through cache ───────────────────────────────────────────────────────
+
+/** Read a cached value; resolves undefined when nothing is cached or IndexedDB is unavailable. */
+export function readCache<T>(key: string): Promise<T | undefined> {
+  return idbGet<T>('cache', key).catch(() => undefined);
+}
+
+/** Best-effort cache write — failures (quota, private mode) are ignored. */
+export function writeCache(key: string, value: unknown): Promise<void> {
+  return idbPut('cache', value, key).then(() => undefined, () => undefined);
+}
+
+/**
+ * True when a failed request should be treated as "no connection" rather than
+ * a server error: the browser reports offline, fetch itself threw, or the
+ * request timed out.
+ */
+export function isNetworkError(error: unknown): boolean {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  return error instanceof TypeError || error instanceof RequestTimeoutError;
+}
+
+/** Drop cached data and queued mutations — called on logout so nothing leaks to the next user. */
+export function clearOfflineData(): Promise<void> {
+  return Promise.all([idbClear('cache'), idbClear('outbox')]).then(() => undefined, () => undefined);
+}
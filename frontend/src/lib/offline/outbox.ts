@@ -0,0 +1,175 @@
+/**
+ * Persistent mutation outbox.
+ *
+ * Creates/updates made without a connection are stored in IndexedDB and
+ * replayed through `apiFetch` in the order they were made once the browser is
+ * back online. A replay the server rejects with 409 (hearing clash) is parked
+ * as a `conflict` for the user to resolve; any other 4xx is parked as `failed`.
+ */
+
+import { apiFetch } from '@/lib/api';
+import { idbDelete, idbGetAll, idbPut, isNetworkError } from './idb';
+
+export type OutboxStatus = 'pending' | 'conflict' | 'failed';
+
+export interface OutboxConflict {
+  hearingId: string;
+  caseNumber: string;
+  startAt: string;
+  endAt: string;
+  conflictReason: string;
+}
+
+export interface OutboxEntry {
+  id?: number;
+  method: 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  path: string;
+  body?: Record<string, unknown>;
+  /** Human-readable description shown in the pending-changes list */
+  label: string;
+  entity: 'hearing' | 'note';
+  /** Id of the optimistic record a queued create stands in for */
+  tempId?: string;
+  createdAt: number;
+  status: OutboxStatus;
+  error?: string;
+  conflicts?: OutboxConflict[];
+}
+
+export interface ReplayResult {
+  replayed: number;
+  remaining: number;
+}
+
+type Listener = () => void;
+const listeners = new Set<Listener>();
+
+function notify() {
+  listeners.forEach(listener => listener());
+}
+
+/** Subscribe to outbox changes; returns the unsubscribe function. */
+export function subscribeOutbox(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
+
+export async function listOutbox(): Promise<OutboxEntry[]> {
+  const entries = await idbGetAll<OutboxEntry>('outbox').catch(() => [] as OutboxEntry[]);
+  return entries.sort((a, b) => (a.id ?? 0) - (b.id ?? 0));
+}
+
+/**
+ * Queue a mutation. An update aimed at a record that only exists as a queued
+ * create (its path contains the temp id) is folded into that create instead.
+ */
+export async function enqueue(entry: Omit<OutboxEntry, 'id' | 'createdAt' | 'status'>): Promise<void> {
+  if (entry.method === 'PUT' || entry.method === 'PATCH') {
+    const pendingCreate = (await listOutbox()).find(e =>
+      e.method === 'POST' && e.status === 'pending' && e.tempId && entry.path.endsWith(`/${e.tempId}`)
+    );
+    if (pendingCreate) {
+      await idbPut('outbox', { ...pendingCreate, body: { ...pendingCreate.body, ...entry.body } });
+      notify();
+      return;
+    }
+  }
+
+  await idbPut('outbox', { ...entry, createdAt: Date.now(), status: 'pending' });
+  notify();
+}
+
+export async function discardEntry(id: number): Promise<void> {
+  await idbDelete('outbox', id);
+  notify();
+}
+
+/** Re-queue a conflicting hearing with an explicit override, then replay. */
+export async function overrideConflict(id: number, overrideReason: string): Promise<ReplayResult> {
+  const entry = (await listOutbox()).find(e => e.id === id);
+  if (!entry) return replayOutbox();
+  await idbPut('outbox', {
+    ...entry,
+    body: { ...entry.body, override: true, overrideReason },
+    status: 'pending',
+    error: undefined,
+    conflicts: undefined,
+  });
+  notify();
+  return replayOutbox();
+}
+
+/** Put a failed entry back in the queue unchanged. */
+export async function retryEntry(id: number): Promise<ReplayResult> {
+  const entry = (await listOutbox()).find(e => e.id === id);
+  if (entry) {
+    await idbPut('outbox', { ...entry, status: 'pending', error: undefined });
+    notify();
+  }
+  return replayOutbox();
+}
+
+// Substitute server ids for temp ids in entries queued after the create that minted them
+function rewriteIds<T>(value: T, idMap: Map<string, string>): T {
+  if (idMap.size === 0) return value;
+  let json = JSON.stringify(value);
+  idMap.forEach((realId, tempId) => { json = json.split(tempId).join(realId); });
+  return JSON.parse(json);
+}
+
+let replaying: Promise<ReplayResult> | null = null;
+
+/**
+ * Replay pending entries oldest-first. Stops at the first network failure so
+ * later entries never overtake earlier ones. Concurrent calls share one run.
+ */
+export function replayOutbox(): Promise<ReplayResult> {
+  if (replaying) return replaying;
+
+  replaying = (async () => {
+    const idMap = new Map<string, string>();
+    let replayed = 0;
+
+    for (const stored of await listOutbox()) {
+      if (stored.status !== 'pending' || stored.id === undefined) continue;
+      const entry = rewriteIds(stored, idMap);
+
+      let res: Response;
+      try {
+        res = await apiFetch(entry.path, {
+          method: entry.method,
+          credentials: 'include',
+          ...(entry.body && { body: JSON.stringify(entry.body) }),
+        });
+      } catch (error) {
+        if (isNetworkError(error)) break;
+        throw error;
+      }
+
+      if (res.ok) {
+        const saved = await res.json().catch(() => null);
+        const realId = saved?._id || saved?.id;
+        if (entry.tempId && realId) idMap.set(entry.tempId, String(realId));
+        await idbDelete('outbox', stored.id);
+        replayed++;
+      } else if (res.status >= 500) {
+        // Server trouble — keep the entry pending and try again on the next replay
+        break;
+      } else {
+        const errorData = await res.json().catch(() => ({}));
+        await idbPut('outbox', {
+          ...entry,
+          status: res.status === 409 ? 'conflict' : 'failed',
+          error: errorData.message || errorData.error || `HTTP ${res.status}`,
+          conflicts: errorData.conflicts,
+        });
+      }
+      notify();
+    }
+
+    const remaining = (await listOutbox()).length;
+    return { replayed, remaining };
+  })().finally(() => { replaying = null; });
+
+  return replaying;
+}
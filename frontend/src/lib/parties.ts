@@ -0,0 +1,76 @@
+import type { Case, CaseParty } from '@/contexts/LegalDataContext';
+
+export const PARTY_ROLE_LABELS: Record<CaseParty['role'], string> = {
+  petitioner: 'Petitioner',
+  respondent: 'Respondent',
+  intervenor: 'Intervenor',
+  impleaded: 'Impleaded party',
+};
+
+export const PARTY_ROLE_PLURAL_LABELS: Record<CaseParty['role'], string> = {
+  petitioner: 'Petitioners',
+  respondent: 'Respondents',
+  intervenor: 'Intervenors',
+  impleaded: 'Impleaded parties',
+};
+
+export const PARTY_TYPE_LABELS: Record<CaseParty['partyType'], string> = {
+  individual: 'Individual',
+  organisation: 'Organisation',
+};
+
+export const partiesWithRole = (case_: Pick<Case, 'parties'>, role: CaseParty['role']) =>
+  (case_.parties ?? []).filter(party => party.role === role);
+
+/**
+ * One side of a cause title: the first name, then "& Anr." for one more party
+ * or "& Ors." for several.
+ */
+export function sideTitle(names: string[]): string {
+  const [first, ...rest] = names.filter(Boolean);
+  if (!first) return '';
+  if (rest.length === 0) return first;
+  return `${first} & ${rest.length === 1 ? 'Anr.' : 'Ors.'}`;
+}
+
+/**
+ * Cause title such as "X & Ors. v. Y & Anr.". Cases without parties fall back
+ * to the client and opposing party.
+ */
+export function causeTitle(case_: Pick<Case, 'parties' | 'clientName' | 'opposingParty'>): string {
+  const petitioners = sideTitle(partiesWithRole(case_, 'petitioner').map(p => p.name)) || case_.clientName;
+  const respondents = sideTitle(partiesWithRole(case_, 'respondent').map(p => p.name)) || case_.opposingParty;
+  return respondents ? `${petitioners} v. ${respondents}` : petitioners;
+}
+
+/** The role the firm's client appears in: the first party linked to a client or named as the client. */
+export function clientRole(case_: Pick<Case, 'parties' | 'clientName'>): CaseParty['role'] {
+  const clientName = case_.clientName?.trim().toLowerCase();
+  const ours = (case_.parties ?? []).find(party =>
+    party.clientId || (clientName && party.name.trim().toLowerCase() === clientName)
+  );
+  return ours?.role ?? 'petitioner';
+}
+
+const nameKey = (name: string) => name.trim().toLowerCase();
+
+/** The first name in `names` that also appears in `others`, ignoring case. */
+export const findSharedName = (names: string[], others: string[]) =>
+  names.find(name => others.some(other => nameKey(other) === nameKey(name)));
+
+/**
+ * Names on the firm's side and on the other side of a case. Intervenors and
+ * impleaded parties are on neither side.
+ */
+export function partySides(case_: Pick<Case, 'parties' | 'clientName' | 'opposingParty'>) {
+  const role = clientRole(case_);
+  const otherRole = role === 'respondent' ? 'petitioner' : 'respondent';
+  const distinctNames = (names: (string | undefined)[]) =>
+    names
+      .map(name => name?.trim() ?? '')
+      .filter((name, index, all) => name && all.findIndex(other => nameKey(other) === nameKey(name)) === index);
+  return {
+    own: distinctNames([case_.clientName, ...partiesWithRole(case_, role).map(p => p.name)]),
+    adverse: distinctNames([case_.opposingParty, ...partiesWithRole(case_, otherRole).map(p => p.name)]),
+  };
+}
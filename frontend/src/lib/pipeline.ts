@@ -0,0 +1,40 @@
+import type { Case, Hearing } from '@/contexts/LegalDataContext';
+
+export interface PipelineStage {
+  nodeId: string;
+  name: string;
+  /** Hearing type that marks the stage as reached; Case Filed is reached by every case */
+  hearingType?: string;
+}
+
+/** The built-in pipeline nodes in order, as served by GET /cases/:id/pipeline. */
+export const SYSTEM_PIPELINE_STAGES: readonly PipelineStage[] = [
+  { nodeId: 'sys_filed', name: 'Case Filed' },
+  { nodeId: 'sys_first', name: 'First Hearing', hearingType: 'first_hearing' },
+  { nodeId: 'sys_interim', name: 'Interim', hearingType: 'interim_hearing' },
+  { nodeId: 'sys_evidence', name: 'Evidence', hearingType: 'evidence_hearing' },
+  { nodeId: 'sys_arguments', name: 'Arguments', hearingType: 'argument_hearing' },
+  { nodeId: 'sys_final', name: 'Final Hearing', hearingType: 'final_hearing' },
+  { nodeId: 'sys_judgment', name: 'Judgment', hearingType: 'judgment_hearing' },
+];
+
+export const isSystemStage = (nodeId: string) => SYSTEM_PIPELINE_STAGES.some(stage => stage.nodeId === nodeId);
+
+/**
+ * The pipeline stage a case is in. A stage recorded from the case board wins
+ * while it still exists; otherwise it is the furthest system stage that has a
+ * hearing of its type, and Case Filed for a case with none.
+ */
+export function currentStage(case_: Case, caseHearings: Pick<Hearing, 'hearingType'>[]): { nodeId: string; name: string; custom: boolean } {
+  const recorded = case_.pipelineStage;
+  if (recorded) {
+    const system = SYSTEM_PIPELINE_STAGES.find(stage => stage.nodeId === recorded);
+    if (system) return { nodeId: system.nodeId, name: system.name, custom: false };
+    const custom = case_.customPipelineNodes?.find(node => node.nodeId === recorded);
+    if (custom) return { nodeId: custom.nodeId, name: custom.name, custom: true };
+  }
+  const held = new Set(caseHearings.map(h => h.hearingType));
+  const reached = [...SYSTEM_PIPELINE_STAGES].reverse().find(stage => !stage.hearingType || held.has(stage.hearingType))
+    ?? SYSTEM_PIPELINE_STAGES[0];
+  return { nodeId: reached.nodeId, name: reached.name, custom: false };
+}
@@ -0,0 +1,60 @@
+import type { QueryKey } from '@tanstack/react-query';
+
+/**
+ * Cross-tab coordination over a BroadcastChannel.
+ *
+ * Tabs of the same origin share cookies and IndexedDB but not memory, so
+ * session changes made in one tab (logout, login, profile/preference saves,
+ * data mutations) are announced here and `AuthContext` applies them in the
+ * others. Messages are never delivered to the tab that posted them.
+ *
+ * `runExclusive` elects a single tab for work that must not run concurrently
+ * across tabs, such as the token refresh in `apiFetch`.
+ */
+
+export type TabMessage =
+  | { type: 'logout' }
+  | { type: 'login'; userId: string }
+  | { type: 'user-updated' }
+  | { type: 'data-changed'; queryKeys: QueryKey[] };
+
+const CHANNEL_NAME = 'juriq:session';
+
+let channel: BroadcastChannel | null = null;
+const listeners = new Set<(message: TabMessage) => void>();
+
+function getChannel(): BroadcastChannel | null {
+  if (channel || typeof BroadcastChannel === 'undefined') return channel;
+  channel = new BroadcastChannel(CHANNEL_NAME);
+  channel.onmessage = (event: MessageEvent<TabMessage>) => {
+    if (event.data && typeof event.data.type === 'string') {
+      listeners.forEach(listener => listener(event.data));
+    }
+  };
+  return channel;
+}
+
+/** Announce `message` to every other open tab. No-op where BroadcastChannel is unsupported. */
+export function postTabMessage(message: TabMessage) {
+  try {
+    getChannel()?.postMessage(message);
+  } catch (error) {
+    console.warn('[tabSync] Failed to broadcast', message.type, error);
+  }
+}
+
+export function subscribeTabMessages(listener: (message: TabMessage) => void): () => void {
+  getChannel();
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/**
+ * Run `task` while holding the cross-tab lock `name` (Web Locks API), so at
+ * most one tab runs it at a time and the rest queue behind it. Falls back to
+ * running immediately in browsers without `navigator.locks`.
+ */
+export function runExclusive<T>(name: string, task: () => Promise<T>): Promise<T> {
+  if (typeof navigator === 'undefined' || !navigator.locks) return task();
+  return navigator.locks.request(name, task);
+}
@@ -0,0 +1,58 @@
+import React, { useMemo, useState } from "react";
+import { Briefcase } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { CasePicker } from "@/components/pickers/RecordPicker";
+import { useFormatting } from "@/contexts/FormattingContext";
+import { useCase, useCaseFieldSchemas, useClientsById } from "@/hooks/useLegalQueries";
+import { caseClientIds, caseTemplateValues, fieldsForCaseType } from "@/lib/customFields";
+
+interface CaseValuesPanelProps {
+  /** Receives every placeholder value the selected case provides */
+  onApply: (values: Record<string, string>) => void;
+}
+
+/**
+ * Pick a case to fill the document from. Lists the placeholders it provides —
+ * the standard case details plus the custom fields of its case type — so they
+ * can also be typed into the editor as {{key}}.
+ */
+export const CaseValuesPanel: React.FC<CaseValuesPanelProps> = ({ onApply }) => {
+  const { formatDate } = useFormatting();
+  const { data: schemas } = useCaseFieldSchemas();
+  const [caseId, setCaseId] = useState("");
+  const { data: selected } = useCase(caseId || undefined);
+  const fields = useMemo(() => (selected ? fieldsForCaseType(schemas, selected.caseType) : []), [selected, schemas]);
+  // The clients the case refers to, for party names and addresses
+  const clients = useClientsById(useMemo(() => (selected ? caseClientIds(selected, fields) : []), [selected, fields]));
+
+  const values = useMemo(() => {
+    if (!selected) return {};
+    return caseTemplateValues(selected, fields, { clients, formatDate });
+  }, [selected, fields, clients, formatDate]);
+
+  return (
+    <div className="mb-4 space-y-2 rounded-md border bg-muted/20 p-3">
+      <Label className="flex items-center gap-1.5 text-xs">
+        <Briefcase className="h-3.5 w-3.5 text-primary" />
+        Fill from case
+      </Label>
+      <div className="flex gap-2">
+        <CasePicker value={caseId} onChange={id => setCaseId(id)} className="h-8 text-xs" />
+        <Button size="sm" className="h-8 text-xs" disabled={!selected} onClick={() => onApply(values)}>
+          Apply
+        </Button>
+      </div>
+      {Object.keys(values).length > 0 && (
+        <dl className="grid grid-cols-[auto,1fr] gap-x-2 gap-y-0.5 text-[10px]">
+          {Object.entries(values).map(([key, value]) => (
+            <React.Fragment key={key}>
+              <dt className="font-mono text-muted-foreground">{`{{${key}}}`}</dt>
+              <dd className="truncate">{value}</dd>
+            </React.Fragment>
+          ))}
+        </dl>
+      )}
+    </div>
+  );
+};
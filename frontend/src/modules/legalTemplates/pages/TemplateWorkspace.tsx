@@ -6,10 +6,11 @@ import { Button } from "@/components/ui/button";
 import { ArrowLeft, Save, Download, Copy, Check, FileText } from "lucide-react";
 import { TemplateForm } from "../components/TemplateForm";
 import { TemplateEditor } from "../components/TemplateEditor";
+import { CaseValuesPanel } from "../components/CaseValuesPanel";
 import { ALL_TEMPLATES, LegalTemplate } from "../templates";
-import { generateDocument } from "../utils/templateEngine";
+import { fillPlaceholders, generateDocument } from "../utils/templateEngine";
 import { toast } from "sonner";
-import api from "@/lib/api";
+import { templatesApi } from "@/services/api/client";
 import { saveAs } from 'file-saver';
 import { asBlob } from 'html-docx-js-typescript';
 
@@ -40,13 +41,13 @@ const TemplateWorkspace = () => {
       } else if (id && id !== 'new') {
         // Loading existing draft
         try {
-          const draft = await api.get<any>(`/api/v1/templates/${id}`);
+          const draft = await templatesApi.get(id);
           const selectedTemplate = ALL_TEMPLATES.find(t => t.id === draft.templateId);
           if (selectedTemplate) {
             setTemplate(selectedTemplate);
-            setFormData(draft.filledData || {});
+            setFormData(draft.filledData);
             setEditorContent(draft.finalHTML);
-            setDocId(draft._id);
+            setDocId(draft.id);
           }
         } catch (error) {
           toast.error("Failed to load draft");
@@ -68,6 +69,24 @@ const TemplateWorkspace = () => {
     }
   };
 
+  // Case values go into the template's own fields (regenerating the document, as
+  // any form edit does) and into {{placeholders}} such as custom field keys
+  // typed into the editor
+  const handleApplyCaseValues = (values: Record<string, string>) => {
+    if (!template) return;
+    const fieldValues = Object.fromEntries(
+      template.fields.filter(field => values[field.name]).map(field => [field.name, values[field.name]])
+    );
+    let content = editorContent;
+    if (Object.keys(fieldValues).length > 0) {
+      const newFormData = { ...formData, ...fieldValues };
+      setFormData(newFormData);
+      content = generateDocument(template.template, newFormData);
+    }
+    setEditorContent(fillPlaceholders(content, values));
+    toast.success("Case details applied");
+  };
+
   const handleEditorChange = (content: string) => {
     setEditorContent(content);
   };
@@ -81,16 +100,16 @@ const TemplateWorkspace = () => {
         templateName: template.name,
         filledData: formData,
         finalHTML: editorContent,
-        status: 'draft'
+        status: 'draft' as const
       };
 
       if (docId) {
-        await api.put(`/api/v1/templates/${docId}`, payload);
+        await templatesApi.update(docId, payload);
       } else {
-        const response = await api.post<any>('/api/v1/templates', payload);
-        setDocId(response._id);
+        const response = await templatesApi.create(payload);
+        setDocId(response.id);
         // Correct the URL without reloading
-        window.history.replaceState(null, '', `/dashboard/templates/${response._id}`);
+        window.history.replaceState(null, '', `/dashboard/templates/${response.id}`);
       }
       toast.success("Saved successfully");
     } catch (error) {
@@ -174,6 +193,7 @@ const TemplateWorkspace = () => {
       <div className="flex flex-1 overflow-hidden gap-4">
         {/* Left: Form Inputs */}
         <div className="w-1/3 min-w-[300px] overflow-y-auto pr-4 border-r">
+          <CaseValuesPanel onApply={handleApplyCaseValues} />
           <TemplateForm 
             fields={template.fields} 
             formData={formData} 
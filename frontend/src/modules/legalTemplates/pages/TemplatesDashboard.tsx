@@ -5,7 +5,6 @@ import { useNavigate } from "react-router-dom";
 import { Card, CardHeader, CardTitle, CardDescription, CardContent } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import api from "@/lib/api";
 import { Badge } from "@/components/ui/badge";
 import JuriqLoader from "@/components/ui/JuriqLoader";
 import {
@@ -21,6 +20,8 @@ import {
 } from "@/components/ui/alert-dialog";
 import { TemplateCard } from "../components/TemplateCard";
 import { ALL_TEMPLATES } from "../templates";
+import { templatesApi } from "@/services/api/client";
+import type { TemplateDocument } from "@/services/api/schemas";
 
 // ── Category config ──────────────────────────────────────────────────────────
 const CATEGORY_CONFIG: Record<string, { icon: React.ReactNode; color: string }> = {
@@ -41,14 +42,14 @@ const TemplatesDashboard = () => {
   const { toast } = useToast();
   const [searchQuery, setSearchQuery] = useState("");
   const [activeCategory, setActiveCategory] = useState("all");
-  const [drafts, setDrafts] = useState<any[]>([]);
+  const [drafts, setDrafts] = useState<TemplateDocument[]>([]);
   const [loading, setLoading] = useState(true);
   const [deletingId, setDeletingId] = useState<string | null>(null);
 
   useEffect(() => {
     const fetchDrafts = async () => {
       try {
-        const response = await api.get<any[]>("/api/v1/templates");
+        const response = await templatesApi.list();
         setDrafts(response);
       } catch (error) {
         console.error("Failed to fetch drafts", error);
@@ -73,8 +74,8 @@ const TemplatesDashboard = () => {
   const handleDeleteDraft = async (id: string) => {
     setDeletingId(id);
     try {
-      await api.delete(`/api/v1/templates/${id}`);
-      setDrafts((prev) => prev.filter((d) => d._id !== id));
+      await templatesApi.remove(id);
+      setDrafts((prev) => prev.filter((d) => d.id !== id));
       toast({ title: "Draft Deleted", description: "The template draft has been removed." });
     } catch (error) {
       console.error("Failed to delete draft", error);
@@ -248,9 +249,9 @@ const TemplatesDashboard = () => {
           <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-2 md:gap-3">
             {drafts.map((draft) => (
               <Card
-                key={draft._id}
+                key={draft.id}
                 className="hover:border-primary transition-all cursor-pointer group relative"
-                onClick={() => handleOpenDraft(draft._id)}
+                onClick={() => handleOpenDraft(draft.id)}
               >
                 <CardHeader className="pb-2 p-3">
                   <div className="flex justify-between items-start gap-2">
@@ -274,7 +275,7 @@ const TemplatesDashboard = () => {
                             size="icon"
                             className="h-6 w-6 text-muted-foreground hover:text-destructive transition-colors"
                             onClick={(e) => e.stopPropagation()}
-                            disabled={deletingId === draft._id}
+                            disabled={deletingId === draft.id}
                           >
                             <Trash2 className="h-3 w-3" />
                           </Button>
@@ -289,7 +290,7 @@ const TemplatesDashboard = () => {
                           <AlertDialogFooter>
                             <AlertDialogCancel onClick={(e) => e.stopPropagation()}>Cancel</AlertDialogCancel>
                             <AlertDialogAction
-                              onClick={(e) => { e.stopPropagation(); handleDeleteDraft(draft._id); }}
+                              onClick={(e) => { e.stopPropagation(); handleDeleteDraft(draft.id); }}
                               className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
                             >
                               Delete
@@ -33,3 +33,11 @@ export function stripHtml(html: string): string {
   tmp.innerHTML = html;
   return tmp.textContent || tmp.innerText || "";
 }
+
+/**
+ * Replaces only the placeholders that have a value, leaving the rest in place
+ * (e.g. {{date_of_marriage}} typed into the editor, filled from a case).
+ */
+export function fillPlaceholders(content: string, values: Record<string, string>): string {
+  return content.replace(/{{\s*(\w+)\s*}}/g, (match, name: string) => values[name] || match);
+}
@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -11,7 +11,8 @@ import {
   Download,
   Send,
   Search,
-  Check
+  Check,
+  Loader2
 } from 'lucide-react';
 import { type Invoice, useLegalData } from '@/contexts/LegalDataContext';
 
@@ -23,11 +24,29 @@ import { Textarea } from '@/components/ui/textarea';
 import { Checkbox } from '@/components/ui/checkbox';
 import { useToast } from '@/hooks/use-toast';
 import { useFormatting } from '@/contexts/FormattingContext';
+import { useDebounce } from '@/hooks/useDebounce';
+import { useSearchParamAction } from '@/hooks/useSearchParamAction';
+import { useInfiniteScroll } from '@/hooks/useInfiniteScroll';
+import { useSelection } from '@/hooks/useSelection';
+import { useCase, useClient, useInvoicePages, useInvoiceSummary } from '@/hooks/useLegalQueries';
+import { CasePicker, ClientPicker } from '@/components/pickers/RecordPicker';
+import { BulkActionBar } from '@/components/bulk/BulkActionBar';
+import { downloadCsv, toCsv } from '@/lib/csv';
+import { INVOICE_STATUSES } from '@/services/api/schemas';
 
 // Use Invoice from context
 
+const SORT_OPTIONS = [
+  { value: 'createdAt:desc', label: 'Newest first' },
+  { value: 'dueDate:asc', label: 'Due soonest' },
+  { value: 'issueDate:desc', label: 'Recently issued' },
+  { value: 'total:desc', label: 'Highest amount' },
+];
+
 const Billing = () => {
-  const { cases, clients, timeEntries, addTimeEntry, invoices, createInvoice, updateInvoice, deleteInvoice } = useLegalData();
+  const { timeEntries, addTimeEntry, createInvoice, updateInvoice, deleteInvoice } = useLegalData();
+  // The summary cards total every invoice, not only the loaded pages
+  const { data: summary } = useInvoiceSummary();
   const { formatCurrency, formatDateShort, currencySymbol, currencyCode } = useFormatting();
   const [showTimeDialog, setShowTimeDialog] = useState(false);
   const [selectedInvoice, setSelectedInvoice] = useState<Invoice | null>(null);
@@ -36,6 +55,7 @@ const Billing = () => {
   const [showMarkPaidConfirm, setShowMarkPaidConfirm] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState('all');
+  const [sortOption, setSortOption] = useState(SORT_OPTIONS[0].value);
   const { toast } = useToast();
 
   // New invoice form state
@@ -53,6 +73,12 @@ const Billing = () => {
     billable: true
   });
 
+  // ?logTime=<caseId> (command palette) opens the time entry dialog for that case
+  useSearchParamAction('logTime', caseId => {
+    setTimeFormData(prev => ({ ...prev, caseId }));
+    setShowTimeDialog(true);
+  });
+
   const resetTimeForm = () => {
     setTimeFormData({
       caseId: '',
@@ -95,13 +121,11 @@ const Billing = () => {
   };
 
   // Calculate stats
-  const totalBilled = invoices.reduce((sum, inv) => sum + (inv.total || 0), 0);
-  const paidAmount = invoices.filter(inv => inv.status === 'paid').reduce((sum, inv) => sum + (inv.total || 0), 0);
-  const pendingAmount = invoices.filter(inv => inv.status === 'sent' || inv.status === 'overdue').reduce((sum, inv) => sum + (inv.total || 0), 0);
+  const { count: invoiceCount = 0, billed: totalBilled = 0, paid: paidAmount = 0, pending: pendingAmount = 0 } = summary ?? {};
   const totalHours = timeEntries.reduce((sum, entry) => sum + entry.duration, 0);
   const collectionRate = totalBilled > 0 ? Math.round((paidAmount / totalBilled) * 100) : 0;
-  const averageInvoice = invoices.length > 0 ? Math.round(totalBilled / invoices.length) : 0;
-  const avgHoursPerInvoice = invoices.length > 0 ? Math.round(totalHours / invoices.length) : 0;
+  const averageInvoice = invoiceCount > 0 ? Math.round(totalBilled / invoiceCount) : 0;
+  const avgHoursPerInvoice = invoiceCount > 0 ? Math.round(totalHours / invoiceCount) : 0;
 
   const getStatusColor = (status: Invoice['status']) => {
     switch (status) {
@@ -113,13 +137,39 @@ const Billing = () => {
     }
   };
 
-  const filteredInvoices = invoices.filter(inv => {
-    const clientName = clients.find(c => c.id === inv.clientId)?.name || '';
-    const matchesSearch = clientName.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      inv.invoiceNumber.toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesStatus = statusFilter === 'all' || inv.status === statusFilter;
-    return matchesSearch && matchesStatus;
+  // Search (invoice number or client name), status and sort run on the server
+  const debouncedSearch = useDebounce(searchTerm.trim(), 300);
+  const [sort, order] = sortOption.split(':') as [string, 'asc' | 'desc'];
+  const invoicePages = useInvoicePages({
+    q: debouncedSearch || undefined,
+    status: statusFilter === 'all' ? undefined : statusFilter,
+    sort,
+    order,
   });
+  const filteredInvoices = useMemo(() => invoicePages.data?.pages.flatMap(page => page.items) ?? [], [invoicePages.data]);
+  const totalInvoices = invoicePages.data?.pages[0]?.total ?? 0;
+  const loadMoreRef = useInfiniteScroll({
+    hasNextPage: invoicePages.hasNextPage,
+    isFetchingNextPage: invoicePages.isFetchingNextPage,
+    fetchNextPage: invoicePages.fetchNextPage,
+  });
+  const selection = useSelection(useMemo(() => filteredInvoices.map(i => i.id), [filteredInvoices]));
+  const clientName = (invoice: Invoice) => invoice.clientName || 'Client';
+  const describeInvoice = (id: string) => filteredInvoices.find(i => i.id === id)?.invoiceNumber ?? 'Invoice';
+
+  const exportSelectedInvoices = () => {
+    const rows = filteredInvoices.filter(i => selection.isSelected(i.id));
+    downloadCsv(`invoices-${new Date().toISOString().slice(0, 10)}.csv`, toCsv(rows, [
+      { header: 'Invoice Number', value: i => i.invoiceNumber },
+      { header: 'Client', value: i => clientName(i) },
+      { header: 'Issue Date', value: i => i.issueDate },
+      { header: 'Due Date', value: i => i.dueDate },
+      { header: 'Status', value: i => i.status },
+      { header: 'Currency', value: i => i.currency },
+      { header: 'Total', value: i => i.total },
+      { header: 'Tags', value: i => i.tags },
+    ]));
+  };
 
   return (
     <div className="space-y-2 md:space-y-3">
@@ -147,18 +197,11 @@ const Billing = () => {
               <form onSubmit={handleTimeSubmit} className="space-y-4">
                 <div>
                   <Label htmlFor="caseId">Case*</Label>
-                  <Select value={timeFormData.caseId} onValueChange={(value) => setTimeFormData(prev => ({ ...prev, caseId: value }))}>
-                    <SelectTrigger>
-                      <SelectValue placeholder="Select a case" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {cases.map(case_ => (
-                        <SelectItem key={case_.id} value={case_.id}>
-                          {case_.caseNumber} - {case_.clientName}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
+                  <CasePicker
+                    id="caseId"
+                    value={timeFormData.caseId}
+                    onChange={(value) => setTimeFormData(prev => ({ ...prev, caseId: value }))}
+                  />
                 </div>
 
                 <div className="grid grid-cols-2 gap-4">
@@ -311,20 +354,62 @@ const Billing = () => {
                   <SelectItem value="overdue">Overdue</SelectItem>
                 </SelectContent>
               </Select>
+              <Select value={sortOption} onValueChange={setSortOption}>
+                <SelectTrigger className="w-36 h-8 text-xs border-transparent hover:border-accent hover:border-2 transition-all">
+                  <SelectValue placeholder="Sort" />
+                </SelectTrigger>
+                <SelectContent>
+                  {SORT_OPTIONS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
             </div>
 
+            {filteredInvoices.length > 0 && (
+              <div className="mb-2">
+                <BulkActionBar
+                  type="invoice"
+                  noun="invoices"
+                  selectedIds={selection.selectedIds}
+                  visibleCount={filteredInvoices.length}
+                  allSelected={selection.allSelected}
+                  someSelected={selection.someSelected}
+                  onToggleAll={selection.toggleAll}
+                  actions={['status', 'reassign', 'tags', 'trash']}
+                  statuses={INVOICE_STATUSES}
+                  describe={describeInvoice}
+                  onExport={exportSelectedInvoices}
+                  onSelect={selection.selectOnly}
+                />
+              </div>
+            )}
+
             <div className="space-y-2">
               {filteredInvoices.map((invoice) => (
-                <div key={invoice.id} className="flex items-center justify-between p-2 border rounded-lg border-transparent hover:border-accent hover:border-2 transition-all">
-                  <div>
-                    <div className="flex items-center gap-1.5 mb-0.5">
-                      <span className="font-medium text-xs">{invoice.invoiceNumber}</span>
-                      <Badge variant={getStatusColor(invoice.status)} className="text-[10px] h-4 px-1">
-                        {invoice.status}
-                      </Badge>
-                    </div>
-                    <div className="text-xs text-muted-foreground">
-                      {clients.find(c => c.id === invoice.clientId)?.name || 'Client'} • Due: {formatDateShort(invoice.dueDate)}
+                <div
+                  key={invoice.id}
+                  className={`flex items-center justify-between p-2 border rounded-lg hover:border-accent hover:border-2 transition-all ${selection.isSelected(invoice.id) ? 'border-primary' : 'border-transparent'}`}
+                >
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      checked={selection.isSelected(invoice.id)}
+                      onCheckedChange={() => selection.toggle(invoice.id)}
+                      aria-label={`Select ${invoice.invoiceNumber}`}
+                    />
+                    <div>
+                      <div className="flex items-center gap-1.5 mb-0.5">
+                        <span className="font-medium text-xs">{invoice.invoiceNumber}</span>
+                        <Badge variant={getStatusColor(invoice.status)} className="text-[10px] h-4 px-1">
+                          {invoice.status}
+                        </Badge>
+                        {invoice.tags?.map(tag => (
+                          <Badge key={tag} variant="secondary" className="text-[10px] h-4 px-1">{tag}</Badge>
+                        ))}
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {clientName(invoice)} • Due: {formatDateShort(invoice.dueDate)}
+                      </div>
                     </div>
                   </div>
                   <div className="text-right">
@@ -334,11 +419,7 @@ const Billing = () => {
                         <Send className="mr-1 h-3 w-3" />
                         Send
                       </Button>
-                      <Button size="sm" variant="outline" onClick={() => {
-                        // Get fresh invoice data from invoices array
-                        const freshInvoice = invoices.find(inv => inv.id === invoice.id);
-                        setSelectedInvoice(freshInvoice || invoice);
-                      }} className="h-6 text-[10px] px-2 border-transparent hover:border-accent hover:border-2 hover:bg-transparent hover:text-foreground transition-all">
+                      <Button size="sm" variant="outline" onClick={() => setSelectedInvoice(invoice)} className="h-6 text-[10px] px-2 border-transparent hover:border-accent hover:border-2 hover:bg-transparent hover:text-foreground transition-all">
                         View
                       </Button>
                     </div>
@@ -346,7 +427,20 @@ const Billing = () => {
                 </div>
               ))}
 
-              {filteredInvoices.length === 0 && (
+              {filteredInvoices.length > 0 && (
+                <div ref={loadMoreRef} className="flex items-center justify-center gap-1.5 py-1 text-[10px] text-muted-foreground">
+                  {invoicePages.isFetchingNextPage && <Loader2 className="h-3 w-3 animate-spin" />}
+                  Showing {filteredInvoices.length} of {totalInvoices} invoices
+                </div>
+              )}
+
+              {invoicePages.isLoading && (
+                <div className="flex justify-center py-4">
+                  <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                </div>
+              )}
+
+              {!invoicePages.isLoading && filteredInvoices.length === 0 && (
                 <div className="text-center py-4 text-muted-foreground">
                   <FileText className="h-8 w-8 mx-auto mb-1.5 opacity-50" />
                   <p className="text-xs">No invoices found</p>
@@ -368,14 +462,13 @@ const Billing = () => {
           <CardContent className="pt-2">
             <div className="space-y-2">
               {timeEntries.slice(0, 5).map((entry) => {
-                const case_ = cases.find(c => c.id === entry.caseId);
                 const amount = (entry.duration / 60) * entry.hourlyRate;
 
                 return (
                   <div key={entry.id} className="p-2 border rounded-lg space-y-1.5 border-transparent hover:border-accent hover:border-2 transition-all">
                     <div className="flex items-center justify-between">
                       <span className="font-medium text-xs">
-                        {case_?.caseNumber || 'Unknown Case'}
+                        <TimeEntryCase caseId={entry.caseId} />
                       </span>
                       <Badge variant={entry.billable ? 'default' : 'outline'} className="text-[10px] h-4 px-1">
                         {entry.billable ? 'Billable' : 'Non-billable'}
@@ -463,29 +556,20 @@ const Billing = () => {
           <div className="grid grid-cols-2 gap-4">
             <div>
               <Label>Client*</Label>
-              <Select value={invoiceForm.clientId} onValueChange={(v) => setInvoiceForm(p => ({ ...p, clientId: v }))}>
-                <SelectTrigger className="border-transparent hover:border-accent hover:border-2 transition-all">
-                  <SelectValue placeholder="Select client" />
-                </SelectTrigger>
-                <SelectContent>
-                  {clients.map(c => (
-                    <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
+              <ClientPicker
+                value={invoiceForm.clientId}
+                onChange={(v) => setInvoiceForm(p => ({ ...p, clientId: v }))}
+                className="border-transparent hover:border-accent hover:border-2 transition-all"
+              />
             </div>
             <div>
               <Label>Case (optional)</Label>
-              <Select value={invoiceForm.caseId} onValueChange={(v) => setInvoiceForm(p => ({ ...p, caseId: v }))}>
-                <SelectTrigger className="border-transparent hover:border-accent hover:border-2 transition-all">
-                  <SelectValue placeholder="Select case" />
-                </SelectTrigger>
-                <SelectContent>
-                  {cases.map(cs => (
-                    <SelectItem key={cs.id} value={cs.id}>{cs.caseNumber} - {cs.clientName}</SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
+              <CasePicker
+                value={invoiceForm.caseId ?? ''}
+                onChange={(v) => setInvoiceForm(p => ({ ...p, caseId: v }))}
+                noneLabel="No case"
+                className="border-transparent hover:border-accent hover:border-2 transition-all"
+              />
             </div>
             <div>
               <Label>Issue Date</Label>
@@ -604,7 +688,7 @@ const Billing = () => {
             <div className="space-y-4">
               <div className="flex items-start justify-between">
                 <div>
-                  <div className="text-xl font-bold">{clients.find(c => c.id === selectedInvoice.clientId)?.name}</div>
+                  <div className="text-xl font-bold">{selectedInvoice.clientName}</div>
                   <div className="text-muted-foreground text-sm">Invoice #{selectedInvoice.invoiceNumber}</div>
                 </div>
                 <div className="text-right text-sm">
@@ -660,11 +744,11 @@ const Billing = () => {
                 )}
 
                 <Button variant="outline" onClick={async () => {
-                  const confirmed = window.confirm(`Delete Invoice ${selectedInvoice.invoiceNumber}?\n\nThis action cannot be undone.`);
+                  const confirmed = window.confirm(`Move Invoice ${selectedInvoice.invoiceNumber} to the Trash?\n\nIt can be restored from the Trash.`);
                   if (confirmed) {
                     await deleteInvoice(selectedInvoice.id);
                     setSelectedInvoice(null);
-                    toast({ title: 'Invoice Deleted', description: 'Invoice has been deleted successfully.' });
+                    toast({ title: 'Invoice moved to Trash', description: 'Restore it from the Trash if this was a mistake.' });
                   }
                 }} className="border-transparent hover:border-accent hover:border-2 hover:bg-transparent hover:text-foreground transition-all">
                   Delete
@@ -686,7 +770,7 @@ const Billing = () => {
                   <div>Are you sure you want to mark this invoice as <span className="font-semibold text-green-600">PAID</span>?</div>
                   <div className="bg-muted p-3 rounded-md text-sm space-y-1">
                     <div><span className="font-medium">Invoice:</span> {selectedInvoice.invoiceNumber}</div>
-                    <div><span className="font-medium">Client:</span> {clients.find(c => c.id === selectedInvoice.clientId)?.name}</div>
+                    <div><span className="font-medium">Client:</span> {selectedInvoice.clientName}</div>
                     <div><span className="font-medium">Amount:</span> <span className="text-lg font-bold">{formatCurrency(selectedInvoice.total)}</span></div>
                   </div>
                   <div className="text-xs text-muted-foreground mt-2">This action cannot be undone.</div>
@@ -739,6 +823,13 @@ const Billing = () => {
 
 export default Billing;
 
+/** Number of the case a time entry was logged to. */
+const TimeEntryCase: React.FC<{ caseId: string }> = ({ caseId }) => {
+  const { data: case_, isLoading } = useCase(caseId || undefined);
+  if (isLoading) return <>…</>;
+  return <>{case_?.caseNumber || 'Unknown Case'}</>;
+};
+
 interface SendFormProps {
   invoice: Invoice;
   onCancel: () => void;
@@ -746,9 +837,8 @@ interface SendFormProps {
 }
 
 const SendForm: React.FC<SendFormProps> = ({ invoice, onCancel, onSent }) => {
-  const { clients } = useLegalData();
+  const { data: client } = useClient(invoice.clientId);
   const { formatDateShort, currencySymbol, currencyCode } = useFormatting();
-  const client = clients.find(c => c.id === invoice.clientId);
 
   // Generate auto-generated content
   const generateAutoContent = () => {
@@ -768,7 +858,7 @@ const SendForm: React.FC<SendFormProps> = ({ invoice, onCancel, onSent }) => {
 
     return {
       subject: `Invoice ${invoice.invoiceNumber} - Legal Services - Due ${dueDate}`,
-      message: `Dear ${client?.name || 'Valued Client'},
+      message: `Dear ${invoice.clientName || 'Valued Client'},
 
 We hope this email finds you well. ${urgencyText}Please find attached your invoice ${invoice.invoiceNumber} for legal services provided. The total amount due is ${totalAmount} and payment is due by ${dueDate}.
 
@@ -799,6 +889,10 @@ Legal Services Team`
 
   const autoContent = generateAutoContent();
   const [to, setTo] = useState(client?.email || '');
+  // The client may load after the form opens; fill the address in unless one was typed
+  useEffect(() => {
+    if (client?.email) setTo(current => current || client.email);
+  }, [client?.email]);
   const [subject, setSubject] = useState(autoContent.subject);
   const [message, setMessage] = useState(autoContent.message);
   const [useAutoContent, setUseAutoContent] = useState(true);
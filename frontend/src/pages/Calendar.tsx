@@ -14,16 +14,44 @@ import {
   FileText,
   ChevronLeft,
   ChevronRight,
-  Plus
+  Plus,
+  Search,
+  Download,
+  Upload
 } from 'lucide-react';
-import { useLegalData, type Case } from '@/contexts/LegalDataContext';
+import { addDays, endOfDay, format, startOfDay } from 'date-fns';
+import { useLegalData, type Case, type Hearing } from '@/contexts/LegalDataContext';
 
 import { CaseDetailsPopup } from '@/components/CaseDetailsPopup';
 import { CaseConflictChecker } from '@/components/CaseConflictChecker';
 import { ConflictDialog } from '@/components/ConflictDialog';
+import { CourtAutocomplete, JudgeAutocomplete } from '@/components/directory/DirectoryAutocomplete';
 import { cn, parseTimeToMinutes } from '@/lib/utils';
 import { useToast } from '@/hooks/use-toast';
+import { useSearchParamAction } from '@/hooks/useSearchParamAction';
+import { useListView } from '@/hooks/useListView';
+import { SavedViewsMenu } from '@/components/views/SavedViewsMenu';
+import { CalendarExportDialog } from '@/components/CalendarExportDialog';
+import { CalendarImportWizard } from '@/components/import/CalendarImportWizard';
+import { CalendarTimeGrid } from '@/components/calendar/CalendarTimeGrid';
+import { CalendarAgenda } from '@/components/calendar/CalendarAgenda';
+import { saveBlob } from '@/lib/calendarExport';
+import { calendarApi, casesApi, clientsApi } from '@/services/api/client';
 import { useFormatting } from '@/contexts/FormattingContext';
+import { useCalendarEvents, useCasesListedBetween, useDeleteCalendarEvent } from '@/hooks/useLegalQueries';
+import type { CalendarEvent, HearingWithCase } from '@/services/api/schemas';
+import { zonedTimeToUtc, zonedWallClock } from '@/lib/formatters';
+import {
+  AGENDA_DAYS,
+  calendarEventSlot,
+  caseSlot,
+  hearingSlot,
+  parseDayKey,
+  toClockTime,
+  viewDays,
+  type CalendarViewItem,
+  type CalendarViewMode,
+} from '@/lib/calendarViews';
 
 interface Conflict {
   hearingId: string;
@@ -33,22 +61,59 @@ interface Conflict {
   conflictReason: string;
 }
 
+// URL parameters of the calendar's filters and their defaults
+const CALENDAR_LIST_DEFAULTS = {
+  q: '',
+  priority: 'all',
+  events: 'all',
+  view: 'month',
+};
+
+const VIEW_MODES: { value: CalendarViewMode; label: string }[] = [
+  { value: 'month', label: 'Month' },
+  { value: 'week', label: 'Week' },
+  { value: 'day', label: 'Day' },
+  { value: 'agenda', label: 'Agenda' },
+];
+
+/** A dragged hearing waiting on the conflict dialog */
+interface PendingMove {
+  hearingId: string;
+  updates: Partial<Hearing>;
+}
+
+/** The day a standalone event is on; all-day events are stored at UTC midnight of theirs. */
+const calendarEventDay = (event: CalendarEvent) =>
+  (event.allDay ? event.start.toISOString().slice(0, 10) : format(event.start, 'yyyy-MM-dd'));
+
+/** The id of the case a hearing belongs to, whether or not the case was populated. */
+const hearingCaseId = (caseId: unknown) => (caseId && typeof caseId === 'object'
+  ? String((caseId as { id?: string; _id?: string }).id ?? (caseId as { _id?: string })._id)
+  : String(caseId));
+
 const Calendar = () => {
-  const { cases, clients, addCase, updateCase, deleteCase, addClient, hearings } = useLegalData();
+  const { addCase, updateCase, deleteCase, addClient, hearings, updateHearing, checkHearingConflict } = useLegalData();
   const { toast } = useToast();
-  const { formatDate } = useFormatting();
+  const { formatDate, formatTime, timezone } = useFormatting();
+  const listView = useListView('calendar', CALENDAR_LIST_DEFAULTS);
+  const { state: filters, update: updateFilters } = listView;
+  const view: CalendarViewMode = VIEW_MODES.some(mode => mode.value === filters.view) ? filters.view as CalendarViewMode : 'month';
   const [currentDate, setCurrentDate] = useState(new Date());
   const [selectedDate, setSelectedDate] = useState<Date | null>(new Date()); // Auto-select today
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingCase, setEditingCase] = useState<Case | null>(null);
   const [showCaseDetails, setShowCaseDetails] = useState(false);
   const [caseForDetails, setCaseForDetails] = useState<Case | null>(null);
+  const [showExport, setShowExport] = useState(false);
+  const [showImport, setShowImport] = useState(false);
 
   // Form state
   const [formCaseNumber, setFormCaseNumber] = useState('');
   const [formClientName, setFormClientName] = useState('');
   const [formCourtName, setFormCourtName] = useState('');
   const [formJudgeName, setFormJudgeName] = useState('');
+  const [formCourtId, setFormCourtId] = useState<string | undefined>();
+  const [formJudgeId, setFormJudgeId] = useState<string | undefined>();
   const [formHearingTime, setFormHearingTime] = useState('');
   const [formPriority, setFormPriority] = useState<Case['priority']>('medium');
   const [formDescription, setFormDescription] = useState('');
@@ -59,6 +124,7 @@ const Calendar = () => {
   const [conflicts, setConflicts] = useState<Conflict[]>([]);
   const [showConflictDialog, setShowConflictDialog] = useState(false);
   const [pendingHearingData, setPendingHearingData] = useState<Partial<Case> | null>(null);
+  const [pendingMove, setPendingMove] = useState<PendingMove | null>(null);
 
   // Tooltip state (temporarily disabled)
   // const [hoveredEvent, setHoveredEvent] = useState<any>(null);
@@ -94,6 +160,44 @@ const Calendar = () => {
     return days;
   }, [currentYear, currentMonth]);
 
+  // Days of the week, day or agenda view, as yyyy-MM-dd in the user's time zone
+  const shownDays = useMemo(() => (view === 'month' ? [] : viewDays(view, currentDate)), [view, currentDate]);
+
+  // The days on screen, a day either side for time zones
+  const [rangeStart, rangeEnd] = useMemo(() => (view === 'month'
+    ? [new Date(currentYear, currentMonth, 0), endOfDay(new Date(currentYear, currentMonth + 1, 1))]
+    : [addDays(parseDayKey(shownDays[0]), -1), endOfDay(addDays(parseDayKey(shownDays[shownDays.length - 1]), 1))]
+  ), [view, currentYear, currentMonth, shownDays]);
+
+  // Cases listed on those days, plus the picked day's when it lies outside them
+  const { data: rangeCases = [] } = useCasesListedBetween(rangeStart, rangeEnd);
+  const selectedOutside = !!selectedDate && (selectedDate < rangeStart || selectedDate > rangeEnd);
+  const { data: selectedDayCases = [] } = useCasesListedBetween(
+    startOfDay(selectedDate ?? rangeStart),
+    endOfDay(selectedDate ?? rangeStart),
+    selectedOutside
+  );
+  const cases = useMemo(
+    () => (selectedOutside ? [...rangeCases, ...selectedDayCases] : rangeCases),
+    [selectedOutside, rangeCases, selectedDayCases]
+  );
+
+  // Cases with a hearing in the next 7 days, for the card under the calendar
+  const [[upcomingFrom, upcomingTo]] = useState(() => [startOfDay(new Date()), endOfDay(addDays(new Date(), 7))]);
+  const { data: upcomingCases = [] } = useCasesListedBetween(upcomingFrom, upcomingTo);
+
+  // Standalone events of the same days
+  const { data: calendarEvents = [] } = useCalendarEvents(format(rangeStart, 'yyyy-MM-dd'), format(rangeEnd, 'yyyy-MM-dd'));
+  const deleteCalendarEvent = useDeleteCalendarEvent();
+
+  const getOtherEventsForDate = useCallback((date: Date) => {
+    if (filters.events !== 'all' && filters.events !== 'other') return [];
+    const day = format(date, 'yyyy-MM-dd');
+    const query = filters.q.trim().toLowerCase();
+    return calendarEvents.filter(event => calendarEventDay(event) === day &&
+      (!query || [event.title, event.location].some(value => value.toLowerCase().includes(query))));
+  }, [calendarEvents, filters.q, filters.events]);
+
   // Get cases and hearings for a specific date
   const getCasesForDate = useCallback((date: Date) => {
     const casesForDate = cases.filter(case_ => {
@@ -125,6 +229,7 @@ const Calendar = () => {
           eventType: 'next_hearing',
           caseNumber: caseData?.caseNumber || `Case ${hearing.caseId}`,
           clientName: caseData?.clientName || 'Client Name Not Found',
+          priority: caseData?.priority as Case['priority'] | undefined,
           courtName: hearing.courtName,
           judgeName: hearing.judgeName,
           hearingTime: hearing.nextHearingTime || hearing.hearingTime,
@@ -134,8 +239,17 @@ const Calendar = () => {
       })
     ];
 
-    return combinedEvents;
-  }, [cases, hearings]);
+    // Search, priority (a hearing's is its case's) and event kind filters
+    const query = filters.q.trim().toLowerCase();
+    return combinedEvents.filter(event => {
+      if (filters.events === 'other') return false;
+      if (filters.events === 'cases' && event.isHearing) return false;
+      if (filters.events === 'hearings' && !event.isHearing) return false;
+      if (filters.priority !== 'all' && event.priority !== filters.priority) return false;
+      return !query || [event.caseNumber, event.clientName, event.courtName, event.judgeName]
+        .some(value => value?.toLowerCase().includes(query));
+    });
+  }, [cases, hearings, filters.q, filters.priority, filters.events]);
 
   // Check for conflicts (overlapping times within 3 hours)
   const getConflictsForDate = useCallback((date: Date) => {
@@ -159,13 +273,89 @@ const Calendar = () => {
     return conflicts;
   }, [getCasesForDate]);
 
-  // Navigate months
-  const previousMonth = () => {
-    setCurrentDate(new Date(currentYear, currentMonth - 1, 1));
+  // Entries of the week, day and agenda views, under the same filters as the month.
+  // Hearings sit at their own slot (not their next date) so they can be dragged.
+  const viewItems = useMemo(() => {
+    if (view === 'month') return [];
+    const days = new Set(shownDays);
+    const query = filters.q.trim().toLowerCase();
+    const matches = (...values: (string | undefined)[]) => !query || values.some(value => value?.toLowerCase().includes(query));
+    const items: CalendarViewItem[] = [];
+
+    if (filters.events === 'all' || filters.events === 'hearings') {
+      hearings.forEach(hearing => {
+        if (hearing.status === 'cancelled') return;
+        const slot = hearingSlot(hearing, timezone);
+        if (!days.has(slot.day)) return;
+        const caseData = (hearing as HearingWithCase).populatedCase;
+        const caseNumber = caseData?.caseNumber || `Case ${hearingCaseId(hearing.caseId)}`;
+        const clientName = caseData?.clientName;
+        if (filters.priority !== 'all' && caseData?.priority !== filters.priority) return;
+        if (!matches(caseNumber, clientName, hearing.courtName, hearing.judgeName)) return;
+        items.push({
+          ...slot,
+          key: `hearing-${hearing.id}`,
+          kind: 'hearing',
+          title: caseNumber,
+          subtitle: [hearing.courtName, clientName].filter(Boolean).join(' · '),
+          hearing: hearing.status === 'scheduled' ? hearing : undefined,
+          source: { ...hearing, isHearing: true, eventType: 'next_hearing', caseNumber },
+        });
+      });
+    }
+
+    if (filters.events === 'all' || filters.events === 'cases') {
+      cases.forEach(case_ => {
+        const listed = case_.nextHearing || case_.hearingDate;
+        if (!listed) return;
+        const slot = caseSlot(new Date(listed), case_.hearingTime, timezone);
+        if (!days.has(slot.day)) return;
+        if (filters.priority !== 'all' && case_.priority !== filters.priority) return;
+        if (!matches(case_.caseNumber, case_.clientName, case_.courtName, case_.judgeName)) return;
+        items.push({
+          ...slot,
+          key: `case-${case_.id}`,
+          kind: 'case',
+          title: case_.caseNumber,
+          subtitle: [case_.courtName, case_.clientName].filter(Boolean).join(' · '),
+          source: case_,
+        });
+      });
+    }
+
+    if (filters.events === 'all' || filters.events === 'other') {
+      calendarEvents.forEach(event => {
+        const slot = calendarEventSlot(event, timezone);
+        if (!days.has(slot.day) || !matches(event.title, event.location)) return;
+        items.push({ ...slot, key: `event-${event.id}`, kind: 'event', title: event.title, subtitle: event.location || undefined, source: event });
+      });
+    }
+
+    return items;
+  }, [view, shownDays, cases, hearings, calendarEvents, timezone, filters.q, filters.priority, filters.events]);
+
+  // Step back or forward a month, week, day or agenda page
+  const step = (direction: 1 | -1) => {
+    if (view === 'month') {
+      setCurrentDate(new Date(currentYear, currentMonth + direction, 1));
+    } else {
+      const next = addDays(currentDate, direction * (view === 'week' ? 7 : view === 'day' ? 1 : AGENDA_DAYS));
+      setCurrentDate(next);
+      setSelectedDate(next);
+    }
   };
 
-  const nextMonth = () => {
-    setCurrentDate(new Date(currentYear, currentMonth + 1, 1));
+  const changeView = (next: CalendarViewMode) => {
+    // Week and day views open on the day picked in the month, not its first
+    if (selectedDate) setCurrentDate(selectedDate);
+    updateFilters({ view: next });
+  };
+
+  const goToDay = (day: string) => {
+    const date = parseDayKey(day);
+    setCurrentDate(date);
+    setSelectedDate(date);
+    updateFilters({ view: 'day' });
   };
 
   // Get today's date
@@ -178,6 +368,10 @@ const Calendar = () => {
 
   // Get selected date cases
   const selectedDateCases = useMemo(() => (selectedDate ? getCasesForDate(selectedDate) : []), [selectedDate, getCasesForDate]);
+  const selectedDateOtherEvents = useMemo(
+    () => (selectedDate ? getOtherEventsForDate(selectedDate) : []),
+    [selectedDate, getOtherEventsForDate]
+  );
 
   const monthNames = [
     'January', 'February', 'March', 'April', 'May', 'June',
@@ -203,12 +397,23 @@ const Calendar = () => {
     setFormClientName('');
     setFormCourtName('');
     setFormJudgeName('');
+    setFormCourtId(undefined);
+    setFormJudgeId(undefined);
     setFormHearingTime('');
     setFormPriority('medium');
     setFormDescription('');
     setIsModalOpen(true);
   };
 
+  // Deep links from the command palette: ?date=YYYY-MM-DD and ?scheduleCase=<caseId>
+  useSearchParamAction('date', value => {
+    const [y, m, d] = value.split('-').map(Number);
+    const date = new Date(y, m - 1, d);
+    if (Number.isNaN(date.getTime())) return;
+    setCurrentDate(date);
+    setSelectedDate(date);
+  });
+
   const openEditModal = (c: Case) => {
     setEditingCase(c);
     // Do NOT change selectedDate here — it would jump the calendar view to the
@@ -219,12 +424,20 @@ const Calendar = () => {
     setFormClientName(c.clientName || '');
     setFormCourtName(c.courtName || '');
     setFormJudgeName(c.judgeName || '');
+    setFormCourtId(c.courtId);
+    setFormJudgeId(c.judgeId);
     setFormHearingTime(c.hearingTime || '');
     setFormPriority(c.priority || 'medium');
     setFormDescription(c.description || '');
     setIsModalOpen(true);
   };
 
+  useSearchParamAction('scheduleCase', caseId => {
+    casesApi.get(caseId).then(openEditModal).catch(() => {
+      // A case that is gone or not ours leaves the calendar as it is
+    });
+  });
+
   const resetModal = () => {
     setIsModalOpen(false);
     setEditingCase(null);
@@ -281,6 +494,8 @@ const Calendar = () => {
       opposingParty: '',
       courtName: trimmedCourtName,
       judgeName: formJudgeName.trim(),
+      courtId: formCourtId,
+      judgeId: formJudgeId,
       hearingDate: selectedDate,
       hearingTime: formHearingTime.trim() || '10:00',
       timezone: formTimezone,
@@ -304,9 +519,7 @@ const Calendar = () => {
       });
     } else {
       // Check if client exists, if not create a new client
-      const existingClient = clients.find(client =>
-        client.name.toLowerCase() === formClientName.trim().toLowerCase()
-      );
+      const existingClient = await clientsApi.findByName(formClientName.trim()).catch(() => undefined);
 
       if (!existingClient) {
         // Generate unique placeholder values to avoid duplicate conflicts
@@ -358,14 +571,89 @@ const Calendar = () => {
     }
   };
 
+  // Save a dragged hearing; a clash the server finds after the pre-check reopens the dialog
+  const saveMove = async (move: PendingMove, overrideReason?: string) => {
+    try {
+      await updateHearing(move.hearingId, move.updates, overrideReason ? true : undefined, overrideReason);
+      const startAt = move.updates.startAt!;
+      toast({
+        title: overrideReason ? 'Hearing moved with override' : 'Hearing moved',
+        description: `Now on ${formatDate(startAt)} at ${formatTime(startAt)}.`
+      });
+    } catch (_error: any) { // eslint-disable-line @typescript-eslint/no-explicit-any
+      const error = _error;
+      if (error.status === 409 && error.conflicts) {
+        setPendingMove(move);
+        setConflicts(error.conflicts);
+        setShowConflictDialog(true);
+      } else {
+        toast({
+          title: 'Failed to move hearing',
+          description: error instanceof Error ? error.message : 'Unable to reschedule the hearing',
+          variant: 'destructive'
+        });
+      }
+    }
+  };
+
+  // A hearing dropped on a slot of the week or day view, in the user's time zone
+  const handleMoveHearing = async (hearing: Hearing, day: string, minutes: number) => {
+    const hearingTime = toClockTime(minutes);
+    const startAt = zonedTimeToUtc(day, hearingTime, timezone);
+    if (startAt < new Date()) {
+      toast({
+        title: 'Invalid time',
+        description: 'Hearings cannot be moved into the past.',
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    const duration = hearingSlot(hearing, timezone).duration;
+    const endAt = new Date(startAt.getTime() + duration * 60 * 1000);
+    const move: PendingMove = {
+      hearingId: hearing.id,
+      // The server takes the UTC date of hearingDate; startAt/endAt keep the
+      // optimistic copy in its new slot until the response arrives
+      updates: { hearingDate: new Date(`${day}T00:00:00.000Z`), hearingTime, timezone, duration, startAt, endAt },
+    };
+
+    try {
+      const result = await checkHearingConflict(startAt, endAt, timezone, undefined, hearing.id, hearingCaseId(hearing.caseId));
+      if (result.hasConflict) {
+        setPendingMove(move);
+        setConflicts(result.conflicts as Conflict[]);
+        setShowConflictDialog(true);
+        return;
+      }
+    } catch (error) {
+      toast({
+        title: 'Conflict check failed',
+        description: error instanceof Error ? error.message : 'Unable to check the new slot for conflicts',
+        variant: 'destructive'
+      });
+      return;
+    }
+    await saveMove(move);
+  };
+
   const handleConflictCancel = () => {
     setShowConflictDialog(false);
     setConflicts([]);
     setPendingHearingData(null);
+    setPendingMove(null);
   };
 
   const handleConflictEditTime = () => {
     setShowConflictDialog(false);
+    if (pendingMove) {
+      setPendingMove(null);
+      toast({
+        title: 'Pick another slot',
+        description: 'Drag the hearing to a free time to avoid conflicts.'
+      });
+      return;
+    }
     // Keep modal open so user can edit the time
     toast({
       title: 'Edit hearing time',
@@ -373,16 +661,23 @@ const Calendar = () => {
     });
   };
 
-  const handleConflictOverride = async (_reason: string) => {
+  const handleConflictOverride = async (reason: string) => {
+    if (pendingMove) {
+      setShowConflictDialog(false);
+      setConflicts([]);
+      setPendingMove(null);
+      await saveMove(pendingMove, reason);
+      return;
+    }
     if (!pendingHearingData) return;
 
     try {
       // Override logic below
 
       // Check if client exists
-      const existingClient = clients.find(client =>
-        client.name.toLowerCase() === pendingHearingData?.clientName?.toLowerCase()
-      );
+      const existingClient = pendingHearingData.clientName
+        ? await clientsApi.findByName(pendingHearingData.clientName).catch(() => undefined)
+        : undefined;
 
       if (!existingClient && pendingHearingData?.clientName) {
         // Generate unique placeholder values to avoid duplicate conflicts
@@ -445,33 +740,41 @@ const Calendar = () => {
     }
   };
 
-  const handleViewCaseDetails = (event: any) => { // eslint-disable-line @typescript-eslint/no-explicit-any
-    let associatedCase = null;
+  const handleDownloadHearing = async (hearingId: string, caseNumber: string) => {
+    try {
+      saveBlob(`hearing-${caseNumber.replace(/[^\w-]+/g, '_')}.ics`, await calendarApi.exportHearing(hearingId));
+    } catch (error) {
+      toast({
+        title: 'Download failed',
+        description: error instanceof Error ? error.message : 'Unable to download the hearing',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const handleDeleteCalendarEvent = async (event: CalendarEvent) => {
+    if (!confirm(`Delete "${event.title}" from the calendar?`)) return;
+    try {
+      await deleteCalendarEvent.mutateAsync(event.id);
+    } catch (error) {
+      toast({
+        title: 'Delete failed',
+        description: error instanceof Error ? error.message : 'Unable to delete the event',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const handleViewCaseDetails = async (event: any) => { // eslint-disable-line @typescript-eslint/no-explicit-any
+    let associatedCase: Case | null = null;
 
     // If this is a regular case (not a hearing event), use it directly
     if (!event.isHearing || event.eventType === 'case') {
       associatedCase = event;
     } else {
-      // This is a hearing event, find the associated case
-      // First, try using the populated case data if available
-      if (event.populatedCase && event.populatedCase._id) {
-        associatedCase = cases.find(c => c.id === event.populatedCase._id);
-      }
-
-      // If not found, try the regular caseId approach
-      if (!associatedCase) {
-        associatedCase = cases.find(c =>
-          c.id === event.caseId ||
-          c.id === event.caseId?.toString() ||
-          event.caseId === c.id ||
-          event.caseId === c.id?.toString()
-        );
-      }
-
-      // If still not found, try finding by case number if we have it
-      if (!associatedCase && event.caseNumber && event.caseNumber !== `Case ${event.caseId}`) {
-        associatedCase = cases.find(c => c.caseNumber === event.caseNumber);
-      }
+      // This is a hearing event; its case may not be among those loaded for the days on screen
+      const caseId = event.populatedCase?._id ?? hearingCaseId(event.caseId);
+      associatedCase = await casesApi.get(caseId).catch(() => null);
     }
 
     if (associatedCase) {
@@ -480,8 +783,66 @@ const Calendar = () => {
     }
   };
 
+  // Cases and hearings open their case; events show in the month's day panel, where they can be deleted
+  const handleOpenItem = (item: CalendarViewItem) => {
+    if (item.kind !== 'event') {
+      handleViewCaseDetails(item.source);
+      return;
+    }
+    const date = parseDayKey(item.day);
+    setSelectedDate(date);
+    setCurrentDate(date);
+    updateFilters({ view: 'month' });
+  };
 
 
+  const now = zonedWallClock(new Date(), timezone);
+  const viewTitle = view === 'month'
+    ? `${monthNames[currentMonth]} ${currentYear}`
+    : view === 'day'
+      ? `${format(currentDate, 'EEEE')}, ${formatDate(currentDate)}`
+      : `${formatDate(parseDayKey(shownDays[0]))} – ${formatDate(parseDayKey(shownDays[shownDays.length - 1]))}`;
+
+  const viewHeader = (
+    <CardHeader className="pb-1.5">
+      <div className="flex flex-wrap items-center justify-between gap-1.5">
+        <CardTitle className="flex items-center gap-1.5 text-sm">
+          <CalendarIcon className="h-4 w-4 text-primary" />
+          {viewTitle}
+        </CardTitle>
+        <div className="flex items-center gap-1">
+          <div className="flex rounded-md border p-0.5">
+            {VIEW_MODES.map(mode => (
+              <Button
+                key={mode.value}
+                variant={view === mode.value ? 'secondary' : 'ghost'}
+                size="sm"
+                className="h-6 px-2 text-[10px]"
+                onClick={() => changeView(mode.value)}
+              >
+                {mode.label}
+              </Button>
+            ))}
+          </div>
+          <Button variant="outline" size="sm" onClick={() => { setCurrentDate(new Date()); setSelectedDate(new Date()); }} className="h-8 text-xs border-transparent hover:border-accent hover:border-2 hover:bg-transparent hover:text-foreground transition-all">
+            Today
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => step(-1)} className="border-transparent hover:border-accent hover:border-2 hover:bg-transparent hover:text-foreground transition-all">
+            <ChevronLeft className="h-3.5 w-3.5" />
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => step(1)} className="border-transparent hover:border-accent hover:border-2 hover:bg-transparent hover:text-foreground transition-all">
+            <ChevronRight className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+      </div>
+      <CardDescription className="text-[10px]">
+        {view === 'month' && 'Click on a date to view scheduled hearings'}
+        {(view === 'week' || view === 'day') && `Drag a scheduled hearing to another slot to reschedule it · times in ${timezone}`}
+        {view === 'agenda' && `Everything on in the next ${AGENDA_DAYS} days · times in ${timezone}`}
+      </CardDescription>
+    </CardHeader>
+  );
+
   return (
     <div className="space-y-2 md:space-y-3">
       {/* Header */}
@@ -490,220 +851,335 @@ const Calendar = () => {
           <h1 className="text-xl md:text-2xl font-bold">Legal Calendar</h1>
           <p className="text-xs text-muted-foreground">Court hearings and important dates</p>
         </div>
-        <Button onClick={openCreateModal} size="sm" className="h-8 text-xs border border-transparent hover:border-accent hover:border-2 hover:bg-transparent hover:text-foreground transition-all">
-          <Plus className="mr-1.5 h-3.5 w-3.5" />
-          Schedule Hearing
-        </Button>
+        <div className="flex gap-1.5">
+          <Button onClick={() => setShowImport(true)} variant="outline" size="sm" className="h-8 text-xs border-transparent hover:border-accent hover:border-2 hover:bg-transparent hover:text-foreground transition-all">
+            <Upload className="mr-1.5 h-3.5 w-3.5" />
+            Import .ics
+          </Button>
+          <Button onClick={() => setShowExport(true)} variant="outline" size="sm" className="h-8 text-xs border-transparent hover:border-accent hover:border-2 hover:bg-transparent hover:text-foreground transition-all">
+            <Download className="mr-1.5 h-3.5 w-3.5" />
+            Export .ics
+          </Button>
+          <Button onClick={openCreateModal} size="sm" className="h-8 text-xs border border-transparent hover:border-accent hover:border-2 hover:bg-transparent hover:text-foreground transition-all">
+            <Plus className="mr-1.5 h-3.5 w-3.5" />
+            Schedule Hearing
+          </Button>
+        </div>
       </div>
 
-      <div className="grid grid-cols-1 lg:grid-cols-3 gap-2 md:gap-3">
-        {/* Calendar */}
-        <Card className="lg:col-span-2 shadow-elevated">
-          <CardHeader className="pb-1.5">
-            <div className="flex items-center justify-between">
-              <CardTitle className="flex items-center gap-1.5 text-sm">
-                <CalendarIcon className="h-4 w-4 text-primary" />
-                {monthNames[currentMonth]} {currentYear}
-              </CardTitle>
-              <div className="flex gap-1">
-                <Button variant="outline" size="sm" onClick={previousMonth} className="border-transparent hover:border-accent hover:border-2 hover:bg-transparent hover:text-foreground transition-all">
-                  <ChevronLeft className="h-3.5 w-3.5" />
-                </Button>
-                <Button variant="outline" size="sm" onClick={nextMonth} className="border-transparent hover:border-accent hover:border-2 hover:bg-transparent hover:text-foreground transition-all">
-                  <ChevronRight className="h-3.5 w-3.5" />
-                </Button>
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="relative min-w-48 flex-1">
+          <Search className="absolute left-2 top-2.5 h-3.5 w-3.5 text-muted-foreground" />
+          <Input
+            placeholder="Filter by case number, client, court or judge..."
+            value={filters.q}
+            onChange={(e) => updateFilters({ q: e.target.value })}
+            className="pl-8 h-8 text-xs border-transparent hover:border-accent hover:border-2 transition-all"
+          />
+        </div>
+        <Select value={filters.priority} onValueChange={priority => updateFilters({ priority })}>
+          <SelectTrigger className="w-32 h-8 text-xs border-transparent hover:border-accent hover:border-2 transition-all">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Priority</SelectItem>
+            <SelectItem value="urgent">Urgent</SelectItem>
+            <SelectItem value="high">High</SelectItem>
+            <SelectItem value="medium">Medium</SelectItem>
+            <SelectItem value="low">Low</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select value={filters.events} onValueChange={events => updateFilters({ events })}>
+          <SelectTrigger className="w-36 h-8 text-xs border-transparent hover:border-accent hover:border-2 transition-all">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Cases and hearings</SelectItem>
+            <SelectItem value="cases">Cases only</SelectItem>
+            <SelectItem value="hearings">Hearings only</SelectItem>
+            <SelectItem value="other">Other events only</SelectItem>
+          </SelectContent>
+        </Select>
+        <SavedViewsMenu page="calendar" listView={listView} />
+      </div>
+
+      {view === 'month' ? (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-2 md:gap-3">
+          {/* Calendar */}
+          <Card className="lg:col-span-2 shadow-elevated">
+            {viewHeader}
+            <CardContent className="pt-1.5">
+              {/* Week headers */}
+              <div className="grid grid-cols-7 gap-1 mb-1">
+                {weekDays.map(day => (
+                  <div key={day} className="p-1 text-center text-[10px] font-medium text-muted-foreground">
+                    {day}
+                  </div>
+                ))}
               </div>
-            </div>
-            <CardDescription className="text-[10px]">Click on a date to view scheduled hearings</CardDescription>
-          </CardHeader>
-          <CardContent className="pt-1.5">
-            {/* Week headers */}
-            <div className="grid grid-cols-7 gap-1 mb-1">
-              {weekDays.map(day => (
-                <div key={day} className="p-1 text-center text-[10px] font-medium text-muted-foreground">
-                  {day}
-                </div>
-              ))}
-            </div>
 
-            {/* Calendar grid */}
-            <div key={`calendar-grid-${currentYear}-${currentMonth}`} className="grid grid-cols-7 gap-1">
-              {calendarDays.map((day, index) => {
-                if (day === null) {
-                  return <div key={`empty-${index}`} className="p-1.5 h-12"></div>;
-                }
-
-                const date = new Date(currentYear, currentMonth, day);
-                const casesForDay = getCasesForDate(date);
-                const conflictsForDay = getConflictsForDate(date);
-                const isSelected = selectedDate?.toDateString() === date.toDateString();
-
-                return (
-                  <div
-                    key={`day-${currentYear}-${currentMonth}-${day}`}
-                    onClick={() => setSelectedDate(date)}
-                    className={cn(
-                      "p-1.5 h-12 border rounded-lg cursor-pointer transition-colors hover:bg-muted relative overflow-hidden",
-                      isToday(day) && "bg-blue-500/10 border-blue-600 border-2",
-                      isSelected && !isToday(day) && "border-accent border-2",
-                      isSelected && isToday(day) && "bg-blue-500/10 border-blue-600 border-2",
-                      !isToday(day) && casesForDay.length > 0 && !isSelected && "border-primary",
-                      conflictsForDay.length > 0 && !isToday(day) && "bg-destructive/5"
-                    )}
-                  >
-                    {/* Day number row */}
-                    <div className="flex items-center justify-between">
-                      <div className="text-[11px] font-medium leading-none">{day}</div>
-                      {isToday(day) && (
-                        <span className="text-[8px] font-semibold text-blue-600 dark:text-blue-400 bg-blue-100 dark:bg-blue-900/30 px-1 py-0.5 rounded leading-none">
-                          Today
-                        </span>
+              {/* Calendar grid */}
+              <div key={`calendar-grid-${currentYear}-${currentMonth}`} className="grid grid-cols-7 gap-1">
+                {calendarDays.map((day, index) => {
+                  if (day === null) {
+                    return <div key={`empty-${index}`} className="p-1.5 h-12"></div>;
+                  }
+
+                  const date = new Date(currentYear, currentMonth, day);
+                  const casesForDay = getCasesForDate(date);
+                  const otherEventsForDay = getOtherEventsForDate(date);
+                  const conflictsForDay = getConflictsForDate(date);
+                  const isSelected = selectedDate?.toDateString() === date.toDateString();
+
+                  return (
+                    <div
+                      key={`day-${currentYear}-${currentMonth}-${day}`}
+                      onClick={() => setSelectedDate(date)}
+                      className={cn(
+                        "p-1.5 h-12 border rounded-lg cursor-pointer transition-colors hover:bg-muted relative overflow-hidden",
+                        isToday(day) && "bg-blue-500/10 border-blue-600 border-2",
+                        isSelected && !isToday(day) && "border-accent border-2",
+                        isSelected && isToday(day) && "bg-blue-500/10 border-blue-600 border-2",
+                        !isToday(day) && casesForDay.length > 0 && !isSelected && "border-primary",
+                        conflictsForDay.length > 0 && !isToday(day) && "bg-destructive/5"
                       )}
-                    </div>
-                    {/* Events row — always one line, never wraps outside the cell */}
-                    {casesForDay.length > 0 && (
-                      <div className="flex items-center gap-0.5 mt-1 flex-nowrap">
-                        {casesForDay.slice(0, 2).map((event, idx) => (
-                          <div
-                            key={idx}
-                            className={cn(
-                              "w-1.5 h-1.5 rounded-full flex-shrink-0",
-                              event.isHearing ? 'bg-blue-500' :
-                                (event as any).priority === 'urgent' ? 'bg-red-500' : // eslint-disable-line @typescript-eslint/no-explicit-any
-                                  (event as any).priority === 'high' ? 'bg-orange-500' : // eslint-disable-line @typescript-eslint/no-explicit-any
-                                    (event as any).priority === 'medium' ? 'bg-yellow-500' : 'bg-green-500' // eslint-disable-line @typescript-eslint/no-explicit-any
-                            )}
-                            title={event.isHearing ? 'Next Hearing' : `${(event as any).priority || 'medium'} priority case`} // eslint-disable-line @typescript-eslint/no-explicit-any
-                          />
-                        ))}
-                        {casesForDay.length > 2 && (
-                          <span className="text-[8px] text-muted-foreground leading-none flex-shrink-0">
-                            +{casesForDay.length - 2}
+                    >
+                      {/* Day number row */}
+                      <div className="flex items-center justify-between">
+                        <div className="text-[11px] font-medium leading-none">{day}</div>
+                        {isToday(day) && (
+                          <span className="text-[8px] font-semibold text-blue-600 dark:text-blue-400 bg-blue-100 dark:bg-blue-900/30 px-1 py-0.5 rounded leading-none">
+                            Today
                           </span>
                         )}
-                        {conflictsForDay.length > 0 && (
-                          <span className="text-[8px] text-destructive leading-none ml-auto flex-shrink-0" title="Schedule conflict">⚠</span>
-                        )}
-                      </div>
-                    )}
-                  </div>
-                );
-              })}
-            </div>
-          </CardContent>
-        </Card>
-
-        {/* Selected Date Details */}
-        <Card className="shadow-elevated">
-          <CardHeader className="pb-1.5">
-            <CardTitle className="flex items-center gap-1.5 text-sm">
-              <Clock className="h-4 w-4 text-primary" />
-              {selectedDate ? formatDate(selectedDate, { includeTime: false }) : 'Select a Date'}
-            </CardTitle>
-            <CardDescription className="text-[10px]">
-              {selectedDate ? (
-                selectedDateCases.length > 0 ?
-                  `${selectedDateCases.length} hearing${selectedDateCases.length > 1 ? 's' : ''} scheduled` :
-                  'No hearings scheduled'
-              ) : 'Click on a date to view hearings'}
-            </CardDescription>
-          </CardHeader>
-          <CardContent className="pt-1.5">
-            {selectedDateCases.length > 0 ? (
-              <div className="space-y-2">
-                {selectedDateCases.map((event, index) => (
-                  <div key={event.id || index} className="p-2 border rounded-lg space-y-1">
-                    <div className="flex items-center justify-between">
-                      <h4 className="font-medium text-[11px]">
-                        {event.isHearing ? `Next Hearing - ${event.caseNumber}` : event.caseNumber}
-                      </h4>
-                      <div className="flex items-center gap-1.5">
-                        {event.isHearing ? (
-                          <Badge variant="outline" className="bg-primary/10 text-primary border-primary/20 text-[9px] h-4 px-1">
-                            Next Hearing
-                          </Badge>
-                        ) : (
-                          <Badge variant="outline" className={`${getPriorityColor((event as Case).priority || 'medium')} text-[9px] h-4 px-1`}>
-                            {(event as Case).priority || 'medium'}
-                          </Badge>
-                        )}
                       </div>
+                      {/* Events row — always one line, never wraps outside the cell */}
+                      {(casesForDay.length > 0 || otherEventsForDay.length > 0) && (
+                        <div className="flex items-center gap-0.5 mt-1 flex-nowrap">
+                          {casesForDay.slice(0, 2).map((event, idx) => (
+                            <div
+                              key={idx}
+                              className={cn(
+                                "w-1.5 h-1.5 rounded-full flex-shrink-0",
+                                event.isHearing ? 'bg-blue-500' :
+                                  (event as any).priority === 'urgent' ? 'bg-red-500' : // eslint-disable-line @typescript-eslint/no-explicit-any
+                                    (event as any).priority === 'high' ? 'bg-orange-500' : // eslint-disable-line @typescript-eslint/no-explicit-any
+                                      (event as any).priority === 'medium' ? 'bg-yellow-500' : 'bg-green-500' // eslint-disable-line @typescript-eslint/no-explicit-any
+                              )}
+                              title={event.isHearing ? 'Next Hearing' : `${(event as any).priority || 'medium'} priority case`} // eslint-disable-line @typescript-eslint/no-explicit-any
+                            />
+                          ))}
+                          {casesForDay.length > 2 && (
+                            <span className="text-[8px] text-muted-foreground leading-none flex-shrink-0">
+                              +{casesForDay.length - 2}
+                            </span>
+                          )}
+                          {otherEventsForDay.length > 0 && (
+                            <div
+                              className="w-1.5 h-1.5 rounded-full flex-shrink-0 bg-slate-400"
+                              title={`${otherEventsForDay.length} other event${otherEventsForDay.length > 1 ? 's' : ''}`}
+                            />
+                          )}
+                          {conflictsForDay.length > 0 && (
+                            <span className="text-[8px] text-destructive leading-none ml-auto flex-shrink-0" title="Schedule conflict">⚠</span>
+                          )}
+                        </div>
+                      )}
                     </div>
+                  );
+                })}
+              </div>
+            </CardContent>
+          </Card>
 
-                    <div className="space-y-0.5 text-[10px] text-muted-foreground">
-                      <div className="flex items-center gap-1.5">
-                        <User className="h-2.5 w-2.5" />
-                        <span>{event.isHearing ? event.clientName : event.clientName}</span>
-                      </div>
-                      <div className="flex items-center gap-1.5">
-                        <MapPin className="h-2.5 w-2.5" />
-                        <span>{event.courtName}</span>
-                      </div>
-                      <div className="flex items-center gap-1.5">
-                        <Clock className="h-2.5 w-2.5" />
-                        <span>{event.hearingTime || 'Time not specified'}</span>
+          {/* Selected Date Details */}
+          <Card className="shadow-elevated">
+            <CardHeader className="pb-1.5">
+              <CardTitle className="flex items-center gap-1.5 text-sm">
+                <Clock className="h-4 w-4 text-primary" />
+                {selectedDate ? formatDate(selectedDate, { includeTime: false }) : 'Select a Date'}
+              </CardTitle>
+              <CardDescription className="text-[10px]">
+                {selectedDate ? (
+                  selectedDateCases.length > 0 ?
+                    `${selectedDateCases.length} hearing${selectedDateCases.length > 1 ? 's' : ''} scheduled` :
+                    'No hearings scheduled'
+                ) : 'Click on a date to view hearings'}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="pt-1.5">
+              {selectedDateCases.length > 0 ? (
+                <div className="space-y-2">
+                  {selectedDateCases.map((event, index) => (
+                    <div key={event.id || index} className="p-2 border rounded-lg space-y-1">
+                      <div className="flex items-center justify-between">
+                        <h4 className="font-medium text-[11px]">
+                          {event.isHearing ? `Next Hearing - ${event.caseNumber}` : event.caseNumber}
+                        </h4>
+                        <div className="flex items-center gap-1.5">
+                          {event.isHearing ? (
+                            <Badge variant="outline" className="bg-primary/10 text-primary border-primary/20 text-[9px] h-4 px-1">
+                              Next Hearing
+                            </Badge>
+                          ) : (
+                            <Badge variant="outline" className={`${getPriorityColor((event as Case).priority || 'medium')} text-[9px] h-4 px-1`}>
+                              {(event as Case).priority || 'medium'}
+                            </Badge>
+                          )}
+                        </div>
                       </div>
-                      {event.judgeName && (
+
+                      <div className="space-y-0.5 text-[10px] text-muted-foreground">
+                        <div className="flex items-center gap-1.5">
+                          <User className="h-2.5 w-2.5" />
+                          <span>{event.isHearing ? event.clientName : event.clientName}</span>
+                        </div>
                         <div className="flex items-center gap-1.5">
-                          <FileText className="h-2.5 w-2.5" />
-                          <span>{event.judgeName}</span>
+                          <MapPin className="h-2.5 w-2.5" />
+                          <span>{event.courtName}</span>
+                        </div>
+                        <div className="flex items-center gap-1.5">
+                          <Clock className="h-2.5 w-2.5" />
+                          <span>{event.hearingTime || 'Time not specified'}</span>
+                        </div>
+                        {event.judgeName && (
+                          <div className="flex items-center gap-1.5">
+                            <FileText className="h-2.5 w-2.5" />
+                            <span>{event.judgeName}</span>
+                          </div>
+                        )}
+                        {event.isHearing && (
+                          <div className="flex items-center gap-1.5 text-muted-foreground">
+                            <CalendarIcon className="h-2.5 w-2.5" />
+                            <span>Scheduled Next Hearing</span>
+                          </div>
+                        )}
+                      </div>
+
+                      {event.description && (
+                        <p className="text-[10px] text-muted-foreground line-clamp-2">
+                          {event.description}
+                        </p>
+                      )}
+
+                      {!event.isHearing && (
+                        <div className="flex items-center gap-1.5 pt-0.5">
+                          <Button variant="outline" size="sm" className="h-6 text-[10px] px-2" onClick={() => handleViewCaseDetails(event)}>View</Button>
+                          <Button variant="outline" size="sm" className="h-6 text-[10px] px-2" onClick={() => openEditModal(event as Case)}>Edit</Button>
+                          <Button variant="destructive" size="sm" className="h-6 text-[10px] px-2" onClick={() => handleDelete(event as Case)}>Delete</Button>
                         </div>
                       )}
+
                       {event.isHearing && (
-                        <div className="flex items-center gap-1.5 text-muted-foreground">
-                          <CalendarIcon className="h-2.5 w-2.5" />
-                          <span>Scheduled Next Hearing</span>
+                        <div className="flex items-center gap-1.5 pt-0.5">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="h-6 text-[10px] px-2"
+                            onClick={() => handleViewCaseDetails(event)}
+                          >
+                            View
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="h-6 text-[10px] px-2"
+                            onClick={() => handleDownloadHearing(event.id, event.caseNumber)}
+                            title="Add this hearing to your calendar app"
+                          >
+                            <Download className="mr-1 h-2.5 w-2.5" />
+                            .ics
+                          </Button>
                         </div>
                       )}
                     </div>
+                  ))}
+                </div>
+              ) : selectedDate ? (
+                <div className="text-center py-6 text-muted-foreground">
+                  <CalendarIcon className="h-8 w-8 mx-auto mb-1.5 opacity-50" />
+                  <p className="text-xs">No hearings scheduled for this date</p>
+                  <Button variant="outline" size="sm" className="mt-1.5 h-6 text-[10px] border-transparent hover:border-accent hover:border-2 hover:bg-transparent hover:text-foreground transition-all" onClick={openCreateModal}>
+                    <Plus className="mr-1 h-2.5 w-2.5" />
+                    Schedule Hearing
+                  </Button>
+                </div>
+              ) : (
+                <div className="text-center py-6 text-muted-foreground">
+                  <CalendarIcon className="h-8 w-8 mx-auto mb-1.5 opacity-50" />
+                  <p className="text-xs">Select a date to view hearings</p>
+                </div>
+              )}
 
-                    {event.description && (
-                      <p className="text-[10px] text-muted-foreground line-clamp-2">
-                        {event.description}
-                      </p>
-                    )}
-
-                    {!event.isHearing && (
-                      <div className="flex items-center gap-1.5 pt-0.5">
-                        <Button variant="outline" size="sm" className="h-6 text-[10px] px-2" onClick={() => handleViewCaseDetails(event)}>View</Button>
-                        <Button variant="outline" size="sm" className="h-6 text-[10px] px-2" onClick={() => openEditModal(event as Case)}>Edit</Button>
-                        <Button variant="destructive" size="sm" className="h-6 text-[10px] px-2" onClick={() => handleDelete(event as Case)}>Delete</Button>
+              {selectedDateOtherEvents.length > 0 && (
+                <div className="mt-2 space-y-2">
+                  <h4 className="text-[10px] font-medium uppercase tracking-wide text-muted-foreground">Other events</h4>
+                  {selectedDateOtherEvents.map(event => (
+                    <div key={event.id} className="p-2 border border-dashed rounded-lg space-y-1">
+                      <h4 className="font-medium text-[11px]">{event.title}</h4>
+                      <div className="space-y-0.5 text-[10px] text-muted-foreground">
+                        <div className="flex items-center gap-1.5">
+                          <Clock className="h-2.5 w-2.5" />
+                          <span>
+                            {event.allDay
+                              ? 'All day'
+                              : `${formatTime(event.start)}${event.end ? `–${formatTime(event.end)}` : ''}`}
+                          </span>
+                        </div>
+                        {event.location && (
+                          <div className="flex items-center gap-1.5">
+                            <MapPin className="h-2.5 w-2.5" />
+                            <span>{event.location}</span>
+                          </div>
+                        )}
+                        {event.fileName && (
+                          <div className="flex items-center gap-1.5">
+                            <FileText className="h-2.5 w-2.5" />
+                            <span>Imported from {event.fileName}</span>
+                          </div>
+                        )}
                       </div>
-                    )}
-
-                    {event.isHearing && (
+                      {event.description && (
+                        <p className="text-[10px] text-muted-foreground line-clamp-2">{event.description}</p>
+                      )}
                       <div className="flex items-center gap-1.5 pt-0.5">
                         <Button
-                          variant="outline"
+                          variant="destructive"
                           size="sm"
                           className="h-6 text-[10px] px-2"
-                          onClick={() => handleViewCaseDetails(event)}
+                          onClick={() => handleDeleteCalendarEvent(event)}
+                          disabled={deleteCalendarEvent.isPending}
                         >
-                          View
+                          Delete
                         </Button>
                       </div>
-                    )}
-                  </div>
-                ))}
-              </div>
-            ) : selectedDate ? (
-              <div className="text-center py-6 text-muted-foreground">
-                <CalendarIcon className="h-8 w-8 mx-auto mb-1.5 opacity-50" />
-                <p className="text-xs">No hearings scheduled for this date</p>
-                <Button variant="outline" size="sm" className="mt-1.5 h-6 text-[10px] border-transparent hover:border-accent hover:border-2 hover:bg-transparent hover:text-foreground transition-all" onClick={openCreateModal}>
-                  <Plus className="mr-1 h-2.5 w-2.5" />
-                  Schedule Hearing
-                </Button>
-              </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      ) : (
+        <Card className="shadow-elevated">
+          {viewHeader}
+          <CardContent className="pt-1.5">
+            {view === 'agenda' ? (
+              <CalendarAgenda days={shownDays} items={viewItems} today={now.date} onOpen={handleOpenItem} />
             ) : (
-              <div className="text-center py-6 text-muted-foreground">
-                <CalendarIcon className="h-8 w-8 mx-auto mb-1.5 opacity-50" />
-                <p className="text-xs">Select a date to view hearings</p>
-              </div>
+              <CalendarTimeGrid
+                days={shownDays}
+                items={viewItems}
+                now={now}
+                onOpen={handleOpenItem}
+                onSelectDay={goToDay}
+                onMoveHearing={handleMoveHearing}
+              />
             )}
           </CardContent>
         </Card>
-      </div>
+      )}
 
       {/* Upcoming Hearings */}
       <Card className="shadow-card-custom">
@@ -713,7 +1189,7 @@ const Calendar = () => {
         </CardHeader>
         <CardContent className="pt-1.5">
           <div className="space-y-2">
-            {cases
+            {upcomingCases
               .filter(case_ => {
                 if (!case_.nextHearing) return false;
                 const caseDate = new Date(case_.nextHearing);
@@ -747,7 +1223,7 @@ const Calendar = () => {
                 </div>
               ))}
 
-            {cases.filter(case_ => {
+            {upcomingCases.filter(case_ => {
               if (!case_.nextHearing) return false;
               const caseDate = new Date(case_.nextHearing);
               const sevenDaysFromNow = new Date();
@@ -785,11 +1261,26 @@ const Calendar = () => {
             <div className="grid grid-cols-2 gap-3">
               <div className="space-y-2">
                 <Label htmlFor="courtName">Court</Label>
-                <Input id="courtName" value={formCourtName} onChange={(e) => setFormCourtName(e.target.value)} placeholder="Court name" className="border-transparent hover:border-accent hover:border-2 transition-all" />
+                <CourtAutocomplete
+                  id="courtName"
+                  value={formCourtName}
+                  linkedId={formCourtId}
+                  onChange={({ name, id }) => { setFormCourtName(name); setFormCourtId(id); }}
+                  placeholder="Court name"
+                  className="border-transparent hover:border-accent hover:border-2 transition-all"
+                />
               </div>
               <div className="space-y-2">
                 <Label htmlFor="judgeName">Judge</Label>
-                <Input id="judgeName" value={formJudgeName} onChange={(e) => setFormJudgeName(e.target.value)} placeholder="Judge name" className="border-transparent hover:border-accent hover:border-2 transition-all" />
+                <JudgeAutocomplete
+                  id="judgeName"
+                  value={formJudgeName}
+                  linkedId={formJudgeId}
+                  courtId={formCourtId}
+                  onChange={({ name, id }) => { setFormJudgeName(name); setFormJudgeId(id); }}
+                  placeholder="Judge name"
+                  className="border-transparent hover:border-accent hover:border-2 transition-all"
+                />
               </div>
             </div>
             <div className="grid grid-cols-2 gap-3">
@@ -890,6 +1381,9 @@ const Calendar = () => {
 
 
 
+      <CalendarExportDialog open={showExport} month={currentDate} onClose={() => setShowExport(false)} />
+      <CalendarImportWizard open={showImport} month={currentDate} onClose={() => setShowImport(false)} />
+
       {/* Conflict Dialog */}
       <ConflictDialog
         isOpen={showConflictDialog}
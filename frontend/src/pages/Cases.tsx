@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -13,9 +13,15 @@ import {
   AlertTriangle,
   CheckCircle,
   Clock,
-  XCircle
+  XCircle,
+  Loader2,
+  LayoutGrid,
+  Kanban,
+  Columns3,
+  Gavel,
+  Archive
 } from 'lucide-react';
-import { useLegalData, type Case } from '@/contexts/LegalDataContext';
+import { useLegalData, type Case, type CaseParty, type Client, type CustomFieldValue } from '@/contexts/LegalDataContext';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Label } from '@/components/ui/label';
@@ -24,48 +30,119 @@ import { CaseConflictChecker } from '@/components/CaseConflictChecker';
 import { CaseSummaryGenerator } from '@/components/CaseSummaryGenerator';
 import { CaseDetailsPopup } from '@/components/CaseDetailsPopup';
 import { CaseNotesPanel } from '@/components/CaseNotesPanel';
+import { CasePartiesEditor } from '@/components/CasePartiesEditor';
+import { CustomFieldInputs } from '@/components/customFields/CustomFieldInputs';
+import { BulkActionBar } from '@/components/bulk/BulkActionBar';
+import { CourtAutocomplete, JudgeAutocomplete } from '@/components/directory/DirectoryAutocomplete';
+import { CaseBoard } from '@/components/CaseBoard';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { SavedViewsMenu } from '@/components/views/SavedViewsMenu';
+import { CaseClosureWizard } from '@/components/closure/CaseClosureWizard';
+import { ReopenCaseDialog } from '@/components/closure/ReopenCaseDialog';
 import { useToast } from '@/hooks/use-toast';
 import { useFormAutoSave } from '@/hooks/useFormAutoSave';
+import { useDebounce } from '@/hooks/useDebounce';
+import { useSearchParamAction } from '@/hooks/useSearchParamAction';
+import { useInfiniteScroll } from '@/hooks/useInfiniteScroll';
+import { useListView } from '@/hooks/useListView';
+import { useSelection } from '@/hooks/useSelection';
+import { useCase, useCaseFieldSchemas, useCasePages, useConflictCandidates, type ListFilters } from '@/hooks/useLegalQueries';
+import { ClientPicker } from '@/components/pickers/RecordPicker';
 import { useFormatting } from '@/contexts/FormattingContext';
+import { caseTypeLabel, caseTypeOptions, fieldsForCaseType } from '@/lib/customFields';
+import { caseNumberKey, parseCaseNumber } from '@/lib/caseNumber';
+import { isClosedStatus, outcomeForStatus } from '@/lib/closure';
+import { downloadCsv, toCsv } from '@/lib/csv';
+import { clientsApi } from '@/services/api/client';
+import { CASE_STATUSES, type BoardGrouping, type ClosureOutcome, type CustomField } from '@/services/api/schemas';
+
+const SORT_OPTIONS = [
+  { value: 'createdAt:desc', label: 'Newest first' },
+  { value: 'updatedAt:desc', label: 'Recently updated' },
+  { value: 'nextHearing:asc', label: 'Next hearing' },
+  { value: 'caseNumber:asc', label: 'Case number' },
+  { value: 'clientName:asc', label: 'Client name' },
+];
 
-const COURT_OPTIONS = [
-  'Supreme Court of India',
-  'Delhi High Court',
-  'Bombay High Court',
-  'Calcutta High Court',
-  'Madras High Court',
-  'Allahabad High Court',
-  'Punjab and Haryana High Court',
-  'Gujarat High Court',
-  'Karnataka High Court',
-  'Kerala High Court',
-  'District Court'
+// Lines of a case card that can be hidden; a saved view keeps the visible ones as a comma list
+const CARD_FIELDS = [
+  { key: 'opposing', label: 'Opposing party' },
+  { key: 'court', label: 'Court' },
+  { key: 'judge', label: 'Judge' },
+  { key: 'hearing', label: 'Next hearing' },
+  { key: 'description', label: 'Description' },
+  { key: 'tags', label: 'Tags' },
 ];
 
+// URL parameters of the case list and their defaults
+const CASE_LIST_DEFAULTS = {
+  q: '',
+  status: 'all',
+  priority: 'all',
+  type: 'all',
+  archive: 'exclude',
+  cf: '',
+  cfValue: '',
+  sort: SORT_OPTIONS[0].value,
+  layout: 'grid',
+  group: 'status',
+  fields: 'opposing,court,hearing,description,tags',
+};
+
 const Cases = () => {
-  const { cases, clients, addCase, updateCase, deleteCase, addClient, getHearingsByCaseId } = useLegalData();
+  const { addCase, updateCase, deleteCase, addClient, getHearingsByCaseId } = useLegalData();
   const { formatDateShort } = useFormatting();
-  const [searchTerm, setSearchTerm] = useState('');
-  const [statusFilter, setStatusFilter] = useState('all');
-  const [priorityFilter, setPriorityFilter] = useState('all');
+  // Filters, sort, layout and card fields live in the URL, so the list can be bookmarked or saved as a view
+  const listView = useListView('cases', CASE_LIST_DEFAULTS);
+  const { state: listState, update: updateList } = listView;
+  const searchTerm = listState.q;
+  const statusFilter = listState.status;
+  const priorityFilter = listState.priority;
+  const sortOption = listState.sort;
+  const caseTypeFilter = listState.type;
+  const archiveFilter = listState.archive;
+  const customFieldFilter = { key: listState.cf, value: listState.cfValue };
+  const view = listState.layout === 'board' ? 'board' : 'grid';
+  const boardGrouping: BoardGrouping = listState.group === 'stage' ? 'stage' : 'status';
+  const visibleFields = useMemo(() => new Set(listState.fields.split(',')), [listState.fields]);
+  const toggleField = (key: string) => {
+    const next = CARD_FIELDS.map(field => field.key).filter(k => (k === key ? !visibleFields.has(k) : visibleFields.has(k)));
+    updateList({ fields: next.join(',') });
+  };
   const [showAddDialog, setShowAddDialog] = useState(false);
   const [selectedCase, setSelectedCase] = useState<Case | null>(null);
   const [showCaseDetails, setShowCaseDetails] = useState(false);
   const [caseForDetails, setCaseForDetails] = useState<Case | null>(null);
   const [showNotesPanel, setShowNotesPanel] = useState(false);
   const [caseForNotes, setCaseForNotes] = useState<Case | null>(null);
+  // Won, lost and closed are reached through the closure wizard; archived cases come back through reopen
+  const [closing, setClosing] = useState<{ case_: Case; outcome?: ClosureOutcome } | null>(null);
+  const [caseToReopen, setCaseToReopen] = useState<Case | null>(null);
   const { toast } = useToast();
-  const [clientSelection, setClientSelection] = useState<{ mode: 'existing' | 'custom'; clientId?: string }>({ mode: 'custom' });
-  const [courtSelectValue, setCourtSelectValue] = useState('');
+  const [clientSelection, setClientSelection] = useState<{ mode: 'existing' | 'custom'; clientId?: string; name?: string }>({ mode: 'custom' });
   const todayIsoString = new Date().toISOString().split('T')[0];
+  const { data: caseFieldSchemas = [] } = useCaseFieldSchemas();
+
+  // ?open=<caseId> (command palette) opens that case's details
+  const [caseToOpen, setCaseToOpen] = useState<string | undefined>();
+  useSearchParamAction('open', setCaseToOpen);
+  const { data: detailsCase } = useCase(caseToOpen ?? caseForDetails?.id);
 
   useEffect(() => {
-    if (!caseForDetails) return;
-    const latest = cases.find(c => c.id === caseForDetails.id);
-    if (latest && latest !== caseForDetails) {
-      setCaseForDetails(latest);
+    if (!detailsCase) return;
+    setCaseForDetails(detailsCase);
+    if (detailsCase.id === caseToOpen) {
+      setShowCaseDetails(true);
+      setCaseToOpen(undefined);
     }
-  }, [cases, caseForDetails]);
+  }, [detailsCase, caseToOpen]);
 
   // Form state for adding/editing cases
   const [formData, setFormData] = useState({
@@ -74,13 +151,17 @@ const Cases = () => {
     opposingParty: '',
     courtName: '',
     judgeName: '',
+    courtId: undefined as string | undefined,
+    judgeId: undefined as string | undefined,
     hearingDate: '',
     hearingTime: '',
     status: 'active' as Case['status'],
     priority: 'medium' as Case['priority'],
     caseType: '',
     description: '',
-    notes: ''
+    notes: '',
+    parties: [] as CaseParty[],
+    customFields: {} as Record<string, CustomFieldValue>
   });
 
   // Auto-save form data (only when adding new case, not editing)
@@ -95,16 +176,19 @@ const Cases = () => {
       opposingParty: '',
       courtName: '',
       judgeName: '',
+      courtId: undefined,
+      judgeId: undefined,
       hearingDate: '',
       hearingTime: '',
       status: 'active',
       priority: 'medium',
       caseType: '',
       description: '',
-      notes: ''
+      notes: '',
+      parties: [],
+      customFields: {}
     });
     setClientSelection({ mode: 'custom' });
-    setCourtSelectValue('');
   };
 
   // Restore saved data when opening dialog for new case
@@ -123,27 +207,26 @@ const Cases = () => {
     }
   };
 
-  const handleClientSelect = (value: string) => {
-    if (value === '__custom__') {
-      setClientSelection({ mode: 'custom' });
-      setFormData(prev => ({ ...prev, clientName: '' }));
-      return;
-    }
-    setClientSelection({ mode: 'existing', clientId: value });
-    const selected = clients.find(client => client.id === value);
-    setFormData(prev => ({ ...prev, clientName: selected?.name || '' }));
+  const handleClientSelect = (clientId: string, client?: Client) => {
+    setClientSelection({ mode: 'existing', clientId, name: client?.name });
+    setFormData(prev => ({ ...prev, clientName: client?.name || '' }));
   };
 
-  const handleCourtSelect = (value: string) => {
-    if (value === '__custom__') {
-      setCourtSelectValue('__custom__');
-      setFormData(prev => ({ ...prev, courtName: '' }));
-    } else {
-      setCourtSelectValue(value);
-      setFormData(prev => ({ ...prev, courtName: value }));
-    }
+  const handleAddNewClient = () => {
+    setClientSelection({ mode: 'custom' });
+    setFormData(prev => ({ ...prev, clientName: '' }));
   };
 
+  // How the number being entered reads, and an existing case it duplicates however that was written
+  const parsedCaseNumber = useMemo(() => parseCaseNumber(formData.caseNumber), [formData.caseNumber]);
+  const typedCaseNumber = useDebounce(formData.caseNumber.trim(), 300);
+  const { data: sameNumberCandidates = [] } = useConflictCandidates({ caseNumber: typedCaseNumber }, showAddDialog && !!typedCaseNumber);
+  const sameNumberCase = useMemo(() => (
+    formData.caseNumber.trim()
+      ? sameNumberCandidates.find(c => c.id !== selectedCase?.id && caseNumberKey(c.caseNumber) === parsedCaseNumber.key)
+      : undefined
+  ), [sameNumberCandidates, selectedCase, formData.caseNumber, parsedCaseNumber]);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -152,6 +235,9 @@ const Cases = () => {
     const trimmedCourtName = formData.courtName.trim();
     const trimmedDescription = formData.description.trim();
     const trimmedNotes = formData.notes.trim();
+    const parties = (formData.parties ?? [])
+      .map(party => ({ ...party, name: party.name.trim() }))
+      .filter(party => party.name);
 
     if (!trimmedCaseNumber) {
       toast({
@@ -161,10 +247,18 @@ const Cases = () => {
       });
       return;
     }
+    if (parsedCaseNumber.error) {
+      toast({
+        title: 'Validation error',
+        description: parsedCaseNumber.error,
+        variant: 'destructive'
+      });
+      return;
+    }
 
-    let selectedClientRecord = null;
+    let selectedClientRecord: Pick<Client, 'id' | 'name'> | undefined;
     if (clientSelection.mode === 'existing') {
-      if (!clientSelection.clientId) {
+      if (!clientSelection.clientId || !clientSelection.name) {
         toast({
           title: 'Validation error',
           description: 'Please select an existing client or add a new one',
@@ -172,15 +266,7 @@ const Cases = () => {
         });
         return;
       }
-      selectedClientRecord = clients.find(client => client.id === clientSelection.clientId);
-      if (!selectedClientRecord) {
-        toast({
-          title: 'Client not found',
-          description: 'Please refresh the page and try again.',
-          variant: 'destructive'
-        });
-        return;
-      }
+      selectedClientRecord = { id: clientSelection.clientId, name: clientSelection.name };
     } else if (!trimmedClientName) {
       toast({
         title: 'Validation error',
@@ -231,6 +317,7 @@ const Cases = () => {
         courtName: trimmedCourtName,
         description: trimmedDescription,
         notes: trimmedNotes,
+        parties,
         hearingDate: hearingDateObj,
         nextHearing: hearingDateObj, // Update nextHearing to match hearingDate
         documents: selectedCase.documents,
@@ -238,9 +325,15 @@ const Cases = () => {
       });
     } else {
       // Ensure client exists if a new one was entered
-      const existingClient = selectedClientRecord || clients.find(client =>
-        client.name.toLowerCase() === trimmedClientName.toLowerCase()
-      );
+      let existingClient = selectedClientRecord;
+      if (!existingClient) {
+        try {
+          existingClient = await clientsApi.findByName(trimmedClientName);
+        } catch (error) {
+          // Creating the client below then reports the duplicate name instead
+          console.error('Error looking up client:', error);
+        }
+      }
 
       let clientCreated = false;
       let createdClientId: string | null = null;
@@ -288,6 +381,7 @@ const Cases = () => {
           courtName: trimmedCourtName,
           description: trimmedDescription,
           notes: trimmedNotes,
+          parties,
           hearingDate: hearingDateObj,
           nextHearing: hearingDateObj,
           documents: [],
@@ -347,17 +441,61 @@ const Cases = () => {
     resetForm();
   };
 
-  // Filter cases based on search and filters
-  const filteredCases = cases.filter(case_ => {
-    const matchesSearch = case_.caseNumber.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      case_.clientName.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      case_.opposingParty.toLowerCase().includes(searchTerm.toLowerCase());
+  // Search, filters and sort run on the server; pages load as the list scrolls
+  const debouncedSearch = useDebounce(searchTerm.trim(), 300);
+  const debouncedFieldValue = useDebounce(customFieldFilter.value.trim(), 300);
+  // Custom fields offered for filtering: those of the selected type, or every type's
+  const filterableFields = useMemo(() => {
+    const schemas = caseTypeFilter === 'all'
+      ? caseFieldSchemas
+      : caseFieldSchemas.filter(schema => schema.caseType === caseTypeFilter);
+    const byKey = new Map<string, CustomField>();
+    schemas.forEach(schema => schema.fields.forEach(field => {
+      if (!byKey.has(field.key)) byKey.set(field.key, field);
+    }));
+    return [...byKey.values()];
+  }, [caseFieldSchemas, caseTypeFilter]);
+  const activeFilterField = filterableFields.find(field => field.key === customFieldFilter.key);
+  const listFilters = useMemo<ListFilters>(() => {
+    const [sort, order] = sortOption.split(':') as [string, 'asc' | 'desc'];
+    return {
+      q: debouncedSearch || undefined,
+      status: statusFilter === 'all' ? undefined : statusFilter,
+      priority: priorityFilter === 'all' ? undefined : priorityFilter,
+      caseType: caseTypeFilter === 'all' ? undefined : caseTypeFilter,
+      archived: archiveFilter === 'exclude' || archiveFilter === 'only' ? archiveFilter : undefined,
+      ...(customFieldFilter.key && debouncedFieldValue && { cf: { [customFieldFilter.key]: debouncedFieldValue } }),
+      sort,
+      order,
+    };
+  }, [debouncedSearch, statusFilter, priorityFilter, caseTypeFilter, archiveFilter, customFieldFilter.key, debouncedFieldValue, sortOption]);
+  const casePages = useCasePages(listFilters);
+  const filteredCases = useMemo(() => casePages.data?.pages.flatMap(page => page.items) ?? [], [casePages.data]);
+  const totalCases = casePages.data?.pages[0]?.total ?? 0;
+  const selection = useSelection(useMemo(() => filteredCases.map(c => c.id), [filteredCases]));
+  const loadMoreRef = useInfiniteScroll({
+    hasNextPage: casePages.hasNextPage,
+    isFetchingNextPage: casePages.isFetchingNextPage,
+    fetchNextPage: casePages.fetchNextPage,
+  });
 
-    const matchesStatus = statusFilter === 'all' || case_.status === statusFilter;
-    const matchesPriority = priorityFilter === 'all' || case_.priority === priorityFilter;
+  const describeCase = (id: string) => filteredCases.find(c => c.id === id)?.caseNumber ?? 'Case';
 
-    return matchesSearch && matchesStatus && matchesPriority;
-  });
+  const exportSelectedCases = () => {
+    const rows = filteredCases.filter(c => selection.isSelected(c.id));
+    downloadCsv(`cases-${new Date().toISOString().slice(0, 10)}.csv`, toCsv(rows, [
+      { header: 'Case Number', value: c => c.caseNumber },
+      { header: 'Client', value: c => c.clientName },
+      { header: 'Opposing Party', value: c => c.opposingParty },
+      { header: 'Court', value: c => c.courtName },
+      { header: 'Judge', value: c => c.judgeName },
+      { header: 'Case Type', value: c => c.caseType },
+      { header: 'Status', value: c => c.status },
+      { header: 'Priority', value: c => c.priority },
+      { header: 'Next Hearing', value: c => c.nextHearing },
+      { header: 'Tags', value: c => c.tags },
+    ]));
+  };
 
   const getStatusIcon = (status: Case['status']) => {
     switch (status) {
@@ -426,25 +564,25 @@ const Cases = () => {
                     placeholder="e.g., CC/2024/001"
                     required
                   />
+                  {parsedCaseNumber.error ? (
+                    <p className="mt-1 text-[10px] text-destructive">{parsedCaseNumber.error}</p>
+                  ) : sameNumberCase ? (
+                    <p className="mt-1 text-[10px] text-destructive">Same number as existing case {sameNumberCase.caseNumber}</p>
+                  ) : parsedCaseNumber.kind !== 'other' && (
+                    <p className="mt-1 text-[10px] text-muted-foreground">
+                      {parsedCaseNumber.kind === 'cnr' ? 'eCourts CNR' : 'Read as'} {parsedCaseNumber.canonical}
+                    </p>
+                  )}
                 </div>
                 <div>
                   <Label htmlFor="clientSelect">Client*</Label>
-                  <Select
-                    value={clientSelection.mode === 'existing' ? (clientSelection.clientId ?? '') : '__custom__'}
-                    onValueChange={handleClientSelect}
-                  >
-                    <SelectTrigger id="clientSelect">
-                      <SelectValue placeholder="Select an existing client or add new" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {clients.map(client => (
-                        <SelectItem key={client.id} value={client.id}>
-                          {client.name}
-                        </SelectItem>
-                      ))}
-                      <SelectItem value="__custom__">+ Add new client</SelectItem>
-                    </SelectContent>
-                  </Select>
+                  <ClientPicker
+                    id="clientSelect"
+                    value={clientSelection.mode === 'existing' ? (clientSelection.clientId ?? '') : ''}
+                    onChange={handleClientSelect}
+                    onAddNew={handleAddNewClient}
+                    placeholder={clientSelection.mode === 'custom' ? 'New client' : 'Select an existing client or add new'}
+                  />
                   {clientSelection.mode === 'custom' && (
                     <Input
                       className="mt-2"
@@ -456,7 +594,7 @@ const Cases = () => {
                   )}
                   {clientSelection.mode === 'existing' && clientSelection.clientId && (
                     <p className="mt-2 text-xs text-muted-foreground">
-                      Selected client: {formData.clientName || clients.find(c => c.id === clientSelection.clientId)?.name}
+                      Selected client: {clientSelection.name || formData.clientName}
                     </p>
                   )}
                 </div>
@@ -479,54 +617,39 @@ const Cases = () => {
                       <SelectValue placeholder="Select case type" />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="criminal">Criminal</SelectItem>
-                      <SelectItem value="civil">Civil</SelectItem>
-                      <SelectItem value="family">Family</SelectItem>
-                      <SelectItem value="corporate">Corporate</SelectItem>
-                      <SelectItem value="property">Property</SelectItem>
-                      <SelectItem value="tax">Tax</SelectItem>
-                      <SelectItem value="labor">Labor</SelectItem>
-                      <SelectItem value="constitutional">Constitutional</SelectItem>
+                      {caseTypeOptions(caseFieldSchemas).map(type => (
+                        <SelectItem key={type} value={type}>{caseTypeLabel(type)}</SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                 </div>
               </div>
 
+              <CasePartiesEditor
+                parties={formData.parties ?? []}
+                onChange={parties => setFormData(prev => ({ ...prev, parties }))}
+              />
+
               <div className="grid grid-cols-2 gap-4">
                 <div>
                   <Label htmlFor="courtName">Court Name*</Label>
-                  <Select
-                    value={courtSelectValue || ''}
-                    onValueChange={handleCourtSelect}
-                  >
-                    <SelectTrigger>
-                      <SelectValue placeholder="Select a court" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {COURT_OPTIONS.map(option => (
-                        <SelectItem key={option} value={option}>
-                          {option}
-                        </SelectItem>
-                      ))}
-                      <SelectItem value="__custom__">Other (enter manually)</SelectItem>
-                    </SelectContent>
-                  </Select>
-                  {courtSelectValue === '__custom__' && (
-                    <Input
-                      className="mt-2"
-                      value={formData.courtName}
-                      onChange={(e) => setFormData(prev => ({ ...prev, courtName: e.target.value }))}
-                      placeholder="Enter court name"
-                      required
-                    />
-                  )}
+                  <CourtAutocomplete
+                    id="courtName"
+                    value={formData.courtName}
+                    linkedId={formData.courtId}
+                    onChange={({ name, id }) => setFormData(prev => ({ ...prev, courtName: name, courtId: id }))}
+                    placeholder="Start typing a court"
+                    required
+                  />
                 </div>
                 <div>
                   <Label htmlFor="judgeName">Judge Name</Label>
-                  <Input
+                  <JudgeAutocomplete
                     id="judgeName"
                     value={formData.judgeName}
-                    onChange={(e) => setFormData(prev => ({ ...prev, judgeName: e.target.value }))}
+                    linkedId={formData.judgeId}
+                    courtId={formData.courtId}
+                    onChange={({ name, id }) => setFormData(prev => ({ ...prev, judgeName: name, judgeId: id }))}
                     placeholder="Hon'ble Justice Name"
                   />
                 </div>
@@ -557,7 +680,19 @@ const Cases = () => {
               <div className="grid grid-cols-3 gap-4">
                 <div>
                   <Label htmlFor="status">Status</Label>
-                  <Select value={formData.status} onValueChange={(value) => setFormData(prev => ({ ...prev, status: value as Case['status'] }))}>
+                  <Select
+                    value={formData.status}
+                    onValueChange={(value) => {
+                      const status = value as Case['status'];
+                      // Closing an existing case goes through the wizard rather than a bare status change
+                      if (selectedCase && isClosedStatus(status) && !isClosedStatus(selectedCase.status)) {
+                        setShowAddDialog(false);
+                        setClosing({ case_: selectedCase, outcome: outcomeForStatus(status) });
+                        return;
+                      }
+                      setFormData(prev => ({ ...prev, status }));
+                    }}
+                  >
                     <SelectTrigger>
                       <SelectValue />
                     </SelectTrigger>
@@ -586,6 +721,12 @@ const Cases = () => {
                 </div>
               </div>
 
+              <CustomFieldInputs
+                fields={fieldsForCaseType(caseFieldSchemas, formData.caseType)}
+                values={formData.customFields ?? {}}
+                onChange={customFields => setFormData(prev => ({ ...prev, customFields }))}
+              />
+
               <div>
                 <Label htmlFor="description">Case Description</Label>
                 <Textarea
@@ -623,8 +764,9 @@ const Cases = () => {
 
       {/* Filters */}
       <Card>
-        <CardHeader className="pb-1">
+        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-1">
           <CardTitle className="text-sm">Search & Filter Cases</CardTitle>
+          <SavedViewsMenu page="cases" listView={listView} />
         </CardHeader>
         <CardContent className="pt-1">
           <div className="flex flex-wrap gap-2">
@@ -632,14 +774,14 @@ const Cases = () => {
               <div className="relative">
                 <Search className="absolute left-2 top-2.5 h-3.5 w-3.5 text-muted-foreground" />
                 <Input
-                  placeholder="Search by case number, client name, or opposing party..."
+                  placeholder="Search by case number, client, opposing party, court, judge or custom field..."
                   value={searchTerm}
-                  onChange={(e) => setSearchTerm(e.target.value)}
+                  onChange={(e) => updateList({ q: e.target.value })}
                   className="pl-8 h-8 text-xs border-transparent hover:border-accent hover:border-2 transition-all"
                 />
               </div>
             </div>
-            <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <Select value={statusFilter} onValueChange={status => updateList({ status })}>
               <SelectTrigger className="w-32 h-8 text-xs border-transparent hover:border-accent hover:border-2 transition-all">
                 <SelectValue placeholder="All Status" />
               </SelectTrigger>
@@ -652,7 +794,7 @@ const Cases = () => {
                 <SelectItem value="closed">Closed</SelectItem>
               </SelectContent>
             </Select>
-            <Select value={priorityFilter} onValueChange={setPriorityFilter}>
+            <Select value={priorityFilter} onValueChange={priority => updateList({ priority })}>
               <SelectTrigger className="w-32 h-8 text-xs border-transparent hover:border-accent hover:border-2 transition-all">
                 <SelectValue placeholder="All Priority" />
               </SelectTrigger>
@@ -664,138 +806,369 @@ const Cases = () => {
                 <SelectItem value="low">Low</SelectItem>
               </SelectContent>
             </Select>
+            <Select
+              value={caseTypeFilter}
+              onValueChange={type => updateList({ type, cf: '', cfValue: '' })}
+            >
+              <SelectTrigger className="w-36 h-8 text-xs border-transparent hover:border-accent hover:border-2 transition-all">
+                <SelectValue placeholder="All Types" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Types</SelectItem>
+                {caseTypeOptions(caseFieldSchemas).map(type => (
+                  <SelectItem key={type} value={type}>{caseTypeLabel(type)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={archiveFilter} onValueChange={archive => updateList({ archive })}>
+              <SelectTrigger className="w-36 h-8 text-xs border-transparent hover:border-accent hover:border-2 transition-all">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="exclude">Hide archived</SelectItem>
+                <SelectItem value="all">Include archived</SelectItem>
+                <SelectItem value="only">Archive only</SelectItem>
+              </SelectContent>
+            </Select>
+            {filterableFields.length > 0 && (
+              <Select
+                value={customFieldFilter.key || 'none'}
+                onValueChange={key => updateList({ cf: key === 'none' ? '' : key, cfValue: '' })}
+              >
+                <SelectTrigger className="w-40 h-8 text-xs border-transparent hover:border-accent hover:border-2 transition-all">
+                  <SelectValue placeholder="Custom field" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Any custom field</SelectItem>
+                  {filterableFields.map(field => (
+                    <SelectItem key={field.key} value={field.key}>{field.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            {activeFilterField && (activeFilterField.type === 'party' ? (
+              <ClientPicker
+                value={customFieldFilter.value}
+                onChange={cfValue => updateList({ cfValue })}
+                noneLabel={`Any ${activeFilterField.label}`}
+                className="w-40 h-8 text-xs border-transparent hover:border-accent hover:border-2 transition-all"
+              />
+            ) : activeFilterField.options.length > 0 ? (
+              <Select
+                value={customFieldFilter.value}
+                onValueChange={cfValue => updateList({ cfValue })}
+              >
+                <SelectTrigger className="w-40 h-8 text-xs border-transparent hover:border-accent hover:border-2 transition-all">
+                  <SelectValue placeholder={`Any ${activeFilterField.label}`} />
+                </SelectTrigger>
+                <SelectContent>
+                  {activeFilterField.options.map(option => <SelectItem key={option} value={option}>{option}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            ) : (
+              <Input
+                type={activeFilterField.type === 'date' ? 'date' : activeFilterField.type === 'number' ? 'number' : 'text'}
+                value={customFieldFilter.value}
+                onChange={e => updateList({ cfValue: e.target.value })}
+                placeholder={activeFilterField.label}
+                className="w-40 h-8 text-xs border-transparent hover:border-accent hover:border-2 transition-all"
+              />
+            ))}
+            <Select value={sortOption} onValueChange={sort => updateList({ sort })}>
+              <SelectTrigger className="w-40 h-8 text-xs border-transparent hover:border-accent hover:border-2 transition-all">
+                <SelectValue placeholder="Sort" />
+              </SelectTrigger>
+              <SelectContent>
+                {SORT_OPTIONS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="ml-auto flex items-center gap-1">
+              {view === 'grid' && (
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button size="sm" variant="ghost" className="h-8 px-2 text-xs" title="Card fields">
+                      <Columns3 className="mr-1 h-3.5 w-3.5" />
+                      Fields
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuLabel className="text-[10px] text-muted-foreground">Show on cards</DropdownMenuLabel>
+                    {CARD_FIELDS.map(field => (
+                      <DropdownMenuCheckboxItem
+                        key={field.key}
+                        className="text-xs"
+                        checked={visibleFields.has(field.key)}
+                        onCheckedChange={() => toggleField(field.key)}
+                        onSelect={e => e.preventDefault()}
+                      >
+                        {field.label}
+                      </DropdownMenuCheckboxItem>
+                    ))}
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              )}
+              <div className="flex rounded-md border">
+                <Button
+                  size="sm"
+                  variant={view === 'grid' ? 'secondary' : 'ghost'}
+                  className="h-8 rounded-r-none px-2"
+                  aria-pressed={view === 'grid'}
+                  title="Card grid"
+                  onClick={() => updateList({ layout: 'grid' })}
+                >
+                  <LayoutGrid className="h-3.5 w-3.5" />
+                </Button>
+                <Button
+                  size="sm"
+                  variant={view === 'board' ? 'secondary' : 'ghost'}
+                  className="h-8 rounded-l-none px-2"
+                  aria-pressed={view === 'board'}
+                  title="Board"
+                  onClick={() => updateList({ layout: 'board' })}
+                >
+                  <Kanban className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+            </div>
           </div>
         </CardContent>
       </Card>
 
+      {view === 'grid' && filteredCases.length > 0 && (
+        <BulkActionBar
+          type="case"
+          noun="cases"
+          selectedIds={selection.selectedIds}
+          visibleCount={filteredCases.length}
+          allSelected={selection.allSelected}
+          someSelected={selection.someSelected}
+          onToggleAll={selection.toggleAll}
+          actions={['status', 'priority', 'reassign', 'tags', 'move_documents', 'trash']}
+          statuses={CASE_STATUSES}
+          describe={describeCase}
+          onExport={exportSelectedCases}
+          onSelect={selection.selectOnly}
+        />
+      )}
+
+      {view === 'board' && totalCases > 0 && (
+        <CaseBoard
+          filters={listFilters}
+          grouping={boardGrouping}
+          onGroupingChange={group => updateList({ group })}
+          onOpen={case_ => {
+            setCaseForDetails(case_);
+            setShowCaseDetails(true);
+          }}
+          onCloseCase={(case_, status) => setClosing({ case_, outcome: outcomeForStatus(status) })}
+        />
+      )}
+
       {/* Cases Grid */}
-      <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-3">
-        {filteredCases.map((case_) => (
-          <Card
-            key={case_.id}
-            className="shadow-card-custom border border-transparent hover:border-accent hover:border-2 hover:bg-transparent transition-all cursor-pointer"
-            onClick={() => {
-              setCaseForDetails(case_);
-              setShowCaseDetails(true);
-            }}
-          >
-            <CardHeader className="pb-2">
-              <div className="flex items-start justify-between">
-                <div>
-                  <CardTitle className="text-sm flex items-center gap-1.5">
-                    {getStatusIcon(case_.status)}
-                    {case_.caseNumber}
-                  </CardTitle>
-                  <CardDescription className="text-[10px]">{case_.caseType}</CardDescription>
-                </div>
-                <div className="flex gap-0.5">
-                  <Badge variant={getStatusColor(case_.status)} className="text-[10px] h-4 px-1">
-                    {case_.status}
-                  </Badge>
-                  <Badge variant={getPriorityColor(case_.priority)} className="text-[10px] h-4 px-1">
-                    {case_.priority}
-                  </Badge>
-                </div>
-              </div>
-            </CardHeader>
-            <CardContent className="pt-2">
-              <div className="space-y-2">
-                <div className="flex items-center gap-1.5 text-xs">
-                  <User className="h-3.5 w-3.5 text-muted-foreground" />
-                  <span className="font-medium">{case_.clientName}</span>
-                </div>
-                {case_.opposingParty && (
-                  <div className="flex items-center gap-1.5 text-xs text-muted-foreground">
-                    <span>vs</span>
-                    <span>{case_.opposingParty}</span>
+      {view === 'grid' && (
+        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-3">
+          {filteredCases.map((case_) => (
+            <Card
+              key={case_.id}
+              className={`shadow-card-custom border border-transparent hover:border-accent hover:border-2 hover:bg-transparent transition-all cursor-pointer ${selection.isSelected(case_.id) ? 'border-primary' : ''}`}
+              onClick={() => {
+                setCaseForDetails(case_);
+                setShowCaseDetails(true);
+              }}
+            >
+              <CardHeader className="pb-2">
+                <div className="flex items-start justify-between">
+                  <div className="flex items-start gap-2">
+                    <Checkbox
+                      checked={selection.isSelected(case_.id)}
+                      onCheckedChange={() => selection.toggle(case_.id)}
+                      onClick={e => e.stopPropagation()}
+                      className="mt-0.5"
+                      aria-label={`Select ${case_.caseNumber}`}
+                    />
+                    <div>
+                      <CardTitle className="text-sm flex items-center gap-1.5">
+                        {getStatusIcon(case_.status)}
+                        {case_.caseNumber}
+                      </CardTitle>
+                      <CardDescription className="text-[10px]">{case_.caseType}</CardDescription>
+                    </div>
+                  </div>
+                  <div className="flex gap-0.5">
+                    {case_.archivedAt && (
+                      <Badge variant="outline" className="text-[10px] h-4 px-1 gap-0.5">
+                        <Archive className="h-2.5 w-2.5" />
+                        archived
+                      </Badge>
+                    )}
+                    <Badge variant={getStatusColor(case_.status)} className="text-[10px] h-4 px-1">
+                      {case_.status}
+                    </Badge>
+                    <Badge variant={getPriorityColor(case_.priority)} className="text-[10px] h-4 px-1">
+                      {case_.priority}
+                    </Badge>
                   </div>
-                )}
-                <div className="flex items-center gap-1.5 text-xs">
-                  <Building className="h-3.5 w-3.5 text-muted-foreground" />
-                  <span>{case_.courtName}</span>
                 </div>
-                {case_.nextHearing && (
+              </CardHeader>
+              <CardContent className="pt-2">
+                <div className="space-y-2">
                   <div className="flex items-center gap-1.5 text-xs">
-                    <Calendar className="h-3.5 w-3.5 text-muted-foreground" />
-                    <span>
-                      {formatDateShort(case_.nextHearing)}
-                      {case_.hearingTime && ` at ${case_.hearingTime}`}
-                    </span>
+                    <User className="h-3.5 w-3.5 text-muted-foreground" />
+                    <span className="font-medium">{case_.clientName}</span>
                   </div>
-                )}
-                {case_.description && (
-                  <p className="text-xs text-muted-foreground line-clamp-2">
-                    {case_.description}
-                  </p>
-                )}
-              </div>
+                  {visibleFields.has('opposing') && case_.opposingParty && (
+                    <div className="flex items-center gap-1.5 text-xs text-muted-foreground">
+                      <span>vs</span>
+                      <span>{case_.opposingParty}</span>
+                    </div>
+                  )}
+                  {visibleFields.has('court') && (
+                    <div className="flex items-center gap-1.5 text-xs">
+                      <Building className="h-3.5 w-3.5 text-muted-foreground" />
+                      <span>{case_.courtName}</span>
+                    </div>
+                  )}
+                  {visibleFields.has('judge') && case_.judgeName && (
+                    <div className="flex items-center gap-1.5 text-xs">
+                      <Gavel className="h-3.5 w-3.5 text-muted-foreground" />
+                      <span>{case_.judgeName}</span>
+                    </div>
+                  )}
+                  {visibleFields.has('hearing') && case_.nextHearing && (
+                    <div className="flex items-center gap-1.5 text-xs">
+                      <Calendar className="h-3.5 w-3.5 text-muted-foreground" />
+                      <span>
+                        {formatDateShort(case_.nextHearing)}
+                        {case_.hearingTime && ` at ${case_.hearingTime}`}
+                      </span>
+                    </div>
+                  )}
+                  {visibleFields.has('description') && case_.description && (
+                    <p className="text-xs text-muted-foreground line-clamp-2">
+                      {case_.description}
+                    </p>
+                  )}
+                  {visibleFields.has('tags') && case_.tags && case_.tags.length > 0 && (
+                    <div className="flex flex-wrap gap-1">
+                      {case_.tags.map(tag => (
+                        <Badge key={tag} variant="secondary" className="text-[10px] h-4 px-1">{tag}</Badge>
+                      ))}
+                    </div>
+                  )}
+                </div>
 
-              <div className="flex gap-1.5 mt-2">
-                <Button
-                  size="sm"
-                  variant="outline"
-                  className="h-6 text-[10px] px-2 border-transparent hover:border-accent hover:border-2 hover:bg-transparent hover:text-foreground transition-all"
-                  onClick={(e) => {
-                    e.stopPropagation();
-                    setCaseForNotes(case_);
-                    setShowNotesPanel(true);
-                  }}
-                >
-                  Notes
-                </Button>
-                <Button
-                  size="sm"
-                  variant="outline"
-                  className="h-6 text-[10px] px-2 border-transparent hover:border-accent hover:border-2 hover:bg-transparent hover:text-foreground transition-all"
-                  onClick={(e) => {
-                    e.stopPropagation();
-                    setSelectedCase(case_);
-                    setFormData({
-                      caseNumber: case_.caseNumber,
-                      clientName: case_.clientName,
-                      opposingParty: case_.opposingParty,
-                      courtName: case_.courtName,
-                      judgeName: case_.judgeName,
-                      hearingDate: case_.hearingDate ? case_.hearingDate.toISOString().split('T')[0] : '',
-                      hearingTime: case_.hearingTime,
-                      status: case_.status,
-                      priority: case_.priority,
-                      caseType: case_.caseType,
-                      description: case_.description,
-                      notes: case_.notes
-                    });
-                    const matchedClient = clients.find(client => client.name.toLowerCase() === case_.clientName.toLowerCase());
-                    if (matchedClient) {
-                      setClientSelection({ mode: 'existing', clientId: matchedClient.id });
-                    } else {
-                      setClientSelection({ mode: 'custom' });
-                    }
-                    setCourtSelectValue(COURT_OPTIONS.includes(case_.courtName) ? case_.courtName : '__custom__');
-                    setShowAddDialog(true);
-                  }}
-                >
-                  Edit
-                </Button>
-                <Button
-                  size="sm"
-                  variant="outline"
-                  className="h-6 text-[10px] px-2 border-transparent hover:border-accent hover:border-2 hover:bg-transparent hover:text-foreground transition-all"
-                  onClick={(e) => {
-                    e.stopPropagation();
-                    if (confirm('Are you sure you want to delete this case?')) {
-                      deleteCase(case_.id);
-                    }
-                  }}
-                >
-                  Delete
-                </Button>
-              </div>
-            </CardContent>
-          </Card>
-        ))}
-      </div>
+                <div className="flex gap-1.5 mt-2">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="h-6 text-[10px] px-2 border-transparent hover:border-accent hover:border-2 hover:bg-transparent hover:text-foreground transition-all"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setCaseForNotes(case_);
+                      setShowNotesPanel(true);
+                    }}
+                  >
+                    Notes
+                  </Button>
+                  {case_.archivedAt ? (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="h-6 text-[10px] px-2 border-transparent hover:border-accent hover:border-2 hover:bg-transparent hover:text-foreground transition-all"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setCaseToReopen(case_);
+                      }}
+                    >
+                      Reopen
+                    </Button>
+                  ) : (
+                    <>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="h-6 text-[10px] px-2 border-transparent hover:border-accent hover:border-2 hover:bg-transparent hover:text-foreground transition-all"
+                      onClick={async (e) => {
+                        e.stopPropagation();
+                        setSelectedCase(case_);
+                        setFormData({
+                          caseNumber: case_.caseNumber,
+                          clientName: case_.clientName,
+                          opposingParty: case_.opposingParty,
+                          courtName: case_.courtName,
+                          judgeName: case_.judgeName,
+                          courtId: case_.courtId,
+                          judgeId: case_.judgeId,
+                          hearingDate: case_.hearingDate ? case_.hearingDate.toISOString().split('T')[0] : '',
+                          hearingTime: case_.hearingTime,
+                          status: case_.status,
+                          priority: case_.priority,
+                          caseType: case_.caseType,
+                          description: case_.description,
+                          notes: case_.notes,
+                          parties: case_.parties ?? [],
+                          customFields: case_.customFields ?? {}
+                        });
+                        const matchedClient = await clientsApi.findByName(case_.clientName).catch(() => undefined);
+                        if (matchedClient) {
+                          setClientSelection({ mode: 'existing', clientId: matchedClient.id, name: matchedClient.name });
+                        } else {
+                          setClientSelection({ mode: 'custom' });
+                        }
+                        setShowAddDialog(true);
+                      }}
+                    >
+                      Edit
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="h-6 text-[10px] px-2 border-transparent hover:border-accent hover:border-2 hover:bg-transparent hover:text-foreground transition-all"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setClosing({ case_, outcome: outcomeForStatus(case_.status) });
+                      }}
+                    >
+                      Close
+                    </Button>
+                    </>
+                  )}
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="h-6 text-[10px] px-2 border-transparent hover:border-accent hover:border-2 hover:bg-transparent hover:text-foreground transition-all"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      if (confirm('Move this case to the Trash? Its hearings and notes go with it and can be restored from the Trash.')) {
+                        deleteCase(case_.id);
+                      }
+                    }}
+                  >
+                    Delete
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      {view === 'grid' && filteredCases.length > 0 && (
+        <div ref={loadMoreRef} className="flex items-center justify-center gap-1.5 py-2 text-xs text-muted-foreground">
+          {casePages.isFetchingNextPage && <Loader2 className="h-3.5 w-3.5 animate-spin" />}
+          Showing {filteredCases.length} of {totalCases} cases
+        </div>
+      )}
 
-      {filteredCases.length === 0 && (
+      {casePages.isLoading && (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        </div>
+      )}
+
+      {!casePages.isLoading && filteredCases.length === 0 && (
         <Card className="border border-transparent hover:border-accent hover:border-2 transition-all">
           <CardContent className="text-center py-8">
             <FileText className="h-12 w-12 mx-auto text-muted-foreground mb-2" />
@@ -865,6 +1238,9 @@ const Cases = () => {
           hearings={getHearingsByCaseId(caseForNotes.id)}
         />
       )}
+
+      <CaseClosureWizard case_={closing?.case_ ?? null} initialOutcome={closing?.outcome} onClose={() => setClosing(null)} />
+      <ReopenCaseDialog case_={caseToReopen} onClose={() => setCaseToReopen(null)} />
     </div>
   );
 };
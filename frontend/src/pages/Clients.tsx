@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -14,20 +14,39 @@ import {
   Calendar,
   CreditCard,
   Edit,
-  Trash2
+  Trash2,
+  Loader2
 } from 'lucide-react';
 import { useLegalData, type Client } from '@/contexts/LegalDataContext';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Textarea } from '@/components/ui/textarea';
 import { useToast } from '@/hooks/use-toast';
 import { useFormAutoSave } from '@/hooks/useFormAutoSave';
+import { useDebounce } from '@/hooks/useDebounce';
+import { useSearchParamAction } from '@/hooks/useSearchParamAction';
+import { useInfiniteScroll } from '@/hooks/useInfiniteScroll';
+import { useSelection } from '@/hooks/useSelection';
+import { useClientPages } from '@/hooks/useLegalQueries';
 import { useFormatting } from '@/contexts/FormattingContext';
+import { BulkActionBar } from '@/components/bulk/BulkActionBar';
+import { Checkbox } from '@/components/ui/checkbox';
+import { downloadCsv, toCsv } from '@/lib/csv';
+
+const SORT_OPTIONS = [
+  { value: 'createdAt:desc', label: 'Newest first' },
+  { value: 'updatedAt:desc', label: 'Recently updated' },
+  { value: 'name:asc', label: 'Name (A–Z)' },
+  { value: 'name:desc', label: 'Name (Z–A)' },
+];
 
 const Clients = () => {
-  const { clients, cases, addClient, updateClient, deleteClient } = useLegalData();
+  const { addClient, updateClient, deleteClient } = useLegalData();
   const { formatDateShort } = useFormatting();
   const [searchTerm, setSearchTerm] = useState('');
+  const [sortOption, setSortOption] = useState(SORT_OPTIONS[0].value);
+  useSearchParamAction('q', setSearchTerm);
   const [showAddDialog, setShowAddDialog] = useState(false);
   const [selectedClient, setSelectedClient] = useState<Client | null>(null);
   const { toast } = useToast();
@@ -133,16 +152,34 @@ const Clients = () => {
     }
   };
 
-  // Filter clients based on search
-  const filteredClients = clients.filter(client =>
-    client.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    client.email.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    client.phone.includes(searchTerm)
-  );
+  // Search and sort run on the server; pages load as the list scrolls
+  const debouncedSearch = useDebounce(searchTerm.trim(), 300);
+  const [sort, order] = sortOption.split(':') as [string, 'asc' | 'desc'];
+  const clientPages = useClientPages({ q: debouncedSearch || undefined, sort, order });
+  const filteredClients = useMemo(() => clientPages.data?.pages.flatMap(page => page.items) ?? [], [clientPages.data]);
+  const totalClients = clientPages.data?.pages[0]?.total ?? 0;
+  const selection = useSelection(useMemo(() => filteredClients.map(c => c.id), [filteredClients]));
+  const loadMoreRef = useInfiniteScroll({
+    hasNextPage: clientPages.hasNextPage,
+    isFetchingNextPage: clientPages.isFetchingNextPage,
+    fetchNextPage: clientPages.fetchNextPage,
+  });
 
-  // Get cases for a client
-  const getClientCases = (clientId: string) => {
-    return cases.filter(case_ => case_.clientName === clients.find(c => c.id === clientId)?.name);
+  // Each page's clients come with their cases counted on the server
+  const caseSummary = (client: Client) => client.caseSummary ?? { total: 0, active: 0, nextHearing: null };
+
+  const describeClient = (id: string) => filteredClients.find(c => c.id === id)?.name ?? 'Client';
+
+  const exportSelectedClients = () => {
+    const rows = filteredClients.filter(c => selection.isSelected(c.id));
+    downloadCsv(`clients-${new Date().toISOString().slice(0, 10)}.csv`, toCsv(rows, [
+      { header: 'Name', value: c => c.name },
+      { header: 'Email', value: c => c.email },
+      { header: 'Phone', value: c => c.phone },
+      { header: 'Address', value: c => c.address },
+      { header: 'Cases', value: c => caseSummary(c).total },
+      { header: 'Tags', value: c => c.tags },
+    ]));
   };
 
   return (
@@ -285,29 +322,64 @@ const Clients = () => {
           <CardTitle className="text-sm">Search Clients</CardTitle>
         </CardHeader>
         <CardContent className="pt-1">
-          <div className="relative">
-            <Search className="absolute left-2 top-2.5 h-3 w-3 text-muted-foreground" />
-            <Input
-              placeholder="Search by name, email, or phone number..."
-              value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
-              className="pl-8 h-8 text-xs border-transparent hover:border-accent hover:border-2 transition-all"
-            />
+          <div className="flex flex-wrap gap-2">
+            <div className="relative flex-1 min-w-48">
+              <Search className="absolute left-2 top-2.5 h-3 w-3 text-muted-foreground" />
+              <Input
+                placeholder="Search by name, email, or phone number..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pl-8 h-8 text-xs border-transparent hover:border-accent hover:border-2 transition-all"
+              />
+            </div>
+            <Select value={sortOption} onValueChange={setSortOption}>
+              <SelectTrigger className="w-40 h-8 text-xs border-transparent hover:border-accent hover:border-2 transition-all">
+                <SelectValue placeholder="Sort" />
+              </SelectTrigger>
+              <SelectContent>
+                {SORT_OPTIONS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
           </div>
         </CardContent>
       </Card>
 
+      {filteredClients.length > 0 && (
+        <BulkActionBar
+          type="client"
+          noun="clients"
+          selectedIds={selection.selectedIds}
+          visibleCount={filteredClients.length}
+          allSelected={selection.allSelected}
+          someSelected={selection.someSelected}
+          onToggleAll={selection.toggleAll}
+          actions={['tags', 'trash']}
+          describe={describeClient}
+          onExport={exportSelectedClients}
+          onSelect={selection.selectOnly}
+        />
+      )}
+
       {/* Clients Grid */}
       <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-2 md:gap-3">
         {filteredClients.map((client) => {
-          const clientCases = getClientCases(client.id);
-          const activeCases = clientCases.filter(c => c.status === 'active');
+          const { total: caseCount, active: activeCases, nextHearing } = caseSummary(client);
 
           return (
-            <Card key={client.id} className="shadow-card-custom hover:shadow-elevated transition-shadow">
+            <Card
+              key={client.id}
+              className={`shadow-card-custom hover:shadow-elevated transition-shadow ${selection.isSelected(client.id) ? 'border-primary' : ''}`}
+            >
               <CardHeader className="pb-1.5">
                 <div className="flex items-start justify-between">
                   <div className="flex items-center gap-2">
+                    <Checkbox
+                      checked={selection.isSelected(client.id)}
+                      onCheckedChange={() => selection.toggle(client.id)}
+                      aria-label={`Select ${client.name}`}
+                    />
                     <div className="w-8 h-8 rounded-full bg-primary text-primary-foreground flex items-center justify-center font-semibold text-sm">
                       {client.name.charAt(0).toUpperCase()}
                     </div>
@@ -315,7 +387,7 @@ const Clients = () => {
                       <CardTitle className="text-sm">{client.name}</CardTitle>
                       <CardDescription className="flex items-center gap-1 text-[10px]">
                         <FileText className="h-2.5 w-2.5" />
-                        {clientCases.length} case{clientCases.length !== 1 ? 's' : ''}
+                        {caseCount} case{caseCount !== 1 ? 's' : ''}
                       </CardDescription>
                     </div>
                   </div>
@@ -344,10 +416,10 @@ const Clients = () => {
                       size="sm"
                       variant="outline"
                       onClick={async () => {
-                        if (confirm('Are you sure you want to delete this client?')) {
+                        if (confirm('Move this client to the Trash?')) {
                           try {
                             await deleteClient(client.id);
-                            toast({ title: 'Client deleted successfully' });
+                            toast({ title: 'Client moved to Trash' });
                           } catch (error) {
                             toast({
                               title: 'Delete failed',
@@ -404,13 +476,13 @@ const Clients = () => {
                   <div className="pt-1.5 border-t">
                     <div className="flex items-center justify-between text-xs">
                       <span className="text-muted-foreground">Active Cases</span>
-                      <Badge variant={activeCases.length > 0 ? 'default' : 'secondary'} className="text-[9px] h-4 px-1">
-                        {activeCases.length}
+                      <Badge variant={activeCases > 0 ? 'default' : 'secondary'} className="text-[9px] h-4 px-1">
+                        {activeCases}
                       </Badge>
                     </div>
                     <div className="flex items-center justify-between text-xs mt-0.5">
                       <span className="text-muted-foreground">Total Cases</span>
-                      <span className="font-medium">{clientCases.length}</span>
+                      <span className="font-medium">{caseCount}</span>
                     </div>
                   </div>
 
@@ -422,25 +494,24 @@ const Clients = () => {
                     </div>
                   )}
 
+                  {client.tags && client.tags.length > 0 && (
+                    <div className="flex flex-wrap gap-1 pt-1.5">
+                      {client.tags.map(tag => (
+                        <Badge key={tag} variant="secondary" className="text-[10px] h-4 px-1">{tag}</Badge>
+                      ))}
+                    </div>
+                  )}
+
                   {/* Next Hearing */}
-                  {(() => {
-                    const nextHearing = clientCases
-                      .filter(c => c.nextHearing && new Date(c.nextHearing) > new Date())
-                      .sort((a, b) => new Date(a.nextHearing!).getTime() - new Date(b.nextHearing!).getTime())[0];
-
-                    if (nextHearing) {
-                      return (
-                        <div className="pt-1.5 border-t">
-                          <div className="flex items-center gap-1.5 text-[10px] text-muted-foreground">
-                            <Calendar className="h-2.5 w-2.5" />
-                            <span>Next hearing: {formatDateShort(nextHearing.nextHearing!)}</span>
-                          </div>
-                          <p className="text-[10px] text-primary ml-4">{nextHearing.caseNumber}</p>
-                        </div>
-                      );
-                    }
-                    return null;
-                  })()}
+                  {nextHearing && (
+                    <div className="pt-1.5 border-t">
+                      <div className="flex items-center gap-1.5 text-[10px] text-muted-foreground">
+                        <Calendar className="h-2.5 w-2.5" />
+                        <span>Next hearing: {formatDateShort(nextHearing.date)}</span>
+                      </div>
+                      <p className="text-[10px] text-primary ml-4">{nextHearing.caseNumber}</p>
+                    </div>
+                  )}
                 </div>
 
                 <div className="flex gap-1.5 mt-2 pt-1.5 border-t">
@@ -469,7 +540,20 @@ const Clients = () => {
         })}
       </div>
 
-      {filteredClients.length === 0 && (
+      {filteredClients.length > 0 && (
+        <div ref={loadMoreRef} className="flex items-center justify-center gap-1.5 py-2 text-xs text-muted-foreground">
+          {clientPages.isFetchingNextPage && <Loader2 className="h-3.5 w-3.5 animate-spin" />}
+          Showing {filteredClients.length} of {totalClients} clients
+        </div>
+      )}
+
+      {clientPages.isLoading && (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        </div>
+      )}
+
+      {!clientPages.isLoading && filteredClients.length === 0 && (
         <Card>
           <CardContent className="text-center py-8">
             <User className="h-12 w-12 mx-auto text-muted-foreground mb-2" />
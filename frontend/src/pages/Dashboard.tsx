@@ -1,4 +1,5 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
+import { endOfDay, startOfDay } from 'date-fns';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
@@ -16,7 +17,7 @@ import {
   Timer,
   Receipt
 } from 'lucide-react';
-import { useLegalData } from '@/contexts/LegalDataContext';
+import { useCasePages } from '@/hooks/useLegalQueries';
 import { useAuth } from '@/contexts/AuthContext';
 import { useFormatting } from '@/contexts/FormattingContext';
 import { useNavigate } from 'react-router-dom';
@@ -47,7 +48,6 @@ interface Activity {
 }
 
 const Dashboard = () => {
-  const { cases, clients } = useLegalData();
   const { user } = useAuth();
   const { formatCurrency, formatRelativeDate } = useFormatting();
   const [dashboardStats, setDashboardStats] = useState<DashboardStats | null>(null);
@@ -98,14 +98,14 @@ const Dashboard = () => {
     };
   }, []);
 
-  const todaysCases = cases.filter(c => {
-    const today = new Date();
-    const caseDate = new Date(c.hearingDate);
-    return caseDate.toDateString() === today.toDateString();
-  });
-
-  const urgentCases = cases.filter(c => c.priority === 'urgent');
-  const activeCases = cases.filter(c => c.status === 'active');
+  // The stat cards come from /dashboard/stats; today's hearings are one server page
+  const todayFilters = useMemo(() => {
+    const now = new Date();
+    return { dateField: 'hearingDate', from: startOfDay(now), to: endOfDay(now), sort: 'hearingDate', order: 'asc' as const };
+  }, []);
+  const todaysCasePages = useCasePages(todayFilters);
+  const todaysCases = todaysCasePages.data?.pages[0]?.items ?? [];
+  const todaysTotal = todaysCasePages.data?.pages[0]?.total ?? 0;
 
   // formatCurrency is now provided by useFormatting hook
 
@@ -151,24 +151,24 @@ const Dashboard = () => {
   const stats = [
     {
       title: "Total Cases",
-      value: dashboardStats?.totalCases ?? cases.length,
-      description: `${dashboardStats?.activeCases ?? activeCases.length} active`,
+      value: dashboardStats?.totalCases ?? 0,
+      description: `${dashboardStats?.activeCases ?? 0} active`,
       icon: FileText,
       trend: undefined
     },
     {
       title: "Clients",
-      value: dashboardStats?.totalClients ?? clients.length,
+      value: dashboardStats?.totalClients ?? 0,
       description: "Total registered",
       icon: Users,
       trend: undefined
     },
     {
       title: "Today's Hearings",
-      value: dashboardStats?.todaysCases ?? todaysCases.length,
+      value: dashboardStats?.todaysCases ?? todaysTotal,
       description: "Scheduled for today",
       icon: Calendar,
-      trend: (dashboardStats?.urgentCases ?? urgentCases.length) > 0 ? `${dashboardStats?.urgentCases ?? urgentCases.length} urgent` : "No urgent cases"
+      trend: (dashboardStats?.urgentCases ?? 0) > 0 ? `${dashboardStats?.urgentCases} urgent` : "No urgent cases"
     },
     {
       title: "Revenue This Month",
@@ -277,7 +277,7 @@ const Dashboard = () => {
             <CardHeader className="pb-2">
               <CardTitle className="flex items-center gap-1.5 text-sm">
                 <Calendar className="h-4 w-4 text-primary" />
-                Today's Hearings ({todaysCases.length})
+                Today's Hearings ({todaysTotal})
               </CardTitle>
               <CardDescription className="text-[10px]">Cases scheduled for today</CardDescription>
             </CardHeader>
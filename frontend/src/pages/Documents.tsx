@@ -25,7 +25,8 @@ import {
   ChevronRight,
   MessageSquare
 } from 'lucide-react';
-import { useLegalData } from '@/contexts/LegalDataContext';
+import { useCase } from '@/hooks/useLegalQueries';
+import { CasePicker } from '@/components/pickers/RecordPicker';
 import { CaseNotesPanel } from '@/components/CaseNotesPanel';
 import { getApiUrl, apiFetch } from '@/lib/api';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
@@ -37,6 +38,8 @@ import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSepara
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 import { useFormAutoSave } from '@/hooks/useFormAutoSave';
 import { useFormatting } from '@/contexts/FormattingContext';
+import { useListView } from '@/hooks/useListView';
+import { SavedViewsMenu } from '@/components/views/SavedViewsMenu';
 
 interface ApiFile {
   _id: string;
@@ -61,12 +64,32 @@ interface ApiFolder {
 
 type DocType = 'pdf' | 'doc' | 'docx' | 'image' | 'video' | 'audio' | 'other';
 
+// URL parameters of the document list and their defaults
+const DOCUMENT_LIST_DEFAULTS = {
+  q: '',
+  type: 'all',
+  case: 'all',
+  sort: 'oldest',
+};
+
+const FILE_SORTS: Record<string, { label: string; compare: (a: ApiFile, b: ApiFile) => number }> = {
+  oldest: { label: 'Oldest first', compare: (a, b) => a.createdAt.localeCompare(b.createdAt) },
+  newest: { label: 'Newest first', compare: (a, b) => b.createdAt.localeCompare(a.createdAt) },
+  name: { label: 'Name', compare: (a, b) => a.name.localeCompare(b.name) },
+  size: { label: 'Largest first', compare: (a, b) => b.size - a.size },
+};
+
+// Large files on slow links take far longer than the default request timeout
+const UPLOAD_TIMEOUT_MS = 10 * 60 * 1000;
+
 const Documents = () => {
-  const { cases } = useLegalData();
   const { formatDate: formatDateGlobal, formatDateShort } = useFormatting();
-  const [searchTerm, setSearchTerm] = useState('');
-  const [typeFilter, setTypeFilter] = useState('all');
-  const [caseFilter, setCaseFilter] = useState('all');
+  // Search, filters and sort live in the URL, so the list can be bookmarked or saved as a view
+  const listView = useListView('documents', DOCUMENT_LIST_DEFAULTS);
+  const { state: listState, update: updateList } = listView;
+  const searchTerm = listState.q;
+  const typeFilter = listState.type;
+  const caseFilter = listState.case;
   const { toast } = useToast();
 
   const [folders, setFolders] = useState<ApiFolder[]>([]);
@@ -83,7 +106,7 @@ const Documents = () => {
   const [showNotesPanel, setShowNotesPanel] = useState(false);
 
   const currentFolder = useMemo(() => folders.find(f => f._id === currentFolderId), [folders, currentFolderId]);
-  const activeCase = useMemo(() => cases.find(c => c.id === currentFolder?.caseId), [cases, currentFolder]);
+  const { data: activeCase } = useCase(currentFolder?.caseId ?? undefined);
 
   // Auto-save folder name
   const { clearSavedData: clearFolderDraft, getSavedData: getFolderDraft } = useFormAutoSave(
@@ -166,8 +189,8 @@ const Documents = () => {
       const matchesType = typeFilter === 'all' || detectType(f.mimetype) === typeFilter;
       const matchesCase = caseFilter === 'all';
       return matchesSearch && matchesType && matchesCase;
-    });
-  }, [files, searchTerm, typeFilter, caseFilter]);
+    }).sort((FILE_SORTS[listState.sort] ?? FILE_SORTS.oldest).compare);
+  }, [files, searchTerm, typeFilter, caseFilter, listState.sort]);
 
   const handleFileUpload = () => {
     const input = document.createElement('input');
@@ -188,7 +211,8 @@ const Documents = () => {
         const res = await apiFetch(getApiUrl('/api/documents/upload'), {
           method: 'POST',
           credentials: 'include',
-          body: form
+          body: form,
+          timeoutMs: UPLOAD_TIMEOUT_MS
         });
 
         if (!res.ok) {
@@ -278,7 +302,7 @@ const Documents = () => {
   };
 
   const handleDelete = async (doc: ApiFile) => {
-    if (!confirm(`Are you sure you want to delete "${doc.name}"?`)) return;
+    if (!confirm(`Move "${doc.name}" to the Trash?`)) return;
 
     try {
       setIsLoading(true);
@@ -293,7 +317,7 @@ const Documents = () => {
       }
 
       await loadFiles();
-      toast({ title: 'Document Deleted', description: `${doc.name} has been deleted` });
+      toast({ title: 'Moved to Trash', description: `${doc.name} can be restored from the Trash` });
     } catch (error: unknown) {
       console.error('Delete error:', error);
       toast({
@@ -366,47 +390,22 @@ const Documents = () => {
     }
   }, [currentFolderId]);
 
-  const createFoldersForExistingCases = useMemo(() => async () => {
+  // The server gives each case without a folder its own; resolves to how many it made
+  const createFoldersForExistingCases = useCallback(async (): Promise<number> => {
     try {
-      // Get all existing folders
-      const foldersRes = await apiFetch(getApiUrl('/api/documents/folders'), { credentials: 'include' });
-      if (!foldersRes.ok) return;
-
-      const foldersData = await foldersRes.json();
-      const existingFolders = foldersData.folders || [];
-
-      // Check each case to see if it has a corresponding folder
-      for (const case_ of cases) {
-        const expectedFolderName = `${case_.caseNumber} - ${case_.clientName}`;
-        const folderExists = existingFolders.some((folder: ApiFolder) =>
-          folder.caseId === case_.id || folder.name === expectedFolderName
-        );
-
-        if (!folderExists) {
-          try {
-            const folderRes = await apiFetch(getApiUrl('/api/documents/folders'), {
-              method: 'POST',
-              headers: { 'Content-Type': 'application/json' },
-              credentials: 'include',
-              body: JSON.stringify({ name: expectedFolderName, caseId: case_.id })
-            });
-
-            if (folderRes.ok) {
-              // Success
-            }
-          } catch {
-            // Silently ignore
-          }
-        }
-      }
+      const res = await apiFetch(getApiUrl('/api/documents/folders/case-folders'), { method: 'POST', credentials: 'include' });
+      if (!res.ok) return 0;
+      const data = await res.json();
+      return data.created || 0;
     } catch {
       // Silently ignore
+      return 0;
     }
-  }, [cases]);
+  }, []);
 
   useEffect(() => {
     loadFolders();
-    createFoldersForExistingCases();
+    createFoldersForExistingCases().then(created => { if (created > 0) loadFolders(); });
   }, [loadFolders, createFoldersForExistingCases]);
   useEffect(() => {
     loadFiles();
@@ -636,11 +635,12 @@ const Documents = () => {
 
       {/* Search and Filters */}
       <Card className="shadow-card-custom">
-        <CardHeader className="pb-1">
+        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-1">
           <CardTitle className="flex items-center gap-2 text-sm">
             <Search className="h-3.5 w-3.5 text-primary" />
             Search & Filter Documents
           </CardTitle>
+          <SavedViewsMenu page="documents" listView={listView} />
         </CardHeader>
         <CardContent className="pt-1">
           <div className="flex flex-wrap gap-2">
@@ -650,13 +650,13 @@ const Documents = () => {
                 <Input
                   placeholder="Search documents by name..."
                   value={searchTerm}
-                  onChange={(e) => setSearchTerm(e.target.value)}
+                  onChange={(e) => updateList({ q: e.target.value })}
                   className="pl-8 h-8 text-xs border-transparent hover:border-accent hover:border-2 transition-all"
                 />
               </div>
             </div>
 
-            <Select value={typeFilter} onValueChange={setTypeFilter}>
+            <Select value={typeFilter} onValueChange={type => updateList({ type })}>
               <SelectTrigger className="w-32 h-8 text-xs border-transparent hover:border-accent hover:border-2 transition-all">
                 <SelectValue placeholder="File Type" />
               </SelectTrigger>
@@ -671,16 +671,20 @@ const Documents = () => {
               </SelectContent>
             </Select>
 
-            <Select value={caseFilter} onValueChange={setCaseFilter}>
+            <CasePicker
+              value={caseFilter === 'all' ? '' : caseFilter}
+              onChange={caseId => updateList({ case: caseId || 'all' })}
+              noneLabel="All Cases"
+              className="w-32 h-8 text-xs border-transparent hover:border-accent hover:border-2 transition-all"
+            />
+
+            <Select value={listState.sort} onValueChange={sort => updateList({ sort })}>
               <SelectTrigger className="w-32 h-8 text-xs border-transparent hover:border-accent hover:border-2 transition-all">
-                <SelectValue placeholder="Case" />
+                <SelectValue placeholder="Sort" />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="all">All Cases</SelectItem>
-                {cases.map(case_ => (
-                  <SelectItem key={case_.id} value={case_.id}>
-                    {case_.caseNumber}
-                  </SelectItem>
+                {Object.entries(FILE_SORTS).map(([value, { label }]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
                 ))}
               </SelectContent>
             </Select>
@@ -36,6 +36,7 @@ const ErrorScreen = ({ message }: { message: string }) => (
   </div>
 );
 import { useToast } from '@/hooks/use-toast';
+import { useSearchParamAction } from '@/hooks/useSearchParamAction';
 import { searchLegal, semanticSearchLegal, explainLegal, type LegalResult } from '@/services/legalApi';
 import {
   searchStaticData,
@@ -205,6 +206,7 @@ function ResultCard({
 // ─── Main Page ────────────────────────────────────────────────────────────────
 const LegalResearch = () => {
   const [searchQuery, setSearchQuery] = useState('');
+  useSearchParamAction('q', setSearchQuery);
   const [searchMode, setSearchMode] = useState<SearchMode>('hybrid');
   const [sortBy, setSortBy] = useState('relevance');
   const [activeTab, setActiveTab] = useState<'acts' | 'cases'>('acts');
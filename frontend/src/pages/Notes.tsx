@@ -1,20 +1,26 @@
 import React, { useState, useEffect } from 'react';
 import { useLegalData } from '@/contexts/LegalDataContext';
 import { CaseNotesPanel } from '@/components/CaseNotesPanel';
+import { useSearchParamAction } from '@/hooks/useSearchParamAction';
+import { useCase, useCasePages } from '@/hooks/useLegalQueries';
 import { MessageSquare, Scale } from 'lucide-react';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CasePicker } from '@/components/pickers/RecordPicker';
 
 const NotesPage = () => {
-    const { cases, getHearingsByCaseId } = useLegalData();
+    const { getHearingsByCaseId } = useLegalData();
     const [selectedCaseId, setSelectedCaseId] = useState<string | null>(null);
+    useSearchParamAction('caseId', setSelectedCaseId);
+    // Opens on the newest case until one is picked
+    const { data: firstPage } = useCasePages({}, !selectedCaseId);
+    const newestCase = firstPage?.pages[0]?.items[0];
 
     useEffect(() => {
-        if (cases.length > 0 && !selectedCaseId) {
-            setSelectedCaseId(cases[0].id);
+        if (newestCase && !selectedCaseId) {
+            setSelectedCaseId(newestCase.id);
         }
-    }, [cases, selectedCaseId]);
+    }, [newestCase, selectedCaseId]);
 
-    const activeCase = cases.find(c => c.id === selectedCaseId);
+    const { data: activeCase } = useCase(selectedCaseId ?? undefined);
     const hearings = selectedCaseId ? getHearingsByCaseId(selectedCaseId) : [];
 
     return (
@@ -33,19 +39,12 @@ const NotesPage = () => {
                         <Scale size={12} className="text-muted-foreground" />
                         <span className="text-[10px] font-semibold uppercase text-muted-foreground tracking-wider">Active Case</span>
                     </div>
-                    <Select value={selectedCaseId || ''} onValueChange={setSelectedCaseId}>
-                        <SelectTrigger className="w-[260px] h-8 text-xs bg-background/50 border-border/60">
-                            <SelectValue placeholder="Select a case to begin" />
-                        </SelectTrigger>
-                        <SelectContent className="max-h-[200px]">
-                            {cases.map(c => (
-                                <SelectItem key={c.id} value={c.id}>
-                                    <span className="font-semibold text-xs">{c.caseNumber}</span>
-                                    <span className="text-muted-foreground text-xs ml-1.5">— {c.clientName}</span>
-                                </SelectItem>
-                            ))}
-                        </SelectContent>
-                    </Select>
+                    <CasePicker
+                        value={selectedCaseId || ''}
+                        onChange={setSelectedCaseId}
+                        placeholder="Select a case to begin"
+                        className="w-[260px] h-8 text-xs bg-background/50 border-border/60"
+                    />
                     {activeCase && (
                         <span className="text-[10px] text-muted-foreground border border-border/40 rounded px-2 py-1 bg-muted/20">
                             {activeCase.caseType || 'Case'}
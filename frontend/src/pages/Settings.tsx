@@ -17,6 +17,11 @@ import {
   Lock
 } from 'lucide-react';
 import JuriqLoader from '@/components/ui/JuriqLoader';
+import { CaseFieldSchemaEditor } from '@/components/customFields/CaseFieldSchemaEditor';
+import { CourtHolidaysCard } from '@/components/CourtHolidaysCard';
+import { CalendarFeedCard } from '@/components/CalendarFeedCard';
+import { SpreadsheetImportCard } from '@/components/import/SpreadsheetImportCard';
+import { CourtDirectoryCard } from '@/components/directory/CourtDirectoryCard';
 
 import { useAuth } from '@/contexts/AuthContext';
 import { useTheme } from '@/contexts/ThemeContext';
@@ -58,6 +63,7 @@ const defaultPreferenceSettings = {
   language: 'en-IN',
   timezone: 'Asia/Kolkata',
   dateFormat: 'DD/MM/YYYY',
+  timeFormat: '12h',
   currency: 'INR'
 };
 
@@ -67,6 +73,9 @@ const defaultSecuritySettings = {
   loginNotifications: true
 };
 
+// Full account export/restore can exceed the default request timeout
+const DATA_TRANSFER_TIMEOUT_MS = 2 * 60 * 1000;
+
 const Settings = () => {
   const { user, refreshUser } = useAuth();
   const { setThemeAndSave } = useTheme();
@@ -403,7 +412,7 @@ const Settings = () => {
   const handleSavePreferences = () => {
     // Apply theme change immediately via ThemeContext AND save to DB
     setThemeAndSave(preferences.theme as 'light' | 'dark' | 'system');
-    // Also save all other preferences (language, timezone, dateFormat, currency) to DB
+    // Also save all other preferences (language, timezone, dateFormat, timeFormat, currency) to DB
     saveSettings({ preferences }, "Preferences updated", setIsSavingPreferences);
   };
 
@@ -489,7 +498,8 @@ const Settings = () => {
     try {
       const res = await apiFetch(getApiUrl('/api/v1/auth/export-data'), {
         method: 'GET',
-        credentials: 'include'
+        credentials: 'include',
+        timeoutMs: DATA_TRANSFER_TIMEOUT_MS
       });
 
       if (!res.ok) {
@@ -564,7 +574,8 @@ const Settings = () => {
       const res = await apiFetch(getApiUrl('/api/v1/auth/import-data'), {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(importData)
+        body: JSON.stringify(importData),
+        timeoutMs: DATA_TRANSFER_TIMEOUT_MS
       });
 
       if (!res.ok) {
@@ -998,6 +1009,16 @@ const Settings = () => {
                 </SelectContent>
               </Select>
             </div>
+            <div>
+              <Label htmlFor="timeFormat" className="text-xs">Time Format</Label>
+              <Select value={String(preferences.timeFormat || "12h")} onValueChange={(value) => setPreferences(prev => ({ ...prev, timeFormat: value }))} disabled={isSavingPreferences}>
+                <SelectTrigger className="h-7 text-xs mt-0.5"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="12h">12-hour (2:30 PM)</SelectItem>
+                  <SelectItem value="24h">24-hour (14:30)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
             <div>
               <Label htmlFor="currency" className="text-xs">Currency</Label>
               {user?.immutableFieldsLocked ? (
@@ -1148,6 +1169,16 @@ const Settings = () => {
         </Card>
       </div>
 
+      <CaseFieldSchemaEditor />
+
+      <CourtHolidaysCard />
+
+      <CalendarFeedCard />
+
+      <SpreadsheetImportCard />
+
+      <CourtDirectoryCard />
+
       {/* Data Management */}
       <Card className="shadow-card-custom">
         <CardHeader className="p-3 pb-1.5">
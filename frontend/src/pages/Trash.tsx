@@ -0,0 +1,190 @@
+import { useMemo, useState } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { FileText, FolderOpen, Loader2, Receipt, RotateCcw, Trash2, Users } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { usePurgeTrashItem, useRestoreTrashItem, useTrash } from '@/hooks/useLegalQueries';
+import { useFormatting } from '@/contexts/FormattingContext';
+import type { TrashItem, TrashType } from '@/services/api/schemas';
+
+const TYPE_META: Record<TrashType, { label: string; plural: string; icon: typeof FileText }> = {
+  case: { label: 'Case', plural: 'Cases', icon: FileText },
+  client: { label: 'Client', plural: 'Clients', icon: Users },
+  invoice: { label: 'Invoice', plural: 'Invoices', icon: Receipt },
+  document: { label: 'Document', plural: 'Documents', icon: FolderOpen },
+};
+
+const TABS: Array<TrashType | 'all'> = ['all', 'case', 'client', 'invoice', 'document'];
+
+function describeDependents({ hearings, notes, documents }: TrashItem['dependents']) {
+  const parts = [
+    hearings && `${hearings} hearing${hearings === 1 ? '' : 's'}`,
+    notes && `${notes} note${notes === 1 ? '' : 's'}`,
+    documents && `${documents} document${documents === 1 ? '' : 's'}`,
+  ].filter(Boolean);
+  return parts.length > 0 ? `Includes ${parts.join(', ')}` : null;
+}
+
+const Trash = () => {
+  const { toast } = useToast();
+  const { formatDate } = useFormatting();
+  const { data, isLoading } = useTrash();
+  const restoreItem = useRestoreTrashItem();
+  const purgeItem = usePurgeTrashItem();
+  const [tab, setTab] = useState<TrashType | 'all'>('all');
+  const [pendingPurge, setPendingPurge] = useState<TrashItem | null>(null);
+
+  const items = useMemo(() => data?.items ?? [], [data]);
+  const visible = tab === 'all' ? items : items.filter(item => item.type === tab);
+  const counts = useMemo(() => {
+    const byType: Partial<Record<TrashType, number>> = {};
+    items.forEach(item => { byType[item.type] = (byType[item.type] ?? 0) + 1; });
+    return byType;
+  }, [items]);
+
+  const handleRestore = async (item: TrashItem) => {
+    try {
+      await restoreItem.mutateAsync({ type: item.type, id: item.id });
+      toast({ title: `${TYPE_META[item.type].label} restored`, description: item.label });
+    } catch (error) {
+      toast({
+        title: 'Restore failed',
+        description: error instanceof Error ? error.message : 'Unable to restore item',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const handlePurge = async () => {
+    if (!pendingPurge) return;
+    const item = pendingPurge;
+    setPendingPurge(null);
+    try {
+      await purgeItem.mutateAsync({ type: item.type, id: item.id });
+      toast({ title: 'Deleted permanently', description: item.label });
+    } catch (error) {
+      toast({
+        title: 'Delete failed',
+        description: error instanceof Error ? error.message : 'Unable to delete item',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-2 md:space-y-3">
+      {/* Header */}
+      <div>
+        <h1 className="text-xl md:text-2xl font-bold">Trash</h1>
+        <p className="text-xs text-muted-foreground">
+          Deleted items are kept for {data?.retentionDays ?? 30} days before they are removed permanently
+        </p>
+      </div>
+
+      <Tabs value={tab} onValueChange={value => setTab(value as TrashType | 'all')}>
+        <TabsList className="h-8">
+          {TABS.map(value => (
+            <TabsTrigger key={value} value={value} className="text-xs">
+              {value === 'all' ? 'All' : TYPE_META[value].plural}
+              {value !== 'all' && counts[value] ? (
+                <Badge variant="secondary" className="ml-1.5 h-4 px-1.5 text-[10px]">{counts[value]}</Badge>
+              ) : null}
+            </TabsTrigger>
+          ))}
+        </TabsList>
+      </Tabs>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center gap-1.5 py-10 text-xs text-muted-foreground">
+          <Loader2 className="h-3.5 w-3.5 animate-spin" />
+          Loading trash…
+        </div>
+      ) : visible.length === 0 ? (
+        <Card>
+          <CardContent className="flex flex-col items-center gap-2 py-10 text-muted-foreground">
+            <Trash2 className="h-8 w-8 opacity-30" />
+            <p className="text-sm">Nothing in the trash</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardContent className="divide-y divide-border/60 p-0">
+            {visible.map(item => {
+              const { icon: Icon, label } = TYPE_META[item.type];
+              const dependents = describeDependents(item.dependents);
+              const busy = (restoreItem.isPending && restoreItem.variables?.id === item.id)
+                || (purgeItem.isPending && purgeItem.variables?.id === item.id);
+              return (
+                <div key={`${item.type}:${item.id}`} className="flex items-center gap-3 px-4 py-3">
+                  <Icon className="h-4 w-4 shrink-0 text-muted-foreground" />
+                  <div className="min-w-0 flex-1">
+                    <div className="flex items-center gap-2">
+                      <span className="truncate text-sm font-medium">{item.label || 'Untitled'}</span>
+                      <Badge variant="outline" className="text-[10px]">{label}</Badge>
+                    </div>
+                    <div className="truncate text-[11px] text-muted-foreground">
+                      {[item.subtitle, dependents].filter(Boolean).join(' · ')}
+                    </div>
+                  </div>
+                  <div className="hidden text-right text-[10px] text-muted-foreground sm:block">
+                    <div>Deleted {formatDate(item.deletedAt)}</div>
+                    <div>Removed on {formatDate(item.purgeAt)}</div>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <Button size="sm" variant="outline" className="h-7 text-xs" disabled={busy} onClick={() => handleRestore(item)}>
+                      <RotateCcw className="mr-1 h-3 w-3" />
+                      Restore
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="h-7 text-xs text-destructive hover:text-destructive"
+                      disabled={busy}
+                      onClick={() => setPendingPurge(item)}
+                    >
+                      <Trash2 className="h-3 w-3" />
+                      <span className="sr-only">Delete permanently</span>
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </CardContent>
+        </Card>
+      )}
+
+      <AlertDialog open={!!pendingPurge} onOpenChange={open => { if (!open) setPendingPurge(null); }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete permanently?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingPurge?.label} will be removed for good
+              {pendingPurge?.type === 'case' ? ', together with its hearings, notes and attachments' : ''}.
+              This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handlePurge} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
+              Delete permanently
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default Trash;
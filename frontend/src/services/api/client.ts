@@ -0,0 +1,576 @@
+/**
+ * Typed API client — one function per backend route.
+ *
+ * Requests go through `apiFetch` (CSRF, token refresh, request ids) and always
+ * use the versioned `/api/v1` prefix. Every response body is validated against
+ * its schema in `./schemas`, which also maps `_id` → `id` and parses dates, so
+ * callers receive UI-ready objects or one of the errors in `./errors`.
+ */
+
+import { z } from 'zod';
+
+import type { Alert, Case, Client, Hearing, Invoice, TimeEntry } from '@/contexts/LegalDataContext';
+import { apiFetch } from '@/lib/api';
+import { ApiError, ApiValidationError, HearingConflictError } from './errors';
+import {
+  ackSchema,
+  alertSchema,
+  bulkResultSchema,
+  caseDeadlineSchema,
+  caseBoardCountsSchema,
+  caseFieldSchemaSchema,
+  caseLinkGraphSchema,
+  caseLinkSchema,
+  caseNoteSchema,
+  calendarEventSchema,
+  calendarFeedSchema,
+  calendarImportPreviewSchema,
+  calendarImportResultSchema,
+  caseSchema,
+  clientSchema,
+  closeCaseResultSchema,
+  closureChecklistSchema,
+  conflictCheckSchema,
+  courtHolidaySchema,
+  courtSchema,
+  deadlineComputationSchema,
+  deadlineRulesSchema,
+  documentFolderSchema,
+  entityChangeSchema,
+  hearingSchema,
+  importBatchSchema,
+  importDraftSchema,
+  importPreviewSchema,
+  invoiceSchema,
+  invoiceSummarySchema,
+  judgeSchema,
+  nameClusterSchema,
+  newCalendarFeedSchema,
+  noteSearchResultSchema,
+  pageSchema,
+  savedViewSchema,
+  sendInvoiceResultSchema,
+  templateDocumentSchema,
+  timeEntrySchema,
+  timelineEventSchema,
+  trashListSchema,
+  type BoardGrouping,
+  type BulkAction,
+  type CalendarImportAction,
+  type CaseDeadline,
+  type CaseLinkType,
+  type ClosureOutcome,
+  type Court,
+  type CustomField,
+  type EntityChange,
+  type HearingConflict,
+  type HistoryEntityType,
+  type ImportDraft,
+  type ImportEntity,
+  type SavedViewPage,
+  type Judge,
+  type TrashType,
+} from './schemas';
+
+export const API_PREFIX = '/api/v1';
+
+/** Full versioned path for a route, e.g. `apiPath('/hearings')` → `/api/v1/hearings`. */
+export const apiPath = (route: string) => `${API_PREFIX}${route}`;
+
+type Method = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+interface RequestOptions {
+  body?: unknown;
+  signal?: AbortSignal;
+}
+
+// Hearing routes put a code in `error` (e.g. VALIDATION_ERROR) and the text in `message`
+const isErrorCode = (value: unknown): value is string => typeof value === 'string' && /^[A-Z_]+$/.test(value);
+
+async function request<S extends z.ZodTypeAny>(
+  method: Method,
+  route: string,
+  schema: S,
+  { body, signal }: RequestOptions = {}
+): Promise<z.output<S>> {
+  const endpoint = `${method} ${apiPath(route)}`;
+  const res = await apiFetch(apiPath(route), {
+    method,
+    credentials: 'include',
+    signal,
+    ...(body !== undefined && { body: body instanceof FormData ? body : JSON.stringify(body) }),
+  });
+  const payload: unknown = await res.json().catch(() => undefined);
+
+  if (!res.ok) {
+    const data = (payload && typeof payload === 'object' ? payload : {}) as { error?: string; message?: string; conflicts?: unknown };
+    if (res.status === 409 && Array.isArray(data.conflicts)) {
+      throw new HearingConflictError(
+        data.message || 'Hearing conflicts with existing schedules',
+        endpoint,
+        data.conflicts as HearingConflict[]
+      );
+    }
+    const code = isErrorCode(data.error) ? data.error : undefined;
+    const message = (code ? data.message : data.error || data.message) || `HTTP ${res.status}: ${res.statusText}`;
+    throw new ApiError(message, { status: res.status, endpoint, code, body: payload });
+  }
+
+  const parsed = schema.safeParse(payload);
+  if (!parsed.success) {
+    console.error(`[api] ${endpoint} returned an unexpected payload`, parsed.error.issues);
+    throw new ApiValidationError(endpoint, res.status, parsed.error.issues, payload);
+  }
+  return parsed.data;
+}
+
+const get = <S extends z.ZodTypeAny>(route: string, schema: S, signal?: AbortSignal) => request('GET', route, schema, { signal });
+
+const query = (params: Record<string, string | undefined>) => {
+  const search = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => { if (value) search.append(key, value); });
+  const qs = search.toString();
+  return qs ? `?${qs}` : '';
+};
+
+/** A file download (e.g. an .ics export); errors are read from the JSON body like `request`'s. */
+async function download(route: string): Promise<Blob> {
+  const endpoint = `GET ${apiPath(route)}`;
+  const res = await apiFetch(apiPath(route), { method: 'GET', credentials: 'include' });
+  if (!res.ok) {
+    const data = (await res.json().catch(() => ({}))) as { error?: string; message?: string };
+    throw new ApiError(data.error || data.message || `HTTP ${res.status}: ${res.statusText}`, { status: res.status, endpoint });
+  }
+  return res.blob();
+}
+
+// ── Request payload types ────────────────────────────────────────────────────
+
+export type NewCase = Omit<Case, 'id' | 'createdAt' | 'updatedAt'>;
+export type NewClient = Omit<Client, 'id' | 'createdAt' | 'updatedAt'>;
+export type NewAlert = Omit<Alert, 'id' | 'createdAt'>;
+export type NewTimeEntry = Omit<TimeEntry, 'id'>;
+export type NewHearing = Omit<Hearing, 'id' | 'createdAt' | 'updatedAt'>;
+export type NewInvoice = Omit<Invoice, 'id' | 'createdAt' | 'updatedAt'>;
+
+export interface HearingOverride {
+  override?: boolean;
+  overrideReason?: string;
+}
+
+export interface ConflictCheckRequest {
+  startAt: Date;
+  endAt: Date;
+  timezone: string;
+  resourceScope?: unknown;
+  excludeHearingId?: string;
+  /** Case of the hearing; hearings of its connected matters come back as `listedTogether` */
+  caseId?: string;
+}
+
+export interface SendInvoiceRequest {
+  to?: string;
+  subject?: string;
+  message?: string;
+}
+
+/** A deadline to compute; `custom` rules also need a title and a period in days. */
+export interface DeadlineRequest {
+  ruleId: string;
+  triggerDate: string;
+  excludedDays?: number;
+  title?: string;
+  periodDays?: number;
+}
+
+export type NewCaseDeadline = DeadlineRequest & { reminderDays?: number[]; notes?: string };
+
+export type CaseDeadlineUpdate = Partial<Pick<CaseDeadline, 'triggerDate' | 'excludedDays' | 'reminderDays' | 'notes' | 'status'>>;
+
+export type BulkRecordType = 'case' | 'client' | 'invoice';
+
+/** `value` is the new status, priority or client id, the tags to add, or the target folder (null for the top level). */
+export interface BulkRequest {
+  action: BulkAction;
+  ids: string[];
+  value?: string | string[] | null;
+}
+
+/** Column index for each mapped field, and the day/month order of the file's dates. */
+export interface ImportOptions {
+  mapping: Record<string, number>;
+  dateFormat: ImportDraft['dateFormat'];
+}
+
+/** The fields of a court or judge a firm adds or edits. */
+export type CourtInput = Pick<Court, 'name' | 'level'> & Partial<Pick<Court, 'bench' | 'complex' | 'city' | 'state' | 'courtHalls' | 'aliases'>>;
+export type JudgeInput = Pick<Judge, 'name'> & Partial<Pick<Judge, 'designation' | 'courtId' | 'aliases'>>;
+
+/** Which free-text name the clean-up works on. */
+export type DirectoryField = 'court' | 'judge';
+
+export interface SavedViewInput {
+  name: string;
+  state: Record<string, string>;
+  shared?: boolean;
+}
+
+export interface CloseCaseInput {
+  outcome: ClosureOutcome;
+  /** YYYY-MM-DD */
+  disposalDate: string;
+  finalOrderId?: string;
+  summary?: string;
+  appealRuleId?: string;
+  cancelHearings: boolean;
+  removeAlerts: boolean;
+  archive: boolean;
+}
+
+export interface CaseNoteFilters {
+  noteType?: string;
+  hearingId?: string;
+}
+
+/**
+ * Server-side list options. `status`/`priority` accept one value or a
+ * comma-separated set; `from`/`to` bound `dateField` (defaults per route).
+ * `cf` filters cases by custom field value, sent as `cf[key]=value`.
+ */
+export interface ListParams {
+  limit?: number;
+  cursor?: string | null;
+  sort?: string;
+  order?: 'asc' | 'desc';
+  q?: string;
+  status?: string;
+  priority?: string;
+  from?: Date;
+  to?: Date;
+  dateField?: string;
+  clientId?: string;
+  caseId?: string;
+  caseType?: string;
+  cf?: Record<string, string>;
+  /** Cases only: leave archived cases out, or list just those */
+  archived?: 'exclude' | 'only';
+  /** Cases only: one case board pipeline column (a system stage node id, or `custom`) */
+  stage?: string;
+}
+
+/** What a case being entered could conflict over: its number, its parties' names and its hearing day. */
+export interface ConflictCandidatesRequest {
+  caseNumber?: string;
+  names?: string[];
+  from?: Date;
+  to?: Date;
+}
+
+export const DEFAULT_PAGE_SIZE = 25;
+
+const filterParams = ({ from, to, cf = {}, ...rest }: Omit<ListParams, 'limit' | 'cursor'>) => ({
+  ...rest,
+  ...Object.fromEntries(Object.entries(cf).map(([key, value]) => [`cf[${key}]`, value])),
+  from: from?.toISOString(),
+  to: to?.toISOString(),
+});
+
+const listQuery = ({ limit = DEFAULT_PAGE_SIZE, cursor, ...filters }: ListParams) =>
+  query({ ...filterParams(filters), limit: String(limit), cursor: cursor ?? undefined });
+
+export interface TemplateDocumentInput {
+  templateId?: string;
+  templateName?: string;
+  filledData?: Record<string, string>;
+  finalHTML?: string;
+  status?: 'draft' | 'completed';
+}
+
+/** Parties go back with their subdocument `_id`, so an edit updates the same party. */
+function caseToApi<T extends Partial<Case>>(data: T) {
+  if (!data.parties) return data;
+  return { ...data, parties: data.parties.map(({ id, ...party }) => (id ? { _id: id, ...party } : party)) };
+}
+
+function invoiceToApi(inv: NewInvoice) {
+  return {
+    clientId: inv.clientId,
+    caseId: inv.caseId,
+    invoiceNumber: inv.invoiceNumber,
+    issueDate: inv.issueDate,
+    dueDate: inv.dueDate,
+    status: inv.status,
+    currency: inv.currency,
+    items: inv.items,
+    subtotal: inv.subtotal,
+    taxRate: inv.taxRate,
+    taxAmount: inv.taxAmount,
+    discountAmount: inv.discountAmount,
+    total: inv.total,
+    notes: inv.notes,
+    terms: inv.terms,
+  };
+}
+
+function invoicePartialToApi(updates: Partial<Invoice>) {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { id: _id, clientName: _clientName, ...rest } = updates;
+  return {
+    ...rest,
+    ...(rest.issueDate instanceof Date && { issueDate: rest.issueDate.toISOString() }),
+    ...(rest.dueDate instanceof Date && { dueDate: rest.dueDate.toISOString() }),
+  };
+}
+
+// ── Routes ───────────────────────────────────────────────────────────────────
+
+export const casesApi = {
+  list: (signal?: AbortSignal) => get('/cases', z.array(caseSchema), signal),
+  page: (params: ListParams, signal?: AbortSignal) => get(`/cases${listQuery(params)}`, pageSchema(caseSchema), signal),
+  board: (groupBy: BoardGrouping, filters: Omit<ListParams, 'limit' | 'cursor'>, signal?: AbortSignal) =>
+    get(`/cases/board${query({ ...filterParams(filters), groupBy })}`, caseBoardCountsSchema, signal),
+  get: (id: string, signal?: AbortSignal) => get(`/cases/${id}`, caseSchema, signal),
+  conflictCandidates: (input: ConflictCandidatesRequest, signal?: AbortSignal) =>
+    request('POST', '/cases/conflict-candidates', z.array(caseSchema), {
+      body: { ...input, from: input.from?.toISOString(), to: input.to?.toISOString() },
+      signal,
+    }),
+  create: (data: NewCase) => request('POST', '/cases', caseSchema, { body: caseToApi(data) }),
+  update: (id: string, updates: Partial<Case>) => request('PUT', `/cases/${id}`, caseSchema, { body: caseToApi(updates) }),
+  remove: (id: string) => request('DELETE', `/cases/${id}`, ackSchema),
+};
+
+export const clientsApi = {
+  list: (signal?: AbortSignal) => get('/clients', z.array(clientSchema), signal),
+  page: (params: ListParams, signal?: AbortSignal) => get(`/clients${listQuery(params)}`, pageSchema(clientSchema), signal),
+  get: (id: string, signal?: AbortSignal) => get(`/clients/${id}`, clientSchema, signal),
+  /** The client with this name, ignoring case, if there is one; names are unique per account. */
+  findByName: async (name: string, signal?: AbortSignal) => {
+    const { items } = await clientsApi.page({ q: name, sort: 'name', order: 'asc', limit: 100 }, signal);
+    return items.find(client => client.name.toLowerCase() === name.toLowerCase());
+  },
+  create: (data: NewClient) => request('POST', '/clients', clientSchema, { body: data }),
+  update: (id: string, updates: Partial<Client>) => request('PUT', `/clients/${id}`, clientSchema, { body: updates }),
+  remove: (id: string) => request('DELETE', `/clients/${id}`, ackSchema),
+};
+
+export const alertsApi = {
+  list: (signal?: AbortSignal) => get('/alerts', z.array(alertSchema), signal),
+  create: (data: NewAlert) => request('POST', '/alerts', alertSchema, { body: data }),
+  markRead: (id: string) => request('PATCH', `/alerts/${id}/read`, alertSchema),
+  markAllRead: () => request('PATCH', '/alerts/mark-all-read', z.array(alertSchema)),
+  remove: (id: string) => request('DELETE', `/alerts/${id}`, ackSchema),
+};
+
+export const timeEntriesApi = {
+  list: (signal?: AbortSignal) => get('/time-entries', z.array(timeEntrySchema), signal),
+  create: (data: NewTimeEntry) => request('POST', '/time-entries', timeEntrySchema, { body: data }),
+  remove: (id: string) => request('DELETE', `/time-entries/${id}`, ackSchema),
+};
+
+export const hearingsApi = {
+  list: (signal?: AbortSignal) => get('/hearings', z.array(hearingSchema), signal),
+  listByCase: (caseId: string, signal?: AbortSignal) => get(`/hearings/case/${caseId}`, z.array(hearingSchema), signal),
+  listToday: (signal?: AbortSignal) => get('/hearings/today/list', z.array(hearingSchema), signal),
+  get: (id: string, signal?: AbortSignal) => get(`/hearings/${id}`, hearingSchema, signal),
+  create: (data: NewHearing, { override = false, overrideReason }: HearingOverride = {}) =>
+    request('POST', '/hearings', hearingSchema, { body: { ...data, override, overrideReason } }),
+  update: (id: string, updates: Partial<Hearing>, { override, overrideReason }: HearingOverride = {}) =>
+    request('PUT', `/hearings/${id}`, hearingSchema, {
+      body: override === undefined ? updates : { ...updates, override, overrideReason },
+    }),
+  remove: (id: string) => request('DELETE', `/hearings/${id}`, ackSchema),
+  checkConflict: ({ startAt, endAt, timezone, resourceScope = {}, excludeHearingId, caseId }: ConflictCheckRequest) =>
+    request('POST', '/hearings/check-conflict', conflictCheckSchema, {
+      body: { startAt: startAt.toISOString(), endAt: endAt.toISOString(), timezone, resourceScope, excludeHearingId, caseId },
+    }),
+};
+
+export const invoicesApi = {
+  list: (signal?: AbortSignal) => get('/invoices', z.array(invoiceSchema), signal),
+  page: (params: ListParams, signal?: AbortSignal) => get(`/invoices${listQuery(params)}`, pageSchema(invoiceSchema), signal),
+  summary: (signal?: AbortSignal) => get('/invoices/summary', invoiceSummarySchema, signal),
+  get: (id: string, signal?: AbortSignal) => get(`/invoices/${id}`, invoiceSchema, signal),
+  create: (invoice: NewInvoice) => request('POST', '/invoices', invoiceSchema, { body: invoiceToApi(invoice) }),
+  update: (id: string, updates: Partial<Invoice>) =>
+    request('PUT', `/invoices/${id}`, invoiceSchema, { body: invoicePartialToApi(updates) }),
+  remove: (id: string) => request('DELETE', `/invoices/${id}`, ackSchema),
+  send: (id: string, payload: SendInvoiceRequest) => request('POST', `/invoices/${id}/send`, sendInvoiceResultSchema, { body: payload }),
+};
+
+export const caseNotesApi = {
+  list: (caseId: string, { noteType, hearingId }: CaseNoteFilters = {}, signal?: AbortSignal) =>
+    get(`/cases/${caseId}/notes${query({ noteType, hearingId })}`, z.array(caseNoteSchema), signal),
+  create: (caseId: string, note: Record<string, unknown>) => request('POST', `/cases/${caseId}/notes`, caseNoteSchema, { body: note }),
+  update: (caseId: string, noteId: string, updates: Record<string, unknown>) =>
+    request('PUT', `/cases/${caseId}/notes/${noteId}`, caseNoteSchema, { body: updates }),
+  remove: (caseId: string, noteId: string) => request('DELETE', `/cases/${caseId}/notes/${noteId}`, ackSchema),
+  removeAttachment: (caseId: string, noteId: string, attachmentId: string) =>
+    request('DELETE', `/cases/${caseId}/notes/${noteId}/attachments/${attachmentId}`, ackSchema),
+};
+
+export const notesApi = {
+  search: (q: string, signal?: AbortSignal) => get(`/notes/search${query({ q })}`, z.array(noteSearchResultSchema), signal),
+};
+
+export const trashApi = {
+  list: (type?: TrashType, signal?: AbortSignal) => get(`/trash${query({ type })}`, trashListSchema, signal),
+  restore: (type: TrashType, id: string) => request('POST', `/trash/${type}/${id}/restore`, ackSchema),
+  purge: (type: TrashType, id: string) => request('DELETE', `/trash/${type}/${id}`, ackSchema),
+};
+
+const HISTORY_ROUTES: Record<HistoryEntityType, string> = {
+  case: '/cases',
+  hearing: '/hearings',
+  client: '/clients',
+  invoice: '/invoices',
+};
+
+export const historyApi = {
+  list: (type: HistoryEntityType, id: string, signal?: AbortSignal) =>
+    get(`/history/${type}/${id}`, z.array(entityChangeSchema), signal),
+  /** Put `field` back to its value before `change`, through the entity's normal update route. */
+  revert: (change: EntityChange, field: string) => {
+    const { before } = change.changes.find(c => c.field === field) ?? {};
+    return request('PUT', `${HISTORY_ROUTES[change.entityType]}/${change.entityId}`, ackSchema, {
+      body: { [field]: before ?? null, revertOf: change.id },
+    });
+  },
+};
+
+export const caseFieldsApi = {
+  list: (signal?: AbortSignal) => get('/case-fields', z.array(caseFieldSchemaSchema), signal),
+  save: (caseType: string, fields: CustomField[]) =>
+    request('PUT', `/case-fields/${encodeURIComponent(caseType)}`, caseFieldSchemaSchema, { body: { fields } }),
+  remove: (caseType: string) => request('DELETE', `/case-fields/${encodeURIComponent(caseType)}`, ackSchema),
+};
+
+export const caseLinksApi = {
+  graph: (caseId: string, signal?: AbortSignal) => get(`/cases/${caseId}/links`, caseLinkGraphSchema, signal),
+  add: (caseId: string, link: { type: CaseLinkType; caseId: string; note?: string }) =>
+    request('POST', `/cases/${caseId}/links`, caseLinkSchema, { body: link }),
+  remove: (caseId: string, linkId: string) => request('DELETE', `/cases/${caseId}/links/${linkId}`, ackSchema),
+};
+
+export const caseClosureApi = {
+  checklist: (caseId: string, signal?: AbortSignal) => get(`/cases/${caseId}/closure`, closureChecklistSchema, signal),
+  close: (caseId: string, input: CloseCaseInput) =>
+    request('POST', `/cases/${caseId}/closure`, closeCaseResultSchema, { body: input }),
+  reopen: (caseId: string, reason: string) =>
+    request('POST', `/cases/${caseId}/closure/reopen`, caseSchema, { body: { reason } }),
+};
+
+export const caseTimelineApi = {
+  get: (caseId: string, signal?: AbortSignal) => get(`/cases/${caseId}/timeline`, z.array(timelineEventSchema), signal),
+};
+
+export const documentFoldersApi = {
+  list: (signal?: AbortSignal) =>
+    get('/documents/folders', z.object({ folders: z.array(documentFolderSchema) }), signal).then(data => data.folders),
+};
+
+export const bulkApi = {
+  run: (type: BulkRecordType, input: BulkRequest) => request('POST', `/bulk/${type}`, bulkResultSchema, { body: input }),
+};
+
+export const importsApi = {
+  list: (signal?: AbortSignal) => get('/imports', z.array(importBatchSchema), signal),
+  upload: (entity: ImportEntity, file: File) => {
+    const form = new FormData();
+    form.append('entity', entity);
+    form.append('file', file);
+    return request('POST', '/imports', importDraftSchema, { body: form });
+  },
+  preview: (id: string, input: ImportOptions) => request('POST', `/imports/${id}/preview`, importPreviewSchema, { body: input }),
+  commit: (id: string, input: ImportOptions & { merge: number[] }) =>
+    request('POST', `/imports/${id}/commit`, importBatchSchema, { body: input }),
+  revert: (id: string) => request('POST', `/imports/${id}/revert`, importBatchSchema),
+};
+
+export const courtsApi = {
+  list: (q = '', signal?: AbortSignal) => get(`/courts?q=${encodeURIComponent(q)}`, z.array(courtSchema), signal),
+  create: (court: CourtInput) => request('POST', '/courts', courtSchema, { body: court }),
+  update: (id: string, court: Partial<CourtInput>) => request('PUT', `/courts/${id}`, courtSchema, { body: court }),
+  remove: (id: string) => request('DELETE', `/courts/${id}`, ackSchema),
+  judges: (filters: { q?: string; courtId?: string } = {}, signal?: AbortSignal) => {
+    const params = new URLSearchParams({ q: filters.q ?? '' });
+    if (filters.courtId) params.set('courtId', filters.courtId);
+    return get(`/courts/judges?${params}`, z.array(judgeSchema), signal);
+  },
+  createJudge: (judge: JudgeInput) => request('POST', '/courts/judges', judgeSchema, { body: judge }),
+  updateJudge: (id: string, judge: Partial<JudgeInput>) => request('PUT', `/courts/judges/${id}`, judgeSchema, { body: judge }),
+  removeJudge: (id: string) => request('DELETE', `/courts/judges/${id}`, ackSchema),
+  nameClusters: (field: DirectoryField, signal?: AbortSignal) => get(`/courts/cleanup/${field}`, z.array(nameClusterSchema), signal),
+  applyCluster: (field: DirectoryField, input: { values: string[]; targetId: string }) =>
+    request('POST', `/courts/cleanup/${field}`, z.object({ updated: z.number(), label: z.string() }), { body: input }),
+};
+
+export const viewsApi = {
+  list: (page: SavedViewPage, signal?: AbortSignal) => get(`/views?page=${page}`, z.array(savedViewSchema), signal),
+  create: (view: SavedViewInput & { page: SavedViewPage }) => request('POST', '/views', savedViewSchema, { body: view }),
+  update: (id: string, view: Partial<SavedViewInput>) => request('PUT', `/views/${id}`, savedViewSchema, { body: view }),
+  remove: (id: string) => request('DELETE', `/views/${id}`, ackSchema),
+};
+
+export const deadlinesApi = {
+  rules: (signal?: AbortSignal) => get('/deadlines/rules', deadlineRulesSchema, signal),
+  compute: (input: DeadlineRequest) => request('POST', '/deadlines/compute', deadlineComputationSchema, { body: input }),
+  listForCase: (caseId: string, signal?: AbortSignal) =>
+    get(`/deadlines/case/${caseId}`, z.array(caseDeadlineSchema), signal),
+  create: (caseId: string, input: NewCaseDeadline) =>
+    request('POST', `/deadlines/case/${caseId}`, caseDeadlineSchema, { body: input }),
+  update: (caseId: string, id: string, updates: CaseDeadlineUpdate) =>
+    request('PATCH', `/deadlines/case/${caseId}/${id}`, caseDeadlineSchema, { body: updates }),
+  remove: (caseId: string, id: string) => request('DELETE', `/deadlines/case/${caseId}/${id}`, ackSchema),
+  holidays: (signal?: AbortSignal) => get('/deadlines/holidays', z.array(courtHolidaySchema), signal),
+  addHoliday: (holiday: { date: string; name: string }) =>
+    request('POST', '/deadlines/holidays', courtHolidaySchema, { body: holiday }),
+  removeHoliday: (id: string) => request('DELETE', `/deadlines/holidays/${id}`, ackSchema),
+};
+
+/** Filters a feed URL or a download can carry */
+export interface CalendarFilters {
+  caseId?: string;
+  court?: string;
+}
+
+/** The .ics file's text and the days (YYYY-MM-DD, inclusive) to import from it */
+export interface CalendarImportInput {
+  ics: string;
+  from: string;
+  to: string;
+}
+
+export interface CalendarImportChoice {
+  key: string;
+  action: CalendarImportAction;
+  caseId?: string;
+  /** Schedule the hearing despite a conflict; needs `overrideReason` */
+  override?: boolean;
+}
+
+export const calendarApi = {
+  feed: (signal?: AbortSignal) => get('/calendar/feed', calendarFeedSchema, signal),
+  createFeed: () => request('POST', '/calendar/feed', newCalendarFeedSchema),
+  revokeFeed: () => request('DELETE', '/calendar/feed', calendarFeedSchema),
+  exportHearing: (hearingId: string) => download(`/calendar/export.ics${query({ hearingId })}`),
+  /** Hearings and open deadlines from `from` to `to` (YYYY-MM-DD, inclusive) */
+  exportRange: (from: string, to: string, filters: CalendarFilters = {}) =>
+    download(`/calendar/export.ics${query({ from, to, ...filters })}`),
+  previewImport: (input: CalendarImportInput) =>
+    request('POST', '/calendar/import/preview', calendarImportPreviewSchema, { body: input }),
+  applyImport: (input: CalendarImportInput & { fileName?: string; items: CalendarImportChoice[]; overrideReason?: string }) =>
+    request('POST', '/calendar/import', calendarImportResultSchema, { body: input }),
+  /** Standalone events starting from `from` to `to` (YYYY-MM-DD, inclusive) */
+  events: (from: string, to: string, signal?: AbortSignal) =>
+    get(`/calendar/events${query({ from, to })}`, z.array(calendarEventSchema), signal),
+  removeEvent: (id: string) => request('DELETE', `/calendar/events/${id}`, ackSchema),
+};
+
+export const templatesApi = {
+  list: (signal?: AbortSignal) => get('/templates', z.array(templateDocumentSchema), signal),
+  get: (id: string, signal?: AbortSignal) => get(`/templates/${id}`, templateDocumentSchema, signal),
+  create: (doc: TemplateDocumentInput) => request('POST', '/templates', templateDocumentSchema, { body: doc }),
+  update: (id: string, doc: TemplateDocumentInput) => request('PUT', `/templates/${id}`, templateDocumentSchema, { body: doc }),
+  remove: (id: string) => request('DELETE', `/templates/${id}`, ackSchema),
+};
@@ -0,0 +1,60 @@
+/**
+ * Errors raised by the typed API client. Every failure carries the route it
+ * came from so callers and error reporting can tell endpoints apart.
+ */
+
+import type { ZodIssue } from 'zod';
+
+import type { HearingConflict } from './schemas';
+
+/** Non-2xx response. `message` is the backend's `error`/`message` field when present. */
+export class ApiError extends Error {
+  readonly status: number;
+  readonly endpoint: string;
+  /** Machine-readable code from the body (e.g. `CONFLICT`, `VALIDATION_ERROR`) */
+  readonly code?: string;
+  readonly body?: unknown;
+
+  constructor(message: string, { status, endpoint, code, body }: { status: number; endpoint: string; code?: string; body?: unknown }) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.endpoint = endpoint;
+    this.code = code;
+    this.body = body;
+  }
+}
+
+/** The backend rejected a hearing because it clashes with existing schedules. */
+export class HearingConflictError extends ApiError {
+  readonly conflicts: HearingConflict[];
+
+  constructor(message: string, endpoint: string, conflicts: HearingConflict[]) {
+    super(message, { status: 409, endpoint, code: 'CONFLICT' });
+    this.name = 'HearingConflictError';
+    this.conflicts = conflicts;
+  }
+}
+
+/**
+ * A 2xx response whose body does not match the expected schema. Raised
+ * instead of letting malformed fields reach the UI as `undefined`.
+ */
+export class ApiValidationError extends ApiError {
+  readonly issues: ZodIssue[];
+
+  constructor(endpoint: string, status: number, issues: ZodIssue[], body: unknown) {
+    const first = issues[0];
+    const where = first?.path.length ? ` at ${first.path.join('.')}` : '';
+    super(`Unexpected response from ${endpoint}${where}: ${first?.message ?? 'invalid payload'}`, {
+      status,
+      endpoint,
+      code: 'INVALID_RESPONSE',
+      body,
+    });
+    this.name = 'ApiValidationError';
+    this.issues = issues;
+  }
+}
+
+export const isApiError = (error: unknown): error is ApiError => error instanceof ApiError;
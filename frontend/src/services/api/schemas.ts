@@ -0,0 +1,851 @@
+/**
+ * Response schemas for the typed API client.
+ *
+ * Each schema validates one backend document and converts it to the UI shape
+ * in a single pass: Mongo `_id` becomes `id` and date fields become JS Dates.
+ * Enum values mirror `backend/src/schemas/validation-schemas.js`, which the
+ * Mongoose models use; `backend/src/__tests__/apiContract.test.js` fails when
+ * the two lists drift apart.
+ */
+
+import { z } from 'zod';
+
+import type { Alert, Case, CaseParty, Client, Hearing, Invoice, TimeEntry } from '@/contexts/LegalDataContext';
+
+// ── Shared enums (keep in sync with validation-schemas.js) ───────────────────
+
+export const CASE_STATUSES = ['active', 'pending', 'closed', 'won', 'lost'] as const;
+export const CASE_PRIORITIES = ['low', 'medium', 'high', 'urgent'] as const;
+export const HEARING_STATUSES = ['scheduled', 'completed', 'adjourned', 'cancelled'] as const;
+export const INVOICE_STATUSES = ['draft', 'sent', 'paid', 'overdue'] as const;
+export const ALERT_TYPES = ['hearing', 'deadline', 'payment', 'document'] as const;
+export const NOTE_TYPES = ['general', 'hearing', 'evidence', 'strategy', 'internal'] as const;
+export const NOTE_ATTACHMENT_TYPES = ['image', 'video', 'document', 'audio'] as const;
+export const TEMPLATE_DOCUMENT_STATUSES = ['draft', 'completed'] as const;
+export const TRASH_TYPES = ['case', 'client', 'invoice', 'document'] as const;
+export const HISTORY_ENTITY_TYPES = ['case', 'hearing', 'client', 'invoice'] as const;
+export const CUSTOM_FIELD_TYPES = ['text', 'number', 'date', 'select', 'multiselect', 'party'] as const;
+export const PARTY_ROLES = ['petitioner', 'respondent', 'intervenor', 'impleaded'] as const;
+export const PARTY_TYPES = ['individual', 'organisation'] as const;
+export const DEADLINE_STATUSES = ['open', 'done'] as const;
+export const CASE_LINK_TYPES = ['appeal_of', 'revision_of', 'transferred_from', 'connected_with', 'cross_fir'] as const;
+export const BULK_ACTIONS = ['status', 'priority', 'reassign', 'tags', 'move_documents', 'trash'] as const;
+export const IMPORT_ENTITIES = ['case', 'client', 'hearing'] as const;
+export const IMPORT_STATUSES = ['draft', 'applied', 'reverted'] as const;
+export const TIMELINE_EVENT_TYPES = ['hearing', 'order', 'note', 'document', 'invoice', 'payment', 'time'] as const;
+export const COURT_LEVELS = ['supreme', 'high', 'district', 'tribunal', 'other'] as const;
+export const SAVED_VIEW_PAGES = ['cases', 'calendar', 'documents'] as const;
+export const CLOSURE_OUTCOMES = ['won', 'lost', 'settled', 'withdrawn', 'dismissed', 'disposed'] as const;
+export const CALENDAR_IMPORT_ACTIONS = ['hearing', 'event', 'skip'] as const;
+
+// ── Primitives ───────────────────────────────────────────────────────────────
+
+/** Convert Firestore timestamps / ISO strings / epoch numbers to a valid Date. */
+export function toSafeDate(value: unknown): Date | undefined {
+  if (value === null || value === undefined) return undefined;
+
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? undefined : value;
+  }
+
+  // Firestore Timestamp object with toDate() method
+  if (typeof value === 'object' && 'toDate' in value && typeof (value as { toDate: () => Date }).toDate === 'function') {
+    try {
+      const d = (value as { toDate: () => Date }).toDate();
+      return Number.isNaN(d.getTime()) ? undefined : d;
+    } catch (_error) { // eslint-disable-line @typescript-eslint/no-unused-vars
+      return undefined;
+    }
+  }
+
+  // Firestore Timestamp-like plain object { seconds, nanoseconds } or {_seconds, _nanoseconds}
+  if (typeof value === 'object' && ('seconds' in value || '_seconds' in value)) {
+    const seconds = (value as { seconds?: number }).seconds ?? (value as { _seconds?: number })._seconds;
+    if (typeof seconds === 'number') {
+      const d = new Date(seconds * 1000);
+      return Number.isNaN(d.getTime()) ? undefined : d;
+    }
+  }
+
+  if (typeof value === 'string' || typeof value === 'number') {
+    const d = new Date(value);
+    return Number.isNaN(d.getTime()) ? undefined : d;
+  }
+  return undefined;
+}
+
+// Unparseable values are passed through unchanged so z.date() reports them
+const parseDate = (value: unknown) => (value === null || value === undefined ? undefined : toSafeDate(value) ?? value);
+
+const date = z.preprocess(parseDate, z.date({ required_error: 'Date is required', invalid_type_error: 'Invalid date' }));
+const optionalDate = z.preprocess(parseDate, z.date({ invalid_type_error: 'Invalid date' }).optional());
+
+/** Optional text; `null` from the API is normalised to `undefined`. */
+const optionalString = z.string().nullish().transform(v => v ?? undefined);
+/** Text the UI treats as always present; missing values become ''. */
+const text = z.string().nullish().transform(v => v ?? '');
+const objectId = z.union([z.string(), z.number()]).transform(String);
+const idList = z.array(objectId).nullish().transform(v => v ?? []);
+const tagList = z.array(z.string()).nullish().transform(v => v ?? []);
+
+/** Enum field; documents written before the field existed get the model default. */
+function enumWithDefault<T extends readonly [string, ...string[]]>(values: T, fallback: T[number]) {
+  return z.enum(values).nullish().transform(v => v ?? fallback);
+}
+
+/** Accept `_id` or `id` and expose it as `id`. */
+function withId<T extends z.ZodRawShape>(shape: T) {
+  return z.preprocess(
+    raw => (raw && typeof raw === 'object' && !('id' in raw) && '_id' in raw
+      ? { ...raw, id: (raw as { _id: unknown })._id }
+      : raw),
+    z.object({ id: objectId, ...shape })
+  );
+}
+
+// ── Entities ─────────────────────────────────────────────────────────────────
+
+export const casePartySchema = withId({
+  role: z.enum(PARTY_ROLES),
+  partyType: enumWithDefault(PARTY_TYPES, 'individual'),
+  name: z.string(),
+  clientId: objectId.nullish().transform(v => v ?? undefined),
+  counsel: z.object({
+    name: optionalString,
+    enrollmentNumber: optionalString,
+    phone: optionalString,
+    email: optionalString,
+  }).nullish().transform(v => v ?? {}),
+}) satisfies z.ZodType<CaseParty, z.ZodTypeDef, unknown>;
+
+export const caseClosureSchema = z.object({
+  outcome: z.enum(CLOSURE_OUTCOMES),
+  disposalDate: z.string().transform(v => v.slice(0, 10)),
+  finalOrderId: objectId.nullish().transform(v => v ?? undefined),
+  summary: optionalString,
+  appealDeadlineId: objectId.nullish().transform(v => v ?? undefined),
+  closedAt: date,
+});
+
+export const caseSchema = withId({
+  caseNumber: z.string(),
+  clientName: z.string(),
+  opposingParty: text,
+  parties: z.array(casePartySchema).nullish().transform(v => v ?? []),
+  courtName: text,
+  judgeName: text,
+  courtId: objectId.nullish().transform(v => v ?? undefined),
+  judgeId: objectId.nullish().transform(v => v ?? undefined),
+  hearingDate: optionalDate,
+  hearingTime: text,
+  status: enumWithDefault(CASE_STATUSES, 'active'),
+  priority: enumWithDefault(CASE_PRIORITIES, 'medium'),
+  caseType: text,
+  description: text,
+  nextHearing: optionalDate,
+  documents: idList,
+  notes: text,
+  folderId: objectId.nullish().transform(v => v ?? undefined),
+  customFields: z.record(z.union([z.string(), z.number(), z.array(z.string())])).nullish().transform(v => v ?? {}),
+  tags: tagList,
+  pipelineStage: optionalString,
+  customPipelineNodes: z.array(z.object({
+    nodeId: z.string(),
+    name: z.string(),
+    color: optionalString,
+  })).nullish().transform(v => v ?? []),
+  closure: caseClosureSchema.nullish().transform(v => v ?? undefined),
+  archivedAt: optionalDate,
+  createdAt: date,
+  updatedAt: date,
+}).transform(c => ({ ...c, alerts: [] }) as Case); // hearingDate is optional in practice
+
+export const clientSchema = withId({
+  name: z.string(),
+  email: z.string(),
+  phone: z.string(),
+  address: text,
+  panNumber: optionalString,
+  aadharNumber: optionalString,
+  cases: idList,
+  documents: idList,
+  notes: text,
+  tags: tagList,
+  caseSummary: z.object({
+    total: z.number(),
+    active: z.number(),
+    nextHearing: z.object({ caseNumber: z.string(), date }).nullable(),
+  }).optional(),
+  createdAt: date,
+  updatedAt: date,
+}) satisfies z.ZodType<Client, z.ZodTypeDef, unknown>;
+
+export const alertSchema = withId({
+  caseId: objectId.nullish().transform(v => v ?? ''),
+  type: z.enum(ALERT_TYPES),
+  message: z.string(),
+  alertTime: date,
+  isRead: z.boolean().nullish().transform(Boolean),
+  createdAt: date,
+}) satisfies z.ZodType<Alert, z.ZodTypeDef, unknown>;
+
+export const timeEntrySchema = withId({
+  caseId: objectId.nullish().transform(v => v ?? ''),
+  description: z.string(),
+  duration: z.number(),
+  hourlyRate: z.number(),
+  date,
+  billable: z.boolean().nullish().transform(Boolean),
+}) satisfies z.ZodType<TimeEntry, z.ZodTypeDef, unknown>;
+
+/** Case summary the hearing list endpoints populate into `caseId`. */
+export const populatedCaseSchema = z.object({
+  _id: objectId.optional(),
+  caseNumber: z.string().optional(),
+  clientName: z.string().optional(),
+  priority: z.enum(CASE_PRIORITIES).optional(),
+}).passthrough();
+
+export type PopulatedCase = z.infer<typeof populatedCaseSchema>;
+export type HearingWithCase = Hearing & { populatedCase?: PopulatedCase | null };
+
+export const hearingSchema = withId({
+  caseId: z.union([objectId, populatedCaseSchema]),
+  hearingDate: date,
+  hearingTime: optionalString,
+  timezone: optionalString,
+  duration: z.number().nullish().transform(v => v ?? undefined),
+  startAt: optionalDate,
+  endAt: optionalDate,
+  courtName: z.string(),
+  judgeName: optionalString,
+  courtId: objectId.nullish().transform(v => v ?? undefined),
+  judgeId: objectId.nullish().transform(v => v ?? undefined),
+  hearingType: z.string().nullish().transform(v => v ?? 'interim_hearing'),
+  status: enumWithDefault(HEARING_STATUSES, 'scheduled'),
+  purpose: optionalString,
+  courtInstructions: optionalString,
+  documentsToBring: z.array(z.string()).nullish().transform(v => v ?? []),
+  proceedings: optionalString,
+  nextHearingDate: optionalDate,
+  nextHearingTime: optionalString,
+  adjournmentReason: optionalString,
+  attendance: z.object({
+    clientPresent: z.boolean().nullish().transform(Boolean),
+    opposingPartyPresent: z.boolean().nullish().transform(Boolean),
+    witnessesPresent: z.array(z.string()).nullish().transform(v => v ?? []),
+  }).nullish().transform(a => a ?? { clientPresent: false, opposingPartyPresent: false, witnessesPresent: [] }),
+  orders: z.array(z.object({
+    orderType: text,
+    orderDetails: text,
+    orderDate: z.preprocess(v => parseDate(v) ?? new Date(), z.date()),
+  })).nullish().transform(v => v ?? []),
+  notes: optionalString,
+  createdAt: date,
+  updatedAt: date,
+}).transform(h => ({
+  ...h,
+  // List endpoints replace caseId with a case summary; it is kept as-is for
+  // existing consumers and exposed separately as populatedCase.
+  caseId: h.caseId as string,
+  populatedCase: typeof h.caseId === 'object' ? h.caseId : null,
+}) as HearingWithCase);
+
+export const invoiceItemSchema = z.object({
+  description: z.string(),
+  quantity: z.number(),
+  unitPrice: z.number(),
+  amount: z.number(),
+});
+
+export const invoiceSchema = withId({
+  clientId: objectId,
+  clientName: z.string().nullish(),
+  caseId: objectId.nullish().transform(v => v ?? undefined),
+  invoiceNumber: z.string(),
+  issueDate: date,
+  dueDate: date,
+  status: enumWithDefault(INVOICE_STATUSES, 'draft'),
+  currency: z.string().nullish().transform(v => v || 'INR'),
+  items: z.array(invoiceItemSchema).nullish().transform(v => v ?? []),
+  subtotal: z.number().nullish().transform(v => v ?? 0),
+  taxRate: z.number().nullish().transform(v => v ?? 0),
+  taxAmount: z.number().nullish().transform(v => v ?? 0),
+  discountAmount: z.number().nullish().transform(v => v ?? 0),
+  total: z.number().nullish().transform(v => v ?? 0),
+  notes: optionalString,
+  terms: optionalString,
+  tags: tagList,
+  createdAt: date,
+  updatedAt: date,
+}) satisfies z.ZodType<Invoice, z.ZodTypeDef, unknown>;
+
+const noteAttachmentSchema = z.object({
+  fileUrl: z.string(),
+  fileName: z.string(),
+  fileSize: z.number().optional(),
+  mimeType: optionalString,
+  attachmentId: optionalString,
+  type: z.enum(NOTE_ATTACHMENT_TYPES).optional(),
+  uploadedAt: optionalString,
+  cloudinaryPublicId: optionalString,
+});
+
+export interface CaseNote {
+  _id: string;
+  caseId: string;
+  hearingId?: string;
+  authorId: { _id: string; name: string; email: string };
+  title?: string;
+  content: string;
+  noteType: typeof NOTE_TYPES[number];
+  evidenceTags: string[];
+  isPinned: boolean;
+  isPrivate: boolean;
+  parentNoteId?: string;
+  attachments: z.infer<typeof noteAttachmentSchema>[];
+  createdAt: string;
+  editedAt?: string;
+  isDeleted: boolean;
+  replies?: CaseNote[];
+}
+
+/**
+ * Case notes keep their Mongo shape (`_id`, ISO strings) because the notes
+ * panel renders and edits them as-is. The author is populated by every notes route.
+ */
+export const caseNoteSchema: z.ZodType<CaseNote, z.ZodTypeDef, unknown> = z.lazy(() => z.object({
+  _id: objectId,
+  caseId: objectId,
+  hearingId: objectId.nullish().transform(v => v ?? undefined),
+  authorId: z.object({ _id: objectId, name: text, email: text }),
+  title: optionalString,
+  content: z.string(),
+  noteType: enumWithDefault(NOTE_TYPES, 'general'),
+  evidenceTags: z.array(z.string()).nullish().transform(v => v ?? []),
+  isPinned: z.boolean().nullish().transform(Boolean),
+  isPrivate: z.boolean().nullish().transform(Boolean),
+  parentNoteId: objectId.nullish().transform(v => v ?? undefined),
+  attachments: z.array(noteAttachmentSchema).nullish().transform(v => v ?? []),
+  createdAt: z.string(),
+  editedAt: optionalString,
+  isDeleted: z.boolean().nullish().transform(Boolean),
+  replies: z.array(caseNoteSchema).optional(),
+}));
+
+export const hearingConflictSchema = z.object({
+  hearingId: objectId,
+  caseNumber: z.string(),
+  startAt: z.string(),
+  endAt: z.string(),
+  conflictReason: z.string(),
+  /** A hearing of a connected or cross-FIR matter, expected to share the slot */
+  listedTogether: z.boolean().default(false),
+});
+
+export type HearingConflict = z.infer<typeof hearingConflictSchema>;
+
+export const conflictCheckSchema = z.object({
+  hasConflict: z.boolean(),
+  conflicts: z.array(hearingConflictSchema),
+});
+
+export const templateDocumentSchema = withId({
+  templateId: z.string(),
+  templateName: z.string(),
+  filledData: z.record(z.coerce.string()).nullish().transform(v => v ?? {}),
+  finalHTML: z.string(),
+  status: enumWithDefault(TEMPLATE_DOCUMENT_STATUSES, 'draft'),
+  createdAt: date,
+  updatedAt: date,
+});
+
+export type TemplateDocument = z.infer<typeof templateDocumentSchema>;
+
+/** `{ ok: true }` / `{ success: true }` / `{ message }` acknowledgements — content is not used. */
+export const ackSchema = z.unknown().transform(() => undefined);
+
+export const sendInvoiceResultSchema = z.object({
+  previewUrl: optionalString,
+}).passthrough();
+
+/** A note matched by `GET /notes/search`, with a plain-text excerpt of its content. */
+export const noteSearchResultSchema = z.object({
+  id: objectId,
+  caseId: objectId,
+  caseNumber: text,
+  title: text,
+  excerpt: text,
+  noteType: enumWithDefault(NOTE_TYPES, 'general'),
+  updatedAt: optionalDate,
+});
+
+export type NoteSearchResult = z.infer<typeof noteSearchResultSchema>;
+
+// ── Trash ────────────────────────────────────────────────────────────────────
+
+export type TrashType = (typeof TRASH_TYPES)[number];
+
+/** A deleted record awaiting purge; `dependents` counts what a trashed case took with it. */
+export const trashItemSchema = z.object({
+  type: z.enum(TRASH_TYPES),
+  id: objectId,
+  label: text,
+  subtitle: text,
+  deletedAt: date,
+  purgeAt: date,
+  dependents: z.object({
+    hearings: z.number().optional(),
+    notes: z.number().optional(),
+    documents: z.number().optional(),
+  }).default({}),
+});
+
+export const trashListSchema = z.object({
+  retentionDays: z.number(),
+  items: z.array(trashItemSchema),
+});
+
+export type TrashItem = z.infer<typeof trashItemSchema>;
+export type TrashList = z.infer<typeof trashListSchema>;
+
+// ── Change history ───────────────────────────────────────────────────────────
+
+export type HistoryEntityType = (typeof HISTORY_ENTITY_TYPES)[number];
+
+/**
+ * One recorded edit. `before`/`after` are the stored JSON values: dates arrive
+ * as ISO strings and are left that way so a revert can send them back as-is.
+ */
+export const entityChangeSchema = z.object({
+  id: objectId,
+  entityType: z.enum(HISTORY_ENTITY_TYPES),
+  entityId: objectId,
+  actor: z.object({ id: objectId, name: text }).nullable(),
+  changes: z.array(z.object({
+    field: z.string(),
+    before: z.unknown(),
+    after: z.unknown(),
+  })),
+  revertOf: z.string().nullish(),
+  createdAt: date,
+});
+
+export type EntityChange = z.infer<typeof entityChangeSchema>;
+
+// ── Custom case fields ───────────────────────────────────────────────────────
+
+export type CustomFieldType = (typeof CUSTOM_FIELD_TYPES)[number];
+
+/** One firm-defined field. `key` is the storage key and the template placeholder name. */
+export const customFieldSchema = z.object({
+  key: z.string(),
+  label: z.string(),
+  type: z.enum(CUSTOM_FIELD_TYPES),
+  options: z.array(z.string()).default([]),
+  required: z.boolean().default(false),
+});
+
+export const caseFieldSchemaSchema = z.object({
+  id: objectId,
+  caseType: z.string(),
+  fields: z.array(customFieldSchema),
+  updatedAt: optionalDate,
+});
+
+export type CustomField = z.infer<typeof customFieldSchema>;
+export type CaseFieldSchema = z.infer<typeof caseFieldSchemaSchema>;
+
+// ── Linked cases ─────────────────────────────────────────────────────────────
+
+export const caseLinkSchema = z.object({
+  id: objectId,
+  /** The case holding the link: `from` is an appeal of / revision of / transferred from `to` */
+  from: objectId,
+  to: objectId,
+  type: z.enum(CASE_LINK_TYPES),
+  note: text,
+});
+
+export const caseLinkGraphSchema = z.object({
+  nodes: z.array(z.object({
+    id: objectId,
+    caseNumber: z.string(),
+    clientName: text,
+    opposingParty: text,
+    courtName: text,
+    status: enumWithDefault(CASE_STATUSES, 'active'),
+  })),
+  edges: z.array(caseLinkSchema),
+});
+
+export type CaseLinkType = (typeof CASE_LINK_TYPES)[number];
+export type CaseLink = z.infer<typeof caseLinkSchema>;
+export type CaseLinkGraph = z.infer<typeof caseLinkGraphSchema>;
+
+// ── Document folders ─────────────────────────────────────────────────────────
+
+export const documentFolderSchema = z.object({
+  _id: objectId,
+  name: z.string(),
+  parentId: objectId.nullish().transform(v => v ?? null),
+  caseId: objectId.nullish().transform(v => v ?? null),
+}).transform(({ _id, ...folder }) => ({ id: _id, ...folder }));
+
+export type DocumentFolder = z.infer<typeof documentFolderSchema>;
+
+// ── Bulk actions ─────────────────────────────────────────────────────────────
+
+export const bulkResultSchema = z.object({
+  results: z.array(z.object({
+    id: z.string(),
+    ok: z.boolean(),
+    error: optionalString,
+    detail: optionalString,
+  })),
+  succeeded: z.number(),
+  failed: z.number(),
+});
+
+export type BulkAction = (typeof BULK_ACTIONS)[number];
+export type BulkResult = z.infer<typeof bulkResultSchema>;
+
+// ── Spreadsheet imports ──────────────────────────────────────────────────────
+
+export const importBatchSchema = z.object({
+  id: z.string(),
+  entity: z.enum(IMPORT_ENTITIES),
+  fileName: text,
+  status: z.enum(IMPORT_STATUSES),
+  rowCount: z.number(),
+  created: z.number(),
+  merged: z.number(),
+  skipped: z.number(),
+  createdAt: date,
+  appliedAt: optionalDate,
+  revertedAt: optionalDate,
+});
+
+/** An uploaded file waiting to be mapped; `mapping` is field key → column index. */
+export const importDraftSchema = importBatchSchema.extend({
+  headers: z.array(z.string()),
+  sampleRows: z.array(z.array(z.string())),
+  mapping: z.record(z.number()),
+  dateFormat: z.enum(['DD/MM/YYYY', 'MM/DD/YYYY', 'YYYY-MM-DD']),
+  fields: z.array(z.object({ key: z.string(), label: z.string(), required: z.boolean() })),
+});
+
+export const importPreviewSchema = z.object({
+  total: z.number(),
+  valid: z.number(),
+  invalid: z.number(),
+  duplicates: z.number(),
+  // Rows with errors or matching an existing record, numbered as in the spreadsheet
+  issues: z.array(z.object({
+    row: z.number(),
+    errors: z.array(z.string()),
+    duplicate: z.object({ id: z.string(), label: z.string() }).nullable(),
+  })),
+});
+
+export type ImportEntity = (typeof IMPORT_ENTITIES)[number];
+export type ImportBatch = z.infer<typeof importBatchSchema>;
+export type ImportDraft = z.infer<typeof importDraftSchema>;
+export type ImportPreview = z.infer<typeof importPreviewSchema>;
+
+// ── Court directory ──────────────────────────────────────────────────────────
+
+/** A court from the shared directory (`shared`) or added by the firm; `label` is what courtName is set to. */
+export const courtSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  label: z.string(),
+  level: enumWithDefault(COURT_LEVELS, 'other'),
+  bench: text,
+  complex: text,
+  city: text,
+  state: text,
+  courtHalls: tagList,
+  aliases: tagList,
+  shared: z.boolean(),
+});
+
+export const judgeSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  designation: text,
+  courtId: z.string().nullable(),
+  courtLabel: text,
+  aliases: tagList,
+  shared: z.boolean(),
+});
+
+/** Spellings of one court or judge name found on unlinked cases and hearings, with the entry they match. */
+export const nameClusterSchema = z.object({
+  key: z.string(),
+  values: z.array(z.object({ value: z.string(), count: z.number() })),
+  total: z.number(),
+  match: z.object({ id: z.string(), label: z.string(), exact: z.boolean() }).nullable(),
+});
+
+export type CourtLevel = (typeof COURT_LEVELS)[number];
+export type Court = z.infer<typeof courtSchema>;
+export type Judge = z.infer<typeof judgeSchema>;
+export type NameCluster = z.infer<typeof nameClusterSchema>;
+
+// ── Saved views ──────────────────────────────────────────────────────────────
+
+/** A named list view; `state` holds the page's query-string parameters. `own` is false for views shared by colleagues. */
+export const savedViewSchema = z.object({
+  id: z.string(),
+  page: z.enum(SAVED_VIEW_PAGES),
+  name: z.string(),
+  state: z.record(z.string()),
+  shared: z.boolean(),
+  own: z.boolean(),
+  ownerName: optionalString,
+  updatedAt: optionalDate,
+});
+
+export type SavedViewPage = (typeof SAVED_VIEW_PAGES)[number];
+export type SavedView = z.infer<typeof savedViewSchema>;
+
+// ── Case timeline ────────────────────────────────────────────────────────────
+
+/** One entry of a case chronology; `refId` is the hearing, note, document, invoice or time entry it comes from. */
+export const timelineEventSchema = z.object({
+  id: z.string(),
+  type: z.enum(TIMELINE_EVENT_TYPES),
+  date,
+  title: text,
+  detail: text,
+  status: optionalString,
+  court: optionalString,
+  author: optionalString,
+  nextDate: optionalDate,
+  amount: z.number().optional(),
+  currency: optionalString,
+  minutes: z.number().optional(),
+  refId: z.string(),
+});
+
+export type TimelineEventType = (typeof TIMELINE_EVENT_TYPES)[number];
+export type TimelineEvent = z.infer<typeof timelineEventSchema>;
+
+// ── Deadlines ────────────────────────────────────────────────────────────────
+// Deadline dates are calendar days and stay as YYYY-MM-DD strings, so they
+// never shift with the browser's time zone.
+
+const periodSchema = z.object({
+  years: z.number().optional(),
+  months: z.number().optional(),
+  days: z.number().optional(),
+});
+
+export const deadlineRuleSchema = z.object({
+  id: z.string(),
+  act: z.string(),
+  provision: z.string(),
+  title: z.string(),
+  trigger: z.string(),
+  period: periodSchema,
+  startOffset: periodSchema.optional(),
+  grace: periodSchema.optional(),
+});
+
+export const deadlineRulesSchema = z.object({
+  rules: z.array(deadlineRuleSchema),
+  defaultReminderDays: z.array(z.number()),
+});
+
+export const deadlineComputationSchema = z.object({
+  ruleId: z.string(),
+  title: z.string(),
+  periodEnd: z.string(),
+  dueDate: z.string(),
+  graceUntil: z.string().nullable(),
+});
+
+export const caseDeadlineSchema = z.object({
+  id: objectId,
+  ruleId: z.string(),
+  title: z.string(),
+  act: text,
+  provision: text,
+  triggerDate: z.string(),
+  excludedDays: z.number().default(0),
+  dueDate: z.string(),
+  graceUntil: z.string().nullable(),
+  reminderDays: z.array(z.number()).default([]),
+  status: enumWithDefault(DEADLINE_STATUSES, 'open'),
+  completedAt: optionalDate,
+  notes: text,
+});
+
+export const courtHolidaySchema = z.object({
+  id: objectId,
+  date: z.string(),
+  name: z.string(),
+});
+
+export type DeadlineRule = z.infer<typeof deadlineRuleSchema>;
+export type DeadlineRules = z.infer<typeof deadlineRulesSchema>;
+export type DeadlineComputation = z.infer<typeof deadlineComputationSchema>;
+export type CaseDeadline = z.infer<typeof caseDeadlineSchema>;
+export type CourtHoliday = z.infer<typeof courtHolidaySchema>;
+
+// ── Case closure ─────────────────────────────────────────────────────────────
+
+/** What the closure wizard flags before a case is closed. */
+export const closureChecklistSchema = z.object({
+  pendingInvoices: z.array(z.object({
+    id: z.string(),
+    invoiceNumber: z.string(),
+    status: z.enum(INVOICE_STATUSES),
+    total: z.number(),
+    currency: z.string(),
+    dueDate: optionalDate,
+  })),
+  /** Billable time logged since the case's latest invoice (`since`), or ever when it has none */
+  unbilledTime: z.object({
+    entries: z.number(),
+    minutes: z.number(),
+    amount: z.number(),
+    since: optionalDate,
+  }),
+  futureHearings: z.array(z.object({
+    id: z.string(),
+    hearingDate: date,
+    hearingTime: text,
+    courtName: text,
+    purpose: text,
+  })),
+  pendingAlerts: z.number(),
+  openDeadlines: z.array(z.object({ id: z.string(), title: z.string(), dueDate: z.string() })),
+  documents: z.array(z.object({ id: z.string(), name: z.string(), mimetype: text, createdAt: optionalDate })),
+  appealRules: z.array(deadlineRuleSchema),
+});
+
+export const closeCaseResultSchema = z.object({
+  case: caseSchema,
+  cancelledHearings: z.number(),
+  removedAlerts: z.number(),
+  appealDeadline: z.object({ id: z.string(), title: z.string(), dueDate: z.string() }).nullable(),
+});
+
+export type ClosureOutcome = (typeof CLOSURE_OUTCOMES)[number];
+export type ClosureChecklist = z.infer<typeof closureChecklistSchema>;
+export type CloseCaseResult = z.infer<typeof closeCaseResultSchema>;
+
+// ── Calendar feed ────────────────────────────────────────────────────────────
+
+export const calendarFeedSchema = z.object({
+  active: z.boolean(),
+  createdAt: optionalDate,
+  lastFetchedAt: optionalDate,
+});
+
+/** Returned once when the feed is created or regenerated; only then is the token known */
+export const newCalendarFeedSchema = calendarFeedSchema.extend({
+  token: z.string(),
+  path: z.string(),
+});
+
+export type CalendarFeed = z.infer<typeof calendarFeedSchema>;
+export type NewCalendarFeed = z.infer<typeof newCalendarFeedSchema>;
+
+// ── Calendar import ──────────────────────────────────────────────────────────
+
+const caseMatchSchema = z.object({
+  caseId: z.string(),
+  caseNumber: z.string(),
+  by: z.enum(['case_number', 'party']),
+});
+
+/** One event of an .ics file (one occurrence of a recurring one) and the case it matched */
+export const calendarImportItemSchema = z.object({
+  key: z.string(),
+  summary: z.string(),
+  location: text,
+  description: text,
+  start: date,
+  end: optionalDate,
+  allDay: z.boolean(),
+  recurring: z.boolean(),
+  match: caseMatchSchema.nullable(),
+  // Every case the event could be for; more than one when no single match was found
+  candidates: z.array(z.object({ caseId: z.string(), caseNumber: z.string(), clientName: text })),
+  // 'hearing': the matched case already has a hearing that day; 'event': imported before
+  duplicate: z.enum(['hearing', 'event']).nullable(),
+  conflicts: z.array(hearingConflictSchema),
+  blocking: z.boolean(),
+});
+
+export const calendarImportPreviewSchema = z.object({
+  from: z.string(),
+  to: z.string(),
+  warnings: z.array(z.string()),
+  items: z.array(calendarImportItemSchema),
+});
+
+export const calendarImportResultSchema = z.object({
+  hearings: z.number(),
+  events: z.number(),
+  skipped: z.array(z.object({ key: z.string(), summary: z.string(), reason: z.string() })),
+});
+
+/** An appointment that belongs to no case, e.g. an imported event that matched none */
+export const calendarEventSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  start: date,
+  end: optionalDate,
+  allDay: z.boolean(),
+  location: text,
+  description: text,
+  fileName: optionalString,
+});
+
+export type CalendarImportAction = (typeof CALENDAR_IMPORT_ACTIONS)[number];
+export type CalendarImportItem = z.infer<typeof calendarImportItemSchema>;
+export type CalendarImportPreview = z.infer<typeof calendarImportPreviewSchema>;
+export type CalendarImportResult = z.infer<typeof calendarImportResultSchema>;
+export type CalendarEvent = z.infer<typeof calendarEventSchema>;
+
+// ── Paginated lists ──────────────────────────────────────────────────────────
+
+/** One page of a cursor-paginated list (`GET /cases?limit=…`); `nextCursor` is null on the last page. */
+export function pageSchema<S extends z.ZodTypeAny>(item: S) {
+  return z.object({
+    items: z.array(item),
+    nextCursor: z.string().nullable(),
+    total: z.number(),
+  });
+}
+
+export interface Page<T> {
+  items: T[];
+  nextCursor: string | null;
+  total: number;
+}
+
+export const BOARD_GROUPINGS = ['status', 'stage'] as const;
+export type BoardGrouping = (typeof BOARD_GROUPINGS)[number];
+
+/** Case board column sizes (`GET /cases/board`): column id (status or stage node) → matching cases. */
+export const caseBoardCountsSchema = z.object({
+  groupBy: z.enum(BOARD_GROUPINGS),
+  columns: z.record(z.string(), z.number()),
+});
+
+export type CaseBoardCounts = z.infer<typeof caseBoardCountsSchema>;
+
+/** Totals over every invoice (`GET /invoices/summary`); pending is what sent and overdue invoices are owed. */
+export const invoiceSummarySchema = z.object({
+  count: z.number(),
+  billed: z.number(),
+  paid: z.number(),
+  pending: z.number(),
+});
+
+export type InvoiceSummary = z.infer<typeof invoiceSummarySchema>;